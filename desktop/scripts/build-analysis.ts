@@ -4,6 +4,7 @@
  */
 
 import * as esbuild from 'esbuild';
+import ts from 'typescript';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import * as fs from 'fs';
@@ -14,7 +15,44 @@ const __dirname = path.dirname(__filename);
 const desktopRoot = path.join(__dirname, '..');
 const parentRoot = path.join(desktopRoot, '..');
 const analysisDir = path.join(parentRoot, 'src/analysis');
+const instructionLinterDir = path.join(parentRoot, 'src/instruction-linter');
 const outDir = path.join(desktopRoot, 'dist/analysis');
+const typesDir = path.join(outDir, 'types');
+
+/**
+ * Emit declarations for the instruction linter so the main process imports
+ * the bundle's real types (dist/analysis/types/instruction-linter/index.d.ts).
+ * Declaration files are exempt from tsconfig.main's rootDir.
+ */
+function emitInstructionLinterTypes(): void {
+  const configPath = path.join(parentRoot, 'tsconfig.json');
+  const parsed = ts.getParsedCommandLineOfConfigFile(configPath, {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+      throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    },
+  });
+  if (!parsed) throw new Error(`Could not read ${configPath}`);
+
+  const program = ts.createProgram([path.join(instructionLinterDir, 'index.ts')], {
+    ...parsed.options,
+    outDir: typesDir,
+    declaration: true,
+    emitDeclarationOnly: true,
+    declarationMap: false,
+    sourceMap: false,
+    noEmit: false,
+  });
+  const result = program.emit();
+  const diagnostics = ts.getPreEmitDiagnostics(program).concat(result.diagnostics);
+  if (result.emitSkipped || diagnostics.some((d) => d.category === ts.DiagnosticCategory.Error)) {
+    throw new Error(ts.formatDiagnostics(diagnostics, {
+      getCanonicalFileName: (fileName) => fileName,
+      getCurrentDirectory: ts.sys.getCurrentDirectory,
+      getNewLine: () => '\n',
+    }));
+  }
+}
 
 async function build() {
   console.log('[build-analysis] Starting CJS bundle build...');
@@ -61,10 +99,28 @@ async function build() {
       drop: dropOptions,
     });
 
+    // Instruction linter shared with the `lint-instructions` CLI
+    await esbuild.build({
+      entryPoints: [path.join(instructionLinterDir, 'index.ts')],
+      bundle: true,
+      platform: 'node',
+      target: 'node18',
+      format: 'cjs',
+      outfile: path.join(outDir, 'instruction-linter-bundle.cjs'),
+      external: [],
+      sourcemap: false,
+      minify: false,
+      treeShaking: true,
+      drop: dropOptions,
+    });
+    emitInstructionLinterTypes();
+
     console.log('[build-analysis] Build complete!');
     console.log('[build-analysis] Output files:');
     console.log('  - dist/analysis/analysis-bundle.cjs');
     console.log('  - dist/analysis/classifier-bundle.cjs');
+    console.log('  - dist/analysis/instruction-linter-bundle.cjs');
+    console.log('  - dist/analysis/types/instruction-linter/index.d.ts');
   } catch (error) {
     console.error('[build-analysis] Build failed:', error);
     process.exit(1);
@@ -5,11 +5,15 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
-import { SCHEMA_V4_MIGRATIONS } from '../schema.js';
+import { SCHEMA_V4_MIGRATIONS, SCHEMA_V6_MIGRATIONS } from '../schema.js';
 import {
   saveAnalysis,
   getHistory,
   getLatestForFile,
+  saveFix,
+  getFixHistory,
+  getLatestUndoableFix,
+  markFixUndone,
 } from '../instruction-repository.js';
 import type { LintResult } from '../../instruction-linter/index.js';
 
@@ -22,6 +26,7 @@ function createTestDb(): Database.Database {
   db.pragma('journal_mode = WAL');
   db.pragma('foreign_keys = ON');
   db.exec(SCHEMA_V4_MIGRATIONS);
+  db.exec(SCHEMA_V6_MIGRATIONS);
   return db;
 }
 
@@ -55,6 +60,7 @@ function makeLintResult(overrides?: Partial<LintResult>): LintResult {
         type: 'add-section',
         suggestedText: '## Anti-Patterns\n\n| Wrong | Correct |',
         description: 'Add anti-patterns section',
+        safe: false,
       },
     ],
     sections: [
@@ -357,4 +363,69 @@ describe('instruction-repository', () => {
       expect(latest!.references).toEqual([]);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Fixes (undo stack)
+  // -------------------------------------------------------------------------
+
+  describe('fixes', () => {
+    const FILE = '/projects/my-app/CLAUDE.md';
+
+    function applyFix(before: string, after: string, filePath = FILE): number {
+      return saveFix(db, {
+        filePath,
+        analysisId: null,
+        contentBefore: before,
+        contentAfter: after,
+        suggestions: makeLintResult().suggestions,
+      });
+    }
+
+    it('should save a fix linked to its analysis', () => {
+      const analysisId = saveAnalysis(db, makeLintResult());
+      const id = saveFix(db, {
+        filePath: FILE,
+        analysisId,
+        contentBefore: 'a',
+        contentAfter: 'b',
+        suggestions: [],
+      });
+
+      const [entry] = getFixHistory(db, FILE);
+      expect(entry).toMatchObject({ id, analysisId, suggestions: [], undoneAt: null });
+      expect(entry).not.toHaveProperty('contentBefore');
+    });
+
+    it('should return the newest fix that is not undone', () => {
+      applyFix('v1', 'v2');
+      const second = applyFix('v2', 'v3');
+      applyFix('x', 'y', '/other/CLAUDE.md');
+
+      const top = getLatestUndoableFix(db, FILE);
+      expect(top).toMatchObject({ id: second, contentBefore: 'v2', contentAfter: 'v3' });
+      expect(top!.suggestions).toEqual(makeLintResult().suggestions);
+    });
+
+    it('should walk back the stack as fixes are undone', () => {
+      const first = applyFix('v1', 'v2');
+      const second = applyFix('v2', 'v3');
+
+      markFixUndone(db, second);
+      expect(getLatestUndoableFix(db, FILE)!.id).toBe(first);
+
+      markFixUndone(db, first);
+      expect(getLatestUndoableFix(db, FILE)).toBeNull();
+      expect(getFixHistory(db, FILE).every(e => e.undoneAt !== null)).toBe(true);
+    });
+
+    it('should list history newest first with a limit', () => {
+      applyFix('v1', 'v2');
+      applyFix('v2', 'v3');
+      const third = applyFix('v3', 'v4');
+
+      const history = getFixHistory(db, FILE, 2);
+      expect(history).toHaveLength(2);
+      expect(history[0].id).toBe(third);
+    });
+  });
 });
@@ -5,7 +5,7 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
-import { SCHEMA_V4_MIGRATIONS, DESKTOP_SCHEMA_VERSION } from '../schema.js';
+import { SCHEMA_V4_MIGRATIONS } from '../schema.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -76,10 +76,6 @@ describe('Schema V4 Migration', () => {
     db.close();
   });
 
-  it('should have DESKTOP_SCHEMA_VERSION set to 4', () => {
-    expect(DESKTOP_SCHEMA_VERSION).toBe(4);
-  });
-
   it('should create instruction_analysis table with correct columns', () => {
     db.exec(SCHEMA_V4_MIGRATIONS);
 
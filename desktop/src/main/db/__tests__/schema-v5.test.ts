@@ -0,0 +1,94 @@
+/**
+ * Tests for schema v5 migration
+ * Verifies the instruction_analysis rebuild widens file_format and keeps existing rows
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SCHEMA_V4_MIGRATIONS, SCHEMA_V5_MIGRATIONS } from '../schema.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const INSERT_SQL = `
+  INSERT INTO instruction_analysis (
+    file_path, file_format, overall_score, grade,
+    golden_goal, golden_output, golden_limits,
+    golden_data, golden_evaluation, golden_next, issues_json
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+function insertAnalysis(db: Database.Database, filePath: string, format: string): void {
+  db.prepare(INSERT_SQL).run(filePath, format, 80, 'B', 70, 80, 60, 75, 85, 90, '[]');
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Schema V5 Migration', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(SCHEMA_V4_MIGRATIONS);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should reject new formats before the migration', () => {
+    expect(() => insertAnalysis(db, '/p/AGENTS.md', 'agents-md')).toThrow(/CHECK constraint/);
+  });
+
+  it('should keep existing rows and ids', () => {
+    insertAnalysis(db, '/p/CLAUDE.md', 'claude-md');
+    insertAnalysis(db, '/p/.cursorrules', 'cursorrules');
+
+    db.exec(SCHEMA_V5_MIGRATIONS);
+
+    const rows = db.prepare('SELECT id, file_path, file_format, issues_json FROM instruction_analysis ORDER BY id').all();
+    expect(rows).toEqual([
+      { id: 1, file_path: '/p/CLAUDE.md', file_format: 'claude-md', issues_json: '[]' },
+      { id: 2, file_path: '/p/.cursorrules', file_format: 'cursorrules', issues_json: '[]' },
+    ]);
+  });
+
+  it('should accept every new format and still reject unknown ones', () => {
+    db.exec(SCHEMA_V5_MIGRATIONS);
+
+    for (const format of ['agents-md', 'gemini-md', 'cursor-mdc', 'windsurfrules', 'copilot-path-instructions']) {
+      expect(() => insertAnalysis(db, `/p/${format}`, format)).not.toThrow();
+    }
+    expect(() => insertAnalysis(db, '/p/x', 'invalid-format')).toThrow(/CHECK constraint/);
+  });
+
+  it('should recreate indexes and drop the temporary table', () => {
+    db.exec(SCHEMA_V5_MIGRATIONS);
+
+    const indexes = (db.prepare('PRAGMA index_list(instruction_analysis)').all() as Array<{ name: string }>)
+      .map(r => r.name);
+    expect(indexes).toEqual(expect.arrayContaining([
+      'idx_instruction_path',
+      'idx_instruction_date',
+      'idx_instruction_grade',
+    ]));
+
+    const leftover = db.prepare(
+      `SELECT name FROM sqlite_master WHERE type='table' AND name='instruction_analysis_v5'`
+    ).get();
+    expect(leftover).toBeUndefined();
+  });
+
+  it('should be safe to run twice', () => {
+    insertAnalysis(db, '/p/CLAUDE.md', 'claude-md');
+
+    db.exec(SCHEMA_V5_MIGRATIONS);
+    expect(() => db.exec(SCHEMA_V5_MIGRATIONS)).not.toThrow();
+
+    const row = db.prepare('SELECT COUNT(*) as n FROM instruction_analysis').get() as { n: number };
+    expect(row.n).toBe(1);
+  });
+});
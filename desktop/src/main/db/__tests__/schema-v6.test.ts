@@ -0,0 +1,62 @@
+/**
+ * Tests for schema v6 migration
+ * Verifies the instruction_fixes undo table is created alongside instruction_analysis
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  SCHEMA_V4_MIGRATIONS,
+  SCHEMA_V5_MIGRATIONS,
+  SCHEMA_V6_MIGRATIONS,
+  DESKTOP_SCHEMA_VERSION,
+} from '../schema.js';
+
+describe('Schema V6 Migration', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+    db.exec(SCHEMA_V4_MIGRATIONS);
+    db.exec(SCHEMA_V5_MIGRATIONS);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should have DESKTOP_SCHEMA_VERSION set to 6', () => {
+    expect(DESKTOP_SCHEMA_VERSION).toBe(6);
+  });
+
+  it('should create instruction_fixes with its index', () => {
+    db.exec(SCHEMA_V6_MIGRATIONS);
+
+    const columns = (db.prepare('PRAGMA table_info(instruction_fixes)').all() as Array<{ name: string }>)
+      .map(c => c.name);
+    expect(columns).toEqual([
+      'id', 'file_path', 'analysis_id', 'content_before', 'content_after',
+      'suggestions_json', 'applied_at', 'undone_at',
+    ]);
+
+    const indexes = (db.prepare('PRAGMA index_list(instruction_fixes)').all() as Array<{ name: string }>)
+      .map(r => r.name);
+    expect(indexes).toContain('idx_instruction_fixes_path');
+  });
+
+  it('should not block a later instruction_analysis rebuild', () => {
+    db.exec(SCHEMA_V6_MIGRATIONS);
+    db.prepare(`
+      INSERT INTO instruction_fixes (file_path, analysis_id, content_before, content_after)
+      VALUES ('/p/CLAUDE.md', 1, 'a', 'b')
+    `).run();
+
+    expect(() => db.exec(SCHEMA_V5_MIGRATIONS)).not.toThrow();
+  });
+
+  it('should be safe to run twice', () => {
+    db.exec(SCHEMA_V6_MIGRATIONS);
+    expect(() => db.exec(SCHEMA_V6_MIGRATIONS)).not.toThrow();
+  });
+});
@@ -13,6 +13,8 @@ import {
   DESKTOP_SCHEMA_V2_INDEXES,
   SCHEMA_V3_MIGRATIONS,
   SCHEMA_V4_MIGRATIONS,
+  SCHEMA_V5_MIGRATIONS,
+  SCHEMA_V6_MIGRATIONS,
   DESKTOP_SCHEMA_VERSION,
 } from './schema.js';
 
@@ -278,6 +280,35 @@ function runMigrations(database: Database.Database): void {
     }
   }
 
+  // Instruction analysis: Version 5 migration (wider file_format constraint)
+  if (currentVersion < 5) {
+    console.log('[DB] Running migration to version 5...');
+    try {
+      // Table rebuild must not leave a half-copied table behind
+      database.transaction(() => {
+        database.exec(SCHEMA_V5_MIGRATIONS);
+        database.prepare(`UPDATE schema_version SET version = 5`).run();
+      })();
+      console.log('[DB] Migration to version 5 complete');
+    } catch (error) {
+      console.warn('[DB] V5 migration error (may be already migrated):', error);
+    }
+  }
+
+  // Instruction fixes: Version 6 migration (undo stack for applied suggestions)
+  if (currentVersion < 6) {
+    console.log('[DB] Running migration to version 6...');
+    try {
+      database.exec(SCHEMA_V6_MIGRATIONS);
+
+      // Update version
+      database.prepare(`UPDATE schema_version SET version = 6`).run();
+      console.log('[DB] Migration to version 6 complete');
+    } catch (error) {
+      console.warn('[DB] V6 migration error (may be already migrated):', error);
+    }
+  }
+
   console.log(`[DB] Schema version: ${DESKTOP_SCHEMA_VERSION}`);
 }
 
@@ -193,3 +193,121 @@ export function getLatestForFile(
   const row = stmt.get(filePath) as InstructionRow | undefined;
   return row ? rowToAnalysis(row) : null;
 }
+
+// ---------------------------------------------------------------------------
+// Applied fixes (undo stack)
+// ---------------------------------------------------------------------------
+
+export interface InstructionFixInput {
+  filePath: string;
+  analysisId: number | null;
+  contentBefore: string;
+  contentAfter: string;
+  suggestions: LintResult['suggestions'];
+}
+
+export interface InstructionFixEntry {
+  id: number;
+  filePath: string;
+  analysisId: number | null;
+  suggestions: LintResult['suggestions'];
+  appliedAt: string;
+  undoneAt: string | null;
+}
+
+export interface InstructionFix extends InstructionFixEntry {
+  contentBefore: string;
+  contentAfter: string;
+}
+
+interface InstructionFixRow {
+  id: number;
+  file_path: string;
+  analysis_id: number | null;
+  content_before: string;
+  content_after: string;
+  suggestions_json: string | null;
+  applied_at: string;
+  undone_at: string | null;
+}
+
+function rowToFixEntry(row: InstructionFixRow): InstructionFixEntry {
+  return {
+    id: row.id,
+    filePath: row.file_path,
+    analysisId: row.analysis_id,
+    suggestions: row.suggestions_json ? JSON.parse(row.suggestions_json) : [],
+    appliedAt: row.applied_at,
+    undoneAt: row.undone_at,
+  };
+}
+
+/**
+ * Record an applied batch of suggestion edits with the full file
+ * content on both sides so it can be undone.
+ * Returns the new row ID.
+ */
+export function saveFix(db: Database.Database, fix: InstructionFixInput): number {
+  const stmt = db.prepare(`
+    INSERT INTO instruction_fixes (
+      file_path, analysis_id, content_before, content_after, suggestions_json, applied_at
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const result = stmt.run(
+    fix.filePath,
+    fix.analysisId,
+    fix.contentBefore,
+    fix.contentAfter,
+    fix.suggestions.length > 0 ? JSON.stringify(fix.suggestions) : null,
+    new Date().toISOString(),
+  );
+
+  return result.lastInsertRowid as number;
+}
+
+/**
+ * Get applied fixes for a file, newest first (undone entries included).
+ */
+export function getFixHistory(
+  db: Database.Database,
+  filePath: string,
+  limit = 20,
+): InstructionFixEntry[] {
+  const stmt = db.prepare(`
+    SELECT * FROM instruction_fixes
+    WHERE file_path = ?
+    ORDER BY applied_at DESC, id DESC
+    LIMIT ?
+  `);
+  const rows = stmt.all(filePath, limit) as InstructionFixRow[];
+  return rows.map(rowToFixEntry);
+}
+
+/**
+ * Get the top of a file's undo stack: the newest fix not yet undone.
+ * Returns null if there is nothing to undo.
+ */
+export function getLatestUndoableFix(
+  db: Database.Database,
+  filePath: string,
+): InstructionFix | null {
+  const stmt = db.prepare(`
+    SELECT * FROM instruction_fixes
+    WHERE file_path = ? AND undone_at IS NULL
+    ORDER BY applied_at DESC, id DESC
+    LIMIT 1
+  `);
+  const row = stmt.get(filePath) as InstructionFixRow | undefined;
+  return row
+    ? { ...rowToFixEntry(row), contentBefore: row.content_before, contentAfter: row.content_after }
+    : null;
+}
+
+/**
+ * Mark a fix as undone so the next undo goes one step further back.
+ */
+export function markFixUndone(db: Database.Database, id: number): void {
+  db.prepare(`UPDATE instruction_fixes SET undone_at = ? WHERE id = ?`)
+    .run(new Date().toISOString(), id);
+}
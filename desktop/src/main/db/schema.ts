@@ -136,7 +136,10 @@ CREATE TABLE IF NOT EXISTS prompt_templates (
 CREATE TABLE IF NOT EXISTS instruction_analysis (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   file_path TEXT NOT NULL,
-  file_format TEXT NOT NULL CHECK(file_format IN ('claude-md', 'cursorrules', 'copilot-instructions')),
+  file_format TEXT NOT NULL CHECK(file_format IN (
+    'claude-md', 'cursorrules', 'copilot-instructions',
+    'agents-md', 'gemini-md', 'cursor-mdc', 'windsurfrules', 'copilot-path-instructions'
+  )),
   overall_score INTEGER NOT NULL,
   grade TEXT NOT NULL CHECK(grade IN ('A', 'B', 'C', 'D', 'F')),
   golden_goal INTEGER NOT NULL,
@@ -154,6 +157,18 @@ CREATE TABLE IF NOT EXISTS instruction_analysis (
   analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Instruction Fixes (적용된 제안 편집 + 되돌리기 스택)
+CREATE TABLE IF NOT EXISTS instruction_fixes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  file_path TEXT NOT NULL,
+  analysis_id INTEGER,
+  content_before TEXT NOT NULL,
+  content_after TEXT NOT NULL,
+  suggestions_json TEXT,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  undone_at DATETIME
+);
+
 -- All indexes
 CREATE INDEX IF NOT EXISTS idx_history_score ON prompt_history(overall_score);
 CREATE INDEX IF NOT EXISTS idx_history_grade ON prompt_history(grade);
@@ -169,6 +184,7 @@ CREATE INDEX IF NOT EXISTS idx_templates_active ON prompt_templates(is_active);
 CREATE INDEX IF NOT EXISTS idx_instruction_path ON instruction_analysis(file_path);
 CREATE INDEX IF NOT EXISTS idx_instruction_date ON instruction_analysis(analyzed_at);
 CREATE INDEX IF NOT EXISTS idx_instruction_grade ON instruction_analysis(grade);
+CREATE INDEX IF NOT EXISTS idx_instruction_fixes_path ON instruction_fixes(file_path, applied_at);
 `;
 
 /**
@@ -253,4 +269,76 @@ CREATE INDEX IF NOT EXISTS idx_instruction_date ON instruction_analysis(analyzed
 CREATE INDEX IF NOT EXISTS idx_instruction_grade ON instruction_analysis(grade);
 `;
 
-export const DESKTOP_SCHEMA_VERSION = 4;
+/**
+ * V5: Widen instruction_analysis.file_format for AGENTS.md, GEMINI.md,
+ * Cursor MDC rules, .windsurfrules and Copilot path instructions.
+ * SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+ */
+export const SCHEMA_V5_MIGRATIONS = `
+CREATE TABLE IF NOT EXISTS instruction_analysis_v5 (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  file_path TEXT NOT NULL,
+  file_format TEXT NOT NULL CHECK(file_format IN (
+    'claude-md', 'cursorrules', 'copilot-instructions',
+    'agents-md', 'gemini-md', 'cursor-mdc', 'windsurfrules', 'copilot-path-instructions'
+  )),
+  overall_score INTEGER NOT NULL,
+  grade TEXT NOT NULL CHECK(grade IN ('A', 'B', 'C', 'D', 'F')),
+  golden_goal INTEGER NOT NULL,
+  golden_output INTEGER NOT NULL,
+  golden_limits INTEGER NOT NULL,
+  golden_data INTEGER NOT NULL,
+  golden_evaluation INTEGER NOT NULL,
+  golden_next INTEGER NOT NULL,
+  issues_json TEXT,
+  suggestions_json TEXT,
+  sections_json TEXT,
+  references_json TEXT,
+  file_size INTEGER,
+  line_count INTEGER,
+  analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO instruction_analysis_v5 (
+  id, file_path, file_format, overall_score, grade,
+  golden_goal, golden_output, golden_limits, golden_data, golden_evaluation, golden_next,
+  issues_json, suggestions_json, sections_json, references_json,
+  file_size, line_count, analyzed_at
+)
+SELECT
+  id, file_path, file_format, overall_score, grade,
+  golden_goal, golden_output, golden_limits, golden_data, golden_evaluation, golden_next,
+  issues_json, suggestions_json, sections_json, references_json,
+  file_size, line_count, analyzed_at
+FROM instruction_analysis;
+
+DROP TABLE instruction_analysis;
+ALTER TABLE instruction_analysis_v5 RENAME TO instruction_analysis;
+
+-- Instruction analysis indexes (dropped with the old table)
+CREATE INDEX IF NOT EXISTS idx_instruction_path ON instruction_analysis(file_path);
+CREATE INDEX IF NOT EXISTS idx_instruction_date ON instruction_analysis(analyzed_at);
+CREATE INDEX IF NOT EXISTS idx_instruction_grade ON instruction_analysis(grade);
+`;
+
+/**
+ * V6: Applied suggestion edits, kept as an undo stack next to
+ * instruction_analysis. analysis_id points at the analysis the edits came from.
+ */
+export const SCHEMA_V6_MIGRATIONS = `
+-- Instruction Fixes (적용된 제안 편집 + 되돌리기 스택)
+CREATE TABLE IF NOT EXISTS instruction_fixes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  file_path TEXT NOT NULL,
+  analysis_id INTEGER,
+  content_before TEXT NOT NULL,
+  content_after TEXT NOT NULL,
+  suggestions_json TEXT,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  undone_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_instruction_fixes_path ON instruction_fixes(file_path, applied_at);
+`;
+
+export const DESKTOP_SCHEMA_VERSION = 6;
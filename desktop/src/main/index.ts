@@ -30,9 +30,22 @@ import {
 import { initAutoUpdater, cleanupAutoUpdater } from './auto-updater.js';
 import { closeDatabase, getDatabase } from './db/connection.js';
 import { saveAnalysis } from './db/history-crud.js';
-import { saveAnalysis as saveInstructionAnalysis, getHistory as getInstructionHistory } from './db/instruction-repository.js';
-import { lintInstructionFile } from './instruction-linter/index.js';
+import {
+  saveAnalysis as saveInstructionAnalysis,
+  getHistory as getInstructionHistory,
+  getFixHistory as getInstructionFixHistory,
+} from './db/instruction-repository.js';
+import {
+  lintInstructionFile,
+  discoverInstructionFiles,
+  resolveEffectiveInstructions,
+} from './instruction-linter/index.js';
 import { generateClaudeMdDraft } from './instruction-linter/claude-md-generator.js';
+import {
+  previewInstructionFixes,
+  applyInstructionFixes,
+  undoInstructionFix,
+} from './instruction-linter/fixes.js';
 import {
   showAIContextButton,
   hideAIContextButton,
@@ -1025,35 +1038,11 @@ The component should follow React best practices and be reusable across the appl
 
   registerInstructionHandlers({
     lintFile: (filePath: string) => lintInstructionFile(filePath),
+    lintEffective: (targetPath: string) => resolveEffectiveInstructions(targetPath),
     saveLintResult: (result) => saveInstructionAnalysis(getDatabase(), result),
     detectFiles: (projectPath?: string) => {
       if (!projectPath) return [];
-      const candidates = [
-        'CLAUDE.md',
-        '.cursorrules',
-        '.github/copilot-instructions.md',
-      ];
-      const found: Array<{ path: string; format: string; size: number; lastModified: string }> = [];
-      for (const name of candidates) {
-        const fullPath = path.join(projectPath, name);
-        try {
-          const stat = fs.statSync(fullPath);
-          if (stat.isFile()) {
-            const format = name === 'CLAUDE.md' ? 'claude-md'
-              : name === '.cursorrules' ? 'cursorrules'
-              : 'copilot-instructions';
-            found.push({
-              path: fullPath,
-              format,
-              size: stat.size,
-              lastModified: stat.mtime.toISOString(),
-            });
-          }
-        } catch {
-          // File doesn't exist, skip
-        }
-      }
-      return found;
+      return discoverInstructionFiles(projectPath);
     },
     getHistory: (opts) => getInstructionHistory(getDatabase(), opts),
     generateClaudeMd: (projectPath: string) => {
@@ -1068,6 +1057,11 @@ The component should follow React best practices and be reusable across the appl
         return { success: false, message: String(err) };
       }
     },
+    previewFixes: (filePath, suggestions, projectRoot) => previewInstructionFixes(filePath, suggestions, projectRoot),
+    applyFixes: (filePath, suggestions, projectRoot) =>
+      applyInstructionFixes(getDatabase(), filePath, suggestions, projectRoot),
+    undoFix: (filePath) => undoInstructionFix(getDatabase(), filePath),
+    getFixHistory: (filePath, limit) => getInstructionFixHistory(getDatabase(), filePath, limit),
   });
 }
 
@@ -0,0 +1,153 @@
+/**
+ * Tests for fixes.ts
+ *
+ * Real temporary files and the root linter; the repository is replaced by
+ * an in-memory undo stack so the flow runs without the SQLite binding.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import type { InstructionFix, InstructionFixInput } from '../../db/instruction-repository.js';
+
+vi.mock('../index.js', async () => {
+  const linter = await import('../../../../../src/instruction-linter/index.js');
+  return {
+    lintInstructionFile: linter.lintInstructionFile,
+    previewSuggestionEdits: linter.previewSuggestionEdits,
+  };
+});
+
+const fixes: InstructionFix[] = [];
+const analyses: Array<{ id: number; filePath: string }> = [];
+
+vi.mock('../../db/instruction-repository.js', () => ({
+  saveAnalysis: vi.fn((_db: unknown, result: { filePath: string }) => {
+    analyses.push({ id: analyses.length + 1, filePath: result.filePath });
+    return analyses.length;
+  }),
+  getLatestForFile: vi.fn((_db: unknown, filePath: string) =>
+    [...analyses].reverse().find(a => a.filePath === filePath) ?? null),
+  saveFix: vi.fn((_db: unknown, fix: InstructionFixInput) => {
+    fixes.push({ ...fix, id: fixes.length + 1, appliedAt: new Date().toISOString(), undoneAt: null });
+    return fixes.length;
+  }),
+  getLatestUndoableFix: vi.fn((_db: unknown, filePath: string) =>
+    [...fixes].reverse().find(f => f.filePath === filePath && !f.undoneAt) ?? null),
+  markFixUndone: vi.fn((_db: unknown, id: number) => {
+    fixes[id - 1].undoneAt = new Date().toISOString();
+  }),
+}));
+
+import { lintInstructionFile } from '../index.js';
+import { previewInstructionFixes, applyInstructionFixes, undoInstructionFix } from '../fixes.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SECRET = 'sk-ant-REDACTED';
+
+const CONTENT = [
+  '# Project',
+  '',
+  'This project is a web app built with TypeScript.',
+  '',
+  '## Commands',
+  '',
+  '```bash',
+  'npm run build && npm test',
+  '```',
+  '',
+  `API_KEY=${SECRET}`,
+].join('\n');
+
+const db = {} as Database.Database;
+let tmpDir: string;
+let filePath: string;
+
+function safeSuggestions() {
+  return lintInstructionFile(filePath).suggestions.filter(s => s.safe);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('instruction fixes', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pe-fixes-'));
+    filePath = path.join(tmpDir, 'CLAUDE.md');
+    fs.writeFileSync(filePath, CONTENT, 'utf-8');
+    fixes.length = 0;
+    analyses.length = 0;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('previews a diff without touching the file', () => {
+    const preview = previewInstructionFixes(filePath, safeSuggestions());
+
+    expect(preview.applied).toEqual([0]);
+    expect(preview.diff).toContain('--- a/CLAUDE.md\n+++ b/CLAUDE.md');
+    expect(preview.diff).toContain(`-API_KEY=${SECRET}`);
+    expect(preview.diff).toContain('+API_KEY=<REDACTED>');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(CONTENT);
+  });
+
+  it('shows diff headers relative to the project root', () => {
+    const nested = path.join(tmpDir, 'packages', 'api', 'CLAUDE.md');
+    fs.mkdirSync(path.dirname(nested), { recursive: true });
+    fs.writeFileSync(nested, CONTENT, 'utf-8');
+    const suggestions = lintInstructionFile(nested).suggestions.filter(s => s.safe);
+
+    const preview = previewInstructionFixes(nested, suggestions, tmpDir);
+
+    expect(preview.diff).toContain('--- a/packages/api/CLAUDE.md\n+++ b/packages/api/CLAUDE.md');
+  });
+
+  it('applies edits, records the undo entry and re-lints', () => {
+    const outcome = applyInstructionFixes(db, filePath, safeSuggestions());
+
+    expect(outcome.success).toBe(true);
+    expect(fs.readFileSync(filePath, 'utf-8')).toContain('API_KEY=<REDACTED>');
+    expect(fixes[0]).toMatchObject({ filePath, contentBefore: CONTENT, undoneAt: null });
+    expect(outcome.fixId).toBe(1);
+    expect(outcome.result!.issues.some(i => i.type === 'security')).toBe(false);
+  });
+
+  it('reports stale edits when the file changed after linting', () => {
+    const suggestions = safeSuggestions();
+    fs.writeFileSync(filePath, CONTENT.replace('API_KEY', 'TOKEN'), 'utf-8');
+
+    const outcome = applyInstructionFixes(db, filePath, suggestions);
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.conflicts).toEqual([{ index: 0, reason: 'stale' }]);
+    expect(fixes).toHaveLength(0);
+  });
+
+  it('undoes the newest fix', () => {
+    applyInstructionFixes(db, filePath, safeSuggestions());
+
+    const undone = undoInstructionFix(db, filePath);
+
+    expect(undone).toMatchObject({ success: true, fixId: 1 });
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(CONTENT);
+    expect(undoInstructionFix(db, filePath)).toEqual({ success: false, message: 'Nothing to undo' });
+  });
+
+  it('refuses to undo over manual edits', () => {
+    applyInstructionFixes(db, filePath, safeSuggestions());
+    fs.appendFileSync(filePath, '\nEdited by hand.', 'utf-8');
+
+    const undone = undoInstructionFix(db, filePath);
+
+    expect(undone).toEqual({ success: false, message: 'File changed since the fix was applied' });
+    expect(fs.readFileSync(filePath, 'utf-8')).toContain('Edited by hand.');
+  });
+});
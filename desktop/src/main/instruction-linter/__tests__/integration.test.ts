@@ -14,7 +14,7 @@ import os from 'node:os';
 import path from 'node:path';
 import Database from 'better-sqlite3';
 import { SCHEMA_V4_MIGRATIONS } from '../../db/schema.js';
-import { lintInstructionFile } from '../index.js';
+import { lintInstructionFile } from '../../../../../src/instruction-linter/index.js';
 import {
   saveAnalysis,
   getHistory,
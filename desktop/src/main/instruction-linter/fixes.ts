@@ -0,0 +1,146 @@
+/**
+ * Instruction Fixes
+ *
+ * Applies the line-range edits carried by lint suggestions to files on disk
+ * and keeps an undo stack next to the instruction_analysis history.
+ *
+ * Exported functions:
+ *   previewInstructionFixes: unified diff + conflicts for the chosen suggestions
+ *   applyInstructionFixes:   write the non-conflicting edits, record the undo entry, re-lint
+ *   undoInstructionFix:      restore the content before the newest fix, re-lint
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import {
+  lintInstructionFile,
+  previewSuggestionEdits,
+  type EditConflict,
+  type LintResult,
+  type SuggestionEditPreview,
+} from './index.js';
+import {
+  saveAnalysis,
+  getLatestForFile,
+  saveFix,
+  getLatestUndoableFix,
+  markFixUndone,
+} from '../db/instruction-repository.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Suggestion = LintResult['suggestions'][number];
+
+export interface ApplyFixesResult {
+  success: boolean;
+  message?: string;
+  /** Undo stack entry for this batch */
+  fixId?: number;
+  /** Indexes (into the suggestions passed in) that were applied */
+  applied: number[];
+  conflicts: EditConflict[];
+  /** Fresh analysis of the patched file */
+  result?: LintResult;
+}
+
+export interface UndoFixResult {
+  success: boolean;
+  message?: string;
+  /** The undo stack entry that was reverted */
+  fixId?: number;
+  result?: LintResult;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function relintAndSave(db: Database.Database, filePath: string): LintResult {
+  const result = lintInstructionFile(filePath);
+  saveAnalysis(db, result);
+  return result;
+}
+
+// =============================================================================
+// Preview / Apply / Undo
+// =============================================================================
+
+/**
+ * Preview the chosen suggestions against the file as it is now.
+ * Edits computed from an older analysis show up as `stale` conflicts.
+ * Diff headers are relative to `projectRoot` (the file's directory by default).
+ */
+export function previewInstructionFixes(
+  filePath: string,
+  suggestions: Suggestion[],
+  projectRoot: string = path.dirname(filePath),
+): SuggestionEditPreview {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return previewSuggestionEdits(content, suggestions, { path: filePath, root: projectRoot });
+}
+
+/**
+ * Apply every non-conflicting edit of the chosen suggestions in one write.
+ * Nothing is written when no edit applies.
+ */
+export function applyInstructionFixes(
+  db: Database.Database,
+  filePath: string,
+  suggestions: Suggestion[],
+  projectRoot: string = path.dirname(filePath),
+): ApplyFixesResult {
+  const contentBefore = fs.readFileSync(filePath, 'utf-8');
+  const preview = previewSuggestionEdits(contentBefore, suggestions, { path: filePath, root: projectRoot });
+  if (preview.applied.length === 0) {
+    return {
+      success: false,
+      message: 'No edits could be applied',
+      applied: [],
+      conflicts: preview.conflicts,
+    };
+  }
+
+  // The analysis the suggestions came from (saved by lint-instruction-file)
+  const analysisId = getLatestForFile(db, filePath)?.id ?? null;
+
+  fs.writeFileSync(filePath, preview.content, 'utf-8');
+  const fixId = saveFix(db, {
+    filePath,
+    analysisId,
+    contentBefore,
+    contentAfter: preview.content,
+    suggestions: preview.applied.map(i => suggestions[i]),
+  });
+
+  return {
+    success: true,
+    fixId,
+    applied: preview.applied,
+    conflicts: preview.conflicts,
+    result: relintAndSave(db, filePath),
+  };
+}
+
+/**
+ * Revert the newest fix that has not been undone yet.
+ * Refuses when the file was edited after the fix, so manual changes are never lost.
+ */
+export function undoInstructionFix(db: Database.Database, filePath: string): UndoFixResult {
+  const fix = getLatestUndoableFix(db, filePath);
+  if (!fix) {
+    return { success: false, message: 'Nothing to undo' };
+  }
+
+  const current = fs.readFileSync(filePath, 'utf-8');
+  if (current !== fix.contentAfter) {
+    return { success: false, message: 'File changed since the fix was applied' };
+  }
+
+  fs.writeFileSync(filePath, fix.contentBefore, 'utf-8');
+  markFixUndone(db, fix.id);
+
+  return { success: true, fixId: fix.id, result: relintAndSave(db, filePath) };
+}
@@ -50,17 +50,46 @@ describe('Instruction Handlers', () => {
     confidence: 0.85,
   };
 
+  const mockEffectiveResult = {
+    targetPath: '/tmp/project/src',
+    projectRoot: '/tmp/project',
+    files: [{ path: '/tmp/project/CLAUDE.md', scope: 'project', depth: 0, lineCount: 3, tokens: 12 }],
+    issues: [],
+    tokenBudget: { totalTokens: 12, budget: 10_000, overBudget: false, byFile: [] },
+  };
+
+  const mockFixSuggestion = {
+    issueIndex: 0,
+    type: 'remove',
+    suggestedText: 'Move secrets to environment variables',
+    description: 'Remove secret',
+    edit: { lineStart: 5, lineEnd: 5, original: ['API_KEY=sk-123'], replacement: ['API_KEY=<REDACTED>'] },
+    safe: true,
+  };
+
+  const mockPreview = {
+    content: 'API_KEY=<REDACTED>',
+    diff: '--- a/CLAUDE.md\n+++ b/CLAUDE.md\n',
+    applied: [0],
+    conflicts: [],
+  };
+
   beforeEach(async () => {
     vi.clearAllMocks();
     mockIpcHandlers.clear();
 
     deps = {
       lintFile: vi.fn().mockReturnValue(mockLintResult),
+      lintEffective: vi.fn().mockReturnValue(mockEffectiveResult),
       saveLintResult: vi.fn().mockReturnValue(1),
       detectFiles: vi.fn().mockReturnValue(mockDetectedFiles),
       getHistory: vi.fn().mockReturnValue(mockHistory),
       generateClaudeMd: vi.fn().mockReturnValue(mockGenerateResult),
       saveInstructionFile: vi.fn().mockReturnValue({ success: true }),
+      previewFixes: vi.fn().mockReturnValue(mockPreview),
+      applyFixes: vi.fn().mockReturnValue({ success: true, fixId: 1, applied: [0], conflicts: [] }),
+      undoFix: vi.fn().mockReturnValue({ success: true, fixId: 1 }),
+      getFixHistory: vi.fn().mockReturnValue([]),
     };
 
     const { registerInstructionHandlers } = await import('../instruction-handlers.js');
@@ -70,14 +99,19 @@ describe('Instruction Handlers', () => {
   describe('IPC registration', () => {
     it('should register all instruction handlers', () => {
       expect(mockIpcHandlers.has('lint-instruction-file')).toBe(true);
+      expect(mockIpcHandlers.has('lint-effective-instructions')).toBe(true);
       expect(mockIpcHandlers.has('detect-instruction-files')).toBe(true);
       expect(mockIpcHandlers.has('get-instruction-history')).toBe(true);
       expect(mockIpcHandlers.has('generate-claude-md')).toBe(true);
       expect(mockIpcHandlers.has('save-instruction-file')).toBe(true);
+      expect(mockIpcHandlers.has('preview-instruction-fixes')).toBe(true);
+      expect(mockIpcHandlers.has('apply-instruction-fixes')).toBe(true);
+      expect(mockIpcHandlers.has('undo-instruction-fix')).toBe(true);
+      expect(mockIpcHandlers.has('get-instruction-fix-history')).toBe(true);
     });
 
     it('should have correct number of handlers', () => {
-      expect(mockIpcHandlers.size).toBe(5);
+      expect(mockIpcHandlers.size).toBe(10);
     });
   });
 
@@ -115,6 +149,25 @@ describe('Instruction Handlers', () => {
     });
   });
 
+  describe('lint-effective-instructions', () => {
+    it('should resolve the merged chain without saving it', async () => {
+      const handler = mockIpcHandlers.get('lint-effective-instructions')!;
+      const result = await handler(null, { targetPath: '/tmp/project/src' });
+
+      expect(deps.lintEffective).toHaveBeenCalledWith('/tmp/project/src');
+      expect(deps.saveLintResult).not.toHaveBeenCalled();
+      expect(result).toEqual(mockEffectiveResult);
+    });
+
+    it('should reject paths outside home/tmp', async () => {
+      const handler = mockIpcHandlers.get('lint-effective-instructions')!;
+      const result = await handler(null, { targetPath: '/etc' });
+
+      expect(result).toEqual({ error: 'Invalid target path' });
+      expect(deps.lintEffective).not.toHaveBeenCalled();
+    });
+  });
+
   describe('detect-instruction-files', () => {
     it('should detect files for a project path', async () => {
       const handler = mockIpcHandlers.get('detect-instruction-files')!;
@@ -233,6 +286,120 @@ describe('Instruction Handlers', () => {
     });
   });
 
+  describe('preview-instruction-fixes', () => {
+    it('should preview suggestions with edits', async () => {
+      const handler = mockIpcHandlers.get('preview-instruction-fixes')!;
+      const result = await handler(null, { filePath: '/tmp/project/CLAUDE.md', suggestions: [mockFixSuggestion] });
+
+      expect(deps.previewFixes).toHaveBeenCalledWith('/tmp/project/CLAUDE.md', [mockFixSuggestion], undefined);
+      expect(result).toEqual(mockPreview);
+    });
+
+    it('should pass the project root for relative diff headers', async () => {
+      const handler = mockIpcHandlers.get('preview-instruction-fixes')!;
+      await handler(null, {
+        filePath: '/tmp/project/docs/CLAUDE.md',
+        suggestions: [mockFixSuggestion],
+        projectRoot: '/tmp/project',
+      });
+
+      expect(deps.previewFixes).toHaveBeenCalledWith('/tmp/project/docs/CLAUDE.md', [mockFixSuggestion], '/tmp/project');
+    });
+
+    it('should reject a project root outside home/tmp', async () => {
+      const handler = mockIpcHandlers.get('preview-instruction-fixes')!;
+      const result = await handler(null, {
+        filePath: '/tmp/project/CLAUDE.md',
+        suggestions: [mockFixSuggestion],
+        projectRoot: '/etc',
+      });
+
+      expect(result).toEqual({ error: 'Invalid project path' });
+      expect(deps.previewFixes).not.toHaveBeenCalled();
+    });
+
+    it('should reject suggestions without a valid edit', async () => {
+      const handler = mockIpcHandlers.get('preview-instruction-fixes')!;
+      const { edit: _edit, ...withoutEdit } = mockFixSuggestion;
+
+      for (const suggestions of [
+        [],
+        [withoutEdit],
+        [{ ...mockFixSuggestion, edit: { ...mockFixSuggestion.edit, lineStart: 1.5 } }],
+        [{ ...mockFixSuggestion, edit: { ...mockFixSuggestion.edit, replacement: [42] } }],
+        Array.from({ length: 201 }, () => mockFixSuggestion),
+      ]) {
+        expect(await handler(null, { filePath: '/tmp/project/CLAUDE.md', suggestions })).toEqual({
+          error: 'Invalid suggestions',
+        });
+      }
+      expect(deps.previewFixes).not.toHaveBeenCalled();
+    });
+
+    it('should reject paths outside home/tmp', async () => {
+      const handler = mockIpcHandlers.get('preview-instruction-fixes')!;
+      const result = await handler(null, { filePath: '/etc/CLAUDE.md', suggestions: [mockFixSuggestion] });
+
+      expect(result).toEqual({ error: 'Invalid file path' });
+    });
+  });
+
+  describe('apply-instruction-fixes', () => {
+    it('should apply suggestions with edits', async () => {
+      const handler = mockIpcHandlers.get('apply-instruction-fixes')!;
+      const result = await handler(null, {
+        filePath: '/tmp/project/CLAUDE.md',
+        suggestions: [mockFixSuggestion],
+        projectRoot: '/tmp/project',
+      });
+
+      expect(deps.applyFixes).toHaveBeenCalledWith('/tmp/project/CLAUDE.md', [mockFixSuggestion], '/tmp/project');
+      expect(result).toEqual({ success: true, fixId: 1, applied: [0], conflicts: [] });
+    });
+
+    it('should reject a non-array suggestions value', async () => {
+      const handler = mockIpcHandlers.get('apply-instruction-fixes')!;
+      const result = await handler(null, { filePath: '/tmp/project/CLAUDE.md', suggestions: 'all' });
+
+      expect(result).toEqual({ error: 'Invalid suggestions' });
+      expect(deps.applyFixes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('undo-instruction-fix', () => {
+    it('should undo the newest fix', async () => {
+      const handler = mockIpcHandlers.get('undo-instruction-fix')!;
+      const result = await handler(null, { filePath: '/tmp/project/CLAUDE.md' });
+
+      expect(deps.undoFix).toHaveBeenCalledWith('/tmp/project/CLAUDE.md');
+      expect(result).toEqual({ success: true, fixId: 1 });
+    });
+
+    it('should reject missing filePath', async () => {
+      const handler = mockIpcHandlers.get('undo-instruction-fix')!;
+      const result = await handler(null, {});
+
+      expect(result).toEqual({ error: 'Invalid file path' });
+      expect(deps.undoFix).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('get-instruction-fix-history', () => {
+    it('should pass filePath and limit', async () => {
+      const handler = mockIpcHandlers.get('get-instruction-fix-history')!;
+      await handler(null, { filePath: '/tmp/project/CLAUDE.md', limit: 5 });
+
+      expect(deps.getFixHistory).toHaveBeenCalledWith('/tmp/project/CLAUDE.md', 5);
+    });
+
+    it('should reject non-number limit', async () => {
+      const handler = mockIpcHandlers.get('get-instruction-fix-history')!;
+      const result = await handler(null, { filePath: '/tmp/project/CLAUDE.md', limit: '5' });
+
+      expect(result).toEqual({ error: 'Invalid limit' });
+    });
+  });
+
   describe('error handling', () => {
     it('should propagate errors from lintFile', async () => {
       (deps.lintFile as Mock).mockImplementation(() => {
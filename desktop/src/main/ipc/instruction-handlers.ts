@@ -1,15 +1,24 @@
 /**
  * Instruction Linter IPC Handlers
- * Handles CLAUDE.md / .cursorrules / copilot-instructions analysis, detection, and generation.
+ * Handles CLAUDE.md / AGENTS.md / GEMINI.md / Cursor / Windsurf / Copilot instruction analysis, detection, and generation.
  */
 
 import { ipcMain } from 'electron';
 import { resolve } from 'path';
 import { homedir } from 'os';
-import type { LintResult } from '../instruction-linter/index.js';
+import type {
+  LintResult,
+  EffectiveInstructions,
+  SuggestionEditPreview,
+  TextEdit,
+} from '../instruction-linter/index.js';
+import type { ApplyFixesResult, UndoFixResult } from '../instruction-linter/fixes.js';
 
 const MAX_PATH_LENGTH = 500;
 const MAX_CONTENT_LENGTH = 500_000;
+const MAX_SUGGESTIONS = 200;
+
+type Suggestion = LintResult['suggestions'][number];
 
 function isNonEmptyString(val: unknown): val is string {
   return typeof val === 'string' && val.trim().length > 0;
@@ -23,16 +32,46 @@ function isValidPath(val: unknown): val is string {
   return resolved.startsWith(home) || resolved.startsWith('/tmp');
 }
 
+function isStringArray(val: unknown): val is string[] {
+  return Array.isArray(val) && val.every(line => typeof line === 'string');
+}
+
+function isTextEdit(val: unknown): val is TextEdit {
+  if (typeof val !== 'object' || val === null) return false;
+  const edit = val as Record<string, unknown>;
+  return (
+    Number.isInteger(edit.lineStart) &&
+    Number.isInteger(edit.lineEnd) &&
+    isStringArray(edit.original) &&
+    isStringArray(edit.replacement) &&
+    [...edit.original, ...edit.replacement].join('\n').length <= MAX_CONTENT_LENGTH
+  );
+}
+
+function isSuggestionList(val: unknown): val is Suggestion[] {
+  return (
+    Array.isArray(val) &&
+    val.length > 0 &&
+    val.length <= MAX_SUGGESTIONS &&
+    val.every(s => typeof s === 'object' && s !== null && isTextEdit((s as { edit?: unknown }).edit))
+  );
+}
+
 /**
  * Dependencies for instruction handlers
  */
 export interface InstructionHandlerDeps {
   lintFile: (filePath: string) => LintResult;
+  lintEffective: (targetPath: string) => EffectiveInstructions;
   saveLintResult: (result: LintResult) => number;
   detectFiles: (projectPath?: string) => unknown[];
   getHistory: (opts: { filePath?: string; limit?: number }) => unknown[];
   generateClaudeMd: (projectPath: string) => unknown;
   saveInstructionFile: (filePath: string, content: string) => { success: boolean; message?: string };
+  previewFixes: (filePath: string, suggestions: Suggestion[], projectRoot?: string) => SuggestionEditPreview;
+  applyFixes: (filePath: string, suggestions: Suggestion[], projectRoot?: string) => ApplyFixesResult;
+  undoFix: (filePath: string) => UndoFixResult;
+  getFixHistory: (filePath: string, limit?: number) => unknown[];
 }
 
 /**
@@ -50,6 +89,15 @@ export function registerInstructionHandlers(deps: InstructionHandlerDeps): void
     return result;
   });
 
+  // Lint the merged CLAUDE.md chain (user → project → directories → local, with @imports)
+  ipcMain.handle('lint-effective-instructions', async (_event, args: { targetPath?: unknown }) => {
+    const { targetPath } = args ?? {};
+    if (!isValidPath(targetPath)) {
+      return { error: 'Invalid target path' };
+    }
+    return deps.lintEffective(targetPath);
+  });
+
   // Detect instruction files in a project directory
   ipcMain.handle('detect-instruction-files', async (_event, args: { projectPath?: unknown }) => {
     const { projectPath } = args ?? {};
@@ -91,4 +139,55 @@ export function registerInstructionHandlers(deps: InstructionHandlerDeps): void
     }
     return deps.saveInstructionFile(filePath, content);
   });
+
+  // Preview suggestion edits as a unified diff (headers relative to the project root)
+  ipcMain.handle('preview-instruction-fixes', async (_event, args: { filePath?: unknown; suggestions?: unknown; projectRoot?: unknown }) => {
+    const { filePath, suggestions, projectRoot } = args ?? {};
+    if (!isValidPath(filePath)) {
+      return { error: 'Invalid file path' };
+    }
+    if (projectRoot !== undefined && !isValidPath(projectRoot)) {
+      return { error: 'Invalid project path' };
+    }
+    if (!isSuggestionList(suggestions)) {
+      return { error: 'Invalid suggestions' };
+    }
+    return deps.previewFixes(filePath, suggestions, projectRoot);
+  });
+
+  // Apply suggestion edits (skipping conflicts) and push an undo entry
+  ipcMain.handle('apply-instruction-fixes', async (_event, args: { filePath?: unknown; suggestions?: unknown; projectRoot?: unknown }) => {
+    const { filePath, suggestions, projectRoot } = args ?? {};
+    if (!isValidPath(filePath)) {
+      return { error: 'Invalid file path' };
+    }
+    if (projectRoot !== undefined && !isValidPath(projectRoot)) {
+      return { error: 'Invalid project path' };
+    }
+    if (!isSuggestionList(suggestions)) {
+      return { error: 'Invalid suggestions' };
+    }
+    return deps.applyFixes(filePath, suggestions, projectRoot);
+  });
+
+  // Undo the newest applied fix for a file
+  ipcMain.handle('undo-instruction-fix', async (_event, args: { filePath?: unknown }) => {
+    const { filePath } = args ?? {};
+    if (!isValidPath(filePath)) {
+      return { error: 'Invalid file path' };
+    }
+    return deps.undoFix(filePath);
+  });
+
+  // Get the applied-fix history (undo stack) for a file
+  ipcMain.handle('get-instruction-fix-history', async (_event, args: { filePath?: unknown; limit?: unknown }) => {
+    const { filePath, limit } = args ?? {};
+    if (!isValidPath(filePath)) {
+      return { error: 'Invalid file path' };
+    }
+    if (limit !== undefined && typeof limit !== 'number') {
+      return { error: 'Invalid limit' };
+    }
+    return deps.getFixHistory(filePath, limit as number | undefined);
+  });
 }
@@ -154,6 +154,7 @@ export type {
 // Cache for loaded modules
 let evaluatePromptAgainstGuidelines: ((text: string) => GuidelineEvaluation) | null = null;
 let classifyPrompt: ((text: string) => PromptClassification) | null = null;
+let activateRulePacks: ((projectDir: string | null) => unknown) | null = null;
 
 /**
  * Load analysis modules from CJS bundle
@@ -175,6 +176,7 @@ async function loadAnalysisModules(): Promise<boolean> {
     // Load the bundled analysis module (CJS)
     const analysisModule = require(analysisBundlePath);
     evaluatePromptAgainstGuidelines = analysisModule.evaluatePromptAgainstGuidelines;
+    activateRulePacks = analysisModule.activateRulePacks ?? null;
 
     // Load classifier if available
     if (fs.existsSync(classifierBundlePath)) {
@@ -341,6 +343,9 @@ async function analyzePrompt(text: string): Promise<AnalysisResult> {
       sessionContext = await getActiveWindowSessionContext();
     }
 
+    // Apply user rule packs (~/.prompt-evolution/rules + project .prompt-evolution/rules)
+    activateRulePacks?.(sessionContext?.projectPath ?? null);
+
     // Run evaluation
     console.log('[LearningEngine] Running GOLDEN evaluation...');
     const evaluation = evaluatePromptAgainstGuidelines!(text);
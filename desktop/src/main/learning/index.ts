@@ -8,6 +8,7 @@ export {
   loadAnalysisModules,
   getEvaluator,
   getClassifier,
+  getRulePackActivator,
   areModulesLoaded,
   resetModules,
   type GOLDENScore,
@@ -16,6 +17,7 @@ export {
   type PromptClassification,
   type EvaluatePromptFn,
   type ClassifyPromptFn,
+  type ActivateRulePacksFn,
 } from './module-loader.js';
 
 // Tips generator
@@ -76,6 +76,11 @@ export type EvaluatePromptFn = (text: string) => GuidelineEvaluation;
  */
 export type ClassifyPromptFn = (text: string) => PromptClassification;
 
+/**
+ * Type for the rule pack activation function (global + project rules)
+ */
+export type ActivateRulePacksFn = (projectDir: string | null) => unknown;
+
 /**
  * Get path to analysis bundles
  */
@@ -97,6 +102,7 @@ function getAnalysisPaths(): { analysisPath: string; analysisBundlePath: string;
  */
 let evaluatePromptAgainstGuidelines: EvaluatePromptFn | null = null;
 let classifyPrompt: ClassifyPromptFn | null = null;
+let activateRulePacks: ActivateRulePacksFn | null = null;
 
 /**
  * Get the evaluation function if loaded
@@ -112,6 +118,13 @@ export function getClassifier(): ClassifyPromptFn | null {
   return classifyPrompt;
 }
 
+/**
+ * Get the rule pack activation function if loaded
+ */
+export function getRulePackActivator(): ActivateRulePacksFn | null {
+  return activateRulePacks;
+}
+
 /**
  * Check if modules are loaded
  */
@@ -146,6 +159,7 @@ export async function loadAnalysisModules(): Promise<boolean> {
     // Load the bundled analysis module (CJS)
     const analysisModule = require(analysisBundlePath);
     evaluatePromptAgainstGuidelines = analysisModule.evaluatePromptAgainstGuidelines;
+    activateRulePacks = analysisModule.activateRulePacks ?? null;
 
     // Load classifier if available
     if (fs.existsSync(classifierBundlePath)) {
@@ -167,4 +181,5 @@ export async function loadAnalysisModules(): Promise<boolean> {
 export function resetModules(): void {
   evaluatePromptAgainstGuidelines = null;
   classifyPrompt = null;
+  activateRulePacks = null;
 }
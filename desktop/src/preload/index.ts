@@ -111,6 +111,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Instruction Linter
   lintInstructionFile: (filePath: string): Promise<unknown> =>
     ipcRenderer.invoke('lint-instruction-file', { filePath }),
+  lintEffectiveInstructions: (targetPath: string): Promise<unknown> =>
+    ipcRenderer.invoke('lint-effective-instructions', { targetPath }),
   detectInstructionFiles: (projectPath?: string): Promise<unknown[]> =>
     ipcRenderer.invoke('detect-instruction-files', { projectPath }),
   getInstructionHistory: (filePath?: string, limit?: number): Promise<unknown[]> =>
@@ -119,6 +121,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('generate-claude-md', { projectPath }),
   saveInstructionFile: (filePath: string, content: string, backup?: boolean): Promise<{ success: boolean; backupPath?: string; message?: string }> =>
     ipcRenderer.invoke('save-instruction-file', { filePath, content, backup }),
+  previewInstructionFixes: (filePath: string, suggestions: unknown[], projectRoot?: string): Promise<unknown> =>
+    ipcRenderer.invoke('preview-instruction-fixes', { filePath, suggestions, projectRoot }),
+  applyInstructionFixes: (filePath: string, suggestions: unknown[], projectRoot?: string): Promise<unknown> =>
+    ipcRenderer.invoke('apply-instruction-fixes', { filePath, suggestions, projectRoot }),
+  undoInstructionFix: (filePath: string): Promise<unknown> =>
+    ipcRenderer.invoke('undo-instruction-fix', { filePath }),
+  getInstructionFixHistory: (filePath: string, limit?: number): Promise<unknown[]> =>
+    ipcRenderer.invoke('get-instruction-fix-history', { filePath, limit }),
 
   // Renderer ready signal (fixes IPC race condition)
   signalReady: (): Promise<boolean> => ipcRenderer.invoke('renderer-ready'),
@@ -286,7 +286,13 @@ function App() {
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {viewMode === 'instructions' ? (
           instructionLinter.analysis ? (
-            <InstructionAnalysis analysis={instructionLinter.analysis} />
+            <InstructionAnalysis
+              analysis={instructionLinter.analysis}
+              onPreviewFixes={instructionLinter.previewFixes}
+              onApplyFixes={instructionLinter.applyFixes}
+              onUndoFix={instructionLinter.undoFix}
+              canUndo={instructionLinter.canUndoFix}
+            />
           ) : instructionLinter.generatedDraft ? (
             <InstructionEditor
               draft={instructionLinter.generatedDraft.draft}
@@ -4,11 +4,12 @@
  * Displays CLAUDE.md linter results:
  *   - GOLDEN radar chart (instruction dimensions)
  *   - Issue list by severity
- *   - Suggestion cards
+ *   - Suggestion cards with diff preview / apply
+ *   - "Fix all safe issues" and undo
  *   - Overall score and grade
  */
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   AlertTriangle,
@@ -17,12 +18,30 @@ import {
   Shield,
   FileText,
   Lightbulb,
+  Eye,
+  Wand2,
+  Undo2,
 } from 'lucide-react';
 import GoldenRadar from './GoldenRadar.js';
-import type { InstructionAnalysisResult } from '../hooks/useInstructionLinter.js';
+import type {
+  InstructionAnalysisResult,
+  InstructionSuggestion,
+  FixPreview,
+  FixApplyResult,
+} from '../hooks/useInstructionLinter.js';
 
 interface InstructionAnalysisProps {
   analysis: InstructionAnalysisResult;
+  /** Edit actions; suggestion edits are read-only when omitted */
+  onPreviewFixes?: (suggestions: InstructionSuggestion[]) => Promise<FixPreview | null>;
+  onApplyFixes?: (suggestions: InstructionSuggestion[]) => Promise<FixApplyResult | null>;
+  onUndoFix?: () => Promise<unknown>;
+  canUndo?: boolean;
+}
+
+interface PendingFix {
+  suggestions: InstructionSuggestion[];
+  preview: FixPreview;
 }
 
 const SEVERITY_ICONS: Record<string, typeof AlertTriangle> = {
@@ -46,8 +65,71 @@ const SEVERITY_BG: Record<string, string> = {
   low: 'bg-blue-400/10 border-blue-400/20',
 };
 
-export default function InstructionAnalysis({ analysis }: InstructionAnalysisProps) {
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-500';
+  if (line.startsWith('+')) return 'text-green-300';
+  if (line.startsWith('-')) return 'text-red-300';
+  if (line.startsWith('@@')) return 'text-indigo-300';
+  return 'text-gray-400';
+}
+
+export default function InstructionAnalysis({
+  analysis,
+  onPreviewFixes,
+  onApplyFixes,
+  onUndoFix,
+  canUndo = false,
+}: InstructionAnalysisProps) {
   const { t } = useTranslation('analysis');
+  const [pending, setPending] = useState<PendingFix | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const canEdit = Boolean(onPreviewFixes && onApplyFixes);
+  const safeSuggestions = useMemo(
+    () => analysis.suggestions.filter(s => s.safe && s.edit),
+    [analysis.suggestions]
+  );
+
+  const handlePreview = async (suggestions: InstructionSuggestion[]) => {
+    if (!onPreviewFixes) return;
+    setBusy(true);
+    setNotice(null);
+    try {
+      const preview = await onPreviewFixes(suggestions);
+      setPending(preview ? { suggestions, preview } : null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!onApplyFixes || !pending) return;
+    setBusy(true);
+    try {
+      const result = await onApplyFixes(pending.suggestions);
+      setPending(null);
+      if (result) {
+        setNotice(result.success
+          ? t('instructionLinter.fixes.applied', { count: result.applied.length })
+          : t('instructionLinter.fixes.noChanges'));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!onUndoFix) return;
+    setBusy(true);
+    setPending(null);
+    try {
+      const result = await onUndoFix() as { success?: boolean } | null;
+      if (result?.success) setNotice(t('instructionLinter.fixes.undone'));
+    } finally {
+      setBusy(false);
+    }
+  };
 
   // Build dimension labels for instruction mode
   const dimensionLabels = useMemo(() => ({
@@ -119,6 +201,85 @@ export default function InstructionAnalysis({ analysis }: InstructionAnalysisPro
         />
       </div>
 
+      {/* Fix actions */}
+      {canEdit && (safeSuggestions.length > 0 || (canUndo && onUndoFix)) && (
+        <div className="flex items-center gap-2">
+          {safeSuggestions.length > 0 && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => handlePreview(safeSuggestions)}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+            >
+              <Wand2 size={12} />
+              {t('instructionLinter.fixes.fixAllSafe', { count: safeSuggestions.length })}
+            </button>
+          )}
+          {canUndo && onUndoFix && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={handleUndo}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50"
+            >
+              <Undo2 size={12} />
+              {t('instructionLinter.fixes.undo')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {notice && (
+        <p className="text-xs text-gray-400" role="status">{notice}</p>
+      )}
+
+      {/* Diff preview */}
+      {pending && (
+        <div className="border border-indigo-500/30 rounded-lg p-3 space-y-2" data-testid="fix-preview">
+          <h3 className="text-sm font-semibold text-gray-300">
+            {t('instructionLinter.fixes.previewTitle')}
+          </h3>
+          {pending.preview.diff ? (
+            <pre className="text-xs font-mono bg-black/30 rounded p-2 overflow-x-auto">
+              {pending.preview.diff.trimEnd().split('\n').map((line, idx) => (
+                <div key={idx} className={diffLineClass(line)}>{line || ' '}</div>
+              ))}
+            </pre>
+          ) : (
+            <p className="text-xs text-gray-500">{t('instructionLinter.fixes.noChanges')}</p>
+          )}
+          {pending.preview.conflicts.length > 0 && (
+            <div className="text-xs text-yellow-400">
+              <p>{t('instructionLinter.fixes.conflicts', { count: pending.preview.conflicts.length })}</p>
+              <ul className="list-disc pl-4">
+                {pending.preview.conflicts.map(conflict => (
+                  <li key={conflict.index}>
+                    {pending.suggestions[conflict.index]?.description}: {t(`instructionLinter.fixes.conflictReasons.${conflict.reason}`)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setPending(null)}
+              className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-gray-200"
+            >
+              {t('instructionLinter.fixes.cancel')}
+            </button>
+            <button
+              type="button"
+              disabled={busy || pending.preview.applied.length === 0}
+              onClick={handleApply}
+              className="px-2 py-1 text-xs rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+            >
+              {t('instructionLinter.fixes.apply')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Issues */}
       {analysis.issues.length > 0 ? (
         <div className="space-y-2">
@@ -180,9 +341,27 @@ export default function InstructionAnalysis({ analysis }: InstructionAnalysisPro
               key={idx}
               className="border border-indigo-500/20 bg-indigo-500/5 rounded-lg p-3"
             >
-              <p className="text-xs text-gray-400 mb-1">
-                {suggestion.description}
-              </p>
+              <div className="flex items-start gap-2 mb-1">
+                <p className="flex-1 text-xs text-gray-400">
+                  {suggestion.description}
+                </p>
+                {suggestion.safe && suggestion.edit && (
+                  <span className="text-[10px] text-green-400">
+                    {t('instructionLinter.fixes.safe')}
+                  </span>
+                )}
+                {canEdit && suggestion.edit && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => handlePreview([suggestion])}
+                    className="flex items-center gap-1 text-[10px] text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+                  >
+                    <Eye size={10} />
+                    {t('instructionLinter.fixes.preview')}
+                  </button>
+                )}
+              </div>
               {suggestion.originalText && (
                 <div className="text-xs bg-red-500/10 text-red-300 rounded px-2 py-1 mb-1 font-mono">
                   - {suggestion.originalText}
@@ -3,12 +3,12 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { I18nextProvider } from 'react-i18next';
 import i18n from 'i18next';
 import InstructionAnalysis from '../InstructionAnalysis';
-import type { InstructionAnalysisResult } from '../../hooks/useInstructionLinter';
+import type { InstructionAnalysisResult, InstructionSuggestion } from '../../hooks/useInstructionLinter';
 
 // Mock GoldenRadar to avoid SVG rendering complexity
 vi.mock('../GoldenRadar.js', () => ({
@@ -72,6 +72,24 @@ i18n.init({
             no_examples: 'No Examples',
             missing_constraints: 'Missing Constraints',
           },
+          fixes: {
+            fixAllSafe: 'Fix all safe issues ({{count}})',
+            preview: 'Preview',
+            previewTitle: 'Preview changes',
+            apply: 'Apply',
+            cancel: 'Cancel',
+            undo: 'Undo last fix',
+            safe: 'Safe',
+            noChanges: 'No changes can be applied',
+            conflicts: '{{count}} edit(s) skipped',
+            conflictReasons: {
+              overlap: 'overlaps another edit',
+              stale: 'file changed since analysis, re-analyze first',
+              'out-of-range': 'no applicable edit',
+            },
+            applied: 'Applied {{count}} edit(s)',
+            undone: 'Last fix undone',
+          },
         },
       },
     },
@@ -754,4 +772,110 @@ describe('InstructionAnalysis', () => {
       expect(passedScores.next).toBe(39);
     });
   });
+
+  describe('Fix actions', () => {
+    const secretFix: InstructionSuggestion = {
+      issueIndex: 0,
+      type: 'remove',
+      suggestedText: 'Move secrets to environment variables',
+      description: 'Remove hardcoded secret',
+      edit: { lineStart: 4, lineEnd: 4, original: ['API_KEY=sk-123'], replacement: ['API_KEY=<REDACTED>'] },
+      safe: true,
+    };
+    const vagueFix: InstructionSuggestion = {
+      issueIndex: 1,
+      type: 'specify',
+      suggestedText: 'Keep functions under 50 lines',
+      description: 'Make the instruction specific',
+      edit: { lineStart: 6, lineEnd: 6, original: ['Write clean code'], replacement: ['Keep functions under 50 lines'] },
+      safe: false,
+    };
+    const preview = {
+      diff: '--- a/CLAUDE.md\n+++ b/CLAUDE.md\n@@ -4,1 +4,1 @@\n-API_KEY=sk-123\n+API_KEY=<REDACTED>\n',
+      applied: [0],
+      conflicts: [],
+    };
+
+    function renderWithActions(overrides: Partial<React.ComponentProps<typeof InstructionAnalysis>> = {}) {
+      const props = {
+        analysis: createMockAnalysis({ suggestions: [secretFix, vagueFix] }),
+        onPreviewFixes: vi.fn().mockResolvedValue(preview),
+        onApplyFixes: vi.fn().mockResolvedValue({ success: true, applied: [0], conflicts: [] }),
+        onUndoFix: vi.fn().mockResolvedValue({ success: true }),
+        ...overrides,
+      };
+      renderWithI18n(<InstructionAnalysis {...props} />);
+      return props;
+    }
+
+    it('should not render edit actions without handlers', () => {
+      renderWithI18n(<InstructionAnalysis analysis={createMockAnalysis({ suggestions: [secretFix] })} />);
+
+      expect(screen.queryByText('Fix all safe issues (1)')).not.toBeInTheDocument();
+      expect(screen.queryByText('Preview')).not.toBeInTheDocument();
+    });
+
+    it('should preview only safe suggestions for "fix all safe issues"', async () => {
+      const props = renderWithActions();
+
+      fireEvent.click(screen.getByText('Fix all safe issues (1)'));
+
+      await waitFor(() => expect(screen.getByTestId('fix-preview')).toBeInTheDocument());
+      expect(props.onPreviewFixes).toHaveBeenCalledWith([secretFix]);
+      expect(screen.getByText('+API_KEY=<REDACTED>')).toHaveClass('text-green-300');
+      expect(screen.getByText('-API_KEY=sk-123')).toHaveClass('text-red-300');
+    });
+
+    it('should preview a single suggestion and apply it', async () => {
+      const props = renderWithActions();
+
+      fireEvent.click(screen.getAllByText('Preview')[1]);
+      await waitFor(() => expect(screen.getByTestId('fix-preview')).toBeInTheDocument());
+      expect(props.onPreviewFixes).toHaveBeenCalledWith([vagueFix]);
+
+      fireEvent.click(screen.getByText('Apply'));
+
+      await waitFor(() => expect(screen.getByText('Applied 1 edit(s)')).toBeInTheDocument());
+      expect(props.onApplyFixes).toHaveBeenCalledWith([vagueFix]);
+      expect(screen.queryByTestId('fix-preview')).not.toBeInTheDocument();
+    });
+
+    it('should list conflicts and disable apply when nothing applies', async () => {
+      renderWithActions({
+        onPreviewFixes: vi.fn().mockResolvedValue({ diff: '', applied: [], conflicts: [{ index: 0, reason: 'stale' }] }),
+      });
+
+      fireEvent.click(screen.getByText('Fix all safe issues (1)'));
+
+      await waitFor(() => expect(screen.getByText('1 edit(s) skipped')).toBeInTheDocument());
+      expect(screen.getByText('Remove hardcoded secret: file changed since analysis, re-analyze first')).toBeInTheDocument();
+      expect(screen.getByText('Apply')).toBeDisabled();
+    });
+
+    it('should close the preview on cancel', async () => {
+      const props = renderWithActions();
+
+      fireEvent.click(screen.getByText('Fix all safe issues (1)'));
+      await waitFor(() => expect(screen.getByTestId('fix-preview')).toBeInTheDocument());
+      fireEvent.click(screen.getByText('Cancel'));
+
+      expect(screen.queryByTestId('fix-preview')).not.toBeInTheDocument();
+      expect(props.onApplyFixes).not.toHaveBeenCalled();
+    });
+
+    it('should show undo only when there is something to undo', async () => {
+      const props = renderWithActions({ canUndo: true });
+
+      fireEvent.click(screen.getByText('Undo last fix'));
+
+      await waitFor(() => expect(screen.getByText('Last fix undone')).toBeInTheDocument());
+      expect(props.onUndoFix).toHaveBeenCalled();
+    });
+
+    it('should hide undo when canUndo is false', () => {
+      renderWithActions({ canUndo: false });
+
+      expect(screen.queryByText('Undo last fix')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -2,7 +2,8 @@
  * useInstructionLinter Hook
  *
  * State management + IPC wrapper for instruction file linting.
- * Handles file detection, analysis, history, and CLAUDE.md generation.
+ * Handles file detection, analysis, the merged CLAUDE.md chain, history, CLAUDE.md generation,
+ * and applying suggestion edits (preview, apply, undo).
  */
 
 import { useState, useCallback } from 'react';
@@ -36,12 +37,22 @@ interface InstructionIssue {
   relatedLines?: string[];
 }
 
-interface InstructionSuggestion {
+export interface TextEdit {
+  lineStart: number;
+  lineEnd: number;
+  original: string[];
+  replacement: string[];
+}
+
+export interface InstructionSuggestion {
   issueIndex: number;
   type: string;
   originalText?: string;
   suggestedText: string;
   description: string;
+  edit?: TextEdit;
+  /** Missing on analyses saved before edits existed */
+  safe?: boolean;
 }
 
 export interface InstructionAnalysisResult {
@@ -73,6 +84,36 @@ export interface InstructionAnalysisResult {
   analyzedAt: string;
 }
 
+export interface EffectiveInstructionsResult {
+  targetPath: string;
+  projectRoot: string;
+  files: Array<{
+    path: string;
+    scope: string;
+    depth: number;
+    importedFrom?: string;
+    lineCount: number;
+    tokens: number;
+  }>;
+  lines: Array<{ text: string; file: string; line: number }>;
+  mergedText: string;
+  overallScore: number;
+  grade: string;
+  goldenScores: GoldenScores;
+  issues: Array<InstructionIssue & {
+    sources: Array<{ text: string; file: string; line: number }>;
+    crossFile: boolean;
+  }>;
+  unresolvedImports: Array<{ path: string; from: string; line: number; reason: string }>;
+  tokenBudget: {
+    totalTokens: number;
+    budget: number;
+    overBudget: boolean;
+    byFile: Array<{ path: string; tokens: number; share: number }>;
+  };
+  analyzedAt: string;
+}
+
 interface DetectedFile {
   path: string;
   format: string;
@@ -91,23 +132,84 @@ interface GenerateResult {
   confidence: number;
 }
 
+export interface EditConflict {
+  index: number;
+  reason: 'overlap' | 'stale' | 'out-of-range';
+  conflictsWith?: number;
+}
+
+export interface FixPreview {
+  diff: string;
+  applied: number[];
+  conflicts: EditConflict[];
+}
+
+export interface FixApplyResult {
+  success: boolean;
+  message?: string;
+  applied: number[];
+  conflicts: EditConflict[];
+  result?: InstructionAnalysisResult;
+}
+
+interface FixHistoryEntry {
+  id: number;
+  appliedAt: string;
+  undoneAt: string | null;
+}
+
+interface UndoResult {
+  success: boolean;
+  message?: string;
+  result?: InstructionAnalysisResult;
+}
+
+function errorOf(result: unknown): string | null {
+  return typeof result === 'object' && result !== null && 'error' in result
+    ? String((result as { error: unknown }).error)
+    : null;
+}
+
 // =============================================================================
 // Hook
 // =============================================================================
 
 export function useInstructionLinter() {
   const [analysis, setAnalysis] = useState<InstructionAnalysisResult | null>(null);
+  const [effective, setEffective] = useState<EffectiveInstructionsResult | null>(null);
   const [detectedFiles, setDetectedFiles] = useState<DetectedFile[]>([]);
   const [generatedDraft, setGeneratedDraft] = useState<GenerateResult | null>(null);
+  const [fixHistory, setFixHistory] = useState<FixHistoryEntry[]>([]);
+  // Project the detected files belong to; fix diffs are shown relative to it
+  const [projectRoot, setProjectRoot] = useState<string | undefined>();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const refreshFixHistory = useCallback(async (filePath: string) => {
+    const history = await window.electronAPI.getInstructionFixHistory(filePath);
+    setFixHistory(Array.isArray(history) ? (history as FixHistoryEntry[]) : []);
+  }, []);
+
   const lintFile = useCallback(async (filePath: string) => {
     setIsLoading(true);
     setError(null);
     try {
       const result = await window.electronAPI.lintInstructionFile(filePath);
       setAnalysis(result as InstructionAnalysisResult);
+      await refreshFixHistory(filePath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [refreshFixHistory]);
+
+  const lintEffective = useCallback(async (targetPath: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.lintEffectiveInstructions(targetPath);
+      setEffective(result as EffectiveInstructionsResult);
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     } finally {
@@ -118,6 +220,7 @@ export function useInstructionLinter() {
   const detectFiles = useCallback(async (projectPath?: string) => {
     setIsLoading(true);
     setError(null);
+    setProjectRoot(projectPath);
     try {
       const files = await window.electronAPI.detectInstructionFiles(projectPath);
       setDetectedFiles(files as DetectedFile[]);
@@ -151,25 +254,91 @@ export function useInstructionLinter() {
     }
   }, []);
 
+  const previewFixes = useCallback(async (suggestions: InstructionSuggestion[]): Promise<FixPreview | null> => {
+    if (!analysis) return null;
+    setError(null);
+    try {
+      const result = await window.electronAPI.previewInstructionFixes(analysis.filePath, suggestions, projectRoot);
+      const message = errorOf(result);
+      if (message) {
+        setError(message);
+        return null;
+      }
+      return result as FixPreview;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }, [analysis, projectRoot]);
+
+  const applyFixes = useCallback(async (suggestions: InstructionSuggestion[]): Promise<FixApplyResult | null> => {
+    if (!analysis) return null;
+    setError(null);
+    try {
+      const result = await window.electronAPI.applyInstructionFixes(analysis.filePath, suggestions, projectRoot);
+      const message = errorOf(result);
+      if (message) {
+        setError(message);
+        return null;
+      }
+      const applied = result as FixApplyResult;
+      if (applied.result) setAnalysis(applied.result);
+      await refreshFixHistory(analysis.filePath);
+      return applied;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }, [analysis, projectRoot, refreshFixHistory]);
+
+  const undoFix = useCallback(async (): Promise<UndoResult | null> => {
+    if (!analysis) return null;
+    setError(null);
+    try {
+      const result = await window.electronAPI.undoInstructionFix(analysis.filePath);
+      const message = errorOf(result);
+      if (message) {
+        setError(message);
+        return null;
+      }
+      const undone = result as UndoResult;
+      if (undone.result) setAnalysis(undone.result);
+      else if (!undone.success && undone.message) setError(undone.message);
+      await refreshFixHistory(analysis.filePath);
+      return undone;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }, [analysis, refreshFixHistory]);
+
   const clearAnalysis = useCallback(() => {
     setAnalysis(null);
+    setEffective(null);
     setDetectedFiles([]);
     setGeneratedDraft(null);
+    setFixHistory([]);
     setError(null);
   }, []);
 
   return {
     // State
     analysis,
+    effective,
     detectedFiles,
     generatedDraft,
     isLoading,
     error,
+    canUndoFix: fixHistory.some(entry => entry.undoneAt === null),
     // Actions
     lintFile,
+    lintEffective,
     detectFiles,
     generateClaudeMd,
     saveInstructionFile,
+    previewFixes,
+    applyFixes,
+    undoFix,
     clearAnalysis,
   };
 }
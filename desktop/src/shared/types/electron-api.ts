@@ -201,10 +201,15 @@ export interface ElectronAPI {
   // Instruction Linter
   // =========================================================================
   lintInstructionFile: (filePath: string) => Promise<unknown>;
+  lintEffectiveInstructions: (targetPath: string) => Promise<unknown>;
   detectInstructionFiles: (projectPath?: string) => Promise<unknown[]>;
   getInstructionHistory: (filePath?: string, limit?: number) => Promise<unknown[]>;
   generateClaudeMd: (projectPath: string) => Promise<unknown>;
   saveInstructionFile: (filePath: string, content: string) => Promise<unknown>;
+  previewInstructionFixes: (filePath: string, suggestions: unknown[], projectRoot?: string) => Promise<unknown>;
+  applyInstructionFixes: (filePath: string, suggestions: unknown[], projectRoot?: string) => Promise<unknown>;
+  undoInstructionFix: (filePath: string) => Promise<unknown>;
+  getInstructionFixHistory: (filePath: string, limit?: number) => Promise<unknown[]>;
 
   // =========================================================================
   // i18n Language Support
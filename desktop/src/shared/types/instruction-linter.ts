@@ -1,6 +1,6 @@
 /**
  * Instruction Linter Types
- * Types for CLAUDE.md/.cursorrules/copilot-instructions analysis.
+ * Types for CLAUDE.md/AGENTS.md/GEMINI.md, Cursor, Windsurf and Copilot instruction analysis.
  */
 
 import type { Grade } from './analysis.js';
@@ -13,7 +13,12 @@ import type { GoldenScores } from '../../../../src/shared/types/index.js';
 export type InstructionFileFormat =
   | 'claude-md'
   | 'cursorrules'
-  | 'copilot-instructions';
+  | 'copilot-instructions'
+  | 'agents-md'
+  | 'gemini-md'
+  | 'cursor-mdc'
+  | 'windsurfrules'
+  | 'copilot-path-instructions';
 
 export type IssueSeverity = 'critical' | 'high' | 'medium' | 'low';
 
@@ -23,7 +28,8 @@ export type IssueType =
   | 'missing'
   | 'vague'
   | 'security'
-  | 'excessive';
+  | 'excessive'
+  | 'format';
 
 export type SuggestionType =
   | 'merge'
@@ -52,12 +58,23 @@ export interface InstructionIssue {
   relatedLines?: string[];
 }
 
+/** 1-based line-range replacement; lineEnd = lineStart - 1 inserts before lineStart */
+export interface TextEdit {
+  lineStart: number;
+  lineEnd: number;
+  original: string[];
+  replacement: string[];
+}
+
 export interface InstructionSuggestion {
   issueIndex: number;
   type: SuggestionType;
   originalText?: string;
   suggestedText: string;
   description: string;
+  edit?: TextEdit;
+  /** Mechanical edit that is applied by "fix all safe issues" */
+  safe: boolean;
 }
 
 export interface MarkdownSection {
@@ -98,6 +115,60 @@ export interface InstructionAnalysis {
   analyzedAt: string;
 }
 
+// =============================================================================
+// Effective Instructions (merged CLAUDE.md chain)
+// =============================================================================
+
+export type InstructionScope = 'user' | 'project' | 'directory' | 'local' | 'import';
+
+export interface EffectiveInstructionFile {
+  path: string;
+  scope: InstructionScope;
+  depth: number;
+  importedFrom?: string;
+  lineCount: number;
+  tokens: number;
+}
+
+export interface EffectiveLine {
+  text: string;
+  file: string;
+  line: number;
+}
+
+export interface UnresolvedImport {
+  path: string;
+  from: string;
+  line: number;
+  reason: 'missing' | 'cycle' | 'depth';
+}
+
+export interface EffectiveIssue extends InstructionIssue {
+  sources: EffectiveLine[];
+  crossFile: boolean;
+}
+
+export interface EffectiveInstructions {
+  targetPath: string;
+  projectRoot: string;
+  files: EffectiveInstructionFile[];
+  lines: EffectiveLine[];
+  mergedText: string;
+  sections: MarkdownSection[];
+  overallScore: number;
+  grade: Grade;
+  goldenScores: GoldenScores;
+  issues: EffectiveIssue[];
+  unresolvedImports: UnresolvedImport[];
+  tokenBudget: {
+    totalTokens: number;
+    budget: number;
+    overBudget: boolean;
+    byFile: Array<{ path: string; tokens: number; share: number }>;
+  };
+  analyzedAt: string;
+}
+
 // =============================================================================
 // Top Fix (Phase 1)
 // =============================================================================
@@ -131,6 +202,10 @@ export interface LintInstructionRequest {
   filePath: string;
 }
 
+export interface LintEffectiveInstructionsRequest {
+  targetPath: string;
+}
+
 export interface DetectInstructionRequest {
   projectPath?: string;
 }
@@ -183,3 +258,47 @@ export interface SaveInstructionResult {
   backupPath?: string;
   message?: string;
 }
+
+export interface InstructionFixRequest {
+  filePath: string;
+  suggestions: InstructionSuggestion[];
+}
+
+export interface EditConflict {
+  /** Index into the suggestions sent */
+  index: number;
+  reason: 'overlap' | 'stale' | 'out-of-range';
+  conflictsWith?: number;
+}
+
+export interface InstructionFixPreview {
+  content: string;
+  diff: string;
+  applied: number[];
+  conflicts: EditConflict[];
+}
+
+export interface InstructionFixResult {
+  success: boolean;
+  message?: string;
+  fixId?: number;
+  applied: number[];
+  conflicts: EditConflict[];
+  result?: InstructionAnalysis;
+}
+
+export interface InstructionUndoResult {
+  success: boolean;
+  message?: string;
+  fixId?: number;
+  result?: InstructionAnalysis;
+}
+
+export interface InstructionFixHistoryEntry {
+  id: number;
+  filePath: string;
+  analysisId: number | null;
+  suggestions: InstructionSuggestion[];
+  appliedAt: string;
+  undoneAt: string | null;
+}
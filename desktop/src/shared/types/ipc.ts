@@ -99,10 +99,15 @@ export const IPC_INVOKE_CHANNELS = {
 
   // Instruction Linter (Phase 2)
   LINT_INSTRUCTION_FILE: 'lint-instruction-file',
+  LINT_EFFECTIVE_INSTRUCTIONS: 'lint-effective-instructions',
   DETECT_INSTRUCTION_FILES: 'detect-instruction-files',
   GET_INSTRUCTION_HISTORY: 'get-instruction-history',
   GENERATE_CLAUDE_MD: 'generate-claude-md',
   SAVE_INSTRUCTION_FILE: 'save-instruction-file',
+  PREVIEW_INSTRUCTION_FIXES: 'preview-instruction-fixes',
+  APPLY_INSTRUCTION_FIXES: 'apply-instruction-fixes',
+  UNDO_INSTRUCTION_FIX: 'undo-instruction-fix',
+  GET_INSTRUCTION_FIX_HISTORY: 'get-instruction-fix-history',
 } as const;
 
 /**
@@ -7,6 +7,8 @@ import { fileURLToPath } from 'url';
 import { apiRouter } from './routes/index.js';
 import { errorHandler } from './middleware/error-handler.js';
 import { initializeScheduler } from './services/scheduler.js';
+import { startSessionWatcher } from './services/session-watcher.js';
+import { activateRulePacks } from '../src/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -43,6 +45,8 @@ const syncLimiter = rateLimit({
 });
 app.use('/api/sync', syncLimiter);
 
+// Team bundles carry a member's whole history
+app.use('/api/team/import', express.json({ limit: '50mb' }));
 app.use(express.json({ limit: '1mb' }));
 
 // API routes
@@ -68,6 +72,10 @@ app.get('*', (req, res, next) => {
 // Error handling
 app.use(errorHandler);
 
+// The server scores conversations from every project, so only the global rule packs
+// (~/.prompt-evolution/rules) apply; project packs are used by the CLI and desktop app
+activateRulePacks(null);
+
 app.listen(Number(PORT), '127.0.0.1', () => {
   console.log(`
   ┌─────────────────────────────────────────┐
@@ -80,4 +88,9 @@ app.listen(Number(PORT), '127.0.0.1', () => {
 
   // Initialize scheduler after server starts
   initializeScheduler();
+
+  // Watch mode: import sessions as they are written and push updates over /api/events
+  if (process.env.PE_WATCH === '1' || process.argv.includes('--watch')) {
+    startSessionWatcher();
+  }
 });
@@ -3,14 +3,19 @@
  * Central exports for all repositories
  */
 
-export { getOverallStats } from './stats-repository.js';
-export type { StatsData } from './stats-repository.js';
+export { getOverallStats, getTeamStats } from './stats-repository.js';
+export type { StatsData, TeamStatsData } from './stats-repository.js';
 
-export { getPromptDataFromConversations } from './insights-repository.js';
+export { getPromptDataFromConversations, getTeamInsights } from './insights-repository.js';
+export type { TeamInsightsData } from './insights-repository.js';
 
 export {
   getVolumeTrend,
   getEffectivenessTrend,
   getQualityTrend,
+  getCostTrend,
+  getTeamTrend,
 } from './trends-repository.js';
-export type { TrendDataPoint, GroupBy } from './trends-repository.js';
+export type { TrendDataPoint, GroupBy, TeamTrendMetric } from './trends-repository.js';
+
+export type { TeamFilter } from './team-filter.js';
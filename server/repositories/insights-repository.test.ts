@@ -1,7 +1,35 @@
 import { describe, it, expect, vi } from 'vitest';
-import { getPromptDataFromConversations } from './insights-repository.js';
+import BetterSqlite3 from 'better-sqlite3';
+import { getPromptDataFromConversations, getTeamInsights } from './insights-repository.js';
+import { runMigrations } from '../../src/db/migrations.js';
 import type { Database } from 'better-sqlite3';
 
+function seedTeam(): Database {
+    const db = new BetterSqlite3(':memory:');
+    runMigrations(db);
+    const member = db.prepare(
+        "INSERT INTO team_members (name, share_details, bundle_version, exported_at) VALUES (?, ?, 1, '2026-03-05T00:00:00Z')"
+    );
+    member.run('alice', 1);
+    member.run('bob', 0);
+    const conversation = db.prepare(
+        'INSERT INTO team_conversations (member, id, project_hash, source, started_at, effectiveness, cost_usd, signals) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    conversation.run('alice', 'c1', 'p1', 'claude-code', '2026-03-01T09:00:00Z', 0.8, 0.1, '{"retry_attempt":1}');
+    conversation.run('bob', 'c1', 'p2', 'claude-code', '2026-03-02T09:00:00Z', 0.4, 0.3, '{"retry_attempt":2,"command":1}');
+    const prompt = db.prepare(`
+        INSERT INTO team_prompts (
+            member, conversation_id, timestamp, content, length, category, intent, quality,
+            golden_goal, golden_output, golden_limits, golden_data, golden_evaluation, golden_next, golden_total,
+            anti_patterns, friction_score, next_turn_reaction
+        ) VALUES (?, 'c1', ?, ?, 10, ?, 'command', ?, ?, 0.5, 0.5, 0.5, 0.5, 0.5, ?, ?, ?, ?)
+    `);
+    prompt.run('alice', '2026-03-01T09:00:00Z', 'fix it', 'bug-fix', 0.6, 0.2, 0.4, '["vague"]', 4, 'retry');
+    prompt.run('bob', '2026-03-02T09:00:00Z', null, 'bug-fix', 0.8, 0.6, 0.6, '[]', 0, 'positive');
+    prompt.run('bob', '2026-03-02T09:05:00Z', null, 'testing', 1.0, 1.0, 0.8, '["vague","no-output"]', null, null);
+    return db as unknown as Database;
+}
+
 describe('insights-repository', () => {
     describe('getPromptDataFromConversations', () => {
         it('should return empty array if no conversation IDs are provided', () => {
@@ -41,6 +69,22 @@ describe('insights-repository', () => {
             expect(result[1].content).toBe('World');
         });
 
+        it('should use the stored conversation effectiveness score', () => {
+            const mockTurns = [
+                { content: 'Analyzed', conversation_id: 'conv3', timestamp: '2023-01-01T10:00:00Z', effectiveness: 0.82 },
+            ];
+
+            const mockAll = vi.fn().mockReturnValue(mockTurns);
+            const mockPrepare = vi.fn().mockReturnValue({ all: mockAll });
+            const mockDb = {
+                prepare: mockPrepare,
+            } as unknown as Database;
+
+            const result = getPromptDataFromConversations(mockDb, ['conv3']);
+            expect(mockPrepare.mock.calls[0][0]).toContain('effectiveness_score');
+            expect(result[0].effectiveness).toBe(0.82);
+        });
+
         it('should handle missing timestamps correctly', () => {
             const mockTurns = [
                 { content: 'No date', conversation_id: 'conv2', timestamp: null },
@@ -56,4 +100,36 @@ describe('insights-repository', () => {
             expect(result[0].timestamp).toBeUndefined();
         });
     });
+
+    describe('getTeamInsights', () => {
+        it('should aggregate categories, anti-patterns, signals and outcomes', () => {
+            const result = getTeamInsights(seedTeam());
+
+            expect(result.prompts).toBe(3);
+            expect(result.categoryBreakdown[0]).toEqual({
+                category: 'bug-fix',
+                count: 2,
+                percentage: 66.7,
+                avgQuality: 0.7,
+                avgGolden: 0.5,
+            });
+            expect(result.antiPatterns).toEqual([
+                { pattern: 'vague', count: 2, percentage: 66.7 },
+                { pattern: 'no-output', count: 1, percentage: 33.3 },
+            ]);
+            expect(result.signals).toEqual([
+                { type: 'retry_attempt', count: 3 },
+                { type: 'command', count: 1 },
+            ]);
+            expect(result.outcomes).toEqual({ attributed: 2, avgFriction: 2, retryRate: 0.5 });
+        });
+
+        it('should limit the aggregates to one member', () => {
+            const result = getTeamInsights(seedTeam(), { member: 'alice' });
+
+            expect(result.prompts).toBe(1);
+            expect(result.signals).toEqual([{ type: 'retry_attempt', count: 1 }]);
+            expect(result.antiPatterns).toEqual([{ pattern: 'vague', count: 1, percentage: 100 }]);
+        });
+    });
 });
@@ -4,7 +4,45 @@
  */
 
 import type { Database } from 'better-sqlite3';
-import type { PromptData } from '../../src/index.js';
+import type { PromptData, PromptOutcomeMetrics, PromptReaction } from '../../src/index.js';
+import { teamWhere, type TeamFilter } from './team-filter.js';
+
+interface PromptTurnRow {
+  id: string;
+  content: string;
+  conversation_id: string;
+  timestamp: string;
+  // conversation effectiveness score from `analyze` (NULL until analyzed)
+  effectiveness?: number | null;
+  // prompt_outcomes columns (NULL until `analyze` has run)
+  outcome_turn_id?: string | null;
+  assistant_turns?: number;
+  tool_calls?: number;
+  tool_errors?: number;
+  files_touched?: string;
+  next_turn_reaction?: string;
+  duration_ms?: number | null;
+  time_to_completion_ms?: number | null;
+  output_tokens?: number;
+  cost_usd?: number;
+  friction_score?: number;
+}
+
+function toOutcome(row: PromptTurnRow): PromptOutcomeMetrics | undefined {
+  if (!row.outcome_turn_id) return undefined;
+  return {
+    assistantTurns: row.assistant_turns ?? 0,
+    toolCalls: row.tool_calls ?? 0,
+    toolErrors: row.tool_errors ?? 0,
+    filesTouched: row.files_touched ? (JSON.parse(row.files_touched) as string[]) : [],
+    nextTurnReaction: (row.next_turn_reaction ?? 'neutral') as PromptReaction,
+    durationMs: row.duration_ms ?? null,
+    timeToCompletionMs: row.time_to_completion_ms ?? null,
+    outputTokens: row.output_tokens ?? 0,
+    costUsd: row.cost_usd ?? 0,
+    frictionScore: row.friction_score ?? 0,
+  };
+}
 
 /**
  * Get prompt data from conversations
@@ -21,25 +59,136 @@ export function getPromptDataFromConversations(
   const turns = db
     .prepare(
       `
-      SELECT t.content, t.conversation_id, t.timestamp
+      SELECT t.id, t.content, t.conversation_id, t.timestamp, e.effectiveness,
+        o.turn_id AS outcome_turn_id, o.assistant_turns, o.tool_calls, o.tool_errors,
+        o.files_touched, o.next_turn_reaction, o.duration_ms, o.time_to_completion_ms,
+        o.output_tokens, o.cost_usd, o.friction_score
       FROM turns t
+      LEFT JOIN prompt_outcomes o ON o.turn_id = t.id
+      LEFT JOIN (
+        SELECT conversation_id, MAX(value) AS effectiveness
+        FROM quality_signals
+        WHERE json_extract(metadata, '$.type') = 'effectiveness_score'
+        GROUP BY conversation_id
+      ) e ON e.conversation_id = t.conversation_id
       WHERE t.role = 'user'
+        AND t.branch_type = 'main'
         AND t.conversation_id IN (${placeholders})
         AND t.content IS NOT NULL
         AND t.content != ''
       ORDER BY t.timestamp DESC
     `
     )
-    .all(...conversationIds) as Array<{
-    content: string;
-    conversation_id: string;
-    timestamp: string;
-  }>;
+    .all(...conversationIds) as PromptTurnRow[];
 
   return turns.map((t) => ({
     content: t.content,
     conversationId: t.conversation_id,
+    turnId: t.id,
     timestamp: t.timestamp ? new Date(t.timestamp) : undefined,
-    effectiveness: undefined, // Could be enhanced with quality_signals data
+    effectiveness: t.effectiveness ?? undefined,
+    outcome: toOutcome(t),
   }));
 }
+
+export interface TeamInsightsData {
+  prompts: number;
+  categoryBreakdown: Array<{
+    category: string;
+    count: number;
+    percentage: number;
+    avgQuality: number;
+    avgGolden: number;
+  }>;
+  antiPatterns: Array<{ pattern: string; count: number; percentage: number }>;
+  signals: Array<{ type: string; count: number }>;
+  outcomes: {
+    attributed: number;
+    avgFriction: number;
+    retryRate: number;
+  };
+}
+
+/**
+ * Get category, anti-pattern, signal and outcome aggregates over imported team datasets
+ * Works on redacted bundles too: everything comes from the exported per-prompt features
+ */
+export function getTeamInsights(db: Database, filter: TeamFilter = {}): TeamInsightsData {
+  const promptWhere = teamWhere('timestamp', filter);
+  const conversationWhere = teamWhere('started_at', filter);
+  const round = (value: number | null) => Math.round((value ?? 0) * 100) / 100;
+
+  const { prompts } = db
+    .prepare(`SELECT COUNT(*) as prompts FROM team_prompts WHERE ${promptWhere.sql}`)
+    .get(...promptWhere.params) as { prompts: number };
+
+  const categories = db
+    .prepare(
+      `
+      SELECT category, COUNT(*) as count, AVG(quality) as avgQuality, AVG(golden_total) as avgGolden
+      FROM team_prompts
+      WHERE ${promptWhere.sql}
+      GROUP BY category
+      ORDER BY count DESC, category ASC
+    `
+    )
+    .all(...promptWhere.params) as Array<{ category: string; count: number; avgQuality: number; avgGolden: number }>;
+
+  const antiPatterns = db
+    .prepare(
+      `
+      SELECT ap.value as pattern, COUNT(*) as count
+      FROM team_prompts, json_each(team_prompts.anti_patterns) ap
+      WHERE ${promptWhere.sql}
+      GROUP BY ap.value
+      ORDER BY count DESC, pattern ASC
+    `
+    )
+    .all(...promptWhere.params) as Array<{ pattern: string; count: number }>;
+
+  const signals = db
+    .prepare(
+      `
+      SELECT s.key as type, SUM(s.value) as count
+      FROM team_conversations, json_each(team_conversations.signals) s
+      WHERE ${conversationWhere.sql}
+      GROUP BY s.key
+      ORDER BY count DESC, type ASC
+    `
+    )
+    .all(...conversationWhere.params) as Array<{ type: string; count: number }>;
+
+  const outcomes = db
+    .prepare(
+      `
+      SELECT
+        COUNT(*) as attributed,
+        AVG(friction_score) as avgFriction,
+        AVG(CASE WHEN next_turn_reaction IN ('retry', 'negative') THEN 1.0 ELSE 0.0 END) as retryRate
+      FROM team_prompts
+      WHERE ${promptWhere.sql}
+        AND friction_score IS NOT NULL
+    `
+    )
+    .get(...promptWhere.params) as { attributed: number; avgFriction: number | null; retryRate: number | null };
+
+  const share = (count: number) => (prompts > 0 ? Math.round((count / prompts) * 1000) / 10 : 0);
+
+  return {
+    prompts,
+    categoryBreakdown: categories.map((c) => ({
+      category: c.category,
+      count: c.count,
+      percentage: share(c.count),
+      avgQuality: round(c.avgQuality),
+      avgGolden: round(c.avgGolden),
+    })),
+    antiPatterns: antiPatterns.map((a) => ({ ...a, percentage: share(a.count) })),
+    signals,
+    outcomes: {
+      attributed: outcomes.attributed,
+      avgFriction: round(outcomes.avgFriction),
+      retryRate: round(outcomes.retryRate),
+    },
+  };
+}
@@ -1,7 +1,36 @@
 import { describe, it, expect, vi } from 'vitest';
-import { getOverallStats } from './stats-repository.js';
+import BetterSqlite3 from 'better-sqlite3';
+import { getOverallStats, getTeamStats } from './stats-repository.js';
+import { getTeamTrend } from './trends-repository.js';
+import { runMigrations } from '../../src/db/migrations.js';
 import type { Database } from 'better-sqlite3';
 
+function seedTeam(): Database {
+    const db = new BetterSqlite3(':memory:');
+    runMigrations(db);
+    const member = db.prepare(
+        "INSERT INTO team_members (name, share_details, bundle_version, exported_at) VALUES (?, ?, 1, '2026-03-05T00:00:00Z')"
+    );
+    member.run('alice', 1);
+    member.run('bob', 0);
+    const conversation = db.prepare(
+        'INSERT INTO team_conversations (member, id, project_hash, source, started_at, effectiveness, cost_usd, signals) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    conversation.run('alice', 'c1', 'p1', 'claude-code', '2026-03-01T09:00:00Z', 0.8, 0.1, '{"retry_attempt":1}');
+    conversation.run('bob', 'c1', 'p2', 'claude-code', '2026-03-02T09:00:00Z', 0.4, 0.3, '{"retry_attempt":2,"command":1}');
+    const prompt = db.prepare(`
+        INSERT INTO team_prompts (
+            member, conversation_id, timestamp, content, length, category, intent, quality,
+            golden_goal, golden_output, golden_limits, golden_data, golden_evaluation, golden_next, golden_total,
+            anti_patterns, friction_score, next_turn_reaction
+        ) VALUES (?, 'c1', ?, ?, 10, ?, 'command', ?, ?, 0.5, 0.5, 0.5, 0.5, 0.5, ?, ?, ?, ?)
+    `);
+    prompt.run('alice', '2026-03-01T09:00:00Z', 'fix it', 'bug-fix', 0.6, 0.2, 0.4, '["vague"]', 4, 'retry');
+    prompt.run('bob', '2026-03-02T09:00:00Z', null, 'bug-fix', 0.8, 0.6, 0.6, '[]', 0, 'positive');
+    prompt.run('bob', '2026-03-02T09:05:00Z', null, 'testing', 1.0, 1.0, 0.8, '["vague","no-output"]', null, null);
+    return db as unknown as Database;
+}
+
 describe('stats-repository', () => {
     describe('getOverallStats', () => {
         it('should return aggregated stats from multiple queries', () => {
@@ -51,4 +80,40 @@ describe('stats-repository', () => {
             expect(result.lastSync).toBeUndefined();
         });
     });
+
+    describe('getTeamStats', () => {
+        it('should aggregate the whole team or one member', () => {
+            const db = seedTeam();
+
+            const team = getTeamStats(db);
+            expect(team.members).toBe(2);
+            expect(team.conversations).toBe(2);
+            expect(team.prompts).toBe(3);
+            expect(team.projects).toBe(2);
+            expect(team.redactedPrompts).toBe(2);
+            expect(team.avgEffectiveness).toBe(0.6);
+            expect(team.totalCostUsd).toBe(0.4);
+            expect(team.goldenScores.goal).toBe(60);
+
+            const alice = getTeamStats(db, { member: 'alice' });
+            expect(alice.members).toBe(1);
+            expect(alice.prompts).toBe(1);
+            expect(alice.avgQuality).toBe(0.6);
+
+            expect(getTeamStats(db, { startDate: new Date('2026-03-02T00:00:00Z') }).conversations).toBe(1);
+        });
+
+        it('should group team trends by day with the member filter', () => {
+            const db = seedTeam();
+            const start = new Date('2026-01-01T00:00:00Z');
+
+            expect(getTeamTrend(db, 'volume', start, 'day')).toEqual([
+                { date: '2026-03-01', value: 1, count: 1 },
+                { date: '2026-03-02', value: 1, count: 1 },
+            ]);
+            expect(getTeamTrend(db, 'golden', start, 'day', { member: 'bob' })).toEqual([
+                { date: '2026-03-02', value: 0.7, count: 2 },
+            ]);
+        });
+    });
 });
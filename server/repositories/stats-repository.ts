@@ -4,6 +4,7 @@
  */
 
 import type { Database } from 'better-sqlite3';
+import { teamWhere, type TeamFilter } from './team-filter.js';
 
 export interface StatsData {
   conversations: number;
@@ -112,3 +113,91 @@ export function getOverallStats(db: Database): StatsData {
     goldenScores,
   };
 }
+
+export interface TeamStatsData {
+  members: number;
+  conversations: number;
+  prompts: number;
+  projects: number;
+  redactedPrompts: number;
+  avgEffectiveness: number;
+  avgQuality: number;
+  totalCostUsd: number;
+  lastImport: string | null;
+  goldenScores: StatsData['goldenScores'];
+}
+
+/**
+ * Get aggregate statistics over imported team datasets
+ */
+export function getTeamStats(db: Database, filter: TeamFilter = {}): TeamStatsData {
+  const conversationWhere = teamWhere('started_at', filter);
+  const promptWhere = teamWhere('timestamp', filter);
+
+  const conversations = db
+    .prepare(
+      `
+      SELECT
+        COUNT(*) as conversations,
+        COUNT(DISTINCT member) as members,
+        COUNT(DISTINCT project_hash) as projects,
+        AVG(effectiveness) as avgEffectiveness,
+        COALESCE(SUM(cost_usd), 0) as totalCostUsd
+      FROM team_conversations
+      WHERE ${conversationWhere.sql}
+    `
+    )
+    .get(...conversationWhere.params) as {
+    conversations: number;
+    members: number;
+    projects: number;
+    avgEffectiveness: number | null;
+    totalCostUsd: number;
+  };
+
+  const prompts = db
+    .prepare(
+      `
+      SELECT
+        COUNT(*) as prompts,
+        COALESCE(SUM(CASE WHEN content IS NULL THEN 1 ELSE 0 END), 0) as redacted,
+        AVG(quality) as avgQuality,
+        AVG(golden_goal) as goal,
+        AVG(golden_output) as output,
+        AVG(golden_limits) as limits,
+        AVG(golden_data) as data,
+        AVG(golden_evaluation) as evaluation,
+        AVG(golden_next) as next
+      FROM team_prompts
+      WHERE ${promptWhere.sql}
+    `
+    )
+    .get(...promptWhere.params) as Record<string, number | null>;
+
+  const memberWhere = filter.member ? 'WHERE name = ?' : '';
+  const lastImport = db
+    .prepare(`SELECT MAX(imported_at) as lastImport FROM team_members ${memberWhere}`)
+    .get(...(filter.member ? [filter.member] : [])) as { lastImport: string | null };
+
+  const percent = (value: number | null | undefined) => Math.round((value ?? 0) * 100);
+
+  return {
+    members: conversations.members,
+    conversations: conversations.conversations,
+    prompts: prompts.prompts ?? 0,
+    projects: conversations.projects,
+    redactedPrompts: prompts.redacted ?? 0,
+    avgEffectiveness: Math.round((conversations.avgEffectiveness ?? 0) * 100) / 100,
+    avgQuality: Math.round((prompts.avgQuality ?? 0) * 100) / 100,
+    totalCostUsd: Math.round(conversations.totalCostUsd * 10000) / 10000,
+    lastImport: lastImport.lastImport,
+    goldenScores: {
+      goal: percent(prompts.goal),
+      output: percent(prompts.output),
+      limits: percent(prompts.limits),
+      data: percent(prompts.data),
+      evaluation: percent(prompts.evaluation),
+      next: percent(prompts.next),
+    },
+  };
+}
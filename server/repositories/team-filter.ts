@@ -0,0 +1,27 @@
+/**
+ * Team Filter
+ * Shared WHERE clause for the member dimension of team dataset queries
+ */
+
+export interface TeamFilter {
+  /** Limit to one member's dataset (undefined = whole team) */
+  member?: string;
+  startDate?: Date;
+}
+
+/**
+ * Build the WHERE clause for team_conversations / team_prompts
+ */
+export function teamWhere(dateColumn: string, filter: TeamFilter): { sql: string; params: unknown[] } {
+  const conditions = ['1 = 1'];
+  const params: unknown[] = [];
+  if (filter.member) {
+    conditions.push('member = ?');
+    params.push(filter.member);
+  }
+  if (filter.startDate) {
+    conditions.push(`${dateColumn} >= ?`);
+    params.push(filter.startDate.toISOString());
+  }
+  return { sql: conditions.join(' AND '), params };
+}
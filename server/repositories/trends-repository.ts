@@ -4,6 +4,7 @@
  */
 
 import type { Database } from 'better-sqlite3';
+import { teamWhere, type TeamFilter } from './team-filter.js';
 
 export type GroupBy = 'day' | 'week' | 'month';
 
@@ -105,6 +106,86 @@ export function getQualityTrend(
   }));
 }
 
+/**
+ * Get cost trend data (USD spent per period)
+ */
+export function getCostTrend(
+  db: Database,
+  startDate: Date,
+  groupBy: GroupBy
+): TrendDataPoint[] {
+  const dateFormat = getDateFormat(groupBy);
+
+  const result = db
+    .prepare(
+      `
+      SELECT
+        strftime('${dateFormat}', COALESCE(t.timestamp, c.started_at)) as date,
+        COALESCE(SUM(t.cost_usd), 0) as value,
+        COUNT(DISTINCT c.id) as count
+      FROM turns t
+      JOIN conversations c ON t.conversation_id = c.id
+      WHERE t.cost_usd IS NOT NULL
+        AND COALESCE(t.timestamp, c.started_at) >= ?
+      GROUP BY strftime('${dateFormat}', COALESCE(t.timestamp, c.started_at))
+      ORDER BY date ASC
+    `
+    )
+    .all(startDate.toISOString()) as TrendDataPoint[];
+
+  return result.map((r) => ({
+    ...r,
+    value: Math.round(r.value * 10000) / 10000,
+  }));
+}
+
+export type TeamTrendMetric = 'volume' | 'effectiveness' | 'quality' | 'golden';
+
+// Source table, date column and aggregate per team metric
+const TEAM_TREND_QUERIES: Record<TeamTrendMetric, { table: string; dateColumn: string; value: string; digits: number }> = {
+  volume: { table: 'team_conversations', dateColumn: 'started_at', value: 'COUNT(*)', digits: 0 },
+  effectiveness: { table: 'team_conversations', dateColumn: 'started_at', value: 'AVG(effectiveness)', digits: 2 },
+  quality: { table: 'team_prompts', dateColumn: 'timestamp', value: 'AVG(quality)', digits: 2 },
+  golden: { table: 'team_prompts', dateColumn: 'timestamp', value: 'AVG(golden_total)', digits: 2 },
+};
+
+/**
+ * Get trend data over imported team datasets (whole team or one member)
+ */
+export function getTeamTrend(
+  db: Database,
+  metric: TeamTrendMetric,
+  startDate: Date,
+  groupBy: GroupBy,
+  filter: Pick<TeamFilter, 'member'> = {}
+): TrendDataPoint[] {
+  const dateFormat = getDateFormat(groupBy);
+  const query = TEAM_TREND_QUERIES[metric];
+  const where = teamWhere(query.dateColumn, { ...filter, startDate });
+
+  const result = db
+    .prepare(
+      `
+      SELECT
+        strftime('${dateFormat}', ${query.dateColumn}) as date,
+        ${query.value} as value,
+        COUNT(*) as count
+      FROM ${query.table}
+      WHERE ${where.sql}
+        ${metric === 'effectiveness' ? 'AND effectiveness IS NOT NULL' : ''}
+      GROUP BY strftime('${dateFormat}', ${query.dateColumn})
+      ORDER BY date ASC
+    `
+    )
+    .all(...where.params) as TrendDataPoint[];
+
+  const factor = 10 ** query.digits;
+  return result.map((r) => ({
+    ...r,
+    value: Math.round(r.value * factor) / factor,
+  }));
+}
+
 /**
  * Get date format for SQL strftime based on groupBy
  */
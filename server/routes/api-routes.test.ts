@@ -1,8 +1,8 @@
 /**
  * Dashboard API Route Tests
  *
- * 24 test cases covering all Dashboard API endpoints.
- * TC-W01 through TC-W24
+ * Test cases covering all Dashboard API endpoints.
+ * TC-W01 through TC-W42
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
@@ -11,6 +11,10 @@ import { type Server } from 'http';
 
 // ─── Mocks ──────────────────────────────────────────────────────────
 
+const { MockPdfRenderError } = vi.hoisted(() => ({
+  MockPdfRenderError: class MockPdfRenderError extends Error {},
+}));
+
 const mockDb = {
   prepare: vi.fn().mockReturnValue({
     get: vi.fn().mockReturnValue({ lastActive: '2026-03-04', avgEffectiveness: 0.75 }),
@@ -26,6 +30,10 @@ vi.mock('../../src/index.js', () => ({
     { project: 'test-project', project_path: '-Users-test-project', count: 10 },
     { project: 'other-project', project_path: '-Users-other-project', count: 5 },
   ]),
+  getSourceStats: vi.fn(() => [
+    { source: 'claude-code', count: 40 },
+    { source: 'codex-cli', count: 2 },
+  ]),
   getProjectLastActive: vi.fn(() => '2026-03-04'),
   getProjectAvgEffectiveness: vi.fn(() => 0.75),
   getAllConversations: vi.fn(() => [
@@ -35,6 +43,80 @@ vi.mock('../../src/index.js', () => ({
   getConversationsInRange: vi.fn(() => [
     { id: 'conv-1', project: 'test-project', started_at: '2026-01-01T00:00:00Z' },
   ]),
+  getConversationsWithTurnsInRange: vi.fn(() => [
+    { id: 'conv-1', project: 'test-project', started_at: '2026-01-01T00:00:00Z' },
+  ]),
+  getCostTotals: vi.fn(() => ({
+    conversations: 3,
+    turns: 12,
+    input_tokens: 1200,
+    output_tokens: 3400,
+    cache_creation_tokens: 5000,
+    cache_read_tokens: 90000,
+    cost_usd: 1.25,
+    unpriced_turns: 1,
+  })),
+  resetPersonalModelCache: vi.fn(),
+  loadPersonalModel: vi.fn(() => null),
+  getPersonalModelRows: vi.fn(() => []),
+  getPromptOutcomes: vi.fn(() => [
+    { turn_id: 'turn-5', conversation_id: 'conv-1', project: 'test-project', content: 'fix the build', timestamp: '2026-03-01T09:00:00Z', next_turn_id: 'turn-9', assistant_turns: 3, tool_calls: 6, tool_errors: 2, files_touched: '["src/build.ts"]', next_turn_reaction: 'retry', duration_ms: 42000, time_to_completion_ms: null, output_tokens: 1800, cost_usd: 0.12, friction_score: 11 },
+  ]),
+  countPromptOutcomes: vi.fn(() => 1),
+  renderReport: vi.fn(async (_report: unknown, format: string) =>
+    format === 'pdf'
+      ? Promise.reject(new MockPdfRenderError('PDF 내보내기에는 Chrome, Chromium 또는 Edge 가 필요합니다'))
+      : { content: '# Prompt Evolution report\n', extension: 'md', mimeType: 'text/markdown; charset=utf-8' }
+  ),
+  PdfRenderError: MockPdfRenderError,
+  parseComparisonSpec: vi.fn(() => ({
+    current: { label: '최근 7일', start: new Date('2026-02-25T00:00:00Z'), end: new Date('2026-03-04T00:00:00Z') },
+    previous: { label: '이전 7일', start: new Date('2026-02-18T00:00:00Z'), end: new Date('2026-02-25T00:00:00Z') },
+  })),
+  comparisonWindowsFromRange: vi.fn(() => null),
+  comparePeriods: vi.fn((_prompts: unknown, windows: Record<string, unknown>) => ({
+    generatedAt: new Date('2026-03-04'),
+    current: { window: windows.current, report: { summary: { totalPrompts: 12 } } },
+    previous: { window: windows.previous, report: { summary: { totalPrompts: 9 } } },
+    changes: [
+      { key: 'effectiveness', group: 'summary', label: '효과성', kind: 'mean', previous: 0.52, current: 0.71, delta: 0.19, relativeChange: 0.365, pValue: 0.01, significant: true, direction: 'up', assessment: 'improved', samples: { previous: 9, current: 12 } },
+    ],
+  })),
+  getTeamMembers: vi.fn(() => [
+    { name: 'alice', share_details: 1, prompts_redacted: 0, bundle_version: 1, exported_at: '2026-03-04T00:00:00Z', imported_at: '2026-03-04 10:00:00', conversations: 4, prompts: 20 },
+    { name: 'bob', share_details: 0, prompts_redacted: 1, bundle_version: 1, exported_at: '2026-03-03T00:00:00Z', imported_at: '2026-03-04 10:00:00', conversations: 7, prompts: 31 },
+  ]),
+  getTeamMember: vi.fn((name: string) =>
+    name === 'alice' ? { name: 'alice', share_details: 1 } : name === 'bob' ? { name: 'bob', share_details: 0 } : undefined
+  ),
+  deleteTeamMember: vi.fn((name: string) => name === 'bob'),
+  importTeamBundle: vi.fn((bundle: { member: { name: string } }) => ({ member: bundle.member.name, conversations: 2, prompts: 6 })),
+  EFFECTIVENESS_WEIGHTS: { sentiment: 0.35, completion: 0.25, efficiency: 0.25, engagement: 0.15 },
+  getCostBreakdown: vi.fn(() => [
+    { key: 'claude-sonnet-4-5', conversations: 2, turns: 8, input_tokens: 800, output_tokens: 2400, cache_creation_tokens: 5000, cache_read_tokens: 90000, cost_usd: 1.0, unpriced_turns: 0 },
+    { key: 'gpt-5', conversations: 1, turns: 4, input_tokens: 400, output_tokens: 1000, cache_creation_tokens: 0, cache_read_tokens: 0, cost_usd: 0.25, unpriced_turns: 1 },
+  ]),
+  searchConversations: vi.fn(() => ({
+    query: 'migration',
+    total: 2,
+    limit: 20,
+    offset: 0,
+    hits: [
+      { kind: 'turn', conversationId: 'conv-1', turnId: 'turn-3', role: 'user', project: 'test-project', source: 'claude-code', timestamp: '2026-03-01T09:00:00Z', snippet: 'run the <mark>migration</mark> again', rank: -4.2 },
+      { kind: 'summary', conversationId: 'conv-2', turnId: null, role: null, project: 'test-project', source: 'claude-code', timestamp: '2026-03-02T09:00:00Z', snippet: 'Schema <mark>migration</mark> cleanup', rank: -2.1 },
+    ],
+  })),
+  ensurePromptEmbeddings: vi.fn(() => new Map()),
+  findSimilarPrompts: vi.fn(() => ({
+    query: 'auth fails after submit',
+    model: 'tfidf-svd-v1:3f9a1c02',
+    prompts: [
+      { turnId: 'turn-7', conversationId: 'conv-2', project: 'test-project', source: 'claude-code', timestamp: '2026-03-02T09:00:00Z', content: 'fix login bug', similarity: 0.62, effectiveness: 0.9 },
+    ],
+  })),
+  findPromptsSimilarToTurn: vi.fn((turnId: string) =>
+    turnId === 'turn-1' ? { query: 'fix it', model: 'tfidf-svd-v1:3f9a1c02', prompts: [] } : null
+  ),
   generateInsights: vi.fn(() => ({
     generatedAt: new Date('2026-03-04'),
     period: '30d',
@@ -75,12 +157,39 @@ vi.mock('../repositories/index.js', () => ({
     { date: '2026-03-01', value: 0.7, count: 5 },
     { date: '2026-03-02', value: 0.8, count: 8 },
   ]),
+  getCostTrend: vi.fn(() => [
+    { date: '2026-03-01', value: 0.42, count: 2 },
+    { date: '2026-03-02', value: 0.83, count: 3 },
+  ]),
+  getTeamStats: vi.fn(() => ({
+    members: 2,
+    conversations: 11,
+    prompts: 51,
+    projects: 3,
+    redactedPrompts: 31,
+    avgEffectiveness: 0.64,
+    avgQuality: 0.58,
+    totalCostUsd: 4.2,
+    lastImport: '2026-03-04 10:00:00',
+    goldenScores: { goal: 60, output: 40, limits: 30, data: 50, evaluation: 20, next: 35 },
+  })),
+  getTeamTrend: vi.fn(() => [
+    { date: '2026-03-01', value: 4, count: 4 },
+    { date: '2026-03-02', value: 7, count: 7 },
+  ]),
+  getTeamInsights: vi.fn(() => ({
+    prompts: 51,
+    categoryBreakdown: [{ category: 'bug-fix', count: 20, percentage: 39.2, avgQuality: 0.6, avgGolden: 0.45 }],
+    antiPatterns: [{ pattern: '모호한 목표', count: 12, percentage: 23.5 }],
+    signals: [{ type: 'retry_attempt', count: 9 }],
+    outcomes: { attributed: 40, avgFriction: 2.1, retryRate: 0.18 },
+  })),
 }));
 
 vi.mock('../services/sync-service.js', () => ({
-  importIncremental: vi.fn(async () => ({ imported: 5, analyzed: 3, skipped: 2, errors: [] })),
-  analyzeRecent: vi.fn(async () => ({ imported: 0, analyzed: 10, skipped: 0, errors: [] })),
-  fullRefresh: vi.fn(async () => ({ imported: 20, analyzed: 20, skipped: 0, errors: [] })),
+  importIncremental: vi.fn(async () => ({ imported: 5, updated: 1, analyzed: 3, skipped: 2, errors: [] })),
+  analyzeRecent: vi.fn(async () => ({ imported: 0, updated: 0, analyzed: 10, skipped: 0, errors: [] })),
+  fullRefresh: vi.fn(async () => ({ imported: 20, updated: 0, analyzed: 20, skipped: 0, errors: [] })),
   getSyncStatus: vi.fn(() => ({
     isRunning: false,
     lastSync: new Date('2026-03-04T10:00:00Z'),
@@ -94,10 +203,47 @@ vi.mock('../services/scheduler.js', () => ({
   getNextScheduledSync: vi.fn(() => new Date('2026-03-04T12:00:00Z')),
 }));
 
+vi.mock('../services/session-watcher.js', () => ({
+  getWatcherStatus: vi.fn(() => ({
+    isWatching: true,
+    path: '/home/test/.claude/projects',
+    lastImport: new Date('2026-03-04T11:00:00Z'),
+    pendingFiles: 0,
+  })),
+}));
+
+vi.mock('../services/conversation-detail.js', () => ({
+  getConversationDetail: vi.fn((id: string) =>
+    id === 'conv-1'
+      ? {
+          conversation: { id: 'conv-1', project: 'test-project', source: 'claude-code', turnCount: 2 },
+          summaries: [],
+          turns: [
+            { id: 'turn-1', index: 0, role: 'user', content: 'fix it', signals: [{ type: 'command', turnId: 'turn-1' }], toolUsages: [], prompt: { grade: 'F' } },
+            { id: 'turn-2', index: 1, role: 'assistant', content: 'Done', signals: [], toolUsages: [{ name: 'Edit', isError: false }], prompt: null },
+          ],
+          signals: [{ type: 'command', turnId: 'turn-1' }],
+          effectiveness: { grade: 'F', score: { overall: 0.2 } },
+        }
+      : null
+  ),
+}));
+
 vi.mock('../validation/index.js', () => ({
   validateQuery: () => (_req: Request, _res: Response, next: NextFunction) => next(),
+  validateBody: () => (_req: Request, _res: Response, next: NextFunction) => next(),
   insightsQuerySchema: {},
+  insightsExportQuerySchema: {},
+  insightsCompareQuerySchema: {},
   trendsQuerySchema: {},
+  costQuerySchema: {},
+  modelQuerySchema: {},
+  promptOutcomesQuerySchema: {},
+  searchQuerySchema: {},
+  similarPromptsQuerySchema: {},
+  teamImportBodySchema: {},
+  teamQuerySchema: {},
+  teamTrendsQuerySchema: {},
 }));
 
 // ─── Test Utilities ─────────────────────────────────────────────────
@@ -167,6 +313,7 @@ describe('Data Sync (TC-W03, TC-W04, TC-W05, TC-W06)', () => {
     const body = await res.json();
     expect(body.success).toBe(true);
     expect(body.imported).toBe(5);
+    expect(body.updated).toBe(1);
     expect(body.analyzed).toBe(3);
     expect(body.duration).toBeGreaterThanOrEqual(0);
   });
@@ -287,6 +434,44 @@ describe('Insights API (TC-W11, TC-W12)', () => {
   });
 });
 
+describe('Insights Export API (TC-W38)', () => {
+  it('TC-W38: should download the report in the requested format', async () => {
+    const { renderReport } = await import('../../src/index.js');
+    const res = await fetchApi('/api/insights/export?format=md&period=all');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/markdown');
+    expect(res.headers.get('content-disposition')).toContain('prompt-evolution-report-all.md');
+    expect(await res.text()).toContain('# Prompt Evolution report');
+    expect(renderReport).toHaveBeenCalledWith(expect.any(Object), 'md', expect.any(Object));
+
+    const pdf = await fetchApi('/api/insights/export?format=pdf&period=all');
+    expect(pdf.status).toBe(501);
+    expect((await pdf.json()).error).toBe('PDF export unavailable');
+  });
+});
+
+describe('Insights Compare API (TC-W39)', () => {
+  it('TC-W39: should compare the period with the preceding one', async () => {
+    const { parseComparisonSpec, comparePeriods, getConversationsWithTurnsInRange } = await import('../../src/index.js');
+    const res = await fetchApi('/api/insights/compare?period=7d');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(parseComparisonSpec).toHaveBeenCalledWith('7d:prev');
+    expect(getConversationsWithTurnsInRange).toHaveBeenCalledWith(
+      new Date('2026-02-18T00:00:00Z'),
+      new Date('2026-03-04T00:00:00Z'),
+      undefined
+    );
+    expect(comparePeriods).toHaveBeenCalled();
+    expect(body.current.window.label).toBe('최근 7일');
+    expect(body.changes[0]).toMatchObject({ key: 'effectiveness', significant: true, assessment: 'improved' });
+
+    const invalid = await fetchApi('/api/insights/compare?from=2026-03-10&to=2026-03-01');
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toBe('Invalid comparison range');
+  });
+});
+
 describe('Period Filter (TC-W13, TC-W14, TC-W15)', () => {
   it('TC-W13: should filter insights by 7d period', async () => {
     const res = await fetchApi('/api/insights?period=7d');
@@ -335,8 +520,181 @@ describe('Trends API (TC-W16, TC-W17)', () => {
   });
 });
 
+describe('Cost API (TC-W25, TC-W26, TC-W27)', () => {
+  it('TC-W25: should return cost totals and breakdown', async () => {
+    const res = await fetchApi('/api/stats/cost?period=30d&groupBy=model');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toHaveProperty('period', '30d');
+    expect(body).toHaveProperty('groupBy', 'model');
+    expect(body.totals.cost_usd).toBe(1.25);
+    expect(body.totals.unpriced_turns).toBe(1);
+    expect(body.breakdown).toHaveLength(2);
+    expect(body.breakdown[0]).toHaveProperty('key', 'claude-sonnet-4-5');
+  });
+
+  it('TC-W26: should pass project filter to cost queries', async () => {
+    const { getCostBreakdown } = await import('../../src/index.js');
+    const res = await fetchApi('/api/stats/cost?period=all&groupBy=day&project=test-project');
+    expect(res.status).toBe(200);
+    expect(getCostBreakdown).toHaveBeenCalledWith('day', {
+      startDate: undefined,
+      project: 'test-project',
+      source: undefined,
+    });
+  });
+
+  it('TC-W27: should return cost trend', async () => {
+    const res = await fetchApi('/api/trends?period=30d&metric=cost&groupBy=day');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.metric).toBe('cost');
+    expect(body.data[1].value).toBe(0.83);
+  });
+});
+
+describe('Personal Model API (TC-W36)', () => {
+  it('TC-W36: should fall back to default weights without a trained model', async () => {
+    const { loadPersonalModel } = await import('../../src/index.js');
+    const res = await fetchApi('/api/stats/model?project=test-project');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(loadPersonalModel).toHaveBeenCalledWith('test-project');
+    expect(body.personalized).toBe(false);
+    expect(body.effectivenessWeights).toEqual(body.defaultWeights);
+    expect(body.importances).toEqual([]);
+  });
+});
+
+describe('Prompt Outcomes API (TC-W37)', () => {
+  it('TC-W37: should list per-prompt outcomes with parsed files', async () => {
+    const { getPromptOutcomes } = await import('../../src/index.js');
+    const res = await fetchApi('/api/prompts/outcomes?project=test-project&reaction=retry');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(getPromptOutcomes).toHaveBeenCalledWith(
+      expect.objectContaining({ project: 'test-project', reaction: 'retry' }),
+      expect.any(Object)
+    );
+    expect(body.total).toBe(1);
+    expect(body.outcomes[0]).toMatchObject({
+      turnId: 'turn-5',
+      nextTurnReaction: 'retry',
+      toolErrors: 2,
+      filesTouched: ['src/build.ts'],
+      frictionScore: 11,
+    });
+  });
+});
+
+describe('Search API (TC-W30, TC-W31)', () => {
+  it('TC-W30: should return ranked hits with snippets', async () => {
+    const res = await fetchApi('/api/search?q=migration');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.total).toBe(2);
+    expect(body.hits[0]).toHaveProperty('turnId', 'turn-3');
+    expect(body.hits[0].snippet).toContain('<mark>migration</mark>');
+    expect(body.hits[1]).toHaveProperty('kind', 'summary');
+  });
+
+  it('TC-W31: should pass filters to the search', async () => {
+    const { searchConversations } = await import('../../src/index.js');
+    const res = await fetchApi('/api/search?q=migration&role=user&project=test-project&category=bug-fix');
+    expect(res.status).toBe(200);
+    expect(searchConversations).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: 'migration',
+        role: 'user',
+        project: 'test-project',
+        category: 'bug-fix',
+      })
+    );
+  });
+});
+
+describe('Conversation Detail API (TC-W32, TC-W33)', () => {
+  it('TC-W32: should return turns with signals and scores', async () => {
+    const res = await fetchApi('/api/conversations/conv-1');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.conversation.id).toBe('conv-1');
+    expect(body.turns).toHaveLength(2);
+    expect(body.turns[0].signals[0].type).toBe('command');
+    expect(body.turns[0].prompt.grade).toBe('F');
+    expect(body.effectiveness.grade).toBe('F');
+  });
+
+  it('TC-W33: should return 404 for an unknown conversation', async () => {
+    const res = await fetchApi('/api/conversations/missing');
+    expect(res.status).toBe(404);
+    const body = await res.json();
+    expect(body.error).toBe('Conversation not found');
+  });
+});
+
+describe('Similar Prompts API (TC-W34, TC-W35)', () => {
+  it('TC-W34: should return prompts similar to a text', async () => {
+    const { findSimilarPrompts } = await import('../../src/index.js');
+    const res = await fetchApi('/api/library/similar?q=auth%20fails%20after%20submit&project=test-project');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.prompts[0].content).toBe('fix login bug');
+    expect(findSimilarPrompts).toHaveBeenCalledWith(
+      'auth fails after submit',
+      expect.objectContaining({ project: 'test-project' })
+    );
+  });
+
+  it('TC-W35: should look up by turn and return 404 for an unknown one', async () => {
+    const ok = await fetchApi('/api/library/similar?turnId=turn-1');
+    expect(ok.status).toBe(200);
+    expect((await ok.json()).query).toBe('fix it');
+
+    const missing = await fetchApi('/api/library/similar?turnId=missing');
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error).toBe('Prompt not found');
+  });
+});
+
 // ─── J3: Project-Specific ───────────────────────────────────────────
 
+describe('Live Events (TC-W28, TC-W29)', () => {
+  it('TC-W28: should stream published events over SSE', async () => {
+    const { publishEvent } = await import('../services/event-bus.js');
+    const controller = new AbortController();
+    const res = await fetchApi('/api/events', { signal: controller.signal });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    expect(decoder.decode((await reader.read()).value)).toContain('retry:');
+
+    publishEvent({
+      type: 'session-updated',
+      conversationId: 'conv-1',
+      source: 'claude-code',
+      project: 'test-project',
+      status: 'appended',
+      newTurns: 2,
+    });
+    const chunk = decoder.decode((await reader.read()).value);
+    expect(chunk).toContain('event: session-updated');
+    expect(chunk).toContain('"conversationId":"conv-1"');
+
+    controller.abort();
+  });
+
+  it('TC-W29: should include watcher status in sync status', async () => {
+    const res = await fetchApi('/api/sync/status');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.watcher.isWatching).toBe(true);
+    expect(body.watcher.lastImport).toBe('2026-03-04T11:00:00.000Z');
+  });
+});
+
 describe('Projects API (TC-W18, TC-W19, TC-W20)', () => {
   it('TC-W18: should return projects list', async () => {
     const res = await fetchApi('/api/projects');
@@ -392,3 +750,55 @@ describe('Learning Pages (TC-W21, TC-W22, TC-W23, TC-W24)', () => {
     }
   });
 });
+
+describe('Team API (TC-W40, TC-W41, TC-W42)', () => {
+  it('TC-W40: should import a bundle and list members without sharing non-opted-in sizes', async () => {
+    const { importTeamBundle } = await import('../../src/index.js');
+    const imported = await fetchApi('/api/team/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ member: { name: 'carol', shareDetails: false } }),
+    });
+    expect(imported.status).toBe(201);
+    expect(await imported.json()).toEqual({ member: 'carol', conversations: 2, prompts: 6 });
+    expect(importTeamBundle).toHaveBeenCalledTimes(1);
+
+    const res = await fetchApi('/api/team/members');
+    const body = await res.json();
+    expect(body.members.map((m: { name: string }) => m.name)).toEqual(['alice', 'bob']);
+    expect(body.members[0]).toMatchObject({ shareDetails: true, conversations: 4, prompts: 20 });
+    expect(body.members[1]).toMatchObject({ shareDetails: false, redactedPrompts: true, conversations: null, prompts: null });
+  });
+
+  it('TC-W41: should serve team aggregates and only opted-in drilldowns', async () => {
+    const { getTeamStats } = await import('../repositories/index.js');
+    const team = await fetchApi('/api/team/stats?period=30d');
+    expect(team.status).toBe(200);
+    expect((await team.json()).members).toBe(2);
+
+    const alice = await fetchApi('/api/team/stats?period=30d&member=alice');
+    expect(alice.status).toBe(200);
+    expect(getTeamStats).toHaveBeenLastCalledWith(mockDb, expect.objectContaining({ member: 'alice' }));
+
+    const bob = await fetchApi('/api/team/insights?member=bob');
+    expect(bob.status).toBe(403);
+    expect((await bob.json()).error).toBe('Member has not opted in to drilldowns');
+
+    const unknown = await fetchApi('/api/team/trends?member=dave');
+    expect(unknown.status).toBe(404);
+  });
+
+  it('TC-W42: should return team trends with a direction and delete a member', async () => {
+    const res = await fetchApi('/api/team/trends?metric=volume&period=30d&groupBy=day');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toHaveLength(2);
+    expect(body.trend).toBe('improving');
+
+    const insights = await fetchApi('/api/team/insights');
+    expect((await insights.json()).antiPatterns[0].pattern).toBe('모호한 목표');
+
+    expect((await fetchApi('/api/team/members/bob', { method: 'DELETE' })).status).toBe(204);
+    expect((await fetchApi('/api/team/members/bob2', { method: 'DELETE' })).status).toBe(404);
+  });
+});
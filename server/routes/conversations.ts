@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getConversationDetail } from '../services/conversation-detail.js';
+
+export const conversationsRouter = Router();
+
+// GET /api/conversations/:id - One conversation with turns, tool calls, signals and scores
+conversationsRouter.get('/:id', async (req, res, next) => {
+  try {
+    const detail = getConversationDetail(req.params.id);
+    if (!detail) {
+      res.status(404).json({ error: 'Conversation not found', details: req.params.id });
+      return;
+    }
+
+    res.json(detail);
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { subscribeEvents } from '../services/event-bus.js';
+
+export const eventsRouter = Router();
+
+// Keep proxies from closing idle streams
+const HEARTBEAT_MS = 25 * 1000;
+
+// GET /api/events - Server-Sent Events stream of session and sync updates
+eventsRouter.get('/', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribeEvents((event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
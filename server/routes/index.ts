@@ -4,6 +4,12 @@ import { insightsRouter } from './insights.js';
 import { projectsRouter } from './projects.js';
 import { trendsRouter } from './trends.js';
 import { syncRouter } from './sync.js';
+import { eventsRouter } from './events.js';
+import { searchRouter } from './search.js';
+import { conversationsRouter } from './conversations.js';
+import { libraryRouter } from './library.js';
+import { promptsRouter } from './prompts.js';
+import { teamRouter } from './team.js';
 
 export const apiRouter = Router();
 
@@ -13,6 +19,12 @@ apiRouter.use('/insights', insightsRouter);
 apiRouter.use('/projects', projectsRouter);
 apiRouter.use('/trends', trendsRouter);
 apiRouter.use('/sync', syncRouter);
+apiRouter.use('/events', eventsRouter);
+apiRouter.use('/search', searchRouter);
+apiRouter.use('/conversations', conversationsRouter);
+apiRouter.use('/library', libraryRouter);
+apiRouter.use('/prompts', promptsRouter);
+apiRouter.use('/team', teamRouter);
 
 // Health check
 apiRouter.get('/health', (req, res) => {
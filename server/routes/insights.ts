@@ -4,12 +4,25 @@ import {
   getDatabase,
   getAllConversations,
   getConversationsInRange,
+  getConversationsWithTurnsInRange,
+  ensurePromptEmbeddings,
+  loadPersonalModel,
+  resetPersonalModelCache,
+  renderReport,
+  PdfRenderError,
+  parseComparisonSpec,
+  comparisonWindowsFromRange,
+  comparePeriods,
   type TimePeriod,
+  type AssistantSource,
+  type PromptData,
 } from '../../src/index.js';
 import { getPromptDataFromConversations } from '../repositories/index.js';
 import {
   validateQuery,
   insightsQuerySchema,
+  insightsExportQuerySchema,
+  insightsCompareQuerySchema,
   type InsightsQuery,
 } from '../validation/index.js';
 
@@ -22,10 +35,10 @@ insightsRouter.get(
   async (req, res, next) => {
     try {
       const db = getDatabase();
-      const { period, project, category, focus } = req.query as InsightsQuery;
+      const { period, project, category, focus, source } = req.query as InsightsQuery;
 
-    // Get conversations based on period
-    const conversations = getConversationsForPeriod(period);
+    // Get conversations based on period (and assistant source)
+    const conversations = getConversationsForPeriod(period, source);
 
     // Filter by project if specified
     const filteredConversations = project
@@ -46,15 +59,7 @@ insightsRouter.get(
       return res.json(createEmptyResponse(period));
     }
 
-    // Generate insights
-    const report = generateInsights(promptData, {
-      period,
-      category,
-      focusArea: focus,
-      includeLibrary: true,
-      includeGuidelines: true,
-      includeSelfImprovement: true,
-    });
+    const report = generateReport(promptData, { period, project, category, focus });
 
     // Convert Date to ISO string for JSON response
     res.json({
@@ -67,16 +72,107 @@ insightsRouter.get(
   }
 );
 
-function getConversationsForPeriod(period: TimePeriod) {
+// GET /api/insights/export - Insights report as a downloadable file (html, md, json, pdf, csv)
+insightsRouter.get(
+  '/export',
+  validateQuery(insightsExportQuerySchema),
+  async (req, res, next) => {
+    try {
+      const db = getDatabase();
+      const { format, period, project, category, focus, source } = req.query;
+
+      const conversationIds = getConversationsForPeriod(period, source)
+        .filter((c) => !project || c.project === project)
+        .map((c) => c.id);
+      const promptData = getPromptDataFromConversations(db, conversationIds);
+      const report = generateReport(promptData, { period, project, category, focus });
+
+      const title = `Prompt Evolution 리포트 (${period}${project ? ` · ${project}` : ''})`;
+      const rendered = await renderReport(report, format, { title });
+      const fileName = `prompt-evolution-report-${period}.${rendered.extension}`;
+
+      res.setHeader('Content-Type', rendered.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(rendered.content);
+    } catch (error) {
+      if (error instanceof PdfRenderError) {
+        res.status(501).json({ error: 'PDF export unavailable', details: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/insights/compare - Period-over-period comparison with significance-tested metric changes
+insightsRouter.get(
+  '/compare',
+  validateQuery(insightsCompareQuerySchema),
+  (req, res, next) => {
+    try {
+      const db = getDatabase();
+      const { period, from, to, project, category, source } = req.query;
+
+      const windows = from ? comparisonWindowsFromRange(from, to) : parseComparisonSpec(`${period}:prev`);
+      if (!windows) {
+        res.status(400).json({ error: 'Invalid comparison range', details: 'from must be before to' });
+        return;
+      }
+
+      // Conversations with turns in either window (including ones that started earlier);
+      // prompts are split by their own timestamps
+      const conversationIds = getConversationsWithTurnsInRange(windows.previous.start, windows.current.end, source)
+        .filter((c) => !project || c.project === project)
+        .map((c) => c.id);
+      const promptData = getPromptDataFromConversations(db, conversationIds);
+
+      res.json(comparePeriods(promptData, windows, { category }));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Generate the insights report with cached embeddings and the project's personal model
+ */
+function generateReport(
+  promptData: PromptData[],
+  options: Pick<InsightsQuery, 'period' | 'project' | 'category' | 'focus'>
+) {
+  // Cached embeddings for prompt library clustering
+  const embeddings = ensurePromptEmbeddings(
+    promptData.flatMap((p) => (p.turnId ? [{ turnId: p.turnId, content: p.content }] : []))
+  );
+  for (const prompt of promptData) {
+    prompt.embedding = prompt.turnId ? embeddings.get(prompt.turnId) : undefined;
+  }
+
+  // Personal model for the project (global model, or none when untrained); models are trained by the CLI
+  resetPersonalModelCache();
+  const personalModel = loadPersonalModel(options.project);
+
+  return generateInsights(promptData, {
+    period: options.period,
+    category: options.category,
+    focusArea: options.focus,
+    includeLibrary: true,
+    includeGuidelines: true,
+    includeSelfImprovement: true,
+    personalModel,
+  });
+}
+
+function getConversationsForPeriod(period: TimePeriod, source?: AssistantSource) {
   if (period === 'all') {
-    return getAllConversations({ limit: 1000 });
+    return getAllConversations({ limit: 1000, source });
   }
 
   const now = new Date();
   const days = period === '7d' ? 7 : period === '30d' ? 30 : 90;
   const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
 
-  return getConversationsInRange(startDate, now);
+  return getConversationsInRange(startDate, now, source);
 }
 
 function createEmptyResponse(period: TimePeriod) {
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { findSimilarPrompts, findPromptsSimilarToTurn } from '../../src/index.js';
+import {
+  validateQuery,
+  similarPromptsQuerySchema,
+} from '../validation/index.js';
+
+export const libraryRouter = Router();
+
+// GET /api/library/similar - Nearest stored prompts by embedding (text or a user turn)
+libraryRouter.get(
+  '/similar',
+  validateQuery(similarPromptsQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { q, turnId, project, source, minEffectiveness, limit } = req.query;
+      const options = { project, source, minEffectiveness, limit };
+
+      if (turnId) {
+        const result = findPromptsSimilarToTurn(turnId, options);
+        if (!result) {
+          res.status(404).json({ error: 'Prompt not found', details: turnId });
+          return;
+        }
+        res.json(result);
+        return;
+      }
+
+      res.json(findSimilarPrompts(q!, options));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
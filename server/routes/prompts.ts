@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { getPromptOutcomes, countPromptOutcomes } from '../../src/index.js';
+import {
+  validateQuery,
+  promptOutcomesQuerySchema,
+} from '../validation/index.js';
+
+export const promptsRouter = Router();
+
+// GET /api/prompts/outcomes - Per-prompt downstream outcomes, costliest first
+promptsRouter.get(
+  '/outcomes',
+  validateQuery(promptOutcomesQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { period, project, reaction, sort, minFriction, limit, offset } = req.query;
+
+      const days = period === '7d' ? 7 : period === '30d' ? 30 : period === '90d' ? 90 : null;
+      const startDate = days
+        ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+        : undefined;
+      const filter = { startDate, project, reaction, minFriction };
+
+      const outcomes = getPromptOutcomes(filter, { sort, limit, offset }).map((row) => ({
+        turnId: row.turn_id,
+        conversationId: row.conversation_id,
+        project: row.project,
+        content: row.content,
+        timestamp: row.timestamp,
+        nextTurnId: row.next_turn_id,
+        assistantTurns: row.assistant_turns,
+        toolCalls: row.tool_calls,
+        toolErrors: row.tool_errors,
+        filesTouched: JSON.parse(row.files_touched) as string[],
+        nextTurnReaction: row.next_turn_reaction,
+        durationMs: row.duration_ms,
+        timeToCompletionMs: row.time_to_completion_ms,
+        outputTokens: row.output_tokens,
+        costUsd: row.cost_usd,
+        frictionScore: row.friction_score,
+      }));
+
+      res.json({
+        period,
+        sort,
+        total: countPromptOutcomes(filter),
+        limit,
+        offset,
+        outcomes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { searchConversations } from '../../src/index.js';
+import {
+  validateQuery,
+  searchQuerySchema,
+} from '../validation/index.js';
+
+export const searchRouter = Router();
+
+// GET /api/search - Ranked full-text search over turns and session summaries
+searchRouter.get(
+  '/',
+  validateQuery(searchQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { q, role, project, source, category, from, to, limit, offset } = req.query;
+
+      res.json(
+        searchConversations({
+          query: q,
+          role,
+          project,
+          source,
+          category,
+          startDate: from,
+          endDate: to,
+          limit,
+          offset,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -3,9 +3,23 @@ import {
   getConversationCount,
   getTotalTurnCount,
   getProjectStats,
+  getSourceStats,
   getDatabase,
+  getCostTotals,
+  getCostBreakdown,
+  getPersonalModelRows,
+  loadPersonalModel,
+  resetPersonalModelCache,
+  EFFECTIVENESS_WEIGHTS,
 } from '../../src/index.js';
 import { getOverallStats } from '../repositories/index.js';
+import {
+  validateQuery,
+  costQuerySchema,
+  modelQuerySchema,
+  type CostQuery,
+  type ModelQuery,
+} from '../validation/index.js';
 
 export const statsRouter = Router();
 
@@ -29,6 +43,7 @@ statsRouter.get('/', async (req, res, next) => {
       avgEffectiveness: stats.avgEffectiveness,
       avgQuality: stats.avgQuality,
       projects,
+      sources: getSourceStats(),
       lastSync: stats.lastSync,
       lastAnalysis: stats.lastAnalysis,
       goldenScores: stats.goldenScores,
@@ -37,3 +52,63 @@ statsRouter.get('/', async (req, res, next) => {
     next(error);
   }
 });
+
+// GET /api/stats/cost - Token cost totals and breakdown
+statsRouter.get(
+  '/cost',
+  validateQuery(costQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { period, groupBy, project, source } = req.query as CostQuery;
+
+      const days = period === '7d' ? 7 : period === '30d' ? 30 : period === '90d' ? 90 : null;
+      const startDate = days
+        ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+        : undefined;
+      const filter = { startDate, project, source };
+
+      res.json({
+        period,
+        groupBy,
+        totals: getCostTotals(filter),
+        breakdown: getCostBreakdown(groupBy, filter),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/stats/model - Personal effectiveness model used for scoring (defaults when untrained)
+statsRouter.get(
+  '/model',
+  validateQuery(modelQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { project } = req.query as ModelQuery;
+
+      // Models are trained by the CLI, so always read the latest
+      resetPersonalModelCache();
+      const model = loadPersonalModel(project);
+
+      res.json({
+        personalized: model !== null,
+        scope: model?.scope ?? null,
+        trainedAt: model?.trainedAt ?? null,
+        samples: model?.samples ?? 0,
+        successRate: model?.successRate ?? null,
+        metrics: model?.metrics ?? null,
+        effectivenessWeights: model?.effectivenessWeights ?? { ...EFFECTIVENESS_WEIGHTS },
+        defaultWeights: { ...EFFECTIVENESS_WEIGHTS },
+        importances: model?.importances.slice(0, 10) ?? [],
+        models: getPersonalModelRows().map((row) => ({
+          scope: row.scope,
+          samples: row.samples,
+          trainedAt: row.trained_at,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
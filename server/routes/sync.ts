@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { ASSISTANT_SOURCES } from '../../src/types/index.js';
 import {
   importIncremental,
   analyzeRecent,
@@ -7,12 +8,14 @@ import {
   getSyncStatus,
 } from '../services/sync-service.js';
 import { getSchedulerStatus, getNextScheduledSync } from '../services/scheduler.js';
+import { getWatcherStatus } from '../services/session-watcher.js';
 
 export const syncRouter = Router();
 
 const syncBodySchema = z.object({
   mode: z.enum(['incremental', 'analyze', 'full']).default('incremental'),
   project: z.string().max(200).regex(/^[\w\s./-]+$/).optional(),
+  source: z.enum(ASSISTANT_SOURCES).optional(),
   hoursBack: z.number().int().min(1).max(720).default(24),
 });
 
@@ -24,30 +27,32 @@ syncRouter.post('/', async (req, res, next) => {
       res.status(400).json({ error: 'Invalid request', details: parsed.error.flatten() });
       return;
     }
-    const { mode, project, hoursBack } = parsed.data;
+    const { mode, project, source, hoursBack } = parsed.data;
     const startTime = Date.now();
 
     let result;
 
     switch (mode) {
       case 'incremental':
-        result = await importIncremental(project);
+        result = await importIncremental(project, source);
         break;
       case 'analyze':
         result = await analyzeRecent(hoursBack);
         break;
       case 'full':
-        result = await fullRefresh(project);
+        result = await fullRefresh(project, source);
         break;
       default:
-        result = await importIncremental(project);
+        result = await importIncremental(project, source);
     }
 
     res.json({
       success: result.errors.length === 0,
       mode,
       project: project || null,
+      source: source || null,
       imported: result.imported,
+      updated: result.updated,
       analyzed: result.analyzed,
       skipped: result.skipped,
       errors: result.errors,
@@ -64,6 +69,7 @@ syncRouter.get('/status', async (req, res, next) => {
     const syncStatus = getSyncStatus();
     const schedulerStatus = getSchedulerStatus();
     const nextSync = getNextScheduledSync();
+    const watcherStatus = getWatcherStatus();
 
     res.json({
       isRunning: syncStatus.isRunning,
@@ -71,6 +77,10 @@ syncRouter.get('/status', async (req, res, next) => {
       lastResult: syncStatus.lastResult,
       nextScheduledSync: nextSync?.toISOString() || null,
       scheduler: schedulerStatus,
+      watcher: {
+        ...watcherStatus,
+        lastImport: watcherStatus.lastImport?.toISOString() || null,
+      },
     });
   } catch (error) {
     next(error);
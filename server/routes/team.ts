@@ -0,0 +1,161 @@
+import { Router, type Response } from 'express';
+import {
+  getDatabase,
+  getTeamMembers,
+  getTeamMember,
+  deleteTeamMember,
+  importTeamBundle,
+  type TeamBundle,
+} from '../../src/index.js';
+import { getTeamStats, getTeamTrend, getTeamInsights } from '../repositories/index.js';
+import {
+  validateQuery,
+  validateBody,
+  teamImportBodySchema,
+  teamQuerySchema,
+  teamTrendsQuerySchema,
+  type TeamQuery,
+  type TeamTrendsQuery,
+} from '../validation/index.js';
+import { calculateTrendDirection } from './trends.js';
+
+export const teamRouter = Router();
+
+const PERIOD_DAYS: Record<string, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '365d': 365,
+  all: null,
+};
+
+function periodStart(period: string): Date | undefined {
+  const days = PERIOD_DAYS[period];
+  return days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+}
+
+/**
+ * Per-member drilldowns are only served for members who exported with --share-details
+ * Returns false (after responding) when the drilldown is not allowed
+ */
+function checkDrilldown(member: string | undefined, res: Response): boolean {
+  if (!member) return true;
+
+  const row = getTeamMember(member);
+  if (!row) {
+    res.status(404).json({ error: 'Member not found' });
+    return false;
+  }
+  if (!row.share_details) {
+    res.status(403).json({ error: 'Member has not opted in to drilldowns' });
+    return false;
+  }
+  return true;
+}
+
+// POST /api/team/import - Store a member's bundle from `pe export --team` (replaces their previous dataset)
+teamRouter.post(
+  '/import',
+  validateBody(teamImportBodySchema),
+  async (req, res, next) => {
+    try {
+      const result = importTeamBundle(req.body as TeamBundle);
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/team/members - Imported members (dataset sizes only for opted-in members)
+teamRouter.get('/members', async (req, res, next) => {
+  try {
+    res.json({
+      members: getTeamMembers().map((m) => {
+        const shareDetails = m.share_details === 1;
+        return {
+          name: m.name,
+          shareDetails,
+          redactedPrompts: m.prompts_redacted === 1,
+          exportedAt: m.exported_at,
+          importedAt: m.imported_at,
+          conversations: shareDetails ? m.conversations : null,
+          prompts: shareDetails ? m.prompts : null,
+        };
+      }),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/team/members/:name - Remove a member and their dataset
+teamRouter.delete('/members/:name', async (req, res, next) => {
+  try {
+    if (!deleteTeamMember(req.params.name)) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/team/stats - Team aggregate statistics (or one opted-in member)
+teamRouter.get(
+  '/stats',
+  validateQuery(teamQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { period, member } = req.query as TeamQuery;
+      if (!checkDrilldown(member, res)) return;
+
+      const stats = getTeamStats(getDatabase(), { member, startDate: periodStart(period) });
+      res.json({ period, member: member ?? null, ...stats });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/team/trends - Team time series (or one opted-in member)
+teamRouter.get(
+  '/trends',
+  validateQuery(teamTrendsQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { period, metric, groupBy, member } = req.query as TeamTrendsQuery;
+      if (!checkDrilldown(member, res)) return;
+
+      const startDate = periodStart(period) ?? new Date(0);
+      const data = getTeamTrend(getDatabase(), metric, startDate, groupBy, { member });
+      res.json({
+        metric,
+        period,
+        groupBy,
+        member: member ?? null,
+        data,
+        ...calculateTrendDirection(data),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/team/insights - Category, anti-pattern, signal and outcome aggregates
+teamRouter.get(
+  '/insights',
+  validateQuery(teamQuerySchema),
+  async (req, res, next) => {
+    try {
+      const { period, member } = req.query as TeamQuery;
+      if (!checkDrilldown(member, res)) return;
+
+      const insights = getTeamInsights(getDatabase(), { member, startDate: periodStart(period) });
+      res.json({ period, member: member ?? null, ...insights });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -4,6 +4,7 @@ import {
   getVolumeTrend,
   getEffectivenessTrend,
   getQualityTrend,
+  getCostTrend,
   type TrendDataPoint,
 } from '../repositories/index.js';
 import {
@@ -14,7 +15,7 @@ import {
 
 export const trendsRouter = Router();
 
-type Metric = 'effectiveness' | 'quality' | 'volume';
+type Metric = 'effectiveness' | 'quality' | 'volume' | 'cost';
 type Trend = 'improving' | 'declining' | 'stable';
 
 interface TrendsResponse {
@@ -53,6 +54,9 @@ trendsRouter.get(
         case 'quality':
           data = getQualityTrend(db, startDate, groupBy);
           break;
+        case 'cost':
+          data = getCostTrend(db, startDate, groupBy);
+          break;
         default:
           data = getVolumeTrend(db, startDate, groupBy);
       }
@@ -76,8 +80,10 @@ trendsRouter.get(
   }
 );
 
-
-function calculateTrendDirection(data: TrendDataPoint[]): {
+/**
+ * Compare the first and second half of a series (shared with team trends)
+ */
+export function calculateTrendDirection(data: TrendDataPoint[]): {
   trend: Trend;
   changePercent: number;
 } {
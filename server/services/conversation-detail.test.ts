@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations } from '../../src/db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../../src/db/connection.js', () => ({
+    getDatabase: () => db,
+}));
+
+import { getConversationDetail } from './conversation-detail.js';
+
+function insertTurn(id: string, role: string, content: string, index: number): void {
+    db.prepare(
+        "INSERT INTO turns (id, conversation_id, role, content, timestamp, turn_index) VALUES (?, 'c1', ?, ?, ?, ?)"
+    ).run(id, role, content, `2025-01-10T09:0${index}:00Z`, index);
+}
+
+describe('getConversationDetail', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+
+        db.prepare(
+            "INSERT INTO conversations (id, project, started_at, turn_count) VALUES ('c1', 'api', '2025-01-10T09:00:00Z', 4)"
+        ).run();
+        insertTurn('t1', 'user', 'fix it', 0);
+        insertTurn('t2', 'assistant', 'Edited auth.ts', 1);
+        insertTurn('t3', 'user', '다시 해줘, 아직도 안 돼', 2);
+        insertTurn('t4', 'assistant', 'Fixed the redirect.', 3);
+        db.prepare(
+            "INSERT INTO tool_usages (turn_id, tool_name, target, input_summary, is_error) VALUES ('t2', 'Edit', 'src/auth.ts', '{\"file_path\":\"src/auth.ts\"}', 1)"
+        ).run();
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('should return null for an unknown conversation', () => {
+        expect(getConversationDetail('missing')).toBeNull();
+    });
+
+    it('should return the transcript with tool calls', () => {
+        const detail = getConversationDetail('c1')!;
+
+        expect(detail.conversation).toMatchObject({ id: 'c1', project: 'api', turnCount: 4 });
+        expect(detail.turns.map((t) => t.id)).toEqual(['t1', 't2', 't3', 't4']);
+        expect(detail.turns[1].toolUsages).toEqual([
+            { name: 'Edit', target: 'src/auth.ts', input: { file_path: 'src/auth.ts' }, result: null, isError: true, durationMs: null },
+        ]);
+    });
+
+    it('should attach detected signals to their turns without stored analysis', () => {
+        const detail = getConversationDetail('c1')!;
+
+        const retry = detail.turns[2].signals.find((s) => s.type === 'retry_attempt');
+        expect(retry).toBeDefined();
+        expect(detail.signals).toContainEqual(retry);
+        expect(detail.signalSummary.retryCount).toBeGreaterThan(0);
+        expect(detail.effectiveness.grade).toMatch(/^[A-F]$/);
+    });
+
+    it('should score and classify user prompts only', () => {
+        const detail = getConversationDetail('c1')!;
+        const prompt = detail.turns[0].prompt!;
+
+        expect(prompt.golden.total).toBeGreaterThanOrEqual(0);
+        expect(prompt.grade).not.toBe('A');
+        expect(prompt.suggestion?.improved).toBeTruthy();
+        expect(detail.turns[1].prompt).toBeNull();
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * Conversation Detail Service
+ * Assembles one stored conversation for turn-by-turn replay: transcript, tool calls,
+ * detected signals, effectiveness and per-prompt GOLDEN evaluation
+ */
+
+import {
+  getConversationById,
+  getTurnsByConversationId,
+  getToolUsagesByConversationId,
+  getSummariesByConversationId,
+  loadTurnsForAnalysis,
+  detectConversationSignals,
+  analyzeEffectiveness,
+  resolveEffectivenessWeights,
+  classifyPrompt,
+  evaluatePromptAgainstGuidelines,
+  improvePromptWithRules,
+  type AssistantSource,
+  type BranchType,
+  type BranchStats,
+  type DetectedSignal,
+  type SignalSummary,
+  type EffectivenessAnalysis,
+  type GOLDENScore,
+  type DetectedAntiPattern,
+  type PromptIntent,
+  type TaskCategory,
+  type ToolUsageRow,
+} from '../../src/index.js';
+
+export interface ToolUsageDetail {
+  name: string;
+  target: string | null;
+  input: unknown;
+  result: string | null;
+  isError: boolean;
+  durationMs: number | null;
+}
+
+export interface PromptAnalysis {
+  intent: PromptIntent;
+  taskCategory: TaskCategory;
+  categoryConfidence: number;
+  golden: GOLDENScore;
+  grade: 'A' | 'B' | 'C' | 'D' | 'F';
+  antiPatterns: DetectedAntiPattern[];
+  recommendations: string[];
+  /** Rule-based rewrite (null when the prompt already grades A) */
+  suggestion: {
+    improved: string;
+    keyChanges: string[];
+    improvementPercent: number;
+  } | null;
+}
+
+export interface ConversationDetailTurn {
+  id: string;
+  index: number;
+  role: 'user' | 'assistant';
+  content: string;
+  thinking: string | null;
+  timestamp: string | null;
+  model: string | null;
+  parentId: string | null;
+  branchType: BranchType;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  costUsd: number | null;
+  toolUsages: ToolUsageDetail[];
+  signals: DetectedSignal[];
+  prompt: PromptAnalysis | null;
+}
+
+export interface ConversationDetail {
+  conversation: {
+    id: string;
+    project: string;
+    projectPath: string | null;
+    source: AssistantSource;
+    model: string | null;
+    startedAt: string | null;
+    endedAt: string | null;
+    turnCount: number;
+    totalInputTokens: number;
+    totalOutputTokens: number;
+    totalCacheCreationTokens: number;
+    totalCacheReadTokens: number;
+    totalCostUsd: number;
+  };
+  summaries: string[];
+  turns: ConversationDetailTurn[];
+  signals: DetectedSignal[];
+  signalSummary: SignalSummary;
+  branches: BranchStats | null;
+  effectiveness: EffectivenessAnalysis;
+}
+
+/**
+ * Get a conversation with its analysis (null when not found)
+ * Signals are detected from the stored turns so unanalyzed conversations work too
+ */
+export function getConversationDetail(conversationId: string): ConversationDetail | null {
+  const conversation = getConversationById(conversationId);
+  if (!conversation) return null;
+
+  const turnRows = getTurnsByConversationId(conversationId);
+  const signals = detectConversationSignals(conversationId, loadTurnsForAnalysis(conversationId));
+  // Same project weights as the stored analysis
+  const effectiveness = analyzeEffectiveness(signals, resolveEffectivenessWeights(conversation.project));
+
+  const toolUsagesByTurn = new Map<string, ToolUsageDetail[]>();
+  for (const row of getToolUsagesByConversationId(conversationId)) {
+    const usages = toolUsagesByTurn.get(row.turn_id) ?? [];
+    usages.push(toToolUsageDetail(row));
+    toolUsagesByTurn.set(row.turn_id, usages);
+  }
+
+  const turns: ConversationDetailTurn[] = turnRows.map((row, index) => ({
+    id: row.id,
+    index,
+    role: row.role,
+    content: row.content ?? '',
+    thinking: row.thinking,
+    timestamp: row.timestamp,
+    model: row.model,
+    parentId: row.parent_id,
+    branchType: row.branch_type,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    costUsd: row.cost_usd,
+    toolUsages: toolUsagesByTurn.get(row.id) ?? [],
+    signals: signals.signals.filter((s) => s.turnId === row.id),
+    prompt: row.role === 'user' && row.content?.trim() ? analyzePrompt(row.content) : null,
+  }));
+
+  return {
+    conversation: {
+      id: conversation.id,
+      project: conversation.project,
+      projectPath: conversation.project_path,
+      source: conversation.source,
+      model: conversation.model,
+      startedAt: conversation.started_at,
+      endedAt: conversation.ended_at,
+      turnCount: conversation.turn_count,
+      totalInputTokens: conversation.total_input_tokens,
+      totalOutputTokens: conversation.total_output_tokens,
+      totalCacheCreationTokens: conversation.total_cache_creation_tokens ?? 0,
+      totalCacheReadTokens: conversation.total_cache_read_tokens ?? 0,
+      totalCostUsd: conversation.total_cost_usd ?? 0,
+    },
+    summaries: getSummariesByConversationId(conversationId).map((s) => s.summary),
+    turns,
+    signals: signals.signals,
+    signalSummary: signals.summary,
+    branches: signals.branches ?? null,
+    effectiveness,
+  };
+}
+
+function analyzePrompt(text: string): PromptAnalysis {
+  const classification = classifyPrompt(text);
+  const evaluation = evaluatePromptAgainstGuidelines(text);
+  const improved = evaluation.grade === 'A' ? null : improvePromptWithRules(text);
+
+  return {
+    intent: classification.intent,
+    taskCategory: classification.taskCategory,
+    categoryConfidence: classification.categoryConfidence,
+    golden: evaluation.goldenScore,
+    grade: evaluation.grade,
+    antiPatterns: evaluation.antiPatterns,
+    recommendations: evaluation.recommendations,
+    suggestion: improved
+      ? {
+          improved: improved.improved,
+          keyChanges: improved.keyChanges,
+          improvementPercent: improved.improvementPercent,
+        }
+      : null,
+  };
+}
+
+function toToolUsageDetail(row: ToolUsageRow): ToolUsageDetail {
+  let input: unknown = null;
+  if (row.input_summary) {
+    try {
+      input = JSON.parse(row.input_summary);
+    } catch {
+      input = row.input_summary;
+    }
+  }
+
+  return {
+    name: row.tool_name,
+    target: row.target,
+    input,
+    result: row.result_summary,
+    isError: row.is_error === 1,
+    durationMs: row.duration_ms,
+  };
+}
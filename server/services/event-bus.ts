@@ -0,0 +1,57 @@
+/**
+ * Event Bus
+ * In-process pub/sub for dashboard events streamed over SSE (GET /api/events)
+ */
+
+import { EventEmitter } from 'events';
+import type { AssistantSource, SessionImportStatus } from '../../src/index.js';
+
+export interface SessionUpdatedEvent {
+  type: 'session-updated';
+  conversationId: string;
+  source: AssistantSource;
+  project: string;
+  status: SessionImportStatus;
+  newTurns: number;
+  timestamp: string;
+}
+
+export interface SyncCompletedEvent {
+  type: 'sync-completed';
+  imported: number;
+  updated: number;
+  analyzed: number;
+  timestamp: string;
+}
+
+export type ServerEvent = SessionUpdatedEvent | SyncCompletedEvent;
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+const emitter = new EventEmitter();
+// One listener per connected dashboard tab
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an event to all subscribers
+ */
+export function publishEvent(event: DistributiveOmit<ServerEvent, 'timestamp'>): void {
+  emitter.emit('event', { ...event, timestamp: new Date().toISOString() } as ServerEvent);
+}
+
+/**
+ * Subscribe to events; returns an unsubscribe function
+ */
+export function subscribeEvents(listener: (event: ServerEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
+
+/**
+ * Get number of connected subscribers
+ */
+export function getSubscriberCount(): number {
+  return emitter.listenerCount('event');
+}
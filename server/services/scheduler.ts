@@ -41,7 +41,7 @@ export function initializeScheduler(): void {
       const result = await importIncremental();
       lastRuns.set('incremental', new Date());
       console.log(
-        `[Scheduler] Incremental import complete: ${result.imported} imported, ${result.skipped} skipped`
+        `[Scheduler] Incremental import complete: ${result.imported} imported, ${result.updated} updated, ${result.skipped} skipped`
       );
     } catch (err) {
       console.error('[Scheduler] Incremental import failed:', err);
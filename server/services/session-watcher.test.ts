@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+type WatchListener = (eventType: string, filename: string | null) => void;
+
+const watchState = vi.hoisted(() => ({
+    root: '',
+    listener: null as WatchListener | null,
+}));
+
+vi.mock('fs', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('fs')>();
+    const { EventEmitter: Emitter } = await import('events');
+    return {
+        ...actual,
+        watch: vi.fn((_path: string, _options: unknown, listener: WatchListener) => {
+            watchState.listener = listener;
+            return Object.assign(new Emitter(), { close: vi.fn() });
+        }),
+    };
+});
+
+vi.mock('../../src/index.js', () => ({
+    claudeCodeSource: { id: 'claude-code' },
+    getClaudeProjectsPath: () => watchState.root,
+    importSession: vi.fn(),
+    analyzeStoredConversation: vi.fn(),
+}));
+
+import { watch } from 'fs';
+import { importSession, analyzeStoredConversation, type SessionImportResult } from '../../src/index.js';
+import { subscribeEvents, type ServerEvent } from './event-bus.js';
+import {
+    startSessionWatcher,
+    stopSessionWatcher,
+    getWatcherStatus,
+    ingestSessionFile,
+} from './session-watcher.js';
+
+function importResult(overrides: Partial<SessionImportResult> = {}): SessionImportResult {
+    return { conversationId: 'session-1', status: 'appended', newTurns: 2, reanalyzed: false, ...overrides };
+}
+
+function touch(relativePath: string): void {
+    watchState.listener!('change', relativePath);
+}
+
+describe('session watcher', () => {
+    let events: ServerEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.mocked(importSession).mockReset().mockReturnValue(importResult());
+        vi.mocked(analyzeStoredConversation).mockReset();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        watchState.root = mkdtempSync(join(tmpdir(), 'pe-watcher-'));
+        watchState.listener = null;
+        events = [];
+        unsubscribe = subscribeEvents((event) => events.push(event));
+    });
+
+    afterEach(() => {
+        stopSessionWatcher();
+        unsubscribe();
+        rmSync(watchState.root, { recursive: true, force: true });
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    describe('startSessionWatcher', () => {
+        it('watches the projects directory recursively', () => {
+            expect(startSessionWatcher()).toBe(true);
+
+            expect(watch).toHaveBeenCalledWith(watchState.root, { recursive: true }, expect.any(Function));
+            expect(getWatcherStatus()).toMatchObject({ isWatching: true, path: watchState.root, pendingFiles: 0 });
+        });
+
+        it('stays off when the projects directory is missing', () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            watchState.root = join(watchState.root, 'missing');
+
+            expect(startSessionWatcher()).toBe(false);
+            expect(getWatcherStatus().isWatching).toBe(false);
+        });
+    });
+
+    describe('debounce', () => {
+        it('coalesces a burst of writes to one session into a single import', () => {
+            startSessionWatcher();
+
+            touch('app/session-1.jsonl');
+            vi.advanceTimersByTime(500);
+            touch('app/session-1.jsonl');
+            vi.advanceTimersByTime(500);
+            touch('app/session-1.jsonl');
+
+            expect(getWatcherStatus().pendingFiles).toBe(1);
+            vi.advanceTimersByTime(999);
+            expect(importSession).not.toHaveBeenCalled();
+
+            vi.advanceTimersByTime(1);
+            expect(importSession).toHaveBeenCalledTimes(1);
+            expect(importSession).toHaveBeenCalledWith({ id: 'claude-code' }, 'app', 'session-1.jsonl');
+            expect(getWatcherStatus().pendingFiles).toBe(0);
+        });
+
+        it('imports different sessions separately', () => {
+            startSessionWatcher();
+
+            touch('app/session-1.jsonl');
+            touch('api/session-2.jsonl');
+            vi.advanceTimersByTime(1000);
+
+            expect(vi.mocked(importSession).mock.calls.map(([, project, file]) => `${project}/${file}`)).toEqual([
+                'app/session-1.jsonl',
+                'api/session-2.jsonl',
+            ]);
+        });
+
+        it('drops pending imports when stopped', () => {
+            startSessionWatcher();
+            touch('app/session-1.jsonl');
+
+            stopSessionWatcher();
+            vi.advanceTimersByTime(1000);
+
+            expect(importSession).not.toHaveBeenCalled();
+            expect(getWatcherStatus()).toMatchObject({ isWatching: false, pendingFiles: 0 });
+        });
+    });
+
+    describe('path filtering', () => {
+        it('only imports <project>/<session>.jsonl', () => {
+            startSessionWatcher();
+
+            touch('session-1.jsonl');
+            touch('app/notes.txt');
+            touch('app/session-1/subagents/agent-1.jsonl');
+            touch('app');
+            watchState.listener!('rename', null);
+            vi.advanceTimersByTime(1000);
+
+            expect(importSession).not.toHaveBeenCalled();
+            expect(getWatcherStatus().pendingFiles).toBe(0);
+        });
+    });
+
+    describe('ingestSessionFile', () => {
+        it('analyzes the conversation and publishes session-updated', () => {
+            const result = ingestSessionFile('app', 'session-1.jsonl');
+
+            expect(result).toEqual(importResult());
+            expect(analyzeStoredConversation).toHaveBeenCalledWith('session-1');
+            expect(events).toEqual([
+                expect.objectContaining({
+                    type: 'session-updated',
+                    conversationId: 'session-1',
+                    source: 'claude-code',
+                    project: 'app',
+                    status: 'appended',
+                    newTurns: 2,
+                }),
+            ]);
+            expect(getWatcherStatus().lastImport).toBeInstanceOf(Date);
+        });
+
+        it('does not analyze again when the import already re-analyzed', () => {
+            vi.mocked(importSession).mockReturnValue(importResult({ reanalyzed: true }));
+
+            ingestSessionFile('app', 'session-1.jsonl');
+
+            expect(analyzeStoredConversation).not.toHaveBeenCalled();
+            expect(events).toHaveLength(1);
+        });
+
+        it.each(['unchanged', 'failed'] as const)('stays quiet for %s sessions', (status) => {
+            vi.mocked(importSession).mockReturnValue(importResult({ status, newTurns: 0 }));
+
+            expect(ingestSessionFile('app', 'session-1.jsonl')).toMatchObject({ status });
+            expect(analyzeStoredConversation).not.toHaveBeenCalled();
+            expect(events).toEqual([]);
+        });
+
+        it('returns null when the import throws', () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            vi.mocked(importSession).mockImplementation(() => {
+                throw new Error('disk full');
+            });
+
+            expect(ingestSessionFile('app', 'session-1.jsonl')).toBeNull();
+            expect(events).toEqual([]);
+        });
+    });
+});
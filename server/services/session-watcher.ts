@@ -0,0 +1,139 @@
+/**
+ * Session Watcher
+ * Watches the Claude Code projects directory and imports touched sessions as they are written
+ */
+
+import { watch, existsSync, type FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import {
+  claudeCodeSource,
+  getClaudeProjectsPath,
+  importSession,
+  analyzeStoredConversation,
+  type SessionImportResult,
+} from '../../src/index.js';
+import { publishEvent } from './event-bus.js';
+
+// Assistants write a session record by record; wait for a burst to settle
+const DEBOUNCE_MS = 1000;
+
+export interface WatcherStatus {
+  isWatching: boolean;
+  path: string;
+  lastImport: Date | null;
+  pendingFiles: number;
+}
+
+let watcher: FSWatcher | null = null;
+const pendingTimers: Map<string, NodeJS.Timeout> = new Map();
+let lastImport: Date | null = null;
+
+/**
+ * Start watching (returns false when the projects directory is missing)
+ */
+export function startSessionWatcher(): boolean {
+  if (watcher) {
+    console.log('[Watcher] Already running');
+    return true;
+  }
+
+  const root = getClaudeProjectsPath();
+  if (!existsSync(root)) {
+    console.warn(`[Watcher] ${root} not found, watch mode disabled`);
+    return false;
+  }
+
+  try {
+    watcher = watch(root, { recursive: true }, (_eventType, filename) => {
+      if (filename) scheduleImport(filename.toString());
+    });
+  } catch (err) {
+    console.error('[Watcher] Failed to start:', err);
+    return false;
+  }
+
+  watcher.on('error', (err) => {
+    console.error('[Watcher] Stopped after error:', err);
+    stopSessionWatcher();
+  });
+
+  console.log(`[Watcher] Watching ${root}`);
+  return true;
+}
+
+/**
+ * Stop watching and drop pending imports
+ */
+export function stopSessionWatcher(): void {
+  for (const timer of pendingTimers.values()) {
+    clearTimeout(timer);
+  }
+  pendingTimers.clear();
+
+  if (watcher) {
+    watcher.close();
+    watcher = null;
+    console.log('[Watcher] Stopped');
+  }
+}
+
+/**
+ * Get watcher status
+ */
+export function getWatcherStatus(): WatcherStatus {
+  return {
+    isWatching: watcher !== null,
+    path: getClaudeProjectsPath(),
+    lastImport,
+    pendingFiles: pendingTimers.size,
+  };
+}
+
+/**
+ * Import one session from its ledger offset, run signal detection and notify subscribers
+ */
+export function ingestSessionFile(project: string, sessionFile: string): SessionImportResult | null {
+  try {
+    const result = importSession(claudeCodeSource, project, sessionFile);
+    if (result.status === 'unchanged' || result.status === 'failed') {
+      return result;
+    }
+
+    // importSession only re-analyzes conversations that were analyzed before
+    if (!result.reanalyzed) {
+      analyzeStoredConversation(result.conversationId);
+    }
+
+    lastImport = new Date();
+    publishEvent({
+      type: 'session-updated',
+      conversationId: result.conversationId,
+      source: claudeCodeSource.id,
+      project,
+      status: result.status,
+      newTurns: result.newTurns,
+    });
+    return result;
+  } catch (err) {
+    console.error(`[Watcher] Failed to import ${project}/${sessionFile}:`, err);
+    return null;
+  }
+}
+
+function scheduleImport(relativePath: string): void {
+  // Only <project>/<session>.jsonl (nested subagent logs are not sessions)
+  const sessionFile = basename(relativePath);
+  const project = dirname(relativePath);
+  if (!sessionFile.endsWith('.jsonl') || project === '.' || dirname(project) !== '.') {
+    return;
+  }
+
+  clearTimeout(pendingTimers.get(relativePath));
+  pendingTimers.set(
+    relativePath,
+    setTimeout(() => {
+      pendingTimers.delete(relativePath);
+      ingestSessionFile(project, sessionFile);
+    }, DEBOUNCE_MS)
+  );
+}
@@ -1,23 +1,30 @@
 /**
  * Sync Service
- * Handles data synchronization from Claude Code projects to the database
+ * Handles data synchronization from assistant session logs to the database
  */
 
 import {
-  listProjects,
-  listSessions,
-  parseSession,
-  insertConversation,
-  insertTurns,
-  conversationExists,
+  getSessionSource,
+  getSessionSources,
+  beginSourceScan,
+  importSession,
+  getToolCallsByTurn,
   detectTurnSignals,
+  detectBranchSignals,
+  detectToolErrorLoops,
   insertQualitySignal,
   getDatabase,
   type TurnForAnalysis,
+  type AssistantSource,
+  type BranchType,
+  type SessionSource,
 } from '../../src/index.js';
+import { publishEvent } from './event-bus.js';
 
 export interface SyncResult {
   imported: number;
+  /** Existing conversations that picked up new turns (live sessions) */
+  updated: number;
   analyzed: number;
   skipped: number;
   errors: string[];
@@ -43,52 +50,76 @@ export function getSyncStatus(): SyncStatus {
 }
 
 /**
- * Import new sessions incrementally
+ * Import new sessions and new turns of changed sessions incrementally
+ * (re-analyzes updated conversations that were already analyzed)
  */
-export async function importIncremental(projectFilter?: string): Promise<SyncResult> {
+export async function importIncremental(
+  projectFilter?: string,
+  sourceFilter?: AssistantSource
+): Promise<SyncResult> {
   if (syncStatus.isRunning) {
-    return { imported: 0, analyzed: 0, skipped: 0, errors: ['Sync already in progress'] };
+    return { imported: 0, updated: 0, analyzed: 0, skipped: 0, errors: ['Sync already in progress'] };
   }
 
   syncStatus.isRunning = true;
-  const result: SyncResult = { imported: 0, analyzed: 0, skipped: 0, errors: [] };
+  const result: SyncResult = { imported: 0, updated: 0, analyzed: 0, skipped: 0, errors: [] };
 
   try {
-    const projects = listProjects();
-    const targetProjects = projectFilter
-      ? projects.filter((projectId) => projectId === projectFilter)
-      : projects;
+    const sources: SessionSource[] = sourceFilter
+      ? [getSessionSource(sourceFilter)].filter((s): s is SessionSource => Boolean(s))
+      : getSessionSources();
 
-    for (const projectId of targetProjects) {
-      try {
-        const sessions = listSessions(projectId);
-
-        for (const sessionId of sessions) {
-          try {
-            // Skip if already imported
-            if (conversationExists(sessionId)) {
-              result.skipped++;
-              continue;
-            }
+    for (const registered of sources) {
+      // One listing snapshot per sync (Codex reads every rollout head to build it)
+      const source = beginSourceScan(registered);
+      const projects = source.listProjects();
+      const targetProjects = projectFilter
+        ? projects.filter((projectId) => projectId === projectFilter)
+        : projects;
 
-            // Parse and import
-            const conversation = parseSession(projectId, sessionId);
-            if (conversation) {
-              insertConversation(conversation);
-              insertTurns(conversation.id, conversation.turns);
-              result.imported++;
+      for (const projectId of targetProjects) {
+        try {
+          const sessions = source.listSessions(projectId);
+
+          for (const sessionFile of sessions) {
+            try {
+              const imported = importSession(source, projectId, sessionFile);
+              switch (imported.status) {
+                case 'imported':
+                  result.imported++;
+                  break;
+                case 'appended':
+                case 'replaced':
+                  result.updated++;
+                  break;
+                case 'unchanged':
+                  result.skipped++;
+                  break;
+              }
+              if (imported.reanalyzed) {
+                result.analyzed++;
+              }
+            } catch (err) {
+              result.errors.push(`Session ${sessionFile}: ${String(err)}`);
             }
-          } catch (err) {
-            result.errors.push(`Session ${sessionId}: ${String(err)}`);
           }
+        } catch (err) {
+          result.errors.push(`Project ${source.id}/${projectId}: ${String(err)}`);
         }
-      } catch (err) {
-        result.errors.push(`Project ${projectId}: ${String(err)}`);
       }
     }
 
     syncStatus.lastSync = new Date();
     syncStatus.lastResult = result;
+
+    if (result.imported > 0 || result.updated > 0) {
+      publishEvent({
+        type: 'sync-completed',
+        imported: result.imported,
+        updated: result.updated,
+        analyzed: result.analyzed,
+      });
+    }
   } finally {
     syncStatus.isRunning = false;
   }
@@ -101,11 +132,11 @@ export async function importIncremental(projectFilter?: string): Promise<SyncRes
  */
 export async function analyzeRecent(hoursBack: number = 24): Promise<SyncResult> {
   if (syncStatus.isRunning) {
-    return { imported: 0, analyzed: 0, skipped: 0, errors: ['Sync already in progress'] };
+    return { imported: 0, updated: 0, analyzed: 0, skipped: 0, errors: ['Sync already in progress'] };
   }
 
   syncStatus.isRunning = true;
-  const result: SyncResult = { imported: 0, analyzed: 0, skipped: 0, errors: [] };
+  const result: SyncResult = { imported: 0, updated: 0, analyzed: 0, skipped: 0, errors: [] };
 
   try {
     const db = getDatabase();
@@ -129,7 +160,7 @@ export async function analyzeRecent(hoursBack: number = 24): Promise<SyncResult>
         const turns = db
           .prepare(
             `
-            SELECT id, role, content, turn_index
+            SELECT id, role, content, turn_index, parent_id, branch_id, branch_type
             FROM turns
             WHERE conversation_id = ?
             ORDER BY turn_index ASC
@@ -140,11 +171,14 @@ export async function analyzeRecent(hoursBack: number = 24): Promise<SyncResult>
           role: 'user' | 'assistant';
           content: string | null;
           turn_index: number;
+          parent_id: string | null;
+          branch_id: string | null;
+          branch_type: BranchType;
         }>;
 
-        // Run signal detection on user turns
+        // Run signal detection on main-path user turns
         const userTurns = turns.filter(
-          (t) => t.role === 'user' && t.content
+          (t) => t.role === 'user' && t.content && t.branch_type === 'main'
         );
 
         for (const turn of userTurns) {
@@ -166,6 +200,30 @@ export async function analyzeRecent(hoursBack: number = 24): Promise<SyncResult>
           }
         }
 
+        // Structural signals: prompt edits and tool error loops
+        const toolCalls = getToolCallsByTurn(conv.id);
+        const turnData: TurnForAnalysis[] = turns.map((t) => ({
+          id: t.id,
+          role: t.role,
+          content: t.content || '',
+          turnIndex: t.turn_index,
+          parentId: t.parent_id || undefined,
+          branchId: t.branch_id || undefined,
+          branchType: t.branch_type,
+          toolCalls: toolCalls.get(t.id),
+        }));
+        const structuralSignals = [
+          ...detectBranchSignals(turnData),
+          ...detectToolErrorLoops(turnData.filter((t) => t.branchType === 'main')),
+        ];
+        for (const signal of structuralSignals) {
+          insertQualitySignal(conv.id, signal.type, {
+            turnId: signal.turnId,
+            value: signal.confidence,
+            metadata: signal.metadata,
+          });
+        }
+
         result.analyzed++;
       } catch (err) {
         result.errors.push(`Conversation ${conv.id}: ${String(err)}`);
@@ -184,13 +242,17 @@ export async function analyzeRecent(hoursBack: number = 24): Promise<SyncResult>
 /**
  * Full refresh - import all and re-analyze
  */
-export async function fullRefresh(projectFilter?: string): Promise<SyncResult> {
-  const importResult = await importIncremental(projectFilter);
+export async function fullRefresh(
+  projectFilter?: string,
+  sourceFilter?: AssistantSource
+): Promise<SyncResult> {
+  const importResult = await importIncremental(projectFilter, sourceFilter);
   const analyzeResult = await analyzeRecent(24 * 30); // Last 30 days
 
   return {
     imported: importResult.imported,
-    analyzed: analyzeResult.analyzed,
+    updated: importResult.updated,
+    analyzed: importResult.analyzed + analyzeResult.analyzed,
     skipped: importResult.skipped,
     errors: [...importResult.errors, ...analyzeResult.errors],
   };
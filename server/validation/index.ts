@@ -3,6 +3,31 @@
  * Central exports for validation schemas and middleware
  */
 
-export { insightsQuerySchema, trendsQuerySchema } from './schemas.js';
-export type { InsightsQuery, TrendsQuery } from './schemas.js';
+export {
+  insightsQuerySchema,
+  insightsExportQuerySchema,
+  insightsCompareQuerySchema,
+  trendsQuerySchema,
+  costQuerySchema,
+  modelQuerySchema,
+  promptOutcomesQuerySchema,
+  searchQuerySchema,
+  similarPromptsQuerySchema,
+  teamImportBodySchema,
+  teamQuerySchema,
+  teamTrendsQuerySchema,
+} from './schemas.js';
+export type {
+  InsightsQuery,
+  InsightsExportQuery,
+  InsightsCompareQuery,
+  TrendsQuery,
+  CostQuery,
+  ModelQuery,
+  PromptOutcomesQuery,
+  SearchQuery,
+  SimilarPromptsQuery,
+  TeamQuery,
+  TeamTrendsQuery,
+} from './schemas.js';
 export { validateQuery, validateBody } from './middleware.js';
@@ -4,13 +4,14 @@
  */
 
 import type { Request, Response, NextFunction } from 'express';
-import type { ZodSchema } from 'zod';
+import type { ZodSchema, z } from 'zod';
 
 /**
  * Validate query parameters against a Zod schema
+ * The parsed output becomes the route's req.query type
  */
-export function validateQuery(schema: ZodSchema) {
-  return (req: Request, res: Response, next: NextFunction) => {
+export function validateQuery<S extends ZodSchema>(schema: S) {
+  return (req: Request<Request['params'], unknown, unknown, z.output<S>>, res: Response, next: NextFunction) => {
     const result = schema.safeParse(req.query);
 
     if (!result.success) {
@@ -25,7 +26,7 @@ export function validateQuery(schema: ZodSchema) {
     }
 
     // Replace query with validated data
-    req.query = result.data as typeof req.query;
+    req.query = result.data;
     next();
   };
 }
@@ -4,6 +4,11 @@
  */
 
 import { z } from 'zod';
+import { ASSISTANT_SOURCES } from '../../src/types/index.js';
+import { TASK_CATEGORIES } from '../../src/shared/constants.js';
+import { PROMPT_REACTIONS } from '../../src/analysis/outcome-attribution.js';
+import { REPORT_FORMATS } from '../../src/report/renderers.js';
+import { teamBundleSchema, teamMemberNameSchema } from '../../src/team/team-bundle.js';
 
 /**
  * Insights query parameters schema
@@ -28,17 +33,152 @@ export const insightsQuerySchema = z.object({
     ])
     .optional(),
   focus: z.enum(['problems', 'improvements', 'strengths']).optional(),
+  source: z.enum(ASSISTANT_SOURCES).optional(),
 });
 
 export type InsightsQuery = z.infer<typeof insightsQuerySchema>;
 
+/**
+ * Insights export query parameters schema (insights filters + output format)
+ */
+export const insightsExportQuerySchema = insightsQuerySchema.extend({
+  format: z.enum(REPORT_FORMATS).optional().default('md'),
+});
+
+export type InsightsExportQuery = z.infer<typeof insightsExportQuerySchema>;
+
+const dateOrDateTime = z.union([z.iso.date(), z.iso.datetime({ offset: true })]);
+
+/**
+ * Insights comparison query parameters schema
+ * (period vs the preceding period of the same length, or from/to vs the preceding range)
+ */
+export const insightsCompareQuerySchema = z
+  .object({
+    period: z.enum(['7d', '30d', '90d']).optional().default('7d'),
+    from: dateOrDateTime.optional(),
+    to: dateOrDateTime.optional(),
+    project: z.string().optional(),
+    category: z.enum(TASK_CATEGORIES).optional(),
+    source: z.enum(ASSISTANT_SOURCES).optional(),
+  })
+  .refine((query) => query.to === undefined || query.from !== undefined, {
+    message: 'to requires from',
+    path: ['to'],
+  })
+  .refine((query) => !query.from || !query.to || new Date(query.from) <= new Date(query.to), {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+export type InsightsCompareQuery = z.infer<typeof insightsCompareQuerySchema>;
+
 /**
  * Trends query parameters schema
  */
 export const trendsQuerySchema = z.object({
   period: z.enum(['7d', '30d', '90d', '365d']).optional().default('30d'),
-  metric: z.enum(['effectiveness', 'quality', 'volume']).optional().default('volume'),
+  metric: z.enum(['effectiveness', 'quality', 'volume', 'cost']).optional().default('volume'),
   groupBy: z.enum(['day', 'week', 'month']).optional().default('day'),
 });
 
 export type TrendsQuery = z.infer<typeof trendsQuerySchema>;
+
+/**
+ * Cost query parameters schema
+ */
+export const costQuerySchema = z.object({
+  period: z.enum(['7d', '30d', '90d', 'all']).optional().default('30d'),
+  groupBy: z.enum(['model', 'project', 'day']).optional().default('model'),
+  project: z.string().optional(),
+  source: z.enum(ASSISTANT_SOURCES).optional(),
+});
+
+export type CostQuery = z.infer<typeof costQuerySchema>;
+
+/**
+ * Personal model query parameters schema
+ */
+export const modelQuerySchema = z.object({
+  project: z.string().optional(),
+});
+
+export type ModelQuery = z.infer<typeof modelQuerySchema>;
+
+/**
+ * Prompt outcomes query parameters schema
+ */
+export const promptOutcomesQuerySchema = z.object({
+  period: z.enum(['7d', '30d', '90d', 'all']).optional().default('30d'),
+  project: z.string().optional(),
+  reaction: z.enum(PROMPT_REACTIONS).optional(),
+  sort: z.enum(['friction', 'cost', 'errors', 'recent']).optional().default('friction'),
+  minFriction: z.coerce.number().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+export type PromptOutcomesQuery = z.infer<typeof promptOutcomesQuerySchema>;
+
+/**
+ * Search query parameters schema
+ */
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(200),
+  role: z.enum(['user', 'assistant']).optional(),
+  project: z.string().optional(),
+  source: z.enum(ASSISTANT_SOURCES).optional(),
+  category: z.enum(TASK_CATEGORIES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+/**
+ * Similar prompts query parameters schema (text or a stored user turn)
+ */
+export const similarPromptsQuerySchema = z
+  .object({
+    q: z.string().trim().min(1).max(2000).optional(),
+    turnId: z.string().min(1).optional(),
+    project: z.string().optional(),
+    source: z.enum(ASSISTANT_SOURCES).optional(),
+    minEffectiveness: z.coerce.number().min(0).max(1).optional(),
+    limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+  })
+  .refine((query) => query.q !== undefined || query.turnId !== undefined, {
+    message: 'Either q or turnId is required',
+    path: ['q'],
+  });
+
+export type SimilarPromptsQuery = z.infer<typeof similarPromptsQuerySchema>;
+
+/**
+ * Team bundle import body schema (output of `pe export --team`)
+ */
+export const teamImportBodySchema = teamBundleSchema;
+
+/**
+ * Team aggregate query parameters schema (member = opted-in drilldown)
+ */
+export const teamQuerySchema = z.object({
+  period: z.enum(['7d', '30d', '90d', 'all']).optional().default('30d'),
+  member: teamMemberNameSchema.optional(),
+});
+
+export type TeamQuery = z.infer<typeof teamQuerySchema>;
+
+/**
+ * Team trends query parameters schema
+ */
+export const teamTrendsQuerySchema = z.object({
+  period: z.enum(['7d', '30d', '90d', '365d']).optional().default('30d'),
+  metric: z.enum(['volume', 'effectiveness', 'quality', 'golden']).optional().default('volume'),
+  groupBy: z.enum(['day', 'week', 'month']).optional().default('day'),
+  member: teamMemberNameSchema.optional(),
+});
+
+export type TeamTrendsQuery = z.infer<typeof teamTrendsQuerySchema>;
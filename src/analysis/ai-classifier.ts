@@ -1,6 +1,7 @@
 /**
  * AI-based Prompt Classifier
- * Uses OpenAI API for complex classification when rule-based is insufficient
+ * Uses the configured LLM backend (OpenAI by default) for complex classification
+ * when rule-based is insufficient
  */
 
 import type {
@@ -9,13 +10,23 @@ import type {
   ClassificationResult,
 } from './classifier.js';
 import { classifyPrompt as ruleBasedClassify } from './classifier.js';
+import {
+  createLLMProvider,
+  resolveLLMConfig,
+  isLLMConfigured,
+  withLLMCache,
+  type LLMConfig,
+  type LLMProviderId,
+} from '../llm/index.js';
 
 /**
  * AI classification configuration
  */
 export interface AIClassifierConfig {
+  provider?: LLMProviderId; // default: llm.json / PE_LLM_PROVIDER, else openai
   apiKey?: string;
   model?: string;
+  baseUrl?: string;
   confidenceThreshold?: number;
   enableFallback?: boolean;
 }
@@ -31,12 +42,15 @@ export interface AIClassificationResult extends ClassificationResult {
   alternativeCategories?: Array<{ category: TaskCategory; confidence: number }>;
 }
 
+/**
+ * Bump when the classification prompt changes (invalidates cached results)
+ */
+const CLASSIFIER_TEMPLATE_VERSION = 'classify-v1';
+
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: Required<AIClassifierConfig> = {
-  apiKey: process.env.OPENAI_API_KEY || '',
-  model: 'gpt-4o-mini',
+const DEFAULT_CONFIG = {
   confidenceThreshold: 0.7,
   enableFallback: true,
 };
@@ -45,12 +59,15 @@ const DEFAULT_CONFIG: Required<AIClassifierConfig> = {
  * AI Classifier class
  */
 export class AIClassifier {
-  private config: Required<AIClassifierConfig>;
+  private config: typeof DEFAULT_CONFIG;
+  private llmConfig: LLMConfig;
   private isAvailable: boolean;
 
   constructor(config: AIClassifierConfig = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    this.isAvailable = !!this.config.apiKey;
+    const { provider, apiKey, model, baseUrl, ...options } = config;
+    this.config = { ...DEFAULT_CONFIG, ...options };
+    this.llmConfig = resolveLLMConfig('classify', { provider, apiKey, model, baseUrl });
+    this.isAvailable = isLLMConfigured(this.llmConfig);
   }
 
   /**
@@ -87,10 +104,19 @@ export class AIClassifier {
       };
     }
 
-    // Use AI for enhanced classification
+    // Use AI for enhanced classification (cached across runs)
     try {
-      const aiResult = await this.callAI(text, ruleResult);
-      return aiResult;
+      const { value } = await withLLMCache(
+        {
+          task: 'classify',
+          provider: this.llmConfig.provider,
+          model: this.llmConfig.model,
+          templateVersion: CLASSIFIER_TEMPLATE_VERSION,
+          input: text,
+        },
+        () => this.callAI(text, ruleResult)
+      );
+      return value!;
     } catch (error) {
       if (this.config.enableFallback) {
         return {
@@ -104,7 +130,7 @@ export class AIClassifier {
   }
 
   /**
-   * Call OpenAI API for classification
+   * Call the LLM backend for classification
    */
   private async callAI(
     text: string,
@@ -156,39 +182,21 @@ Rule-based classification suggested:
 
 Please provide your classification analysis.`;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.config.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.3,
-        max_tokens: 500,
-        response_format: { type: 'json_object' },
-      }),
+    const response = await createLLMProvider(this.llmConfig).complete({
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      temperature: 0.3,
+      maxTokens: 500,
+      json: true,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
+    const content = response.text;
 
     if (!content) {
-      throw new Error('Empty response from OpenAI');
+      throw new Error(`Empty response from ${response.provider}`);
     }
 
-    const aiOutput = JSON.parse(content);
+    // Local models may wrap JSON in markdown fences
+    const aiOutput = JSON.parse(content.match(/\{[\s\S]*\}/)?.[0] ?? content);
 
     return {
       intent: this.validateIntent(aiOutput.intent) || ruleResult.intent,
@@ -305,5 +313,5 @@ export async function aiClassifyPrompt(
  * Check if AI classification is available
  */
 export function isAIClassificationAvailable(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return isLLMConfigured(resolveLLMConfig('classify'));
 }
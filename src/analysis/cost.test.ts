@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+    normalizeModelId,
+    findModelPricing,
+    calculateCost,
+    loadPricingTable,
+    applyConversationCost,
+    formatCost,
+} from './cost.js';
+import { MODEL_PRICING } from '../shared/config/index.js';
+import type { ParsedConversation } from '../types/index.js';
+
+function conversation(overrides: Partial<ParsedConversation>): ParsedConversation {
+    return {
+        id: 'conv-1',
+        project: 'test-project',
+        projectPath: '/test/project',
+        source: 'claude-code',
+        startedAt: new Date('2025-01-01T10:00:00Z'),
+        endedAt: new Date('2025-01-01T10:10:00Z'),
+        model: 'claude-sonnet-4-5-20250929',
+        totalInputTokens: 0,
+        totalOutputTokens: 0,
+        turns: [],
+        summaries: [],
+        ...overrides,
+    };
+}
+
+describe('cost', () => {
+    describe('findModelPricing', () => {
+        it('should match dated model ids by longest prefix', () => {
+            expect(findModelPricing('claude-sonnet-4-5-20250929')).toEqual(MODEL_PRICING['claude-sonnet-4-5']);
+            expect(findModelPricing('claude-sonnet-4-20250514')).toEqual(MODEL_PRICING['claude-sonnet-4']);
+            expect(findModelPricing('o3-mini-2025-01-31')).toEqual(MODEL_PRICING['o3-mini']);
+        });
+
+        it('should strip provider prefixes', () => {
+            expect(normalizeModelId('anthropic/Claude-3-5-Haiku')).toBe('claude-3-5-haiku');
+            expect(normalizeModelId('models/gemini-2.5-pro')).toBe('gemini-2.5-pro');
+            expect(findModelPricing('openrouter/openai/gpt-4o')).toEqual(MODEL_PRICING['gpt-4o']);
+        });
+
+        it('should return null for unknown models', () => {
+            expect(findModelPricing('llama-3-70b')).toBeNull();
+            expect(findModelPricing(undefined)).toBeNull();
+            expect(calculateCost({ inputTokens: 1000 }, 'llama-3-70b')).toBeNull();
+        });
+    });
+
+    describe('calculateCost', () => {
+        it('should price cache writes and reads separately from input', () => {
+            const cost = calculateCost(
+                { inputTokens: 1_000_000, outputTokens: 100_000, cacheCreationTokens: 200_000, cacheReadTokens: 2_000_000 },
+                'claude-sonnet-4-5'
+            );
+
+            // 3 + 1.5 + 0.75 + 0.6
+            expect(cost).toBeCloseTo(5.85);
+        });
+    });
+
+    describe('loadPricingTable', () => {
+        let dir: string | undefined;
+
+        afterEach(() => {
+            if (dir) rmSync(dir, { recursive: true, force: true });
+            dir = undefined;
+        });
+
+        it('should merge overrides from the pricing file', () => {
+            dir = mkdtempSync(join(tmpdir(), 'pe-pricing-'));
+            const file = join(dir, 'pricing.json');
+            writeFileSync(file, JSON.stringify({
+                'claude-sonnet-4-5': { output: 12 },
+                'llama-3-70b': { input: 0.5, output: 0.5 },
+            }));
+
+            const table = loadPricingTable(file);
+
+            expect(table['claude-sonnet-4-5']).toMatchObject({ input: 3, output: 12 });
+            expect(calculateCost({ inputTokens: 2_000_000 }, 'llama-3-70b', table)).toBeCloseTo(1);
+        });
+    });
+
+    describe('applyConversationCost', () => {
+        it('should price each turn and sum the conversation', () => {
+            const result = applyConversationCost(conversation({
+                turns: [
+                    { id: 'u1', role: 'user', content: 'Hi', timestamp: new Date() },
+                    { id: 'a1', role: 'assistant', content: 'Hello', timestamp: new Date(), inputTokens: 1_000_000 },
+                    { id: 'a2', role: 'assistant', content: 'Done', timestamp: new Date(), outputTokens: 100_000, model: 'claude-haiku-4-5' },
+                ],
+            }));
+
+            expect(result.turns[1].costUsd).toBeCloseTo(3);
+            expect(result.turns[2].costUsd).toBeCloseTo(0.5);
+            expect(result.totalCostUsd).toBeCloseTo(3.5);
+        });
+
+        it('should attribute session totals to the last assistant turn', () => {
+            const result = applyConversationCost(conversation({
+                model: 'gpt-5-codex',
+                totalInputTokens: 1_000_000,
+                totalCacheReadTokens: 1_000_000,
+                totalOutputTokens: 0,
+                turns: [
+                    { id: 'u1', role: 'user', content: 'Fix it', timestamp: new Date() },
+                    { id: 'a1', role: 'assistant', content: 'Fixed', timestamp: new Date() },
+                ],
+            }));
+
+            expect(result.turns[1]).toMatchObject({ inputTokens: 1_000_000, cacheReadTokens: 1_000_000 });
+            expect(result.totalCostUsd).toBeCloseTo(1.375);
+        });
+
+        it('should keep costs reported by the assistant', () => {
+            const result = applyConversationCost(conversation({
+                source: 'aider',
+                model: 'gpt-4o',
+                turns: [
+                    { id: 'a1', role: 'assistant', content: 'Edited', timestamp: new Date(), inputTokens: 2300, costUsd: 0.01 },
+                ],
+            }));
+
+            expect(result.turns[0].costUsd).toBe(0.01);
+            expect(result.totalCostUsd).toBe(0.01);
+        });
+    });
+
+    describe('formatCost', () => {
+        it('should show more precision for small amounts', () => {
+            expect(formatCost(0.0042)).toBe('$0.0042');
+            expect(formatCost(12.5)).toBe('$12.50');
+            expect(formatCost(0)).toBe('$0.00');
+        });
+    });
+});
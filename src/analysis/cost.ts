@@ -0,0 +1,160 @@
+/**
+ * Cost Accounting
+ * Token cost calculation with cache-aware pricing per model
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { MODEL_PRICING, type ModelPricing } from '../shared/config/index.js';
+import type { ParsedConversation } from '../types/index.js';
+
+/**
+ * User pricing overrides (merged over MODEL_PRICING)
+ */
+export const PRICING_FILE_PATH =
+  process.env.PE_PRICING_FILE || join(homedir(), '.prompt-evolution', 'pricing.json');
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+/**
+ * Token usage of a turn or conversation
+ */
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+}
+
+let pricingCache: Record<string, ModelPricing> | null = null;
+
+/**
+ * Load pricing table (defaults + user overrides)
+ */
+export function loadPricingTable(filePath: string = PRICING_FILE_PATH): Record<string, ModelPricing> {
+  if (pricingCache && filePath === PRICING_FILE_PATH) return pricingCache;
+
+  const table: Record<string, ModelPricing> = { ...MODEL_PRICING };
+  if (existsSync(filePath)) {
+    try {
+      const overrides = JSON.parse(readFileSync(filePath, 'utf-8')) as Record<string, Partial<ModelPricing>>;
+      for (const [model, pricing] of Object.entries(overrides)) {
+        const base = table[normalizeModelId(model)] ?? { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 };
+        table[normalizeModelId(model)] = { ...base, ...pricing };
+      }
+    } catch (err) {
+      console.warn(`[Cost] Failed to read pricing file ${filePath}:`, (err as Error).message);
+    }
+  }
+
+  if (filePath === PRICING_FILE_PATH) pricingCache = table;
+  return table;
+}
+
+/**
+ * Clear the cached pricing table (after editing the pricing file)
+ */
+export function resetPricingCache(): void {
+  pricingCache = null;
+}
+
+/**
+ * Normalize a model id: lowercase, drop provider prefixes
+ * (e.g. "anthropic/claude-3-5-sonnet", "models/gemini-2.5-pro")
+ */
+export function normalizeModelId(model: string): string {
+  const id = model.trim().toLowerCase();
+  return id.slice(id.lastIndexOf('/') + 1).replace(/^anthropic\./, '');
+}
+
+/**
+ * Find pricing for a model (exact id, then longest matching prefix)
+ */
+export function findModelPricing(
+  model: string | null | undefined,
+  table: Record<string, ModelPricing> = loadPricingTable()
+): ModelPricing | null {
+  if (!model) return null;
+  const id = normalizeModelId(model);
+  if (table[id]) return table[id];
+
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (id.startsWith(key) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+/**
+ * Check if usage has any tokens
+ */
+export function hasTokenUsage(usage: TokenUsage): boolean {
+  return Boolean(
+    usage.inputTokens || usage.outputTokens || usage.cacheCreationTokens || usage.cacheReadTokens
+  );
+}
+
+/**
+ * Calculate USD cost of token usage (null if the model has no pricing)
+ */
+export function calculateCost(
+  usage: TokenUsage,
+  model: string | null | undefined,
+  table?: Record<string, ModelPricing>
+): number | null {
+  const pricing = findModelPricing(model, table);
+  if (!pricing) return null;
+
+  return (
+    ((usage.inputTokens || 0) * pricing.input +
+      (usage.outputTokens || 0) * pricing.output +
+      (usage.cacheCreationTokens || 0) * pricing.cacheWrite +
+      (usage.cacheReadTokens || 0) * pricing.cacheRead) /
+    TOKENS_PER_UNIT
+  );
+}
+
+/**
+ * Fill in per-turn and per-conversation cost
+ * - Costs already reported by the assistant (e.g. Aider) are kept
+ * - Sources that only report session totals (e.g. Codex CLI) are attributed
+ *   to the last assistant turn so turn-level sums match the conversation
+ */
+export function applyConversationCost(
+  conversation: ParsedConversation,
+  table?: Record<string, ModelPricing>
+): ParsedConversation {
+  const { turns } = conversation;
+
+  if (!turns.some((t) => hasTokenUsage(t) || t.costUsd !== undefined)) {
+    const lastAssistant = [...turns].reverse().find((t) => t.role === 'assistant');
+    if (lastAssistant) {
+      lastAssistant.inputTokens = conversation.totalInputTokens || undefined;
+      lastAssistant.outputTokens = conversation.totalOutputTokens || undefined;
+      lastAssistant.cacheCreationTokens = conversation.totalCacheCreationTokens || undefined;
+      lastAssistant.cacheReadTokens = conversation.totalCacheReadTokens || undefined;
+    }
+  }
+
+  let total = 0;
+  for (const turn of turns) {
+    if (turn.costUsd === undefined && hasTokenUsage(turn)) {
+      turn.costUsd = calculateCost(turn, turn.model || conversation.model, table) ?? undefined;
+    }
+    total += turn.costUsd ?? 0;
+  }
+
+  conversation.totalCostUsd = total;
+  return conversation;
+}
+
+/**
+ * Format USD amount for display
+ */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
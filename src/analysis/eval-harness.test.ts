@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseEvalCorpus,
+    buildTaskReport,
+    runEvaluation,
+    compareWithBaseline,
+    goldenBand,
+    rulePredictor,
+    type EvalPredictor,
+} from './eval-harness.js';
+
+const corpus = [
+    '# labeled prompts',
+    JSON.stringify({ id: 'fix', text: '로그인 버그 수정해줘', intent: 'command', category: 'bug-fix' }),
+    JSON.stringify({ id: 'why', text: '왜 이 테스트가 실패하나요?', intent: 'question', golden: 'low' }),
+    '',
+    JSON.stringify({ text: 'write unit tests for the parser', category: 'testing' }),
+    '{ broken',
+    JSON.stringify({ id: 'nolabel', text: 'hello' }),
+    JSON.stringify({ id: 'fix', text: 'duplicate id', intent: 'command' }),
+].join('\n');
+
+describe('eval-harness', () => {
+    describe('parseEvalCorpus', () => {
+        it('should parse labeled cases and report bad lines', () => {
+            const { cases, errors } = parseEvalCorpus(corpus);
+
+            expect(cases.map((c) => c.id)).toEqual(['fix', 'why', expect.stringMatching(/^[0-9a-f]{12}$/)]);
+            expect(errors.map((e) => e.line)).toEqual([6, 7, 8]);
+            expect(errors[1].message).toMatch(/At least one/);
+            expect(errors[2].message).toMatch(/Duplicate id/);
+        });
+
+        it('should reject unknown labels', () => {
+            const { errors } = parseEvalCorpus(JSON.stringify({ text: 'x', intent: 'order' }));
+            expect(errors[0].message).toMatch(/^intent:/);
+        });
+    });
+
+    describe('buildTaskReport', () => {
+        it('should compute per-class metrics and the confusion matrix', () => {
+            const report = buildTaskReport('intent', [
+                { expected: 'command', predicted: 'command', confidence: 0.9 },
+                { expected: 'command', predicted: 'question', confidence: 0.6 },
+                { expected: 'question', predicted: 'question', confidence: 0.8 },
+                { expected: 'feedback', predicted: 'command', confidence: 0.3 },
+            ]);
+
+            expect(report.accuracy).toBe(0.5);
+            expect(report.confusion.labels).toEqual(['command', 'question', 'feedback']);
+            expect(report.confusion.matrix).toEqual([
+                [1, 1, 0],
+                [0, 1, 0],
+                [1, 0, 0],
+            ]);
+
+            const command = report.classes.find((c) => c.label === 'command')!;
+            expect(command.precision).toBe(0.5);
+            expect(command.recall).toBe(0.5);
+            expect(command.support).toBe(2);
+            expect(report.macroF1).toBeCloseTo((0.5 + 2 / 3 + 0) / 3, 10);
+        });
+
+        it('should bin confidences for calibration', () => {
+            const report = buildTaskReport('category', [
+                { expected: 'testing', predicted: 'testing', confidence: 0.95 },
+                { expected: 'testing', predicted: 'bug-fix', confidence: 0.92 },
+                { expected: 'bug-fix', predicted: 'bug-fix', confidence: 1 },
+            ]);
+
+            const top = report.calibration!.find((b) => b.lower === 0.9)!;
+            expect(top.count).toBe(3);
+            expect(top.accuracy).toBeCloseTo(2 / 3, 10);
+            expect(top.meanConfidence).toBeCloseTo((0.95 + 0.92 + 1) / 3, 10);
+            expect(report.ece).toBeCloseTo(Math.abs(2 / 3 - top.meanConfidence), 10);
+        });
+    });
+
+    describe('runEvaluation', () => {
+        const { cases } = parseEvalCorpus(corpus);
+
+        it('should score each path only on the tasks it predicts', async () => {
+            const classifier: EvalPredictor = (text) => ({
+                intent: text.includes('왜') ? 'question' : 'command',
+                intentConfidence: 0.8,
+                category: 'bug-fix',
+            });
+            const golden: EvalPredictor = async () => ({ goldenTotal: 0.2 });
+
+            const report = await runEvaluation(cases, { ai: classifier, hybrid: golden });
+
+            expect(report.paths.map((p) => p.path)).toEqual(['ai', 'hybrid']);
+            expect(report.paths[0].tasks.map((t) => t.task)).toEqual(['intent', 'category']);
+            expect(report.paths[0].tasks[0].accuracy).toBe(1);
+            expect(report.paths[0].tasks[1].accuracy).toBe(0.5);
+            expect(report.paths[1].tasks.map((t) => t.task)).toEqual(['golden']);
+            expect(report.paths[1].outcomes.why).toEqual({ golden: true });
+        });
+
+        it('should record predictor failures per case', async () => {
+            const flaky: EvalPredictor = (text) => {
+                if (text.includes('parser')) throw new Error('rate limited');
+                return { intent: 'command' };
+            };
+
+            const report = await runEvaluation(cases, { ai: flaky });
+
+            expect(report.paths[0].failures).toEqual([{ id: cases[2].id, message: 'rate limited' }]);
+        });
+
+        it('should run the rule-based path end to end', async () => {
+            const report = await runEvaluation(cases, { rule: rulePredictor() });
+            expect(report.paths[0].tasks.map((t) => t.task)).toEqual(['intent', 'category', 'golden']);
+        });
+    });
+
+    describe('compareWithBaseline', () => {
+        it('should flag metric drops beyond the tolerance and flipped cases', async () => {
+            const { cases } = parseEvalCorpus(corpus);
+            const good: EvalPredictor = (text) => ({
+                intent: text.includes('왜') ? 'question' : 'command',
+                category: text.includes('test') ? 'testing' : 'bug-fix',
+            });
+            const worse: EvalPredictor = (text) => ({
+                intent: 'command',
+                category: text.includes('test') ? 'testing' : 'bug-fix',
+            });
+
+            const baseline = await runEvaluation(cases, { rule: good });
+            const current = await runEvaluation(cases, { rule: worse });
+            const comparison = compareWithBaseline(current, baseline);
+
+            expect(comparison.regressions.map((r) => r.metric)).toEqual(
+                expect.arrayContaining(['accuracy', 'macroF1', 'f1:question'])
+            );
+            expect(comparison.regressions.every((r) => r.task === 'intent')).toBe(true);
+            expect(comparison.newlyFailing).toEqual([{ path: 'rule', task: 'intent', id: 'why' }]);
+            expect(compareWithBaseline(baseline, current).newlyPassing).toHaveLength(1);
+            expect(compareWithBaseline(current, current).regressions).toEqual([]);
+        });
+    });
+
+    it('should map GOLDEN totals to bands', () => {
+        expect(goldenBand(0.1)).toBe('low');
+        expect(goldenBand(0.4)).toBe('medium');
+        expect(goldenBand(0.9)).toBe('high');
+    });
+});
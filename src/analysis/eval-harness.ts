@@ -0,0 +1,407 @@
+/**
+ * Evaluation Harness
+ * 라벨링된 코퍼스로 분류기 / GOLDEN 채점기 정확도 측정
+ *
+ * 코퍼스: JSONL, 한 줄에 하나
+ *   {"id": "...", "text": "...", "intent": "command", "category": "bug-fix", "golden": "medium"}
+ * 경로:
+ *   - rule:   classifyPrompt + calculateGOLDENScore
+ *   - ai:     AIClassifier (의도/카테고리)
+ *   - hybrid: evaluateWithHybrid (GOLDEN)
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { PROMPT_INTENTS, TASK_CATEGORIES } from '../shared/constants.js';
+import { classifyPrompt } from './classifier.js';
+import { calculateGOLDENScore } from './guidelines-evaluator.js';
+import type { AIClassifier } from './ai-classifier.js';
+import { evaluateWithHybrid, type LLMJudgeConfig } from './llm-judge.js';
+
+export const EVAL_PATHS = ['rule', 'ai', 'hybrid'] as const;
+export type EvalPath = typeof EVAL_PATHS[number];
+
+export const EVAL_TASKS = ['intent', 'category', 'golden'] as const;
+export type EvalTask = typeof EVAL_TASKS[number];
+
+/**
+ * GOLDEN 총점 구간 (하한)
+ */
+export const GOLDEN_BANDS = {
+  low: 0,
+  medium: 0.4,
+  high: 0.65,
+} as const;
+export type GoldenBand = keyof typeof GOLDEN_BANDS;
+
+const GOLDEN_BAND_LABELS = ['low', 'medium', 'high'] as const;
+
+const CALIBRATION_BINS = 10;
+
+export function goldenBand(total: number): GoldenBand {
+  if (total >= GOLDEN_BANDS.high) return 'high';
+  if (total >= GOLDEN_BANDS.medium) return 'medium';
+  return 'low';
+}
+
+const evalCaseSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    text: z.string().min(1),
+    intent: z.enum(PROMPT_INTENTS).optional(),
+    category: z.enum(TASK_CATEGORIES).optional(),
+    golden: z.enum(GOLDEN_BAND_LABELS).optional(),
+  })
+  .refine((c) => c.intent || c.category || c.golden, {
+    message: 'At least one of intent, category or golden is required',
+  });
+
+export interface EvalCase {
+  id: string;
+  text: string;
+  intent?: string;
+  category?: string;
+  golden?: GoldenBand;
+}
+
+export interface EvalCorpusError {
+  line: number;
+  message: string;
+}
+
+/**
+ * JSONL 코퍼스 파싱 (빈 줄, # 주석 무시)
+ * id 가 없으면 텍스트 해시 사용 → 줄 순서가 바뀌어도 기준선과 비교 가능
+ */
+export function parseEvalCorpus(content: string): { cases: EvalCase[]; errors: EvalCorpusError[] } {
+  const cases: EvalCase[] = [];
+  const errors: EvalCorpusError[] = [];
+  const seen = new Set<string>();
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(line);
+    } catch (err) {
+      errors.push({ line: index + 1, message: (err as Error).message });
+      return;
+    }
+
+    const result = evalCaseSchema.safeParse(data);
+    if (!result.success) {
+      errors.push({
+        line: index + 1,
+        message: result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; '),
+      });
+      return;
+    }
+
+    const id = result.data.id ?? createHash('sha1').update(result.data.text).digest('hex').slice(0, 12);
+    if (seen.has(id)) {
+      errors.push({ line: index + 1, message: `Duplicate id: ${id}` });
+      return;
+    }
+    seen.add(id);
+    cases.push({ ...result.data, id });
+  });
+
+  return { cases, errors };
+}
+
+// ─── 예측 경로 ───────────────────────────────────────────────────────
+
+/**
+ * 한 경로의 예측 (지원하지 않는 작업은 비워 둠)
+ */
+export interface EvalPrediction {
+  intent?: string;
+  intentConfidence?: number;
+  category?: string;
+  categoryConfidence?: number;
+  goldenTotal?: number;
+}
+
+export type EvalPredictor = (text: string) => EvalPrediction | Promise<EvalPrediction>;
+
+export function rulePredictor(): EvalPredictor {
+  return (text) => {
+    const result = classifyPrompt(text);
+    return {
+      intent: result.intent,
+      intentConfidence: result.intentConfidence,
+      category: result.taskCategory,
+      categoryConfidence: result.categoryConfidence,
+      goldenTotal: calculateGOLDENScore(text, result.taskCategory).total,
+    };
+  };
+}
+
+export function aiPredictor(classifier: AIClassifier): EvalPredictor {
+  return async (text) => {
+    const result = await classifier.classify(text);
+    return {
+      intent: result.intent,
+      intentConfidence: result.intentConfidence,
+      category: result.taskCategory,
+      categoryConfidence: result.categoryConfidence,
+    };
+  };
+}
+
+export function hybridPredictor(config: LLMJudgeConfig): EvalPredictor {
+  return async (text) => {
+    const merged = await evaluateWithHybrid(text, calculateGOLDENScore(text), config);
+    return { goldenTotal: merged.scores.total };
+  };
+}
+
+// ─── 지표 ───────────────────────────────────────────────────────────
+
+export interface ClassMetrics {
+  label: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;      // 정답 개수
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface TaskReport {
+  task: EvalTask;
+  total: number;
+  accuracy: number;
+  macroF1: number;
+  classes: ClassMetrics[];
+  confusion: { labels: string[]; matrix: number[][] };  // 행: 정답, 열: 예측
+  calibration?: CalibrationBin[];
+  ece?: number;         // Expected Calibration Error
+}
+
+export interface PathReport {
+  path: EvalPath;
+  tasks: TaskReport[];
+  /** 케이스별 정답 여부 (기준선 비교용) */
+  outcomes: Record<string, Partial<Record<EvalTask, boolean>>>;
+  failures: Array<{ id: string; message: string }>;
+}
+
+export interface EvalReport {
+  createdAt: string;
+  caseCount: number;
+  paths: PathReport[];
+}
+
+interface Observation {
+  expected: string;
+  predicted: string;
+  confidence?: number;
+}
+
+function labelOrder(task: EvalTask): readonly string[] {
+  if (task === 'intent') return PROMPT_INTENTS;
+  if (task === 'category') return TASK_CATEGORIES;
+  return GOLDEN_BAND_LABELS;
+}
+
+export function buildTaskReport(task: EvalTask, observations: Observation[]): TaskReport {
+  const present = new Set(observations.flatMap((o) => [o.expected, o.predicted]));
+  const labels = labelOrder(task).filter((label) => present.has(label));
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const matrix = labels.map(() => labels.map(() => 0));
+
+  for (const o of observations) {
+    matrix[index.get(o.expected)!][index.get(o.predicted)!]++;
+  }
+
+  const classes = labels.map((label, i) => {
+    const truePositive = matrix[i][i];
+    const predicted = matrix.reduce((sum, row) => sum + row[i], 0);
+    const support = matrix[i].reduce((sum, n) => sum + n, 0);
+    const precision = predicted > 0 ? truePositive / predicted : 0;
+    const recall = support > 0 ? truePositive / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { label, precision, recall, f1, support };
+  });
+
+  // macro-F1 은 정답에 나온 클래스만 평균
+  const supported = classes.filter((c) => c.support > 0);
+  const correct = observations.filter((o) => o.expected === o.predicted).length;
+
+  const report: TaskReport = {
+    task,
+    total: observations.length,
+    accuracy: observations.length > 0 ? correct / observations.length : 0,
+    macroF1: supported.length > 0 ? supported.reduce((sum, c) => sum + c.f1, 0) / supported.length : 0,
+    classes,
+    confusion: { labels, matrix },
+  };
+
+  const withConfidence = observations.filter((o) => o.confidence !== undefined);
+  if (withConfidence.length > 0) {
+    report.calibration = buildCalibration(withConfidence);
+    report.ece = report.calibration.reduce(
+      (sum, bin) => sum + (bin.count / withConfidence.length) * Math.abs(bin.accuracy - bin.meanConfidence),
+      0
+    );
+  }
+
+  return report;
+}
+
+function buildCalibration(observations: Observation[]): CalibrationBin[] {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+    lower: i / CALIBRATION_BINS,
+    upper: (i + 1) / CALIBRATION_BINS,
+    count: 0,
+    confidenceSum: 0,
+    correct: 0,
+  }));
+
+  for (const o of observations) {
+    const confidence = Math.min(Math.max(o.confidence!, 0), 1);
+    const bin = bins[Math.min(Math.floor(confidence * CALIBRATION_BINS), CALIBRATION_BINS - 1)];
+    bin.count++;
+    bin.confidenceSum += confidence;
+    if (o.expected === o.predicted) bin.correct++;
+  }
+
+  return bins.map(({ lower, upper, count, confidenceSum, correct }) => ({
+    lower,
+    upper,
+    count,
+    meanConfidence: count > 0 ? confidenceSum / count : 0,
+    accuracy: count > 0 ? correct / count : 0,
+  }));
+}
+
+/**
+ * 코퍼스를 각 경로로 실행
+ */
+export async function runEvaluation(
+  cases: EvalCase[],
+  predictors: Partial<Record<EvalPath, EvalPredictor>>
+): Promise<EvalReport> {
+  const paths: PathReport[] = [];
+
+  for (const path of EVAL_PATHS) {
+    const predict = predictors[path];
+    if (!predict) continue;
+
+    const observations: Record<EvalTask, Observation[]> = { intent: [], category: [], golden: [] };
+    const outcomes: PathReport['outcomes'] = {};
+    const failures: PathReport['failures'] = [];
+
+    for (const c of cases) {
+      let prediction: EvalPrediction;
+      try {
+        prediction = await predict(c.text);
+      } catch (err) {
+        failures.push({ id: c.id, message: (err as Error).message });
+        continue;
+      }
+
+      const record = (task: EvalTask, expected: string | undefined, predicted: string | undefined, confidence?: number) => {
+        if (!expected || predicted === undefined) return;
+        observations[task].push({ expected, predicted, confidence });
+        (outcomes[c.id] ??= {})[task] = expected === predicted;
+      };
+
+      record('intent', c.intent, prediction.intent, prediction.intentConfidence);
+      record('category', c.category, prediction.category, prediction.categoryConfidence);
+      record(
+        'golden',
+        c.golden,
+        prediction.goldenTotal === undefined ? undefined : goldenBand(prediction.goldenTotal)
+      );
+    }
+
+    paths.push({
+      path,
+      tasks: EVAL_TASKS.filter((task) => observations[task].length > 0).map((task) =>
+        buildTaskReport(task, observations[task])
+      ),
+      outcomes,
+      failures,
+    });
+  }
+
+  return { createdAt: new Date().toISOString(), caseCount: cases.length, paths };
+}
+
+// ─── 기준선 비교 ─────────────────────────────────────────────────────
+
+export interface EvalRegression {
+  path: EvalPath;
+  task: EvalTask;
+  metric: string;       // accuracy, macroF1, f1:<label>
+  baseline: number;
+  current: number;
+}
+
+export interface EvalComparison {
+  regressions: EvalRegression[];
+  /** 기준선에서 맞혔는데 지금 틀린 케이스 */
+  newlyFailing: Array<{ path: EvalPath; task: EvalTask; id: string }>;
+  /** 기준선에서 틀렸는데 지금 맞힌 케이스 */
+  newlyPassing: Array<{ path: EvalPath; task: EvalTask; id: string }>;
+}
+
+/**
+ * 저장된 기준선 대비 하락한 지표 / 케이스
+ * tolerance 이하의 변동은 무시
+ */
+export function compareWithBaseline(
+  current: EvalReport,
+  baseline: EvalReport,
+  tolerance = 0.01
+): EvalComparison {
+  const comparison: EvalComparison = { regressions: [], newlyFailing: [], newlyPassing: [] };
+
+  for (const pathReport of current.paths) {
+    const basePath = baseline.paths.find((p) => p.path === pathReport.path);
+    if (!basePath) continue;
+
+    for (const task of pathReport.tasks) {
+      const baseTask = basePath.tasks.find((t) => t.task === task.task);
+      if (!baseTask) continue;
+
+      const check = (metric: string, before: number, after: number) => {
+        if (before - after > tolerance) {
+          comparison.regressions.push({ path: pathReport.path, task: task.task, metric, baseline: before, current: after });
+        }
+      };
+
+      check('accuracy', baseTask.accuracy, task.accuracy);
+      check('macroF1', baseTask.macroF1, task.macroF1);
+      for (const cls of task.classes) {
+        const baseClass = baseTask.classes.find((c) => c.label === cls.label);
+        if (baseClass && baseClass.support > 0 && cls.support > 0) {
+          check(`f1:${cls.label}`, baseClass.f1, cls.f1);
+        }
+      }
+    }
+
+    for (const [id, outcome] of Object.entries(pathReport.outcomes)) {
+      const baseOutcome = basePath.outcomes[id];
+      if (!baseOutcome) continue;
+      for (const task of EVAL_TASKS) {
+        const before = baseOutcome[task];
+        const after = outcome[task];
+        if (before === true && after === false) comparison.newlyFailing.push({ path: pathReport.path, task, id });
+        if (before === false && after === true) comparison.newlyPassing.push({ path: pathReport.path, task, id });
+      }
+    }
+  }
+
+  return comparison;
+}
@@ -20,6 +20,11 @@ import {
   getCategoryDataWeights,
   isCodeRelatedTask,
 } from './golden-consistency.js';
+import {
+  goldenRuleAdjustments,
+  matchGoldenRules,
+  matchAntiPatternRules,
+} from './rule-packs.js';
 
 // Import and re-export shared types
 import type {
@@ -38,6 +43,13 @@ export type {
   Grade,
 };
 
+// 데스크톱 번들에서도 같은 규칙 팩 로더를 사용
+export {
+  activateRulePacks,
+  resetRulePackCache,
+  getActiveRulePacks,
+} from './rule-packs.js';
+
 /**
  * 공식 가이드라인 정의 (Anthropic Claude 4 Best Practices)
  */
@@ -322,6 +334,21 @@ export function evaluatePromptAgainstGuidelines(text: string): GuidelineEvaluati
     totalWeightedScore += result.score * guideline.weight;
   }
 
+  // 사용자 규칙 팩 (가중치 0: 종합 점수에는 반영하지 않고 근거/제안만 표시)
+  const { matched, missed } = matchGoldenRules(text, extractFeatures(text).languageHint);
+  for (const rule of [...matched, ...missed]) {
+    const isMatched = matched.includes(rule);
+    guidelineScores.push({
+      guideline: `rule:${rule.id}`,
+      name: rule.id,
+      description: `${rule.pack} · ${rule.dimension}`,
+      score: isMatched === rule.weight >= 0 ? 1 : 0,
+      weight: 0,
+      evidence: isMatched ? [rule.evidence] : [],
+      suggestion: rule.suggestion,
+    });
+  }
+
   // GOLDEN 점수 계산
   const goldenScore = calculateGOLDENScore(text);
 
@@ -435,14 +462,19 @@ export function calculateGOLDENScore(text: string, category?: string): GOLDENSco
   // This rewards meaningful content per word, not just word count
   const qualityDensityBonus = calculateQualityDensity(text);
 
+  // 사용자 규칙 팩 가중치
+  const adjustments = goldenRuleAdjustments(text, features.languageHint);
+  const clamp = (score: number, dimension: keyof typeof adjustments) =>
+    Math.max(0, Math.min(Math.min(score, 1) + (adjustments[dimension] ?? 0), 1));
+
   // Cap individual dimensions
   const rawScores: GOLDENScore = {
-    goal: Math.min(goal, 1),
-    output: Math.min(output, 1),
-    limits: Math.min(limits, 1),
-    data: Math.min(data, 1),
-    evaluation: Math.min(evaluation, 1),
-    next: Math.min(next, 1),
+    goal: clamp(goal, 'goal'),
+    output: clamp(output, 'output'),
+    limits: clamp(limits, 'limits'),
+    data: clamp(data, 'data'),
+    evaluation: clamp(evaluation, 'evaluation'),
+    next: clamp(next, 'next'),
     total: 0, // Will be calculated below
   };
 
@@ -475,6 +507,17 @@ export function detectAntiPatterns(text: string): DetectedAntiPattern[] {
     }
   }
 
+  // 사용자 규칙 팩
+  for (const rule of matchAntiPatternRules(text, extractFeatures(text).languageHint)) {
+    detected.push({
+      pattern: rule.name ?? rule.id,
+      severity: rule.severity,
+      description: rule.evidence,
+      example: text.length <= 50 ? text : text.slice(0, 50) + '...',
+      fix: rule.suggestion,
+    });
+  }
+
   return detected;
 }
 
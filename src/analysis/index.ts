@@ -8,3 +8,14 @@ export * from './scorer.js';
 export * from './classifier.js';
 export * from './ai-classifier.js';
 export * from './insights.js';
+export * from './cost.js';
+export * from './prompt-embeddings.js';
+export * from './rule-packs.js';
+export * from './eval-harness.js';
+export * from './personal-model.js';
+export * from './outcome-attribution.js';
+export * from './period-comparison.js';
+export { evaluatePromptAgainstGuidelines } from './guidelines-evaluator.js';
+export { improvePromptWithRules } from './self-improvement.js';
+export type { ImprovedPrompt } from './llm-improver.js';
+export type { GOLDENScore, GuidelineEvaluation, DetectedAntiPattern } from './guidelines-evaluator.js';
@@ -31,6 +31,8 @@ import {
   type SelfImprovementFeedback,
   type PromptDataForImprovement,
 } from './self-improvement.js';
+import type { PromptOutcomeMetrics } from './outcome-attribution.js';
+import type { PersonalModel } from './personal-model.js';
 import {
   PROBLEM_DETECTION,
   IMPROVEMENT_DETECTION,
@@ -79,6 +81,8 @@ export interface InsightsReport {
     totalPrompts: number;
     overallEffectiveness: number;
     overallQuality: number;
+    /** 개인화 모델의 평균 성공 확률 (모델을 넘겼을 때) */
+    predictedSuccess?: number;
   };
   problems: Insight[];
   improvements: Insight[];
@@ -89,6 +93,19 @@ export interface InsightsReport {
   promptLibrary?: PromptLibrary;
   guidelinesSummary?: GuidelinesSummary;
   selfImprovement?: SelfImprovementFeedback;
+  /** 하류 비용(friction)이 가장 큰 프롬프트 (결과 기록이 있을 때) */
+  costliestPrompts?: CostlyPrompt[];
+}
+
+/**
+ * 하류 비용이 큰 프롬프트
+ */
+export interface CostlyPrompt {
+  content: string;
+  conversationId: string;
+  turnId?: string;
+  timestamp?: Date;
+  outcome: PromptOutcomeMetrics;
 }
 
 // Re-export for convenience
@@ -130,10 +147,18 @@ export interface PrioritizedRecommendation {
 export interface PromptData {
   content: string;
   conversationId: string;
+  turnId?: string;
   timestamp?: Date;
   effectiveness?: number;
+  /** Cached prompt embedding for library clustering */
+  embedding?: Float32Array;
+  /** What followed the prompt (prompt_outcomes) */
+  outcome?: PromptOutcomeMetrics;
 }
 
+/** 리포트에 표시할 하류 비용 상위 프롬프트 수 */
+const COSTLIEST_PROMPTS_LIMIT = 5;
+
 /**
  * Generate insights from prompts
  */
@@ -146,6 +171,9 @@ export function generateInsights(
     includeLibrary?: boolean;
     includeGuidelines?: boolean;
     includeSelfImprovement?: boolean;
+    includeOutcomes?: boolean;
+    /** 학습된 개인화 모델 (프롬프트별 predictedSuccess 계산) */
+    personalModel?: PersonalModel | null;
   } = {}
 ): InsightsReport {
   const {
@@ -155,17 +183,18 @@ export function generateInsights(
     includeLibrary = true,
     includeGuidelines = true,
     includeSelfImprovement = true,
+    includeOutcomes = true,
+    personalModel,
   } = options;
 
   // Filter by period if needed
   const filteredPrompts = filterByPeriod(prompts, period);
 
   // Classify all prompts
-  const classifications = filteredPrompts.map((p) => ({
-    ...p,
-    classification: classifyPrompt(p.content),
-    quality: calculatePromptQuality(classifyPrompt(p.content)),
-  }));
+  const classifications = filteredPrompts.map((p) => {
+    const classification = classifyPrompt(p.content);
+    return { ...p, classification, quality: calculatePromptQuality(classification, p.content, personalModel) };
+  });
 
   // Filter by category if specified
   const targetPrompts = category
@@ -196,6 +225,9 @@ export function generateInsights(
   const avgQuality =
     targetPrompts.reduce((sum, p) => sum + p.quality.overall, 0) /
     targetPrompts.length;
+  const avgPredictedSuccess = personalModel
+    ? targetPrompts.reduce((sum, p) => sum + (p.quality.predictedSuccess ?? 0), 0) / targetPrompts.length
+    : undefined;
 
   // Generate prioritized recommendations
   const recommendations = generateRecommendations(
@@ -212,6 +244,7 @@ export function generateInsights(
       conversationId: p.conversationId,
       timestamp: p.timestamp || new Date(),
       effectiveness: p.effectiveness || 0.5,
+      embedding: p.embedding,
     }));
     promptLibrary = buildPromptLibrary(libraryData);
   }
@@ -236,6 +269,9 @@ export function generateInsights(
     selfImprovement = generateSelfImprovementFeedback(improvementData);
   }
 
+  // 하류 비용이 가장 큰 프롬프트
+  const costliestPrompts = includeOutcomes ? findCostliestPrompts(targetPrompts) : undefined;
+
   // Apply focus filter
   const report: InsightsReport = {
     generatedAt: new Date(),
@@ -246,6 +282,7 @@ export function generateInsights(
       totalPrompts: targetPrompts.length,
       overallEffectiveness: avgEffectiveness,
       overallQuality: avgQuality,
+      ...(avgPredictedSuccess !== undefined && { predictedSuccess: avgPredictedSuccess }),
     },
     problems: focusArea === 'strengths' ? [] : problems,
     improvements:
@@ -258,11 +295,34 @@ export function generateInsights(
     promptLibrary,
     guidelinesSummary,
     selfImprovement,
+    costliestPrompts,
   };
 
   return report;
 }
 
+/**
+ * 결과 기록이 있는 프롬프트 중 friction 이 큰 순 (같으면 비용 순)
+ */
+function findCostliestPrompts(prompts: PromptData[]): CostlyPrompt[] | undefined {
+  const withOutcome = prompts.filter(
+    (p): p is PromptData & { outcome: PromptOutcomeMetrics } => p.outcome !== undefined
+  );
+  if (withOutcome.length === 0) return undefined;
+
+  return withOutcome
+    .filter((p) => p.outcome.frictionScore > 0)
+    .sort((a, b) => b.outcome.frictionScore - a.outcome.frictionScore || b.outcome.costUsd - a.outcome.costUsd)
+    .slice(0, COSTLIEST_PROMPTS_LIMIT)
+    .map((p) => ({
+      content: p.content,
+      conversationId: p.conversationId,
+      turnId: p.turnId,
+      timestamp: p.timestamp,
+      outcome: p.outcome,
+    }));
+}
+
 /**
  * Filter prompts by time period
  */
@@ -743,7 +803,11 @@ export function formatReport(report: InsightsReport): string {
   output += `총 대화: ${report.summary.totalConversations}개\n`;
   output += `총 프롬프트: ${report.summary.totalPrompts}개\n`;
   output += `평균 효과성: ${(report.summary.overallEffectiveness * 100).toFixed(1)}%\n`;
-  output += `평균 품질: ${(report.summary.overallQuality * 100).toFixed(1)}%\n\n`;
+  output += `평균 품질: ${(report.summary.overallQuality * 100).toFixed(1)}%\n`;
+  if (report.summary.predictedSuccess !== undefined) {
+    output += `예상 성공률 (개인화 모델): ${(report.summary.predictedSuccess * 100).toFixed(1)}%\n`;
+  }
+  output += '\n';
 
   // Problems
   if (report.problems.length > 0) {
@@ -772,6 +836,21 @@ export function formatReport(report: InsightsReport): string {
     });
   }
 
+  // Costliest prompts
+  if (report.costliestPrompts && report.costliestPrompts.length > 0) {
+    output += '💸 하류 비용이 가장 큰 프롬프트\n';
+    output += '─'.repeat(40) + '\n';
+    report.costliestPrompts.forEach((p, i) => {
+      const { outcome } = p;
+      const text = p.content.replace(/\s+/g, ' ').trim();
+      output += `${i + 1}. "${text.length > 60 ? text.slice(0, 60) + '...' : text}"\n`;
+      output += `   friction ${outcome.frictionScore} · 응답 턴 ${outcome.assistantTurns}개 · 도구 오류 ${outcome.toolErrors}개`;
+      output += ` · 파일 ${outcome.filesTouched.length}개 · 다음 반응: ${outcome.nextTurnReaction}`;
+      output += outcome.costUsd > 0 ? ` · $${outcome.costUsd.toFixed(4)}\n` : '\n';
+    });
+    output += '\n';
+  }
+
   // Category breakdown
   if (report.categoryBreakdown.length > 0) {
     output += '📂 카테고리별 분석\n';
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { LLMCompletionRequest } from '../llm/index.js';
+
+const requests: LLMCompletionRequest[] = [];
+
+vi.mock('../llm/index.js', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('../llm/index.js')>();
+    return {
+        ...actual,
+        // Echoes the prompt it was sent into an "improved" prompt
+        createLLMProvider: () => ({
+            id: 'anthropic',
+            model: 'claude-3-haiku-20240307',
+            complete: async (request: LLMCompletionRequest) => {
+                requests.push(request);
+                const prompt = request.messages[0].content.split('\n\n').slice(1).join('\n\n');
+                return { text: `Goal: ${prompt}\nOutput format: a shell script` };
+            },
+        }),
+    };
+});
+
+import { closeLLMCache } from '../llm/index.js';
+import { improvePrompt } from './llm-improver.js';
+
+const SECRET = 'sk-ant-REDACTED';
+const PROMPT = `deploy the api with ${SECRET}`;
+const OPTIONS = { provider: 'anthropic' as const, apiKey: 'test-key', model: 'claude-3-haiku-20240307' };
+
+describe('improvePrompt', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'pe-improver-'));
+        vi.stubEnv('PE_LLM_CACHE_PATH', join(dir, 'llm-cache.db'));
+        vi.stubEnv('PE_LLM_CACHE', '');
+        requests.length = 0;
+    });
+
+    afterEach(() => {
+        closeLLMCache();
+        vi.unstubAllEnvs();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('sends and caches redacted variants, restoring secrets only in the result', async () => {
+        const first = await improvePrompt(PROMPT, { recentTask: `rotate ${SECRET}` }, OPTIONS);
+        closeLLMCache();
+
+        expect(first!.improved).toContain(SECRET);
+        expect(requests).toHaveLength(3);
+        for (const request of requests) {
+            expect(JSON.stringify(request)).not.toContain(SECRET);
+        }
+        expect(readFileSync(join(dir, 'llm-cache.db')).includes(SECRET)).toBe(false);
+
+        // Served from the cache: restored with the placeholders of the same input
+        const second = await improvePrompt(PROMPT, { recentTask: `rotate ${SECRET}` }, OPTIONS);
+
+        expect(requests).toHaveLength(3);
+        expect(second!.improved).toBe(first!.improved);
+    });
+});
@@ -1,13 +1,24 @@
 /**
  * LLM-based Prompt Improver Module
  *
- * Claude API를 사용한 프롬프트 개선 엔진
+ * LLM 백엔드(src/llm)를 사용한 프롬프트 개선 엔진
  * - 다중 변형 생성 (temperature 0.3, 0.5, 0.7)
  * - 실제 GOLDEN 평가로 최고 점수 선택
  * - 5% → 60%+ 체감 가능한 개선
+ * - 생성된 변형은 LLM 응답 캐시에 저장 (같은 프롬프트/컨텍스트 재요청 시 재사용)
+ *   원본의 비밀값은 자리표시자로 가린 채 생성/캐시하고 캐시에서 읽은 뒤에만 복원
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import {
+  createLLMProvider,
+  resolveLLMConfig,
+  isLLMConfigured,
+  getApiKeyEnvName,
+  withLLMCache,
+  type LLMProvider,
+  type LLMProviderId,
+} from '../llm/index.js';
+import { createRedactionVault, getRedactor, redactStrings } from '../redaction/index.js';
 import { calculateGOLDENScore, type GOLDENScore } from './guidelines-evaluator.js';
 import { classifyPrompt, type PromptClassification } from './classifier.js';
 
@@ -40,18 +51,19 @@ export interface ImprovementContext {
  * LLM 개선 엔진 옵션
  */
 export interface LLMImproverOptions {
+  /** 백엔드 (기본: llm.json / PE_LLM_PROVIDER, 없으면 anthropic) */
+  provider?: LLMProviderId;
   apiKey?: string;
   model?: string;
+  baseUrl?: string;
   numVariants?: number;
   maxTokens?: number;
 }
 
-const DEFAULT_OPTIONS: Required<LLMImproverOptions> = {
-  apiKey: process.env.ANTHROPIC_API_KEY || '',
-  model: 'claude-3-haiku-20240307',
-  numVariants: 3,
-  maxTokens: 2048,
-};
+const DEFAULT_MAX_TOKENS = 2048;
+
+// 메타프롬프트/시스템 프롬프트를 바꾸면 올림 (캐시된 변형 무효화)
+const IMPROVER_TEMPLATE_VERSION = 'improve-v1';
 
 /**
  * GOLDEN 체크리스트 기반 메타프롬프트 (강화된 버전)
@@ -89,10 +101,15 @@ export async function improvePrompt(
   context?: ImprovementContext,
   options?: LLMImproverOptions
 ): Promise<ImprovedPrompt | null> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const config = resolveLLMConfig('improve', {
+    provider: options?.provider,
+    apiKey: options?.apiKey,
+    model: options?.model,
+    baseUrl: options?.baseUrl,
+  });
 
-  if (!opts.apiKey) {
-    console.error('ANTHROPIC_API_KEY가 설정되지 않았습니다.');
+  if (!isLLMConfigured(config)) {
+    console.error(`${getApiKeyEnvName(config.provider)}가 설정되지 않았습니다.`);
     return null;
   }
 
@@ -102,17 +119,32 @@ export async function improvePrompt(
     const classification = classifyPrompt(originalPrompt);
     const language = detectLanguage(originalPrompt);
 
-    // 다중 변형 생성
-    const variants = await generateVariants(
-      originalPrompt,
-      context,
-      opts,
-      language
+    // 같은 입력은 같은 자리표시자로 가려지므로 캐시된 변형도 이 금고로 복원됨
+    const vault = createRedactionVault();
+    const redactor = getRedactor();
+    const redactedPrompt = redactStrings(originalPrompt, redactor, vault);
+    const redactedContext = context && redactStrings(context, redactor, vault);
+
+    // 다중 변형 생성 (캐시 우선, 가린 변형을 저장)
+    const maxTokens = options?.maxTokens ?? DEFAULT_MAX_TOKENS;
+    const { value: redactedVariants } = await withLLMCache(
+      {
+        task: 'improve',
+        provider: config.provider,
+        model: config.model,
+        templateVersion: IMPROVER_TEMPLATE_VERSION,
+        input: JSON.stringify({ prompt: originalPrompt, context: context ?? null, maxTokens }),
+      },
+      async () => {
+        const generated = await generateVariants(redactedPrompt, redactedContext, createLLMProvider(config), maxTokens, language);
+        return generated.length > 0 ? generated : null;
+      }
     );
 
-    if (variants.length === 0) {
+    if (!redactedVariants) {
       return null;
     }
+    const variants = redactedVariants.map((variant) => ({ ...variant, text: vault.restore(variant.text) }));
 
     // 각 변형 평가 및 최고 점수 선택
     const evaluatedVariants = variants.map((variant, index) => {
@@ -161,10 +193,10 @@ export async function improvePrompt(
 async function generateVariants(
   originalPrompt: string,
   context: ImprovementContext | undefined,
-  options: Required<LLMImproverOptions>,
+  llm: LLMProvider,
+  maxTokens: number,
   language: 'ko' | 'en'
 ): Promise<Array<{ text: string; keyChanges: string[]; confidence: number }>> {
-  const client = new Anthropic({ apiKey: options.apiKey });
 
   const temperatures = [0.3, 0.5, 0.7];
   const variantNames = ['보수적', '균형', '적극적'];
@@ -180,9 +212,8 @@ async function generateVariants(
         contextHint
       );
 
-      const response = await client.messages.create({
-        model: options.model,
-        max_tokens: options.maxTokens,
+      const response = await llm.complete({
+        maxTokens,
         temperature: temp,
         system: systemPrompt,
         messages: [
@@ -193,7 +224,8 @@ async function generateVariants(
         ],
       });
 
-      const text = extractTextFromResponse(response);
+      const text = extractTextFromResponse(response.text);
+      if (!text) return null;
       const keyChanges = analyzeChanges(originalPrompt, text, language);
 
       // 신뢰도 계산 (temperature 낮을수록 높음)
@@ -269,43 +301,38 @@ function buildContextHint(
 }
 
 /**
- * Claude 응답에서 텍스트 추출 및 정리
+ * LLM 응답에서 텍스트 추출 및 정리
  * - 불필요한 도입부/설명 텍스트 제거
  * - 프롬프트 내용만 추출
  */
-function extractTextFromResponse(response: Anthropic.Message): string {
-  for (const block of response.content) {
-    if (block.type === 'text') {
-      let text = block.text.trim();
-
-      // 불필요한 도입부 패턴 제거
-      const prefixPatterns = [
-        /^(다음과 같이|아래와 같이)\s*(프롬프트를\s*)?(개선|수정|작성)했습니다[.:!]?\s*/i,
-        /^(개선된|수정된|작성된)\s*프롬프트[.:!]?\s*/i,
-        /^프롬프트(를\s*)?(개선|수정)했습니다[.:!]?\s*/i,
-        /^(Here'?s?\s*)?the\s*(improved|enhanced|revised)\s*prompt[.:!]?\s*/i,
-        /^(Improved|Enhanced|Revised)\s*prompt[.:!]?\s*/i,
-        /^---+\s*/,  // 구분선
-        /^\*\*개선된\s*프롬프트\*\*[.:!]?\s*/i,
-      ];
-
-      for (const pattern of prefixPatterns) {
-        text = text.replace(pattern, '');
-      }
+function extractTextFromResponse(responseText: string): string {
+  let text = responseText.trim();
+
+  // 불필요한 도입부 패턴 제거
+  const prefixPatterns = [
+    /^(다음과 같이|아래와 같이)\s*(프롬프트를\s*)?(개선|수정|작성)했습니다[.:!]?\s*/i,
+    /^(개선된|수정된|작성된)\s*프롬프트[.:!]?\s*/i,
+    /^프롬프트(를\s*)?(개선|수정)했습니다[.:!]?\s*/i,
+    /^(Here'?s?\s*)?the\s*(improved|enhanced|revised)\s*prompt[.:!]?\s*/i,
+    /^(Improved|Enhanced|Revised)\s*prompt[.:!]?\s*/i,
+    /^---+\s*/,  // 구분선
+    /^\*\*개선된\s*프롬프트\*\*[.:!]?\s*/i,
+  ];
 
-      // 마지막 구분선 이후만 추출 (구분선이 있는 경우)
-      const lastDivider = text.lastIndexOf('---');
-      if (lastDivider > 0 && lastDivider < text.length - 10) {
-        const afterDivider = text.slice(lastDivider + 3).trim();
-        if (afterDivider.length > 20) {
-          text = afterDivider;
-        }
-      }
+  for (const pattern of prefixPatterns) {
+    text = text.replace(pattern, '');
+  }
 
-      return text.trim();
+  // 마지막 구분선 이후만 추출 (구분선이 있는 경우)
+  const lastDivider = text.lastIndexOf('---');
+  if (lastDivider > 0 && lastDivider < text.length - 10) {
+    const afterDivider = text.slice(lastDivider + 3).trim();
+    if (afterDivider.length > 20) {
+      text = afterDivider;
     }
   }
-  return '';
+
+  return text.trim();
 }
 
 /**
@@ -384,10 +411,9 @@ export async function improvePrompts(
  */
 export async function validateApiKey(apiKey: string): Promise<boolean> {
   try {
-    const client = new Anthropic({ apiKey });
-    await client.messages.create({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 10,
+    const llm = createLLMProvider(resolveLLMConfig('improve', { apiKey, maxRetries: 0 }));
+    await llm.complete({
+      maxTokens: 10,
       messages: [{ role: 'user', content: 'test' }],
     });
     return true;
@@ -4,13 +4,23 @@
  *
  * Features:
  * - Chain-of-Thought based evaluation
- * - Caching with TTL
+ * - Persistent response cache with TTL (src/llm/cache.ts)
  * - Score merging with rule-based results
  * - Graceful fallback when LLM unavailable
  */
 
 import type { GOLDENScore } from '../shared/types/index.js';
-import crypto from 'crypto';
+import {
+  createLLMProvider,
+  resolveLLMConfig,
+  isLLMConfigured,
+  withLLMCache,
+  clearLLMCache,
+  type LLMConfig,
+  type LLMCacheKey,
+  type LLMCompletionRequest,
+  type LLMProviderId,
+} from '../llm/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -21,9 +31,11 @@ import crypto from 'crypto';
  */
 export interface LLMJudgeConfig {
   enabled: boolean;
+  provider?: LLMProviderId; // default: llm.json / PE_LLM_PROVIDER, else anthropic
   apiKey?: string;
   model?: string;
-  cacheTTL?: number; // milliseconds, default 1 hour
+  baseUrl?: string;
+  cacheTTL?: number; // milliseconds, default: llm.json cache.ttlMs (7 days)
   timeout?: number; // milliseconds, default 30 seconds
 }
 
@@ -54,66 +66,13 @@ export interface MergedEvaluationResult {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Cache Implementation
+// LLM Evaluation
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface CacheEntry {
-  result: LLMEvaluationResult;
-  timestamp: number;
-}
-
-const evaluationCache = new Map<string, CacheEntry>();
-
-/**
- * Generate a hash for cache key
- */
-function hashPrompt(prompt: string): string {
-  return crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 16);
-}
-
 /**
- * Get cached evaluation if valid
+ * Bump when GOLDEN_JUDGE_SYSTEM_PROMPT or the response parsing changes (invalidates cached results)
  */
-function getFromCache(
-  hash: string,
-  ttl: number
-): LLMEvaluationResult | null {
-  const entry = evaluationCache.get(hash);
-  if (!entry) return null;
-
-  const age = Date.now() - entry.timestamp;
-  if (age > ttl) {
-    evaluationCache.delete(hash);
-    return null;
-  }
-
-  return { ...entry.result, cached: true };
-}
-
-/**
- * Store evaluation in cache
- */
-function setCache(hash: string, result: LLMEvaluationResult): void {
-  evaluationCache.set(hash, {
-    result,
-    timestamp: Date.now(),
-  });
-
-  // Clean old entries if cache is too large (max 100 entries)
-  if (evaluationCache.size > 100) {
-    const now = Date.now();
-    const defaultTTL = 60 * 60 * 1000; // 1 hour
-    for (const [key, entry] of evaluationCache) {
-      if (now - entry.timestamp > defaultTTL) {
-        evaluationCache.delete(key);
-      }
-    }
-  }
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// LLM Evaluation
-// ─────────────────────────────────────────────────────────────────────────────
+export const JUDGE_TEMPLATE_VERSION = 'golden-judge-v1';
 
 /**
  * System prompt for GOLDEN evaluation
@@ -145,54 +104,47 @@ Respond in JSON format:
 
 Be strict but fair. Consider both explicit mentions and implicit understanding.`;
 
+/**
+ * Completion request for judging a prompt (shared by single calls and batch jobs)
+ */
+export function buildJudgeRequest(prompt: string): LLMCompletionRequest {
+  return {
+    maxTokens: 1024,
+    system: GOLDEN_JUDGE_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `Evaluate this prompt:\n\n${prompt}`,
+      },
+    ],
+    json: true,
+  };
+}
+
+/**
+ * Response cache key for a judged prompt
+ */
+export function judgeCacheKey(prompt: string, llmConfig: LLMConfig): LLMCacheKey {
+  return {
+    task: 'judge',
+    provider: llmConfig.provider,
+    model: llmConfig.model,
+    templateVersion: JUDGE_TEMPLATE_VERSION,
+    input: prompt,
+  };
+}
+
 /**
  * Call LLM for GOLDEN evaluation
  */
 async function callLLMForEvaluation(
   prompt: string,
-  config: LLMJudgeConfig
+  llmConfig: LLMConfig
 ): Promise<LLMEvaluationResult | null> {
-  if (!config.apiKey) {
-    return null;
-  }
-
-  const model = config.model || 'claude-3-haiku-20240307';
-  const timeout = config.timeout || 30000;
-
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: 1024,
-        system: GOLDEN_JUDGE_SYSTEM_PROMPT,
-        messages: [
-          {
-            role: 'user',
-            content: `Evaluate this prompt:\n\n${prompt}`,
-          },
-        ],
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      console.warn(`[LLM Judge] API error: ${response.status}`);
-      return null;
-    }
+    const response = await createLLMProvider(llmConfig).complete(buildJudgeRequest(prompt));
 
-    const data = await response.json() as { content?: Array<{ text?: string }> };
-    const content = data.content?.[0]?.text;
+    const content = response.text;
 
     if (!content) {
       console.warn('[LLM Judge] Empty response');
@@ -208,11 +160,8 @@ async function callLLMForEvaluation(
 
     return parsed;
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      console.warn('[LLM Judge] Request timed out');
-    } else {
-      console.warn('[LLM Judge] Request failed:', error);
-    }
+    // Timeouts and retries are handled by the LLM client
+    console.warn('[LLM Judge] Request failed:', error instanceof Error ? error.message : error);
     return null;
   }
 }
@@ -220,7 +169,7 @@ async function callLLMForEvaluation(
 /**
  * Parse LLM evaluation response
  */
-function parseEvaluationResponse(content: string): LLMEvaluationResult | null {
+export function parseEvaluationResponse(content: string): LLMEvaluationResult | null {
   try {
     // Extract JSON from response (may have markdown wrapper)
     const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -283,6 +232,19 @@ function clampScore(value: unknown): number {
 // Public API
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Resolve the LLM backend for the judge (config/env, then per-call overrides)
+ */
+export function resolveJudgeConfig(config: LLMJudgeConfig): LLMConfig {
+  return resolveLLMConfig('judge', {
+    provider: config.provider,
+    apiKey: config.apiKey,
+    model: config.model,
+    baseUrl: config.baseUrl,
+    timeoutMs: config.timeout,
+  });
+}
+
 /**
  * Evaluate prompt with LLM (with caching)
  */
@@ -290,26 +252,19 @@ export async function evaluateWithLLM(
   prompt: string,
   config: LLMJudgeConfig
 ): Promise<LLMEvaluationResult | null> {
-  if (!config.enabled || !config.apiKey) {
+  const llmConfig = resolveJudgeConfig(config);
+  if (!config.enabled || !isLLMConfigured(llmConfig)) {
     return null;
   }
 
-  const hash = hashPrompt(prompt);
-  const ttl = config.cacheTTL || 60 * 60 * 1000; // 1 hour default
-
-  // Check cache first
-  const cached = getFromCache(hash, ttl);
-  if (cached) {
-    return cached;
-  }
-
-  // Call LLM
-  const result = await callLLMForEvaluation(prompt, config);
-  if (result) {
-    setCache(hash, result);
-  }
+  // Scores differ between models, so provider and model are part of the cache key
+  const { value, cached } = await withLLMCache(
+    judgeCacheKey(prompt, llmConfig),
+    () => callLLMForEvaluation(prompt, llmConfig),
+    config.cacheTTL
+  );
 
-  return result;
+  return value && { ...value, cached };
 }
 
 /**
@@ -377,7 +332,7 @@ export async function evaluateWithHybrid(
   config: LLMJudgeConfig
 ): Promise<MergedEvaluationResult> {
   // If LLM is not enabled or available, return rule-based result
-  if (!config.enabled || !config.apiKey) {
+  if (!config.enabled || !isLLMConfigured(resolveJudgeConfig(config))) {
     return {
       scores: ruleBasedResult,
       source: 'rule-based',
@@ -403,24 +358,13 @@ export async function evaluateWithHybrid(
 }
 
 /**
- * Clear evaluation cache
+ * Clear cached judge evaluations
  */
 export function clearEvaluationCache(): void {
-  evaluationCache.clear();
+  clearLLMCache('judge');
 }
 
 /**
- * Get cache statistics
+ * Cache statistics (all LLM tasks; judge entries are in byTask.judge)
  */
-export function getCacheStats(): { size: number; oldestEntry: number | null } {
-  let oldest: number | null = null;
-  for (const entry of evaluationCache.values()) {
-    if (oldest === null || entry.timestamp < oldest) {
-      oldest = entry.timestamp;
-    }
-  }
-  return {
-    size: evaluationCache.size,
-    oldestEntry: oldest,
-  };
-}
+export { getCacheStats } from '../llm/index.js';
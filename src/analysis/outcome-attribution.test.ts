@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+    attributePromptOutcomes,
+    reactionFromSignals,
+    calculateFrictionScore,
+} from './outcome-attribution.js';
+import { detectConversationSignals, type TurnForAnalysis } from './signal-detector.js';
+import { generateInsights, formatReport } from './insights.js';
+
+function turn(id: string, role: 'user' | 'assistant', content: string, extra: Partial<TurnForAnalysis> = {}): TurnForAnalysis {
+    return { id, role, content, turnIndex: 0, ...extra };
+}
+
+function conversation(turns: TurnForAnalysis[]): TurnForAnalysis[] {
+    return turns.map((t, i) => ({ ...t, turnIndex: i }));
+}
+
+describe('outcome-attribution', () => {
+    describe('reactionFromSignals', () => {
+        it('prefers retry over negative over completion over positive', () => {
+            expect(reactionFromSignals(['positive_feedback', 'retry_attempt'])).toBe('retry');
+            expect(reactionFromSignals(['negative_feedback', 'task_completion'])).toBe('negative');
+            expect(reactionFromSignals(['positive_feedback', 'task_completion'])).toBe('completion');
+            expect(reactionFromSignals(['question'])).toBe('neutral');
+            expect(reactionFromSignals(undefined)).toBe('neutral');
+        });
+    });
+
+    describe('calculateFrictionScore', () => {
+        it('adds extra assistant turns, tool errors and a retry penalty', () => {
+            expect(calculateFrictionScore({ assistantTurns: 1, toolErrors: 0, nextTurnReaction: 'positive' })).toBe(0);
+            expect(calculateFrictionScore({ assistantTurns: 3, toolErrors: 2, nextTurnReaction: 'retry' })).toBe(2 + 4 + 5);
+            expect(calculateFrictionScore({ assistantTurns: 0, toolErrors: 0, nextTurnReaction: 'none' })).toBe(0);
+        });
+    });
+
+    describe('attributePromptOutcomes', () => {
+        it('collects what happened between each prompt and the next user turn', () => {
+            const turns = conversation([
+                turn('u1', 'user', 'Fix the failing build in src/build.ts', { timestamp: '2026-03-01T09:00:00Z' }),
+                turn('a1', 'assistant', 'Looking.', {
+                    timestamp: '2026-03-01T09:00:10Z',
+                    outputTokens: 100,
+                    costUsd: 0.01,
+                    toolCalls: [
+                        { name: 'Bash', isError: true },
+                        { name: 'Edit', isError: false, target: 'src/build.ts' },
+                    ],
+                }),
+                turn('a2', 'assistant', 'Done.', {
+                    timestamp: '2026-03-01T09:01:00Z',
+                    outputTokens: 50,
+                    costUsd: 0.02,
+                    toolCalls: [
+                        { name: 'Edit', isError: true, target: 'src/build.ts' },
+                        { name: 'Write', isError: false, target: 'src/config.ts' },
+                    ],
+                }),
+                turn('u2', 'user', 'try again, that is wrong', { timestamp: '2026-03-01T09:02:00Z' }),
+                turn('a3', 'assistant', 'Fixed.', { timestamp: '2026-03-01T09:03:00Z' }),
+                turn('u3', 'user', 'perfect, that works. thanks!', { timestamp: '2026-03-01T09:05:00Z' }),
+            ]);
+            const signals = detectConversationSignals('conv-1', turns).signals;
+
+            const [first, second, last] = attributePromptOutcomes(turns, signals);
+
+            expect(first).toMatchObject({
+                turnId: 'u1',
+                nextTurnId: 'u2',
+                assistantTurns: 2,
+                toolCalls: 4,
+                toolErrors: 2,
+                filesTouched: ['src/build.ts', 'src/config.ts'],
+                nextTurnReaction: 'retry',
+                durationMs: 60_000,
+                outputTokens: 150,
+                frictionScore: 1 + 4 + 5,
+            });
+            expect(first.costUsd).toBeCloseTo(0.03);
+
+            expect(second).toMatchObject({ turnId: 'u2', nextTurnId: 'u3', assistantTurns: 1, frictionScore: 0 });
+            expect(second.nextTurnReaction).not.toBe('retry');
+
+            expect(last).toMatchObject({
+                turnId: 'u3',
+                nextTurnId: null,
+                assistantTurns: 0,
+                nextTurnReaction: 'none',
+                durationMs: null,
+            });
+        });
+
+        it('measures time to the first later completion signal', () => {
+            const turns = conversation([
+                turn('u1', 'user', 'Add a login form', { timestamp: '2026-03-01T09:00:00Z' }),
+                turn('a1', 'assistant', 'Added.', { timestamp: '2026-03-01T09:01:00Z' }),
+                turn('u2', 'user', 'Now add validation', { timestamp: '2026-03-01T09:02:00Z' }),
+                turn('a2', 'assistant', 'Added.', { timestamp: '2026-03-01T09:03:00Z' }),
+                turn('u3', 'user', 'Done, that completes the task', { timestamp: '2026-03-01T09:10:00Z' }),
+            ]);
+            const signals = [
+                { type: 'task_completion' as const, turnId: 'u3', turnIndex: 4, keywords: [], confidence: 1 },
+            ];
+
+            const outcomes = attributePromptOutcomes(turns, signals);
+
+            expect(outcomes.map((o) => o.timeToCompletionMs)).toEqual([600_000, 480_000, null]);
+            expect(outcomes[1].nextTurnReaction).toBe('completion');
+            expect(outcomes[0].nextTurnReaction).toBe('neutral');
+        });
+
+        it('ignores abandoned and sidechain turns', () => {
+            const turns = conversation([
+                turn('u1', 'user', 'Refactor the parser'),
+                turn('x1', 'user', 'old version of the prompt', { branchType: 'abandoned' }),
+                turn('s1', 'assistant', 'sub-agent work', {
+                    branchType: 'sidechain',
+                    toolCalls: [{ name: 'Bash', isError: true }],
+                }),
+                turn('a1', 'assistant', 'Refactored.'),
+            ]);
+
+            const outcomes = attributePromptOutcomes(turns, []);
+
+            expect(outcomes).toHaveLength(1);
+            expect(outcomes[0]).toMatchObject({ turnId: 'u1', assistantTurns: 1, toolErrors: 0, nextTurnReaction: 'none' });
+        });
+    });
+
+    describe('generateInsights', () => {
+        it('lists the prompts with the worst downstream cost', () => {
+            const outcome = (frictionScore: number, costUsd: number) => ({
+                assistantTurns: 1,
+                toolCalls: 0,
+                toolErrors: 0,
+                filesTouched: [],
+                nextTurnReaction: 'neutral' as const,
+                durationMs: null,
+                timeToCompletionMs: null,
+                outputTokens: 0,
+                costUsd,
+                frictionScore,
+            });
+            const report = generateInsights(
+                [
+                    { content: 'Explain the auth flow', conversationId: 'c1', outcome: outcome(0, 0.5) },
+                    { content: 'Fix the build', conversationId: 'c1', outcome: outcome(7, 0.1) },
+                    { content: 'Make it faster', conversationId: 'c2', outcome: outcome(7, 0.3) },
+                    { content: 'Add a test', conversationId: 'c2' },
+                ],
+                { includeLibrary: false, includeGuidelines: false, includeSelfImprovement: false }
+            );
+
+            expect(report.costliestPrompts?.map((p) => p.content)).toEqual(['Make it faster', 'Fix the build']);
+            expect(formatReport(report)).toContain('하류 비용이 가장 큰 프롬프트');
+
+            expect(generateInsights([{ content: 'Add a test', conversationId: 'c2' }]).costliestPrompts).toBeUndefined();
+        });
+    });
+});
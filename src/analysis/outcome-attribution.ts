@@ -0,0 +1,142 @@
+/**
+ * Prompt Outcome Attribution
+ * 각 사용자 프롬프트(메인 경로)에 그 다음에 일어난 일을 연결
+ *
+ * 프롬프트 ~ 다음 사용자 턴 사이의 어시스턴트 턴/도구 호출/수정 파일/토큰·비용과
+ * 다음 사용자 턴의 반응(재시도, 부정 피드백 등)을 모아 "하류 비용"(friction)을 계산
+ */
+
+import { isMainPathTurn, type TurnForAnalysis, type DetectedSignal } from './signal-detector.js';
+import { EDIT_TOOL_NAMES } from '../shared/constants.js';
+import { PROMPT_OUTCOME_FRICTION } from '../shared/config/index.js';
+
+/**
+ * 다음 사용자 턴의 반응 (우선순위: retry > negative > completion > positive)
+ * - neutral: 다음 턴은 있지만 결과 신호가 없음
+ * - none: 대화의 마지막 프롬프트
+ */
+export const PROMPT_REACTIONS = ['retry', 'negative', 'completion', 'positive', 'neutral', 'none'] as const;
+export type PromptReaction = typeof PROMPT_REACTIONS[number];
+
+/**
+ * 프롬프트 하나의 하류 결과
+ */
+export interface PromptOutcome {
+  turnId: string;
+  turnIndex: number;
+  /** 다음 메인 경로 사용자 턴 (없으면 null) */
+  nextTurnId: string | null;
+  /** 다음 사용자 턴까지의 어시스턴트 턴 수 */
+  assistantTurns: number;
+  toolCalls: number;
+  toolErrors: number;
+  /** 수정 도구가 건드린 파일 (중복 제거, 처음 등장 순) */
+  filesTouched: string[];
+  nextTurnReaction: PromptReaction;
+  /** 프롬프트 ~ 마지막 응답 턴 시간 (타임스탬프가 없으면 null) */
+  durationMs: number | null;
+  /** 프롬프트 ~ 이후 첫 완료 신호 턴 시간 (완료 신호가 없으면 null) */
+  timeToCompletionMs: number | null;
+  outputTokens: number;
+  costUsd: number;
+  frictionScore: number;
+}
+
+/**
+ * 저장/인사이트용 결과 지표 (턴 식별자 제외)
+ */
+export type PromptOutcomeMetrics = Omit<PromptOutcome, 'turnId' | 'turnIndex' | 'nextTurnId'>;
+
+const REACTION_SIGNALS: Array<[PromptReaction, DetectedSignal['type']]> = [
+  ['retry', 'retry_attempt'],
+  ['negative', 'negative_feedback'],
+  ['completion', 'task_completion'],
+  ['positive', 'positive_feedback'],
+];
+
+const EDIT_TOOLS = new Set<string>(EDIT_TOOL_NAMES);
+
+function elapsedMs(from?: string, to?: string): number | null {
+  if (!from || !to) return null;
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isFinite(ms) && ms >= 0 ? ms : null;
+}
+
+/**
+ * 다음 사용자 턴의 신호 → 반응
+ */
+export function reactionFromSignals(types: Iterable<string> | undefined): PromptReaction {
+  if (!types) return 'neutral';
+  const set = new Set(types);
+  return REACTION_SIGNALS.find(([, type]) => set.has(type))?.[0] ?? 'neutral';
+}
+
+/**
+ * 하류 비용 점수 (추가 어시스턴트 턴 + 도구 오류 + 재시도/부정 반응)
+ */
+export function calculateFrictionScore(
+  outcome: Pick<PromptOutcome, 'assistantTurns' | 'toolErrors' | 'nextTurnReaction'>
+): number {
+  const retried = outcome.nextTurnReaction === 'retry' || outcome.nextTurnReaction === 'negative';
+  return (
+    Math.max(0, outcome.assistantTurns - 1) * PROMPT_OUTCOME_FRICTION.EXTRA_ASSISTANT_TURN +
+    outcome.toolErrors * PROMPT_OUTCOME_FRICTION.TOOL_ERROR +
+    (retried ? PROMPT_OUTCOME_FRICTION.RETRY_OR_NEGATIVE : 0)
+  );
+}
+
+/**
+ * 메인 경로 사용자 턴마다 다음 사용자 턴까지의 결과 계산
+ * (되감긴 턴/서브에이전트 턴은 제외, turns 는 turn_index 순)
+ */
+export function attributePromptOutcomes(turns: TurnForAnalysis[], signals: DetectedSignal[]): PromptOutcome[] {
+  const mainTurns = turns.filter(isMainPathTurn);
+
+  const signalsByTurn = new Map<string, Set<string>>();
+  for (const signal of signals) {
+    const types = signalsByTurn.get(signal.turnId) ?? new Set<string>();
+    types.add(signal.type);
+    signalsByTurn.set(signal.turnId, types);
+  }
+
+  const userIndexes = mainTurns.flatMap((t, i) => (t.role === 'user' ? [i] : []));
+  const outcomes: PromptOutcome[] = [];
+
+  userIndexes.forEach((start, k) => {
+    const prompt = mainTurns[start];
+    const end = k + 1 < userIndexes.length ? userIndexes[k + 1] : mainTurns.length;
+    const segment = mainTurns.slice(start + 1, end);
+    const next = end < mainTurns.length ? mainTurns[end] : undefined;
+
+    const calls = segment.flatMap((t) => t.toolCalls ?? []);
+    const files: string[] = [];
+    for (const call of calls) {
+      if (EDIT_TOOLS.has(call.name) && call.target && !files.includes(call.target)) files.push(call.target);
+    }
+
+    const completion = userIndexes
+      .slice(k + 1)
+      .map((i) => mainTurns[i])
+      .find((t) => signalsByTurn.get(t.id)?.has('task_completion'));
+
+    const outcome: PromptOutcome = {
+      turnId: prompt.id,
+      turnIndex: prompt.turnIndex,
+      nextTurnId: next?.id ?? null,
+      assistantTurns: segment.filter((t) => t.role === 'assistant').length,
+      toolCalls: calls.length,
+      toolErrors: calls.filter((c) => c.isError).length,
+      filesTouched: files,
+      nextTurnReaction: next ? reactionFromSignals(signalsByTurn.get(next.id)) : 'none',
+      durationMs: segment.length > 0 ? elapsedMs(prompt.timestamp, segment[segment.length - 1].timestamp) : null,
+      timeToCompletionMs: completion ? elapsedMs(prompt.timestamp, completion.timestamp) : null,
+      outputTokens: segment.reduce((sum, t) => sum + (t.outputTokens ?? 0), 0),
+      costUsd: segment.reduce((sum, t) => sum + (t.costUsd ?? 0), 0),
+      frictionScore: 0,
+    };
+    outcome.frictionScore = calculateFrictionScore(outcome);
+    outcomes.push(outcome);
+  });
+
+  return outcomes;
+}
@@ -140,7 +140,10 @@ export type SignalType =
   | 'task_completion'
   | 'question'
   | 'command'
-  | 'context_providing';
+  | 'context_providing'
+  // Structural signals (derived from conversation shape, not keywords)
+  | 'prompt_edited'
+  | 'tool_error_loop';
 
 /**
  * Get all keywords for a signal pattern type
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseComparisonSpec,
+    comparisonWindowsFromRange,
+    comparePeriods,
+} from './period-comparison.js';
+import type { PromptData } from './insights.js';
+import { welchTTest } from './utils/statistics.js';
+
+const NOW = new Date('2026-03-15T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function prompt(content: string, daysAgo: number, effectiveness: number, extra: Partial<PromptData> = {}): PromptData {
+    return {
+        content,
+        conversationId: `conv-${daysAgo}`,
+        timestamp: new Date(NOW.getTime() - daysAgo * DAY),
+        effectiveness,
+        ...extra,
+    };
+}
+
+describe('period-comparison', () => {
+    describe('windows', () => {
+        it('parses "<N>d:prev" into two adjacent windows', () => {
+            const windows = parseComparisonSpec('7d:prev', NOW)!;
+
+            expect(windows.current.label).toBe('최근 7일');
+            expect(windows.current.end).toEqual(NOW);
+            expect(windows.previous.end).toEqual(windows.current.start);
+            expect(windows.current.start.getTime() - windows.previous.start.getTime()).toBe(7 * DAY);
+            expect(parseComparisonSpec('2w:prev', NOW)!.previous.label).toBe('이전 2주');
+            expect(parseComparisonSpec('7d', NOW)).toBeNull();
+            expect(parseComparisonSpec('0d:prev', NOW)).toBeNull();
+        });
+
+        it('builds windows from an inclusive --from/--to range', () => {
+            const windows = comparisonWindowsFromRange('2026-03-08', '2026-03-14', NOW)!;
+
+            expect(windows.current.start).toEqual(new Date('2026-03-08T00:00:00Z'));
+            expect(windows.current.end).toEqual(new Date('2026-03-15T00:00:00Z'));
+            expect(windows.previous.start).toEqual(new Date('2026-03-01T00:00:00Z'));
+            expect(windows.current.label).toBe('2026-03-08 ~ 2026-03-14');
+            expect(windows.previous.label).toBe('2026-03-01 ~ 2026-03-07');
+            expect(comparisonWindowsFromRange('2026-03-14', '2026-03-01', NOW)).toBeNull();
+            expect(comparisonWindowsFromRange('not-a-date', undefined, NOW)).toBeNull();
+        });
+    });
+
+    describe('comparePeriods', () => {
+        const vague = ['fix it', 'make it work', 'do that again', 'update this', 'change it', 'fix that thing'];
+        const specific = [
+            'Fix the null check in src/auth/login.ts so tests/auth.test.ts passes. Return only a unified diff.',
+            'Add input validation to src/api/users.ts: reject empty emails with a 400 and add a unit test.',
+            'Refactor src/db/query.ts to use prepared statements; keep the public API unchanged and run npm test.',
+            'Write unit tests for src/utils/date.ts covering leap years and invalid input, using vitest.',
+            'Explain why src/server.ts leaks sockets on shutdown and propose a fix as a bullet list.',
+            'Rename getUser to fetchUser across src/ and update the imports; output the changed files list.',
+        ];
+
+        it('flags significant improvements between the windows', () => {
+            const prompts = [
+                ...vague.map((c, i) => prompt(c, 8 + i * 0.5, 0.3 + i * 0.01)),
+                ...specific.map((c, i) => prompt(c, 1 + i * 0.5, 0.85 + i * 0.01)),
+            ];
+            const comparison = comparePeriods(prompts, parseComparisonSpec('7d:prev', NOW)!);
+
+            expect(comparison.previous.report.summary.totalPrompts).toBe(6);
+            expect(comparison.current.report.summary.totalPrompts).toBe(6);
+
+            const effectiveness = comparison.changes.find((c) => c.key === 'effectiveness')!;
+            expect(effectiveness.direction).toBe('up');
+            expect(effectiveness.significant).toBe(true);
+            expect(effectiveness.assessment).toBe('improved');
+            expect(effectiveness.samples).toEqual({ previous: 6, current: 6 });
+
+            const goldenTotal = comparison.changes.find((c) => c.key === 'golden.total')!;
+            expect(goldenTotal.delta).toBeGreaterThan(0);
+            expect(comparison.changes.filter((c) => c.group === 'golden')).toHaveLength(7);
+
+            // Category mix has no polarity
+            for (const change of comparison.changes.filter((c) => c.group === 'category')) {
+                expect(change.assessment).toBe('neutral');
+            }
+        });
+
+        it('corrects p-values for the number of metrics tested', () => {
+            const previous = vague.map((_, i) => 0.3 + i * 0.05);
+            const current = specific.map((_, i) => 0.36 + i * 0.05);
+            const prompts = [
+                ...vague.map((c, i) => prompt(c, 8 + i * 0.5, previous[i])),
+                ...specific.map((c, i) => prompt(c, 1 + i * 0.5, current[i])),
+            ];
+            const comparison = comparePeriods(prompts, parseComparisonSpec('7d:prev', NOW)!);
+
+            const raw = welchTTest(previous, current).pValue!;
+            const effectiveness = comparison.changes.find((c) => c.key === 'effectiveness')!;
+            expect(effectiveness.pValue).toBeGreaterThanOrEqual(raw);
+            expect(effectiveness.pValue).toBeLessThanOrEqual(raw * comparison.changes.length);
+            for (const change of comparison.changes) {
+                expect(change.significant).toBe(change.pValue! < 0.05 && change.direction !== 'flat');
+            }
+        });
+
+        it('marks regressions on lower-is-better metrics', () => {
+            const outcome = (frictionScore: number, retry: boolean) => ({
+                assistantTurns: 1,
+                toolCalls: 0,
+                toolErrors: 0,
+                filesTouched: [],
+                nextTurnReaction: retry ? ('retry' as const) : ('positive' as const),
+                durationMs: null,
+                timeToCompletionMs: null,
+                outputTokens: 0,
+                costUsd: 0,
+                frictionScore,
+            });
+            const prompts = [
+                ...specific.map((c, i) => prompt(c, 8 + i * 0.5, 0.7, { outcome: outcome(i % 2, false) })),
+                ...specific.map((c, i) => prompt(c, 1 + i * 0.5, 0.7, { outcome: outcome(9 + (i % 2), true) })),
+            ];
+            const comparison = comparePeriods(prompts, parseComparisonSpec('7d:prev', NOW)!);
+
+            const friction = comparison.changes.find((c) => c.key === 'friction')!;
+            expect(friction.assessment).toBe('regressed');
+            const retryRate = comparison.changes.find((c) => c.key === 'retryRate')!;
+            expect(retryRate.previous).toBe(0);
+            expect(retryRate.current).toBe(1);
+            expect(retryRate.relativeChange).toBeNull();
+            expect(retryRate.assessment).toBe('regressed');
+            expect(comparison.changes.find((c) => c.key === 'effectiveness')!.direction).toBe('flat');
+        });
+
+        it('does not test windows with too few prompts', () => {
+            const prompts = [prompt('fix it', 9, 0.2), prompt(specific[0], 1, 0.9)];
+            const comparison = comparePeriods(prompts, parseComparisonSpec('7d:prev', NOW)!);
+
+            expect(comparison.changes.every((c) => c.pValue === null && !c.significant)).toBe(true);
+            expect(comparison.changes.find((c) => c.key === 'effectiveness')!.delta).toBeCloseTo(0.7);
+        });
+    });
+});
@@ -0,0 +1,389 @@
+/**
+ * Period-over-period Comparison
+ * 두 기간(현재 vs 이전)의 인사이트 리포트를 만들고 지표별 변화를 비교
+ *
+ * - 평균 지표 (효과성, 품질, GOLDEN 차원, friction): Welch t-검정
+ * - 비율 지표 (안티패턴 빈도, 카테고리 구성, 재시도/부정 반응률): 두 비율 z-검정
+ * - 지표를 한꺼번에 검정하므로 p-value 는 Benjamini–Hochberg 로 보정 (거짓 발견율 제어)
+ */
+
+import { classifyPrompt, getCategoryLabel, type TaskCategory } from './classifier.js';
+import { calculatePromptQuality } from './scorer.js';
+import { calculateGOLDENScore, detectAntiPatterns } from './guidelines-evaluator.js';
+import { generateInsights, type InsightsReport, type PromptData } from './insights.js';
+import { mean, welchTTest, twoProportionZTest, benjaminiHochberg } from './utils/statistics.js';
+import { PERIOD_COMPARISON } from '../shared/config/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30 };
+const UNIT_LABELS: Record<string, string> = { d: '일', w: '주', m: '개월' };
+
+const GOLDEN_DIMENSIONS = [
+  ['goal', 'G - 목표 명확성'],
+  ['output', 'O - 출력 형식'],
+  ['limits', 'L - 제약조건'],
+  ['data', 'D - 데이터/컨텍스트'],
+  ['evaluation', 'E - 평가 기준'],
+  ['next', 'N - 다음 단계'],
+  ['total', 'GOLDEN 종합'],
+] as const;
+
+/**
+ * 비교 기간 [start, end)
+ */
+export interface ComparisonWindow {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export interface ComparisonWindows {
+  current: ComparisonWindow;
+  previous: ComparisonWindow;
+}
+
+export type ComparisonMetricGroup = 'summary' | 'golden' | 'antiPattern' | 'category';
+
+/**
+ * 지표 하나의 기간 간 변화
+ */
+export interface MetricChange {
+  /** 예: effectiveness, golden.goal, antiPattern.모호한 목표, category.bug-fix */
+  key: string;
+  group: ComparisonMetricGroup;
+  label: string;
+  kind: 'mean' | 'proportion';
+  previous: number;
+  current: number;
+  delta: number;
+  /** 이전 값 대비 변화율 (이전 값이 0 이면 null) */
+  relativeChange: number | null;
+  /** 전체 지표에 대해 Benjamini–Hochberg 보정한 p-value (표본이 부족하면 null) */
+  pValue: number | null;
+  significant: boolean;
+  direction: 'up' | 'down' | 'flat';
+  /** 유의한 변화의 좋고 나쁨 (극성이 없는 지표이거나 유의하지 않으면 neutral) */
+  assessment: 'improved' | 'regressed' | 'neutral';
+  samples: { previous: number; current: number };
+}
+
+export interface PeriodComparison {
+  generatedAt: Date;
+  current: { window: ComparisonWindow; report: InsightsReport };
+  previous: { window: ComparisonWindow; report: InsightsReport };
+  changes: MetricChange[];
+}
+
+export interface ComparePeriodsOptions {
+  category?: TaskCategory;
+  significanceLevel?: number;
+  minSamples?: number;
+}
+
+/**
+ * `<N><d|w|m>:prev` → 최근 N 기간과 바로 앞의 같은 길이 기간 (null: 형식 오류)
+ */
+export function parseComparisonSpec(spec: string, now: Date = new Date()): ComparisonWindows | null {
+  const match = spec.trim().match(/^(\d+)([dwm]):prev$/);
+  if (!match) return null;
+
+  const value = parseInt(match[1], 10);
+  if (value <= 0) return null;
+  const lengthMs = value * UNIT_DAYS[match[2]] * DAY_MS;
+  const unit = `${value}${UNIT_LABELS[match[2]]}`;
+
+  return {
+    current: { label: `최근 ${unit}`, start: new Date(now.getTime() - lengthMs), end: now },
+    previous: {
+      label: `이전 ${unit}`,
+      start: new Date(now.getTime() - 2 * lengthMs),
+      end: new Date(now.getTime() - lengthMs),
+    },
+  };
+}
+
+/**
+ * `--from/--to` 범위를 현재 기간으로, 바로 앞의 같은 길이를 이전 기간으로 (null: 날짜 오류)
+ * 날짜만 준 `to` 는 그 날을 포함
+ */
+export function comparisonWindowsFromRange(
+  from: string,
+  to?: string,
+  now: Date = new Date()
+): ComparisonWindows | null {
+  const start = new Date(from);
+  let end = to ? new Date(to) : now;
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return null;
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) end = new Date(end.getTime() + DAY_MS);
+  if (end <= start) return null;
+
+  const lengthMs = end.getTime() - start.getTime();
+  const previousStart = new Date(start.getTime() - lengthMs);
+
+  return {
+    current: { label: `${formatDay(start)} ~ ${formatDay(new Date(end.getTime() - 1))}`, start, end },
+    previous: {
+      label: `${formatDay(previousStart)} ~ ${formatDay(new Date(start.getTime() - 1))}`,
+      start: previousStart,
+      end: start,
+    },
+  };
+}
+
+/**
+ * 두 기간의 리포트를 만들고 모든 지표의 변화를 계산
+ * 타임스탬프가 없는 프롬프트는 어느 기간에도 넣지 않음
+ */
+export function comparePeriods(
+  prompts: PromptData[],
+  windows: ComparisonWindows,
+  options: ComparePeriodsOptions = {}
+): PeriodComparison {
+  const {
+    category,
+    significanceLevel = PERIOD_COMPARISON.SIGNIFICANCE_LEVEL,
+    minSamples = PERIOD_COMPARISON.MIN_SAMPLES,
+  } = options;
+
+  const inWindow = (w: ComparisonWindow) =>
+    prompts.filter((p) => p.timestamp && p.timestamp >= w.start && p.timestamp < w.end);
+  const currentPrompts = inWindow(windows.current);
+  const previousPrompts = inWindow(windows.previous);
+
+  const reportFor = (windowPrompts: PromptData[]) =>
+    generateInsights(windowPrompts, {
+      period: 'all',
+      category,
+      includeLibrary: false,
+      includeSelfImprovement: false,
+    });
+
+  const current = measure(currentPrompts, category);
+  const previous = measure(previousPrompts, category);
+  const tested = previous.count >= minSamples && current.count >= minSamples;
+
+  // 보정은 모든 검정이 끝난 뒤라서 p-value 를 받아 변화를 만드는 함수로 모아 둔다
+  const tests: Array<{ pValue: number | null; build: (adjusted: number | null) => MetricChange }> = [];
+  const addMean = (
+    key: string,
+    group: ComparisonMetricGroup,
+    label: string,
+    a: number[],
+    b: number[],
+    higherIsBetter: boolean
+  ) => {
+    tests.push({
+      pValue: tested ? welchTTest(a, b).pValue : null,
+      build: (pValue) =>
+        buildChange(key, group, label, 'mean', mean(a), mean(b), pValue, significanceLevel, higherIsBetter, {
+          previous: a.length,
+          current: b.length,
+        }),
+    });
+  };
+  const addProportion = (
+    key: string,
+    group: ComparisonMetricGroup,
+    label: string,
+    [xa, na]: [number, number],
+    [xb, nb]: [number, number],
+    higherIsBetter: boolean | null
+  ) => {
+    tests.push({
+      pValue: tested ? twoProportionZTest(xa, na, xb, nb).pValue : null,
+      build: (pValue) =>
+        buildChange(
+          key,
+          group,
+          label,
+          'proportion',
+          na === 0 ? 0 : xa / na,
+          nb === 0 ? 0 : xb / nb,
+          pValue,
+          significanceLevel,
+          higherIsBetter,
+          { previous: na, current: nb }
+        ),
+    });
+  };
+
+  // 요약 지표
+  addMean('effectiveness', 'summary', '효과성', previous.effectiveness, current.effectiveness, true);
+  addMean('quality', 'summary', '프롬프트 품질', previous.quality, current.quality, true);
+  if (previous.friction.length > 0 || current.friction.length > 0) {
+    addMean('friction', 'summary', 'friction 점수', previous.friction, current.friction, false);
+    addProportion(
+      'retryRate',
+      'summary',
+      '재시도/부정 반응 비율',
+      [previous.retries, previous.friction.length],
+      [current.retries, current.friction.length],
+      false
+    );
+  }
+
+  // GOLDEN 차원별 평균
+  for (const [dimension, label] of GOLDEN_DIMENSIONS) {
+    addMean(
+      `golden.${dimension}`,
+      'golden',
+      label,
+      previous.golden.map((g) => g[dimension]),
+      current.golden.map((g) => g[dimension]),
+      true
+    );
+  }
+
+  // 안티패턴 빈도 (프롬프트 중 해당 패턴이 있는 비율)
+  for (const pattern of unionKeys(previous.antiPatterns, current.antiPatterns)) {
+    addProportion(
+      `antiPattern.${pattern}`,
+      'antiPattern',
+      pattern,
+      [previous.antiPatterns.get(pattern) ?? 0, previous.count],
+      [current.antiPatterns.get(pattern) ?? 0, current.count],
+      false
+    );
+  }
+
+  // 카테고리 구성 (극성 없음)
+  for (const cat of unionKeys(previous.categories, current.categories)) {
+    addProportion(
+      `category.${cat}`,
+      'category',
+      getCategoryLabel(cat),
+      [previous.categories.get(cat) ?? 0, previous.count],
+      [current.categories.get(cat) ?? 0, current.count],
+      null
+    );
+  }
+
+  const adjusted = benjaminiHochberg(tests.map((t) => t.pValue));
+  const changes = tests.map((t, i) => t.build(adjusted[i]));
+
+  return {
+    generatedAt: new Date(),
+    current: { window: windows.current, report: reportFor(currentPrompts) },
+    previous: { window: windows.previous, report: reportFor(previousPrompts) },
+    changes,
+  };
+}
+
+/**
+ * 리포트에 보여줄 변화: 요약/GOLDEN 지표 전부 + 유의한 안티패턴/카테고리 변화
+ */
+export function getHighlightedChanges(changes: MetricChange[]): MetricChange[] {
+  return changes.filter((c) => c.group === 'summary' || c.group === 'golden' || c.significant);
+}
+
+/**
+ * 표시용 값 (friction 은 점수, 나머지는 0–1 → %)
+ */
+export function formatMetricValue(change: Pick<MetricChange, 'key'>, value: number): string {
+  return change.key === 'friction' ? value.toFixed(2) : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * 표시용 변화량 (% 지표는 %p)
+ */
+export function formatMetricDelta(change: Pick<MetricChange, 'key' | 'delta'>): string {
+  const sign = change.delta > 0 ? '+' : change.delta < 0 ? '−' : '±';
+  const magnitude = Math.abs(change.delta);
+  return change.key === 'friction'
+    ? `${sign}${magnitude.toFixed(2)}`
+    : `${sign}${(magnitude * 100).toFixed(1)}%p`;
+}
+
+/**
+ * 표시용 p-value (검정하지 않았으면 -)
+ */
+export function formatPValue(pValue: number | null): string {
+  if (pValue === null) return '-';
+  return pValue < 0.001 ? '<0.001' : pValue.toFixed(3);
+}
+
+/**
+ * 기간 안 프롬프트별 지표 수집
+ */
+function measure(prompts: PromptData[], category?: TaskCategory) {
+  const effectiveness: number[] = [];
+  const quality: number[] = [];
+  const golden: ReturnType<typeof calculateGOLDENScore>[] = [];
+  const friction: number[] = [];
+  const antiPatterns = new Map<string, number>();
+  const categories = new Map<TaskCategory, number>();
+  let retries = 0;
+  let count = 0;
+
+  for (const prompt of prompts) {
+    const classification = classifyPrompt(prompt.content);
+    if (category && classification.taskCategory !== category) continue;
+    count++;
+
+    effectiveness.push(prompt.effectiveness ?? 0.5);
+    quality.push(calculatePromptQuality(classification, prompt.content).overall);
+    golden.push(calculateGOLDENScore(prompt.content, classification.taskCategory));
+    categories.set(classification.taskCategory, (categories.get(classification.taskCategory) ?? 0) + 1);
+
+    // 같은 프롬프트에서 한 패턴은 한 번만 센다
+    for (const pattern of new Set(detectAntiPatterns(prompt.content).map((a) => a.pattern))) {
+      antiPatterns.set(pattern, (antiPatterns.get(pattern) ?? 0) + 1);
+    }
+
+    if (prompt.outcome) {
+      friction.push(prompt.outcome.frictionScore);
+      if (prompt.outcome.nextTurnReaction === 'retry' || prompt.outcome.nextTurnReaction === 'negative') {
+        retries++;
+      }
+    }
+  }
+
+  return { count, effectiveness, quality, golden, friction, retries, antiPatterns, categories };
+}
+
+function buildChange(
+  key: string,
+  group: ComparisonMetricGroup,
+  label: string,
+  kind: MetricChange['kind'],
+  previous: number,
+  current: number,
+  pValue: number | null,
+  significanceLevel: number,
+  higherIsBetter: boolean | null,
+  samples: MetricChange['samples']
+): MetricChange {
+  const delta = current - previous;
+  const direction = Math.abs(delta) < PERIOD_COMPARISON.FLAT_DELTA ? 'flat' : delta > 0 ? 'up' : 'down';
+  const significant = pValue !== null && pValue < significanceLevel && direction !== 'flat';
+
+  let assessment: MetricChange['assessment'] = 'neutral';
+  if (significant && higherIsBetter !== null) {
+    assessment = (delta > 0) === higherIsBetter ? 'improved' : 'regressed';
+  }
+
+  return {
+    key,
+    group,
+    label,
+    kind,
+    previous,
+    current,
+    delta,
+    relativeChange: previous === 0 ? null : delta / previous,
+    pValue,
+    significant,
+    direction,
+    assessment,
+    samples,
+  };
+}
+
+function unionKeys<K>(a: Map<K, number>, b: Map<K, number>): K[] {
+  return [...new Set([...a.keys(), ...b.keys()])];
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
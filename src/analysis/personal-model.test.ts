@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+    promptOutcomeFromSignals,
+    extractPromptFeatureVector,
+    fitLogisticRegression,
+    fitEffectivenessWeights,
+    trainPersonalModel,
+    predictPromptSuccess,
+    isCompatiblePersonalModel,
+    PROMPT_FEATURE_NAMES,
+    type PromptOutcomeExample,
+    type EffectivenessExample,
+} from './personal-model.js';
+import { calculateEffectiveness, calculatePromptQuality, EFFECTIVENESS_WEIGHTS } from './scorer.js';
+import { classifyPrompt } from './classifier.js';
+import type { ConversationSignals } from './signal-detector.js';
+
+const SPECIFIC_PROMPT = (i: number) =>
+    `Fix the null check in src/auth/login-${i}.ts so tests/auth.test.ts passes. Return only a unified diff.\n` +
+    '```ts\nconst user = getUser(id);\n```';
+const VAGUE_PROMPT = (i: number) => `just make it work ${i}`;
+
+function history(count: number): PromptOutcomeExample[] {
+    const examples: PromptOutcomeExample[] = [];
+    for (let i = 0; i < count; i++) {
+        // Specific prompts mostly succeed, vague ones mostly get retried
+        const specific = i % 2 === 0;
+        const noisy = i % 10 === 0 || i % 10 === 5;
+        examples.push({
+            text: specific ? SPECIFIC_PROMPT(i) : VAGUE_PROMPT(i),
+            outcome: (specific !== noisy ? 1 : 0) as 0 | 1,
+        });
+    }
+    return examples;
+}
+
+const SIGNALS: ConversationSignals = {
+    conversationId: 'conv-1',
+    summary: {
+        positiveCount: 1,
+        negativeCount: 0,
+        retryCount: 0,
+        completionCount: 1,
+        questionCount: 1,
+        commandCount: 1,
+        contextCount: 0,
+        sentimentScore: 0,
+        retryRate: 0.5,
+        hasCompletion: true,
+    },
+    signals: [],
+};
+
+describe('personal-model', () => {
+    describe('promptOutcomeFromSignals', () => {
+        it('labels the prompt from the next turn signals', () => {
+            expect(promptOutcomeFromSignals(['positive_feedback'])).toBe(1);
+            expect(promptOutcomeFromSignals(['task_completion', 'command'])).toBe(1);
+            expect(promptOutcomeFromSignals(['retry_attempt'])).toBe(0);
+            expect(promptOutcomeFromSignals(['positive_feedback', 'negative_feedback'])).toBe(0);
+            expect(promptOutcomeFromSignals(['question', 'command'])).toBeNull();
+            expect(promptOutcomeFromSignals([])).toBeNull();
+        });
+    });
+
+    describe('extractPromptFeatureVector', () => {
+        it('produces one value per feature name with a category one-hot', () => {
+            const vector = extractPromptFeatureVector(SPECIFIC_PROMPT(1));
+            expect(vector).toHaveLength(PROMPT_FEATURE_NAMES.length);
+
+            const categories = PROMPT_FEATURE_NAMES.map((name, j) => (name.startsWith('category.') ? vector[j] : 0));
+            expect(categories.reduce((sum, v) => sum + v, 0)).toBe(1);
+            expect(vector[PROMPT_FEATURE_NAMES.indexOf('has.code_block')]).toBe(1);
+        });
+    });
+
+    describe('fitLogisticRegression', () => {
+        it('learns the sign of a predictive feature', () => {
+            const rows = [[1], [1], [1], [-1], [-1], [-1]];
+            const labels = [1, 1, 1, 0, 0, 0];
+            const { coefficients } = fitLogisticRegression(rows, labels);
+            expect(coefficients[0]).toBeGreaterThan(1);
+        });
+    });
+
+    describe('fitEffectivenessWeights', () => {
+        it('returns the default weights without data', () => {
+            expect(fitEffectivenessWeights([])).toEqual({ ...EFFECTIVENESS_WEIGHTS });
+        });
+
+        it('moves weight toward the component that tracks observed success', () => {
+            const examples: EffectivenessExample[] = [];
+            for (let i = 0; i < 200; i++) {
+                const completion = i % 2 === 0 ? 1 : 0.5;
+                examples.push({
+                    components: { sentiment: 0.5, completion, efficiency: (i % 7) / 7, engagement: 0.5 },
+                    successRate: completion === 1 ? 0.9 : 0.2,
+                });
+            }
+
+            const weights = fitEffectivenessWeights(examples);
+            const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+            expect(total).toBeCloseTo(1);
+            expect(weights.completion).toBeGreaterThan(EFFECTIVENESS_WEIGHTS.completion);
+            expect(weights.efficiency).toBeLessThan(EFFECTIVENESS_WEIGHTS.efficiency);
+        });
+    });
+
+    describe('trainPersonalModel', () => {
+        it('needs enough samples with both outcomes', () => {
+            expect(trainPersonalModel(history(10), [], { scope: 'global' })).toBeNull();
+
+            const allSuccess = history(40).map((e) => ({ ...e, outcome: 1 as const }));
+            expect(trainPersonalModel(allSuccess, [], { scope: 'global' })).toBeNull();
+        });
+
+        it('predicts higher success for prompts like the ones that worked', () => {
+            const model = trainPersonalModel(history(60), [], { scope: 'global' })!;
+
+            expect(model).not.toBeNull();
+            expect(isCompatiblePersonalModel(model)).toBe(true);
+            expect(model.samples).toBe(60);
+            expect(model.metrics.holdoutAccuracy).toBeGreaterThan(model.metrics.baselineAccuracy);
+            expect(model.importances.reduce((sum, i) => sum + i.importance, 0)).toBeCloseTo(1);
+            expect(model.effectivenessWeights).toEqual({ ...EFFECTIVENESS_WEIGHTS });
+
+            expect(predictPromptSuccess(model, SPECIFIC_PROMPT(999))).toBeGreaterThan(0.6);
+            expect(predictPromptSuccess(model, VAGUE_PROMPT(999))).toBeLessThan(0.4);
+        });
+    });
+
+    describe('scorer with a personal model', () => {
+        it('uses the weights it is given and defaults otherwise', () => {
+            const model = trainPersonalModel(history(60), [], { scope: 'global' })!;
+            model.effectivenessWeights = { sentiment: 0, completion: 1, efficiency: 0, engagement: 0 };
+
+            const defaults = calculateEffectiveness(SIGNALS);
+            expect(calculateEffectiveness(SIGNALS, model.effectivenessWeights).overall).toBe(1);
+            expect(calculateEffectiveness(SIGNALS, { ...EFFECTIVENESS_WEIGHTS }).overall).toBe(defaults.overall);
+        });
+
+        it('reports the learned success probability next to the heuristic quality', () => {
+            const text = SPECIFIC_PROMPT(7);
+            const classification = classifyPrompt(text);
+            const heuristic = calculatePromptQuality(classification, text);
+            expect(heuristic.predictedSuccess).toBeUndefined();
+
+            const model = trainPersonalModel(history(60), [], { scope: 'global' })!;
+            const personalized = calculatePromptQuality(classification, text, model);
+
+            expect(personalized.predictedSuccess).toBeCloseTo(predictPromptSuccess(model, text));
+            expect(personalized).toEqual({ ...heuristic, predictedSuccess: personalized.predictedSuccess });
+            // Without the text there is nothing to predict
+            expect(calculatePromptQuality(classification, undefined, model)).toEqual(calculatePromptQuality(classification));
+        });
+
+        it('ignores models trained with another feature layout', () => {
+            const model = trainPersonalModel(history(60), [], { scope: 'global' })!;
+            const text = SPECIFIC_PROMPT(7);
+            const quality = calculatePromptQuality(classifyPrompt(text), text, { ...model, features: model.features.slice(1) });
+            expect(quality.predictedSuccess).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,323 @@
+/**
+ * Personal Effectiveness Model
+ * 내 대화 이력에서 학습한 개인화 모델 (순수 TS 로지스틱 회귀)
+ *
+ * - 프롬프트 모델: 프롬프트 특징(extractFeatures, GOLDEN 차원, 카테고리) → 다음 턴에서 관찰된 결과
+ *   (긍정 피드백/완료 = 성공, 부정 피드백/재시도 = 실패)
+ * - 효과성 가중치: 대화별 효과성 구성 요소 → 그 대화 프롬프트의 실제 성공률
+ *
+ * 학습은 `train` 명령에서만 하고, 활성 모델이 없으면 점수 계산은 기본 가중치를 사용
+ */
+
+import { classifyPrompt, type ClassificationResult } from './classifier.js';
+import { calculateGOLDENScore } from './guidelines-evaluator.js';
+import { GOLDEN_DIMENSIONS } from './rule-packs.js';
+import { TASK_CATEGORIES } from '../shared/constants.js';
+import { EFFECTIVENESS_WEIGHTS } from '../shared/config/index.js';
+
+/** 저장 형식 버전 (특징 구성이 바뀌면 올림 → 이전 모델은 무시) */
+export const PERSONAL_MODEL_VERSION = 1;
+
+/** 모델을 학습할 최소 라벨 프롬프트 수 */
+export const PERSONAL_MODEL_MIN_SAMPLES = 30;
+
+/** 효과성 가중치 축소 강도: 대화 수가 이 값과 같으면 학습값과 기본값을 반씩 섞음 */
+const EFFECTIVENESS_PRIOR_STRENGTH = 50;
+
+/** 검증 정확도를 계산할 최소 샘플 수 (5개 중 1개를 검증용으로 분리) */
+const HOLDOUT_MIN_SAMPLES = 50;
+
+export const EFFECTIVENESS_COMPONENTS = ['sentiment', 'completion', 'efficiency', 'engagement'] as const;
+export type EffectivenessComponent = typeof EFFECTIVENESS_COMPONENTS[number];
+export type EffectivenessWeights = Record<EffectivenessComponent, number>;
+
+/**
+ * 프롬프트 특징 이름 (벡터 순서)
+ */
+export const PROMPT_FEATURE_NAMES: readonly string[] = [
+  ...GOLDEN_DIMENSIONS.map((d) => `golden.${d}`),
+  'length.words',
+  'has.code_block',
+  'has.url',
+  'has.file_path',
+  'has.question',
+  'complexity.moderate',
+  'complexity.complex',
+  'language.ko',
+  ...TASK_CATEGORIES.map((c) => `category.${c}`),
+];
+
+export interface PromptOutcomeExample {
+  text: string;
+  /** 1: 다음 턴이 긍정/완료, 0: 다음 턴이 부정/재시도 */
+  outcome: 0 | 1;
+}
+
+export interface EffectivenessExample {
+  components: EffectivenessWeights;
+  /** 대화 안 라벨 프롬프트의 성공 비율 (0-1) */
+  successRate: number;
+}
+
+export interface FeatureImportance {
+  feature: string;
+  /** 표준화된 특징의 계수 (양수: 성공 확률을 높임) */
+  coefficient: number;
+  /** |계수| 비율 (합계 1) */
+  importance: number;
+}
+
+export interface PersonalModel {
+  version: number;
+  /** 'global' 또는 'project:<이름>' */
+  scope: string;
+  trainedAt: string;
+  /** 학습에 사용한 라벨 프롬프트 수 */
+  samples: number;
+  /** 효과성 가중치 학습에 사용한 대화 수 */
+  conversations: number;
+  successRate: number;
+  features: string[];
+  /** 표준화 파라미터 */
+  means: number[];
+  scales: number[];
+  coefficients: number[];
+  intercept: number;
+  importances: FeatureImportance[];
+  effectivenessWeights: EffectivenessWeights;
+  metrics: {
+    /** 검증 세트 정확도 (샘플이 적으면 null) */
+    holdoutAccuracy: number | null;
+    /** 항상 다수 클래스로 예측했을 때의 정확도 */
+    baselineAccuracy: number;
+    logLoss: number;
+  };
+}
+
+// ─── 라벨 ───────────────────────────────────────────────────────────
+
+/**
+ * 다음 유저 턴의 신호로 프롬프트 결과 판정 (판단할 신호가 없으면 null)
+ * 부정 신호가 우선: "좋은데 다시 해줘" 는 실패
+ */
+export function promptOutcomeFromSignals(nextTurnSignals: readonly string[]): 0 | 1 | null {
+  if (nextTurnSignals.includes('negative_feedback') || nextTurnSignals.includes('retry_attempt')) return 0;
+  if (nextTurnSignals.includes('positive_feedback') || nextTurnSignals.includes('task_completion')) return 1;
+  return null;
+}
+
+// ─── 특징 ───────────────────────────────────────────────────────────
+
+/**
+ * 프롬프트 특징 벡터 (PROMPT_FEATURE_NAMES 순서)
+ */
+export function extractPromptFeatureVector(text: string, classification?: ClassificationResult): number[] {
+  const { features, taskCategory } = classification ?? classifyPrompt(text);
+  const golden = calculateGOLDENScore(text);
+
+  return [
+    ...GOLDEN_DIMENSIONS.map((d) => golden[d]),
+    Math.log1p(features.wordCount),
+    features.hasCodeBlock ? 1 : 0,
+    features.hasUrl ? 1 : 0,
+    features.hasFilePath ? 1 : 0,
+    features.hasQuestionMark ? 1 : 0,
+    features.complexity === 'moderate' ? 1 : 0,
+    features.complexity === 'complex' ? 1 : 0,
+    features.languageHint === 'ko' ? 1 : 0,
+    ...TASK_CATEGORIES.map((c) => (c === taskCategory ? 1 : 0)),
+  ];
+}
+
+// ─── 학습 ───────────────────────────────────────────────────────────
+
+export interface LogisticRegressionOptions {
+  epochs?: number;
+  learningRate?: number;
+  /** L2 정규화 강도 (적은 데이터에서 과적합 방지) */
+  l2?: number;
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+function dot(weights: number[], row: number[]): number {
+  let sum = 0;
+  for (let j = 0; j < weights.length; j++) sum += weights[j] * row[j];
+  return sum;
+}
+
+/**
+ * 로지스틱 회귀 (전체 배치 경사 하강, 결정적)
+ */
+export function fitLogisticRegression(
+  rows: number[][],
+  labels: number[],
+  options: LogisticRegressionOptions = {}
+): { coefficients: number[]; intercept: number } {
+  const { epochs = 400, learningRate = 0.3, l2 = 0.01 } = options;
+  const n = rows.length;
+  const d = rows[0]?.length ?? 0;
+  const coefficients = new Array<number>(d).fill(0);
+  let intercept = 0;
+  if (n === 0) return { coefficients, intercept };
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Array<number>(d).fill(0);
+    let gradientIntercept = 0;
+    for (let i = 0; i < n; i++) {
+      const error = sigmoid(dot(coefficients, rows[i]) + intercept) - labels[i];
+      for (let j = 0; j < d; j++) gradient[j] += error * rows[i][j];
+      gradientIntercept += error;
+    }
+    for (let j = 0; j < d; j++) {
+      coefficients[j] -= learningRate * (gradient[j] / n + l2 * coefficients[j]);
+    }
+    intercept -= (learningRate * gradientIntercept) / n;
+  }
+
+  return { coefficients, intercept };
+}
+
+function standardize(rows: number[][]): { means: number[]; scales: number[] } {
+  const d = rows[0]?.length ?? 0;
+  const means = new Array<number>(d).fill(0);
+  const scales = new Array<number>(d).fill(0);
+  for (const row of rows) for (let j = 0; j < d; j++) means[j] += row[j] / rows.length;
+  for (const row of rows) for (let j = 0; j < d; j++) scales[j] += (row[j] - means[j]) ** 2 / rows.length;
+  // 상수 특징은 표준화 후 0 이 되어 계수도 0 으로 남음
+  return { means, scales: scales.map((v) => (v > 0 ? Math.sqrt(v) : 1)) };
+}
+
+function applyScaling(row: number[], means: number[], scales: number[]): number[] {
+  return row.map((v, j) => (v - means[j]) / scales[j]);
+}
+
+/**
+ * 효과성 구성 요소 가중치 (비음수 선형 회귀 → 합계 1 로 정규화 → 대화 수에 따라 기본값 쪽으로 축소)
+ */
+export function fitEffectivenessWeights(examples: EffectivenessExample[]): EffectivenessWeights {
+  if (examples.length === 0) return { ...EFFECTIVENESS_WEIGHTS };
+
+  const weights = EFFECTIVENESS_COMPONENTS.map((c) => EFFECTIVENESS_WEIGHTS[c] as number);
+  let intercept = 0;
+  const n = examples.length;
+
+  for (let epoch = 0; epoch < 1000; epoch++) {
+    const gradient = new Array<number>(weights.length).fill(0);
+    let gradientIntercept = 0;
+    for (const example of examples) {
+      const row = EFFECTIVENESS_COMPONENTS.map((c) => example.components[c]);
+      const error = dot(weights, row) + intercept - example.successRate;
+      row.forEach((v, j) => (gradient[j] += error * v));
+      gradientIntercept += error;
+    }
+    for (let j = 0; j < weights.length; j++) {
+      weights[j] = Math.max(0, weights[j] - (0.5 * gradient[j]) / n);
+    }
+    intercept -= (0.5 * gradientIntercept) / n;
+  }
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return { ...EFFECTIVENESS_WEIGHTS };
+
+  const shrink = n / (n + EFFECTIVENESS_PRIOR_STRENGTH);
+  const result = {} as EffectivenessWeights;
+  EFFECTIVENESS_COMPONENTS.forEach((c, j) => {
+    result[c] = shrink * (weights[j] / total) + (1 - shrink) * EFFECTIVENESS_WEIGHTS[c];
+  });
+  return result;
+}
+
+function logLoss(probabilities: number[], labels: number[]): number {
+  const eps = 1e-12;
+  const total = probabilities.reduce(
+    (sum, p, i) => sum - (labels[i] * Math.log(p + eps) + (1 - labels[i]) * Math.log(1 - p + eps)),
+    0
+  );
+  return total / probabilities.length;
+}
+
+/**
+ * 개인화 모델 학습 (라벨 프롬프트가 minSamples 미만이거나 한 쪽 결과만 있으면 null)
+ */
+export function trainPersonalModel(
+  prompts: PromptOutcomeExample[],
+  conversations: EffectivenessExample[],
+  options: { scope: string; minSamples?: number; regression?: LogisticRegressionOptions }
+): PersonalModel | null {
+  const minSamples = options.minSamples ?? PERSONAL_MODEL_MIN_SAMPLES;
+  const labels = prompts.map((p) => p.outcome);
+  const positives = labels.filter((y) => y === 1).length;
+  if (prompts.length < minSamples || positives === 0 || positives === prompts.length) return null;
+
+  const raw = prompts.map((p) => extractPromptFeatureVector(p.text));
+  const { means, scales } = standardize(raw);
+  const rows = raw.map((row) => applyScaling(row, means, scales));
+
+  // 검증 정확도: 5개 중 1개를 빼고 학습한 모델로 측정 (최종 모델은 전체로 다시 학습)
+  let holdoutAccuracy: number | null = null;
+  if (prompts.length >= HOLDOUT_MIN_SAMPLES) {
+    const isHoldout = (i: number) => i % 5 === 4;
+    const train = rows.filter((_, i) => !isHoldout(i));
+    const fit = fitLogisticRegression(train, labels.filter((_, i) => !isHoldout(i)), options.regression);
+    const holdout = rows.map((row, i) => ({ row, y: labels[i] })).filter((_, i) => isHoldout(i));
+    const correct = holdout.filter(({ row, y }) => (sigmoid(dot(fit.coefficients, row) + fit.intercept) >= 0.5 ? 1 : 0) === y);
+    holdoutAccuracy = correct.length / holdout.length;
+  }
+
+  const { coefficients, intercept } = fitLogisticRegression(rows, labels, options.regression);
+  const probabilities = rows.map((row) => sigmoid(dot(coefficients, row) + intercept));
+
+  const totalWeight = coefficients.reduce((sum, c) => sum + Math.abs(c), 0) || 1;
+  const importances = PROMPT_FEATURE_NAMES.map((feature, j) => ({
+    feature,
+    coefficient: coefficients[j],
+    importance: Math.abs(coefficients[j]) / totalWeight,
+  })).sort((a, b) => b.importance - a.importance);
+
+  const successRate = positives / prompts.length;
+
+  return {
+    version: PERSONAL_MODEL_VERSION,
+    scope: options.scope,
+    trainedAt: new Date().toISOString(),
+    samples: prompts.length,
+    conversations: conversations.length,
+    successRate,
+    features: [...PROMPT_FEATURE_NAMES],
+    means,
+    scales,
+    coefficients,
+    intercept,
+    importances,
+    effectivenessWeights: fitEffectivenessWeights(conversations),
+    metrics: {
+      holdoutAccuracy,
+      baselineAccuracy: Math.max(successRate, 1 - successRate),
+      logLoss: logLoss(probabilities, labels),
+    },
+  };
+}
+
+/**
+ * 현재 버전에서 쓸 수 있는 모델인지 (특징 구성이 다르면 다시 학습 필요)
+ */
+export function isCompatiblePersonalModel(model: PersonalModel): boolean {
+  return (
+    model.version === PERSONAL_MODEL_VERSION &&
+    model.features.length === PROMPT_FEATURE_NAMES.length &&
+    model.features.every((f, j) => f === PROMPT_FEATURE_NAMES[j])
+  );
+}
+
+/**
+ * 이 사용자에게서 프롬프트가 성공할 확률 (0-1)
+ */
+export function predictPromptSuccess(
+  model: PersonalModel,
+  text: string,
+  classification?: ClassificationResult
+): number {
+  const row = applyScaling(extractPromptFeatureVector(text, classification), model.means, model.scales);
+  return sigmoid(dot(model.coefficients, row) + model.intercept);
+}
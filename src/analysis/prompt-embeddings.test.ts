@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+    fitTfidfSvd,
+    createTfidfSvdBackend,
+    cosineSimilarity,
+    clusterEmbeddings,
+} from './prompt-embeddings.js';
+import { extractPromptPatterns, buildPromptLibrary, type PromptDataForLibrary } from './prompt-library.js';
+
+// login/auth co-occur, so prompts using either word end up on the same axis
+const CORPUS = [
+    'fix login bug',
+    'auth fails after submit',
+    'login fails because the auth token expired',
+    'auth redirect loop after login',
+    'login page auth error on submit',
+    '로그인 버그 고쳐줘',
+    '로그인이 안 되는 버그를 수정',
+    'write unit tests for the parser',
+    'add tests for parser edge cases',
+    'parser unit tests for empty input',
+    'write unit tests for the config loader',
+];
+
+const backend = createTfidfSvdBackend(fitTfidfSvd(CORPUS));
+const embed = (text: string) => backend.embed(text);
+
+function prompt(content: string, effectiveness = 0.5): PromptDataForLibrary {
+    return { content, conversationId: `conv-${content.length}`, timestamp: new Date('2025-01-10'), effectiveness };
+}
+
+describe('fitTfidfSvd', () => {
+    it('should fit the same model for the same corpus', () => {
+        const model = fitTfidfSvd(CORPUS);
+
+        expect(model.model).toMatch(/^tfidf-svd-v1:[0-9a-f]{8}$/);
+        expect(fitTfidfSvd(CORPUS)).toEqual(model);
+        expect(fitTfidfSvd(CORPUS.slice(1)).model).not.toBe(model.model);
+        expect(model.documentCount).toBe(CORPUS.length);
+        expect(model.components).toHaveLength(model.vocabulary.length * model.dimensions);
+    });
+
+    it('should keep only features shared by several prompts', () => {
+        const { vocabulary } = fitTfidfSvd(CORPUS);
+
+        expect(vocabulary).toContain('w:login');
+        expect(vocabulary).toContain('w:fail');
+        expect(vocabulary).not.toContain('w:redirect');
+    });
+
+    it('should fit an empty corpus', () => {
+        const model = fitTfidfSvd([]);
+
+        expect(model.dimensions).toBe(0);
+        expect(createTfidfSvdBackend(model).embed('fix login bug')).toHaveLength(0);
+    });
+});
+
+describe('createTfidfSvdBackend', () => {
+    it('should produce deterministic unit vectors', () => {
+        const vector = embed('fix login bug');
+
+        expect(vector).toHaveLength(backend.dimensions);
+        expect(embed('fix login bug')).toEqual(vector);
+        expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 5);
+    });
+
+    it('should relate prompts whose words co-occur in the corpus', () => {
+        const login = embed('fix login bug');
+        const auth = embed('auth fails after submit');
+        const tests = embed('write unit tests for the parser');
+
+        expect(cosineSimilarity(login, auth)).toBeGreaterThan(0.8);
+        expect(cosineSimilarity(login, tests)).toBeLessThan(0.1);
+    });
+
+    it('should match Korean words with particles attached', () => {
+        expect(cosineSimilarity(embed('로그인 버그 고쳐줘'), embed('로그인이 안 되는 버그를 수정'))).toBeGreaterThan(0.8);
+    });
+
+    it('should return a zero vector for empty or unseen text', () => {
+        expect(cosineSimilarity(embed('   '), embed('fix login bug'))).toBe(0);
+        expect(cosineSimilarity(embed('deploy kubernetes'), embed('fix login bug'))).toBe(0);
+    });
+});
+
+describe('clusterEmbeddings', () => {
+    it('should merge only above the threshold', () => {
+        const vectors = [
+            new Float32Array([1, 0, 0]),
+            new Float32Array([0.9, 0.1, 0]),
+            new Float32Array([0, 1, 0]),
+            new Float32Array([0, 0.95, 0.05]),
+            new Float32Array([0, 0, 1]),
+        ];
+
+        const clusters = clusterEmbeddings(vectors, 0.8).map((c) => [...c].sort());
+
+        expect(clusters).toHaveLength(3);
+        expect(clusters).toContainEqual([0, 1]);
+        expect(clusters).toContainEqual([2, 3]);
+        expect(clusters).toContainEqual([4]);
+    });
+
+    it('should use average linkage', () => {
+        // 2 is close to 1 but not to 0, so it stays out of {0, 1}
+        const vectors = [
+            new Float32Array([1, 0]),
+            new Float32Array([Math.cos(0.4), Math.sin(0.4)]),
+            new Float32Array([Math.cos(0.9), Math.sin(0.9)]),
+        ];
+
+        const clusters = clusterEmbeddings(vectors, 0.85).map((c) => [...c].sort());
+
+        expect(clusters).toContainEqual([0, 1]);
+        expect(clusters).toContainEqual([2]);
+    });
+
+    it('should handle empty input', () => {
+        expect(clusterEmbeddings([], 0.5)).toEqual([]);
+    });
+});
+
+describe('extractPromptPatterns', () => {
+    const effectiveness = [0.9, 0.8, 0.7, 0.7, 0.7];
+    const prompts = CORPUS.map((content, i) => prompt(content, effectiveness[i] ?? 0.5));
+
+    it('should group prompts by meaning', () => {
+        const entries = extractPromptPatterns(prompts);
+        const auth = entries.find((e) => e.examples.some((x) => x.content === 'fix login bug'))!;
+
+        expect(auth.frequency).toBe(5);
+        expect(auth.examples.map((x) => x.content)).toContain('auth fails after submit');
+        expect(auth.category).toBe('bug-fix');
+        expect(auth.effectiveness).toBeCloseTo(0.76, 5);
+        expect(entries.map((e) => e.id)).toEqual(entries.map((_, i) => `pattern-${i + 1}`));
+    });
+
+    it('should use provided embeddings', () => {
+        const same = new Float32Array([1, 0]);
+        const entries = extractPromptPatterns([
+            { ...prompt('fix login bug'), embedding: same },
+            { ...prompt('write unit tests for the parser'), embedding: same },
+        ]);
+
+        expect(entries).toHaveLength(1);
+        expect(entries[0].frequency).toBe(2);
+    });
+
+    it('should recompute every vector when some embeddings are missing', () => {
+        const entries = extractPromptPatterns([
+            { ...prompts[0], embedding: new Float32Array([1, 0]) },
+            ...prompts.slice(1),
+        ]);
+
+        expect(entries.find((e) => e.examples.some((x) => x.content === 'fix login bug'))!.frequency).toBe(5);
+    });
+
+    it('should keep clusters nobody could classify', () => {
+        const same = new Float32Array([1, 0]);
+        const library = buildPromptLibrary([
+            { ...prompt('hmm'), embedding: same },
+            { ...prompt('ok thanks'), embedding: same },
+        ]);
+
+        expect(library.entries).toHaveLength(1);
+        expect(library.entries[0].category).toBe('unknown');
+        expect(library.byCategory.unknown).toHaveLength(1);
+    });
+
+    it('should keep the keyword grouping as an option', () => {
+        const entries = extractPromptPatterns(prompts, { grouping: 'keyword' });
+
+        expect(entries.every((e) => e.frequency >= 2)).toBe(true);
+        expect(entries.find((e) => e.examples.some((x) => x.content === 'auth fails after submit'))).toBeUndefined();
+    });
+});
@@ -0,0 +1,385 @@
+/**
+ * Prompt Embeddings
+ * 프롬프트 의미 벡터 (오프라인, 외부 모델 없음) 및 유사도 기반 군집화
+ *
+ * 기본 백엔드는 TF-IDF + 절단 SVD (잠재 의미 분석):
+ * 사용자의 프롬프트 말뭉치에서 함께 쓰이는 단어를 같은 잠재 축으로 모으므로
+ * "fix login bug" 와 "auth fails after submit" 처럼 단어가 겹치지 않아도
+ * 말뭉치에서 login/auth 가 같은 맥락에 나오면 가까운 벡터가 됨
+ */
+
+/**
+ * 임베딩 백엔드 (모델이 바뀌면 저장된 벡터는 다시 계산됨)
+ */
+export interface EmbeddingBackend {
+  /** 캐시 키로 쓰이는 모델 식별자 */
+  model: string;
+  dimensions: number;
+  embed(text: string): Float32Array;
+}
+
+/**
+ * 학습된 TF-IDF + SVD 모델 (DB 에 저장해 재사용)
+ */
+export interface TfidfSvdModel {
+  /** 캐시 키 (어휘와 투영이 바뀌면 달라짐) */
+  model: string;
+  /** 특징 (w:단어, b:한글 bigram) */
+  vocabulary: string[];
+  /** 특징별 IDF */
+  idf: Float32Array;
+  /** 특징 → 잠재 공간 투영 (특징 우선 배치, vocabulary.length × dimensions) */
+  components: Float32Array;
+  dimensions: number;
+  /** 학습에 쓴 프롬프트 수 */
+  documentCount: number;
+}
+
+export interface TfidfSvdOptions {
+  /** 잠재 차원 상한 (작은 말뭉치는 √(문서 수 / 2) 까지) */
+  dimensions?: number;
+  /** 문서 빈도 순 어휘 상한 */
+  maxVocabulary?: number;
+  /** 이보다 적은 프롬프트에 나온 특징은 버림 (한 프롬프트에만 나온 단어는 다른 프롬프트와 이어주지 못함) */
+  minDocumentFrequency?: number;
+}
+
+export const TFIDF_SVD_MODEL_PREFIX = 'tfidf-svd-v1';
+
+const DEFAULT_SVD_DIMENSIONS = 64;
+const DEFAULT_MAX_VOCABULARY = 5000;
+const DEFAULT_MIN_DOCUMENT_FREQUENCY = 2;
+const POWER_ITERATIONS = 15;
+
+// 특징 가중치: 단어 > 한글 bigram (조사가 붙은 한국어 단어는 bigram 으로 이어짐)
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'to', 'of', 'in', 'on', 'for', 'and', 'or', 'is', 'are', 'be', 'it', 'this', 'that',
+  'with', 'after', 'before', 'from', 'at', 'by', 'as', 'my', 'me', 'i', 'you', 'we', 'please', 'can', 'could',
+  'would', 'should', 'do', 'does', 'not', 'still', 'so', 'just',
+  '이', '그', '저', '좀', '것', '수', '등', '및', '해줘', '해주세요', '주세요', '합니다', '있는', '하는',
+]);
+
+const HANGUL = /[가-힣]/;
+
+/**
+ * 간단한 영어 어간 추출 (fails → fail, failed → fail)
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && /(x|ch|sh|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * FNV-1a 32bit 해시
+ */
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * 특징 추출: 어간 처리한 단어, 한글 bigram
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) ?? 0) + weight);
+  };
+
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const word of words) {
+    if (STOP_WORDS.has(word)) continue;
+
+    if (HANGUL.test(word)) {
+      add(`w:${word}`, WORD_WEIGHT);
+      for (let i = 0; i < word.length - 1; i++) {
+        add(`b:${word.slice(i, i + 2)}`, BIGRAM_WEIGHT);
+      }
+    } else {
+      if (word.length < 2) continue;
+      add(`w:${stem(word)}`, WORD_WEIGHT);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * 어휘 기준 TF-IDF 희소 벡터 (로그 스케일 빈도, L2 정규화)
+ */
+function tfidfVector(
+  text: string,
+  termIndex: Map<string, number>,
+  idf: Float32Array
+): Array<[number, number]> {
+  const entries: Array<[number, number]> = [];
+  let norm = 0;
+  for (const [feature, weight] of extractFeatures(text)) {
+    const term = termIndex.get(feature);
+    if (term === undefined) continue;
+    const value = Math.log1p(weight) * idf[term];
+    entries.push([term, value]);
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  return norm > 0 ? entries.map(([term, value]) => [term, value / norm]) : [];
+}
+
+/**
+ * 결정적 의사 난수 (mulberry32) - 같은 말뭉치는 같은 모델
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+}
+
+/**
+ * 열 정규직교화 (수정 Gram-Schmidt, 특징 우선 배치 rows × cols)
+ * 선형 종속인 열은 0 으로 남김
+ */
+function orthonormalizeColumns(matrix: Float32Array, rows: number, cols: number): void {
+  for (let j = 0; j < cols; j++) {
+    for (let p = 0; p < j; p++) {
+      let dot = 0;
+      for (let r = 0; r < rows; r++) dot += matrix[r * cols + j] * matrix[r * cols + p];
+      for (let r = 0; r < rows; r++) matrix[r * cols + j] -= dot * matrix[r * cols + p];
+    }
+    let norm = 0;
+    for (let r = 0; r < rows; r++) norm += matrix[r * cols + j] ** 2;
+    norm = Math.sqrt(norm);
+    for (let r = 0; r < rows; r++) matrix[r * cols + j] = norm > 1e-8 ? matrix[r * cols + j] / norm : 0;
+  }
+}
+
+/**
+ * 말뭉치로 TF-IDF + 절단 SVD 모델 학습
+ * 문서 × 특징 행렬의 상위 우특이벡터 공간을 부분공간 거듭제곱법으로 구함
+ * (코사인 유사도는 공간 안의 회전에 불변이라 특이벡터를 따로 분리하지 않음)
+ */
+export function fitTfidfSvd(corpus: string[], options: TfidfSvdOptions = {}): TfidfSvdModel {
+  const maxVocabulary = options.maxVocabulary ?? DEFAULT_MAX_VOCABULARY;
+  const minDocumentFrequency = options.minDocumentFrequency ?? DEFAULT_MIN_DOCUMENT_FREQUENCY;
+
+  // 문서 빈도 순 어휘
+  const documentFrequency = new Map<string, number>();
+  for (const text of corpus) {
+    for (const feature of extractFeatures(text).keys()) {
+      documentFrequency.set(feature, (documentFrequency.get(feature) ?? 0) + 1);
+    }
+  }
+  const vocabulary = [...documentFrequency.entries()]
+    .filter(([, df]) => df >= minDocumentFrequency)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, maxVocabulary)
+    .map(([feature]) => feature);
+
+  const n = corpus.length;
+  const terms = vocabulary.length;
+  const idf = new Float32Array(terms);
+  vocabulary.forEach((feature, t) => {
+    idf[t] = Math.log((1 + n) / (1 + documentFrequency.get(feature)!)) + 1;
+  });
+
+  const termIndex = new Map(vocabulary.map((feature, t) => [feature, t]));
+  const rows = corpus.map(text => tfidfVector(text, termIndex, idf)).filter(row => row.length > 0);
+
+  // 축이 주제 수보다 많으면 함께 쓰인 단어가 다시 갈라지므로 작은 말뭉치는 √(N/2) 축까지
+  const dimensions = Math.min(
+    options.dimensions ?? DEFAULT_SVD_DIMENSIONS,
+    terms,
+    Math.ceil(Math.sqrt(rows.length / 2))
+  );
+  const components = new Float32Array(terms * dimensions);
+
+  if (dimensions > 0) {
+    const random = seededRandom(hash(vocabulary.join('\n')));
+    for (let i = 0; i < components.length; i++) components[i] = random();
+    orthonormalizeColumns(components, terms, dimensions);
+
+    const projected = new Float32Array(dimensions);
+    const next = new Float32Array(terms * dimensions);
+    for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+      // next = Xᵀ (X · components)
+      next.fill(0);
+      for (const row of rows) {
+        projected.fill(0);
+        for (const [term, value] of row) {
+          for (let j = 0; j < dimensions; j++) projected[j] += value * components[term * dimensions + j];
+        }
+        for (const [term, value] of row) {
+          for (let j = 0; j < dimensions; j++) next[term * dimensions + j] += value * projected[j];
+        }
+      }
+      orthonormalizeColumns(next, terms, dimensions);
+      components.set(next);
+    }
+  }
+
+  const fingerprint = hash(`${vocabulary.join('\n')}|${dimensions}|${n}`).toString(16).padStart(8, '0');
+
+  return {
+    model: `${TFIDF_SVD_MODEL_PREFIX}:${fingerprint}`,
+    vocabulary,
+    idf,
+    components,
+    dimensions,
+    documentCount: n,
+  };
+}
+
+/**
+ * 학습된 모델 → 임베딩 백엔드 (L2 정규화된 잠재 벡터)
+ */
+export function createTfidfSvdBackend(model: TfidfSvdModel): EmbeddingBackend {
+  const termIndex = new Map(model.vocabulary.map((feature, t) => [feature, t]));
+  const { dimensions, components, idf } = model;
+
+  return {
+    model: model.model,
+    dimensions,
+    embed(text: string): Float32Array {
+      const vector = new Float32Array(dimensions);
+      for (const [term, value] of tfidfVector(text, termIndex, idf)) {
+        for (let j = 0; j < dimensions; j++) vector[j] += value * components[term * dimensions + j];
+      }
+
+      let norm = 0;
+      for (const v of vector) norm += v * v;
+      norm = Math.sqrt(norm);
+      if (norm > 0) {
+        for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+      }
+      return vector;
+    },
+  };
+}
+
+/**
+ * 코사인 유사도 (영벡터는 0)
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * 평균 연결 병합 군집화 (nearest-neighbor chain, O(n²))
+ * 군집 간 평균 유사도가 threshold 이상인 동안만 병합
+ * @returns 군집별 입력 인덱스 (단일 항목 군집 포함)
+ */
+export function clusterEmbeddings(vectors: Float32Array[], threshold: number): number[][] {
+  const n = vectors.length;
+  if (n === 0) return [];
+
+  const sim = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const s = cosineSimilarity(vectors[i], vectors[j]);
+      sim[i * n + j] = s;
+      sim[j * n + i] = s;
+    }
+  }
+
+  const members: number[][] = vectors.map((_, i) => [i]);
+  const active = new Uint8Array(n).fill(1);
+  let activeCount = n;
+  const clusters: number[][] = [];
+  const chain: number[] = [];
+
+  const finalize = (i: number) => {
+    active[i] = 0;
+    activeCount--;
+    clusters.push(members[i]);
+  };
+
+  while (activeCount > 0) {
+    if (chain.length === 0) {
+      chain.push(active.indexOf(1));
+    }
+
+    const a = chain[chain.length - 1];
+    const prev = chain.length > 1 ? chain[chain.length - 2] : -1;
+
+    // 가장 가까운 군집 (동률이면 체인의 이전 항목 우선)
+    let best = prev;
+    let bestSim = prev === -1 ? -Infinity : sim[a * n + prev];
+    for (let k = 0; k < n; k++) {
+      if (k === a || !active[k]) continue;
+      if (sim[a * n + k] > bestSim) {
+        best = k;
+        bestSim = sim[a * n + k];
+      }
+    }
+
+    if (best === -1) {
+      chain.pop();
+      finalize(a);
+      continue;
+    }
+
+    if (best !== prev) {
+      chain.push(best);
+      continue;
+    }
+
+    // 서로 최근접인 쌍
+    chain.pop();
+    chain.pop();
+
+    if (bestSim < threshold) {
+      // 평균 연결은 병합으로 유사도가 올라가지 않으므로 두 군집 모두 확정
+      finalize(a);
+      finalize(prev);
+      continue;
+    }
+
+    const sizeA = members[a].length;
+    const sizeB = members[prev].length;
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a || k === prev) continue;
+      const merged = (sizeA * sim[a * n + k] + sizeB * sim[prev * n + k]) / (sizeA + sizeB);
+      sim[a * n + k] = merged;
+      sim[k * n + a] = merged;
+    }
+    members[a] = members[a].concat(members[prev]);
+    active[prev] = 0;
+    activeCount--;
+  }
+
+  return clusters;
+}
+
+/**
+ * 군집 중심 벡터 (평균)
+ */
+export function centroid(vectors: Float32Array[]): Float32Array {
+  const result = new Float32Array(vectors[0]?.length ?? 0);
+  for (const vector of vectors) {
+    for (let i = 0; i < result.length; i++) result[i] += vector[i] / vectors.length;
+  }
+  return result;
+}
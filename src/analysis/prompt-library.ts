@@ -4,6 +4,14 @@
  */
 
 import { TaskCategory, PromptIntent, classifyPrompt, extractFeatures } from './classifier.js';
+import {
+  fitTfidfSvd,
+  createTfidfSvdBackend,
+  clusterEmbeddings,
+  centroid,
+  cosineSimilarity,
+  type EmbeddingBackend,
+} from './prompt-embeddings.js';
 
 /**
  * 프롬프트 라이브러리 항목
@@ -53,14 +61,110 @@ export interface PromptDataForLibrary {
   conversationId: string;
   timestamp: Date;
   effectiveness: number;
+  /** 저장된 임베딩 (하나라도 없으면 전부 즉석 계산) */
+  embedding?: Float32Array;
 }
 
+/**
+ * 패턴 추출 옵션
+ */
+export interface PatternExtractionOptions {
+  /** semantic: 임베딩 군집화 (기본), keyword: 카테고리/의도 분류로 그룹화 */
+  grouping?: 'semantic' | 'keyword';
+  /** 군집 병합 기준 평균 코사인 유사도 */
+  similarityThreshold?: number;
+  /** 없으면 주어진 프롬프트로 TF-IDF + SVD 모델 학습 */
+  embedder?: EmbeddingBackend;
+}
+
+// 군집화 비용은 O(n²) - 상한 이후 프롬프트는 가장 가까운 군집에 배정
+const MAX_CLUSTERED_PROMPTS = 1000;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.45;
+
 /**
  * 프롬프트 패턴 추출 - 유사 프롬프트 그룹화
  */
-export function extractPromptPatterns(prompts: PromptDataForLibrary[]): PromptLibraryEntry[] {
+export function extractPromptPatterns(
+  prompts: PromptDataForLibrary[],
+  options: PatternExtractionOptions = {}
+): PromptLibraryEntry[] {
   if (prompts.length === 0) return [];
 
+  const entries = options.grouping === 'keyword'
+    ? groupByClassification(prompts)
+    : groupBySimilarity(prompts, options);
+
+  // 효과성 순으로 정렬
+  return entries
+    .sort((a, b) => b.effectiveness - a.effectiveness)
+    .map((entry, i) => ({ ...entry, id: `pattern-${i + 1}` }));
+}
+
+/**
+ * 임베딩 군집화로 그룹화 (단어가 달라도 의미가 가까우면 같은 패턴)
+ */
+function groupBySimilarity(
+  prompts: PromptDataForLibrary[],
+  options: PatternExtractionOptions
+): PromptLibraryEntry[] {
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const vectors = embedPrompts(prompts, options.embedder);
+
+  const clusteredCount = Math.min(prompts.length, MAX_CLUSTERED_PROMPTS);
+  const groups = clusterEmbeddings(vectors.slice(0, clusteredCount), threshold);
+
+  if (prompts.length > clusteredCount) {
+    const centroids = groups.map(group => centroid(group.map(i => vectors[i])));
+    for (let i = clusteredCount; i < prompts.length; i++) {
+      let best = -1;
+      let bestSim = threshold;
+      centroids.forEach((c, g) => {
+        const s = cosineSimilarity(vectors[i], c);
+        if (s >= bestSim) {
+          best = g;
+          bestSim = s;
+        }
+      });
+      if (best !== -1) groups[best].push(i);
+    }
+  }
+
+  const entries: PromptLibraryEntry[] = [];
+  for (const group of groups) {
+    if (group.length < 2) continue;
+
+    const groupPrompts = group.map(i => prompts[i]);
+    const classifications = groupPrompts.map(p => classifyPrompt(p.content));
+
+    // 군집의 대표 카테고리/의도 (다수결, 분류 불가는 전부 분류 불가일 때만 - 미분류 패턴으로 유지)
+    const category = mostCommon(classifications.map(c => c.taskCategory).filter(c => c !== 'unknown')) ?? 'unknown';
+    const intent = mostCommon(classifications.map(c => c.intent)) ?? 'unknown';
+
+    entries.push(createLibraryEntry(groupPrompts, category, intent));
+  }
+
+  return entries;
+}
+
+/**
+ * 프롬프트 벡터 - 저장된 임베딩이 모두 같은 모델일 때만 그대로 사용
+ * (섞인 벡터는 서로 비교할 수 없으므로 이 프롬프트들로 학습한 모델로 다시 계산)
+ */
+function embedPrompts(prompts: PromptDataForLibrary[], embedder?: EmbeddingBackend): Float32Array[] {
+  const stored = prompts.map(p => p.embedding);
+  const dimensions = stored[0]?.length;
+  if (stored.every(v => v !== undefined && v.length === dimensions)) {
+    return stored as Float32Array[];
+  }
+
+  const backend = embedder ?? createTfidfSvdBackend(fitTfidfSvd(prompts.map(p => p.content)));
+  return prompts.map(p => backend.embed(p.content));
+}
+
+/**
+ * 카테고리 → 의도 분류로 그룹화
+ */
+function groupByClassification(prompts: PromptDataForLibrary[]): PromptLibraryEntry[] {
   // 카테고리별로 그룹화
   const categoryGroups = new Map<TaskCategory, PromptDataForLibrary[]>();
 
@@ -75,7 +179,6 @@ export function extractPromptPatterns(prompts: PromptDataForLibrary[]): PromptLi
   }
 
   const entries: PromptLibraryEntry[] = [];
-  let entryId = 1;
 
   // 각 카테고리에서 패턴 추출
   for (const [category, categoryPrompts] of categoryGroups) {
@@ -96,59 +199,86 @@ export function extractPromptPatterns(prompts: PromptDataForLibrary[]): PromptLi
 
     for (const [intent, intentPrompts] of intentGroups) {
       if (intentPrompts.length < 2) continue;
-
-      // 키워드 추출
-      const keywords = extractCommonKeywords(intentPrompts.map(p => p.content));
-
-      // 패턴 템플릿 생성
-      const pattern = generatePatternTemplate(intentPrompts.map(p => p.content), category, intent);
-
-      // 모범 사례 분석
-      const bestPractices = analyzeBestPractices(intentPrompts);
-
-      // 안티패턴 탐지
-      const antiPatterns = detectPromptAntiPatterns(intentPrompts);
-
-      // 효과성 점수 계산
-      const avgEffectiveness = intentPrompts.reduce((sum, p) => sum + p.effectiveness, 0) / intentPrompts.length;
-
-      // 성공률 계산 (효과성 > 0.6을 성공으로 간주)
-      const successCount = intentPrompts.filter(p => p.effectiveness >= 0.6).length;
-      const successRate = successCount / intentPrompts.length;
-
-      // 평균 길이
-      const avgLength = intentPrompts.reduce((sum, p) => sum + p.content.length, 0) / intentPrompts.length;
-
-      // 예시 선택 (효과성 높은 순으로 최대 3개)
-      const examples: PromptExample[] = intentPrompts
-        .sort((a, b) => b.effectiveness - a.effectiveness)
-        .slice(0, 3)
-        .map(p => ({
-          content: p.content,
-          effectiveness: p.effectiveness,
-          timestamp: p.timestamp,
-          conversationId: p.conversationId,
-        }));
-
-      entries.push({
-        id: `pattern-${entryId++}`,
-        pattern,
-        category,
-        intent,
-        effectiveness: avgEffectiveness,
-        frequency: intentPrompts.length,
-        examples,
-        keywords,
-        bestPractices,
-        antiPatterns,
-        averageLength: avgLength,
-        successRate,
-      });
+      entries.push(createLibraryEntry(intentPrompts, category, intent));
     }
   }
 
-  // 효과성 순으로 정렬
-  return entries.sort((a, b) => b.effectiveness - a.effectiveness);
+  return entries;
+}
+
+/**
+ * 프롬프트 그룹 → 라이브러리 항목 (id는 정렬 후 부여)
+ */
+function createLibraryEntry(
+  groupPrompts: PromptDataForLibrary[],
+  category: TaskCategory,
+  intent: PromptIntent
+): PromptLibraryEntry {
+  // 키워드 추출
+  const keywords = extractCommonKeywords(groupPrompts.map(p => p.content));
+
+  // 패턴 템플릿 생성
+  const pattern = generatePatternTemplate(groupPrompts.map(p => p.content), category, intent);
+
+  // 모범 사례 분석
+  const bestPractices = analyzeBestPractices(groupPrompts);
+
+  // 안티패턴 탐지
+  const antiPatterns = detectPromptAntiPatterns(groupPrompts);
+
+  // 효과성 점수 계산
+  const avgEffectiveness = groupPrompts.reduce((sum, p) => sum + p.effectiveness, 0) / groupPrompts.length;
+
+  // 성공률 계산 (효과성 > 0.6을 성공으로 간주)
+  const successCount = groupPrompts.filter(p => p.effectiveness >= 0.6).length;
+  const successRate = successCount / groupPrompts.length;
+
+  // 평균 길이
+  const avgLength = groupPrompts.reduce((sum, p) => sum + p.content.length, 0) / groupPrompts.length;
+
+  // 예시 선택 (효과성 높은 순으로 최대 3개)
+  const examples: PromptExample[] = [...groupPrompts]
+    .sort((a, b) => b.effectiveness - a.effectiveness)
+    .slice(0, 3)
+    .map(p => ({
+      content: p.content,
+      effectiveness: p.effectiveness,
+      timestamp: p.timestamp,
+      conversationId: p.conversationId,
+    }));
+
+  return {
+    id: '',
+    pattern,
+    category,
+    intent,
+    effectiveness: avgEffectiveness,
+    frequency: groupPrompts.length,
+    examples,
+    keywords,
+    bestPractices,
+    antiPatterns,
+    averageLength: avgLength,
+    successRate,
+  };
+}
+
+/**
+ * 최빈값 (빈 배열이면 undefined)
+ */
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
 }
 
 /**
@@ -424,8 +554,11 @@ export function identifyBestExamples(prompts: PromptDataForLibrary[]): Map<TaskC
 /**
  * 프롬프트 라이브러리 생성
  */
-export function buildPromptLibrary(prompts: PromptDataForLibrary[]): PromptLibrary {
-  const entries = extractPromptPatterns(prompts);
+export function buildPromptLibrary(
+  prompts: PromptDataForLibrary[],
+  options: PatternExtractionOptions = {}
+): PromptLibrary {
+  const entries = extractPromptPatterns(prompts, options);
 
   // 카테고리별 그룹화
   const byCategory: Record<TaskCategory, PromptLibraryEntry[]> = {
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+import {
+    parseRulePack,
+    loadRulePacks,
+    loadRulePacksFromDirectory,
+    activateRulePacks,
+    setActiveRulePacks,
+    resetRulePackCache,
+    PROJECT_RULES_SUBDIR,
+} from './rule-packs.js';
+import {
+    calculateGOLDENScore,
+    detectAntiPatterns,
+    evaluatePromptAgainstGuidelines,
+} from './guidelines-evaluator.js';
+
+const teamPack = {
+    name: 'team',
+    rules: [
+        {
+            id: 'ticket-reference',
+            type: 'golden',
+            dimension: 'data',
+            weight: 0.4,
+            patterns: ['\\bPROJ-\\d+\\b'],
+            evidence: 'Jira 티켓 참조',
+            suggestion: '관련 티켓 번호(PROJ-123)를 적으세요.',
+        },
+        {
+            id: 'no-any',
+            type: 'anti-pattern',
+            name: 'any 타입 허용',
+            patterns: ['any\\s*타입\\s*(써도|사용해도)', 'use any type'],
+            severity: 'high',
+            evidence: '타입 안전성을 포기하는 요청',
+            suggestion: 'unknown 과 타입 가드를 요청하세요.',
+        },
+        {
+            id: 'missing-ticket',
+            type: 'anti-pattern',
+            when: 'absent',
+            locale: 'ko',
+            patterns: ['\\bPROJ-\\d+\\b'],
+            evidence: '티켓 번호 없음',
+            suggestion: '작업 티켓을 연결하세요.',
+        },
+    ],
+};
+
+describe('rule-packs', () => {
+    let projectDir: string;
+    let globalDir: string;
+
+    beforeEach(() => {
+        projectDir = mkdtempSync(join(tmpdir(), 'pe-rules-project-'));
+        globalDir = mkdtempSync(join(tmpdir(), 'pe-rules-global-'));
+        mkdirSync(join(projectDir, PROJECT_RULES_SUBDIR), { recursive: true });
+        vi.stubEnv('PE_RULES_DIR', globalDir);
+    });
+
+    afterEach(() => {
+        rmSync(projectDir, { recursive: true, force: true });
+        rmSync(globalDir, { recursive: true, force: true });
+        resetRulePackCache();
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    describe('parseRulePack', () => {
+        it('should apply defaults and compile patterns case-insensitively', () => {
+            const pack = parseRulePack(teamPack, 'team.json');
+
+            expect(pack.goldenRules).toHaveLength(1);
+            expect(pack.antiPatternRules.map((r) => r.id)).toEqual(['no-any', 'missing-ticket']);
+            expect(pack.antiPatternRules[1].severity).toBe('medium');
+            expect(pack.antiPatternRules[0].when).toBe('present');
+            expect(pack.goldenRules[0].regexes[0].test('see proj-42')).toBe(true);
+        });
+
+        it('should reject invalid rules with the failing path', () => {
+            expect(() => parseRulePack({ name: 'bad', rules: [{ ...teamPack.rules[0], dimension: 'style' }] }, 'bad.json'))
+                .toThrow(/rules\.0\.dimension/);
+            expect(() => parseRulePack({ name: 'bad', rules: [{ ...teamPack.rules[0], patterns: ['('] }] }, 'bad.json'))
+                .toThrow(/Invalid regular expression/);
+            expect(() => parseRulePack({ name: 'bad', rules: [{ ...teamPack.rules[0], weight: 2 }] }, 'bad.json'))
+                .toThrow(/weight/);
+        });
+    });
+
+    describe('loading', () => {
+        it('should read YAML and JSON packs and collect errors', () => {
+            const dir = join(projectDir, PROJECT_RULES_SUBDIR);
+            writeFileSync(join(dir, 'a.yaml'), [
+                'name: yaml-pack',
+                'rules:',
+                '  - id: acceptance',
+                '    type: golden',
+                '    dimension: evaluation',
+                '    weight: 0.3',
+                '    patterns: ["완료 조건", "acceptance criteria"]',
+                '    evidence: 완료 조건 명시',
+                '    suggestion: 완료 조건을 적으세요.',
+            ].join('\n'));
+            writeFileSync(join(dir, 'b.json'), JSON.stringify(teamPack));
+            writeFileSync(join(dir, 'c.yml'), 'name: broken\nrules: []\n');
+            writeFileSync(join(dir, 'notes.txt'), 'ignored');
+
+            const result = loadRulePacksFromDirectory(dir);
+
+            expect(result.packs.map((p) => p.name)).toEqual(['yaml-pack', 'team']);
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0].source).toContain('c.yml');
+        });
+
+        it('should let project rules override global rules with the same id', () => {
+            writeFileSync(join(globalDir, 'team.json'), JSON.stringify(teamPack));
+            writeFileSync(join(projectDir, PROJECT_RULES_SUBDIR, 'team.json'), JSON.stringify({
+                name: 'project',
+                rules: [{ ...teamPack.rules[0], weight: -0.2 }],
+            }));
+
+            expect(loadRulePacks(projectDir).packs.map((p) => p.name)).toEqual(['team', 'project']);
+
+            activateRulePacks(projectDir);
+            const adjusted = calculateGOLDENScore('PROJ-12 처리');
+            activateRulePacks(null);
+            const global = calculateGOLDENScore('PROJ-12 처리');
+
+            expect(adjusted.data).toBeLessThan(global.data);
+        });
+
+        it('should not read rule files until activated', async () => {
+            writeFileSync(join(globalDir, 'team.json'), JSON.stringify(teamPack));
+            vi.resetModules();
+            const fresh = await import('./guidelines-evaluator.js');
+
+            expect(fresh.getActiveRulePacks()).toEqual([]);
+            expect(fresh.detectAntiPatterns('이 함수는 any 타입 써도 돼').map((d) => d.pattern))
+                .not.toContain('any 타입 허용');
+
+            fresh.activateRulePacks(null);
+            expect(fresh.getActiveRulePacks().map((p) => p.name)).toEqual(['team']);
+        });
+
+        it('should warn about and skip invalid packs on activation', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            writeFileSync(join(globalDir, 'bad.json'), '{ not json');
+
+            const result = activateRulePacks(projectDir);
+
+            expect(result.packs).toEqual([]);
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('bad.json'));
+        });
+    });
+
+    describe('evaluation', () => {
+        beforeEach(() => {
+            setActiveRulePacks([parseRulePack(teamPack, 'team.json')]);
+        });
+
+        it('should add golden rule weights to their dimension', () => {
+            const text = '로그인 기능 구현해줘';
+            const withTicket = calculateGOLDENScore(`${text} PROJ-101`);
+            const without = calculateGOLDENScore(text);
+
+            expect(withTicket.data - without.data).toBeCloseTo(0.4, 5);
+        });
+
+        it('should detect custom anti-patterns, including absent patterns', () => {
+            const detected = detectAntiPatterns('이 함수는 any 타입 써도 돼');
+
+            expect(detected.map((d) => d.pattern)).toEqual(
+                expect.arrayContaining(['any 타입 허용', 'missing-ticket'])
+            );
+            expect(detected.find((d) => d.pattern === 'any 타입 허용')!.fix).toBe('unknown 과 타입 가드를 요청하세요.');
+        });
+
+        it('should respect the rule locale', () => {
+            const detected = detectAntiPatterns('please refactor the parser');
+            expect(detected.map((d) => d.pattern)).not.toContain('missing-ticket');
+        });
+
+        it('should report team rules without changing the overall score', () => {
+            const text = 'Implement the login API with TypeScript and add tests';
+            const withRules = evaluatePromptAgainstGuidelines(text);
+            setActiveRulePacks([]);
+            const withoutRules = evaluatePromptAgainstGuidelines(text);
+
+            const ticket = withRules.guidelineScores.find((s) => s.guideline === 'rule:ticket-reference')!;
+            expect(ticket.score).toBe(0);
+            expect(ticket.weight).toBe(0);
+            expect(withRules.overallScore).toBeCloseTo(withoutRules.overallScore, 10);
+            expect(ticket.suggestion).toContain('PROJ-123');
+        });
+    });
+});
@@ -0,0 +1,302 @@
+/**
+ * Rule Packs
+ * 사용자 정의 GOLDEN 규칙 / 안티패턴 (YAML, JSON)
+ *
+ * 로드 순서: ~/.prompt-evolution/rules/ → <프로젝트>/.prompt-evolution/rules/
+ * 같은 id의 규칙은 나중에 로드된 것(프로젝트)이 덮어씀
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, extname, resolve } from 'path';
+import { homedir } from 'os';
+import { z } from 'zod';
+import { load as loadYaml } from 'js-yaml';
+import type { GOLDENScore } from '../shared/types/index.js';
+
+/**
+ * 전역 규칙 디렉토리 (PE_RULES_DIR 로 변경 가능)
+ */
+export function getGlobalRulesDir(): string {
+  return process.env.PE_RULES_DIR || join(homedir(), '.prompt-evolution', 'rules');
+}
+
+/** 프로젝트 안의 규칙 디렉토리 */
+export const PROJECT_RULES_SUBDIR = join('.prompt-evolution', 'rules');
+
+const RULE_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export const GOLDEN_DIMENSIONS = ['goal', 'output', 'limits', 'data', 'evaluation', 'next'] as const;
+export type GoldenDimension = typeof GOLDEN_DIMENSIONS[number];
+
+const regexSource = z.string().min(1).refine(
+  (source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid regular expression' }
+);
+
+const ruleBase = {
+  id: z.string().regex(/^[\w.-]+$/, 'Use letters, digits, "-", "_" or "."'),
+  /** 하나라도 일치하면 매칭 (대소문자 무시) */
+  patterns: z.array(regexSource).min(1),
+  /** 매칭 시 근거 (안티패턴은 설명) */
+  evidence: z.string().min(1),
+  /** 개선 제안 */
+  suggestion: z.string().min(1),
+  /** 해당 언어 프롬프트에만 적용 (없으면 전체) */
+  locale: z.enum(['ko', 'en']).optional(),
+};
+
+export const goldenRuleSchema = z.object({
+  ...ruleBase,
+  type: z.literal('golden'),
+  dimension: z.enum(GOLDEN_DIMENSIONS),
+  /** 매칭 시 차원 점수에 더함 (음수면 감점) */
+  weight: z.number().min(-1).max(1),
+});
+
+export const antiPatternRuleSchema = z.object({
+  ...ruleBase,
+  type: z.literal('anti-pattern'),
+  name: z.string().min(1).optional(),
+  severity: z.enum(['high', 'medium', 'low']).default('medium'),
+  /** present: 패턴이 있으면 탐지, absent: 없으면 탐지 (예: 티켓 ID 누락) */
+  when: z.enum(['present', 'absent']).default('present'),
+});
+
+export const rulePackSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  /** 규칙별 locale 기본값 */
+  locale: z.enum(['ko', 'en']).optional(),
+  rules: z.array(z.discriminatedUnion('type', [goldenRuleSchema, antiPatternRuleSchema])).min(1),
+});
+
+export type GoldenRule = z.infer<typeof goldenRuleSchema>;
+export type AntiPatternRule = z.infer<typeof antiPatternRuleSchema>;
+export type RulePackDefinition = z.infer<typeof rulePackSchema>;
+
+/**
+ * 검증/컴파일된 규칙 팩
+ */
+export interface RulePack {
+  name: string;
+  description?: string;
+  source: string;       // 파일 경로
+  goldenRules: CompiledRule<GoldenRule>[];
+  antiPatternRules: CompiledRule<AntiPatternRule>[];
+}
+
+export type CompiledRule<T> = T & { regexes: RegExp[]; pack: string };
+
+export interface RulePackError {
+  source: string;
+  message: string;
+}
+
+export interface RulePackLoadResult {
+  packs: RulePack[];
+  errors: RulePackError[];
+}
+
+/**
+ * 규칙 팩 정의 검증 + 정규식 컴파일
+ */
+export function parseRulePack(data: unknown, source: string): RulePack {
+  const result = rulePackSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')
+    );
+  }
+
+  const definition = result.data;
+  const compile = <T extends GoldenRule | AntiPatternRule>(rule: T): CompiledRule<T> =>
+    Object.assign({}, rule, {
+      locale: rule.locale ?? definition.locale,
+      regexes: rule.patterns.map((p) => new RegExp(p, 'i')),
+      pack: definition.name,
+    });
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    source,
+    goldenRules: definition.rules.filter((r): r is GoldenRule => r.type === 'golden').map(compile),
+    antiPatternRules: definition.rules
+      .filter((r): r is AntiPatternRule => r.type === 'anti-pattern')
+      .map(compile),
+  };
+}
+
+/**
+ * 디렉토리의 규칙 팩 파일 읽기 (이름순, 잘못된 파일은 errors 로)
+ */
+export function loadRulePacksFromDirectory(directory: string): RulePackLoadResult {
+  const result: RulePackLoadResult = { packs: [], errors: [] };
+  if (!existsSync(directory)) return result;
+
+  const files = readdirSync(directory)
+    .filter((file) => RULE_FILE_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .sort();
+
+  for (const file of files) {
+    const source = join(directory, file);
+    try {
+      const text = readFileSync(source, 'utf-8');
+      const data = extname(file).toLowerCase() === '.json' ? JSON.parse(text) : loadYaml(text);
+      result.packs.push(parseRulePack(data, source));
+    } catch (err) {
+      result.errors.push({ source, message: (err as Error).message });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 전역 + 프로젝트 규칙 팩 읽기
+ */
+export function loadRulePacks(projectDir: string | null = process.cwd()): RulePackLoadResult {
+  const directories = [getGlobalRulesDir()];
+  if (projectDir) {
+    const projectRules = resolve(projectDir, PROJECT_RULES_SUBDIR);
+    if (projectRules !== resolve(directories[0])) directories.push(projectRules);
+  }
+
+  const result: RulePackLoadResult = { packs: [], errors: [] };
+  for (const directory of directories) {
+    const loaded = loadRulePacksFromDirectory(directory);
+    result.packs.push(...loaded.packs);
+    result.errors.push(...loaded.errors);
+  }
+  return result;
+}
+
+// ─── 활성 규칙 ──────────────────────────────────────────────────────
+
+interface ActiveRules {
+  /** 읽어 온 프로젝트 (null: 전역 규칙만, undefined: setActiveRulePacks 로 직접 지정) */
+  key: string | null | undefined;
+  packs: RulePack[];
+  goldenRules: CompiledRule<GoldenRule>[];
+  antiPatternRules: CompiledRule<AntiPatternRule>[];
+}
+
+function mergeRules(packs: RulePack[], key: string | null | undefined): ActiveRules {
+  // 같은 id는 뒤의 팩이 덮어씀
+  const golden = new Map<string, CompiledRule<GoldenRule>>();
+  const antiPatterns = new Map<string, CompiledRule<AntiPatternRule>>();
+  for (const pack of packs) {
+    for (const rule of pack.goldenRules) golden.set(rule.id, rule);
+    for (const rule of pack.antiPatternRules) antiPatterns.set(rule.id, rule);
+  }
+  return {
+    key,
+    packs,
+    goldenRules: [...golden.values()],
+    antiPatternRules: [...antiPatterns.values()],
+  };
+}
+
+// 활성화 전에는 규칙 없음 (평가 함수는 파일을 읽지 않음)
+let activeRules: ActiveRules = mergeRules([], undefined);
+
+/**
+ * 프로젝트 규칙 팩 활성화 (같은 프로젝트면 다시 읽지 않음)
+ * CLI/서버/데스크톱 시작 시 호출 (projectDir 가 null 이면 전역 규칙만)
+ * 잘못된 규칙 파일은 경고 후 건너뜀
+ */
+export function activateRulePacks(projectDir: string | null): RulePackLoadResult {
+  const key = projectDir ? resolve(projectDir) : null;
+  if (activeRules.key === key) {
+    return { packs: activeRules.packs, errors: [] };
+  }
+
+  const result = loadRulePacks(projectDir);
+  for (const error of result.errors) {
+    console.warn(`[RulePacks] Skipping ${error.source}: ${error.message}`);
+  }
+  activeRules = mergeRules(result.packs, key);
+  return result;
+}
+
+/**
+ * 규칙 팩 직접 지정 (테스트, 임베딩 환경)
+ */
+export function setActiveRulePacks(packs: RulePack[]): void {
+  activeRules = mergeRules(packs, undefined);
+}
+
+/**
+ * 다음 activateRulePacks 때 규칙 파일을 다시 읽음 (규칙 파일 수정 후)
+ */
+export function resetRulePackCache(): void {
+  activeRules = mergeRules(activeRules.packs, undefined);
+}
+
+function getActiveRules(): ActiveRules {
+  return activeRules;
+}
+
+export function getActiveRulePacks(): RulePack[] {
+  return getActiveRules().packs;
+}
+
+// ─── 평가 ───────────────────────────────────────────────────────────
+
+function appliesTo(rule: { locale?: 'ko' | 'en' }, languageHint: 'ko' | 'en' | 'mixed'): boolean {
+  return !rule.locale || languageHint === 'mixed' || rule.locale === languageHint;
+}
+
+function matches(rule: { regexes: RegExp[] }, text: string): boolean {
+  return rule.regexes.some((regex) => regex.test(text));
+}
+
+export interface GoldenRuleMatches {
+  matched: CompiledRule<GoldenRule>[];
+  missed: CompiledRule<GoldenRule>[];
+}
+
+/**
+ * 프롬프트에 적용되는 GOLDEN 규칙 매칭 결과
+ */
+export function matchGoldenRules(text: string, languageHint: 'ko' | 'en' | 'mixed'): GoldenRuleMatches {
+  const result: GoldenRuleMatches = { matched: [], missed: [] };
+  for (const rule of getActiveRules().goldenRules) {
+    if (!appliesTo(rule, languageHint)) continue;
+    (matches(rule, text) ? result.matched : result.missed).push(rule);
+  }
+  return result;
+}
+
+/**
+ * 매칭된 GOLDEN 규칙의 차원별 가중치 합
+ */
+export function goldenRuleAdjustments(
+  text: string,
+  languageHint: 'ko' | 'en' | 'mixed'
+): Partial<Record<keyof Omit<GOLDENScore, 'total'>, number>> {
+  const adjustments: Partial<Record<GoldenDimension, number>> = {};
+  for (const rule of matchGoldenRules(text, languageHint).matched) {
+    adjustments[rule.dimension] = (adjustments[rule.dimension] ?? 0) + rule.weight;
+  }
+  return adjustments;
+}
+
+/**
+ * 탐지된 사용자 정의 안티패턴
+ */
+export function matchAntiPatternRules(
+  text: string,
+  languageHint: 'ko' | 'en' | 'mixed'
+): CompiledRule<AntiPatternRule>[] {
+  return getActiveRules().antiPatternRules.filter(
+    (rule) => appliesTo(rule, languageHint) && matches(rule, text) === (rule.when === 'present')
+  );
+}
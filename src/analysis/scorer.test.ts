@@ -42,6 +42,29 @@ describe('scorer', () => {
             expect(result.overall).toBeGreaterThan(0.7);
         });
 
+        it('should penalize efficiency for tool error loops', () => {
+            const signals: ConversationSignals = {
+                conversationId: 'test-loop',
+                summary: {
+                    positiveCount: 0,
+                    negativeCount: 0,
+                    retryCount: 0,
+                    completionCount: 0,
+                    questionCount: 0,
+                    commandCount: 1,
+                    contextCount: 0,
+                    toolErrorLoopCount: 2,
+                    sentimentScore: 0,
+                    retryRate: 0,
+                    hasCompletion: false,
+                },
+                signals: [],
+            };
+
+            expect(calculateEffectiveness(signals).efficiencyScore).toBeCloseTo(0.6);
+            expect(analyzeEffectiveness(signals).insights).toContain('같은 도구의 실패가 반복됨');
+        });
+
         it('should handle negative sentiment correctly', () => {
             const signals: ConversationSignals = {
                 conversationId: 'test-2',
@@ -17,7 +17,14 @@ import {
   FEATURE_THRESHOLDS,
   SCORER_THRESHOLDS,
   COMPARISON_THRESHOLDS,
+  TOOL_ERROR_LOOP,
 } from '../shared/config/index.js';
+import {
+  predictPromptSuccess,
+  isCompatiblePersonalModel,
+  type EffectivenessWeights,
+  type PersonalModel,
+} from './personal-model.js';
 
 /**
  * Effectiveness score components
@@ -41,9 +48,11 @@ export const EFFECTIVENESS_WEIGHTS = CONFIG_EFFECTIVENESS_WEIGHTS;
 
 /**
  * Calculate effectiveness score from conversation signals
+ * Pass a personal model's learned weights to personalize; defaults otherwise
  */
 export function calculateEffectiveness(
-  signals: ConversationSignals
+  signals: ConversationSignals,
+  weights: EffectivenessWeights = { ...EFFECTIVENESS_WEIGHTS }
 ): EffectivenessComponents {
   const { summary } = signals;
 
@@ -53,8 +62,13 @@ export function calculateEffectiveness(
   // 2. Completion Score
   const completionScore = summary.hasCompletion ? 1.0 : 0.5;
 
-  // 3. Efficiency Score (inverse of retry rate)
-  const efficiencyScore = Math.max(0, 1 - summary.retryRate * 2);
+  // 3. Efficiency Score (inverse of retry rate, penalized by tool error loops)
+  const efficiencyScore = Math.max(
+    0,
+    1 -
+      summary.retryRate * 2 -
+      (summary.toolErrorLoopCount ?? 0) * TOOL_ERROR_LOOP.EFFICIENCY_PENALTY
+  );
 
   // 4. Engagement Score (based on question/command balance)
   const totalInteractions =
@@ -71,10 +85,10 @@ export function calculateEffectiveness(
 
   // Calculate weighted overall score
   const overall =
-    sentimentScore * EFFECTIVENESS_WEIGHTS.sentiment +
-    completionScore * EFFECTIVENESS_WEIGHTS.completion +
-    efficiencyScore * EFFECTIVENESS_WEIGHTS.efficiency +
-    engagementScore * EFFECTIVENESS_WEIGHTS.engagement;
+    sentimentScore * weights.sentiment +
+    completionScore * weights.completion +
+    efficiencyScore * weights.efficiency +
+    engagementScore * weights.engagement;
 
   return {
     sentimentScore,
@@ -131,9 +145,10 @@ export interface EffectivenessAnalysis {
  * Generate full effectiveness analysis
  */
 export function analyzeEffectiveness(
-  signals: ConversationSignals
+  signals: ConversationSignals,
+  weights?: EffectivenessWeights
 ): EffectivenessAnalysis {
-  const score = calculateEffectiveness(signals);
+  const score = calculateEffectiveness(signals, weights);
   const grade = getGrade(score.overall);
   const gradeDescription = getGradeDescription(grade);
 
@@ -154,6 +169,11 @@ export function analyzeEffectiveness(
     recommendations.push('구체적인 예시를 포함하면 정확도가 높아집니다');
   }
 
+  if ((signals.summary.toolErrorLoopCount ?? 0) > 0) {
+    insights.push('같은 도구의 실패가 반복됨');
+    recommendations.push('에러 메시지나 실행 환경을 먼저 공유하면 반복 실패를 줄일 수 있습니다');
+  }
+
   if (!signals.summary.hasCompletion) {
     insights.push('명시적인 작업 완료 확인 없음');
     recommendations.push('작업 완료 시 명시적으로 확인하면 대화 품질 추적에 도움됩니다');
@@ -323,13 +343,17 @@ export interface PromptQualityScore {
   structure: number; // Structure quality based on classification confidence (0-1)
   context: number; // Context richness (0-1)
   overall: number; // Combined score (0-1)
+  predictedSuccess?: number; // Personal model's success probability (0-1), when a model is given
 }
 
 /**
  * Calculate prompt quality score from classification
+ * With the prompt text and a personal model, predictedSuccess adds the learned success probability
  */
 export function calculatePromptQuality(
-  classification: ClassificationResult
+  classification: ClassificationResult,
+  text?: string,
+  model?: PersonalModel | null
 ): PromptQualityScore {
   const { features, intentConfidence, categoryConfidence } = classification;
 
@@ -365,6 +389,11 @@ export function calculatePromptQuality(
     structure * QUALITY_WEIGHTS.structure +
     context * QUALITY_WEIGHTS.context;
 
+  if (model && text !== undefined && isCompatiblePersonalModel(model)) {
+    const predictedSuccess = predictPromptSuccess(model, text, classification);
+    return { clarity, structure, context, overall, predictedSuccess };
+  }
+
   return {
     clarity,
     structure,
@@ -425,7 +454,7 @@ export function analyzeClassificationPatterns(
 
   // Classify all prompts
   const classifications = prompts.map((p) => classifyPrompt(p));
-  const qualities = classifications.map((c) => calculatePromptQuality(c));
+  const qualities = classifications.map((c, i) => calculatePromptQuality(c, prompts[i]));
 
   // Calculate distributions
   const intentDistribution: Record<PromptIntent, number> = {
@@ -6,6 +6,7 @@ import { describe, it, expect } from 'vitest';
 import {
   detectTurnSignals,
   detectConversationSignals,
+  detectToolErrorLoops,
   getDominantSignalType,
   classifyBasicPromptIntent,
   type TurnForAnalysis,
@@ -210,6 +211,88 @@ describe('detectConversationSignals', () => {
     expect(result.summary.positiveCount).toBe(0);
     expect(result.summary.sentimentScore).toBe(0);
   });
+
+  describe('conversation branches', () => {
+    const branchedTurns: TurnForAnalysis[] = [
+      { id: 'u1', role: 'user', content: '로그인 폼 만들어줘', turnIndex: 0, branchType: 'main' },
+      { id: 'a1', role: 'assistant', content: '만들었습니다', turnIndex: 1, parentId: 'u1', branchType: 'main' },
+      { id: 'u2', role: 'user', content: '다시 해줘, 틀렸어', turnIndex: 2, parentId: 'a1', branchId: 'u2', branchType: 'abandoned' },
+      { id: 'a2', role: 'assistant', content: '수정했습니다', turnIndex: 3, parentId: 'u2', branchId: 'u2', branchType: 'abandoned' },
+      { id: 'u3', role: 'user', content: '이메일 검증 추가해줘', turnIndex: 4, parentId: 'a1', branchId: 'u3', branchType: 'abandoned' },
+      { id: 's1', role: 'user', content: '다시 검색해줘', turnIndex: 5, parentId: 'a1', branchId: 's1', branchType: 'sidechain' },
+      { id: 'u4', role: 'user', content: '비밀번호 검증 추가해줘', turnIndex: 6, parentId: 'a1', branchType: 'main' },
+    ];
+
+    it('only counts keyword signals on the main path', () => {
+      const result = detectConversationSignals('conv-1', branchedTurns);
+
+      expect(result.summary.retryCount).toBe(0);
+      expect(result.signals.every((s) => !['u2', 'u3', 's1'].includes(s.turnId))).toBe(true);
+    });
+
+    it('emits a prompt_edited signal for prompts that replaced rewound ones', () => {
+      const result = detectConversationSignals('conv-1', branchedTurns);
+      const edits = result.signals.filter((s) => s.type === 'prompt_edited');
+
+      expect(edits).toHaveLength(1);
+      expect(edits[0].turnId).toBe('u4');
+      expect(edits[0].metadata).toEqual({ editCount: 2, abandonedTurnIds: ['u2', 'u3'] });
+    });
+
+    it('reports branch statistics', () => {
+      const result = detectConversationSignals('conv-1', branchedTurns);
+
+      expect(result.branches).toEqual({
+        mainTurns: 3,
+        abandonedTurns: 3,
+        sidechainTurns: 1,
+        abandonedBranches: 2,
+        sidechainThreads: 1,
+        editedPrompts: 1,
+        totalEdits: 2,
+        maxEditsPerPrompt: 2,
+      });
+    });
+  });
+});
+
+describe('detectToolErrorLoops', () => {
+  const failing = (name: string) => ({ name, isError: true });
+
+  it('detects the same tool failing repeatedly', () => {
+    const turns: TurnForAnalysis[] = [
+      { id: 'a1', role: 'assistant', content: '', turnIndex: 1, toolCalls: [failing('Bash'), { name: 'Read' }] },
+      { id: 'a2', role: 'assistant', content: '', turnIndex: 3, toolCalls: [failing('Bash')] },
+      { id: 'a3', role: 'assistant', content: '', turnIndex: 5, toolCalls: [failing('Bash')] },
+    ];
+
+    const signals = detectToolErrorLoops(turns);
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0]).toMatchObject({
+      type: 'tool_error_loop',
+      turnId: 'a3',
+      metadata: { toolName: 'Bash', failures: 3, turnIds: ['a1', 'a2', 'a3'] },
+    });
+  });
+
+  it('resets the loop when the tool succeeds', () => {
+    const turns: TurnForAnalysis[] = [
+      { id: 'a1', role: 'assistant', content: '', turnIndex: 1, toolCalls: [failing('Bash'), failing('Bash')] },
+      { id: 'a2', role: 'assistant', content: '', turnIndex: 3, toolCalls: [{ name: 'Bash', isError: false }] },
+      { id: 'a3', role: 'assistant', content: '', turnIndex: 5, toolCalls: [failing('Bash')] },
+    ];
+
+    expect(detectToolErrorLoops(turns)).toHaveLength(0);
+  });
+
+  it('counts loops in the conversation summary', () => {
+    const turns: TurnForAnalysis[] = [
+      { id: 'a1', role: 'assistant', content: '', turnIndex: 0, toolCalls: [failing('Edit'), failing('Edit'), failing('Edit')] },
+    ];
+
+    expect(detectConversationSignals('conv-1', turns).summary.toolErrorLoopCount).toBe(1);
+  });
 });
 
 describe('getDominantSignalType', () => {
@@ -9,7 +9,8 @@ import {
   countPatternMatches,
   type SignalType,
 } from './patterns.js';
-import { CONFIDENCE } from '../shared/config/index.js';
+import { CONFIDENCE, TOOL_ERROR_LOOP } from '../shared/config/index.js';
+import type { BranchType } from '../types/index.js';
 
 /**
  * Detected signal from a turn
@@ -20,6 +21,7 @@ export interface DetectedSignal {
   turnIndex: number;
   keywords: string[];
   confidence: number; // 0-1
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -29,6 +31,21 @@ export interface ConversationSignals {
   conversationId: string;
   signals: DetectedSignal[];
   summary: SignalSummary;
+  branches?: BranchStats;
+}
+
+/**
+ * Conversation tree statistics (rewinds, edited prompts, sub-agent threads)
+ */
+export interface BranchStats {
+  mainTurns: number;
+  abandonedTurns: number;
+  sidechainTurns: number;
+  abandonedBranches: number;
+  sidechainThreads: number;
+  editedPrompts: number; // main-path prompts that replaced at least one abandoned version
+  totalEdits: number;
+  maxEditsPerPrompt: number;
 }
 
 /**
@@ -42,6 +59,7 @@ export interface SignalSummary {
   questionCount: number;
   commandCount: number;
   contextCount: number;
+  toolErrorLoopCount?: number;
   // Derived metrics
   sentimentScore: number; // -1 to 1
   retryRate: number; // 0 to 1
@@ -56,6 +74,14 @@ export interface TurnForAnalysis {
   role: 'user' | 'assistant';
   content: string;
   turnIndex: number;
+  parentId?: string;
+  branchId?: string;
+  branchType?: BranchType; // defaults to 'main'
+  toolCalls?: Array<{ name: string; isError?: boolean; target?: string }>;
+  // Only used for outcome attribution
+  timestamp?: string;
+  outputTokens?: number;
+  costUsd?: number;
 }
 
 /**
@@ -160,24 +186,144 @@ export function detectTurnSignals(turn: TurnForAnalysis): DetectedSignal[] {
 
 /**
  * Detect signals from all turns in a conversation
+ * Keyword signals and the summary only consider the main path, so rewound
+ * prompts and sub-agent traffic don't look like retries.
  */
 export function detectConversationSignals(
   conversationId: string,
   turns: TurnForAnalysis[]
 ): ConversationSignals {
   const allSignals: DetectedSignal[] = [];
+  const mainTurns = turns.filter(isMainPathTurn);
 
-  for (const turn of turns) {
+  for (const turn of mainTurns) {
     const turnSignals = detectTurnSignals(turn);
     allSignals.push(...turnSignals);
   }
 
-  const summary = calculateSummary(allSignals, turns.length);
+  allSignals.push(...detectBranchSignals(turns));
+  allSignals.push(...detectToolErrorLoops(mainTurns));
+
+  const summary = calculateSummary(allSignals, mainTurns.length);
 
   return {
     conversationId,
     signals: allSignals,
     summary,
+    branches: calculateBranchStats(turns),
+  };
+}
+
+/**
+ * Check if a turn is on the main path of the conversation tree
+ */
+export function isMainPathTurn(turn: TurnForAnalysis): boolean {
+  return !turn.branchType || turn.branchType === 'main';
+}
+
+/**
+ * Group abandoned user prompts with the main-path prompt that replaced them
+ * (siblings sharing the same parent turn)
+ */
+function findPromptEdits(
+  turns: TurnForAnalysis[]
+): Array<{ turn: TurnForAnalysis; abandoned: TurnForAnalysis[] }> {
+  const byParent = new Map<string, TurnForAnalysis[]>();
+  for (const turn of turns) {
+    if (turn.role !== 'user' || turn.branchType === 'sidechain') continue;
+    const key = turn.parentId ?? '';
+    byParent.set(key, [...(byParent.get(key) ?? []), turn]);
+  }
+
+  const edits: Array<{ turn: TurnForAnalysis; abandoned: TurnForAnalysis[] }> = [];
+  for (const siblings of byParent.values()) {
+    const main = siblings.find(isMainPathTurn);
+    const abandoned = siblings.filter((t) => t.branchType === 'abandoned');
+    if (main && abandoned.length > 0) {
+      edits.push({ turn: main, abandoned });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Detect structural signals from the conversation tree
+ */
+export function detectBranchSignals(turns: TurnForAnalysis[]): DetectedSignal[] {
+  return findPromptEdits(turns).map(({ turn, abandoned }) => ({
+    type: 'prompt_edited' as const,
+    turnId: turn.id,
+    turnIndex: turn.turnIndex,
+    keywords: [],
+    confidence: 1,
+    metadata: {
+      editCount: abandoned.length,
+      abandonedTurnIds: abandoned.map((t) => t.id),
+    },
+  }));
+}
+
+/**
+ * Detect tool error loops: the same tool failing repeatedly without a success
+ * in between (calls to other tools don't break the loop)
+ */
+export function detectToolErrorLoops(turns: TurnForAnalysis[]): DetectedSignal[] {
+  const signals: DetectedSignal[] = [];
+  const runs = new Map<string, { failures: number; turnIds: string[]; last: TurnForAnalysis }>();
+
+  const closeRun = (toolName: string) => {
+    const run = runs.get(toolName);
+    runs.delete(toolName);
+    if (!run || run.failures < TOOL_ERROR_LOOP.MIN_CONSECUTIVE_FAILURES) return;
+    signals.push({
+      type: 'tool_error_loop',
+      turnId: run.last.id,
+      turnIndex: run.last.turnIndex,
+      keywords: [toolName],
+      confidence: 1,
+      metadata: {
+        toolName,
+        failures: run.failures,
+        turnIds: [...new Set(run.turnIds)],
+      },
+    });
+  };
+
+  for (const turn of turns) {
+    for (const call of turn.toolCalls ?? []) {
+      if (!call.isError) {
+        closeRun(call.name);
+        continue;
+      }
+      const run = runs.get(call.name) ?? { failures: 0, turnIds: [], last: turn };
+      run.failures++;
+      run.turnIds.push(turn.id);
+      run.last = turn;
+      runs.set(call.name, run);
+    }
+  }
+  for (const toolName of [...runs.keys()]) closeRun(toolName);
+
+  return signals.sort((a, b) => a.turnIndex - b.turnIndex);
+}
+
+/**
+ * Calculate branch statistics for a conversation
+ */
+export function calculateBranchStats(turns: TurnForAnalysis[]): BranchStats {
+  const abandoned = turns.filter((t) => t.branchType === 'abandoned');
+  const sidechain = turns.filter((t) => t.branchType === 'sidechain');
+  const edits = findPromptEdits(turns).map((e) => e.abandoned.length);
+
+  return {
+    mainTurns: turns.length - abandoned.length - sidechain.length,
+    abandonedTurns: abandoned.length,
+    sidechainTurns: sidechain.length,
+    abandonedBranches: new Set(abandoned.map((t) => t.branchId ?? t.id)).size,
+    sidechainThreads: new Set(sidechain.map((t) => t.branchId ?? t.id)).size,
+    editedPrompts: edits.length,
+    totalEdits: edits.reduce((sum, n) => sum + n, 0),
+    maxEditsPerPrompt: edits.length > 0 ? Math.max(...edits) : 0,
   };
 }
 
@@ -222,6 +368,7 @@ function calculateSummary(
   const questionCount = signals.filter((s) => s.type === 'question').length;
   const commandCount = signals.filter((s) => s.type === 'command').length;
   const contextCount = signals.filter((s) => s.type === 'context_providing').length;
+  const toolErrorLoopCount = signals.filter((s) => s.type === 'tool_error_loop').length;
 
   // Calculate sentiment score (-1 to 1)
   const totalFeedback = positiveCount + negativeCount;
@@ -240,6 +387,7 @@ function calculateSummary(
     questionCount,
     commandCount,
     contextCount,
+    toolErrorLoopCount,
     sentimentScore,
     retryRate,
     hasCompletion: completionCount > 0,
@@ -24,3 +24,14 @@ export {
   type SignalPatternType,
   type SignalResultType,
 } from './signal-scorer.js';
+
+// Significance tests
+export {
+  mean,
+  sampleVariance,
+  normalTwoSidedP,
+  studentTTwoSidedP,
+  welchTTest,
+  twoProportionZTest,
+  type TestResult,
+} from './statistics.js';
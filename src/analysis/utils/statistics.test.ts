@@ -0,0 +1,81 @@
+/**
+ * Tests for statistics utilities
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  mean,
+  sampleVariance,
+  normalTwoSidedP,
+  studentTTwoSidedP,
+  welchTTest,
+  twoProportionZTest,
+  benjaminiHochberg,
+} from './statistics.js';
+
+describe('descriptive statistics', () => {
+  it('computes mean and unbiased variance', () => {
+    expect(mean([1, 2, 3, 4])).toBe(2.5);
+    expect(mean([])).toBe(0);
+    expect(sampleVariance([1, 2, 3, 4, 5])).toBe(2.5);
+    expect(sampleVariance([7])).toBe(0);
+  });
+});
+
+describe('p-values', () => {
+  it('matches standard normal critical values', () => {
+    expect(normalTwoSidedP(1.96)).toBeCloseTo(0.05, 4);
+    expect(normalTwoSidedP(0)).toBeCloseTo(1, 6);
+  });
+
+  it('matches Student t critical values', () => {
+    expect(studentTTwoSidedP(2.228, 10)).toBeCloseTo(0.05, 3);
+    expect(studentTTwoSidedP(12.706, 1)).toBeCloseTo(0.05, 3);
+    expect(studentTTwoSidedP(0, 5)).toBeCloseTo(1, 6);
+  });
+});
+
+describe('welchTTest', () => {
+  it('tests a difference in means', () => {
+    const result = welchTTest([1, 2, 3, 4, 5], [3, 4, 5, 6, 7]);
+    expect(result.statistic).toBeCloseTo(2, 6);
+    expect(result.pValue).toBeCloseTo(0.0805, 3);
+  });
+
+  it('returns a null p-value for samples that are too small', () => {
+    expect(welchTTest([1], [2, 3]).pValue).toBeNull();
+  });
+
+  it('handles zero variance', () => {
+    expect(welchTTest([1, 1, 1], [1, 1, 1])).toEqual({ statistic: 0, pValue: 1 });
+    expect(welchTTest([1, 1, 1], [2, 2, 2])).toEqual({ statistic: Infinity, pValue: 0 });
+    expect(welchTTest([2, 2, 2], [1, 1, 1])).toEqual({ statistic: -Infinity, pValue: 0 });
+  });
+});
+
+describe('twoProportionZTest', () => {
+  it('tests a difference in proportions', () => {
+    const result = twoProportionZTest(10, 100, 25, 100);
+    expect(result.statistic).toBeGreaterThan(0);
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(twoProportionZTest(10, 100, 11, 100).pValue).toBeGreaterThan(0.5);
+  });
+
+  it('returns a null p-value for an empty sample', () => {
+    expect(twoProportionZTest(0, 0, 3, 10).pValue).toBeNull();
+  });
+});
+
+describe('benjaminiHochberg', () => {
+  it('adjusts p-values for the number of tests', () => {
+    const adjusted = benjaminiHochberg([0.01, 0.04, 0.03, 0.2]);
+    expect(adjusted[0]).toBeCloseTo(0.04);
+    expect(adjusted[1]).toBeCloseTo(0.0533, 3);
+    expect(adjusted[2]).toBeCloseTo(0.0533, 3);
+    expect(adjusted[3]).toBeCloseTo(0.2);
+  });
+
+  it('leaves untested entries out of the family', () => {
+    expect(benjaminiHochberg([null, 0.6, null, 0.9])).toEqual([null, 0.9, null, 0.9]);
+    expect(benjaminiHochberg([])).toEqual([]);
+  });
+});
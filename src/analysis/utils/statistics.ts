@@ -0,0 +1,171 @@
+/**
+ * Statistics Utilities
+ * Two-sample significance tests and multiple-comparison correction used by period-over-period comparison
+ */
+
+/**
+ * Result of a two-sample test (pValue is null when a sample is too small to test)
+ */
+export interface TestResult {
+  statistic: number;
+  pValue: number | null;
+}
+
+/**
+ * Arithmetic mean (0 for an empty sample)
+ */
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Unbiased sample variance (0 for fewer than two values)
+ */
+export function sampleVariance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Two-sided p-value of a standard normal statistic
+ */
+export function normalTwoSidedP(z: number): number {
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+/**
+ * Two-sided p-value of a Student t statistic with df degrees of freedom
+ */
+export function studentTTwoSidedP(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return Math.min(1, regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5));
+}
+
+/**
+ * Welch's unequal-variance t-test for a difference in means (b relative to a)
+ */
+export function welchTTest(a: number[], b: number[]): TestResult {
+  const statistic = mean(b) - mean(a);
+  if (a.length < 2 || b.length < 2) return { statistic: 0, pValue: null };
+
+  const va = sampleVariance(a) / a.length;
+  const vb = sampleVariance(b) / b.length;
+  const se = Math.sqrt(va + vb);
+  // Constant samples: any difference in means is certain, none is no evidence at all
+  if (se === 0) {
+    if (statistic === 0) return { statistic: 0, pValue: 1 };
+    return { statistic: statistic > 0 ? Infinity : -Infinity, pValue: 0 };
+  }
+
+  const t = statistic / se;
+  // Welch–Satterthwaite degrees of freedom
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  return { statistic: t, pValue: studentTTwoSidedP(t, df) };
+}
+
+/**
+ * Pooled two-proportion z-test (successes xb/nb relative to xa/na)
+ */
+export function twoProportionZTest(xa: number, na: number, xb: number, nb: number): TestResult {
+  if (na === 0 || nb === 0) return { statistic: 0, pValue: null };
+
+  const pooled = (xa + xb) / (na + nb);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / na + 1 / nb));
+  const diff = xb / nb - xa / na;
+  if (se === 0) return { statistic: 0, pValue: diff === 0 ? 1 : 0 };
+
+  const z = diff / se;
+  return { statistic: z, pValue: normalTwoSidedP(z) };
+}
+
+/**
+ * Benjamini–Hochberg adjusted p-values (false discovery rate across a family of tests)
+ * Null entries are untested and neither adjusted nor counted in the family
+ */
+export function benjaminiHochberg(pValues: Array<number | null>): Array<number | null> {
+  const tested = pValues
+    .map((p, index) => ({ p, index }))
+    .filter((entry): entry is { p: number; index: number } => entry.p !== null)
+    .sort((a, b) => a.p - b.p);
+
+  const adjusted: Array<number | null> = pValues.map(() => null);
+  // Step-up from the largest p-value keeps the adjusted values monotone
+  let running = 1;
+  for (let rank = tested.length; rank >= 1; rank--) {
+    const { p, index } = tested[rank - 1];
+    running = Math.min(running, (p * tested.length) / rank);
+    adjusted[index] = running;
+  }
+  return adjusted;
+}
+
+/**
+ * Standard normal CDF (Abramowitz–Stegun 7.1.26 erf approximation, |error| < 1.5e-7)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Regularized incomplete beta I_x(a, b) via Lentz's continued fraction
+ */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  // Continued fraction converges fastest for x < (a + 1) / (a + b + 2)
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+  }
+  return (front * betaContinuedFraction(x, a, b)) / a;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < TINY ? TINY : d);
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const numerator of [
+      (m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+      (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + numerator * d;
+      d = 1 / (Math.abs(d) < TINY ? TINY : d);
+      c = 1 + numerator / c;
+      if (Math.abs(c) < TINY) c = TINY;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/**
+ * ln Γ(x) (Lanczos approximation, g = 7)
+ */
+function logGamma(x: number): number {
+  const COEFFICIENTS = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = COEFFICIENTS[0];
+  for (let i = 1; i < COEFFICIENTS.length; i++) sum += COEFFICIENTS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
@@ -16,8 +16,22 @@ import {
   classifyCommand,
   improveCommand,
   reportCommand,
+  costCommand,
+  dbMigrateCommand,
+  searchCommand,
+  similarCommand,
+  rulesCommand,
+  evalCommand,
+  cacheCommand,
+  trainCommand,
+  exportCommand,
+  redactCommand,
+  lintInstructionsCommand,
 } from './cli/commands/index.js';
-import { parseFlags } from './cli/utils/index.js';
+import { parseFlags, parsePositionals } from './cli/utils/index.js';
+import { activateRulePacks } from './analysis/rule-packs.js';
+import { isAssistantSource } from './parser/index.js';
+import { ASSISTANT_SOURCES, type AssistantSource } from './types/index.js';
 
 
 const args = process.argv.slice(2);
@@ -38,10 +52,17 @@ Prompt Evolution - AI 대화 분석 및 프롬프트 진화 시스템
 
   import [--project <id>]      DB로 대화 임포트
   import --incremental         새 세션만 추가
+  import --source <source>     특정 어시스턴트만 임포트
   db-stats                     DB 통계
+  db migrate                   스키마 마이그레이션 적용
+  db migrate --status          적용/대기 중인 마이그레이션 목록
+  db migrate --dry-run         적용 가능 여부만 확인 (변경 없음)
 
   analyze [--incremental]      품질 신호 분석
   analyze --conversation <id>  특정 대화 분석
+  analyze --llm [--limit <n>]  분석 후 아직 심사하지 않은 프롬프트를 LLM 으로 GOLDEN 심사
+  analyze --llm --batch        배치 API 로 심사 (작업은 DB 에 저장, 다시 실행하면 이어서 수거)
+  analyze ... --no-wait        배치 결과를 기다리지 않고 종료
 
   insights                     전체 인사이트 리포트
   insights --period 7d         최근 7일 분석 (7d, 30d, 90d, all)
@@ -56,17 +77,94 @@ Prompt Evolution - AI 대화 분석 및 프롬프트 진화 시스템
   improve "<text>"             프롬프트 개선 (LLM 기반)
   improve "<text>" --offline   프롬프트 개선 (규칙 기반, API 없이)
 
-  report [--output <path>]     HTML 리포트 생성
+  report [--output <path>]     HTML 리포트 생성 (--output - 이면 stdout)
   report --period 7d           최근 7일 리포트
+  report --format md           형식: html, md, json, pdf, csv (카테고리별)
+  report --schema              JSON 리포트의 JSON Schema 출력
+  report --compare 7d:prev     최근 7일 vs 이전 7일 비교 ("무엇이 바뀌었나" 섹션)
+  report --from <date> [--to <date>]  지정 기간 vs 바로 앞의 같은 길이 기간 비교
+
+  cost                         토큰 비용 (모델별, 캐시 포함)
+  cost --period 30d            최근 30일 비용 (7d, 4w, 3m, all)
+  cost --group-by <key>        그룹 기준 (model, project, day)
+  cost --project <name>        특정 프로젝트만
+  cost --reprice               현재 가격표로 저장된 비용 재계산
+                               가격 덮어쓰기: ~/.prompt-evolution/pricing.json
+
+  search "<query>"             대화 전문 검색 (턴 내용, 사고 과정, 세션 요약)
+  search "<query>" --role user 역할 필터 (user, assistant)
+  search ... --project <name>  특정 프로젝트만
+  search ... --category <cat>  작업 카테고리 필터 (사용자 턴만)
+  search ... --since 30d       기간 필터 (--since/--until, 날짜 또는 7d, 4w, 3m)
+  search ... --limit <n>       결과 개수 (기본 20)
+  search --reindex             검색 인덱스 재생성
+
+  similar "<text>"             의미가 비슷한 과거 프롬프트 (임베딩 최근접 이웃)
+  similar --turn <id>          저장된 프롬프트 턴과 비슷한 프롬프트
+  similar ... --min-effectiveness 0.7  잘 된 대화의 프롬프트만 (analyze 필요)
+  similar ... --project <name> 특정 프로젝트만
+  similar ... --limit <n>      결과 개수 (기본 10)
+
+  rules                        사용자 규칙 팩 목록과 검증 오류
+  rules --dir <path>           다른 프로젝트의 규칙 팩 확인
+                               위치: ~/.prompt-evolution/rules, <프로젝트>/.prompt-evolution/rules
+
+  eval <corpus.jsonl>          라벨링된 코퍼스로 분류기/GOLDEN 정확도 측정
+  eval ... --paths rule,ai,hybrid  평가 경로 (기본: API 키가 있는 경로 전체)
+  eval ... --save-baseline <f> 결과를 기준선으로 저장
+  eval ... --baseline <f>      기준선 대비 회귀 표시 (회귀 시 종료 코드 1)
+  eval ... --tolerance 0.01    지표 하락 허용 오차
+  eval ... --json              JSON 출력
+
+  cache [stats]                LLM 응답 캐시 항목/용량/적중률 (--json)
+  cache clear [--task <task>]  캐시 비우기 (improve, judge, classify)
+  cache prune                  만료/한도 초과 항목 삭제
+
+  train                        내 이력으로 개인화 효과성 모델 학습 (전역 + 프로젝트별)
+  train --project <name>       특정 프로젝트 모델만 학습
+  train ... --min-samples <n>  최소 라벨 프롬프트 수 (기본 30)
+  train ... --top <n>          표시할 특징 중요도 개수 (기본 10)
+  train ... --json             JSON 출력
+
+  export --team                팀 대시보드용 익명화 번들 (프로젝트/대화 ID 해시, 신호/GOLDEN 집계)
+  export ... --output <path>   출력 경로 (기본 ./pe-team-<팀원>-<날짜>.json, - 이면 stdout)
+  export ... --member <name>   팀원 이름 (기본: OS 사용자 이름)
+  export ... --period 30d      최근 30일만 (7d, 4w, 3m, all)
+  export ... --redact-prompts  프롬프트 본문 제외 (분류/점수만)
+  export ... --share-details   팀 대시보드에서 내 개인별 상세 보기 허용
+  export ... --salt <value>    팀 공용 해시 솔트 (기본: PE_TEAM_SALT, 없으면 ~/.prompt-evolution/team-salt 를 만들어 사용)
+
+  redact "<text>"              가리기 규칙 적용 결과 확인 (--json: 발견 목록)
+  redact --audit               DB 에 남은 비밀값/PII 감사 (발견 시 종료 코드 1)
+  redact --audit --scrub       찾은 값을 자리표시자로 바꿔 저장 (원래 값은 대화별 금고에 보관)
+  redact --reveal <turn-id>    저장된 턴의 자리표시자를 원래 값으로 되돌려 출력
+  redact ... --limit <n>       예시 개수 (기본 10)
+                               규칙 설정: ~/.prompt-evolution/redaction.json, 끄기: PE_REDACTION=off
+
+  lint-instructions [paths...] 지침 파일 린트 (CLAUDE.md, AGENTS.md, GEMINI.md, .cursor/rules/*.mdc 등)
+                               경로 생략 시 현재 디렉터리, 디렉터리는 지원 형식 파일 탐색
+  lint-instructions ... --format text|json|sarif|github  출력 형식 (기본 text)
+  lint-instructions ... --max-severity <level>  이보다 심각한 이슈가 있으면 종료 코드 1
+                               (none, low, medium, high, critical / 기본 high)
+  lint-instructions ... --fix  안전한 제안 적용 (정확히 같은 중복 줄 삭제, 비밀값 가림)
   help                         도움말
 
+공통 옵션:
+  --source <source>            어시스턴트 선택 (${ASSISTANT_SOURCES.join(', ')})
+                               projects/sessions/parse 기본값: claude-code
+                               import/insights/report 기본값: 전체
+  Aider 저장소는 PE_AIDER_PROJECTS 환경변수에 경로 구분자로 나열
+
 예시:
   prompt-evolution projects
   prompt-evolution import                    # 모든 세션 임포트
   prompt-evolution import --incremental      # 새 세션만 임포트
+  prompt-evolution import --source codex-cli # Codex CLI 세션만 임포트
   prompt-evolution db-stats                  # DB 통계 확인
+  prompt-evolution db migrate --status       # 스키마 버전 확인
   prompt-evolution analyze                   # 모든 대화 품질 분석
   prompt-evolution analyze --incremental     # 분석 안 된 대화만
+  prompt-evolution analyze --llm --batch     # 과거 프롬프트 전체를 배치로 LLM 심사
   prompt-evolution insights                  # 전체 인사이트 리포트
   prompt-evolution insights --period 30d    # 최근 30일 분석
   prompt-evolution insights --problems      # 문제점만 표시
@@ -76,30 +174,55 @@ Prompt Evolution - AI 대화 분석 및 프롬프트 진화 시스템
   prompt-evolution improve "API 만들어" --offline  # 규칙 기반 개선
   prompt-evolution report                    # HTML 리포트 생성
   prompt-evolution report --output ./my-report.html  # 경로 지정
+  prompt-evolution report --format md --output - --period 2w  # 회고/PR 용 Markdown
+  prompt-evolution report --compare 7d:prev --format md --output -  # 지난주 대비 변화
+  prompt-evolution cost --period 7d --group-by day   # 최근 7일 일별 비용
+  prompt-evolution search "마이그레이션" --role user  # 내가 쓴 프롬프트 검색
+  prompt-evolution similar "auth fails after submit" --min-effectiveness 0.7
+  prompt-evolution rules                     # 규칙 팩 검증
+  prompt-evolution eval corpus.jsonl --baseline eval-baseline.json
+  prompt-evolution cache clear --task judge  # 심사 결과 캐시만 비우기
+  prompt-evolution train                     # analyze 후 개인화 모델 학습
+  prompt-evolution export --team --redact-prompts --period 30d  # 팀 서버에 올릴 번들
+  prompt-evolution redact --audit --scrub    # 가리기 도입 전에 임포트된 비밀값 지우기
+  prompt-evolution lint-instructions --fix --max-severity medium  # pre-commit 훅에서 지침 파일 검사
+  prompt-evolution lint-instructions --format sarif > instructions.sarif  # CI 코드 스캐닝 업로드
 `);
 }
 
 const flags = parseFlags(args.slice(1));
 
+let source: AssistantSource | undefined;
+if (typeof flags.source === 'string') {
+  if (!isAssistantSource(flags.source)) {
+    console.error(`알 수 없는 소스: ${flags.source} (사용 가능: ${ASSISTANT_SOURCES.join(', ')})`);
+    process.exit(1);
+  }
+  source = flags.source;
+}
+
+// 사용자 규칙 팩: 전역 + 현재 디렉토리의 프로젝트 규칙
+activateRulePacks(process.cwd());
+
 // 메인 실행 (async wrapper for improve command)
 (async () => {
   switch (command) {
     case 'projects':
-      projectsCommand();
+      projectsCommand(source);
       break;
     case 'sessions':
       if (!args[1]) {
         console.error('프로젝트 이름을 지정하세요.');
         process.exit(1);
       }
-      sessionsCommand(args[1]);
+      sessionsCommand(args[1], source);
       break;
     case 'parse':
       if (!args[1]) {
         console.error('프로젝트 이름을 지정하세요.');
         process.exit(1);
       }
-      parseCommand(args[1], args[2]);
+      parseCommand(args[1], args[2] && !args[2].startsWith('--') ? args[2] : undefined, source);
       break;
     case 'stats':
       statsCommand();
@@ -108,15 +231,30 @@ const flags = parseFlags(args.slice(1));
       importCommand({
         project: flags.project as string | undefined,
         incremental: flags.incremental === true,
+        source,
       });
       break;
     case 'db-stats':
       dbStatsCommand();
       break;
+    case 'db':
+      if (args[1] !== 'migrate') {
+        console.error(`알 수 없는 db 명령: ${args[1] ?? ''} (사용 가능: migrate)`);
+        process.exit(1);
+      }
+      dbMigrateCommand({
+        status: flags.status === true,
+        dryRun: flags['dry-run'] === true,
+      });
+      break;
     case 'analyze':
-      analyzeCommand({
+      await analyzeCommand({
         incremental: flags.incremental === true,
         conversationId: flags.conversation as string | undefined,
+        llm: flags.llm === true,
+        batch: flags.batch === true,
+        limit: flags.limit as string | undefined,
+        wait: flags['no-wait'] !== true,
       });
       break;
     case 'insights':
@@ -125,6 +263,7 @@ const flags = parseFlags(args.slice(1));
         category: flags.category as string | undefined,
         problemsOnly: flags.problems === true,
         strengthsOnly: flags.strengths === true,
+        source,
       });
       break;
     case 'classify': {
@@ -139,9 +278,112 @@ const flags = parseFlags(args.slice(1));
       break;
     }
     case 'report':
-      reportCommand({
+      await reportCommand({
         output: flags.output as string | undefined,
         period: flags.period as string | undefined,
+        format: flags.format as string | undefined,
+        schema: flags.schema === true,
+        compare: flags.compare as string | undefined,
+        from: flags.from as string | undefined,
+        to: flags.to as string | undefined,
+        source,
+      });
+      break;
+    case 'cost':
+      costCommand({
+        period: flags.period as string | undefined,
+        project: flags.project as string | undefined,
+        groupBy: flags['group-by'] as string | undefined,
+        reprice: flags.reprice === true,
+        source,
+      });
+      break;
+    case 'search': {
+      const searchQuery =
+        args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+      searchCommand({
+        query: searchQuery,
+        role: flags.role as string | undefined,
+        project: flags.project as string | undefined,
+        category: flags.category as string | undefined,
+        since: flags.since as string | undefined,
+        until: flags.until as string | undefined,
+        limit: flags.limit as string | undefined,
+        reindex: flags.reindex === true,
+        source,
+      });
+      break;
+    }
+    case 'similar': {
+      const similarText =
+        args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+      similarCommand({
+        text: similarText,
+        turn: flags.turn as string | undefined,
+        project: flags.project as string | undefined,
+        minEffectiveness: flags['min-effectiveness'] as string | undefined,
+        limit: flags.limit as string | undefined,
+        source,
+      });
+      break;
+    }
+    case 'eval':
+      await evalCommand({
+        corpus: args[1] && !args[1].startsWith('--') ? args[1] : undefined,
+        paths: flags.paths as string | undefined,
+        baseline: flags.baseline as string | undefined,
+        saveBaseline: flags['save-baseline'] as string | undefined,
+        tolerance: flags.tolerance as string | undefined,
+        json: flags.json === true,
+      });
+      break;
+    case 'rules':
+      rulesCommand({
+        dir: flags.dir as string | undefined,
+      });
+      break;
+    case 'cache':
+      cacheCommand({
+        action: args[1] && !args[1].startsWith('--') ? args[1] : undefined,
+        task: flags.task as string | undefined,
+        json: flags.json === true,
+      });
+      break;
+    case 'train':
+      trainCommand({
+        project: flags.project as string | undefined,
+        minSamples: flags['min-samples'] as string | undefined,
+        top: flags.top as string | undefined,
+        json: flags.json === true,
+      });
+      break;
+    case 'export':
+      exportCommand({
+        team: flags.team === true,
+        output: flags.output as string | undefined,
+        member: flags.member as string | undefined,
+        period: flags.period as string | undefined,
+        redactPrompts: flags['redact-prompts'] === true,
+        shareDetails: flags['share-details'] === true,
+        salt: flags.salt as string | undefined,
+      });
+      break;
+    case 'redact':
+      redactCommand({
+        text: args[1] && !args[1].startsWith('--') ? args[1] : undefined,
+        audit: flags.audit === true,
+        scrub: flags.scrub === true,
+        reveal: flags.reveal as string | undefined,
+        limit: flags.limit as string | undefined,
+        json: flags.json === true,
+      });
+      break;
+    case 'lint-instructions':
+      lintInstructionsCommand({
+        paths: parsePositionals(args.slice(1), ['fix']),
+        format: flags.format as string | undefined,
+        maxSeverity: flags['max-severity'] as string | undefined,
+        fix: flags.fix !== undefined,
       });
       break;
     case 'improve': {
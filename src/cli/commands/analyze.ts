@@ -3,13 +3,30 @@
  * Analyze conversations for quality signals
  */
 
-import { analyzeConversations } from '../services/analysis-service.js';
+import { analyzeConversations, judgePrompts } from '../services/analysis-service.js';
 
 export interface AnalyzeCommandOptions {
   incremental?: boolean;
   conversationId?: string;
+  /** 신호 분석 후 LLM 으로 프롬프트 GOLDEN 심사 */
+  llm?: boolean;
+  /** 백엔드 배치 API 로 심사 (재시작 후 이어서 수거) */
+  batch?: boolean;
+  limit?: string;
+  /** false: 배치 결과를 기다리지 않고 종료 */
+  wait?: boolean;
 }
 
-export function analyzeCommand(options: AnalyzeCommandOptions): void {
-  analyzeConversations(options);
+export async function analyzeCommand(options: AnalyzeCommandOptions): Promise<void> {
+  const analyzed = analyzeConversations(options);
+  if (!analyzed || !options.llm) return;
+
+  const limit = options.limit ? parseInt(options.limit, 10) : undefined;
+  if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+    console.log(`⚠️  잘못된 --limit: ${options.limit}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await judgePrompts({ batch: options.batch, limit, wait: options.wait });
 }
@@ -0,0 +1,91 @@
+/**
+ * Cache Command
+ * LLM response cache statistics and maintenance (cache stats|clear|prune)
+ */
+
+import {
+  LLM_TASKS,
+  getCacheStats,
+  clearLLMCache,
+  pruneLLMCache,
+  getLLMCacheSettings,
+  closeLLMCache,
+  type LLMTask,
+} from '../../llm/index.js';
+
+export interface CacheCommandOptions {
+  action?: string;
+  task?: string;
+  json?: boolean;
+}
+
+const CACHE_ACTIONS = ['stats', 'clear', 'prune'] as const;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatTime(ms: number | null): string {
+  return ms === null ? '-' : new Date(ms).toLocaleString();
+}
+
+function printStats(): void {
+  const stats = getCacheStats();
+  const settings = getLLMCacheSettings();
+
+  console.log(`경로: ${stats.path}${stats.enabled ? '' : ' (비활성: PE_LLM_CACHE=off 또는 llm.json cache.enabled=false)'}`);
+  console.log(
+    `한도: ${settings.maxEntries}개 / ${formatBytes(settings.maxSizeBytes)}, TTL ${Math.round(settings.ttlMs / 3_600_000)}시간\n`
+  );
+
+  console.log(`  ${'작업'.padEnd(10)} ${'항목'.padStart(4)} ${'용량'.padStart(8)} ${'적중'.padStart(4)} ${'실패'.padStart(4)}`);
+  for (const task of LLM_TASKS) {
+    const t = stats.byTask[task];
+    console.log(
+      `  ${task.padEnd(12)} ${String(t.entries).padStart(6)} ${formatBytes(t.sizeBytes).padStart(10)} ${String(t.hits).padStart(6)} ${String(t.misses).padStart(6)}`
+    );
+  }
+  console.log(
+    `  ${'합계'.padEnd(10)} ${String(stats.entries).padStart(6)} ${formatBytes(stats.sizeBytes).padStart(10)} ${String(stats.hits).padStart(6)} ${String(stats.misses).padStart(6)}`
+  );
+
+  console.log(`\n적중률: ${(stats.hitRate * 100).toFixed(1)}%`);
+  console.log(`가장 오래된 항목: ${formatTime(stats.oldestEntry)}`);
+  console.log(`가장 최근 항목:   ${formatTime(stats.newestEntry)}`);
+}
+
+export function cacheCommand(options: CacheCommandOptions): void {
+  const action = options.action ?? 'stats';
+  if (!(CACHE_ACTIONS as readonly string[]).includes(action)) {
+    console.error(`알 수 없는 cache 명령: ${action} (사용 가능: ${CACHE_ACTIONS.join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.task && !(LLM_TASKS as readonly string[]).includes(options.task)) {
+    console.error(`알 수 없는 작업: ${options.task} (사용 가능: ${LLM_TASKS.join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    if (action === 'stats') {
+      if (options.json) {
+        console.log(JSON.stringify(getCacheStats(), null, 2));
+        return;
+      }
+      console.log('\n🗃️  LLM 응답 캐시\n');
+      printStats();
+    } else if (action === 'clear') {
+      const removed = clearLLMCache(options.task as LLMTask | undefined);
+      console.log(`🧹 ${options.task ? `${options.task} ` : ''}캐시 ${removed}개 항목 삭제 (적중 통계 초기화)`);
+    } else {
+      const result = pruneLLMCache();
+      console.log(`✂️  만료 ${result.expired}개, 한도 초과 ${result.evicted}개 삭제`);
+    }
+  } finally {
+    closeLLMCache();
+  }
+}
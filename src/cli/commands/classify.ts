@@ -82,7 +82,7 @@ export function classifyCommand(options: ClassifyCommandOptions): void {
     for (const conv of conversations) {
       const turns = getTurnsByConversationId(conv.id);
       for (const turn of turns) {
-        if (turn.role === 'user' && turn.content) {
+        if (turn.role === 'user' && turn.content && turn.branch_type === 'main') {
           allUserTurns.push({
             content: turn.content,
             conversationId: conv.id,
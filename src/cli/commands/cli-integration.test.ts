@@ -9,18 +9,30 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // ─── Mocks ──────────────────────────────────────────────────────────
 
-vi.mock('../../parser/index.js', () => ({
-  listProjects: vi.fn(() => [
+vi.mock('../../parser/index.js', () => {
+  const listProjects = vi.fn(() => [
     '-Users-test-prompt-evolution',
     '-Users-test-ai-task-matrix',
-  ]),
-  listSessions: vi.fn((project: string) => {
+  ]);
+  const listSessions = vi.fn((project: string) => {
     if (project === '-Users-test-prompt-evolution') {
       return ['session-001.jsonl', 'session-002.jsonl'];
     }
     return ['session-003.jsonl'];
-  }),
-}));
+  });
+  return {
+    listProjects,
+    listSessions,
+    getSessionSource: vi.fn(() => ({
+      id: 'claude-code',
+      displayName: 'Claude Code',
+      listProjects: () => listProjects(),
+      listSessions: (project: string) => listSessions(project),
+    })),
+    beginSourceScan: vi.fn(<T>(source: T) => source),
+    decodeProjectPath: vi.fn((encoded: string) => encoded.replace(/-/g, '/').replace(/^\//, '')),
+  };
+});
 
 vi.mock('../../db/index.js', () => ({
   databaseExists: vi.fn(() => true),
@@ -38,9 +50,10 @@ vi.mock('../../db/index.js', () => ({
     { project: 'other', count: 5 },
   ]),
   getTurnsByConversationId: vi.fn(() => [
-    { id: 't1', role: 'user', content: 'Fix the login bug', timestamp: '2026-01-01T10:00:00Z' },
-    { id: 't2', role: 'assistant', content: 'I will fix the bug.', timestamp: '2026-01-01T10:01:00Z' },
+    { id: 't1', role: 'user', content: 'Fix the login bug', timestamp: '2026-01-01T10:00:00Z', branch_type: 'main' },
+    { id: 't2', role: 'assistant', content: 'I will fix the bug.', timestamp: '2026-01-01T10:01:00Z', branch_type: 'main' },
   ]),
+  getToolCallsByTurn: vi.fn(() => new Map()),
 }));
 
 vi.mock('../../analysis/index.js', () => ({
@@ -221,13 +234,13 @@ describe('Import Command (TC-C06, TC-C07)', () => {
 describe('Analyze Command (TC-C08, TC-C09)', () => {
   it('TC-C08: should run analysis command', async () => {
     const { analyzeCommand } = await import('./analyze.js');
-    try { analyzeCommand({}); } catch { /* mock limitations */ }
+    try { await analyzeCommand({}); } catch { /* mock limitations */ }
     expect(true).toBe(true);
   });
 
   it('TC-C09: should support incremental analysis', async () => {
     const { analyzeCommand } = await import('./analyze.js');
-    try { analyzeCommand({ incremental: true }); } catch { /* mock limitations */ }
+    try { await analyzeCommand({ incremental: true }); } catch { /* mock limitations */ }
     expect(true).toBe(true);
   });
 });
@@ -257,13 +270,13 @@ describe('Insights Command (TC-C10, TC-C11, TC-C12)', () => {
 describe('Report Command (TC-C13, TC-C14)', () => {
   it('TC-C13: should accept output path option', async () => {
     const { reportCommand } = await import('./report.js');
-    try { reportCommand({ output: '/tmp/test-report.html' }); } catch { /* needs DB */ }
+    try { await reportCommand({ output: '/tmp/test-report.html' }); } catch { /* needs DB */ }
     expect(true).toBe(true);
   });
 
   it('TC-C14: should accept period filter', async () => {
     const { reportCommand } = await import('./report.js');
-    try { reportCommand({ output: '/tmp/test-report.html', period: '7d' }); } catch { /* needs DB */ }
+    try { await reportCommand({ output: '/tmp/test-report.html', period: '7d' }); } catch { /* needs DB */ }
     expect(true).toBe(true);
   });
 });
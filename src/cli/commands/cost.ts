@@ -0,0 +1,141 @@
+/**
+ * Cost Command
+ * Show token spend per model, project or day
+ */
+
+import {
+  databaseExists,
+  initializeDatabase,
+  closeDatabase,
+  getCostTotals,
+  getCostBreakdown,
+  getTurnsWithUsage,
+  updateTurnCosts,
+  type CostGroupBy,
+  type CostFilter,
+} from '../../db/index.js';
+import {
+  calculateCost,
+  formatCost,
+  loadPricingTable,
+  PRICING_FILE_PATH,
+} from '../../analysis/index.js';
+import type { AssistantSource } from '../../types/index.js';
+import { parsePeriod } from '../utils/index.js';
+
+export interface CostCommandOptions {
+  period?: string;
+  project?: string;
+  groupBy?: string;
+  source?: AssistantSource;
+  reprice?: boolean;
+}
+
+const GROUP_BY_OPTIONS: CostGroupBy[] = ['model', 'project', 'day'];
+
+const GROUP_BY_LABELS: Record<CostGroupBy, string> = {
+  model: '모델별',
+  project: '프로젝트별',
+  day: '일별',
+};
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return tokens.toString();
+}
+
+/**
+ * Recalculate stored turn costs with the current pricing table
+ */
+function repriceTurns(): number {
+  const table = loadPricingTable();
+  const costs = getTurnsWithUsage().map((turn) => ({
+    id: turn.id,
+    costUsd: calculateCost(
+      {
+        inputTokens: turn.input_tokens ?? 0,
+        outputTokens: turn.output_tokens ?? 0,
+        cacheCreationTokens: turn.cache_creation_tokens ?? 0,
+        cacheReadTokens: turn.cache_read_tokens ?? 0,
+      },
+      turn.model,
+      table
+    ),
+  }));
+  updateTurnCosts(costs);
+  return costs.length;
+}
+
+export function costCommand(options: CostCommandOptions): void {
+  console.log('\n💰 토큰 비용\n');
+
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import 명령을 실행하세요.');
+    return;
+  }
+
+  const groupBy = (options.groupBy ?? 'model') as CostGroupBy;
+  if (!GROUP_BY_OPTIONS.includes(groupBy)) {
+    console.log(`⚠️  알 수 없는 그룹: ${options.groupBy} (사용 가능: ${GROUP_BY_OPTIONS.join(', ')})`);
+    return;
+  }
+
+  const period = parsePeriod(options.period);
+  if (!period) {
+    console.log(`⚠️  알 수 없는 기간: ${options.period} (예: 7d, 4w, 3m, all)`);
+    return;
+  }
+
+  initializeDatabase();
+
+  if (options.reprice) {
+    const count = repriceTurns();
+    console.log(`🔄 현재 가격표로 ${count.toLocaleString()}개 턴의 비용을 다시 계산했습니다.\n`);
+  }
+
+  const filter: CostFilter = {
+    startDate: period.startDate,
+    project: options.project,
+    source: options.source,
+  };
+  const totals = getCostTotals(filter);
+
+  if (totals.turns === 0) {
+    console.log('토큰 사용 기록이 없습니다.');
+    closeDatabase();
+    return;
+  }
+
+  console.log('='.repeat(60));
+  console.log(`📅 기간: ${period.label}${options.project ? ` / 프로젝트: ${options.project}` : ''}`);
+  console.log('='.repeat(60));
+  console.log(`총 비용: ${formatCost(totals.cost_usd)}`);
+  console.log(`대화: ${totals.conversations.toLocaleString()}개 (대화당 ${formatCost(totals.cost_usd / totals.conversations)})`);
+  console.log(
+    `토큰: 입력 ${formatTokens(totals.input_tokens)} / 출력 ${formatTokens(totals.output_tokens)} / ` +
+      `캐시 쓰기 ${formatTokens(totals.cache_creation_tokens)} / 캐시 읽기 ${formatTokens(totals.cache_read_tokens)}`
+  );
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`📊 ${GROUP_BY_LABELS[groupBy]} 비용`);
+  console.log('='.repeat(60));
+
+  const rows = getCostBreakdown(groupBy, filter);
+  rows.forEach((row) => {
+    const share = totals.cost_usd > 0 ? (row.cost_usd / totals.cost_usd) * 100 : 0;
+    console.log(
+      `${row.key.padEnd(32)} ${formatCost(row.cost_usd).padStart(10)} ${share.toFixed(1).padStart(5)}%  ` +
+        `(대화 ${row.conversations}, 출력 ${formatTokens(row.output_tokens)})`
+    );
+  });
+
+  if (totals.unpriced_turns > 0) {
+    console.log(
+      `\n⚠️  가격 정보가 없는 모델의 턴 ${totals.unpriced_turns.toLocaleString()}개는 비용에서 제외되었습니다.`
+    );
+    console.log(`   ${PRICING_FILE_PATH} 에 가격을 추가한 뒤 --reprice 로 다시 계산하세요.`);
+  }
+
+  closeDatabase();
+}
@@ -0,0 +1,70 @@
+/**
+ * DB Command
+ * Schema migrations (db migrate [--status] [--dry-run])
+ */
+
+import {
+  getDatabase,
+  getDatabasePath,
+  databaseExists,
+  closeDatabase,
+  runMigrations,
+  getMigrationStatus,
+  getSchemaVersion,
+  SCHEMA_VERSION,
+} from '../../db/index.js';
+
+export interface DbMigrateCommandOptions {
+  status?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Show or apply pending schema migrations
+ */
+export function dbMigrateCommand(options: DbMigrateCommandOptions): void {
+  console.log('\n🗄️  스키마 마이그레이션\n');
+
+  const dbPath = getDatabasePath();
+  if (options.status && !databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import 명령을 실행하세요.');
+    console.log(`   예상 경로: ${dbPath}`);
+    return;
+  }
+
+  const db = getDatabase();
+  console.log(`DB 경로: ${dbPath}`);
+  console.log(`스키마 버전: ${getSchemaVersion(db)} (최신: ${SCHEMA_VERSION})\n`);
+
+  if (options.status) {
+    for (const m of getMigrationStatus(db)) {
+      const mark = m.applied ? '✅' : '⏳';
+      const appliedAt = m.applied ? (m.appliedAt ?? '추적 이전') : '대기 중';
+      console.log(`${mark} ${String(m.version).padStart(3)}  ${m.name.padEnd(24)} ${appliedAt}`);
+    }
+    closeDatabase();
+    return;
+  }
+
+  try {
+    const result = runMigrations(db, { dryRun: options.dryRun });
+
+    if (result.applied.length === 0) {
+      console.log('✅ 적용할 마이그레이션이 없습니다.');
+    } else {
+      for (const m of result.applied) {
+        console.log(`  ${options.dryRun ? '→' : '✓'} ${m.version} ${m.name}`);
+      }
+      console.log(
+        options.dryRun
+          ? `\n🔍 dry-run: ${result.applied.length}개 적용 가능 (v${result.fromVersion} → v${result.toVersion}), 변경 사항은 되돌림`
+          : `\n✅ ${result.applied.length}개 적용됨 (v${result.fromVersion} → v${result.toVersion})`
+      );
+    }
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Eval Command
+ * Measure classifier and GOLDEN scorer accuracy on a labeled JSONL corpus
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { resolveLLMConfig, isLLMConfigured, getApiKeyEnvName } from '../../llm/index.js';
+import {
+  AIClassifier,
+  EVAL_PATHS,
+  parseEvalCorpus,
+  runEvaluation,
+  compareWithBaseline,
+  rulePredictor,
+  aiPredictor,
+  hybridPredictor,
+  type EvalPath,
+  type EvalPredictor,
+  type EvalReport,
+  type TaskReport,
+} from '../../analysis/index.js';
+
+export interface EvalCommandOptions {
+  corpus?: string;
+  paths?: string;
+  baseline?: string;
+  saveBaseline?: string;
+  tolerance?: string;
+  json?: boolean;
+}
+
+const TASK_LABELS: Record<TaskReport['task'], string> = {
+  intent: '의도',
+  category: '카테고리',
+  golden: 'GOLDEN 구간',
+};
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(6);
+
+/**
+ * 요청한 경로의 예측기 (API 키가 없으면 건너뜀)
+ */
+function createPredictors(paths: EvalPath[], explicit: boolean): Partial<Record<EvalPath, EvalPredictor>> {
+  const predictors: Partial<Record<EvalPath, EvalPredictor>> = {};
+
+  for (const path of paths) {
+    if (path === 'rule') {
+      predictors.rule = rulePredictor();
+    } else if (path === 'ai') {
+      const classifier = new AIClassifier();
+      if (classifier.isEnabled()) predictors.ai = aiPredictor(classifier);
+      else if (explicit) {
+        console.log(`⚠️  ${getApiKeyEnvName(resolveLLMConfig('classify').provider)}가 없어 ai 경로를 건너뜁니다.`);
+      }
+    } else if (path === 'hybrid') {
+      const judge = resolveLLMConfig('judge');
+      if (isLLMConfigured(judge)) predictors.hybrid = hybridPredictor({ enabled: true });
+      else if (explicit) console.log(`⚠️  ${getApiKeyEnvName(judge.provider)}가 없어 hybrid 경로를 건너뜁니다.`);
+    }
+  }
+
+  return predictors;
+}
+
+function printTask(task: TaskReport): void {
+  console.log(`\n  [${TASK_LABELS[task.task]}] ${task.total}건 · 정확도 ${pct(task.accuracy)} · macro-F1 ${pct(task.macroF1)}`);
+
+  console.log(`    ${'클래스'.padEnd(13)} 정밀도  재현율      F1  정답수`);
+  for (const cls of task.classes) {
+    console.log(
+      `    ${cls.label.padEnd(16)} ${pct(cls.precision)}  ${pct(cls.recall)}  ${pct(cls.f1)}  ${String(cls.support).padStart(6)}`
+    );
+  }
+
+  // 혼동 행렬: 열 머리글은 번호로 표시
+  const { labels, matrix } = task.confusion;
+  console.log('\n    혼동 행렬 (행: 정답, 열: 예측)');
+  console.log(`    ${''.padEnd(20)}${labels.map((_, i) => String(i + 1).padStart(5)).join('')}`);
+  matrix.forEach((row, i) => {
+    console.log(`    ${`${i + 1}. ${labels[i]}`.padEnd(20)}${row.map((n) => String(n || '.').padStart(5)).join('')}`);
+  });
+
+  if (task.calibration) {
+    console.log(`\n    보정 곡선 (ECE ${pct(task.ece ?? 0)})`);
+    for (const bin of task.calibration.filter((b) => b.count > 0)) {
+      console.log(
+        `    신뢰도 ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}  ${String(bin.count).padStart(4)}건  평균 신뢰도 ${pct(bin.meanConfidence)}  정확도 ${pct(bin.accuracy)}`
+      );
+    }
+  }
+}
+
+export async function evalCommand(options: EvalCommandOptions): Promise<void> {
+  if (!options.corpus) {
+    console.log('사용법:');
+    console.log('  prompt-evolution eval <corpus.jsonl> [--paths rule,ai,hybrid]');
+    console.log('  prompt-evolution eval <corpus.jsonl> --save-baseline eval-baseline.json');
+    console.log('  prompt-evolution eval <corpus.jsonl> --baseline eval-baseline.json');
+    return;
+  }
+
+  if (!existsSync(options.corpus)) {
+    console.log(`⚠️  코퍼스 파일이 없습니다: ${options.corpus}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const requested = options.paths ? options.paths.split(',').map((p) => p.trim()) : [...EVAL_PATHS];
+  const unknown = requested.filter((p) => !(EVAL_PATHS as readonly string[]).includes(p));
+  if (unknown.length > 0) {
+    console.log(`⚠️  알 수 없는 경로: ${unknown.join(', ')} (사용 가능: ${EVAL_PATHS.join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const tolerance = options.tolerance ? parseFloat(options.tolerance) : 0.01;
+  if (isNaN(tolerance) || tolerance < 0) {
+    console.log(`⚠️  잘못된 허용 오차: ${options.tolerance}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let baseline: EvalReport | undefined;
+  if (options.baseline) {
+    try {
+      baseline = JSON.parse(readFileSync(options.baseline, 'utf-8')) as EvalReport;
+    } catch (err) {
+      console.log(`⚠️  기준선 파일을 읽을 수 없습니다: ${options.baseline} (${(err as Error).message})`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const { cases, errors } = parseEvalCorpus(readFileSync(options.corpus, 'utf-8'));
+  const predictors = createPredictors(requested as EvalPath[], !!options.paths);
+
+  if (!options.json) {
+    console.log('\n🎯 분류기 / GOLDEN 평가\n');
+    console.log(`코퍼스: ${options.corpus} (${cases.length}건)`);
+    for (const error of errors) {
+      console.log(`⚠️  ${error.line}번째 줄 건너뜀: ${error.message}`);
+    }
+    console.log(`경로: ${Object.keys(predictors).join(', ') || '없음'}`);
+  }
+
+  if (cases.length === 0) {
+    console.log('⚠️  평가할 케이스가 없습니다.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = await runEvaluation(cases, predictors);
+  const comparison = baseline ? compareWithBaseline(report, baseline, tolerance) : undefined;
+
+  if (options.json) {
+    console.log(JSON.stringify({ report, comparison }, null, 2));
+  } else {
+    for (const pathReport of report.paths) {
+      console.log(`\n${'='.repeat(60)}`);
+      console.log(`📊 ${pathReport.path} 경로`);
+      console.log('='.repeat(60));
+      for (const failure of pathReport.failures) {
+        console.log(`  ❌ ${failure.id}: ${failure.message}`);
+      }
+      pathReport.tasks.forEach(printTask);
+    }
+
+    if (comparison) {
+      console.log(`\n${'='.repeat(60)}`);
+      console.log(`📉 기준선 비교 (${options.baseline}, 허용 오차 ${tolerance})`);
+      console.log('='.repeat(60));
+      if (comparison.regressions.length === 0 && comparison.newlyFailing.length === 0) {
+        console.log('  ✅ 회귀 없음');
+      }
+      for (const r of comparison.regressions) {
+        console.log(`  ⬇️  ${r.path}/${r.task} ${r.metric}: ${pct(r.baseline)} → ${pct(r.current)}`);
+      }
+      for (const f of comparison.newlyFailing) {
+        console.log(`  ✗ ${f.path}/${f.task} ${f.id} (기준선에서는 정답)`);
+      }
+      if (comparison.newlyPassing.length > 0) {
+        console.log(`  ✓ 새로 맞힌 케이스 ${comparison.newlyPassing.length}건`);
+      }
+    }
+  }
+
+  if (options.saveBaseline) {
+    writeFileSync(options.saveBaseline, JSON.stringify(report, null, 2) + '\n');
+    if (!options.json) console.log(`\n💾 기준선 저장: ${options.saveBaseline}`);
+  }
+
+  if (comparison && (comparison.regressions.length > 0 || comparison.newlyFailing.length > 0)) {
+    process.exitCode = 1;
+  }
+}
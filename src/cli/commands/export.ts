@@ -0,0 +1,101 @@
+/**
+ * Export Command
+ * Write an anonymized team bundle (`--team`) for the shared team dashboard
+ */
+
+import { writeFileSync } from 'fs';
+import { userInfo } from 'os';
+import {
+  databaseExists,
+  initializeDatabase,
+  closeDatabase,
+} from '../../db/index.js';
+import { exportTeamBundle, resolveTeamSalt, teamMemberNameSchema, type ResolvedTeamSalt } from '../../team/index.js';
+import { parsePeriod } from '../utils/index.js';
+
+export interface ExportCommandOptions {
+  team?: boolean;
+  output?: string;
+  member?: string;
+  period?: string;
+  redactPrompts?: boolean;
+  shareDetails?: boolean;
+  salt?: string;
+}
+
+export function exportCommand(options: ExportCommandOptions): void {
+  if (!options.team) {
+    console.log('⚠️  내보낼 형식을 지정하세요: export --team');
+    process.exitCode = 1;
+    return;
+  }
+
+  const member = teamMemberNameSchema.safeParse(options.member ?? userInfo().username);
+  if (!member.success) {
+    console.log(`⚠️  잘못된 팀원 이름: ${options.member ?? userInfo().username} (영문/숫자/한글과 . _ @ - 만 사용)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const period = parsePeriod(options.period);
+  if (!period) {
+    console.log(`⚠️  알 수 없는 기간: ${options.period} (예: 7d, 4w, 3m, all)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // stdout 으로 내보낼 때는 진행 메시지를 출력하지 않음
+  const toStdout = options.output === '-';
+  if (!toStdout) console.log('\n👥 팀 번들 내보내기\n');
+
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import와 analyze 명령을 실행하세요.');
+    return;
+  }
+
+  let salt: ResolvedTeamSalt;
+  try {
+    salt = resolveTeamSalt(options.salt);
+  } catch {
+    console.log('⚠️  팀 솔트가 비어 있습니다. --salt <값>, PE_TEAM_SALT 또는 솔트 파일에 빈 값이 아닌 솔트를 지정하세요.');
+    process.exitCode = 1;
+    return;
+  }
+
+  initializeDatabase();
+  try {
+    const bundle = exportTeamBundle({
+      member: member.data,
+      shareDetails: options.shareDetails === true,
+      redactPrompts: options.redactPrompts === true,
+      salt: salt.salt,
+      start: period.startDate,
+    });
+    const content = JSON.stringify(bundle, null, 2) + '\n';
+
+    if (toStdout) {
+      process.stdout.write(content);
+      if (salt.origin === 'generated') {
+        console.error(`새 팀 솔트를 만들어 ${salt.path} 에 저장했습니다. 팀원에게 공유하세요.`);
+      }
+      return;
+    }
+
+    const outputPath = options.output || `./pe-team-${bundle.member.name}-${bundle.exportedAt.slice(0, 10)}.json`;
+    writeFileSync(outputPath, content);
+
+    console.log(`✅ 팀 번들 생성 완료: ${outputPath}`);
+    console.log(`   팀원: ${bundle.member.name} (개인별 상세 보기 ${bundle.member.shareDetails ? '허용' : '비공개'})`);
+    console.log(`   기간: ${period.label}`);
+    console.log(`   대화: ${bundle.conversations.length}개 / 프롬프트: ${bundle.prompts.length}개`);
+    console.log(`   프롬프트 본문: ${bundle.redactedPrompts ? '제외 (--redact-prompts)' : '포함'}`);
+    if (salt.origin === 'generated') {
+      console.log(`\n🔑 새 팀 솔트를 만들어 ${salt.path} 에 저장했습니다.`);
+      console.log('   팀원 전원이 같은 솔트를 써야 같은 프로젝트로 묶입니다. 이 파일을 공유하거나 PE_TEAM_SALT 로 지정하세요.');
+    }
+    console.log('\n   팀 서버로 보내기: curl -X POST -H "Content-Type: application/json" \\');
+    console.log(`     --data-binary @${outputPath} http://<서버>/api/team/import`);
+  } finally {
+    closeDatabase();
+  }
+}
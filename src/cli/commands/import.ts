@@ -1,13 +1,15 @@
 /**
  * Import Command
- * Import Claude Code sessions to database
+ * Import assistant sessions to database
  */
 
 import { importToDatabase } from '../services/import-service.js';
+import type { AssistantSource } from '../../types/index.js';
 
 export interface ImportCommandOptions {
   project?: string;
   incremental?: boolean;
+  source?: AssistantSource;
 }
 
 export function importCommand(options: ImportCommandOptions): void {
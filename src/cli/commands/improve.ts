@@ -8,6 +8,7 @@ import {
   improvePromptWithRules,
   type ImprovedPrompt,
 } from '../../analysis/self-improvement.js';
+import { resolveLLMConfig, isLLMConfigured, getApiKeyEnvName } from '../../llm/index.js';
 
 export interface ImproveCommandOptions {
   text?: string;
@@ -35,14 +36,17 @@ export async function improveCommand(
     console.log('📖 규칙 기반 개선 (오프라인)\n');
     result = improvePromptWithRules(options.text);
   } else {
-    console.log('🤖 LLM 기반 개선 중...\n');
+    const llmConfig = resolveLLMConfig('improve');
+    console.log(`🤖 LLM 기반 개선 중... (${llmConfig.provider} · ${llmConfig.model})\n`);
 
-    if (!process.env.ANTHROPIC_API_KEY) {
-      console.log('⚠️  ANTHROPIC_API_KEY가 설정되지 않았습니다.');
+    if (!isLLMConfigured(llmConfig)) {
+      const keyEnv = getApiKeyEnvName(llmConfig.provider);
+      console.log(`⚠️  ${keyEnv}가 설정되지 않았습니다.`);
       console.log(
         '   환경 변수를 설정하거나 --offline 옵션을 사용하세요.\n'
       );
-      console.log('   예: export ANTHROPIC_API_KEY=sk-...');
+      console.log(`   예: export ${keyEnv}=sk-...`);
+      console.log('   로컬 모델: export PE_LLM_PROVIDER=openai-compatible PE_LLM_BASE_URL=http://localhost:11434/v1');
       console.log(
         '   또는: prompt-evolution improve "<text>" --offline\n'
       );
@@ -13,6 +13,17 @@ export { insightsCommand } from './insights.js';
 export { classifyCommand } from './classify.js';
 export { improveCommand } from './improve.js';
 export { reportCommand } from './report.js';
+export { costCommand } from './cost.js';
+export { dbMigrateCommand } from './db.js';
+export { searchCommand } from './search.js';
+export { similarCommand } from './similar.js';
+export { rulesCommand } from './rules.js';
+export { evalCommand } from './eval.js';
+export { cacheCommand } from './cache.js';
+export { trainCommand } from './train.js';
+export { exportCommand } from './export.js';
+export { redactCommand } from './redact.js';
+export { lintInstructionsCommand } from './lint-instructions.js';
 
 // Re-export types
 export type { ImportCommandOptions } from './import.js';
@@ -21,3 +32,14 @@ export type { InsightsCommandOptions } from './insights.js';
 export type { ClassifyCommandOptions } from './classify.js';
 export type { ImproveCommandOptions } from './improve.js';
 export type { ReportCommandOptions } from './report.js';
+export type { CostCommandOptions } from './cost.js';
+export type { DbMigrateCommandOptions } from './db.js';
+export type { SearchCommandOptions } from './search.js';
+export type { SimilarCommandOptions } from './similar.js';
+export type { RulesCommandOptions } from './rules.js';
+export type { EvalCommandOptions } from './eval.js';
+export type { CacheCommandOptions } from './cache.js';
+export type { TrainCommandOptions } from './train.js';
+export type { ExportCommandOptions } from './export.js';
+export type { RedactCommandOptions } from './redact.js';
+export type { LintInstructionsCommandOptions } from './lint-instructions.js';
@@ -9,21 +9,24 @@ import {
   closeDatabase,
   getTotalSignalCount,
   getAllConversations,
-  getTurnsByConversationId,
 } from '../../db/index.js';
 import {
   detectConversationSignals,
   analyzeEffectiveness,
+  attributePromptOutcomes,
   generateInsights,
   formatReport,
-  type TurnForAnalysis,
+  type PromptData,
   type TimePeriod,
   type TaskCategory,
 } from '../../analysis/index.js';
+import { loadPersonalModel, loadTurnsForAnalysis, resolveEffectivenessWeights } from '../../sync/index.js';
+import type { AssistantSource } from '../../types/index.js';
 
 export interface InsightsCommandOptions {
   period?: string;
   category?: string;
+  source?: AssistantSource;
   problemsOnly?: boolean;
   strengthsOnly?: boolean;
 }
@@ -37,6 +40,8 @@ export function insightsCommand(options: InsightsCommandOptions): void {
   }
 
   initializeDatabase();
+  // 학습된 개인화 모델이 있으면 예상 성공률을 함께 표시
+  const personalModel = loadPersonalModel();
 
   const totalSignals = getTotalSignalCount();
 
@@ -47,44 +52,32 @@ export function insightsCommand(options: InsightsCommandOptions): void {
   }
 
   // Get all conversations with their analysis data
-  const conversations = getAllConversations();
-  const analysisData: Array<{
-    content: string;
-    conversationId: string;
-    effectiveness: number;
-    timestamp: Date;
-  }> = [];
+  const conversations = getAllConversations({ source: options.source });
+  const analysisData: PromptData[] = [];
 
   for (const conv of conversations) {
-    const turns = getTurnsByConversationId(conv.id);
-    const userTurns = turns.filter((t) => t.role === 'user' && t.content);
+    const turnData = loadTurnsForAnalysis(conv.id);
+    // 되감기로 버려진 프롬프트와 서브 에이전트 스레드는 제외
+    const userTurns = turnData.filter((t) => t.role === 'user' && t.content && t.branchType === 'main');
 
     if (userTurns.length === 0) continue;
 
-    const firstUserContent = userTurns[0].content;
-    if (!firstUserContent) continue;
-
     // Get effectiveness (from signals)
-    const turnData: TurnForAnalysis[] = turns.map((t, i) => ({
-      id: t.id,
-      role: t.role as 'user' | 'assistant',
-      content: t.content || '',
-      turnIndex: i,
-    }));
-
     const signals = detectConversationSignals(conv.id, turnData);
-    const effectiveness = analyzeEffectiveness(signals);
+    const effectiveness = analyzeEffectiveness(signals, resolveEffectivenessWeights(conv.project));
+    // 프롬프트별 하류 결과 (비용이 큰 프롬프트 섹션)
+    const outcomes = new Map(attributePromptOutcomes(turnData, signals.signals).map((o) => [o.turnId, o]));
 
     // Collect all user prompts for this conversation
     for (const userTurn of userTurns) {
-      if (userTurn.content) {
-        analysisData.push({
-          content: userTurn.content,
-          conversationId: conv.id,
-          effectiveness: effectiveness.score.overall,
-          timestamp: new Date(conv.started_at || Date.now()),
-        });
-      }
+      analysisData.push({
+        content: userTurn.content,
+        conversationId: conv.id,
+        turnId: userTurn.id,
+        effectiveness: effectiveness.score.overall,
+        timestamp: new Date(conv.started_at || Date.now()),
+        outcome: outcomes.get(userTurn.id),
+      });
     }
   }
 
@@ -128,6 +121,7 @@ export function insightsCommand(options: InsightsCommandOptions): void {
   const report = generateInsights(analysisData, {
     period,
     category: categoryFilter,
+    personalModel,
   });
 
   // Filter based on options
@@ -0,0 +1,141 @@
+/**
+ * lint-instructions Command Tests
+ *
+ * 실제 임시 디렉터리의 지침 파일로 형식/종료 코드/--fix 확인
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { lintInstructionsCommand } from './lint-instructions.js';
+import { parsePositionals } from '../utils/index.js';
+
+const CLEAN = [
+  '# Project',
+  '',
+  'This project is a web app built with TypeScript.',
+  '',
+  '## Commands',
+  '',
+  '```bash',
+  'npm run build && npm test',
+  '```',
+].join('\n');
+
+const SECRET = 'sk-ant-REDACTED';
+
+let tmpDir: string;
+let logSpy: MockInstance<typeof console.log>;
+
+function output(): string {
+  return logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+}
+
+function write(name: string, content: string): string {
+  const filePath = path.join(tmpDir, name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf-8');
+  return filePath;
+}
+
+describe('lintInstructionsCommand', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pe-lint-cli-'));
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    process.exitCode = undefined;
+  });
+
+  it('passes a clean file', () => {
+    const filePath = write('CLAUDE.md', CLEAN);
+
+    lintInstructionsCommand({ paths: [filePath] });
+
+    expect(process.exitCode).toBeUndefined();
+    expect(output()).toContain('✅ 통과');
+  });
+
+  it('fails when an issue is more severe than --max-severity', () => {
+    const filePath = write('CLAUDE.md', `${CLEAN}\n\nWrite good code.`);
+
+    lintInstructionsCommand({ paths: [filePath], maxSeverity: 'high' });
+    expect(process.exitCode).toBeUndefined();
+
+    lintInstructionsCommand({ paths: [filePath], maxSeverity: 'low' });
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('discovers instruction files when given a directory', () => {
+    write('CLAUDE.md', CLEAN);
+    write('.cursor/rules/api.mdc', '---\ndescription: API rules\n---\n\nUse zod for request validation.');
+
+    lintInstructionsCommand({ paths: [tmpDir], format: 'json' });
+
+    const report = JSON.parse(output());
+    expect(report.files.map((f: { result: { fileFormat: string } }) => f.result.fileFormat)).toEqual([
+      'claude-md',
+      'cursor-mdc',
+    ]);
+  });
+
+  it('prints GitHub annotations', () => {
+    const filePath = write('CLAUDE.md', `${CLEAN}\n\nWrite good code.`);
+
+    lintInstructionsCommand({ paths: [filePath], format: 'github' });
+
+    expect(output()).toMatch(/^::warning file=.*CLAUDE\.md,line=11,endLine=11,title=vague \(medium\)::Vague instruction/m);
+  });
+
+  it('prints a SARIF log', () => {
+    const filePath = write('CLAUDE.md', `${CLEAN}\n\nAPI_KEY=${SECRET}`);
+
+    lintInstructionsCommand({ paths: [filePath], format: 'sarif' });
+
+    const log = JSON.parse(output());
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].results[0]).toMatchObject({ ruleId: 'security', level: 'error' });
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('applies safe fixes with --fix and gates on what remains', () => {
+    const filePath = write('CLAUDE.md', `${CLEAN}\n\nAPI_KEY=${SECRET}`);
+
+    lintInstructionsCommand({ paths: [filePath], fix: true });
+
+    const fixed = fs.readFileSync(filePath, 'utf-8');
+    expect(fixed).not.toContain(SECRET);
+    expect(fixed).toContain('API_KEY=<REDACTED>');
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('rejects unknown formats and severities', () => {
+    lintInstructionsCommand({ paths: [], format: 'xml' });
+    expect(process.exitCode).toBe(1);
+
+    process.exitCode = undefined;
+    lintInstructionsCommand({ paths: [], maxSeverity: 'severe' });
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('fails on missing paths', () => {
+    lintInstructionsCommand({ paths: [path.join(tmpDir, 'nope.md')] });
+
+    expect(process.exitCode).toBe(1);
+  });
+});
+
+describe('parsePositionals', () => {
+  it('skips flags and their values but not boolean flags', () => {
+    expect(parsePositionals(['--format', 'json', '--fix', 'CLAUDE.md', 'AGENTS.md'], ['fix'])).toEqual([
+      'CLAUDE.md',
+      'AGENTS.md',
+    ]);
+  });
+});
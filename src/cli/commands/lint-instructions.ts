@@ -0,0 +1,210 @@
+/**
+ * Lint Instructions Command
+ * Lint CLAUDE.md / AGENTS.md / Cursor·Copilot rule files and gate on severity (pre-commit, CI)
+ */
+
+import { readFileSync, statSync, writeFileSync } from 'fs';
+import path from 'path';
+import {
+  applySafeFixes,
+  discoverInstructionFiles,
+  lintInstructionFile,
+  toSarif,
+  SEVERITY_ORDER,
+  type AppliedFix,
+  type IssueSeverity,
+  type LintResult,
+} from '../../instruction-linter/index.js';
+
+export interface LintInstructionsCommandOptions {
+  paths: string[];
+  format?: string;
+  maxSeverity?: string;
+  fix?: boolean;
+}
+
+const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'github'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// none: 이슈가 하나라도 있으면 실패, critical: 이슈로는 실패하지 않음
+const MAX_SEVERITY_LEVELS = ['none', 'low', 'medium', 'high', 'critical'] as const;
+type MaxSeverity = typeof MAX_SEVERITY_LEVELS[number];
+
+const DEFAULT_MAX_SEVERITY: MaxSeverity = 'high';
+
+const GITHUB_LEVEL: Record<string, string> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'notice',
+};
+
+interface FileReport {
+  result: LintResult;
+  fixes: AppliedFix[];
+}
+
+interface FileError {
+  filePath: string;
+  error: string;
+}
+
+/**
+ * 경로 목록을 린트 대상 파일로 펼침 (디렉터리는 지원 형식 파일 탐색)
+ */
+function collectTargets(paths: string[]): { files: string[]; errors: FileError[] } {
+  const files: string[] = [];
+  const errors: FileError[] = [];
+
+  for (const input of paths.length > 0 ? paths : ['.']) {
+    const absolute = path.resolve(input);
+    let isDirectory: boolean;
+    try {
+      isDirectory = statSync(absolute).isDirectory();
+    } catch {
+      errors.push({ filePath: absolute, error: `File not found: ${absolute}` });
+      continue;
+    }
+
+    if (isDirectory) {
+      files.push(...discoverInstructionFiles(absolute).map((f) => f.path));
+    } else {
+      files.push(absolute);
+    }
+  }
+
+  return { files: [...new Set(files)], errors };
+}
+
+/**
+ * 이슈가 허용 수준보다 심각한지 (SEVERITY_ORDER: critical 0 → low 3)
+ */
+function exceeds(severity: string, maxSeverity: MaxSeverity): boolean {
+  if (maxSeverity === 'none') return true;
+  const rank = SEVERITY_ORDER[severity as IssueSeverity];
+  return rank !== undefined && rank < SEVERITY_ORDER[maxSeverity];
+}
+
+/**
+ * 안전한 제안(중복 병합, 비밀값 제거)을 파일에 적용하고 다시 린트
+ */
+function lintWithFixes(filePath: string): FileReport {
+  const result = lintInstructionFile(filePath);
+  const content = readFileSync(result.filePath, 'utf-8');
+  const { content: fixed, applied } = applySafeFixes(content, result);
+  if (applied.length === 0) return { result, fixes: [] };
+
+  writeFileSync(result.filePath, fixed, 'utf-8');
+  return { result: lintInstructionFile(filePath), fixes: applied };
+}
+
+/**
+ * GitHub Actions 워크플로 명령 값 이스케이프
+ */
+function escapeGithubData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeGithubProperty(value: string): string {
+  return escapeGithubData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+function printGithub(reports: FileReport[]): void {
+  for (const { result } of reports) {
+    const file = escapeGithubProperty(path.relative(process.cwd(), result.filePath).split(path.sep).join('/'));
+    for (const issue of result.issues) {
+      const line = Math.max(1, issue.location.lineStart);
+      const endLine = Math.max(line, issue.location.lineEnd);
+      const title = escapeGithubProperty(`${issue.type} (${issue.severity})`);
+      console.log(
+        `::${GITHUB_LEVEL[issue.severity] ?? 'warning'} file=${file},line=${line},endLine=${endLine},title=${title}::${escapeGithubData(issue.description)}`
+      );
+    }
+  }
+}
+
+function printText(reports: FileReport[], maxSeverity: MaxSeverity): void {
+  for (const { result, fixes } of reports) {
+    const relative = path.relative(process.cwd(), result.filePath) || result.filePath;
+    console.log(`\n📋 ${relative} (${result.fileFormat}) — ${result.overallScore}점 ${result.grade}`);
+
+    for (const fix of fixes) {
+      const action = fix.type === 'merge' ? '중복 줄 삭제' : `비밀값 가림: ${fix.after?.trim()}`;
+      console.log(`  🔧 ${String(fix.line).padStart(4)}행  ${action}`);
+    }
+
+    if (result.issues.length === 0) {
+      console.log('  ✅ 이슈 없음');
+      continue;
+    }
+    for (const issue of result.issues) {
+      const marker = exceeds(issue.severity, maxSeverity) ? '❌' : '  ';
+      const line = issue.location.lineStart > 0 ? `${issue.location.lineStart}행` : '파일';
+      console.log(`  ${marker} ${line.padStart(5)}  [${issue.severity}] ${issue.type}  ${issue.description}`);
+      if (issue.suggestion) console.log(`           → ${issue.suggestion}`);
+    }
+  }
+}
+
+export function lintInstructionsCommand(options: LintInstructionsCommandOptions): void {
+  const format = (options.format ?? 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.log(`⚠️  알 수 없는 형식: ${options.format} (사용 가능: ${OUTPUT_FORMATS.join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const maxSeverity = (options.maxSeverity ?? DEFAULT_MAX_SEVERITY) as MaxSeverity;
+  if (!MAX_SEVERITY_LEVELS.includes(maxSeverity)) {
+    console.log(`⚠️  알 수 없는 --max-severity: ${options.maxSeverity} (사용 가능: ${MAX_SEVERITY_LEVELS.join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { files, errors } = collectTargets(options.paths);
+  const reports: FileReport[] = [];
+  for (const filePath of files) {
+    try {
+      reports.push(options.fix ? lintWithFixes(filePath) : { result: lintInstructionFile(filePath), fixes: [] });
+    } catch (err) {
+      errors.push({ filePath, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const failing = reports.reduce(
+    (count, { result }) => count + result.issues.filter((i) => exceeds(i.severity, maxSeverity)).length,
+    0
+  );
+  const fixCount = reports.reduce((count, r) => count + r.fixes.length, 0);
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ maxSeverity, failing, files: reports, errors }, null, 2));
+  } else if (format === 'sarif') {
+    console.log(JSON.stringify(toSarif(reports.map((r) => r.result)), null, 2));
+  } else if (format === 'github') {
+    printGithub(reports);
+  } else {
+    console.log(`\n🧭 지침 파일 린트 (${reports.length}개 파일, --max-severity ${maxSeverity})`);
+    printText(reports, maxSeverity);
+  }
+
+  // 기계용 형식은 stdout 을 그대로 파이프할 수 있도록 경고를 stderr 로
+  const warn = format === 'text' ? console.log : console.error;
+  for (const { filePath, error } of errors) {
+    warn(`⚠️  ${filePath}: ${error}`);
+  }
+
+  if (format === 'text') {
+    if (reports.length === 0 && errors.length === 0) {
+      console.log('\n⚠️  린트할 지침 파일이 없습니다 (CLAUDE.md, AGENTS.md, .cursor/rules/*.mdc 등)');
+    }
+    if (fixCount > 0) console.log(`\n🔧 ${fixCount}건 자동 수정`);
+    if (failing > 0) {
+      console.log(`\n❌ --max-severity ${maxSeverity} 를 넘는 이슈 ${failing}건`);
+    } else if (reports.length > 0) {
+      console.log('\n✅ 통과');
+    }
+  }
+
+  if (failing > 0 || errors.length > 0) process.exitCode = 1;
+}
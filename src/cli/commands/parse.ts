@@ -1,12 +1,23 @@
 /**
  * Parse Command
- * Parse and display a Claude Code session
+ * Parse and display an assistant session
  */
 
-import { listSessions, parseSession } from '../../parser/index.js';
+import { getSessionSource } from '../../parser/index.js';
+import type { AssistantSource } from '../../types/index.js';
 
-export function parseCommand(projectName: string, sessionFile?: string): void {
-  const sessions = sessionFile ? [sessionFile] : listSessions(projectName);
+export function parseCommand(
+  projectName: string,
+  sessionFile?: string,
+  sourceId: AssistantSource = 'claude-code'
+): void {
+  const source = getSessionSource(sourceId);
+  if (!source) {
+    console.log(`알 수 없는 소스: ${sourceId}`);
+    return;
+  }
+
+  const sessions = sessionFile ? [sessionFile] : source.listSessions(projectName);
 
   if (sessions.length === 0) {
     console.log('세션이 없습니다.');
@@ -17,7 +28,7 @@ export function parseCommand(projectName: string, sessionFile?: string): void {
   const targetSession = sessions[sessions.length - 1];
   console.log(`\n🔍 파싱 중: ${targetSession}\n`);
 
-  const conversation = parseSession(projectName, targetSession);
+  const conversation = source.parseSession(projectName, targetSession);
 
   if (!conversation) {
     console.log('파싱 실패');
@@ -26,6 +37,7 @@ export function parseCommand(projectName: string, sessionFile?: string): void {
 
   console.log('='.repeat(60));
   console.log(`세션 ID: ${conversation.id}`);
+  console.log(`소스: ${source.displayName}`);
   console.log(`프로젝트: ${conversation.projectPath}`);
   console.log(`모델: ${conversation.model}`);
   console.log(`시작: ${conversation.startedAt.toLocaleString()}`);
@@ -34,6 +46,11 @@ export function parseCommand(projectName: string, sessionFile?: string): void {
     `토큰: 입력 ${conversation.totalInputTokens.toLocaleString()} / 출력 ${conversation.totalOutputTokens.toLocaleString()}`
   );
   console.log(`턴 수: ${conversation.turns.length}`);
+  const abandoned = conversation.turns.filter((t) => t.branchType === 'abandoned').length;
+  const sidechain = conversation.turns.filter((t) => t.branchType === 'sidechain').length;
+  if (abandoned > 0 || sidechain > 0) {
+    console.log(`분기: 버려진 턴 ${abandoned}개 / 서브 에이전트 턴 ${sidechain}개`);
+  }
   console.log('='.repeat(60));
 
   if (conversation.summaries.length > 0) {
@@ -1,13 +1,21 @@
 /**
  * Projects Command
- * List all Claude Code projects
+ * List projects for an assistant source
  */
 
-import { listProjects, listSessions } from '../../parser/index.js';
+import { getSessionSource, beginSourceScan, decodeProjectPath } from '../../parser/index.js';
+import type { AssistantSource } from '../../types/index.js';
 
-export function projectsCommand(): void {
-  console.log('\n📁 Claude Code 프로젝트 목록\n');
-  const projects = listProjects();
+export function projectsCommand(sourceId: AssistantSource = 'claude-code'): void {
+  const registered = getSessionSource(sourceId);
+  if (!registered) {
+    console.log(`알 수 없는 소스: ${sourceId}`);
+    return;
+  }
+  const source = beginSourceScan(registered);
+
+  console.log(`\n📁 ${source.displayName} 프로젝트 목록\n`);
+  const projects = source.listProjects();
 
   if (projects.length === 0) {
     console.log('프로젝트가 없습니다.');
@@ -15,8 +23,8 @@ export function projectsCommand(): void {
   }
 
   projects.forEach((project, i) => {
-    const sessions = listSessions(project);
-    const decoded = project.replace(/-/g, '/').replace(/^\//, '');
+    const sessions = source.listSessions(project);
+    const decoded = decodeProjectPath(project);
     console.log(`${i + 1}. ${decoded}`);
     console.log(`   세션: ${sessions.length}개`);
     console.log(`   ID: ${project}\n`);
@@ -0,0 +1,146 @@
+/**
+ * Redact Command
+ * Try the redaction rules on a text, audit (and scrub) secrets/PII already stored in the database,
+ * or reveal a stored turn with its placeholders restored from the conversation vault
+ */
+
+import {
+  databaseExists,
+  initializeDatabase,
+  closeDatabase,
+} from '../../db/index.js';
+import {
+  auditStoredText,
+  getRedactor,
+  getRedactionConfigPath,
+  maskFinding,
+  revealStoredTurn,
+  type RedactionAuditReport,
+} from '../../redaction/index.js';
+
+export interface RedactCommandOptions {
+  text?: string;
+  audit?: boolean;
+  scrub?: boolean;
+  reveal?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+function printAudit(report: RedactionAuditReport): void {
+  console.log(`  ${'위치'.padEnd(28)} ${'검사'.padStart(6)} ${'발견 행'.padStart(5)} ${'발견'.padStart(6)}`);
+  for (const column of report.columns) {
+    console.log(
+      `  ${`${column.table}.${column.column}`.padEnd(30)} ${String(column.scannedRows).padStart(8)} ${String(column.affectedRows).padStart(8)} ${String(column.findings).padStart(8)}`
+    );
+  }
+
+  const kinds = Object.entries(report.findingsByKind).sort((a, b) => b[1] - a[1]);
+  if (kinds.length === 0) {
+    console.log('\n✅ 남아 있는 비밀값/PII 가 없습니다.');
+    return;
+  }
+
+  console.log('\n종류별');
+  for (const [kind, count] of kinds) {
+    console.log(`  ${kind.padEnd(14)} ${String(count).padStart(6)}`);
+  }
+
+  console.log('\n예시 (값 일부만 표시)');
+  for (const sample of report.samples) {
+    console.log(`  ${sample.kind.padEnd(14)} ${sample.preview.padEnd(16)} ${sample.table}.${sample.column}  ${sample.ref}`);
+  }
+
+  if (report.scrubbed) {
+    console.log(`\n🧹 ${report.affectedRows}개 행을 자리표시자로 바꿨습니다. 바뀐 프롬프트의 임베딩은 다음 similar 실행 때 다시 계산됩니다.`);
+  } else {
+    console.log(`\n⚠️  ${report.affectedRows}개 행에 비밀값/PII 가 남아 있습니다. --scrub 으로 자리표시자로 바꾸세요.`);
+  }
+}
+
+function revealCommand(turnId: string, json: boolean): void {
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import 명령을 실행하세요.');
+    return;
+  }
+
+  initializeDatabase();
+  try {
+    const turn = revealStoredTurn(turnId);
+    if (!turn) {
+      console.log(`⚠️  턴을 찾을 수 없습니다: ${turnId}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(turn, null, 2));
+      return;
+    }
+    console.log(turn.content ?? '');
+    if (turn.thinking) console.log(`\n[thinking]\n${turn.thinking}`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+export function redactCommand(options: RedactCommandOptions): void {
+  // 되돌리기는 가리기 설정과 관계없이 저장된 금고만 사용
+  if (options.reveal !== undefined) {
+    revealCommand(options.reveal, options.json === true);
+    return;
+  }
+
+  const redactor = getRedactor();
+  if (!redactor.enabled) {
+    console.log(`⚠️  가리기가 꺼져 있습니다 (PE_REDACTION=off 또는 ${getRedactionConfigPath()} 의 enabled=false)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!options.audit) {
+    if (!options.text) {
+      console.log('⚠️  가릴 텍스트, --audit 또는 --reveal 을 지정하세요: redact "<text>" | redact --audit [--scrub] | redact --reveal <turn-id>');
+      process.exitCode = 1;
+      return;
+    }
+
+    const { text, findings } = redactor.redact(options.text);
+    if (options.json) {
+      const masked = findings.map((f) => ({ kind: f.kind, preview: maskFinding(f.value) }));
+      console.log(JSON.stringify({ text, findings: masked }, null, 2));
+      return;
+    }
+    console.log(text);
+    return;
+  }
+
+  const limit = options.limit ? parseInt(options.limit, 10) : 10;
+  if (isNaN(limit) || limit < 0) {
+    console.log(`⚠️  잘못된 --limit: ${options.limit}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import 명령을 실행하세요.');
+    return;
+  }
+
+  initializeDatabase();
+  try {
+    const report = auditStoredText({ scrub: options.scrub === true, sampleLimit: limit, redactor });
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(`\n🔒 저장된 데이터 가리기 감사${options.scrub ? ' (--scrub)' : ''}\n`);
+      printAudit(report);
+    }
+
+    // 지우지 않은 발견이 있으면 실패 종료 (CI/스크립트 점검용)
+    if (!report.scrubbed && report.affectedRows > 0) process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
@@ -1,30 +1,101 @@
 /**
  * Report Command
- * Generate HTML report
+ * Generate the insights report as HTML, Markdown, JSON, PDF or CSV
+ * (optionally compared with the preceding period: --compare 7d:prev, --from/--to)
  */
 
+import { writeFileSync } from 'fs';
 import {
   databaseExists,
   initializeDatabase,
   closeDatabase,
   getAllConversations,
-  getTurnsByConversationId,
-  getSignalStats,
+  getConversationsWithTurnsInRange,
 } from '../../db/index.js';
 import {
+  detectConversationSignals,
+  analyzeEffectiveness,
+  attributePromptOutcomes,
   generateInsights,
+  parseComparisonSpec,
+  comparisonWindowsFromRange,
+  comparePeriods,
+  formatMetricDelta,
+  type ComparisonWindows,
+  type InsightsReport,
+  type PeriodComparison,
   type PromptData,
   type TimePeriod,
 } from '../../analysis/index.js';
-import { generateHtmlReport } from '../../report/index.js';
+import {
+  renderReport,
+  getReportJsonSchema,
+  isReportFormat,
+  PdfRenderError,
+  REPORT_FORMATS,
+} from '../../report/index.js';
+import { loadPersonalModel, loadTurnsForAnalysis, resolveEffectivenessWeights } from '../../sync/index.js';
+import type { AssistantSource } from '../../types/index.js';
+import type { ConversationRow } from '../../db/index.js';
+import { parsePeriod } from '../utils/index.js';
 
 export interface ReportCommandOptions {
   output?: string;
   period?: string;
+  format?: string;
+  schema?: boolean;
+  source?: AssistantSource;
+  /** `<N><d|w|m>:prev` - 최근 N 기간 vs 바로 앞 기간 */
+  compare?: string;
+  /** 현재 기간 시작 (YYYY-MM-DD 또는 ISO), 이전 기간은 같은 길이로 바로 앞 */
+  from?: string;
+  /** 현재 기간 끝 (날짜만 주면 그 날 포함, 기본: 지금) */
+  to?: string;
 }
 
-export function reportCommand(options: ReportCommandOptions): void {
-  console.log('\n📄 HTML 리포트 생성\n');
+const FORMAT_LABELS: Record<typeof REPORT_FORMATS[number], string> = {
+  html: 'HTML',
+  md: 'Markdown',
+  json: 'JSON',
+  pdf: 'PDF',
+  csv: 'CSV (카테고리별 분석)',
+};
+
+export async function reportCommand(options: ReportCommandOptions): Promise<void> {
+  // 정식 JSON 리포트의 JSON Schema
+  if (options.schema) {
+    console.log(JSON.stringify(getReportJsonSchema(), null, 2));
+    return;
+  }
+
+  const format = options.format ?? 'html';
+  if (!isReportFormat(format)) {
+    console.log(`⚠️  알 수 없는 형식: ${format} (사용 가능: ${REPORT_FORMATS.join(', ')})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let windows: ComparisonWindows | null = null;
+  if (options.compare || options.from || options.to) {
+    if (options.compare) {
+      windows = parseComparisonSpec(options.compare);
+    } else if (options.from) {
+      windows = comparisonWindowsFromRange(options.from, options.to);
+    }
+    if (!windows) {
+      console.log(
+        options.compare
+          ? `⚠️  잘못된 비교 기간: ${options.compare} (예: 7d:prev, 2w:prev, 1m:prev)`
+          : `⚠️  잘못된 기간: --from ${options.from ?? '(없음)'}${options.to ? ` --to ${options.to}` : ''}`
+      );
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  // stdout 으로 내보낼 때는 진행 메시지를 출력하지 않음
+  const toStdout = options.output === '-';
+  if (!toStdout) console.log(`\n📄 ${FORMAT_LABELS[format]} 리포트 생성\n`);
 
   if (!databaseExists()) {
     console.log(
@@ -34,90 +105,103 @@ export function reportCommand(options: ReportCommandOptions): void {
   }
 
   initializeDatabase();
-
-  // Get conversations based on period
-  let conversations = getAllConversations();
-
-  // Parse period
-  let periodLabel = '전체';
-  if (options.period) {
-    const match = options.period.match(/^(\d+)([dwm])$/);
-    if (match) {
-      const value = parseInt(match[1], 10);
-      const unit = match[2];
-      const now = new Date();
-      let startDate: Date;
-
-      if (unit === 'd') {
-        startDate = new Date(now.getTime() - value * 24 * 60 * 60 * 1000);
-        periodLabel = `최근 ${value}일`;
-      } else if (unit === 'w') {
-        startDate = new Date(
-          now.getTime() - value * 7 * 24 * 60 * 60 * 1000
-        );
-        periodLabel = `최근 ${value}주`;
-      } else {
-        startDate = new Date(
-          now.getTime() - value * 30 * 24 * 60 * 60 * 1000
-        );
-        periodLabel = `최근 ${value}개월`;
-      }
-
+  // 학습된 개인화 모델이 있으면 예상 성공률을 함께 표시
+  const personalModel = loadPersonalModel();
+
+  let insights: InsightsReport;
+  let comparison: PeriodComparison | undefined;
+  let title: string;
+  const sourceSuffix = options.source ? ` · ${options.source}` : '';
+
+  if (windows) {
+    // 두 기간 안에 턴이 있는 대화를 읽고 (기간 전에 시작한 대화 포함) 프롬프트 타임스탬프로 기간을 나눔
+    const conversations = getConversationsWithTurnsInRange(windows.previous.start, windows.current.end, options.source);
+    comparison = comparePeriods(buildPromptData(conversations), windows);
+    insights = { ...comparison.current.report, period: windows.current.label as TimePeriod };
+    title = `Prompt Evolution 리포트 (${windows.current.label} vs ${windows.previous.label}${sourceSuffix})`;
+  } else {
+    // Get conversations based on period
+    let conversations = getAllConversations({ source: options.source });
+
+    // Parse period (알 수 없는 형식은 전체 기간)
+    const { startDate, label: periodLabel } = parsePeriod(options.period) ?? { label: '전체' };
+    if (startDate) {
       conversations = conversations.filter((c) => {
         const convDate = new Date(c.started_at || '');
         return convDate >= startDate;
       });
     }
+
+    // Generate insights (대화는 이미 기간으로 걸렀으므로 전체 범위로 생성하고 기간 라벨만 표시)
+    insights = {
+      ...generateInsights(buildPromptData(conversations), { period: 'all', personalModel }),
+      period: periodLabel as TimePeriod,
+    };
+    title = `Prompt Evolution 리포트 (${periodLabel}${sourceSuffix})`;
   }
 
-  // Build prompt data for analysis
+  try {
+    const rendered = await renderReport(insights, format, { title, comparison });
+
+    if (options.output === '-') {
+      process.stdout.write(rendered.content);
+      return;
+    }
+
+    // Default output path
+    const outputPath = options.output || `./prompt-evolution-report-${Date.now()}.${rendered.extension}`;
+    writeFileSync(outputPath, rendered.content);
+
+    console.log(`✅ 리포트 생성 완료: ${outputPath}`);
+    console.log(`\n📊 요약:`);
+    console.log(`   대화: ${insights.summary.totalConversations}개`);
+    console.log(`   프롬프트: ${insights.summary.totalPrompts}개`);
+    console.log(
+      `   평균 효과성: ${(insights.summary.overallEffectiveness * 100).toFixed(1)}%`
+    );
+    if (comparison) {
+      const significant = comparison.changes.filter((c) => c.significant);
+      console.log(`\n🔄 유의한 변화 (${comparison.previous.window.label} → ${comparison.current.window.label}): ${significant.length}개`);
+      for (const change of significant) {
+        const icon = change.assessment === 'improved' ? '✅' : change.assessment === 'regressed' ? '⚠️ ' : '🔀';
+        console.log(`   ${icon} ${change.label}: ${formatMetricDelta(change)}`);
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof PdfRenderError)) throw error;
+    console.log(`⚠️  ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+/**
+ * 대화별 메인 경로 사용자 프롬프트 + 대화 효과성 + 프롬프트 결과
+ */
+function buildPromptData(conversations: ConversationRow[]): PromptData[] {
   const promptDataList: PromptData[] = [];
-  let _totalEffectiveness = 0;
-  let _effectivenessCount = 0;
 
   for (const conv of conversations) {
-    const turns = getTurnsByConversationId(conv.id);
-    const userTurns = turns.filter((t) => t.role === 'user' && t.content);
+    const turns = loadTurnsForAnalysis(conv.id);
+    const userTurns = turns.filter((t) => t.role === 'user' && t.content && t.branchType === 'main');
+    if (userTurns.length === 0) continue;
+
+    const signals = detectConversationSignals(conv.id, turns);
+    const effectiveness = analyzeEffectiveness(signals, resolveEffectivenessWeights(conv.project));
+    const outcomes = new Map(attributePromptOutcomes(turns, signals.signals).map((o) => [o.turnId, o]));
 
     for (const turn of userTurns) {
       promptDataList.push({
-        content: turn.content || '',
+        content: turn.content,
         conversationId: conv.id,
+        turnId: turn.id,
         timestamp: turn.timestamp ? new Date(turn.timestamp) : undefined,
-        effectiveness: 65, // Placeholder
+        effectiveness: effectiveness.score.overall,
+        outcome: outcomes.get(turn.id),
       });
     }
-
-    // Get effectiveness if analyzed
-    const signals = getSignalStats();
-    if (signals.length > 0) {
-      _totalEffectiveness += 65; // Average placeholder
-      _effectivenessCount++;
-    }
   }
 
-  // Generate insights
-  const insights = generateInsights(promptDataList, {
-    period: periodLabel as TimePeriod,
-  });
-
-  // Default output path
-  const outputPath =
-    options.output || `./prompt-evolution-report-${Date.now()}.html`;
-
-  // Generate HTML
-  generateHtmlReport(insights, {
-    outputPath,
-    title: `Prompt Evolution 리포트 (${periodLabel})`,
-  });
-
-  console.log(`✅ 리포트 생성 완료: ${outputPath}`);
-  console.log(`\n📊 요약:`);
-  console.log(`   대화: ${insights.summary.totalConversations}개`);
-  console.log(`   프롬프트: ${insights.summary.totalPrompts}개`);
-  console.log(
-    `   평균 효과성: ${insights.summary.overallEffectiveness.toFixed(1)}%`
-  );
-
-  closeDatabase();
+  return promptDataList;
 }
@@ -0,0 +1,52 @@
+/**
+ * Rules Command
+ * List user rule packs and report validation errors
+ */
+
+import {
+  loadRulePacks,
+  getGlobalRulesDir,
+  PROJECT_RULES_SUBDIR,
+} from '../../analysis/index.js';
+
+export interface RulesCommandOptions {
+  dir?: string;
+}
+
+export function rulesCommand(options: RulesCommandOptions): void {
+  console.log('\n📐 규칙 팩\n');
+
+  const projectDir = options.dir ?? process.cwd();
+  const { packs, errors } = loadRulePacks(projectDir);
+
+  console.log(`전역:     ${getGlobalRulesDir()}`);
+  console.log(`프로젝트: ${projectDir}/${PROJECT_RULES_SUBDIR}\n`);
+
+  if (packs.length === 0 && errors.length === 0) {
+    console.log('규칙 팩이 없습니다. 위 디렉토리에 YAML 또는 JSON 파일을 추가하세요.');
+    return;
+  }
+
+  for (const pack of packs) {
+    console.log(`✅ ${pack.name} (${pack.source})`);
+    if (pack.description) console.log(`   ${pack.description}`);
+    for (const rule of pack.goldenRules) {
+      const weight = rule.weight >= 0 ? `+${rule.weight}` : `${rule.weight}`;
+      console.log(`   - ${rule.id}: GOLDEN ${rule.dimension} ${weight}${rule.locale ? ` [${rule.locale}]` : ''}`);
+    }
+    for (const rule of pack.antiPatternRules) {
+      const when = rule.when === 'absent' ? ' (없으면 탐지)' : '';
+      console.log(`   - ${rule.id}: 안티패턴 ${rule.severity}${when}${rule.locale ? ` [${rule.locale}]` : ''}`);
+    }
+    console.log();
+  }
+
+  for (const error of errors) {
+    console.log(`❌ ${error.source}`);
+    console.log(`   ${error.message}\n`);
+  }
+
+  if (errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
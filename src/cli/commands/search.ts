@@ -0,0 +1,146 @@
+/**
+ * Search Command
+ * Full-text search over stored turns and session summaries
+ */
+
+import {
+  databaseExists,
+  initializeDatabase,
+  closeDatabase,
+  rebuildSearchIndex,
+  SNIPPET_MARK_START,
+  SNIPPET_MARK_END,
+} from '../../db/index.js';
+import { TASK_CATEGORIES } from '../../shared/constants.js';
+import { searchConversations, type SearchHit } from '../../search/index.js';
+import type { TaskCategory } from '../../analysis/index.js';
+import type { AssistantSource } from '../../types/index.js';
+import { parsePeriod } from '../utils/index.js';
+
+export interface SearchCommandOptions {
+  query?: string;
+  role?: string;
+  project?: string;
+  category?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+  source?: AssistantSource;
+  reindex?: boolean;
+}
+
+const ROLE_OPTIONS = ['user', 'assistant'] as const;
+
+/**
+ * Parse a date (2025-01-31) or a relative period (7d, 4w, 3m) into a Date
+ * endOfDay makes a bare --until date inclusive
+ */
+function parseDateOption(value: string | undefined, endOfDay = false): Date | undefined | null {
+  if (!value) return undefined;
+
+  const relative = parsePeriod(value);
+  if (relative?.startDate) return relative.startDate;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function formatHit(hit: SearchHit, index: number): string {
+  const label = hit.kind === 'summary' ? '요약' : hit.role === 'user' ? '사용자' : '어시스턴트';
+  const date = hit.timestamp ? hit.timestamp.slice(0, 16).replace('T', ' ') : '-';
+  const snippet = hit.snippet
+    .split(SNIPPET_MARK_START).join('[')
+    .split(SNIPPET_MARK_END).join(']')
+    .replace(/\s+/g, ' ');
+
+  return [
+    `${String(index).padStart(3)}. [${label}] ${hit.project} · ${date}`,
+    `     ${snippet}`,
+    `     대화: ${hit.conversationId}${hit.turnId ? ` / 턴: ${hit.turnId}` : ''}`,
+  ].join('\n');
+}
+
+export function searchCommand(options: SearchCommandOptions): void {
+  console.log('\n🔎 대화 검색\n');
+
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import 명령을 실행하세요.');
+    return;
+  }
+
+  if (options.reindex) {
+    initializeDatabase();
+    rebuildSearchIndex();
+    console.log('🔄 검색 인덱스를 다시 만들었습니다.');
+    if (!options.query) {
+      closeDatabase();
+      return;
+    }
+    console.log();
+  }
+
+  if (!options.query) {
+    console.log('⚠️  검색어를 입력하세요. 예: search "로그인 버그"');
+    return;
+  }
+
+  const role = options.role as typeof ROLE_OPTIONS[number] | undefined;
+  if (role && !ROLE_OPTIONS.includes(role)) {
+    console.log(`⚠️  알 수 없는 역할: ${options.role} (사용 가능: ${ROLE_OPTIONS.join(', ')})`);
+    return;
+  }
+
+  const category = options.category as TaskCategory | undefined;
+  if (category && !TASK_CATEGORIES.includes(category)) {
+    console.log(`⚠️  알 수 없는 카테고리: ${options.category} (사용 가능: ${TASK_CATEGORIES.join(', ')})`);
+    return;
+  }
+
+  const startDate = parseDateOption(options.since);
+  const endDate = parseDateOption(options.until, true);
+  if (startDate === null || endDate === null) {
+    console.log('⚠️  날짜 형식이 잘못되었습니다. (예: 2025-01-31, 7d, 4w, 3m)');
+    return;
+  }
+
+  const limit = options.limit ? parseInt(options.limit, 10) : 20;
+  if (isNaN(limit) || limit <= 0) {
+    console.log(`⚠️  잘못된 개수: ${options.limit}`);
+    return;
+  }
+
+  initializeDatabase();
+
+  const result = searchConversations({
+    query: options.query,
+    role,
+    project: options.project,
+    source: options.source,
+    category,
+    startDate,
+    endDate,
+    limit,
+  });
+
+  if (result.total === 0) {
+    console.log(`"${options.query}" 에 대한 검색 결과가 없습니다.`);
+    closeDatabase();
+    return;
+  }
+
+  console.log(`"${options.query}" 검색 결과 ${result.total.toLocaleString()}건 (관련도 순)\n`);
+  result.hits.forEach((hit, i) => {
+    console.log(formatHit(hit, i + 1));
+    console.log();
+  });
+
+  if (result.total > result.hits.length) {
+    console.log(`... 외 ${(result.total - result.hits.length).toLocaleString()}건 (--limit 으로 더 보기)`);
+  }
+
+  closeDatabase();
+}
@@ -3,11 +3,15 @@
  * List all sessions for a project
  */
 
-import { listSessions } from '../../parser/index.js';
+import { getSessionSource } from '../../parser/index.js';
+import type { AssistantSource } from '../../types/index.js';
 
-export function sessionsCommand(projectName: string): void {
+export function sessionsCommand(
+  projectName: string,
+  sourceId: AssistantSource = 'claude-code'
+): void {
   console.log(`\n📄 세션 목록: ${projectName}\n`);
-  const sessions = listSessions(projectName);
+  const sessions = getSessionSource(sourceId)?.listSessions(projectName) ?? [];
 
   if (sessions.length === 0) {
     console.log('세션이 없습니다.');
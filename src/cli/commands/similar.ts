@@ -0,0 +1,97 @@
+/**
+ * Similar Command
+ * Find stored prompts close in meaning to a text or a stored prompt turn
+ */
+
+import {
+  databaseExists,
+  initializeDatabase,
+  closeDatabase,
+} from '../../db/index.js';
+import {
+  findSimilarPrompts,
+  findPromptsSimilarToTurn,
+  type SimilarPrompt,
+} from '../../search/index.js';
+import type { AssistantSource } from '../../types/index.js';
+
+export interface SimilarCommandOptions {
+  text?: string;
+  turn?: string;
+  project?: string;
+  minEffectiveness?: string;
+  limit?: string;
+  source?: AssistantSource;
+}
+
+function formatPrompt(prompt: SimilarPrompt, index: number): string {
+  const date = prompt.timestamp ? prompt.timestamp.slice(0, 16).replace('T', ' ') : '-';
+  const effectiveness =
+    prompt.effectiveness === null ? '효과성 -' : `효과성 ${(prompt.effectiveness * 100).toFixed(0)}%`;
+  const content = prompt.content.replace(/\s+/g, ' ');
+
+  return [
+    `${String(index).padStart(3)}. 유사도 ${(prompt.similarity * 100).toFixed(0)}% · ${effectiveness} · ${prompt.project} · ${date}`,
+    `     ${content.length > 160 ? content.slice(0, 160) + '...' : content}`,
+    `     대화: ${prompt.conversationId} / 턴: ${prompt.turnId}`,
+  ].join('\n');
+}
+
+export function similarCommand(options: SimilarCommandOptions): void {
+  console.log('\n🧭 유사 프롬프트\n');
+
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import 명령을 실행하세요.');
+    return;
+  }
+
+  if (!options.text && !options.turn) {
+    console.log('⚠️  프롬프트를 입력하세요. 예: similar "로그인 버그 고쳐줘" 또는 similar --turn <id>');
+    return;
+  }
+
+  const limit = options.limit ? parseInt(options.limit, 10) : 10;
+  if (isNaN(limit) || limit <= 0) {
+    console.log(`⚠️  잘못된 개수: ${options.limit}`);
+    return;
+  }
+
+  let minEffectiveness: number | undefined;
+  if (options.minEffectiveness !== undefined) {
+    minEffectiveness = parseFloat(options.minEffectiveness);
+    if (isNaN(minEffectiveness) || minEffectiveness < 0 || minEffectiveness > 1) {
+      console.log(`⚠️  효과성 하한은 0~1 사이여야 합니다: ${options.minEffectiveness}`);
+      return;
+    }
+  }
+
+  initializeDatabase();
+
+  const searchOptions = { project: options.project, source: options.source, minEffectiveness, limit };
+  const result = options.turn
+    ? findPromptsSimilarToTurn(options.turn, searchOptions)
+    : findSimilarPrompts(options.text!, searchOptions);
+
+  if (!result) {
+    console.log(`⚠️  사용자 프롬프트 턴을 찾을 수 없습니다: ${options.turn}`);
+    closeDatabase();
+    return;
+  }
+
+  if (options.turn) {
+    console.log(`기준: ${result.query.replace(/\s+/g, ' ').slice(0, 120)}\n`);
+  }
+
+  if (result.prompts.length === 0) {
+    console.log('비슷한 프롬프트가 없습니다.');
+    closeDatabase();
+    return;
+  }
+
+  result.prompts.forEach((prompt, i) => {
+    console.log(formatPrompt(prompt, i + 1));
+    console.log();
+  });
+
+  closeDatabase();
+}
@@ -14,6 +14,9 @@ import {
   getTotalToolUsageCount,
   getProjectStats,
   getToolUsageStats,
+  getToolFailureRates,
+  getMostEditedFiles,
+  getSourceStats,
 } from '../../db/index.js';
 
 /**
@@ -72,6 +75,17 @@ export function dbStatsCommand(): void {
     );
   }
 
+  // Source stats
+  const sourceStats = getSourceStats();
+  if (sourceStats.length > 0) {
+    console.log('\n' + '='.repeat(50));
+    console.log('🤖 어시스턴트별 통계');
+    console.log('='.repeat(50));
+    sourceStats.forEach((stat) => {
+      console.log(`${stat.source}: ${stat.count.toLocaleString()}개 대화`);
+    });
+  }
+
   // Project stats
   console.log('\n' + '='.repeat(50));
   console.log('📁 프로젝트별 통계');
@@ -100,5 +114,29 @@ export function dbStatsCommand(): void {
     );
   });
 
+  // Tool failure rates
+  const failureRates = getToolFailureRates().filter((stat) => stat.failures > 0);
+  if (failureRates.length > 0) {
+    console.log('\n' + '='.repeat(50));
+    console.log('❌ 도구 실패율 (Top 10)');
+    console.log('='.repeat(50));
+    failureRates.slice(0, 10).forEach((stat, i) => {
+      console.log(
+        `${i + 1}. ${stat.tool_name}: ${(stat.failure_rate * 100).toFixed(1)}% (${stat.failures}/${stat.total})`
+      );
+    });
+  }
+
+  // Most edited files
+  const editedFiles = getMostEditedFiles(undefined, 10);
+  if (editedFiles.length > 0) {
+    console.log('\n' + '='.repeat(50));
+    console.log('📝 가장 많이 수정된 파일 (Top 10)');
+    console.log('='.repeat(50));
+    editedFiles.forEach((stat, i) => {
+      console.log(`${i + 1}. ${stat.file_path}: ${stat.edit_count}회`);
+    });
+  }
+
   closeDatabase();
 }
@@ -0,0 +1,108 @@
+/**
+ * Train Command
+ * Fit the personal effectiveness model from stored history and show feature importances
+ */
+
+import {
+  databaseExists,
+  initializeDatabase,
+  closeDatabase,
+} from '../../db/index.js';
+import { trainPersonalModels } from '../../sync/index.js';
+import {
+  EFFECTIVENESS_COMPONENTS,
+  PERSONAL_MODEL_MIN_SAMPLES,
+  type PersonalModel,
+} from '../../analysis/index.js';
+import { EFFECTIVENESS_WEIGHTS } from '../../shared/config/index.js';
+
+export interface TrainCommandOptions {
+  project?: string;
+  minSamples?: string;
+  top?: string;
+  json?: boolean;
+}
+
+const COMPONENT_LABELS: Record<typeof EFFECTIVENESS_COMPONENTS[number], string> = {
+  sentiment: '감정',
+  completion: '완료',
+  efficiency: '효율',
+  engagement: '참여',
+};
+
+const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+function printModel(model: PersonalModel, top: number): void {
+  const { metrics } = model;
+  console.log(`📦 ${model.scope}`);
+  console.log(`   라벨 프롬프트 ${model.samples}개 (성공 ${pct(model.successRate)}), 대화 ${model.conversations}개`);
+  console.log(
+    `   정확도: ${metrics.holdoutAccuracy === null ? '- (샘플 부족)' : pct(metrics.holdoutAccuracy)} · 기준선 ${pct(metrics.baselineAccuracy)} · log loss ${metrics.logLoss.toFixed(3)}`
+  );
+
+  console.log('\n   효과성 가중치 (기본값 → 개인화)');
+  for (const key of EFFECTIVENESS_COMPONENTS) {
+    console.log(
+      `     ${COMPONENT_LABELS[key]}  ${pct(EFFECTIVENESS_WEIGHTS[key]).padStart(4)} → ${pct(model.effectivenessWeights[key]).padStart(4)}`
+    );
+  }
+
+  console.log(`\n   특징 중요도 (상위 ${top}개, ↑ 성공 / ↓ 실패와 연관)`);
+  for (const item of model.importances.slice(0, top)) {
+    const direction = item.coefficient >= 0 ? '↑' : '↓';
+    const bar = '█'.repeat(Math.max(1, Math.round(item.importance * 40)));
+    console.log(`     ${direction} ${item.feature.padEnd(26)} ${pct(item.importance).padStart(4)} ${bar}`);
+  }
+  console.log();
+}
+
+export function trainCommand(options: TrainCommandOptions): void {
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import와 analyze 명령을 실행하세요.');
+    return;
+  }
+
+  const minSamples = options.minSamples ? parseInt(options.minSamples, 10) : PERSONAL_MODEL_MIN_SAMPLES;
+  if (isNaN(minSamples) || minSamples < 2) {
+    console.log(`⚠️  잘못된 --min-samples: ${options.minSamples}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const top = options.top ? parseInt(options.top, 10) : 10;
+  if (isNaN(top) || top <= 0) {
+    console.log(`⚠️  잘못된 --top: ${options.top}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  initializeDatabase();
+
+  try {
+    const result = trainPersonalModels({ project: options.project, minSamples });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log('\n🧠 개인화 효과성 모델 학습\n');
+
+    for (const model of result.models) printModel(model, top);
+
+    for (const skipped of result.skipped) {
+      console.log(
+        `⏭️  ${skipped.scope}: 라벨 프롬프트 ${skipped.samples}개 (최소 ${minSamples}개, 성공/실패 모두 필요) - 기본 가중치 사용`
+      );
+    }
+
+    if (result.models.length === 0) {
+      console.log('\n💡 analyze 명령으로 신호를 먼저 분석하세요. 피드백/재시도가 있는 대화가 많을수록 정확해집니다.');
+      return;
+    }
+
+    console.log(`✅ 저장 완료. 효과성 점수 ${result.rescored}개를 새 가중치로 갱신했습니다.`);
+  } finally {
+    closeDatabase();
+  }
+}
@@ -10,16 +10,17 @@ import {
   getAllConversations,
   getTurnsByConversationId,
   hasBeenAnalyzed,
-  insertQualitySignals,
-  saveEffectivenessScore,
 } from '../../db/index.js';
 import {
-  detectConversationSignals,
-  analyzeEffectiveness,
   calculateAggregateEffectiveness,
-  type TurnForAnalysis,
   type ConversationSignals,
 } from '../../analysis/index.js';
+import {
+  analyzeStoredConversation,
+  judgeStoredPrompts,
+  runBatchJudging,
+  type LLMJudgeRunResult,
+} from '../../sync/index.js';
 
 export interface AnalyzeOptions {
   incremental?: boolean;
@@ -31,6 +32,12 @@ export interface AnalyzeResult {
   skipped: number;
 }
 
+export interface JudgeOptions {
+  batch?: boolean;
+  limit?: number;
+  wait?: boolean;
+}
+
 export function analyzeConversations(
   options: AnalyzeOptions
 ): AnalyzeResult | null {
@@ -72,48 +79,12 @@ export function analyzeConversations(
     }
 
     try {
-      // Get turns for this conversation
-      const turnRows = getTurnsByConversationId(conv.id);
-
-      if (turnRows.length === 0) {
+      const signals = analyzeStoredConversation(conv.id);
+      if (!signals) {
         continue;
       }
-
-      // Convert to analysis format
-      const turns: TurnForAnalysis[] = turnRows.map((t, i) => ({
-        id: t.id,
-        role: t.role as 'user' | 'assistant',
-        content: t.content || '',
-        turnIndex: i,
-      }));
-
-      // Detect signals
-      const signals = detectConversationSignals(conv.id, turns);
       allSignals.push(signals);
 
-      // Calculate effectiveness
-      const effectiveness = analyzeEffectiveness(signals);
-
-      // Save signals to database
-      const signalsToSave = signals.signals.map((s) => ({
-        signalType: s.type,
-        turnId: s.turnId,
-        value: s.confidence,
-        metadata: { keywords: s.keywords },
-      }));
-
-      if (signalsToSave.length > 0) {
-        insertQualitySignals(conv.id, signalsToSave);
-      }
-
-      // Save effectiveness score
-      saveEffectivenessScore(conv.id, effectiveness.score.overall, {
-        sentiment: effectiveness.score.sentimentScore,
-        completion: effectiveness.score.completionScore,
-        efficiency: effectiveness.score.efficiencyScore,
-        engagement: effectiveness.score.engagementScore,
-      });
-
       analyzed++;
       process.stdout.write('.');
     } catch {
@@ -165,3 +136,54 @@ export function analyzeConversations(
     skipped,
   };
 }
+
+/**
+ * LLM 심사: 아직 GOLDEN 점수가 없는 유저 프롬프트를 심사해 규칙 기반 점수와 병합
+ */
+export async function judgePrompts(options: JudgeOptions): Promise<LLMJudgeRunResult | null> {
+  console.log(`\n🧑‍⚖️ LLM 프롬프트 심사${options.batch ? ' (배치)' : ''}\n`);
+
+  if (!databaseExists()) {
+    console.log('⚠️  데이터베이스가 없습니다. 먼저 import 명령을 실행하세요.');
+    return null;
+  }
+
+  initializeDatabase();
+
+  try {
+    const result = options.batch
+      ? await runBatchJudging({
+          limit: options.limit,
+          wait: options.wait,
+          onProgress: (event) => {
+            if (event.type === 'submitted') {
+              console.log(`📤 작업 제출: ${event.providerBatchId} (${event.items}건)`);
+            } else if (event.type === 'polled' && event.info.status !== 'ended') {
+              const { processing, succeeded, errored } = event.info.counts;
+              console.log(`⏳ ${event.info.id}: 처리 중 ${processing}, 성공 ${succeeded}, 실패 ${errored}`);
+            } else if (event.type === 'merged') {
+              console.log(`📥 결과 병합: ${event.merged}건${event.failed > 0 ? `, 실패 ${event.failed}건` : ''}`);
+            } else if (event.type === 'failed') {
+              console.log(`❌ 작업 제출 실패: ${event.error}`);
+            }
+          },
+        })
+      : await judgeStoredPrompts({ limit: options.limit });
+
+    console.log('\n' + '='.repeat(40));
+    console.log(`✅ 병합됨: ${result.merged}개${result.fromCache > 0 ? ` (캐시 ${result.fromCache}개)` : ''}`);
+    if (result.failed > 0) {
+      console.log(`⚠️  실패: ${result.failed}개 (다음 실행에서 다시 시도)`);
+    }
+    if (result.openJobs > 0) {
+      console.log(`⏳ 대기 중인 배치 작업: ${result.openJobs}개 (같은 명령을 다시 실행하면 이어서 수거)`);
+    }
+    return result;
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exitCode = 1;
+    return null;
+  } finally {
+    closeDatabase();
+  }
+}
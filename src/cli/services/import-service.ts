@@ -1,27 +1,28 @@
 /**
  * Import Service
- * Handles importing Claude Code sessions to database
+ * Handles importing assistant sessions (Claude Code, Codex CLI, Aider, Gemini CLI) to database
  */
 
-import { listProjects, listSessions, parseSession } from '../../parser/index.js';
+import { getSessionSource, getSessionSources, beginSourceScan, decodeProjectPath } from '../../parser/index.js';
+import type { AssistantSource, SessionSource } from '../../types/index.js';
 import {
   getDatabasePath,
   databaseExists,
   initializeDatabase,
   closeDatabase,
-  conversationExists,
-  insertConversation,
-  insertTurns,
-  insertToolUsages,
 } from '../../db/index.js';
+import { importSession } from '../../sync/index.js';
 
 export interface ImportOptions {
   project?: string;
   incremental?: boolean;
+  source?: AssistantSource;
 }
 
 export interface ImportResult {
   imported: number;
+  /** 변경된 세션 (추가분 이어 붙임 또는 전체 교체) */
+  updated: number;
   skipped: number;
   failed: number;
 }
@@ -42,63 +43,69 @@ export function importToDatabase(options: ImportOptions): ImportResult {
     console.log('✅ 기존 데이터베이스에 연결됨\n');
   }
 
-  // Get projects to import
-  const projects = options.project ? [options.project] : listProjects();
+  // Resolve sources to import from
+  const sources: SessionSource[] = options.source
+    ? [getSessionSource(options.source)].filter((s): s is SessionSource => Boolean(s))
+    : getSessionSources();
 
   let totalImported = 0;
+  let totalUpdated = 0;
   let totalSkipped = 0;
   let totalFailed = 0;
 
-  console.log(`프로젝트 ${projects.length}개 처리 중...\n`);
-
-  for (const project of projects) {
-    const sessions = listSessions(project);
-    const decoded = project.replace(/-/g, '/').replace(/^\//, '');
-    console.log(`📁 ${decoded} (${sessions.length}개 세션)`);
-
-    for (const sessionFile of sessions) {
-      const sessionId = sessionFile.replace('.jsonl', '');
-
-      // Skip if incremental and already exists
-      if (options.incremental && conversationExists(sessionId)) {
-        totalSkipped++;
-        continue;
-      }
-
-      try {
-        const conversation = parseSession(project, sessionFile);
-
-        if (!conversation) {
+  for (const registered of sources) {
+    // One listing snapshot per run (Codex reads every rollout head to build it)
+    const source = beginSourceScan(registered);
+
+    // Get projects to import
+    const projects = options.project ? [options.project] : source.listProjects();
+    if (projects.length === 0) continue;
+
+    console.log(`[${source.displayName}] 프로젝트 ${projects.length}개 처리 중...\n`);
+
+    for (const project of projects) {
+      const sessions = source.listSessions(project);
+      if (sessions.length === 0) continue;
+
+      const decoded = decodeProjectPath(project);
+      console.log(`📁 ${decoded} (${sessions.length}개 세션)`);
+
+      for (const sessionFile of sessions) {
+        try {
+          // incremental: 원장 기준으로 바뀐 세션만 (실행 중인 세션은 추가분만) 처리
+          const result = importSession(source, project, sessionFile, {
+            force: !options.incremental,
+          });
+
+          switch (result.status) {
+            case 'imported':
+              totalImported++;
+              process.stdout.write('.');
+              break;
+            case 'appended':
+            case 'replaced':
+              totalUpdated++;
+              process.stdout.write('+');
+              break;
+            case 'unchanged':
+              totalSkipped++;
+              break;
+            case 'failed':
+              totalFailed++;
+              break;
+          }
+        } catch (err) {
           totalFailed++;
-          continue;
-        }
-
-        // Insert conversation
-        insertConversation(conversation);
-
-        // Insert turns
-        insertTurns(conversation.id, conversation.turns);
-
-        // Insert tool usages for each turn
-        for (const turn of conversation.turns) {
-          if (turn.toolsUsed && turn.toolsUsed.length > 0) {
-            insertToolUsages(turn.id, turn.toolsUsed, turn.timestamp);
+          process.stdout.write('x');
+          if (process.env.DEBUG) {
+            console.error(
+              `\n  Error: ${sessionFile}: ${(err as Error).message}`
+            );
           }
         }
-
-        totalImported++;
-        process.stdout.write('.');
-      } catch (err) {
-        totalFailed++;
-        process.stdout.write('x');
-        if (process.env.DEBUG) {
-          console.error(
-            `\n  Error: ${sessionFile}: ${(err as Error).message}`
-          );
-        }
       }
+      console.log(''); // New line after each project
     }
-    console.log(''); // New line after each project
   }
 
   closeDatabase();
@@ -107,18 +114,22 @@ export function importToDatabase(options: ImportOptions): ImportResult {
   console.log('📊 임포트 결과');
   console.log('='.repeat(40));
   console.log(`✅ 임포트됨: ${totalImported}개`);
+  if (totalUpdated > 0) {
+    console.log(`🔄 업데이트됨: ${totalUpdated}개 (추가된 턴 반영)`);
+  }
   if (totalSkipped > 0) {
-    console.log(`⏭️  스킵됨: ${totalSkipped}개 (이미 존재)`);
+    console.log(`⏭️  스킵됨: ${totalSkipped}개 (변경 없음)`);
   }
   if (totalFailed > 0) {
     console.log(`❌ 실패: ${totalFailed}개`);
   }
   console.log(
-    `총: ${totalImported + totalSkipped + totalFailed}개 세션 처리됨`
+    `총: ${totalImported + totalUpdated + totalSkipped + totalFailed}개 세션 처리됨`
   );
 
   return {
     imported: totalImported,
+    updated: totalUpdated,
     skipped: totalSkipped,
     failed: totalFailed,
   };
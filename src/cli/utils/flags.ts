@@ -22,3 +22,21 @@ export function parseFlags(args: string[]): Record<string, string | boolean> {
   }
   return flags;
 }
+
+/**
+ * Collect positional arguments, skipping flags and their values
+ * (flags in booleanFlags never take a value: --fix CLAUDE.md)
+ */
+export function parsePositionals(args: string[], booleanFlags: readonly string[] = []): string[] {
+  const positionals: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      const nextArg = args[i + 1];
+      if (!booleanFlags.includes(arg.slice(2)) && nextArg && !nextArg.startsWith('--')) i++;
+    } else {
+      positionals.push(arg);
+    }
+  }
+  return positionals;
+}
@@ -2,5 +2,6 @@
  * CLI Utilities
  */
 
-export { parseFlags } from './flags.js';
+export { parseFlags, parsePositionals } from './flags.js';
 export { getSignalLabel } from './labels.js';
+export { parsePeriod } from './period.js';
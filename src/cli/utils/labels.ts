@@ -14,6 +14,9 @@ export function getSignalLabel(signalType: string): string {
     question: '❓ 질문',
     command: '⚡ 명령',
     context_providing: '📋 컨텍스트 제공',
+    prompt_edited: '✏️ 프롬프트 수정',
+    tool_error_loop: '🔁 도구 오류 반복',
+    golden_score: '🏅 GOLDEN 점수 (LLM 심사)',
   };
   return labels[signalType] || signalType;
 }
@@ -0,0 +1,21 @@
+/**
+ * Period Option Utilities
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse period (7d, 4w, 3m, all) into a start date and label
+ * Returns null for an unrecognized period
+ */
+export function parsePeriod(period: string | undefined): { startDate?: Date; label: string } | null {
+  if (!period || period === 'all') return { label: '전체' };
+
+  const match = period.match(/^(\d+)([dwm])$/);
+  if (!match) return null;
+
+  const value = parseInt(match[1], 10);
+  const days = match[2] === 'd' ? value : match[2] === 'w' ? value * 7 : value * 30;
+  const label = match[2] === 'd' ? `최근 ${value}일` : match[2] === 'w' ? `최근 ${value}주` : `최근 ${value}개월`;
+  return { startDate: new Date(Date.now() - days * DAY_MS), label };
+}
@@ -7,7 +7,7 @@ import Database from 'better-sqlite3';
 import { join } from 'path';
 import { homedir } from 'os';
 import { mkdirSync, existsSync } from 'fs';
-import { SCHEMA } from './schema.js';
+import { runMigrations } from './migrations.js';
 
 // Default database location
 const DEFAULT_DB_DIR = join(homedir(), '.prompt-evolution');
@@ -36,11 +36,11 @@ export function getDatabase(dbPath: string = DEFAULT_DB_PATH): Database.Database
 }
 
 /**
- * Initialize database with schema
+ * Initialize database and apply pending schema migrations
  */
 export function initializeDatabase(dbPath?: string): Database.Database {
   const database = getDatabase(dbPath);
-  database.exec(SCHEMA);
+  runMigrations(database);
   return database;
 }
 
@@ -4,4 +4,5 @@
 
 export * from './connection.js';
 export * from './schema.js';
+export * from './migrations.js';
 export * from './repositories/index.js';
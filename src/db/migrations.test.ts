@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+    MIGRATIONS,
+    runMigrations,
+    getMigrationStatus,
+    getSchemaVersion,
+    type Migration,
+} from './migrations.js';
+import { SCHEMA_V1, SCHEMA_VERSION } from './schema.js';
+
+function openDb(): Database.Database {
+    const db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+    return db;
+}
+
+/** Tables, columns and indexes (creation order of columns differs between paths, so sorted) */
+function describeSchema(db: Database.Database): Record<string, unknown> {
+    const tables = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+        .all() as Array<{ name: string }>;
+    const indexes = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+        .all() as Array<{ name: string }>;
+
+    return {
+        tables: Object.fromEntries(
+            tables.map(({ name }) => [
+                name,
+                (db.prepare(`PRAGMA table_info(${name})`).all() as Array<{ name: string; type: string; notnull: number; dflt_value: unknown }>)
+                    .map((c) => `${c.name} ${c.type} ${c.notnull} ${c.dflt_value}`)
+                    .sort(),
+            ])
+        ),
+        indexes: indexes.map((i) => i.name),
+    };
+}
+
+/** A conversation with one turn and tool usage, using only v1 columns */
+function insertV1Fixture(db: Database.Database): void {
+    db.prepare(
+        "INSERT INTO conversations (id, project, started_at, total_input_tokens, turn_count) VALUES ('c1', 'demo', '2025-01-01T10:00:00Z', 100, 1)"
+    ).run();
+    db.prepare(
+        "INSERT INTO turns (id, conversation_id, role, content, turn_index) VALUES ('t1', 'c1', 'user', 'Fix the bug', 0)"
+    ).run();
+    db.prepare("INSERT INTO tool_usages (turn_id, tool_name) VALUES ('t1', 'Edit')").run();
+}
+
+describe('runMigrations', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+        db = openDb();
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('should create the latest schema on an empty database', () => {
+        const result = runMigrations(db);
+
+        expect(result.fromVersion).toBe(0);
+        expect(result.toVersion).toBe(SCHEMA_VERSION);
+        expect(result.applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+        expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    });
+
+    it('should keep SCHEMA_VERSION in sync with the migration list', () => {
+        expect(MIGRATIONS[MIGRATIONS.length - 1].version).toBe(SCHEMA_VERSION);
+        expect(MIGRATIONS.map((m) => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    });
+
+    it('should be a no-op when up to date', () => {
+        runMigrations(db);
+        const result = runMigrations(db);
+
+        expect(result.applied).toEqual([]);
+        expect(result.toVersion).toBe(SCHEMA_VERSION);
+    });
+
+    for (let version = 1; version < SCHEMA_VERSION; version++) {
+        it(`should upgrade a version ${version} database to the latest schema`, () => {
+            runMigrations(db, { targetVersion: version });
+            expect(getSchemaVersion(db)).toBe(version);
+            insertV1Fixture(db);
+
+            const result = runMigrations(db);
+
+            expect(result.fromVersion).toBe(version);
+            expect(result.applied.map((m) => m.version)).toEqual(
+                MIGRATIONS.filter((m) => m.version > version).map((m) => m.version)
+            );
+
+            const fresh = openDb();
+            runMigrations(fresh);
+            expect(describeSchema(db)).toEqual(describeSchema(fresh));
+            fresh.close();
+
+            // Existing rows survive and pick up column defaults
+            const conversation = db.prepare("SELECT * FROM conversations WHERE id = 'c1'").get() as Record<string, unknown>;
+            expect(conversation.total_input_tokens).toBe(100);
+            expect(conversation.source).toBe('claude-code');
+            expect(conversation.total_cost_usd).toBe(0);
+            const turn = db.prepare("SELECT * FROM turns WHERE id = 't1'").get() as Record<string, unknown>;
+            expect(turn.branch_type).toBe('main');
+            const tool = db.prepare("SELECT * FROM tool_usages WHERE turn_id = 't1'").get() as Record<string, unknown>;
+            expect(tool.is_error).toBe(0);
+        });
+    }
+
+    it('should adopt a database created before migrations were tracked', () => {
+        db.exec(SCHEMA_V1);
+        insertV1Fixture(db);
+        expect(getSchemaVersion(db)).toBe(1);
+
+        const result = runMigrations(db);
+
+        expect(result.fromVersion).toBe(1);
+        expect(result.applied[0].version).toBe(2);
+        expect(getMigrationStatus(db).every((m) => m.applied)).toBe(true);
+        expect(db.prepare("SELECT turn_count FROM conversations WHERE id = 'c1'").get()).toEqual({ turn_count: 1 });
+    });
+
+    it('should skip columns an untracked database already added', () => {
+        db.exec(SCHEMA_V1);
+        db.exec("ALTER TABLE conversations ADD COLUMN source TEXT NOT NULL DEFAULT 'claude-code'");
+        db.exec('ALTER TABLE turns ADD COLUMN branch_id TEXT');
+
+        expect(() => runMigrations(db)).not.toThrow();
+        expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    });
+
+    it('should roll back a dry run', () => {
+        runMigrations(db, { targetVersion: 2 });
+        const before = describeSchema(db);
+
+        const result = runMigrations(db, { dryRun: true });
+
+        expect(result.dryRun).toBe(true);
+        expect(result.applied.map((m) => m.version)).toEqual([3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+        expect(describeSchema(db)).toEqual(before);
+        expect(getSchemaVersion(db)).toBe(2);
+    });
+
+    it('should roll back a failed migration and keep earlier ones', () => {
+        const migrations: Migration[] = [
+            ...MIGRATIONS,
+            {
+                version: SCHEMA_VERSION + 1,
+                name: 'broken',
+                up: (database) => {
+                    database.exec('CREATE TABLE half_done (id INTEGER)');
+                    database.exec('ALTER TABLE missing_table ADD COLUMN x TEXT');
+                },
+            },
+        ];
+
+        expect(() => runMigrations(db, { migrations })).toThrow(/Migration 15 \(broken\) failed/);
+        expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+        expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'").get()).toBeUndefined();
+    });
+});
+
+describe('getMigrationStatus', () => {
+    it('should list applied and pending migrations', () => {
+        const db = openDb();
+        runMigrations(db, { targetVersion: 3 });
+
+        const status = getMigrationStatus(db);
+
+        expect(status.filter((m) => m.applied).map((m) => m.version)).toEqual([1, 2, 3]);
+        expect(status.filter((m) => !m.applied).map((m) => m.name)).toEqual([
+            'tool-call-details',
+            'token-costs',
+            'import-ledger',
+            'search-index',
+            'prompt-embeddings',
+            'llm-batch-jobs',
+            'personal-models',
+            'prompt-outcomes',
+            'team-datasets',
+            'embedding-models',
+            'redaction-vault',
+        ]);
+        expect(status[0].appliedAt).not.toBeNull();
+        db.close();
+    });
+});
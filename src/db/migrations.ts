@@ -0,0 +1,268 @@
+/**
+ * Schema Migrations
+ * Ordered schema changes recorded in schema_migrations, each applied in its own transaction
+ */
+
+import type Database from 'better-sqlite3';
+import {
+  SCHEMA_V1,
+  SCHEMA_MIGRATIONS_TABLE,
+  IMPORT_LEDGER_SCHEMA,
+  SEARCH_INDEX_SCHEMA,
+  PROMPT_EMBEDDINGS_SCHEMA,
+  LLM_BATCH_SCHEMA,
+  PERSONAL_MODELS_SCHEMA,
+  PROMPT_OUTCOMES_SCHEMA,
+  TEAM_DATASETS_SCHEMA,
+  EMBEDDING_MODELS_SCHEMA,
+  REDACTION_VAULT_SCHEMA,
+} from './schema.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: string | null; // null: applied before migrations were tracked
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; name: string }>;
+  dryRun: boolean;
+}
+
+export interface MigrateOptions {
+  /** Apply and roll back, reporting what would change */
+  dryRun?: boolean;
+  /** Stop after this version (default: latest) */
+  targetVersion?: number;
+  migrations?: ReadonlyArray<Migration>;
+}
+
+/**
+ * Add a column unless it exists
+ * (databases created before migrations got some columns from the old startup check)
+ */
+function addColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: ReadonlyArray<Migration> = [
+  {
+    version: 1,
+    name: 'initial-schema',
+    up: (db) => db.exec(SCHEMA_V1),
+  },
+  {
+    version: 2,
+    name: 'conversation-source',
+    up: (db) => {
+      addColumn(db, 'conversations', 'source', "TEXT NOT NULL DEFAULT 'claude-code'");
+      db.exec('CREATE INDEX IF NOT EXISTS idx_conversations_source ON conversations(source)');
+    },
+  },
+  {
+    version: 3,
+    name: 'turn-branches',
+    up: (db) => {
+      addColumn(db, 'turns', 'branch_id', 'TEXT');
+      addColumn(db, 'turns', 'branch_type', "TEXT NOT NULL DEFAULT 'main'");
+    },
+  },
+  {
+    version: 4,
+    name: 'tool-call-details',
+    up: (db) => {
+      addColumn(db, 'tool_usages', 'tool_use_id', 'TEXT');
+      addColumn(db, 'tool_usages', 'input_summary', 'TEXT'); // 비밀값을 가리고 자른 입력 (JSON)
+      addColumn(db, 'tool_usages', 'target', 'TEXT'); // 파일 경로, 명령어 등 주요 대상
+      addColumn(db, 'tool_usages', 'result_summary', 'TEXT');
+      addColumn(db, 'tool_usages', 'is_error', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'tool_usages', 'duration_ms', 'INTEGER');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_tool_usages_tool_use_id ON tool_usages(tool_use_id)');
+    },
+  },
+  {
+    version: 5,
+    name: 'token-costs',
+    up: (db) => {
+      addColumn(db, 'conversations', 'total_cache_creation_tokens', 'INTEGER DEFAULT 0');
+      addColumn(db, 'conversations', 'total_cache_read_tokens', 'INTEGER DEFAULT 0');
+      addColumn(db, 'conversations', 'total_cost_usd', 'REAL DEFAULT 0');
+      addColumn(db, 'turns', 'cache_creation_tokens', 'INTEGER');
+      addColumn(db, 'turns', 'cache_read_tokens', 'INTEGER');
+      addColumn(db, 'turns', 'cost_usd', 'REAL'); // 가격표에 없는 모델은 NULL
+    },
+  },
+  {
+    version: 6,
+    name: 'import-ledger',
+    up: (db) => db.exec(IMPORT_LEDGER_SCHEMA),
+  },
+  {
+    version: 7,
+    name: 'search-index',
+    up: (db) => db.exec(SEARCH_INDEX_SCHEMA),
+  },
+  {
+    version: 8,
+    name: 'prompt-embeddings',
+    up: (db) => db.exec(PROMPT_EMBEDDINGS_SCHEMA),
+  },
+  {
+    version: 9,
+    name: 'llm-batch-jobs',
+    up: (db) => db.exec(LLM_BATCH_SCHEMA),
+  },
+  {
+    version: 10,
+    name: 'personal-models',
+    up: (db) => db.exec(PERSONAL_MODELS_SCHEMA),
+  },
+  {
+    version: 11,
+    name: 'prompt-outcomes',
+    up: (db) => db.exec(PROMPT_OUTCOMES_SCHEMA),
+  },
+  {
+    version: 12,
+    name: 'team-datasets',
+    up: (db) => db.exec(TEAM_DATASETS_SCHEMA),
+  },
+  {
+    version: 13,
+    name: 'embedding-models',
+    up: (db) => db.exec(EMBEDDING_MODELS_SCHEMA),
+  },
+  {
+    version: 14,
+    name: 'redaction-vault',
+    up: (db) => db.exec(REDACTION_VAULT_SCHEMA),
+  },
+];
+
+// Thrown inside the dry-run transaction to roll it back
+class DryRunRollback extends Error {}
+
+function tableExists(db: Database.Database, name: string): boolean {
+  return db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name) !== undefined;
+}
+
+/**
+ * Applied versions → applied_at
+ * A database from before migration tracking counts as version 1 (appliedAt null)
+ */
+function getAppliedMigrations(db: Database.Database): Map<number, { name: string; appliedAt: string | null }> {
+  if (!tableExists(db, 'schema_migrations')) {
+    return tableExists(db, 'conversations')
+      ? new Map([[1, { name: MIGRATIONS[0].name, appliedAt: null }]])
+      : new Map();
+  }
+
+  const rows = db
+    .prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+    .all() as Array<{ version: number; name: string; applied_at: string }>;
+  return new Map(rows.map((r) => [r.version, { name: r.name, appliedAt: r.applied_at }]));
+}
+
+/**
+ * Get current schema version (0 for an empty database)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  return Math.max(0, ...getAppliedMigrations(db).keys());
+}
+
+/**
+ * Get applied/pending state of every migration
+ */
+export function getMigrationStatus(
+  db: Database.Database,
+  migrations: ReadonlyArray<Migration> = MIGRATIONS
+): MigrationStatus[] {
+  const applied = getAppliedMigrations(db);
+  const status: MigrationStatus[] = migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    applied: applied.has(m.version),
+    appliedAt: applied.get(m.version)?.appliedAt ?? null,
+  }));
+
+  // Versions recorded by a newer release
+  for (const [version, { name, appliedAt }] of applied) {
+    if (!migrations.some((m) => m.version === version)) {
+      status.push({ version, name, applied: true, appliedAt });
+    }
+  }
+
+  return status.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply pending migrations in version order
+ */
+export function runMigrations(db: Database.Database, options: MigrateOptions = {}): MigrationResult {
+  const migrations = [...(options.migrations ?? MIGRATIONS)].sort((a, b) => a.version - b.version);
+  const applied = getAppliedMigrations(db);
+  const fromVersion = Math.max(0, ...applied.keys());
+  const targetVersion = options.targetVersion ?? Infinity;
+  const pending = migrations.filter((m) => !applied.has(m.version) && m.version <= targetVersion);
+
+  const result: MigrationResult = {
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+    dryRun: options.dryRun === true,
+  };
+
+  const recordVersion = () =>
+    db.prepare('INSERT OR IGNORE INTO schema_migrations (version, name) VALUES (?, ?)');
+
+  const applyPending = () => {
+    db.exec(SCHEMA_MIGRATIONS_TABLE);
+    // Record the untracked baseline of a pre-migration database
+    for (const [version, { name, appliedAt }] of applied) {
+      if (appliedAt === null) recordVersion().run(version, name);
+    }
+
+    for (const migration of pending) {
+      try {
+        db.transaction(() => {
+          migration.up(db);
+          recordVersion().run(migration.version, migration.name);
+        })();
+      } catch (err) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${(err as Error).message}`
+        );
+      }
+      result.applied.push({ version: migration.version, name: migration.name });
+      result.toVersion = Math.max(result.toVersion, migration.version);
+    }
+  };
+
+  if (!options.dryRun) {
+    applyPending();
+    return result;
+  }
+
+  // Run for real to surface SQL errors, then roll everything back
+  try {
+    db.transaction(() => {
+      applyPending();
+      throw new DryRunRollback();
+    })();
+  } catch (err) {
+    if (!(err instanceof DryRunRollback)) throw err;
+  }
+  return result;
+}
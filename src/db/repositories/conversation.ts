@@ -4,10 +4,11 @@
  */
 
 import { getDatabase } from '../connection.js';
-import type { ParsedConversation } from '../../types/index.js';
+import type { ParsedConversation, AssistantSource } from '../../types/index.js';
 
 export interface ConversationRow {
   id: string;
+  source: AssistantSource;
   project: string;
   project_path: string | null;
   model: string | null;
@@ -15,6 +16,9 @@ export interface ConversationRow {
   ended_at: string | null;
   total_input_tokens: number;
   total_output_tokens: number;
+  total_cache_creation_tokens: number;
+  total_cache_read_tokens: number;
+  total_cost_usd: number;
   turn_count: number;
   created_at: string;
   updated_at: string;
@@ -28,15 +32,17 @@ export function insertConversation(conversation: ParsedConversation): void {
 
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO conversations (
-      id, project, project_path, model,
+      id, source, project, project_path, model,
       started_at, ended_at,
       total_input_tokens, total_output_tokens,
+      total_cache_creation_tokens, total_cache_read_tokens, total_cost_usd,
       turn_count, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
   `);
 
   stmt.run(
     conversation.id,
+    conversation.source,
     conversation.project,
     conversation.projectPath,
     conversation.model,
@@ -44,10 +50,44 @@ export function insertConversation(conversation: ParsedConversation): void {
     conversation.endedAt.toISOString(),
     conversation.totalInputTokens,
     conversation.totalOutputTokens,
+    conversation.totalCacheCreationTokens || 0,
+    conversation.totalCacheReadTokens || 0,
+    conversation.totalCostUsd || 0,
     conversation.turns.length
   );
 }
 
+/**
+ * Append a parsed chunk (new turns of a live session) to an existing conversation
+ * Insert the chunk's turns first: turn_count is recounted from the turns table
+ */
+export function appendConversation(chunk: ParsedConversation): void {
+  const db = getDatabase();
+
+  db.prepare(`
+    UPDATE conversations SET
+      model = COALESCE(NULLIF(model, ''), ?),
+      ended_at = MAX(COALESCE(ended_at, ''), ?),
+      total_input_tokens = total_input_tokens + ?,
+      total_output_tokens = total_output_tokens + ?,
+      total_cache_creation_tokens = COALESCE(total_cache_creation_tokens, 0) + ?,
+      total_cache_read_tokens = COALESCE(total_cache_read_tokens, 0) + ?,
+      total_cost_usd = COALESCE(total_cost_usd, 0) + ?,
+      turn_count = (SELECT COUNT(*) FROM turns WHERE conversation_id = conversations.id),
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(
+    chunk.model,
+    chunk.endedAt.toISOString(),
+    chunk.totalInputTokens,
+    chunk.totalOutputTokens,
+    chunk.totalCacheCreationTokens || 0,
+    chunk.totalCacheReadTokens || 0,
+    chunk.totalCostUsd || 0,
+    chunk.id
+  );
+}
+
 /**
  * Get conversation by ID
  */
@@ -65,6 +105,7 @@ export function getAllConversations(options?: {
   offset?: number;
   orderBy?: 'started_at' | 'created_at' | 'turn_count';
   order?: 'ASC' | 'DESC';
+  source?: AssistantSource;
 }): ConversationRow[] {
   const db = getDatabase();
   const VALID_ORDER_BY = ['started_at', 'created_at', 'turn_count'] as const;
@@ -76,6 +117,16 @@ export function getAllConversations(options?: {
   const limit = options?.limit || 100;
   const offset = options?.offset || 0;
 
+  if (options?.source) {
+    const stmt = db.prepare(`
+      SELECT * FROM conversations
+      WHERE source = ?
+      ORDER BY ${orderBy} ${order}
+      LIMIT ? OFFSET ?
+    `);
+    return stmt.all(options.source, limit, offset) as ConversationRow[];
+  }
+
   const stmt = db.prepare(`
     SELECT * FROM conversations
     ORDER BY ${orderBy} ${order}
@@ -155,6 +206,20 @@ export function getProjectStats(): Array<{ project: string; project_path: string
   return stmt.all() as Array<{ project: string; project_path: string; count: number }>;
 }
 
+/**
+ * Get conversation counts per assistant source
+ */
+export function getSourceStats(): Array<{ source: AssistantSource; count: number }> {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT source, COUNT(*) as count
+    FROM conversations
+    GROUP BY source
+    ORDER BY count DESC
+  `);
+  return stmt.all() as Array<{ source: AssistantSource; count: number }>;
+}
+
 /**
  * Get last active time for a project
  */
@@ -186,8 +251,21 @@ export function getProjectAvgEffectiveness(project: string): number {
 /**
  * Get conversations in date range
  */
-export function getConversationsInRange(startDate: Date, endDate: Date): ConversationRow[] {
+export function getConversationsInRange(
+  startDate: Date,
+  endDate: Date,
+  source?: AssistantSource
+): ConversationRow[] {
   const db = getDatabase();
+  if (source) {
+    const stmt = db.prepare(`
+      SELECT * FROM conversations
+      WHERE started_at >= ? AND started_at <= ? AND source = ?
+      ORDER BY started_at DESC
+    `);
+    return stmt.all(startDate.toISOString(), endDate.toISOString(), source) as ConversationRow[];
+  }
+
   const stmt = db.prepare(`
     SELECT * FROM conversations
     WHERE started_at >= ? AND started_at <= ?
@@ -195,3 +273,33 @@ export function getConversationsInRange(startDate: Date, endDate: Date): Convers
   `);
   return stmt.all(startDate.toISOString(), endDate.toISOString()) as ConversationRow[];
 }
+
+/**
+ * Get conversations with at least one turn in [startDate, endDate)
+ * Unlike getConversationsInRange, includes sessions that started before the range
+ */
+export function getConversationsWithTurnsInRange(
+  startDate: Date,
+  endDate: Date,
+  source?: AssistantSource
+): ConversationRow[] {
+  const db = getDatabase();
+  const inRange = `
+    id IN (SELECT conversation_id FROM turns WHERE timestamp >= ? AND timestamp < ?)
+  `;
+  if (source) {
+    const stmt = db.prepare(`
+      SELECT * FROM conversations
+      WHERE ${inRange} AND source = ?
+      ORDER BY started_at DESC
+    `);
+    return stmt.all(startDate.toISOString(), endDate.toISOString(), source) as ConversationRow[];
+  }
+
+  const stmt = db.prepare(`
+    SELECT * FROM conversations
+    WHERE ${inRange}
+    ORDER BY started_at DESC
+  `);
+  return stmt.all(startDate.toISOString(), endDate.toISOString()) as ConversationRow[];
+}
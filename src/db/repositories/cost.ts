@@ -0,0 +1,178 @@
+/**
+ * Cost Repository
+ * Aggregate token cost queries over turns and conversations
+ */
+
+import { getDatabase } from '../connection.js';
+import type { AssistantSource } from '../../types/index.js';
+
+export type CostGroupBy = 'model' | 'project' | 'day';
+
+export interface CostFilter {
+  startDate?: Date;
+  endDate?: Date;
+  project?: string;
+  source?: AssistantSource;
+}
+
+export interface CostTotals {
+  conversations: number;
+  turns: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number;
+  unpriced_turns: number; // turns with tokens but no pricing for the model
+}
+
+export interface CostBreakdownRow extends CostTotals {
+  key: string;
+}
+
+const GROUP_KEYS: Record<CostGroupBy, string> = {
+  model: "COALESCE(NULLIF(t.model, ''), NULLIF(c.model, ''), 'unknown')",
+  project: 'c.project',
+  day: 'DATE(COALESCE(t.timestamp, c.started_at))',
+};
+
+const AGGREGATES = `
+  COUNT(DISTINCT c.id) as conversations,
+  COUNT(t.id) as turns,
+  COALESCE(SUM(t.input_tokens), 0) as input_tokens,
+  COALESCE(SUM(t.output_tokens), 0) as output_tokens,
+  COALESCE(SUM(t.cache_creation_tokens), 0) as cache_creation_tokens,
+  COALESCE(SUM(t.cache_read_tokens), 0) as cache_read_tokens,
+  COALESCE(SUM(t.cost_usd), 0) as cost_usd,
+  COALESCE(SUM(CASE WHEN t.cost_usd IS NULL THEN 1 ELSE 0 END), 0) as unpriced_turns
+`;
+
+/**
+ * Build WHERE clause for turns that carry token usage
+ */
+function buildCostWhere(filter: CostFilter): { where: string; params: unknown[] } {
+  const conditions = [
+    '(COALESCE(t.input_tokens, 0) + COALESCE(t.output_tokens, 0) + COALESCE(t.cache_creation_tokens, 0) + COALESCE(t.cache_read_tokens, 0) > 0 OR t.cost_usd IS NOT NULL)',
+  ];
+  const params: unknown[] = [];
+
+  if (filter.startDate) {
+    conditions.push('COALESCE(t.timestamp, c.started_at) >= ?');
+    params.push(filter.startDate.toISOString());
+  }
+  if (filter.endDate) {
+    conditions.push('COALESCE(t.timestamp, c.started_at) <= ?');
+    params.push(filter.endDate.toISOString());
+  }
+  if (filter.project) {
+    conditions.push('c.project = ?');
+    params.push(filter.project);
+  }
+  if (filter.source) {
+    conditions.push('c.source = ?');
+    params.push(filter.source);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Get total cost for the filter
+ */
+export function getCostTotals(filter: CostFilter = {}): CostTotals {
+  const db = getDatabase();
+  const { where, params } = buildCostWhere(filter);
+  return db
+    .prepare(
+      `
+      SELECT ${AGGREGATES}
+      FROM turns t
+      JOIN conversations c ON t.conversation_id = c.id
+      WHERE ${where}
+    `
+    )
+    .get(...params) as CostTotals;
+}
+
+/**
+ * Get cost grouped by model, project or day
+ */
+export function getCostBreakdown(
+  groupBy: CostGroupBy,
+  filter: CostFilter = {}
+): CostBreakdownRow[] {
+  const db = getDatabase();
+  const { where, params } = buildCostWhere(filter);
+  const key = GROUP_KEYS[groupBy];
+  return db
+    .prepare(
+      `
+      SELECT ${key} as key, ${AGGREGATES}
+      FROM turns t
+      JOIN conversations c ON t.conversation_id = c.id
+      WHERE ${where}
+      GROUP BY ${key}
+      ORDER BY ${groupBy === 'day' ? 'key ASC' : 'cost_usd DESC'}
+    `
+    )
+    .all(...params) as CostBreakdownRow[];
+}
+
+/**
+ * Get turns with token usage (for repricing after pricing changes)
+ * Aider reports its own per-message cost, so its turns are left as is
+ */
+export function getTurnsWithUsage(): Array<{
+  id: string;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_creation_tokens: number | null;
+  cache_read_tokens: number | null;
+}> {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+      SELECT
+        t.id,
+        COALESCE(NULLIF(t.model, ''), c.model) as model,
+        t.input_tokens, t.output_tokens, t.cache_creation_tokens, t.cache_read_tokens
+      FROM turns t
+      JOIN conversations c ON t.conversation_id = c.id
+      WHERE COALESCE(t.input_tokens, 0) + COALESCE(t.output_tokens, 0)
+        + COALESCE(t.cache_creation_tokens, 0) + COALESCE(t.cache_read_tokens, 0) > 0
+        AND c.source != 'aider'
+    `
+    )
+    .all() as Array<{
+    id: string;
+    model: string | null;
+    input_tokens: number | null;
+    output_tokens: number | null;
+    cache_creation_tokens: number | null;
+    cache_read_tokens: number | null;
+  }>;
+}
+
+/**
+ * Update turn costs and recompute conversation totals (single transaction)
+ */
+export function updateTurnCosts(costs: Array<{ id: string; costUsd: number | null }>): void {
+  const db = getDatabase();
+  const updateTurn = db.prepare('UPDATE turns SET cost_usd = ? WHERE id = ?');
+
+  const run = db.transaction((items: Array<{ id: string; costUsd: number | null }>) => {
+    items.forEach(({ id, costUsd }) => updateTurn.run(costUsd, id));
+    db.prepare(
+      `
+      UPDATE conversations
+      SET total_cost_usd = COALESCE(
+        (SELECT SUM(cost_usd) FROM turns WHERE turns.conversation_id = conversations.id), 0
+      )
+    `
+    ).run();
+  });
+
+  run(costs);
+}
@@ -0,0 +1,86 @@
+/**
+ * Import Ledger Repository
+ * Per-session file position for incremental (append-only) imports
+ */
+
+import { getDatabase } from '../connection.js';
+import type { AssistantSource, SessionCursor } from '../../types/index.js';
+
+export interface ImportLedgerRow {
+  conversation_id: string;
+  source: AssistantSource;
+  file_path: string;
+  file_size: number;
+  mtime_ms: number;
+  byte_offset: number;
+  cursor: string | null; // JSON SessionCursor
+  updated_at: string;
+}
+
+export interface ImportLedgerEntry {
+  conversationId: string;
+  source: AssistantSource;
+  filePath: string;
+  fileSize: number;
+  mtimeMs: number;
+  byteOffset: number;
+  cursor?: SessionCursor;
+}
+
+/**
+ * Get ledger entry for a conversation
+ */
+export function getImportLedgerEntry(conversationId: string): ImportLedgerEntry | undefined {
+  const db = getDatabase();
+  const row = db
+    .prepare('SELECT * FROM import_ledger WHERE conversation_id = ?')
+    .get(conversationId) as ImportLedgerRow | undefined;
+  if (!row) return undefined;
+
+  return {
+    conversationId: row.conversation_id,
+    source: row.source,
+    filePath: row.file_path,
+    fileSize: row.file_size,
+    mtimeMs: row.mtime_ms,
+    byteOffset: row.byte_offset,
+    cursor: row.cursor ? (JSON.parse(row.cursor) as SessionCursor) : undefined,
+  };
+}
+
+/**
+ * Insert or update ledger entry (after the conversation row exists)
+ */
+export function upsertImportLedgerEntry(entry: ImportLedgerEntry): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO import_ledger (
+      conversation_id, source, file_path, file_size, mtime_ms, byte_offset, cursor, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(conversation_id) DO UPDATE SET
+      source = excluded.source,
+      file_path = excluded.file_path,
+      file_size = excluded.file_size,
+      mtime_ms = excluded.mtime_ms,
+      byte_offset = excluded.byte_offset,
+      cursor = excluded.cursor,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    entry.conversationId,
+    entry.source,
+    entry.filePath,
+    entry.fileSize,
+    Math.floor(entry.mtimeMs),
+    entry.byteOffset,
+    entry.cursor ? JSON.stringify(entry.cursor) : null
+  );
+}
+
+/**
+ * Get number of tracked session files
+ */
+export function getImportLedgerCount(): number {
+  const db = getDatabase();
+  const result = db.prepare('SELECT COUNT(*) as count FROM import_ledger').get() as { count: number };
+  return result.count;
+}
@@ -6,3 +6,13 @@ export * from './conversation.js';
 export * from './turn.js';
 export * from './toolUsage.js';
 export * from './qualitySignal.js';
+export * from './cost.js';
+export * from './importLedger.js';
+export * from './summary.js';
+export * from './search.js';
+export * from './promptEmbedding.js';
+export * from './llmBatch.js';
+export * from './personalModel.js';
+export * from './promptOutcome.js';
+export * from './team.js';
+export * from './redaction.js';
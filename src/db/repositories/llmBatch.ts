@@ -0,0 +1,188 @@
+/**
+ * LLM Batch Repository
+ * Provider batch jobs and per-turn items for resumable LLM judging
+ */
+
+import { getDatabase } from '../connection.js';
+import { GOLDEN_SCORE_SIGNAL } from './qualitySignal.js';
+
+export type LLMBatchJobStatus = 'pending' | 'submitted' | 'completed' | 'failed';
+export type LLMBatchItemStatus = 'queued' | 'merged' | 'errored' | 'canceled' | 'expired';
+
+export interface LLMBatchJobRow {
+  id: string;
+  task: string;
+  provider: string;
+  model: string;
+  template_version: string;
+  provider_batch_id: string | null;
+  status: LLMBatchJobStatus;
+  item_count: number;
+  error: string | null;
+  created_at: string;
+  submitted_at: string | null;
+  completed_at: string | null;
+}
+
+export interface LLMBatchItemRow {
+  job_id: string;
+  custom_id: string;
+  turn_id: string;
+  conversation_id: string;
+  status: LLMBatchItemStatus;
+  error: string | null;
+}
+
+export interface LLMBatchItemInput {
+  customId: string;
+  turnId: string;
+  conversationId: string;
+}
+
+export interface UnjudgedTurnRow {
+  turn_id: string;
+  conversation_id: string;
+  content: string;
+}
+
+/**
+ * Main-path user prompts without a GOLDEN score that are not queued in an open job
+ */
+export function getUnjudgedPromptTurns(options: { minLength?: number; limit?: number } = {}): UnjudgedTurnRow[] {
+  const db = getDatabase();
+  const params: unknown[] = [GOLDEN_SCORE_SIGNAL, options.minLength ?? 0];
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    limitClause = 'LIMIT ?';
+    params.push(options.limit);
+  }
+
+  return db
+    .prepare(`
+      SELECT t.id as turn_id, t.conversation_id, t.content
+      FROM turns t
+      WHERE t.role = 'user' AND t.branch_type = 'main' AND t.content IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM quality_signals qs WHERE qs.turn_id = t.id AND qs.signal_type = ?
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM llm_batch_items i
+          JOIN llm_batch_jobs j ON j.id = i.job_id
+          WHERE i.turn_id = t.id AND j.status IN ('pending', 'submitted')
+        )
+        AND LENGTH(TRIM(t.content)) >= ?
+      ORDER BY t.timestamp ASC, t.id ASC
+      ${limitClause}
+    `)
+    .all(...params) as UnjudgedTurnRow[];
+}
+
+/**
+ * Record a job and its items before submission
+ */
+export function createLLMBatchJob(
+  job: { id: string; task: string; provider: string; model: string; templateVersion: string },
+  items: LLMBatchItemInput[]
+): void {
+  const db = getDatabase();
+  const insertItem = db.prepare(
+    'INSERT INTO llm_batch_items (job_id, custom_id, turn_id, conversation_id) VALUES (?, ?, ?, ?)'
+  );
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO llm_batch_jobs (id, task, provider, model, template_version, item_count)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(job.id, job.task, job.provider, job.model, job.templateVersion, items.length);
+    for (const item of items) {
+      insertItem.run(job.id, item.customId, item.turnId, item.conversationId);
+    }
+  })();
+}
+
+/**
+ * Store the provider batch id once the job is accepted
+ */
+export function markLLMBatchJobSubmitted(jobId: string, providerBatchId: string): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE llm_batch_jobs
+    SET provider_batch_id = ?, status = 'submitted', submitted_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(providerBatchId, jobId);
+}
+
+/**
+ * Close a job (completed, or failed with an error)
+ */
+export function finishLLMBatchJob(jobId: string, status: 'completed' | 'failed', error?: string): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE llm_batch_jobs SET status = ?, error = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(status, error ?? null, jobId);
+}
+
+/**
+ * Jobs still waiting for submission or results
+ */
+export function getOpenLLMBatchJobs(task: string): LLMBatchJobRow[] {
+  const db = getDatabase();
+  return db
+    .prepare("SELECT * FROM llm_batch_jobs WHERE task = ? AND status IN ('pending', 'submitted') ORDER BY created_at, id")
+    .all(task) as LLMBatchJobRow[];
+}
+
+/**
+ * Get a job by id
+ */
+export function getLLMBatchJob(jobId: string): LLMBatchJobRow | undefined {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM llm_batch_jobs WHERE id = ?').get(jobId) as LLMBatchJobRow | undefined;
+}
+
+/**
+ * Items of a job with the turn text (for submission and merging)
+ */
+export function getLLMBatchItems(jobId: string): Array<LLMBatchItemRow & { content: string }> {
+  const db = getDatabase();
+  return db
+    .prepare(`
+      SELECT i.*, t.content
+      FROM llm_batch_items i
+      JOIN turns t ON t.id = i.turn_id
+      WHERE i.job_id = ?
+      ORDER BY i.custom_id
+    `)
+    .all(jobId) as Array<LLMBatchItemRow & { content: string }>;
+}
+
+/**
+ * Update an item after its result is processed
+ */
+export function setLLMBatchItemStatus(
+  jobId: string,
+  customId: string,
+  status: LLMBatchItemStatus,
+  error?: string
+): void {
+  const db = getDatabase();
+  db.prepare('UPDATE llm_batch_items SET status = ?, error = ? WHERE job_id = ? AND custom_id = ?').run(
+    status,
+    error ?? null,
+    jobId,
+    customId
+  );
+}
+
+/**
+ * Item counts by status for a job
+ */
+export function getLLMBatchItemCounts(jobId: string): Record<LLMBatchItemStatus, number> {
+  const db = getDatabase();
+  const counts: Record<LLMBatchItemStatus, number> = { queued: 0, merged: 0, errored: 0, canceled: 0, expired: 0 };
+  const rows = db
+    .prepare('SELECT status, COUNT(*) as count FROM llm_batch_items WHERE job_id = ? GROUP BY status')
+    .all(jobId) as Array<{ status: LLMBatchItemStatus; count: number }>;
+  for (const row of rows) counts[row.status] = row.count;
+  return counts;
+}
@@ -0,0 +1,146 @@
+/**
+ * Personal Model Repository
+ * Learned effectiveness models per scope and the labeled history they are trained on
+ */
+
+import { getDatabase } from '../connection.js';
+
+export interface PersonalModelRow {
+  scope: string;
+  version: number;
+  samples: number;
+  model: string;
+  trained_at: string;
+}
+
+export interface PromptOutcomeRow {
+  turn_id: string;
+  conversation_id: string;
+  project: string;
+  content: string;
+  /** Comma-separated signal types on the following main-path user turn (null if none) */
+  next_signals: string | null;
+}
+
+export interface EffectivenessComponentsRow {
+  conversation_id: string;
+  project: string;
+  value: number;
+  metadata: string | null;
+}
+
+// Rows written by saveEffectivenessScore
+const EFFECTIVENESS_ROW_FILTER =
+  "signal_type = 'positive_feedback' AND turn_id IS NULL AND metadata LIKE '%effectiveness_score%'";
+
+/**
+ * Insert or replace the model for a scope
+ */
+export function savePersonalModel(scope: string, model: { version: number; samples: number }): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT OR REPLACE INTO personal_models (scope, version, samples, model, trained_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `).run(scope, model.version, model.samples, JSON.stringify(model));
+}
+
+/**
+ * Get the stored model for a scope
+ */
+export function getPersonalModelRow(scope: string): PersonalModelRow | undefined {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM personal_models WHERE scope = ?').get(scope) as PersonalModelRow | undefined;
+}
+
+/**
+ * All stored models (global first)
+ */
+export function getPersonalModelRows(): PersonalModelRow[] {
+  const db = getDatabase();
+  return db
+    .prepare("SELECT * FROM personal_models ORDER BY scope != 'global', scope")
+    .all() as PersonalModelRow[];
+}
+
+/**
+ * Delete the model for a scope (returns whether one existed)
+ */
+export function deletePersonalModel(scope: string): boolean {
+  const db = getDatabase();
+  return db.prepare('DELETE FROM personal_models WHERE scope = ?').run(scope).changes > 0;
+}
+
+/**
+ * Main-path user prompts with the signals detected on the next main-path user turn
+ * The last prompt of each conversation has no next turn and is not returned
+ */
+export function getPromptOutcomeRows(options: { project?: string; minLength?: number } = {}): PromptOutcomeRow[] {
+  const db = getDatabase();
+  const params: unknown[] = [];
+  let projectClause = '';
+  if (options.project) {
+    projectClause = 'AND c.project = ?';
+    params.push(options.project);
+  }
+  params.push(options.minLength ?? 0);
+
+  return db
+    .prepare(`
+      WITH prompts AS (
+        SELECT
+          t.id, t.conversation_id, t.content, c.project,
+          LEAD(t.id) OVER (PARTITION BY t.conversation_id ORDER BY t.turn_index) AS next_id
+        FROM turns t
+        JOIN conversations c ON c.id = t.conversation_id
+        WHERE t.role = 'user' AND t.branch_type = 'main' AND t.content IS NOT NULL
+          ${projectClause}
+      )
+      SELECT
+        p.id as turn_id, p.conversation_id, p.project, p.content,
+        (SELECT GROUP_CONCAT(DISTINCT qs.signal_type) FROM quality_signals qs WHERE qs.turn_id = p.next_id) as next_signals
+      FROM prompts p
+      WHERE p.next_id IS NOT NULL AND LENGTH(TRIM(p.content)) >= ?
+      ORDER BY p.conversation_id, p.id
+    `)
+    .all(...params) as PromptOutcomeRow[];
+}
+
+/**
+ * Stored effectiveness scores with their components
+ */
+export function getEffectivenessComponentRows(options: { project?: string } = {}): EffectivenessComponentsRow[] {
+  const db = getDatabase();
+  const params: unknown[] = [];
+  let projectClause = '';
+  if (options.project) {
+    projectClause = 'AND c.project = ?';
+    params.push(options.project);
+  }
+
+  return db
+    .prepare(`
+      SELECT qs.conversation_id, c.project, qs.value, qs.metadata
+      FROM quality_signals qs
+      JOIN conversations c ON c.id = qs.conversation_id
+      WHERE ${EFFECTIVENESS_ROW_FILTER} ${projectClause}
+      ORDER BY qs.conversation_id
+    `)
+    .all(...params) as EffectivenessComponentsRow[];
+}
+
+/**
+ * Replace stored effectiveness scores (components are kept)
+ */
+export function updateEffectivenessScores(updates: Array<{ conversationId: string; score: number }>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(
+    `UPDATE quality_signals SET value = ? WHERE conversation_id = ? AND ${EFFECTIVENESS_ROW_FILTER}`
+  );
+  let changed = 0;
+  db.transaction(() => {
+    for (const update of updates) {
+      changed += stmt.run(update.score, update.conversationId).changes;
+    }
+  })();
+  return changed;
+}
@@ -0,0 +1,199 @@
+/**
+ * Prompt Embedding Repository
+ * Cached prompt vectors for library clustering and similar-prompt lookup
+ */
+
+import { getDatabase } from '../connection.js';
+import type { AssistantSource } from '../../types/index.js';
+
+export interface PromptCandidateFilter {
+  project?: string;
+  source?: AssistantSource;
+}
+
+export interface PromptCandidateRow {
+  turn_id: string;
+  conversation_id: string;
+  content: string;
+  timestamp: string | null;
+  project: string;
+  source: AssistantSource;
+  effectiveness: number | null; // conversation score from analyze
+  vector: Buffer | null;        // null when not embedded with the model yet
+}
+
+function toBuffer(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * Decode a stored vector (copied so the Float32Array is aligned)
+ */
+export function decodeEmbedding(buffer: Buffer): Float32Array {
+  const bytes = new Uint8Array(buffer.byteLength);
+  bytes.set(buffer);
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * Main-path user prompts with their cached embedding for the model
+ */
+export function getPromptCandidates(model: string, filter: PromptCandidateFilter = {}): PromptCandidateRow[] {
+  const db = getDatabase();
+
+  const conditions = ["t.role = 'user'", "t.branch_type = 'main'", "t.content IS NOT NULL", "TRIM(t.content) != ''"];
+  const params: unknown[] = [model];
+  if (filter.project) {
+    conditions.push('c.project = ?');
+    params.push(filter.project);
+  }
+  if (filter.source) {
+    conditions.push('c.source = ?');
+    params.push(filter.source);
+  }
+
+  return db
+    .prepare(`
+      SELECT t.id as turn_id, t.conversation_id, t.content,
+        COALESCE(t.timestamp, c.started_at) as timestamp, c.project, c.source,
+        e.effectiveness, pe.vector
+      FROM turns t
+      JOIN conversations c ON c.id = t.conversation_id
+      LEFT JOIN prompt_embeddings pe ON pe.turn_id = t.id AND pe.model = ?
+      LEFT JOIN (
+        SELECT conversation_id, MAX(value) as effectiveness
+        FROM quality_signals
+        WHERE json_extract(metadata, '$.type') = 'effectiveness_score'
+        GROUP BY conversation_id
+      ) e ON e.conversation_id = t.conversation_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY timestamp DESC
+    `)
+    .all(...params) as PromptCandidateRow[];
+}
+
+/**
+ * Get cached embeddings for turns (missing or other-model rows are omitted)
+ */
+export function getPromptEmbeddings(turnIds: string[], model: string): Map<string, Float32Array> {
+  const db = getDatabase();
+  const result = new Map<string, Float32Array>();
+  if (turnIds.length === 0) return result;
+
+  const stmt = db.prepare('SELECT vector FROM prompt_embeddings WHERE turn_id = ? AND model = ?');
+  for (const turnId of turnIds) {
+    const row = stmt.get(turnId, model) as { vector: Buffer } | undefined;
+    if (row) result.set(turnId, decodeEmbedding(row.vector));
+  }
+  return result;
+}
+
+/**
+ * Store embeddings (replaces vectors from an older model)
+ */
+export function savePromptEmbeddings(
+  model: string,
+  embeddings: Array<{ turnId: string; vector: Float32Array }>
+): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO prompt_embeddings (turn_id, model, dimensions, vector)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const insertMany = db.transaction((items: typeof embeddings) => {
+    for (const { turnId, vector } of items) {
+      stmt.run(turnId, model, vector.length, toBuffer(vector));
+    }
+  });
+
+  insertMany(embeddings);
+}
+
+// =============================================================================
+// Embedding models
+// =============================================================================
+
+export interface StoredEmbeddingModel {
+  model: string;
+  vocabulary: string[];
+  idf: Float32Array;
+  components: Float32Array;
+  dimensions: number;
+  documentCount: number;
+}
+
+interface EmbeddingModelRow {
+  model: string;
+  document_count: number;
+  dimensions: number;
+  vocabulary: string;
+  idf: Buffer;
+  components: Buffer;
+}
+
+const MAIN_PROMPT_FILTER = "role = 'user' AND branch_type = 'main' AND content IS NOT NULL AND TRIM(content) != ''";
+
+/**
+ * Number of main-path user prompts (decides when the embedding model is refitted)
+ */
+export function countPromptCorpus(): number {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT COUNT(*) as count FROM turns WHERE ${MAIN_PROMPT_FILTER}`).get() as { count: number };
+  return row.count;
+}
+
+/**
+ * Newest main-path user prompts to fit the embedding model on
+ */
+export function getPromptCorpus(limit: number): string[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(`SELECT content FROM turns WHERE ${MAIN_PROMPT_FILTER} ORDER BY timestamp DESC LIMIT ?`)
+    .all(limit) as Array<{ content: string }>;
+  return rows.map((r) => r.content);
+}
+
+/**
+ * Store a fitted embedding model (older models and their vectors are dropped)
+ */
+export function saveEmbeddingModel(model: StoredEmbeddingModel): void {
+  const db = getDatabase();
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM prompt_embeddings WHERE model != ?').run(model.model);
+    db.prepare('DELETE FROM embedding_models WHERE model != ?').run(model.model);
+    db.prepare(`
+      INSERT OR REPLACE INTO embedding_models (model, document_count, dimensions, vocabulary, idf, components)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      model.model,
+      model.documentCount,
+      model.dimensions,
+      JSON.stringify(model.vocabulary),
+      toBuffer(model.idf),
+      toBuffer(model.components)
+    );
+  })();
+}
+
+/**
+ * Get the newest stored embedding model
+ */
+export function getLatestEmbeddingModel(): StoredEmbeddingModel | null {
+  const db = getDatabase();
+  const row = db
+    .prepare('SELECT * FROM embedding_models ORDER BY created_at DESC, rowid DESC LIMIT 1')
+    .get() as EmbeddingModelRow | undefined;
+  if (!row) return null;
+
+  return {
+    model: row.model,
+    vocabulary: JSON.parse(row.vocabulary) as string[],
+    idf: decodeEmbedding(row.idf),
+    components: decodeEmbedding(row.components),
+    dimensions: row.dimensions,
+    documentCount: row.document_count,
+  };
+}
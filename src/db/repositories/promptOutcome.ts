@@ -0,0 +1,161 @@
+/**
+ * Prompt Outcome Repository
+ * Per-prompt downstream outcomes (what followed each main-path user turn)
+ */
+
+import { getDatabase } from '../connection.js';
+
+export type PromptOutcomeSort = 'friction' | 'cost' | 'errors' | 'recent';
+
+export interface PromptOutcomeInsert {
+  turnId: string;
+  nextTurnId: string | null;
+  assistantTurns: number;
+  toolCalls: number;
+  toolErrors: number;
+  filesTouched: string[];
+  nextTurnReaction: string;
+  durationMs: number | null;
+  timeToCompletionMs: number | null;
+  outputTokens: number;
+  costUsd: number;
+  frictionScore: number;
+}
+
+export interface PromptOutcomeFilter {
+  startDate?: Date;
+  project?: string;
+  reaction?: string;
+  /** Only outcomes with at least this friction score */
+  minFriction?: number;
+}
+
+export interface PromptOutcomeListRow {
+  turn_id: string;
+  conversation_id: string;
+  project: string;
+  content: string;
+  timestamp: string | null;
+  next_turn_id: string | null;
+  assistant_turns: number;
+  tool_calls: number;
+  tool_errors: number;
+  files_touched: string; // JSON array
+  next_turn_reaction: string;
+  duration_ms: number | null;
+  time_to_completion_ms: number | null;
+  output_tokens: number;
+  cost_usd: number;
+  friction_score: number;
+}
+
+const SORT_ORDERS: Record<PromptOutcomeSort, string> = {
+  friction: 'o.friction_score DESC, o.cost_usd DESC',
+  cost: 'o.cost_usd DESC, o.friction_score DESC',
+  errors: 'o.tool_errors DESC, o.friction_score DESC',
+  recent: 'COALESCE(t.timestamp, c.started_at) DESC',
+};
+
+function buildOutcomeWhere(filter: PromptOutcomeFilter): { where: string; params: unknown[] } {
+  const conditions = ['1 = 1'];
+  const params: unknown[] = [];
+
+  if (filter.startDate) {
+    conditions.push('COALESCE(t.timestamp, c.started_at) >= ?');
+    params.push(filter.startDate.toISOString());
+  }
+  if (filter.project) {
+    conditions.push('c.project = ?');
+    params.push(filter.project);
+  }
+  if (filter.reaction) {
+    conditions.push('o.next_turn_reaction = ?');
+    params.push(filter.reaction);
+  }
+  if (filter.minFriction !== undefined) {
+    conditions.push('o.friction_score >= ?');
+    params.push(filter.minFriction);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Replace all outcomes of a conversation
+ */
+export function replacePromptOutcomes(conversationId: string, outcomes: PromptOutcomeInsert[]): void {
+  const db = getDatabase();
+  const remove = db.prepare('DELETE FROM prompt_outcomes WHERE conversation_id = ?');
+  const insert = db.prepare(`
+    INSERT INTO prompt_outcomes (
+      turn_id, conversation_id, next_turn_id, assistant_turns, tool_calls, tool_errors,
+      files_touched, next_turn_reaction, duration_ms, time_to_completion_ms,
+      output_tokens, cost_usd, friction_score
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    remove.run(conversationId);
+    for (const o of outcomes) {
+      insert.run(
+        o.turnId,
+        conversationId,
+        o.nextTurnId,
+        o.assistantTurns,
+        o.toolCalls,
+        o.toolErrors,
+        JSON.stringify(o.filesTouched),
+        o.nextTurnReaction,
+        o.durationMs,
+        o.timeToCompletionMs,
+        o.outputTokens,
+        o.costUsd,
+        o.frictionScore
+      );
+    }
+  })();
+}
+
+/**
+ * List outcomes with the prompt text and project
+ */
+export function getPromptOutcomes(
+  filter: PromptOutcomeFilter = {},
+  options: { sort?: PromptOutcomeSort; limit?: number; offset?: number } = {}
+): PromptOutcomeListRow[] {
+  const db = getDatabase();
+  const { where, params } = buildOutcomeWhere(filter);
+  return db
+    .prepare(
+      `
+      SELECT o.*, c.project, t.content, t.timestamp
+      FROM prompt_outcomes o
+      JOIN turns t ON o.turn_id = t.id
+      JOIN conversations c ON o.conversation_id = c.id
+      WHERE ${where}
+      ORDER BY ${SORT_ORDERS[options.sort ?? 'friction']}
+      LIMIT ? OFFSET ?
+    `
+    )
+    .all(...params, options.limit ?? 50, options.offset ?? 0) as PromptOutcomeListRow[];
+}
+
+/**
+ * Count outcomes matching the filter
+ */
+export function countPromptOutcomes(filter: PromptOutcomeFilter = {}): number {
+  const db = getDatabase();
+  const { where, params } = buildOutcomeWhere(filter);
+  const row = db
+    .prepare(
+      `
+      SELECT COUNT(*) as count
+      FROM prompt_outcomes o
+      JOIN turns t ON o.turn_id = t.id
+      JOIN conversations c ON o.conversation_id = c.id
+      WHERE ${where}
+    `
+    )
+    .get(...params) as { count: number };
+  return row.count;
+}
@@ -183,6 +183,29 @@ export function saveEffectivenessScore(
   });
 }
 
+/**
+ * Signal type for per-turn GOLDEN scores from the LLM judge (analyze --llm)
+ * Kept when a conversation is re-analyzed
+ */
+export const GOLDEN_SCORE_SIGNAL = 'golden_score';
+
+/**
+ * Save the merged (rule-based + LLM) GOLDEN score for a user turn, replacing any earlier one
+ */
+export function saveGoldenScore(
+  conversationId: string,
+  turnId: string,
+  total: number,
+  metadata: Record<string, unknown>
+): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM quality_signals WHERE turn_id = ? AND signal_type = ?').run(turnId, GOLDEN_SCORE_SIGNAL);
+  db.prepare(`
+    INSERT INTO quality_signals (conversation_id, signal_type, turn_id, value, metadata)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(conversationId, GOLDEN_SCORE_SIGNAL, turnId, total, JSON.stringify(metadata));
+}
+
 /**
  * Get signal distribution by project
  */
@@ -207,13 +230,19 @@ export function getSignalDistributionByProject(): Array<{
 }
 
 /**
- * Delete signals for a conversation
+ * Delete signals for a conversation (optionally keeping some signal types)
  */
-export function deleteSignalsByConversationId(conversationId: string): void {
+export function deleteSignalsByConversationId(
+  conversationId: string,
+  options?: { exceptTypes?: string[] }
+): void {
   const db = getDatabase();
-  db.prepare('DELETE FROM quality_signals WHERE conversation_id = ?').run(
-    conversationId
-  );
+  const except = options?.exceptTypes ?? [];
+  db.prepare(
+    `DELETE FROM quality_signals WHERE conversation_id = ?${
+      except.length > 0 ? ` AND signal_type NOT IN (${except.map(() => '?').join(', ')})` : ''
+    }`
+  ).run(conversationId, ...except);
 }
 
 /**
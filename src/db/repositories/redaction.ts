@@ -0,0 +1,106 @@
+/**
+ * Redaction Repository
+ * Stored free-text columns scanned and scrubbed by `redact --audit`,
+ * and the per-conversation placeholder vault used to restore them
+ */
+
+import { getDatabase } from '../connection.js';
+
+export const REDACTABLE_COLUMNS = [
+  { table: 'turns', column: 'content' },
+  { table: 'turns', column: 'thinking' },
+  { table: 'summaries', column: 'summary' },
+  { table: 'tool_usages', column: 'input_summary' },
+  { table: 'tool_usages', column: 'target' },
+  { table: 'tool_usages', column: 'result_summary' },
+  { table: 'team_prompts', column: 'content' },
+] as const;
+
+export type RedactableColumn = typeof REDACTABLE_COLUMNS[number];
+
+export interface RedactableTextRow {
+  /** Row key (turn id, summary id, tool usage id, team prompt id) */
+  key: string | number;
+  /** Where the row belongs: conversation id, or team member for team prompts */
+  ref: string;
+  text: string;
+}
+
+const ROW_QUERIES: Record<RedactableColumn['table'], { key: string; ref: string; from: string }> = {
+  turns: { key: 't.id', ref: 't.conversation_id', from: 'turns t' },
+  summaries: { key: 't.id', ref: 't.conversation_id', from: 'summaries t' },
+  tool_usages: { key: 't.id', ref: 'tr.conversation_id', from: 'tool_usages t JOIN turns tr ON tr.id = t.turn_id' },
+  team_prompts: { key: 't.id', ref: 't.member', from: 'team_prompts t' },
+};
+
+/**
+ * Iterate the non-empty values of one column
+ * (the iterator holds the connection: collect updates and apply them afterwards)
+ */
+export function iterateRedactableText(target: RedactableColumn): IterableIterator<RedactableTextRow> {
+  const query = ROW_QUERIES[target.table];
+  return getDatabase()
+    .prepare(`
+      SELECT ${query.key} as key, ${query.ref} as ref, t.${target.column} as text
+      FROM ${query.from}
+      WHERE t.${target.column} IS NOT NULL AND t.${target.column} != ''
+      ORDER BY ${query.key}
+    `)
+    .iterate() as IterableIterator<RedactableTextRow>;
+}
+
+/**
+ * Overwrite column values with their redacted text
+ * Turn content changes drop the cached prompt embeddings; the summary search index is rebuilt
+ * (turns_fts follows its update trigger)
+ */
+export function updateRedactableText(
+  target: RedactableColumn,
+  updates: Array<{ key: string | number; text: string }>
+): void {
+  if (updates.length === 0) return;
+
+  const db = getDatabase();
+  const update = db.prepare(`UPDATE ${target.table} SET ${target.column} = ? WHERE id = ?`);
+  const dropEmbedding = db.prepare('DELETE FROM prompt_embeddings WHERE turn_id = ?');
+
+  db.transaction(() => {
+    for (const { key, text } of updates) {
+      update.run(text, key);
+      if (target.table === 'turns' && target.column === 'content') dropEmbedding.run(key);
+    }
+    if (target.table === 'summaries') {
+      db.exec("INSERT INTO summaries_fts(summaries_fts) VALUES ('rebuild')");
+    }
+  })();
+}
+
+export interface RedactionVaultRow {
+  placeholder: string;
+  kind: string;
+  value: string;
+}
+
+/**
+ * Placeholder mapping stored for a conversation
+ */
+export function getRedactionVaultEntries(conversationId: string): RedactionVaultRow[] {
+  return getDatabase()
+    .prepare('SELECT placeholder, kind, value FROM redaction_vault WHERE conversation_id = ? ORDER BY rowid')
+    .all(conversationId) as RedactionVaultRow[];
+}
+
+/**
+ * Store placeholder mappings (existing placeholders are kept as they are)
+ */
+export function saveRedactionVaultEntries(conversationId: string, entries: RedactionVaultRow[]): void {
+  if (entries.length === 0) return;
+
+  const db = getDatabase();
+  const insert = db.prepare(
+    'INSERT OR IGNORE INTO redaction_vault (conversation_id, placeholder, kind, value) VALUES (?, ?, ?, ?)'
+  );
+  db.transaction(() => {
+    for (const entry of entries) insert.run(conversationId, entry.placeholder, entry.kind, entry.value);
+  })();
+}
@@ -0,0 +1,179 @@
+/**
+ * Search Repository
+ * Ranked full-text queries over the turns_fts and summaries_fts indexes
+ */
+
+import { getDatabase } from '../connection.js';
+import type { AssistantSource } from '../../types/index.js';
+
+export const SNIPPET_MARK_START = '<mark>';
+export const SNIPPET_MARK_END = '</mark>';
+
+// Tokens of context around each match in a snippet
+const SNIPPET_TOKENS = 12;
+
+export type SearchHitKind = 'turn' | 'summary';
+
+export interface SearchFilter {
+  role?: 'user' | 'assistant';
+  project?: string;
+  source?: AssistantSource;
+  startDate?: Date;
+  endDate?: Date;
+  /** Include session summaries (ignored when role is set) */
+  includeSummaries?: boolean;
+}
+
+export interface SearchHitRow {
+  kind: SearchHitKind;
+  conversation_id: string;
+  turn_id: string | null;
+  role: 'user' | 'assistant' | null;
+  timestamp: string | null;
+  project: string;
+  source: AssistantSource;
+  content: string | null;
+  snippet: string;
+  rank: number; // bm25, lower is better
+}
+
+/**
+ * Build an FTS5 MATCH expression from user input
+ * Every word becomes a quoted prefix term ("버그" matches "버그를"),
+ * "quoted phrases" stay exact; all terms must match
+ */
+export function buildMatchQuery(text: string): string | null {
+  const terms: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[1] !== undefined) {
+      const phrase = match[1].trim();
+      if (phrase) terms.push(`"${phrase}"`);
+    } else {
+      const word = match[2].replace(/"/g, '');
+      if (word) terms.push(`"${word}"*`);
+    }
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+function buildFilterConditions(
+  filter: SearchFilter,
+  timestampColumn: string
+): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.project) {
+    conditions.push('c.project = ?');
+    params.push(filter.project);
+  }
+  if (filter.source) {
+    conditions.push('c.source = ?');
+    params.push(filter.source);
+  }
+  if (filter.startDate) {
+    conditions.push(`${timestampColumn} >= ?`);
+    params.push(filter.startDate.toISOString());
+  }
+  if (filter.endDate) {
+    conditions.push(`${timestampColumn} <= ?`);
+    params.push(filter.endDate.toISOString());
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * Build the UNION of turn and summary matches for the filter
+ */
+function buildSearchQuery(
+  matchQuery: string,
+  filter: SearchFilter
+): { sql: string; params: unknown[] } {
+  const parts: string[] = [];
+  const params: unknown[] = [];
+
+  const turnFilter = buildFilterConditions(filter, 'COALESCE(t.timestamp, c.started_at)');
+  const turnConditions = ['turns_fts MATCH ?', ...turnFilter.conditions];
+  const turnParams: unknown[] = [SNIPPET_MARK_START, SNIPPET_MARK_END, matchQuery, ...turnFilter.params];
+  if (filter.role) {
+    turnConditions.push('t.role = ?');
+    turnParams.push(filter.role);
+  }
+  parts.push(`
+    SELECT 'turn' as kind, t.conversation_id, t.id as turn_id, t.role,
+      COALESCE(t.timestamp, c.started_at) as timestamp, c.project, c.source,
+      t.content,
+      snippet(turns_fts, -1, ?, ?, '…', ${SNIPPET_TOKENS}) as snippet,
+      bm25(turns_fts) as rank
+    FROM turns_fts
+    JOIN turns t ON t.rowid = turns_fts.rowid
+    JOIN conversations c ON c.id = t.conversation_id
+    WHERE ${turnConditions.join(' AND ')}
+  `);
+  params.push(...turnParams);
+
+  if (!filter.role && filter.includeSummaries !== false) {
+    const summaryFilter = buildFilterConditions(filter, 'c.started_at');
+    parts.push(`
+      SELECT 'summary' as kind, s.conversation_id, NULL as turn_id, NULL as role,
+        c.started_at as timestamp, c.project, c.source,
+        s.summary as content,
+        snippet(summaries_fts, 0, ?, ?, '…', ${SNIPPET_TOKENS}) as snippet,
+        bm25(summaries_fts) as rank
+      FROM summaries_fts
+      JOIN summaries s ON s.id = summaries_fts.rowid
+      JOIN conversations c ON c.id = s.conversation_id
+      WHERE ${['summaries_fts MATCH ?', ...summaryFilter.conditions].join(' AND ')}
+    `);
+    params.push(SNIPPET_MARK_START, SNIPPET_MARK_END, matchQuery, ...summaryFilter.params);
+  }
+
+  return { sql: parts.join(' UNION ALL '), params };
+}
+
+/**
+ * Search turns and summaries, best matches first
+ */
+export function searchIndex(
+  text: string,
+  filter: SearchFilter = {},
+  options: { limit?: number; offset?: number } = {}
+): SearchHitRow[] {
+  const matchQuery = buildMatchQuery(text);
+  if (!matchQuery) return [];
+
+  const db = getDatabase();
+  const { sql, params } = buildSearchQuery(matchQuery, filter);
+  return db
+    .prepare(`SELECT * FROM (${sql}) ORDER BY rank, timestamp DESC LIMIT ? OFFSET ?`)
+    .all(...params, options.limit ?? 50, options.offset ?? 0) as SearchHitRow[];
+}
+
+/**
+ * Count all matches for the filter
+ */
+export function countSearchHits(text: string, filter: SearchFilter = {}): number {
+  const matchQuery = buildMatchQuery(text);
+  if (!matchQuery) return 0;
+
+  const db = getDatabase();
+  const { sql, params } = buildSearchQuery(matchQuery, filter);
+  const row = db.prepare(`SELECT COUNT(*) as count FROM (${sql})`).get(...params) as { count: number };
+  return row.count;
+}
+
+/**
+ * Rebuild both indexes from their tables
+ */
+export function rebuildSearchIndex(): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.exec("INSERT INTO turns_fts(turns_fts) VALUES ('rebuild')");
+    db.exec("INSERT INTO summaries_fts(summaries_fts) VALUES ('rebuild')");
+  })();
+}
@@ -0,0 +1,45 @@
+/**
+ * Summary Repository
+ * Session summaries written by the assistant (indexed for search)
+ */
+
+import { getDatabase } from '../connection.js';
+
+export interface SummaryRow {
+  id: number;
+  conversation_id: string;
+  summary: string;
+  created_at: string;
+}
+
+/**
+ * Insert summaries for a conversation, skipping ones already stored
+ * (resumed sessions repeat earlier summaries)
+ */
+export function insertSummaries(conversationId: string, summaries: string[]): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO summaries (conversation_id, summary)
+    SELECT ?, ?
+    WHERE NOT EXISTS (SELECT 1 FROM summaries WHERE conversation_id = ? AND summary = ?)
+  `);
+
+  const insertMany = db.transaction((items: string[]) => {
+    for (const summary of new Set(items)) {
+      stmt.run(conversationId, summary, conversationId, summary);
+    }
+  });
+
+  insertMany(summaries);
+}
+
+/**
+ * Get summaries for a conversation
+ */
+export function getSummariesByConversationId(conversationId: string): SummaryRow[] {
+  const db = getDatabase();
+  return db
+    .prepare('SELECT * FROM summaries WHERE conversation_id = ? ORDER BY id')
+    .all(conversationId) as SummaryRow[];
+}
@@ -0,0 +1,281 @@
+/**
+ * Team Repository
+ * Local rows for `pe export --team` and the per-member datasets imported from team bundles
+ */
+
+import { getDatabase } from '../connection.js';
+import { GOLDEN_SCORE_SIGNAL } from './qualitySignal.js';
+
+export interface TeamExportConversationRow {
+  id: string;
+  project: string;
+  source: string;
+  started_at: string | null;
+  turn_count: number;
+  total_cost_usd: number | null;
+  effectiveness: number | null;
+}
+
+export interface TeamExportPromptRow {
+  id: string;
+  conversation_id: string;
+  content: string;
+  timestamp: string | null;
+  friction_score: number | null;
+  next_turn_reaction: string | null;
+  tool_errors: number | null;
+  cost_usd: number | null;
+}
+
+export interface TeamMemberRow {
+  name: string;
+  share_details: number;
+  prompts_redacted: number;
+  bundle_version: number;
+  exported_at: string;
+  imported_at: string;
+  conversations: number;
+  prompts: number;
+}
+
+export interface TeamConversationInsert {
+  id: string;
+  projectHash: string;
+  source: string;
+  startedAt: string | null;
+  turnCount: number;
+  costUsd: number;
+  effectiveness: number | null;
+  signals: Record<string, number>;
+}
+
+export interface TeamPromptInsert {
+  conversationId: string;
+  timestamp: string | null;
+  content: string | null;
+  length: number;
+  category: string;
+  intent: string;
+  quality: number;
+  golden: {
+    goal: number;
+    output: number;
+    limits: number;
+    data: number;
+    evaluation: number;
+    next: number;
+    total: number;
+  };
+  antiPatterns: string[];
+  frictionScore: number | null;
+  nextTurnReaction: string | null;
+  toolErrors: number | null;
+  costUsd: number | null;
+}
+
+export interface TeamMemberDatasetInsert {
+  name: string;
+  shareDetails: boolean;
+  promptsRedacted: boolean;
+  bundleVersion: number;
+  exportedAt: string;
+  conversations: TeamConversationInsert[];
+  prompts: TeamPromptInsert[];
+}
+
+function startClause(startDate: Date | undefined, params: unknown[]): string {
+  if (!startDate) return '';
+  params.push(startDate.toISOString());
+  return 'AND c.started_at >= ?';
+}
+
+/**
+ * Conversations to export with their stored effectiveness score
+ */
+export function getTeamExportConversations(startDate?: Date): TeamExportConversationRow[] {
+  const db = getDatabase();
+  const params: unknown[] = [];
+  const where = startClause(startDate, params);
+  return db
+    .prepare(`
+      SELECT c.id, c.project, c.source, c.started_at, c.turn_count, c.total_cost_usd,
+        (
+          SELECT MAX(qs.value) FROM quality_signals qs
+          WHERE qs.conversation_id = c.id AND json_extract(qs.metadata, '$.type') = 'effectiveness_score'
+        ) AS effectiveness
+      FROM conversations c
+      WHERE 1 = 1 ${where}
+      ORDER BY c.started_at ASC
+    `)
+    .all(...params) as TeamExportConversationRow[];
+}
+
+/**
+ * Detected signal counts per conversation (stored scores are not signals and are left out)
+ */
+export function getTeamExportSignalCounts(startDate?: Date): Map<string, Record<string, number>> {
+  const db = getDatabase();
+  const params: unknown[] = [GOLDEN_SCORE_SIGNAL];
+  const where = startClause(startDate, params);
+  const rows = db
+    .prepare(`
+      SELECT qs.conversation_id, qs.signal_type, COUNT(*) AS count
+      FROM quality_signals qs
+      JOIN conversations c ON c.id = qs.conversation_id
+      WHERE qs.signal_type != ?
+        AND json_extract(qs.metadata, '$.type') IS NOT 'effectiveness_score'
+        ${where}
+      GROUP BY qs.conversation_id, qs.signal_type
+    `)
+    .all(...params) as Array<{ conversation_id: string; signal_type: string; count: number }>;
+
+  const counts = new Map<string, Record<string, number>>();
+  for (const row of rows) {
+    const signals = counts.get(row.conversation_id) ?? {};
+    signals[row.signal_type] = row.count;
+    counts.set(row.conversation_id, signals);
+  }
+  return counts;
+}
+
+/**
+ * Main-path user prompts to export with their attributed outcome
+ */
+export function getTeamExportPrompts(startDate?: Date): TeamExportPromptRow[] {
+  const db = getDatabase();
+  const params: unknown[] = [];
+  const where = startClause(startDate, params);
+  return db
+    .prepare(`
+      SELECT t.id, t.conversation_id, t.content, t.timestamp,
+        o.friction_score, o.next_turn_reaction, o.tool_errors, o.cost_usd
+      FROM turns t
+      JOIN conversations c ON c.id = t.conversation_id
+      LEFT JOIN prompt_outcomes o ON o.turn_id = t.id
+      WHERE t.role = 'user'
+        AND t.branch_type = 'main'
+        AND t.content IS NOT NULL
+        AND t.content != ''
+        ${where}
+      ORDER BY c.started_at ASC, t.turn_index ASC
+    `)
+    .all(...params) as TeamExportPromptRow[];
+}
+
+/**
+ * Replace a member's dataset (a re-import drops everything from the previous bundle)
+ */
+export function replaceTeamMemberDataset(dataset: TeamMemberDatasetInsert): void {
+  const db = getDatabase();
+  const upsertMember = db.prepare(`
+    INSERT INTO team_members (name, share_details, prompts_redacted, bundle_version, exported_at, imported_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(name) DO UPDATE SET
+      share_details = excluded.share_details,
+      prompts_redacted = excluded.prompts_redacted,
+      bundle_version = excluded.bundle_version,
+      exported_at = excluded.exported_at,
+      imported_at = CURRENT_TIMESTAMP
+  `);
+  const insertConversation = db.prepare(`
+    INSERT OR REPLACE INTO team_conversations (
+      member, id, project_hash, source, started_at, turn_count, cost_usd, effectiveness, signals
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertPrompt = db.prepare(`
+    INSERT INTO team_prompts (
+      member, conversation_id, timestamp, content, length, category, intent, quality,
+      golden_goal, golden_output, golden_limits, golden_data, golden_evaluation, golden_next, golden_total,
+      anti_patterns, friction_score, next_turn_reaction, tool_errors, cost_usd
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM team_prompts WHERE member = ?').run(dataset.name);
+    db.prepare('DELETE FROM team_conversations WHERE member = ?').run(dataset.name);
+    upsertMember.run(
+      dataset.name,
+      dataset.shareDetails ? 1 : 0,
+      dataset.promptsRedacted ? 1 : 0,
+      dataset.bundleVersion,
+      dataset.exportedAt
+    );
+
+    for (const c of dataset.conversations) {
+      insertConversation.run(
+        dataset.name,
+        c.id,
+        c.projectHash,
+        c.source,
+        c.startedAt,
+        c.turnCount,
+        c.costUsd,
+        c.effectiveness,
+        JSON.stringify(c.signals)
+      );
+    }
+
+    for (const p of dataset.prompts) {
+      insertPrompt.run(
+        dataset.name,
+        p.conversationId,
+        p.timestamp,
+        p.content,
+        p.length,
+        p.category,
+        p.intent,
+        p.quality,
+        p.golden.goal,
+        p.golden.output,
+        p.golden.limits,
+        p.golden.data,
+        p.golden.evaluation,
+        p.golden.next,
+        p.golden.total,
+        JSON.stringify(p.antiPatterns),
+        p.frictionScore,
+        p.nextTurnReaction,
+        p.toolErrors,
+        p.costUsd
+      );
+    }
+  })();
+}
+
+const MEMBER_COLUMNS = `
+  m.*,
+  (SELECT COUNT(*) FROM team_conversations tc WHERE tc.member = m.name) AS conversations,
+  (SELECT COUNT(*) FROM team_prompts tp WHERE tp.member = m.name) AS prompts
+`;
+
+/**
+ * Imported members in name order
+ */
+export function getTeamMembers(): TeamMemberRow[] {
+  const db = getDatabase();
+  return db
+    .prepare(`SELECT ${MEMBER_COLUMNS} FROM team_members m ORDER BY m.name COLLATE NOCASE`)
+    .all() as TeamMemberRow[];
+}
+
+/**
+ * Get one imported member
+ */
+export function getTeamMember(name: string): TeamMemberRow | undefined {
+  const db = getDatabase();
+  return db
+    .prepare(`SELECT ${MEMBER_COLUMNS} FROM team_members m WHERE m.name = ?`)
+    .get(name) as TeamMemberRow | undefined;
+}
+
+/**
+ * Delete a member and their dataset (returns whether one existed)
+ */
+export function deleteTeamMember(name: string): boolean {
+  const db = getDatabase();
+  return db.transaction(() => {
+    db.prepare('DELETE FROM team_prompts WHERE member = ?').run(name);
+    db.prepare('DELETE FROM team_conversations WHERE member = ?').run(name);
+    return db.prepare('DELETE FROM team_members WHERE name = ?').run(name).changes > 0;
+  })();
+}
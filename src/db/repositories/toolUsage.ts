@@ -4,14 +4,24 @@
  */
 
 import { getDatabase } from '../connection.js';
+import type { ParsedToolCall, ToolResultUpdate } from '../../types/index.js';
+import { EDIT_TOOL_NAMES } from '../../shared/constants.js';
 
 export interface ToolUsageRow {
   id: number;
   turn_id: string;
   tool_name: string;
   timestamp: string | null;
+  tool_use_id: string | null;
+  input_summary: string | null;
+  target: string | null;
+  result_summary: string | null;
+  is_error: number; // 0 | 1
+  duration_ms: number | null;
 }
 
+export { EDIT_TOOL_NAMES };
+
 /**
  * Insert a single tool usage
  */
@@ -55,6 +65,74 @@ export function insertToolUsages(
   insertMany(toolNames);
 }
 
+/**
+ * Insert tool calls with inputs, results and error flags (batch insert)
+ */
+export function insertToolCalls(turnId: string, calls: ParsedToolCall[]): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO tool_usages (
+      turn_id, tool_name, timestamp, tool_use_id,
+      input_summary, target, result_summary, is_error, duration_ms
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertMany = db.transaction((items: ParsedToolCall[]) => {
+    items.forEach((call) => {
+      stmt.run(
+        turnId,
+        call.name,
+        call.timestamp?.toISOString() || null,
+        call.id || null,
+        call.input || null,
+        call.target || null,
+        call.result || null,
+        call.isError ? 1 : 0,
+        call.durationMs ?? null
+      );
+    });
+  });
+
+  insertMany(calls);
+}
+
+/**
+ * Fill in results for tool calls stored by an earlier import
+ * (the tool_result arrived in a later chunk of the session file)
+ */
+export function updateToolCallResults(updates: ToolResultUpdate[]): number {
+  const db = getDatabase();
+  const select = db.prepare('SELECT id, timestamp FROM tool_usages WHERE tool_use_id = ?');
+  const update = db.prepare(`
+    UPDATE tool_usages
+    SET result_summary = ?, is_error = ?, duration_ms = ?
+    WHERE id = ?
+  `);
+
+  const updateMany = db.transaction((items: ToolResultUpdate[]) => {
+    let updated = 0;
+    for (const item of items) {
+      const rows = select.all(item.toolUseId) as Array<{ id: number; timestamp: string | null }>;
+      for (const row of rows) {
+        const durationMs = row.timestamp && item.timestamp
+          ? item.timestamp.getTime() - new Date(row.timestamp).getTime()
+          : null;
+        update.run(
+          item.result || null,
+          item.isError ? 1 : 0,
+          durationMs !== null && durationMs >= 0 ? durationMs : null,
+          row.id
+        );
+        updated++;
+      }
+    }
+    return updated;
+  });
+
+  return updateMany(updates);
+}
+
 /**
  * Get tool usages by turn ID
  */
@@ -206,3 +284,85 @@ export function getToolUsageTrend(
     count: number;
   }>;
 }
+
+/**
+ * Get failure rate per tool (optionally for a single project)
+ */
+export function getToolFailureRates(project?: string): Array<{
+  tool_name: string;
+  total: number;
+  failures: number;
+  failure_rate: number;
+}> {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT
+      tu.tool_name,
+      COUNT(*) as total,
+      SUM(tu.is_error) as failures,
+      CAST(SUM(tu.is_error) AS REAL) / COUNT(*) as failure_rate
+    FROM tool_usages tu
+    JOIN turns t ON tu.turn_id = t.id
+    JOIN conversations c ON t.conversation_id = c.id
+    ${project ? 'WHERE c.project = ?' : ''}
+    GROUP BY tu.tool_name
+    ORDER BY failure_rate DESC, total DESC
+  `);
+  return (project ? stmt.all(project) : stmt.all()) as Array<{
+    tool_name: string;
+    total: number;
+    failures: number;
+    failure_rate: number;
+  }>;
+}
+
+/**
+ * Get most edited files per project
+ */
+export function getMostEditedFiles(
+  project?: string,
+  limit: number = 20
+): Array<{ project: string; file_path: string; edit_count: number; failed_edits: number }> {
+  const db = getDatabase();
+  const placeholders = EDIT_TOOL_NAMES.map(() => '?').join(',');
+  const stmt = db.prepare(`
+    SELECT
+      c.project,
+      tu.target as file_path,
+      COUNT(*) as edit_count,
+      SUM(tu.is_error) as failed_edits
+    FROM tool_usages tu
+    JOIN turns t ON tu.turn_id = t.id
+    JOIN conversations c ON t.conversation_id = c.id
+    WHERE tu.tool_name IN (${placeholders})
+      AND tu.target IS NOT NULL
+      ${project ? 'AND c.project = ?' : ''}
+    GROUP BY c.project, tu.target
+    ORDER BY edit_count DESC
+    LIMIT ?
+  `);
+  const params = project
+    ? [...EDIT_TOOL_NAMES, project, limit]
+    : [...EDIT_TOOL_NAMES, limit];
+  return stmt.all(...params) as Array<{
+    project: string;
+    file_path: string;
+    edit_count: number;
+    failed_edits: number;
+  }>;
+}
+
+/**
+ * Get tool calls for a conversation grouped by turn (for signal detection)
+ */
+export function getToolCallsByTurn(
+  conversationId: string
+): Map<string, Array<{ name: string; isError: boolean; target?: string }>> {
+  const byTurn = new Map<string, Array<{ name: string; isError: boolean; target?: string }>>();
+  for (const row of getToolUsagesByConversationId(conversationId)) {
+    const calls = byTurn.get(row.turn_id) ?? [];
+    calls.push({ name: row.tool_name, isError: row.is_error === 1, target: row.target ?? undefined });
+    byTurn.set(row.turn_id, calls);
+  }
+  return byTurn;
+}
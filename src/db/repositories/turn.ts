@@ -4,7 +4,7 @@
  */
 
 import { getDatabase } from '../connection.js';
-import type { ParsedTurn } from '../../types/index.js';
+import type { ParsedTurn, BranchType } from '../../types/index.js';
 
 export interface TurnRow {
   id: string;
@@ -18,6 +18,11 @@ export interface TurnRow {
   input_tokens: number | null;
   output_tokens: number | null;
   turn_index: number;
+  cache_creation_tokens: number | null;
+  cache_read_tokens: number | null;
+  cost_usd: number | null;
+  branch_id: string | null;
+  branch_type: BranchType;
 }
 
 /**
@@ -33,8 +38,10 @@ export function insertTurn(
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO turns (
       id, conversation_id, role, content, timestamp,
-      parent_id, model, thinking, input_tokens, output_tokens, turn_index
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      parent_id, model, thinking, input_tokens, output_tokens, turn_index,
+      cache_creation_tokens, cache_read_tokens, cost_usd,
+      branch_id, branch_type
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   stmt.run(
@@ -48,21 +55,33 @@ export function insertTurn(
     turn.thinking || null,
     turn.inputTokens || null,
     turn.outputTokens || null,
-    turnIndex
+    turnIndex,
+    turn.cacheCreationTokens || null,
+    turn.cacheReadTokens || null,
+    turn.costUsd ?? null,
+    turn.branchId || null,
+    turn.branchType || 'main'
   );
 }
 
 /**
  * Insert multiple turns for a conversation (batch insert)
+ * startIndex continues turn_index when appending to an existing conversation
  */
-export function insertTurns(conversationId: string, turns: ParsedTurn[]): void {
+export function insertTurns(
+  conversationId: string,
+  turns: ParsedTurn[],
+  startIndex: number = 0
+): void {
   const db = getDatabase();
 
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO turns (
       id, conversation_id, role, content, timestamp,
-      parent_id, model, thinking, input_tokens, output_tokens, turn_index
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      parent_id, model, thinking, input_tokens, output_tokens, turn_index,
+      cache_creation_tokens, cache_read_tokens, cost_usd,
+      branch_id, branch_type
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertMany = db.transaction((items: ParsedTurn[]) => {
@@ -78,7 +97,12 @@ export function insertTurns(conversationId: string, turns: ParsedTurn[]): void {
         turn.thinking || null,
         turn.inputTokens || null,
         turn.outputTokens || null,
-        index
+        startIndex + index,
+        turn.cacheCreationTokens || null,
+        turn.cacheReadTokens || null,
+        turn.costUsd ?? null,
+        turn.branchId || null,
+        turn.branchType || 'main'
       );
     });
   });
@@ -108,6 +132,43 @@ export function getTurnsByConversationId(conversationId: string): TurnRow[] {
   return stmt.all(conversationId) as TurnRow[];
 }
 
+/**
+ * Move the main path to end at leafTurnId
+ * Main turns that are not ancestors of the leaf (rewound after an earlier import)
+ * become abandoned, branching from the first turn off the new path
+ */
+export function reconcileMainPath(conversationId: string, leafTurnId: string): number {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT id, parent_id, branch_type FROM turns WHERE conversation_id = ?')
+    .all(conversationId) as Array<{ id: string; parent_id: string | null; branch_type: BranchType }>;
+  const parentOf = new Map(rows.map((r) => [r.id, r.parent_id]));
+
+  const mainPath = new Set<string>();
+  for (let cursor: string | null | undefined = leafTurnId; cursor && !mainPath.has(cursor); cursor = parentOf.get(cursor)) {
+    mainPath.add(cursor);
+  }
+
+  const stale = new Set(rows.filter((r) => r.branch_type === 'main' && !mainPath.has(r.id)).map((r) => r.id));
+  if (stale.size === 0) return 0;
+
+  const branchRoot = (id: string): string => {
+    const visited = new Set<string>([id]);
+    let root = id;
+    for (let parent = parentOf.get(root); parent && stale.has(parent) && !visited.has(parent); parent = parentOf.get(root)) {
+      visited.add(parent);
+      root = parent;
+    }
+    return root;
+  };
+
+  const update = db.prepare("UPDATE turns SET branch_type = 'abandoned', branch_id = ? WHERE id = ?");
+  db.transaction(() => {
+    for (const id of stale) update.run(branchRoot(id), id);
+  })();
+  return stale.size;
+}
+
 /**
  * Get turns by role
  */
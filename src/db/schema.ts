@@ -3,7 +3,11 @@
  * Prompt Evolution - Data Pipeline
  */
 
-export const SCHEMA = `
+/**
+ * Initial schema (migration 1)
+ * Later changes are ordered migrations in migrations.ts
+ */
+export const SCHEMA_V1 = `
 -- Conversations (세션 메타데이터)
 CREATE TABLE IF NOT EXISTS conversations (
   id TEXT PRIMARY KEY,
@@ -78,8 +82,271 @@ CREATE INDEX IF NOT EXISTS idx_conversations_project ON conversations(project);
 CREATE INDEX IF NOT EXISTS idx_conversations_started ON conversations(started_at);
 `;
 
-// Schema version for migrations
-export const SCHEMA_VERSION = 1;
+/**
+ * Applied migrations (version = MIGRATIONS entry)
+ */
+export const SCHEMA_MIGRATIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+/**
+ * Import ledger (migration 6)
+ */
+export const IMPORT_LEDGER_SCHEMA = `
+-- Import Ledger (세션 파일별 임포트 위치, 실행 중인 세션의 이어 읽기용)
+CREATE TABLE IF NOT EXISTS import_ledger (
+  conversation_id TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  mtime_ms INTEGER NOT NULL,
+  byte_offset INTEGER NOT NULL,   -- 다음에 읽을 위치 (이어 읽기를 지원하지 않는 소스는 file_size)
+  cursor TEXT,                    -- 파서 이어 읽기 상태 (JSON)
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+`;
+
+/**
+ * Full-text search index (migration 7)
+ * External-content FTS5 tables over turns and summaries, kept in sync by triggers
+ * unicode61 tokens + prefix queries so Korean words match with particles attached
+ */
+export const SEARCH_INDEX_SCHEMA = `
+CREATE VIRTUAL TABLE IF NOT EXISTS turns_fts USING fts5(
+  content, thinking,
+  content='turns', content_rowid='rowid',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS turns_fts_insert AFTER INSERT ON turns BEGIN
+  INSERT INTO turns_fts(rowid, content, thinking) VALUES (new.rowid, new.content, new.thinking);
+END;
+
+-- INSERT OR REPLACE removes the old row without firing delete triggers
+CREATE TRIGGER IF NOT EXISTS turns_fts_replace BEFORE INSERT ON turns BEGIN
+  INSERT INTO turns_fts(turns_fts, rowid, content, thinking)
+    SELECT 'delete', rowid, content, thinking FROM turns WHERE id = new.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS turns_fts_delete AFTER DELETE ON turns BEGIN
+  INSERT INTO turns_fts(turns_fts, rowid, content, thinking) VALUES ('delete', old.rowid, old.content, old.thinking);
+END;
+
+CREATE TRIGGER IF NOT EXISTS turns_fts_update AFTER UPDATE OF content, thinking ON turns BEGIN
+  INSERT INTO turns_fts(turns_fts, rowid, content, thinking) VALUES ('delete', old.rowid, old.content, old.thinking);
+  INSERT INTO turns_fts(rowid, content, thinking) VALUES (new.rowid, new.content, new.thinking);
+END;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS summaries_fts USING fts5(
+  summary,
+  content='summaries', content_rowid='id',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS summaries_fts_insert AFTER INSERT ON summaries BEGIN
+  INSERT INTO summaries_fts(rowid, summary) VALUES (new.id, new.summary);
+END;
+
+CREATE TRIGGER IF NOT EXISTS summaries_fts_delete AFTER DELETE ON summaries BEGIN
+  INSERT INTO summaries_fts(summaries_fts, rowid, summary) VALUES ('delete', old.id, old.summary);
+END;
+
+-- Index rows imported before this migration
+INSERT INTO turns_fts(turns_fts) VALUES ('rebuild');
+INSERT INTO summaries_fts(summaries_fts) VALUES ('rebuild');
+`;
+
+/**
+ * Prompt embedding cache (migration 8)
+ * One vector per user turn; rows from another embedding model are recomputed
+ */
+export const PROMPT_EMBEDDINGS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS prompt_embeddings (
+  turn_id TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,           -- Float32Array bytes
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (turn_id) REFERENCES turns(id) ON DELETE CASCADE
+);
+`;
+
+/**
+ * LLM batch jobs (migration 9)
+ * Provider batch ids and per-item status so `analyze --llm --batch` can resume after a restart
+ */
+export const LLM_BATCH_SCHEMA = `
+CREATE TABLE IF NOT EXISTS llm_batch_jobs (
+  id TEXT PRIMARY KEY,
+  task TEXT NOT NULL,             -- judge
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  template_version TEXT NOT NULL,
+  provider_batch_id TEXT,         -- NULL until submitted
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, submitted, completed, failed
+  item_count INTEGER NOT NULL,
+  error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  submitted_at DATETIME,
+  completed_at DATETIME
+);
+
+CREATE TABLE IF NOT EXISTS llm_batch_items (
+  job_id TEXT NOT NULL,
+  custom_id TEXT NOT NULL,
+  turn_id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued', -- queued, merged, errored, canceled, expired
+  error TEXT,
+  PRIMARY KEY (job_id, custom_id),
+  FOREIGN KEY (job_id) REFERENCES llm_batch_jobs(id) ON DELETE CASCADE,
+  FOREIGN KEY (turn_id) REFERENCES turns(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_batch_jobs_status ON llm_batch_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_llm_batch_items_turn ON llm_batch_items(turn_id);
+`;
+
+/**
+ * Personal effectiveness models (migration 10)
+ * One learned model per scope, written by `pe train`
+ */
+export const PERSONAL_MODELS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS personal_models (
+  scope TEXT PRIMARY KEY,         -- global, project:<name>
+  version INTEGER NOT NULL,
+  samples INTEGER NOT NULL,
+  model TEXT NOT NULL,            -- JSON (coefficients, scaling, importances, effectiveness weights)
+  trained_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+/**
+ * Per-prompt outcomes (migration 11)
+ * What followed each main-path user turn, recomputed by `analyze`
+ */
+export const PROMPT_OUTCOMES_SCHEMA = `
+CREATE TABLE IF NOT EXISTS prompt_outcomes (
+  turn_id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  next_turn_id TEXT,              -- NULL for the last prompt of a conversation
+  assistant_turns INTEGER NOT NULL,
+  tool_calls INTEGER NOT NULL,
+  tool_errors INTEGER NOT NULL,
+  files_touched TEXT NOT NULL,    -- JSON array of edited file paths
+  next_turn_reaction TEXT NOT NULL, -- retry, negative, completion, positive, neutral, none
+  duration_ms INTEGER,
+  time_to_completion_ms INTEGER,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  friction_score REAL NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (turn_id) REFERENCES turns(id) ON DELETE CASCADE,
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_outcomes_conversation ON prompt_outcomes(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_outcomes_friction ON prompt_outcomes(friction_score DESC);
+`;
+
+/**
+ * Team datasets (migration 12)
+ * Anonymized per-member bundles from `pe export --team`, replaced on every re-import
+ */
+export const TEAM_DATASETS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS team_members (
+  name TEXT PRIMARY KEY,
+  share_details INTEGER NOT NULL DEFAULT 0, -- opted in to per-member drilldowns
+  prompts_redacted INTEGER NOT NULL DEFAULT 0,
+  bundle_version INTEGER NOT NULL,
+  exported_at DATETIME NOT NULL,
+  imported_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS team_conversations (
+  member TEXT NOT NULL,
+  id TEXT NOT NULL,               -- hashed conversation id
+  project_hash TEXT NOT NULL,
+  source TEXT NOT NULL,
+  started_at DATETIME,
+  turn_count INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  effectiveness REAL,             -- NULL until analyzed by the member
+  signals TEXT NOT NULL DEFAULT '{}', -- JSON signal type -> count
+  PRIMARY KEY (member, id),
+  FOREIGN KEY (member) REFERENCES team_members(name) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS team_prompts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  member TEXT NOT NULL,
+  conversation_id TEXT NOT NULL,
+  timestamp DATETIME,
+  content TEXT,                   -- NULL when exported with --redact-prompts
+  length INTEGER NOT NULL,
+  category TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  quality REAL NOT NULL,
+  golden_goal REAL NOT NULL,
+  golden_output REAL NOT NULL,
+  golden_limits REAL NOT NULL,
+  golden_data REAL NOT NULL,
+  golden_evaluation REAL NOT NULL,
+  golden_next REAL NOT NULL,
+  golden_total REAL NOT NULL,
+  anti_patterns TEXT NOT NULL DEFAULT '[]', -- JSON array of pattern names
+  friction_score REAL,            -- prompt_outcomes columns, NULL when not attributed
+  next_turn_reaction TEXT,
+  tool_errors INTEGER,
+  cost_usd REAL,
+  FOREIGN KEY (member) REFERENCES team_members(name) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_conversations_started ON team_conversations(started_at);
+CREATE INDEX IF NOT EXISTS idx_team_prompts_member ON team_prompts(member);
+CREATE INDEX IF NOT EXISTS idx_team_prompts_timestamp ON team_prompts(timestamp);
+`;
+
+/**
+ * Prompt embedding models (migration 13)
+ * TF-IDF + SVD projection fitted on the user's own prompts, refitted as the corpus grows
+ */
+export const EMBEDDING_MODELS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS embedding_models (
+  model TEXT PRIMARY KEY,         -- prompt_embeddings.model of vectors from this projection
+  document_count INTEGER NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vocabulary TEXT NOT NULL,       -- JSON array of features
+  idf BLOB NOT NULL,              -- Float32Array bytes, one per feature
+  components BLOB NOT NULL,       -- Float32Array bytes, feature-major (features x dimensions)
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+/**
+ * Redaction vault (migration 14)
+ * Placeholder -> original value per conversation, so text redacted on import can be restored locally.
+ * Never exported: reports, LLM requests and team bundles only see the placeholders
+ */
+export const REDACTION_VAULT_SCHEMA = `
+CREATE TABLE IF NOT EXISTS redaction_vault (
+  conversation_id TEXT NOT NULL,
+  placeholder TEXT NOT NULL,      -- [REDACTED_EMAIL_1]
+  kind TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (conversation_id, placeholder),
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+`;
+
+// Schema version (last entry of MIGRATIONS)
+export const SCHEMA_VERSION = 14;
 
 // Table names for reference
 export const TABLES = {
@@ -88,4 +355,16 @@ export const TABLES = {
   TOOL_USAGES: 'tool_usages',
   QUALITY_SIGNALS: 'quality_signals',
   SUMMARIES: 'summaries',
+  IMPORT_LEDGER: 'import_ledger',
+  PROMPT_EMBEDDINGS: 'prompt_embeddings',
+  EMBEDDING_MODELS: 'embedding_models',
+  LLM_BATCH_JOBS: 'llm_batch_jobs',
+  LLM_BATCH_ITEMS: 'llm_batch_items',
+  PERSONAL_MODELS: 'personal_models',
+  PROMPT_OUTCOMES: 'prompt_outcomes',
+  TEAM_MEMBERS: 'team_members',
+  TEAM_CONVERSATIONS: 'team_conversations',
+  TEAM_PROMPTS: 'team_prompts',
+  REDACTION_VAULT: 'redaction_vault',
+  SCHEMA_MIGRATIONS: 'schema_migrations',
 } as const;
@@ -19,3 +19,18 @@ export * from './types/index.js';
 
 // Report modules
 export * from './report/index.js';
+
+// Sync modules
+export * from './sync/index.js';
+
+// Search modules
+export * from './search/index.js';
+
+// LLM backends
+export * from './llm/index.js';
+
+// Team mode
+export * from './team/index.js';
+
+// Redaction
+export * from './redaction/index.js';
@@ -0,0 +1,147 @@
+/**
+ * Tests for effective-instructions.ts
+ *
+ * Builds real CLAUDE.md chains in a temp directory (user home, project root,
+ * nested directories, CLAUDE.local.md, @imports) — no mocking.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  resolveEffectiveInstructions,
+  estimateTokens,
+  EFFECTIVE_TOKEN_BUDGET,
+  MAX_IMPORT_DEPTH,
+} from './effective-instructions.js';
+
+let tmpDir: string;
+let homeDir: string;
+let projectDir: string;
+
+function write(filePath: string, content: string): string {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf-8');
+  return filePath;
+}
+
+function resolve(target: string) {
+  return resolveEffectiveInstructions(target, { homeDir });
+}
+
+describe('resolveEffectiveInstructions', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-effective-'));
+    homeDir = path.join(tmpDir, 'home');
+    projectDir = path.join(tmpDir, 'project');
+    fs.mkdirSync(path.join(projectDir, '.git'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should merge user, project, directory and local files in load order', () => {
+    const user = write(path.join(homeDir, '.claude', 'CLAUDE.md'), '# Personal\nPrefer short answers.\n');
+    const root = write(path.join(projectDir, 'CLAUDE.md'), '# Project\nTask app.\n');
+    const local = write(path.join(projectDir, 'CLAUDE.local.md'), '# Local\nUse port 3001.\n');
+    const nested = write(path.join(projectDir, 'packages', 'api', 'CLAUDE.md'), '# API\nUse zod.\n');
+    write(path.join(projectDir, 'packages', 'web', 'CLAUDE.md'), '# Web\nUse React.\n');
+
+    const result = resolve(path.join(projectDir, 'packages', 'api', 'src', 'index.ts'));
+
+    expect(result.projectRoot).toBe(projectDir);
+    expect(result.files.map(f => [f.path, f.scope])).toEqual([
+      [user, 'user'],
+      [root, 'project'],
+      [local, 'local'],
+      [nested, 'directory'],
+    ]);
+    expect(result.mergedText).toContain('Use zod.');
+    expect(result.mergedText).not.toContain('Use React.');
+
+    const zodLine = result.lines.find(l => l.text === 'Use zod.');
+    expect(zodLine).toEqual({ text: 'Use zod.', file: nested, line: 2 });
+  });
+
+  it('should expand @imports recursively in place and report cycles, misses and depth', () => {
+    const root = write(path.join(projectDir, 'CLAUDE.md'), '# Project\n@docs/a.md\nAfter import.\n@docs/missing.md\n');
+    const a = write(path.join(projectDir, 'docs', 'a.md'), 'From A.\n@b.md\n');
+    const b = write(path.join(projectDir, 'docs', 'b.md'), 'From B.\n@a.md\n');
+
+    const result = resolve(projectDir);
+
+    expect(result.files.map(f => [f.path, f.scope, f.depth, f.importedFrom])).toEqual([
+      [root, 'project', 0, undefined],
+      [a, 'import', 1, root],
+      [b, 'import', 2, a],
+    ]);
+    const texts = result.lines.map(l => l.text).filter(Boolean);
+    expect(texts.slice(0, 6)).toEqual(['# Project', '@docs/a.md', 'From A.', '@b.md', 'From B.', '@a.md']);
+    expect(texts[6]).toBe('After import.');
+
+    expect(result.unresolvedImports).toEqual([
+      { path: 'a.md', from: b, line: 2, reason: 'cycle' },
+      { path: 'docs/missing.md', from: root, line: 4, reason: 'missing' },
+    ]);
+    expect(result.issues.some(i => i.type === 'missing' && i.description.includes('@docs/missing.md'))).toBe(true);
+  });
+
+  it('should stop following imports past the depth limit', () => {
+    write(path.join(projectDir, 'CLAUDE.md'), '@d1.md\n');
+    for (let i = 1; i <= MAX_IMPORT_DEPTH + 1; i++) {
+      write(path.join(projectDir, `d${i}.md`), `Level ${i}.\n@d${i + 1}.md\n`);
+    }
+
+    const result = resolve(projectDir);
+
+    expect(result.files).toHaveLength(MAX_IMPORT_DEPTH + 1);
+    expect(result.unresolvedImports).toEqual([
+      expect.objectContaining({ path: `d${MAX_IMPORT_DEPTH + 1}.md`, reason: 'depth' }),
+    ]);
+  });
+
+  it('should report conflicts across files with the file each line came from', () => {
+    const root = write(path.join(projectDir, 'CLAUDE.md'), '# Project\n\n## Style\nAlways use semicolons.\n');
+    const nested = write(path.join(projectDir, 'legacy', 'CLAUDE.md'), '# Legacy\n\n## Style\nNever use semicolons.\n');
+
+    const result = resolve(path.join(projectDir, 'legacy'));
+    const conflict = result.issues.find(i => i.type === 'conflict');
+
+    expect(conflict).toBeDefined();
+    expect(conflict!.crossFile).toBe(true);
+    expect(conflict!.sources).toEqual([
+      { text: 'Always use semicolons.', file: root, line: 4 },
+      { text: 'Never use semicolons.', file: nested, line: 4 },
+    ]);
+  });
+
+  it('should compute the token budget per file', () => {
+    const big = 'Run npm test before every commit and keep the project overview current.\n'
+      .repeat(Math.ceil((EFFECTIVE_TOKEN_BUDGET * 4) / 70) + 10);
+    const root = write(path.join(projectDir, 'CLAUDE.md'), big);
+    write(path.join(projectDir, 'CLAUDE.local.md'), 'Local notes.\n');
+
+    const result = resolve(projectDir);
+
+    expect(result.tokenBudget.totalTokens).toBe(estimateTokens(big) + estimateTokens('Local notes.\n'));
+    expect(result.tokenBudget.overBudget).toBe(true);
+    expect(result.tokenBudget.byFile[0].path).toBe(root);
+    expect(result.issues.some(i => i.type === 'excessive' && i.description.includes('Merged instructions'))).toBe(true);
+  });
+
+  it('should report a critical issue when no file applies', () => {
+    const result = resolve(projectDir);
+
+    expect(result.files).toEqual([]);
+    expect(result.issues[0]).toMatchObject({ severity: 'critical', type: 'missing' });
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should count ~4 characters per token for Latin text and 1 per Hangul character', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('테스트 실행')).toBe(6);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Effective Instructions Resolver
+ *
+ * Builds the instruction set Claude Code actually loads for a directory:
+ *   1. ~/.claude/CLAUDE.md                      (user)
+ *   2. CLAUDE.md / .claude/CLAUDE.md at the project root   (project)
+ *   3. CLAUDE.md / .claude/CLAUDE.md in each directory down to the target (directory)
+ *   4. CLAUDE.local.md next to any of them      (local)
+ * with @path imports expanded recursively (cycle detection, depth limit).
+ *
+ * The merged text goes through the regular pipeline so conflicts and
+ * duplicates between files are reported, and every merged line keeps
+ * the file and line it came from.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseMarkdownSections, findReferenceLines, type ParsedSection } from './markdown-parser.js';
+import { evaluateInstructions, type EvaluatorResult } from './instruction-evaluator.js';
+import { detectIssues, type InstructionIssue } from './issue-detector.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type InstructionScope = 'user' | 'project' | 'directory' | 'local' | 'import';
+
+export interface EffectiveInstructionFile {
+  path: string;
+  scope: InstructionScope;
+  /** Import hops from the chain file (0 for chain files) */
+  depth: number;
+  importedFrom?: string;
+  lineCount: number;
+  tokens: number;
+}
+
+export interface EffectiveLine {
+  text: string;
+  file: string;
+  /** 1-based line number inside `file` */
+  line: number;
+}
+
+export interface UnresolvedImport {
+  path: string;
+  from: string;
+  line: number;
+  reason: 'missing' | 'cycle' | 'depth';
+}
+
+export interface EffectiveIssue extends InstructionIssue {
+  /** Where the lines behind this issue live */
+  sources: EffectiveLine[];
+  /** True when the issue spans more than one file */
+  crossFile: boolean;
+}
+
+export interface EffectiveInstructions {
+  targetPath: string;
+  projectRoot: string;
+  files: EffectiveInstructionFile[];
+  lines: EffectiveLine[];
+  mergedText: string;
+  sections: ParsedSection[];
+  overallScore: number;
+  grade: EvaluatorResult['grade'];
+  goldenScores: EvaluatorResult['goldenScores'];
+  issues: EffectiveIssue[];
+  unresolvedImports: UnresolvedImport[];
+  tokenBudget: {
+    totalTokens: number;
+    budget: number;
+    overBudget: boolean;
+    byFile: Array<{ path: string; tokens: number; share: number }>;
+  };
+  analyzedAt: string;
+}
+
+export interface EffectiveInstructionOptions {
+  /** Defaults to the nearest ancestor with a .git entry, else the target directory */
+  projectRoot?: string;
+  /** Defaults to os.homedir(); used for ~/.claude/CLAUDE.md and ~/ imports */
+  homeDir?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Claude Code follows @imports at most this many hops deep */
+export const MAX_IMPORT_DEPTH = 5;
+
+/**
+ * Token budget for the merged instruction set. Claude Code warns about
+ * memory files over ~40k characters, which is roughly 10k tokens.
+ */
+export const EFFECTIVE_TOKEN_BUDGET = 10_000;
+
+const CHAIN_FILE_NAMES: Array<{ name: string; local: boolean }> = [
+  { name: 'CLAUDE.md', local: false },
+  { name: path.join('.claude', 'CLAUDE.md'), local: false },
+  { name: 'CLAUDE.local.md', local: true },
+];
+
+const CJK_RE = /[\u1100-\u11FF\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF]/g;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Rough token estimate: ~4 characters per token for Latin text,
+ * ~1 token per CJK/Hangul character.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_RE)?.length ?? 0;
+  return Math.ceil((text.length - cjk) / 4 + cjk);
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function findProjectRoot(dir: string): string {
+  let current = dir;
+  for (;;) {
+    if (fs.existsSync(path.join(current, '.git'))) return current;
+    const parent = path.dirname(current);
+    if (parent === current) return dir;
+    current = parent;
+  }
+}
+
+/** Directories from the project root down to the target, inclusive */
+function directoryChain(projectRoot: string, targetDir: string): string[] {
+  const relative = path.relative(projectRoot, targetDir);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return [projectRoot];
+
+  const dirs = [projectRoot];
+  let current = projectRoot;
+  for (const part of relative.split(path.sep)) {
+    current = path.join(current, part);
+    dirs.push(current);
+  }
+  return dirs;
+}
+
+function resolveImportPath(ref: string, fromFile: string, homeDir: string): string {
+  if (ref.startsWith('~/')) return path.join(homeDir, ref.slice(2));
+  return path.resolve(path.dirname(fromFile), ref);
+}
+
+function findSource(lines: EffectiveLine[], text: string, lineStart: number, lineEnd: number): EffectiveLine | undefined {
+  const inRange = lines.slice(Math.max(lineStart - 1, 0), lineEnd).find(l => l.text.trim() === text);
+  return inRange ?? lines.find(l => l.text.trim() === text);
+}
+
+// =============================================================================
+// Main Resolver
+// =============================================================================
+
+/**
+ * Resolve and lint the merged instruction set that applies to a file or directory.
+ */
+export function resolveEffectiveInstructions(
+  targetPath: string,
+  options: EffectiveInstructionOptions = {},
+): EffectiveInstructions {
+  const absoluteTarget = path.resolve(targetPath);
+  const targetDir = isFile(absoluteTarget) ? path.dirname(absoluteTarget) : absoluteTarget;
+  const homeDir = options.homeDir ?? os.homedir();
+  const projectRoot = options.projectRoot ? path.resolve(options.projectRoot) : findProjectRoot(targetDir);
+
+  const files: EffectiveInstructionFile[] = [];
+  const lines: EffectiveLine[] = [];
+  const unresolvedImports: UnresolvedImport[] = [];
+  const included = new Set<string>();
+
+  function expand(
+    filePath: string,
+    scope: InstructionScope,
+    depth: number,
+    stack: string[],
+    importedFrom?: string,
+  ): void {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const fileLines = content.split('\n');
+    included.add(filePath);
+    files.push({
+      path: filePath,
+      scope,
+      depth,
+      importedFrom,
+      lineCount: fileLines.length,
+      tokens: estimateTokens(content),
+    });
+
+    const importsByLine = new Map(findReferenceLines(content).map(r => [r.line, r.path]));
+
+    fileLines.forEach((text, i) => {
+      lines.push({ text, file: filePath, line: i + 1 });
+
+      const ref = importsByLine.get(i + 1);
+      if (!ref) return;
+
+      const resolved = resolveImportPath(ref, filePath, homeDir);
+      const unresolved = (reason: UnresolvedImport['reason']) =>
+        unresolvedImports.push({ path: ref, from: filePath, line: i + 1, reason });
+
+      if (stack.includes(resolved) || resolved === filePath) {
+        unresolved('cycle');
+      } else if (!isFile(resolved)) {
+        unresolved('missing');
+      } else if (depth >= MAX_IMPORT_DEPTH) {
+        unresolved('depth');
+      } else if (!included.has(resolved)) {
+        // Imported content is spliced in right after the @path line
+        expand(resolved, 'import', depth + 1, [...stack, filePath], filePath);
+      }
+    });
+  }
+
+  // 1. User memory, then 2-4. project → target directory chain
+  const userFile = path.join(homeDir, '.claude', 'CLAUDE.md');
+  if (isFile(userFile)) expand(userFile, 'user', 0, []);
+
+  for (const dir of directoryChain(projectRoot, targetDir)) {
+    for (const { name, local } of CHAIN_FILE_NAMES) {
+      const filePath = path.join(dir, name);
+      if (included.has(filePath) || !isFile(filePath)) continue;
+      const scope: InstructionScope = local ? 'local' : dir === projectRoot ? 'project' : 'directory';
+      expand(filePath, scope, 0, []);
+    }
+  }
+
+  // 5. Lint the merged text
+  const mergedText = lines.map(l => l.text).join('\n');
+  const sections = parseMarkdownSections(mergedText);
+  const evaluation = evaluateInstructions({ sections, fullText: mergedText, lineCount: lines.length });
+  const issues: InstructionIssue[] = lines.length > 0
+    ? detectIssues({ sections, fullText: mergedText, lineCount: lines.length })
+    : [{
+      severity: 'critical',
+      type: 'missing',
+      description: 'No CLAUDE.md, .claude/CLAUDE.md or CLAUDE.local.md applies to this path.',
+      location: { lineStart: 0, lineEnd: 0 },
+      suggestion: 'Add a CLAUDE.md at the project root with the project description and commands.',
+    }];
+
+  for (const imp of unresolvedImports) {
+    const where = `${path.relative(projectRoot, imp.from) || imp.from}:${imp.line}`;
+    issues.push(
+      imp.reason === 'missing'
+        ? {
+          severity: 'high',
+          type: 'missing',
+          description: `Import @${imp.path} (${where}) points to a file that does not exist.`,
+          location: { lineStart: 0, lineEnd: 0 },
+          relatedLines: [`@${imp.path}`],
+          suggestion: 'Fix the path or remove the import.',
+        }
+        : imp.reason === 'cycle'
+          ? {
+            severity: 'medium',
+            type: 'format',
+            description: `Import @${imp.path} (${where}) forms a cycle and is skipped.`,
+            location: { lineStart: 0, lineEnd: 0 },
+            relatedLines: [`@${imp.path}`],
+            suggestion: 'Remove the import that points back to a file already in the chain.',
+          }
+          : {
+            severity: 'medium',
+            type: 'excessive',
+            description: `Import @${imp.path} (${where}) is more than ${MAX_IMPORT_DEPTH} hops deep and is not loaded.`,
+            location: { lineStart: 0, lineEnd: 0 },
+            relatedLines: [`@${imp.path}`],
+            suggestion: 'Import the file from a shallower file in the chain.',
+          },
+    );
+  }
+
+  // 6. Token budget
+  const totalTokens = files.reduce((sum, f) => sum + f.tokens, 0);
+  const byFile = [...files]
+    .sort((a, b) => b.tokens - a.tokens)
+    .map(f => ({ path: f.path, tokens: f.tokens, share: totalTokens > 0 ? f.tokens / totalTokens : 0 }));
+
+  if (totalTokens > EFFECTIVE_TOKEN_BUDGET) {
+    issues.push({
+      severity: 'high',
+      type: 'excessive',
+      description: `Merged instructions are ~${totalTokens.toLocaleString('en-US')} tokens (>${EFFECTIVE_TOKEN_BUDGET.toLocaleString('en-US')}), loaded into every request. Largest: ${byFile[0].path} (~${byFile[0].tokens.toLocaleString('en-US')} tokens).`,
+      location: { lineStart: 1, lineEnd: lines.length },
+      suggestion: 'Move rarely needed detail into nested directory CLAUDE.md files, which only load when working in that directory.',
+    });
+  }
+
+  // 7. Attach the source file/line of every issue
+  const effectiveIssues: EffectiveIssue[] = issues.map((issue) => {
+    const { lineStart, lineEnd } = issue.location;
+    const sources = issue.relatedLines?.length
+      ? issue.relatedLines
+        .map(text => findSource(lines, text, lineStart, lineEnd))
+        .filter((l): l is EffectiveLine => l !== undefined)
+      : lineStart > 0 && lines[lineStart - 1] ? [lines[lineStart - 1]] : [];
+
+    return {
+      ...issue,
+      sources,
+      crossFile: new Set(sources.map(s => s.file)).size > 1,
+    };
+  });
+
+  return {
+    targetPath: absoluteTarget,
+    projectRoot,
+    files,
+    lines,
+    mergedText,
+    sections,
+    overallScore: evaluation.overallScore,
+    grade: evaluation.grade,
+    goldenScores: evaluation.goldenScores,
+    issues: effectiveIssues,
+    unresolvedImports,
+    tokenBudget: {
+      totalTokens,
+      budget: EFFECTIVE_TOKEN_BUDGET,
+      overBudget: totalTokens > EFFECTIVE_TOKEN_BUDGET,
+      byFile,
+    },
+    analyzedAt: new Date().toISOString(),
+  };
+}
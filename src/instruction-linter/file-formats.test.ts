@@ -0,0 +1,80 @@
+/**
+ * Tests for file-formats.ts
+ * Verifies format detection by path and project-wide instruction file discovery
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { detectFileFormat, discoverInstructionFiles } from './file-formats.js';
+
+let tmpDir: string;
+
+function writeProjectFile(relativePath: string, content = '# Rules\n'): string {
+  const filePath = path.join(tmpDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf-8');
+  return filePath;
+}
+
+describe('detectFileFormat', () => {
+  it.each([
+    ['/p/CLAUDE.md', 'claude-md'],
+    ['/p/AGENTS.md', 'agents-md'],
+    ['/p/GEMINI.md', 'gemini-md'],
+    ['/p/.cursorrules', 'cursorrules'],
+    ['/p/.cursor/rules/react.mdc', 'cursor-mdc'],
+    ['/p/.windsurfrules', 'windsurfrules'],
+    ['/p/.github/copilot-instructions.md', 'copilot-instructions'],
+    ['/p/.github/instructions/tests.instructions.md', 'copilot-path-instructions'],
+    ['/p/notes.md', 'claude-md'],
+  ])('should detect %s as %s', (filePath, format) => {
+    expect(detectFileFormat(filePath)).toBe(format);
+  });
+});
+
+describe('discoverInstructionFiles', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-formats-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should find root files and rule directories with their formats', () => {
+    writeProjectFile('CLAUDE.md');
+    writeProjectFile('AGENTS.md');
+    writeProjectFile('GEMINI.md');
+    writeProjectFile('.windsurfrules');
+    writeProjectFile('.github/copilot-instructions.md');
+    writeProjectFile('.cursor/rules/react.mdc');
+    writeProjectFile('.cursor/rules/backend/api.mdc');
+    writeProjectFile('.cursor/rules/README.md');
+    writeProjectFile('.github/instructions/tests.instructions.md');
+    writeProjectFile('.github/instructions/notes.md');
+
+    const found = discoverInstructionFiles(tmpDir);
+
+    expect(found.map(f => [path.relative(tmpDir, f.path), f.format])).toEqual([
+      ['CLAUDE.md', 'claude-md'],
+      ['AGENTS.md', 'agents-md'],
+      ['GEMINI.md', 'gemini-md'],
+      ['.windsurfrules', 'windsurfrules'],
+      ['.github/copilot-instructions.md', 'copilot-instructions'],
+      [path.join('.cursor', 'rules', 'backend', 'api.mdc'), 'cursor-mdc'],
+      [path.join('.cursor', 'rules', 'react.mdc'), 'cursor-mdc'],
+      [path.join('.github', 'instructions', 'tests.instructions.md'), 'copilot-path-instructions'],
+    ]);
+    expect(found[0].size).toBe('# Rules\n'.length);
+    expect(found[0].lastModified).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it('should return an empty list when nothing is present', () => {
+    fs.mkdirSync(path.join(tmpDir, '.cursor'));
+    writeProjectFile('README.md');
+
+    expect(discoverInstructionFiles(tmpDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Instruction File Formats
+ *
+ * Detects which AI tool an instruction file belongs to and discovers
+ * every supported instruction file in a project:
+ *   claude-md:                  CLAUDE.md
+ *   agents-md:                  AGENTS.md (Codex and other agents)
+ *   gemini-md:                  GEMINI.md
+ *   cursorrules:                .cursorrules (legacy Cursor rules)
+ *   cursor-mdc:                 .cursor/rules/*.mdc
+ *   windsurfrules:              .windsurfrules
+ *   copilot-instructions:       .github/copilot-instructions.md
+ *   copilot-path-instructions:  .github/instructions/*.instructions.md
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const INSTRUCTION_FILE_FORMATS = [
+  'claude-md',
+  'cursorrules',
+  'copilot-instructions',
+  'agents-md',
+  'gemini-md',
+  'cursor-mdc',
+  'windsurfrules',
+  'copilot-path-instructions',
+] as const;
+
+export type InstructionFileFormat = typeof INSTRUCTION_FILE_FORMATS[number];
+
+export interface DetectedInstructionFile {
+  path: string;
+  format: InstructionFileFormat;
+  size: number;
+  lastModified: string;
+}
+
+/** Formats whose rules are configured in a frontmatter block */
+export const FRONTMATTER_FORMATS: ReadonlySet<InstructionFileFormat> = new Set([
+  'cursor-mdc',
+  'copilot-path-instructions',
+]);
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Single files at the project root */
+const ROOT_FILES: Array<{ name: string; format: InstructionFileFormat }> = [
+  { name: 'CLAUDE.md', format: 'claude-md' },
+  { name: 'AGENTS.md', format: 'agents-md' },
+  { name: 'GEMINI.md', format: 'gemini-md' },
+  { name: '.cursorrules', format: 'cursorrules' },
+  { name: '.windsurfrules', format: 'windsurfrules' },
+  { name: '.github/copilot-instructions.md', format: 'copilot-instructions' },
+];
+
+/** Rule directories scanned recursively */
+const RULE_DIRECTORIES: Array<{ dir: string; suffix: string; format: InstructionFileFormat }> = [
+  { dir: '.cursor/rules', suffix: '.mdc', format: 'cursor-mdc' },
+  { dir: '.github/instructions', suffix: '.instructions.md', format: 'copilot-path-instructions' },
+];
+
+const MAX_RULE_DIR_DEPTH = 4;
+const MAX_RULE_FILES = 200;
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+export function detectFileFormat(filePath: string): InstructionFileFormat {
+  const basename = path.basename(filePath).toLowerCase();
+  const normalized = filePath.replace(/\\/g, '/');
+
+  if (basename === 'claude.md' || basename === '.claude.md') return 'claude-md';
+  if (basename === 'agents.md') return 'agents-md';
+  if (basename === 'gemini.md') return 'gemini-md';
+  if (basename === '.windsurfrules' || basename === 'windsurfrules') return 'windsurfrules';
+  if (basename === '.cursorrules' || basename === 'cursorrules') return 'cursorrules';
+  if (basename.endsWith('.mdc')) return 'cursor-mdc';
+  if (basename === 'copilot-instructions.md') return 'copilot-instructions';
+  if (basename.endsWith('.instructions.md')) return 'copilot-path-instructions';
+
+  // Fallback: check path patterns
+  if (normalized.includes('.github/copilot')) return 'copilot-instructions';
+  if (normalized.includes('.cursor')) return 'cursorrules';
+
+  return 'claude-md'; // Default
+}
+
+// =============================================================================
+// Discovery
+// =============================================================================
+
+function toDetected(fullPath: string, format: InstructionFileFormat): DetectedInstructionFile | null {
+  try {
+    const stat = fs.statSync(fullPath);
+    if (!stat.isFile()) return null;
+    return {
+      path: fullPath,
+      format,
+      size: stat.size,
+      lastModified: stat.mtime.toISOString(),
+    };
+  } catch {
+    // File doesn't exist, skip
+    return null;
+  }
+}
+
+function collectRuleFiles(dir: string, suffix: string, depth: number, out: string[]): void {
+  if (depth > MAX_RULE_DIR_DEPTH || out.length >= MAX_RULE_FILES) return;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      collectRuleFiles(fullPath, suffix, depth + 1, out);
+    } else if (entry.isFile() && entry.name.toLowerCase().endsWith(suffix)) {
+      out.push(fullPath);
+    }
+    if (out.length >= MAX_RULE_FILES) return;
+  }
+}
+
+/**
+ * Find every supported instruction file in a project directory.
+ * Root files come first, then rule directories in path order.
+ */
+export function discoverInstructionFiles(projectPath: string): DetectedInstructionFile[] {
+  const found: DetectedInstructionFile[] = [];
+
+  for (const { name, format } of ROOT_FILES) {
+    const detected = toDetected(path.join(projectPath, name), format);
+    if (detected) found.push(detected);
+  }
+
+  for (const { dir, suffix, format } of RULE_DIRECTORIES) {
+    const files: string[] = [];
+    collectRuleFiles(path.join(projectPath, dir), suffix, 0, files);
+    for (const file of files) {
+      const detected = toDetected(file, format);
+      if (detected) found.push(detected);
+    }
+  }
+
+  return found;
+}
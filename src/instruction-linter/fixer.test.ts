@@ -0,0 +1,200 @@
+/**
+ * Tests for fixer.ts
+ *
+ * Runs real lint results through applySafeFixes / previewSuggestionEdits and
+ * checks that only exact duplicates and secret values are touched without review.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { lintInstructionFile } from './index.js';
+import { applySafeFixes, previewSuggestionEdits } from './fixer.js';
+import { SECRET_MASK } from './suggestion-generator.js';
+
+let tmpDir: string;
+
+function lint(content: string) {
+  const filePath = path.join(tmpDir, 'CLAUDE.md');
+  fs.writeFileSync(filePath, content, 'utf-8');
+  return { content, result: lintInstructionFile(filePath) };
+}
+
+const BASE = [
+  '# Project',
+  '',
+  'This project is a web app.',
+  '',
+  '## Commands',
+  '',
+  '```bash',
+  'npm run build && npm test',
+  '```',
+  '',
+];
+
+describe('applySafeFixes', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-fixer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('deletes the later copy of an exact duplicate', () => {
+    const { content, result } = lint([
+      ...BASE,
+      '## Style',
+      '',
+      'Use named exports for every module.',
+      '',
+      '## Testing',
+      '',
+      'Use named exports for every module.',
+      'Keep tests next to the code they cover.',
+    ].join('\n'));
+
+    const { content: fixed, applied } = applySafeFixes(content, result);
+
+    expect(applied).toEqual([
+      expect.objectContaining({ type: 'merge', line: 17, before: 'Use named exports for every module.' }),
+    ]);
+    expect(fixed.split('Use named exports for every module.')).toHaveLength(2);
+    expect(fixed).toContain('## Style\n\nUse named exports for every module.');
+    expect(fixed).toContain('Keep tests next to the code they cover.');
+  });
+
+  it('leaves near-duplicates alone', () => {
+    const { content, result } = lint([
+      ...BASE,
+      '## Style',
+      '',
+      'Run the full unit test suite with coverage enabled before you push any change to the main branch.',
+      '',
+      '## Testing',
+      '',
+      'Run the full unit test suite with coverage enabled before you push any change to the release branch.',
+    ].join('\n'));
+
+    expect(result.issues.some(i => i.type === 'duplicate')).toBe(true);
+    expect(applySafeFixes(content, result)).toEqual({ content, applied: [] });
+  });
+
+  it('does not delete repeated lines inside code blocks', () => {
+    const { content, result } = lint([
+      ...BASE,
+      '## Release',
+      '',
+      '```bash',
+      'npm run build:production --workspaces',
+      '```',
+      '',
+      '## Deploy',
+      '',
+      '```bash',
+      'npm run build:production --workspaces',
+      '```',
+    ].join('\n'));
+
+    expect(applySafeFixes(content, result).applied).toEqual([]);
+  });
+
+  it('masks secret values without echoing them', () => {
+    const secret = 'sk-ant-REDACTED';
+    const { content, result } = lint([...BASE, '## Config', '', `ANTHROPIC_API_KEY=${secret}`].join('\n'));
+
+    const { content: fixed, applied } = applySafeFixes(content, result);
+
+    expect(fixed).not.toContain(secret);
+    expect(fixed).toContain(`ANTHROPIC_API_KEY=${SECRET_MASK}`);
+    expect(applied).toEqual([{ issueIndex: 0, type: 'remove', line: 13, after: `ANTHROPIC_API_KEY=${SECRET_MASK}` }]);
+    expect(JSON.stringify(applied)).not.toContain(secret);
+  });
+
+  it('produces a file that no longer has the fixed issues', () => {
+    const { content, result } = lint([
+      ...BASE,
+      '## Config',
+      '',
+      'password: hunter2hunter2hunter2',
+      'Run the migrations before starting the server.',
+      '',
+      '## Deploy',
+      '',
+      'Run the migrations before starting the server.',
+    ].join('\n'));
+
+    const { content: fixed } = applySafeFixes(content, result);
+    const relinted = lint(fixed).result;
+
+    expect(relinted.issues.filter(i => i.type === 'security' || i.type === 'duplicate')).toEqual([]);
+  });
+
+  it('ignores suggestions that need a human', () => {
+    const { content, result } = lint([
+      ...BASE,
+      '## Rules',
+      '',
+      'Always use semicolons.',
+      'Never use semicolons.',
+      'Write good code.',
+    ].join('\n'));
+
+    expect(result.suggestions.map(s => s.type)).toEqual(expect.arrayContaining(['resolve', 'specify']));
+    expect(applySafeFixes(content, result).applied).toEqual([]);
+  });
+});
+
+describe('previewSuggestionEdits', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-fixer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('renders the chosen suggestions as a unified diff', () => {
+    const { content, result } = lint([...BASE, '## Rules', '', 'Write good code.'].join('\n'));
+    const specify = result.suggestions.filter(s => s.type === 'specify');
+
+    const preview = previewSuggestionEdits(content, specify, { path: 'CLAUDE.md' });
+
+    expect(preview.applied).toEqual([0]);
+    expect(preview.conflicts).toEqual([]);
+    expect(preview.diff).toBe([
+      '--- a/CLAUDE.md',
+      '+++ b/CLAUDE.md',
+      '@@ -10,4 +10,4 @@',
+      ' ',
+      ' ## Rules',
+      ' ',
+      '-Write good code.',
+      '+Use TypeScript strict mode. All functions must have explicit return types. Prefer const over let.',
+      '',
+    ].join('\n'));
+    expect(preview.content).not.toContain('Write good code.');
+  });
+
+  it('reports overlapping and stale edits as conflicts', () => {
+    const { content, result } = lint([...BASE, '## Rules', '', 'Always use semicolons.', 'Never use semicolons.'].join('\n'));
+    const resolve = result.suggestions.find(s => s.type === 'resolve')!;
+
+    const overlap = previewSuggestionEdits(content, [resolve, resolve]);
+    expect(overlap.applied).toEqual([0]);
+    expect(overlap.conflicts).toEqual([{ index: 1, reason: 'overlap', conflictsWith: 0 }]);
+
+    const stale = previewSuggestionEdits(content.replace('Never use', 'Never ever use'), [resolve]);
+    expect(stale.applied).toEqual([]);
+    expect(stale.conflicts).toEqual([{ index: 0, reason: 'stale' }]);
+    expect(stale.diff).toBe('');
+  });
+
+  it('reports suggestions without an edit', () => {
+    const preview = previewSuggestionEdits('# Title', [{}]);
+
+    expect(preview.conflicts).toEqual([{ index: 0, reason: 'out-of-range' }]);
+  });
+});
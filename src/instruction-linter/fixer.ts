@@ -0,0 +1,119 @@
+/**
+ * Suggestion Fix Applier
+ *
+ * Applies the line-range edits carried by InstructionSuggestions:
+ *   previewSuggestionEdits: chosen suggestions → patched content, unified diff, conflicts
+ *   applySafeFixes:         every `safe` suggestion (exact duplicate removal, secret masking),
+ *                           used by `lint-instructions --fix` and "fix all safe issues"
+ *
+ * Conflicts, vague wording, missing sections and splits need a human, so they
+ * are never applied without the user picking them.
+ */
+
+import { applyTextEdits, renderUnifiedDiff, type DiffOptions, type EditConflict, type TextEdit } from './text-edits.js';
+import type { LintResult } from './index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Suggestion = LintResult['suggestions'][number];
+type EditableSuggestion = Suggestion & { edit: TextEdit };
+
+export interface SuggestionEditPreview {
+  /** Content with every non-conflicting edit applied */
+  content: string;
+  /** Unified diff of the applied edits ('' when nothing applies) */
+  diff: string;
+  /** Indexes (into the suggestions passed in) whose edits were applied */
+  applied: number[];
+  /** Suggestions whose edits collide with an earlier one or no longer match the file */
+  conflicts: EditConflict[];
+}
+
+export interface AppliedFix {
+  issueIndex: number;
+  type: Suggestion['type'];
+  /** 1-based line in the original content */
+  line: number;
+  /** Deleted lines (a replaced line is not echoed back — it may hold a secret) */
+  before?: string;
+  /** Replacement lines */
+  after?: string;
+}
+
+export interface FixResult {
+  content: string;
+  applied: AppliedFix[];
+}
+
+// =============================================================================
+// Preview
+// =============================================================================
+
+/**
+ * Apply the edits of the given suggestions in order and describe the result.
+ * Suggestions without an edit are reported as out-of-range conflicts.
+ */
+export function previewSuggestionEdits(
+  content: string,
+  suggestions: Array<Pick<Suggestion, 'edit'>>,
+  options: Pick<DiffOptions, 'path' | 'root'> = {}
+): SuggestionEditPreview {
+  const missing: EditConflict[] = [];
+  const edits: TextEdit[] = [];
+  const editIndexes: number[] = [];
+  suggestions.forEach((suggestion, index) => {
+    if (!suggestion.edit) {
+      missing.push({ index, reason: 'out-of-range' });
+      return;
+    }
+    edits.push(suggestion.edit);
+    editIndexes.push(index);
+  });
+
+  const result = applyTextEdits(content, edits);
+  const conflicts = [
+    ...missing,
+    ...result.conflicts.map(c => ({
+      ...c,
+      index: editIndexes[c.index],
+      ...(c.conflictsWith !== undefined && { conflictsWith: editIndexes[c.conflictsWith] }),
+    })),
+  ].sort((a, b) => a.index - b.index);
+
+  return {
+    content: result.content,
+    diff: renderUnifiedDiff(content, result.applied.map(i => edits[i]), options),
+    applied: result.applied.map(i => editIndexes[i]),
+    conflicts,
+  };
+}
+
+// =============================================================================
+// Safe Fixes
+// =============================================================================
+
+/**
+ * Apply every safe suggestion from a lint result to the content it was produced from.
+ * Line numbers in `result` must refer to `content`; re-lint after writing the output.
+ */
+export function applySafeFixes(
+  content: string,
+  result: Pick<LintResult, 'suggestions'>
+): FixResult {
+  const safe = result.suggestions.filter((s): s is EditableSuggestion => s.safe && s.edit !== undefined);
+  const preview = previewSuggestionEdits(content, safe);
+
+  const applied = preview.applied
+    .map((i): AppliedFix => {
+      const { issueIndex, type, edit } = safe[i];
+      const fix: AppliedFix = { issueIndex, type, line: edit.lineStart };
+      if (edit.replacement.length === 0) fix.before = edit.original.join('\n');
+      else fix.after = edit.replacement.join('\n');
+      return fix;
+    })
+    .sort((a, b) => a.line - b.line);
+
+  return { content: preview.content, applied };
+}
@@ -0,0 +1,160 @@
+/**
+ * Tests for frontmatter-parser.ts and format-checks.ts
+ * Verifies MDC / path-instruction frontmatter parsing and format-specific issues,
+ * both directly and through lintInstructionFile
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseFrontmatter, blankFrontmatter, frontmatterList } from './frontmatter-parser.js';
+import { detectFormatIssues, WINDSURF_RULES_CHAR_LIMIT } from './format-checks.js';
+import { parseMarkdownSections } from './markdown-parser.js';
+import { lintInstructionFile } from './index.js';
+import type { InstructionFileFormat } from './file-formats.js';
+
+function formatIssues(format: InstructionFileFormat, text: string) {
+  return detectFormatIssues({
+    format,
+    frontmatter: parseFrontmatter(text),
+    sections: parseMarkdownSections(text),
+    fullText: text,
+  });
+}
+
+describe('parseFrontmatter', () => {
+  it('should parse scalars, booleans and both list styles', () => {
+    const text = [
+      '---',
+      'description: "React component rules"',
+      'globs: src/**/*.tsx, src/**/*.ts',
+      'alwaysApply: false',
+      'applyTo:',
+      '  - "tests/**"',
+      '  - e2e/**',
+      'tags: [a, "b"]',
+      '---',
+      '# Body',
+    ].join('\n');
+
+    const fm = parseFrontmatter(text);
+
+    expect(fm.present).toBe(true);
+    expect(fm.unterminated).toBe(false);
+    expect(fm.endLine).toBe(9);
+    expect(fm.fields).toEqual({
+      description: 'React component rules',
+      globs: 'src/**/*.tsx, src/**/*.ts',
+      alwaysApply: false,
+      applyTo: ['tests/**', 'e2e/**'],
+      tags: ['a', 'b'],
+    });
+    expect(fm.fieldLines.alwaysApply).toBe(4);
+    expect(frontmatterList(fm.fields.globs)).toEqual(['src/**/*.tsx', 'src/**/*.ts']);
+  });
+
+  it('should report missing and unterminated blocks', () => {
+    expect(parseFrontmatter('# Title\n---\n').present).toBe(false);
+
+    const open = parseFrontmatter('---\nglobs: src/**\n# Body');
+    expect(open.present).toBe(true);
+    expect(open.unterminated).toBe(true);
+  });
+
+  it('should blank the block without shifting line numbers', () => {
+    const text = '---\nglobs: a\n---\n# Body\ntext';
+    const blanked = blankFrontmatter(text, parseFrontmatter(text));
+
+    expect(blanked.split('\n')).toEqual(['', '', '', '# Body', 'text']);
+    expect(parseMarkdownSections(blanked).find(s => s.heading === 'Body')).toMatchObject({ lineStart: 4 });
+  });
+});
+
+describe('detectFormatIssues', () => {
+  it('should flag an MDC rule with no globs and alwaysApply false as dead', () => {
+    const issues = formatIssues('cursor-mdc', '---\nglobs:\nalwaysApply: false\n---\n# Rule\n');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'high',
+      type: 'format',
+      location: { lineStart: 3, lineEnd: 3, section: 'frontmatter' },
+    });
+    expect(issues[0].description).toMatch(/^Dead rule/);
+  });
+
+  it('should accept MDC rules attached by globs, description or alwaysApply', () => {
+    expect(formatIssues('cursor-mdc', '---\nglobs: src/**/*.ts\nalwaysApply: false\n---\n')).toEqual([]);
+    expect(formatIssues('cursor-mdc', '---\ndescription: API conventions\n---\n')).toEqual([]);
+    expect(formatIssues('cursor-mdc', '---\nalwaysApply: true\n---\n')).toEqual([]);
+  });
+
+  it('should flag MDC files without frontmatter, ignored globs and bad alwaysApply values', () => {
+    expect(formatIssues('cursor-mdc', '# Rule\nUse hooks.\n')[0].description)
+      .toContain('has no frontmatter');
+
+    const ignored = formatIssues('cursor-mdc', '---\nglobs: ["*.ts"]\nalwaysApply: true\n---\n');
+    expect(ignored).toEqual([expect.objectContaining({ severity: 'low', relatedLines: ['*.ts'] })]);
+
+    const invalid = formatIssues('cursor-mdc', '---\nglobs: "*.ts"\nalwaysApply: yes\n---\n');
+    expect(invalid).toEqual([expect.objectContaining({ severity: 'medium' })]);
+    expect(invalid[0].description).toContain('"yes"');
+
+    expect(formatIssues('cursor-mdc', '---\nglobs: "*.ts"\n# Rule\n')[0].description)
+      .toContain('never closed');
+  });
+
+  it('should flag Copilot path instructions without applyTo', () => {
+    expect(formatIssues('copilot-path-instructions', '---\napplyTo: "**/*.py"\n---\n')).toEqual([]);
+
+    const issues = formatIssues('copilot-path-instructions', '# Python\nUse type hints.\n');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].description).toContain('applyTo');
+  });
+
+  it('should flag .windsurfrules over the character limit', () => {
+    const line = 'Use strict TypeScript and run npm test before committing.\n';
+    const text = line.repeat(Math.ceil(WINDSURF_RULES_CHAR_LIMIT / line.length) + 1);
+
+    expect(formatIssues('windsurfrules', line)).toEqual([]);
+    expect(formatIssues('windsurfrules', text)[0].description).toContain('Windsurf truncates');
+  });
+
+  it('should flag @references in AGENTS.md only', () => {
+    const text = '# Rules\n@docs/conventions.md\n';
+
+    expect(formatIssues('agents-md', text)).toEqual([
+      expect.objectContaining({ severity: 'low', relatedLines: ['@docs/conventions.md'] }),
+    ]);
+    expect(formatIssues('gemini-md', text)).toEqual([]);
+    expect(formatIssues('claude-md', text)).toEqual([]);
+  });
+});
+
+describe('lintInstructionFile with format checks', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-format-checks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should lint a dead MDC rule without treating frontmatter as content', () => {
+    const rulePath = path.join(tmpDir, '.cursor', 'rules', 'react.mdc');
+    fs.mkdirSync(path.dirname(rulePath), { recursive: true });
+    fs.writeFileSync(rulePath, '---\ndescription:\nglobs:\nalwaysApply: false\n---\n# React\n\nUse function components.\n');
+
+    const result = lintInstructionFile(rulePath);
+
+    expect(result.fileFormat).toBe('cursor-mdc');
+    expect(result.sections.map(s => s.heading)).toEqual(['React']);
+    expect(result.sections[0].lineStart).toBe(6);
+    expect(result.issues[0]).toMatchObject({ type: 'format', severity: 'high' });
+    // Scoped rules are not expected to carry project-wide sections
+    expect(result.issues.some(i => i.type === 'missing')).toBe(false);
+  });
+});
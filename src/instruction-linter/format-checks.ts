@@ -0,0 +1,180 @@
+/**
+ * Format-Specific Checks
+ *
+ * Issues that only apply to one instruction file format:
+ *   cursor-mdc:                 dead rules (no globs, alwaysApply off, no description),
+ *                               globs ignored by alwaysApply, bad frontmatter values
+ *   copilot-path-instructions:  missing applyTo (file is never attached)
+ *   windsurfrules:              over Windsurf's per-file character limit
+ *   agents-md:                  @references that AGENTS.md readers do not import
+ */
+
+import type { InstructionFileFormat } from './file-formats.js';
+import { frontmatterList, type ParsedFrontmatter } from './frontmatter-parser.js';
+import type { InstructionIssue } from './issue-detector.js';
+import type { ParsedSection } from './markdown-parser.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FormatCheckInput {
+  format: InstructionFileFormat;
+  frontmatter: ParsedFrontmatter;
+  sections: ParsedSection[];
+  fullText: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Windsurf truncates workspace rule files beyond this many characters */
+export const WINDSURF_RULES_CHAR_LIMIT = 6_000;
+
+const FRONTMATTER_SECTION = 'frontmatter';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function frontmatterLocation(frontmatter: ParsedFrontmatter, key?: string): InstructionIssue['location'] {
+  const line = key ? frontmatter.fieldLines[key] : undefined;
+  if (line) return { lineStart: line, lineEnd: line, section: FRONTMATTER_SECTION };
+  if (frontmatter.present) return { lineStart: 1, lineEnd: frontmatter.endLine, section: FRONTMATTER_SECTION };
+  return { lineStart: 1, lineEnd: 1 };
+}
+
+function unterminatedIssue(frontmatter: ParsedFrontmatter): InstructionIssue[] {
+  if (!frontmatter.unterminated) return [];
+  return [{
+    severity: 'high',
+    type: 'format',
+    description: 'Frontmatter starts with "---" but is never closed. The tool reads the whole file as frontmatter and ignores the instructions.',
+    location: { lineStart: 1, lineEnd: 1, section: FRONTMATTER_SECTION },
+    suggestion: 'Close the frontmatter block with a "---" line before the instructions.',
+  }];
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+function checkCursorMdc(input: FormatCheckInput): InstructionIssue[] {
+  const { frontmatter } = input;
+  const issues = unterminatedIssue(frontmatter);
+  if (frontmatter.unterminated) return issues;
+
+  const globs = frontmatterList(frontmatter.fields.globs);
+  const alwaysApply = frontmatter.fields.alwaysApply;
+  const description = frontmatter.fields.description;
+  const hasDescription = typeof description === 'string' && description.trim().length > 0;
+
+  if (alwaysApply !== undefined && typeof alwaysApply !== 'boolean') {
+    issues.push({
+      severity: 'medium',
+      type: 'format',
+      description: `alwaysApply must be true or false, got "${String(alwaysApply)}". Cursor treats any other value as false.`,
+      location: frontmatterLocation(frontmatter, 'alwaysApply'),
+      relatedLines: [`alwaysApply: ${String(alwaysApply)}`],
+      suggestion: 'Set "alwaysApply: true" to attach the rule to every request, or "alwaysApply: false" with globs.',
+    });
+  }
+
+  if (alwaysApply !== true && globs.length === 0 && !hasDescription) {
+    issues.push({
+      severity: 'high',
+      type: 'format',
+      description: frontmatter.present
+        ? 'Dead rule: no globs, alwaysApply is not true and there is no description, so Cursor never attaches this rule unless it is @-mentioned by name.'
+        : 'Dead rule: the MDC file has no frontmatter, so Cursor never attaches it unless it is @-mentioned by name.',
+      location: frontmatterLocation(frontmatter, 'alwaysApply'),
+      suggestion: 'Add "globs" for the files the rule covers, a "description" so the agent can request it, or "alwaysApply: true".',
+    });
+  }
+
+  if (alwaysApply === true && globs.length > 0) {
+    issues.push({
+      severity: 'low',
+      type: 'format',
+      description: `globs (${globs.join(', ')}) have no effect because alwaysApply is true; the rule is attached to every request.`,
+      location: frontmatterLocation(frontmatter, 'globs'),
+      relatedLines: globs,
+      suggestion: 'Remove the globs, or set "alwaysApply: false" to attach the rule only to matching files.',
+    });
+  }
+
+  return issues;
+}
+
+function checkCopilotPathInstructions(input: FormatCheckInput): InstructionIssue[] {
+  const { frontmatter } = input;
+  const issues = unterminatedIssue(frontmatter);
+  if (frontmatter.unterminated) return issues;
+
+  if (frontmatterList(frontmatter.fields.applyTo).length === 0) {
+    issues.push({
+      severity: 'high',
+      type: 'format',
+      description: 'Dead instructions: no "applyTo" glob in the frontmatter, so Copilot never attaches this file automatically.',
+      location: frontmatterLocation(frontmatter, 'applyTo'),
+      suggestion: 'Add frontmatter such as:\n---\napplyTo: "src/**/*.ts"\n---',
+    });
+  }
+
+  return issues;
+}
+
+function checkWindsurfRules(input: FormatCheckInput): InstructionIssue[] {
+  const length = input.fullText.length;
+  if (length <= WINDSURF_RULES_CHAR_LIMIT) return [];
+
+  return [{
+    severity: 'high',
+    type: 'format',
+    description: `File has ${length.toLocaleString('en-US')} characters (>${WINDSURF_RULES_CHAR_LIMIT.toLocaleString('en-US')}). Windsurf truncates rules past the limit, so the end of this file is never seen.`,
+    location: { lineStart: 1, lineEnd: input.fullText.split('\n').length },
+    suggestion: 'Move topic-specific rules into .windsurf/rules/ files and keep .windsurfrules to the essentials.',
+  }];
+}
+
+function checkAgentsMd(input: FormatCheckInput): InstructionIssue[] {
+  const issues: InstructionIssue[] = [];
+
+  for (const section of input.sections) {
+    if (section.references.length === 0) continue;
+    issues.push({
+      severity: 'low',
+      type: 'format',
+      description: `AGENTS.md does not import @references (${section.references.map(r => `@${r}`).join(', ')}); agents only see the path text, not the file.`,
+      location: {
+        lineStart: section.lineStart,
+        lineEnd: section.lineEnd,
+        section: section.heading || undefined,
+      },
+      relatedLines: section.references.map(r => `@${r}`),
+      suggestion: 'Inline the essential rules, or tell the agent to read the file (e.g., "Read docs/conventions.md before editing").',
+    });
+  }
+
+  return issues;
+}
+
+// =============================================================================
+// Main Check
+// =============================================================================
+
+export function detectFormatIssues(input: FormatCheckInput): InstructionIssue[] {
+  switch (input.format) {
+    case 'cursor-mdc':
+      return checkCursorMdc(input);
+    case 'copilot-path-instructions':
+      return checkCopilotPathInstructions(input);
+    case 'windsurfrules':
+      return checkWindsurfRules(input);
+    case 'agents-md':
+      return checkAgentsMd(input);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Frontmatter Parser
+ *
+ * Parses the `---` delimited header used by Cursor MDC rules
+ * (description, globs, alwaysApply) and Copilot path-specific
+ * instructions (applyTo). Supports the flat subset of YAML these
+ * files use: scalars, booleans, inline lists and `- item` lists.
+ */
+
+export type FrontmatterValue = string | boolean | string[];
+
+export interface ParsedFrontmatter {
+  /** Whether the file starts with a frontmatter block */
+  present: boolean;
+  /** Opening `---` without a closing one */
+  unterminated: boolean;
+  fields: Record<string, FrontmatterValue>;
+  /** 1-based line numbers of each key, for issue locations */
+  fieldLines: Record<string, number>;
+  /** Last line of the block (closing `---`), 0 when absent */
+  endLine: number;
+}
+
+const DELIMITER_RE = /^---\s*$/;
+const KEY_RE = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/;
+const LIST_ITEM_RE = /^\s+-\s*(.*)$/;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && /^(['"]).*\1$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function parseScalar(raw: string): FrontmatterValue {
+  const value = raw.trim();
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+  }
+  return unquote(value);
+}
+
+/**
+ * Parse the frontmatter block at the top of a file.
+ * Returns `present: false` when the first line is not `---`.
+ */
+export function parseFrontmatter(text: string): ParsedFrontmatter {
+  const result: ParsedFrontmatter = {
+    present: false,
+    unterminated: false,
+    fields: {},
+    fieldLines: {},
+    endLine: 0,
+  };
+
+  const lines = text.split('\n');
+  if (!DELIMITER_RE.test(lines[0] ?? '')) return result;
+  result.present = true;
+
+  let listKey: string | null = null;
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (DELIMITER_RE.test(line)) {
+      result.endLine = i + 1;
+      return result;
+    }
+
+    const itemMatch = line.match(LIST_ITEM_RE);
+    if (itemMatch && listKey) {
+      const list = result.fields[listKey];
+      const items = Array.isArray(list) ? list : [];
+      items.push(unquote(itemMatch[1]));
+      result.fields[listKey] = items;
+      continue;
+    }
+
+    const keyMatch = line.match(KEY_RE);
+    if (keyMatch) {
+      const [, key, raw] = keyMatch;
+      result.fieldLines[key] = i + 1;
+      // `key:` with nothing after it starts a `- item` list
+      listKey = raw.trim() === '' ? key : null;
+      result.fields[key] = listKey ? [] : parseScalar(raw);
+      continue;
+    }
+
+    if (line.trim()) listKey = null;
+  }
+
+  result.unterminated = true;
+  result.endLine = lines.length;
+  return result;
+}
+
+/**
+ * Replace the frontmatter block with blank lines so the markdown
+ * parser skips it while line numbers stay aligned with the file.
+ */
+export function blankFrontmatter(text: string, frontmatter: ParsedFrontmatter): string {
+  if (!frontmatter.present || frontmatter.unterminated) return text;
+
+  const lines = text.split('\n');
+  for (let i = 0; i < frontmatter.endLine; i++) {
+    lines[i] = '';
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Read a list-like field (`globs`, `applyTo`) — comma-separated strings
+ * and YAML lists both count.
+ */
+export function frontmatterList(value: FrontmatterValue | undefined): string[] {
+  if (value === undefined || typeof value === 'boolean') return [];
+  const items = Array.isArray(value) ? value : value.split(',');
+  return items.map(item => item.trim()).filter(Boolean);
+}
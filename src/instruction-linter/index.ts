@@ -0,0 +1,286 @@
+/**
+ * Instruction Linter — Barrel Entrypoint
+ *
+ * Shared by the `lint-instructions` CLI command and the desktop app
+ * (bundled to CJS by desktop/scripts/build-analysis.ts).
+ *
+ * Orchestrates the full linting pipeline:
+ *   1. Read file → detect format, parse frontmatter and markdown sections
+ *   2. Resolve @references
+ *   3. Evaluate GOLDEN dimensions
+ *   4. Detect issues
+ *   5. Generate suggestions with line-range edits
+ *   6. Return InstructionAnalysis result
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseMarkdownSections } from './markdown-parser.js';
+import { resolveReferences } from './reference-resolver.js';
+import { evaluateInstructions } from './instruction-evaluator.js';
+import { detectIssues } from './issue-detector.js';
+import { generateSuggestions } from './suggestion-generator.js';
+import { detectFileFormat, FRONTMATTER_FORMATS, type InstructionFileFormat } from './file-formats.js';
+import { parseFrontmatter, blankFrontmatter } from './frontmatter-parser.js';
+import type { TextEdit } from './text-edits.js';
+
+// Re-export submodules
+export {
+  INSTRUCTION_FILE_FORMATS,
+  FRONTMATTER_FORMATS,
+  detectFileFormat,
+  discoverInstructionFiles,
+} from './file-formats.js';
+export type { InstructionFileFormat, DetectedInstructionFile } from './file-formats.js';
+export { parseFrontmatter, blankFrontmatter, frontmatterList } from './frontmatter-parser.js';
+export type { ParsedFrontmatter, FrontmatterValue } from './frontmatter-parser.js';
+export { detectFormatIssues, WINDSURF_RULES_CHAR_LIMIT } from './format-checks.js';
+export type { FormatCheckInput } from './format-checks.js';
+export {
+  resolveEffectiveInstructions,
+  estimateTokens,
+  MAX_IMPORT_DEPTH,
+  EFFECTIVE_TOKEN_BUDGET,
+} from './effective-instructions.js';
+export type {
+  EffectiveInstructions,
+  EffectiveInstructionFile,
+  EffectiveInstructionOptions,
+  EffectiveIssue,
+  EffectiveLine,
+  InstructionScope,
+  UnresolvedImport,
+} from './effective-instructions.js';
+export { parseMarkdownSections, findReferenceLines } from './markdown-parser.js';
+export type { ParsedSection, ReferenceLine } from './markdown-parser.js';
+export { resolveReferences } from './reference-resolver.js';
+export type { ResolvedReference } from './reference-resolver.js';
+export { evaluateInstructions, calculateGrade } from './instruction-evaluator.js';
+export type { EvaluatorInput, EvaluatorResult } from './instruction-evaluator.js';
+export { detectIssues, SEVERITY_ORDER } from './issue-detector.js';
+export type { InstructionIssue, DetectorInput, IssueType, IssueSeverity } from './issue-detector.js';
+export { generateSuggestions, SECRET_MASK } from './suggestion-generator.js';
+export type { InstructionSuggestion, SuggestionType } from './suggestion-generator.js';
+export { applyTextEdits, renderUnifiedDiff } from './text-edits.js';
+export type { TextEdit, EditApplyResult, EditConflict, EditConflictReason, DiffOptions } from './text-edits.js';
+export { applySafeFixes, previewSuggestionEdits } from './fixer.js';
+export type { SuggestionEditPreview } from './fixer.js';
+export type { AppliedFix, FixResult } from './fixer.js';
+export { toSarif } from './sarif.js';
+export type { SarifLog, SarifResult, SarifLevel } from './sarif.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface LintResult {
+  filePath: string;
+  fileFormat: InstructionFileFormat;
+  overallScore: number;
+  grade: Grade;
+  goldenScores: {
+    goal: number;
+    output: number;
+    limits: number;
+    data: number;
+    evaluation: number;
+    next: number;
+    total: number;
+  };
+  issues: Array<{
+    severity: string;
+    type: string;
+    description: string;
+    location: { lineStart: number; lineEnd: number; section?: string };
+    suggestion?: string;
+    relatedLines?: string[];
+  }>;
+  suggestions: Array<{
+    issueIndex: number;
+    type: string;
+    originalText?: string;
+    suggestedText: string;
+    description: string;
+    edit?: TextEdit;
+    safe: boolean;
+  }>;
+  sections: Array<{
+    heading: string;
+    level: number;
+    content: string;
+    lineStart: number;
+    lineEnd: number;
+    codeBlocks: string[];
+    references: string[];
+  }>;
+  references: Array<{
+    path: string;
+    resolvedPath?: string;
+    exists: boolean;
+    content?: string;
+    lineCount?: number;
+  }>;
+  fileSize: number;
+  lineCount: number;
+  analyzedAt: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const BINARY_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp',
+  '.pdf', '.zip', '.tar', '.gz', '.bz2', '.7z', '.rar',
+  '.exe', '.dll', '.so', '.dylib', '.wasm', '.bin',
+]);
+
+const CONTEXT_ROT_LINE_THRESHOLD = 10_000;
+
+const EMPTY_FILE_TEMPLATE = '# Project Name\n\nDescribe your project here.\n\n## Commands\n\n```bash\nnpm run dev\nnpm test\n```';
+
+// =============================================================================
+// Main Pipeline
+// =============================================================================
+
+/**
+ * Lint an instruction file through the full pipeline.
+ * Returns a complete analysis result.
+ */
+export function lintInstructionFile(filePath: string): LintResult {
+  const absolutePath = path.resolve(filePath);
+
+  // Edge case: Binary file check (before reading content)
+  const ext = path.extname(absolutePath).toLowerCase();
+  if (BINARY_EXTENSIONS.has(ext)) {
+    throw new Error('Binary files cannot be analyzed');
+  }
+
+  // Edge case: Permission/not-found errors
+  let content: string;
+  let stats: fs.Stats;
+  try {
+    content = fs.readFileSync(absolutePath, 'utf-8');
+    stats = fs.statSync(absolutePath);
+  } catch (err: unknown) {
+    if (err instanceof Error && 'code' in err) {
+      const fsErr = err as NodeJS.ErrnoException;
+      if (fsErr.code === 'ENOENT') {
+        throw new Error(`File not found: ${absolutePath}`);
+      }
+      if (fsErr.code === 'EACCES') {
+        throw new Error(`Permission denied: ${absolutePath}`);
+      }
+    }
+    throw err;
+  }
+
+  const fileFormat = detectFileFormat(absolutePath);
+
+  // Edge case: Empty file
+  if (content.trim().length === 0) {
+    return {
+      filePath: absolutePath,
+      fileFormat,
+      overallScore: 0,
+      grade: 'F',
+      goldenScores: {
+        goal: 0,
+        output: 0,
+        limits: 0,
+        data: 0,
+        evaluation: 0,
+        next: 0,
+        total: 0,
+      },
+      issues: [{
+        severity: 'critical',
+        type: 'missing',
+        description: 'File is empty',
+        location: { lineStart: 0, lineEnd: 0 },
+        suggestion: 'Add project description, commands, coding conventions, and constraints.',
+      }],
+      suggestions: [{
+        issueIndex: 0,
+        type: 'add',
+        suggestedText: EMPTY_FILE_TEMPLATE,
+        description: 'Add initial content with project description and commands.',
+        edit: {
+          lineStart: 1,
+          lineEnd: content.split('\n').length,
+          original: content.split('\n'),
+          replacement: [...EMPTY_FILE_TEMPLATE.split('\n'), ''],
+        },
+        safe: false,
+      }],
+      sections: [],
+      references: [],
+      fileSize: stats.size,
+      lineCount: 0,
+      analyzedAt: new Date().toISOString(),
+    };
+  }
+
+  const lines = content.split('\n');
+
+  // 1. Parse frontmatter (MDC / path instructions) and markdown sections
+  const frontmatter = parseFrontmatter(content);
+  const hasFrontmatter = FRONTMATTER_FORMATS.has(fileFormat);
+  const body = hasFrontmatter ? blankFrontmatter(content, frontmatter) : content;
+  // Blanked frontmatter lines would otherwise show up as an empty preamble section
+  const sections = parseMarkdownSections(body)
+    .filter(s => !hasFrontmatter || s.level > 0 || s.content.trim().length > 0);
+
+  // 2. Resolve @references
+  const allRefs = sections.flatMap(s => s.references);
+  const basePath = path.dirname(absolutePath);
+  const references = resolveReferences(allRefs, basePath);
+
+  // 3. Evaluate GOLDEN dimensions
+  const evaluation = evaluateInstructions({
+    sections,
+    fullText: body,
+    lineCount: lines.length,
+  });
+
+  // 4. Detect issues
+  const issues = detectIssues({
+    sections,
+    fullText: body,
+    lineCount: lines.length,
+    format: fileFormat,
+    frontmatter,
+  });
+
+  // Edge case: Large file context rot warning
+  if (lines.length > CONTEXT_ROT_LINE_THRESHOLD) {
+    issues.push({
+      severity: 'high',
+      type: 'excessive',
+      description: `File has ${lines.length} lines (>${CONTEXT_ROT_LINE_THRESHOLD}). Extremely large instruction files cause context rot — AI models will lose track of earlier instructions.`,
+      location: { lineStart: 1, lineEnd: lines.length },
+      suggestion: 'Aggressively split into focused @referenced files. Keep the root file under 500 lines as an index/overview.',
+    });
+  }
+
+  // 5. Generate suggestions (edits target the real file lines, frontmatter included)
+  const suggestions = generateSuggestions({ issues, lines, sections });
+
+  // 6. Assemble result
+  return {
+    filePath: absolutePath,
+    fileFormat,
+    overallScore: evaluation.overallScore,
+    grade: evaluation.grade,
+    goldenScores: evaluation.goldenScores,
+    issues,
+    suggestions,
+    sections,
+    references,
+    fileSize: stats.size,
+    lineCount: lines.length,
+    analyzedAt: new Date().toISOString(),
+  };
+}
@@ -18,8 +18,8 @@ import {
   evaluateInstructions,
   calculateGrade,
   type EvaluatorResult,
-} from '../instruction-evaluator.js';
-import type { ParsedSection } from '../markdown-parser.js';
+} from './instruction-evaluator.js';
+import type { ParsedSection } from './markdown-parser.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
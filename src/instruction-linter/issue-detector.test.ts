@@ -11,8 +11,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { detectIssues } from '../issue-detector.js';
-import type { ParsedSection } from '../markdown-parser.js';
+import { detectIssues } from './issue-detector.js';
+import type { ParsedSection } from './markdown-parser.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
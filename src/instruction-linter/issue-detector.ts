@@ -1,23 +1,27 @@
 /**
  * Issue Pattern Detector
  *
- * Detects 6 issue types in instruction files:
+ * Detects 7 issue types in instruction files:
  *   excessive:  200+ lines → context rot risk
  *   conflict:   contradicting instructions ("always X" + "never X")
  *   duplicate:  repeated/similar instructions
  *   missing:    required sections absent (commands, project description)
  *   vague:      non-specific instructions ("write good code")
  *   security:   API keys, passwords, secrets in plaintext
+ *   format:     format-specific problems (see format-checks.ts)
  */
 
 import type { ParsedSection } from './markdown-parser.js';
+import { FRONTMATTER_FORMATS, type InstructionFileFormat } from './file-formats.js';
+import { detectFormatIssues } from './format-checks.js';
+import type { ParsedFrontmatter } from './frontmatter-parser.js';
 
 // =============================================================================
 // Types
 // =============================================================================
 
 export type IssueSeverity = 'critical' | 'high' | 'medium' | 'low';
-export type IssueType = 'duplicate' | 'conflict' | 'missing' | 'vague' | 'security' | 'excessive';
+export type IssueType = 'duplicate' | 'conflict' | 'missing' | 'vague' | 'security' | 'excessive' | 'format';
 
 export interface IssueLocation {
   lineStart: number;
@@ -38,6 +42,9 @@ export interface DetectorInput {
   sections: ParsedSection[];
   fullText: string;
   lineCount: number;
+  /** Enables format-specific checks; omitted means a plain CLAUDE.md-style file */
+  format?: InstructionFileFormat;
+  frontmatter?: ParsedFrontmatter;
 }
 
 // =============================================================================
@@ -210,6 +217,9 @@ function detectDuplicates(input: DetectorInput): InstructionIssue[] {
 }
 
 function detectMissing(input: DetectorInput): InstructionIssue[] {
+  // Scoped rule files (MDC, path instructions) cover one topic, not the whole project
+  if (input.format && FRONTMATTER_FORMATS.has(input.format)) return [];
+
   const issues: InstructionIssue[] = [];
   const fullText = input.fullText.toLowerCase();
   const headings = input.sections.map(s => s.heading.toLowerCase());
@@ -371,7 +381,7 @@ function stringSimilarity(a: string, b: string): number {
 // Severity ordering
 // =============================================================================
 
-const SEVERITY_ORDER: Record<IssueSeverity, number> = {
+export const SEVERITY_ORDER: Record<IssueSeverity, number> = {
   critical: 0,
   high: 1,
   medium: 2,
@@ -390,6 +400,14 @@ export function detectIssues(input: DetectorInput): InstructionIssue[] {
     ...detectMissing(input),
     ...detectVague(input),
     ...detectSecurity(input),
+    ...(input.format && input.frontmatter
+      ? detectFormatIssues({
+        format: input.format,
+        frontmatter: input.frontmatter,
+        sections: input.sections,
+        fullText: input.fullText,
+      })
+      : []),
   ];
 
   // Sort by severity (critical first)
@@ -7,7 +7,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseMarkdownSections } from '../markdown-parser.js';
+import { parseMarkdownSections, findReferenceLines } from './markdown-parser.js';
 
 describe('parseMarkdownSections', () => {
   describe('heading extraction', () => {
@@ -147,3 +147,14 @@ describe('parseMarkdownSections', () => {
     });
   });
 });
+
+describe('findReferenceLines', () => {
+  it('should return @references with line numbers, skipping code blocks and emails', () => {
+    const input = '# Rules\n@docs/style.md\n```\n@not/imported.md\n```\nmail me@example.com\n  @~/.claude/shared.md';
+
+    expect(findReferenceLines(input)).toEqual([
+      { path: 'docs/style.md', line: 2 },
+      { path: '~/.claude/shared.md', line: 7 },
+    ]);
+  });
+});
@@ -15,6 +15,13 @@ export interface ParsedSection {
   references: string[];
 }
 
+export interface ReferenceLine {
+  /** Referenced path without the leading @ */
+  path: string;
+  /** 1-based line number of the @path line */
+  line: number;
+}
+
 const HEADING_RE = /^(#{1,6})\s*(.*)/;
 const FENCE_RE = /^```/;
 const REF_RE = /^@([^\s@]+\.[^\s@]+)/;
@@ -117,3 +124,25 @@ export function parseMarkdownSections(text: string): ParsedSection[] {
 
   return sections;
 }
+
+/**
+ * Find @path reference lines with their line numbers, using the same
+ * rules as parseMarkdownSections (line start only, code blocks skipped).
+ */
+export function findReferenceLines(text: string): ReferenceLine[] {
+  const refs: ReferenceLine[] = [];
+  let inCodeBlock = false;
+
+  text.split('\n').forEach((line, i) => {
+    if (FENCE_RE.test(line.trimStart())) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    if (inCodeBlock) return;
+
+    const refMatch = line.trimStart().match(REF_RE);
+    if (refMatch) refs.push({ path: refMatch[1], line: i + 1 });
+  });
+
+  return refs;
+}
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { resolveReferences, type ResolvedReference } from '../reference-resolver.js';
+import { resolveReferences, type ResolvedReference } from './reference-resolver.js';
 
 vi.mock('node:fs', () => ({
   default: {
@@ -3,7 +3,8 @@
  *
  * Resolves @path references found in CLAUDE.md-style files.
  * Checks if referenced files exist and reads their content.
- * Only resolves 1 level deep (no recursion into resolved files).
+ * Only resolves 1 level deep (no recursion into resolved files);
+ * effective-instructions.ts follows imports recursively.
  */
 
 import fs from 'node:fs';
@@ -0,0 +1,86 @@
+/**
+ * Tests for sarif.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import { toSarif } from './sarif.js';
+import type { LintResult } from './index.js';
+
+function result(filePath: string, issues: LintResult['issues']): LintResult {
+  return {
+    filePath,
+    fileFormat: 'claude-md',
+    overallScore: 50,
+    grade: 'C',
+    goldenScores: { goal: 0, output: 0, limits: 0, data: 0, evaluation: 0, next: 0, total: 0 },
+    issues,
+    suggestions: [],
+    sections: [],
+    references: [],
+    fileSize: 0,
+    lineCount: 0,
+    analyzedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+const cwd = path.resolve('/repo');
+
+describe('toSarif', () => {
+  it('emits a SARIF 2.1.0 log with one rule per issue type', () => {
+    const log = toSarif([
+      result(path.join(cwd, 'CLAUDE.md'), [
+        { severity: 'critical', type: 'security', description: 'Secret', location: { lineStart: 4, lineEnd: 4 } },
+        { severity: 'medium', type: 'vague', description: 'Vague', location: { lineStart: 9, lineEnd: 9 } },
+      ]),
+      result(path.join(cwd, '.cursor', 'rules', 'api.mdc'), [
+        { severity: 'low', type: 'format', description: 'Globs ignored', location: { lineStart: 2, lineEnd: 3 } },
+        { severity: 'medium', type: 'vague', description: 'Vague', location: { lineStart: 7, lineEnd: 7 } },
+      ]),
+    ], cwd);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.rules.map(r => r.id)).toEqual(['format', 'security', 'vague']);
+    expect(log.runs[0].results.map(r => [r.ruleId, r.level])).toEqual([
+      ['security', 'error'],
+      ['vague', 'warning'],
+      ['format', 'note'],
+      ['vague', 'warning'],
+    ]);
+  });
+
+  it('uses repo-relative URIs with forward slashes', () => {
+    const log = toSarif([
+      result(path.join(cwd, '.github', 'instructions', 'api.instructions.md'), [
+        { severity: 'high', type: 'format', description: 'Missing applyTo', location: { lineStart: 1, lineEnd: 1 } },
+      ]),
+    ], cwd);
+
+    const location = log.runs[0].results[0].locations[0].physicalLocation;
+    expect(location.artifactLocation.uri).toBe('.github/instructions/api.instructions.md');
+  });
+
+  it('clamps whole-file issues to line 1', () => {
+    const log = toSarif([
+      result(path.join(cwd, 'CLAUDE.md'), [{
+        severity: 'high',
+        type: 'missing',
+        description: 'Missing build/test commands section.',
+        suggestion: 'Add a "Commands" section.',
+        location: { lineStart: 0, lineEnd: 0 },
+      }]),
+    ], cwd);
+
+    const [sarifResult] = log.runs[0].results;
+    expect(sarifResult.locations[0].physicalLocation.region).toEqual({ startLine: 1, endLine: 1 });
+    expect(sarifResult.message.text).toBe('Missing build/test commands section. Add a "Commands" section.');
+  });
+
+  it('returns an empty run when there are no issues', () => {
+    const log = toSarif([result(path.join(cwd, 'CLAUDE.md'), [])], cwd);
+
+    expect(log.runs[0].results).toEqual([]);
+    expect(log.runs[0].tool.driver.rules).toEqual([]);
+  });
+});
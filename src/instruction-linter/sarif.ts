@@ -0,0 +1,126 @@
+/**
+ * SARIF Output
+ *
+ * Converts lint results to a SARIF 2.1.0 log so instruction-file issues show up
+ * as code-scanning alerts (GitHub `upload-sarif`, IDE SARIF viewers).
+ * One rule per issue type; severities map to SARIF levels.
+ */
+
+import path from 'node:path';
+import type { LintResult } from './index.js';
+
+// =============================================================================
+// Types (subset of the SARIF 2.1.0 schema that we emit)
+// =============================================================================
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { startLine: number; endLine: number };
+    };
+  }>;
+  properties: { severity: string; section?: string };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: Array<{ id: string; name: string; shortDescription: { text: string } }>;
+      };
+    };
+    results: SarifResult[];
+  }>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const TOOL_NAME = 'prompt-evolution-instruction-linter';
+const TOOL_URI = 'https://github.com/philokalos/prompt-evolution';
+
+const RULE_DESCRIPTIONS: Record<string, string> = {
+  duplicate: 'Repeated instruction across sections',
+  conflict: 'Contradicting instructions',
+  missing: 'Required section or referenced file is missing',
+  vague: 'Non-specific instruction that AI tools tend to ignore',
+  security: 'Secret or API key in an instruction file',
+  excessive: 'Instruction file is too long for reliable use',
+  format: 'Format-specific problem (frontmatter, size limits, unsupported syntax)',
+};
+
+const LEVEL_BY_SEVERITY: Record<string, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// =============================================================================
+// Converter
+// =============================================================================
+
+function toUri(filePath: string, cwd: string): string {
+  const relative = path.relative(cwd, filePath);
+  // Files outside the working tree keep their absolute path
+  const uri = relative.startsWith('..') || path.isAbsolute(relative) ? filePath : relative;
+  return uri.split(path.sep).join('/');
+}
+
+/**
+ * Build a SARIF log from lint results.
+ * URIs are relative to `cwd` (the repository root when run from a hook or CI).
+ */
+export function toSarif(results: LintResult[], cwd: string = process.cwd()): SarifLog {
+  const ruleIds = new Set<string>();
+  const sarifResults: SarifResult[] = [];
+
+  for (const result of results) {
+    const uri = toUri(result.filePath, cwd);
+    for (const issue of result.issues) {
+      ruleIds.add(issue.type);
+      // Whole-file issues use line 0; SARIF regions are 1-based
+      const startLine = Math.max(1, issue.location.lineStart);
+      sarifResults.push({
+        ruleId: issue.type,
+        level: LEVEL_BY_SEVERITY[issue.severity] ?? 'warning',
+        message: { text: issue.suggestion ? `${issue.description} ${issue.suggestion}` : issue.description },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri },
+            region: { startLine, endLine: Math.max(startLine, issue.location.lineEnd) },
+          },
+        }],
+        properties: { severity: issue.severity, section: issue.location.section },
+      });
+    }
+  }
+
+  const rules = [...ruleIds].sort().map(id => ({
+    id,
+    name: id,
+    shortDescription: { text: RULE_DESCRIPTIONS[id] ?? id },
+  }));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules } },
+      results: sarifResults,
+    }],
+  };
+}
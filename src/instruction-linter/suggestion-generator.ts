@@ -8,8 +8,17 @@
  *   specify:     vague → concrete, actionable version
  *   remove:      security → redacted/placeholder version
  *   split:       excessive → split guidance with @references
+ *
+ * When the analyzed lines are passed in, each suggestion also carries a
+ * concrete TextEdit located via the ParsedSections. `safe` marks edits that
+ * need no judgement (exact duplicate removal, secret masking) — the ones
+ * "fix all safe issues" and `lint-instructions --fix` apply.
  */
 
+import { BUILTIN_REDACTION_RULES, createRedactor } from '../redaction/redactor.js';
+import type { ParsedSection } from './markdown-parser.js';
+import type { TextEdit } from './text-edits.js';
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -22,6 +31,10 @@ export interface InstructionSuggestion {
   originalText?: string;
   suggestedText: string;
   description: string;
+  /** Concrete change to the file; absent when the fix needs a human (split, generic sections) */
+  edit?: TextEdit;
+  /** The edit can be applied without review */
+  safe: boolean;
 }
 
 interface IssueInput {
@@ -34,6 +47,16 @@ interface IssueInput {
 
 export interface SuggestionInput {
   issues: IssueInput[];
+  /** File lines the issues were detected on; enables `edit` */
+  lines?: string[];
+  sections?: ParsedSection[];
+}
+
+interface EditContext {
+  lines: string[];
+  sections: ParsedSection[];
+  /** 1-based lines inside fenced code blocks (fences included) */
+  fenced: Set<number>;
 }
 
 // =============================================================================
@@ -49,27 +72,107 @@ const TYPE_TO_SUGGESTION: Record<string, SuggestionType> = {
   excessive: 'split',
 };
 
+export const SECRET_MASK = '<REDACTED>';
+
+// Only credentials — emails/IPs in instructions are usually intentional
+const SECRET_KINDS = new Set(['private-key', 'jwt', 'api-key', 'secret']);
+
+const FENCE_RE = /^```/;
+
+const secretRedactor = createRedactor(
+  BUILTIN_REDACTION_RULES.filter(rule => SECRET_KINDS.has(rule.kind))
+);
+
+// =============================================================================
+// Edit Helpers
+// =============================================================================
+
+function createEditContext(lines: string[], sections: ParsedSection[]): EditContext {
+  const fenced = new Set<number>();
+  let inFence = false;
+  lines.forEach((line, i) => {
+    const isFence = FENCE_RE.test(line.trim());
+    if (inFence || isFence) fenced.add(i + 1);
+    if (isFence) inFence = !inFence;
+  });
+  return { lines, sections, fenced };
+}
+
+function replaceLines(ctx: EditContext, lineStart: number, lineEnd: number, replacement: string[]): TextEdit {
+  return { lineStart, lineEnd, original: ctx.lines.slice(lineStart - 1, lineEnd), replacement };
+}
+
+function insertBefore(line: number, replacement: string[]): TextEdit {
+  return { lineStart: line, lineEnd: line - 1, original: [], replacement };
+}
+
+function lineAt(ctx: EditContext, line: number): string | undefined {
+  return line >= 1 && line <= ctx.lines.length ? ctx.lines[line - 1] : undefined;
+}
+
+function normalizeLine(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** Insert a block with one blank line around it, separating it from neighbouring text */
+function insertBlock(ctx: EditContext, at: number, block: string[]): TextEdit {
+  const before = lineAt(ctx, at - 1);
+  const after = lineAt(ctx, at);
+  return insertBefore(at, [
+    ...(before !== undefined && before.trim() !== '' ? [''] : []),
+    ...block,
+    ...(after !== undefined && after.trim() !== '' ? [''] : []),
+  ]);
+}
+
+/** Insert a block at the end of the file, before the trailing newline */
+function appendBlock(ctx: EditContext, block: string[]): TextEdit {
+  const hasTrailingNewline = ctx.lines.length > 1 && ctx.lines[ctx.lines.length - 1] === '';
+  return insertBlock(ctx, hasTrailingNewline ? ctx.lines.length : ctx.lines.length + 1, block);
+}
+
 // =============================================================================
 // Generators
 // =============================================================================
 
-function generateMerge(issue: IssueInput, index: number): InstructionSuggestion {
+function generateMerge(issue: IssueInput, index: number, ctx?: EditContext): InstructionSuggestion {
   const lines = issue.relatedLines ?? [];
   const consolidated = lines[0] ?? 'Consolidated instruction';
 
+  // Delete the later copy inside the issue's section; repeated commands in code blocks are left alone
+  let edit: TextEdit | undefined;
+  const [kept, repeated] = lines;
+  if (ctx && kept && repeated) {
+    for (let line = Math.max(1, issue.location.lineStart); line <= Math.min(ctx.lines.length, issue.location.lineEnd); line++) {
+      if (!ctx.fenced.has(line) && ctx.lines[line - 1].trim() === repeated) {
+        edit = replaceLines(ctx, line, line, []);
+        break;
+      }
+    }
+  }
+
   return {
     issueIndex: index,
     type: 'merge',
     originalText: lines.join('\n'),
     suggestedText: `Keep only one instance: "${consolidated}" and remove the duplicate.`,
     description: 'Consolidate duplicate instructions into a single location to reduce redundancy.',
+    edit,
+    // Near-duplicates (similarity match) may differ in meaning — only exact repeats are safe
+    safe: edit !== undefined && normalizeLine(kept) === normalizeLine(repeated),
   };
 }
 
-function generateResolve(issue: IssueInput, index: number): InstructionSuggestion {
+function generateResolve(issue: IssueInput, index: number, ctx?: EditContext): InstructionSuggestion {
   const lines = issue.relatedLines ?? [];
   const original = lines.join(' vs ');
 
+  // Keep the earlier instruction and drop the later one
+  const later = ctx ? lineAt(ctx, issue.location.lineEnd) : undefined;
+  const edit = ctx && later !== undefined && issue.location.lineEnd > issue.location.lineStart && lines.includes(later.trim())
+    ? replaceLines(ctx, issue.location.lineEnd, issue.location.lineEnd, [])
+    : undefined;
+
   return {
     issueIndex: index,
     type: 'resolve',
@@ -78,27 +181,38 @@ function generateResolve(issue: IssueInput, index: number): InstructionSuggestio
       ? `Choose one: either "${lines[0]}" or "${lines[1]}". If both are needed, clarify the context (e.g., "For new code: ${lines[0]}. For legacy code: ${lines[1]}").`
       : 'Resolve the contradiction by removing one instruction or adding context for when each applies.',
     description: 'Resolve conflicting instructions by choosing one or clarifying when each applies.',
+    edit,
+    safe: false,
   };
 }
 
-function generateAddSection(issue: IssueInput, index: number): InstructionSuggestion {
+function generateAddSection(issue: IssueInput, index: number, ctx?: EditContext): InstructionSuggestion {
   const desc = issue.description.toLowerCase();
 
   if (/command|build|test/i.test(desc)) {
+    const suggestedText = '## Commands\n\n```bash\nnpm run dev          # Development server\nnpm run build        # Production build\nnpm test             # Run tests\nnpm run lint         # Lint check\n```';
     return {
       issueIndex: index,
       type: 'add-section',
-      suggestedText: '## Commands\n\n```bash\nnpm run dev          # Development server\nnpm run build        # Production build\nnpm test             # Run tests\nnpm run lint         # Lint check\n```',
+      suggestedText,
       description: 'Add a Commands section with build, test, and development commands.',
+      edit: ctx ? appendBlock(ctx, suggestedText.split('\n')) : undefined,
+      // Template commands must be replaced with the project's own
+      safe: false,
     };
   }
 
   if (/project|description|overview/i.test(desc)) {
+    const suggestedText = '## Project Overview\n\n[Project name] is a [type] application built with [tech stack].\n\n**Purpose**: [What the project does]\n**Tech Stack**: [Languages, frameworks, tools]';
+    // Right after the title section, before the first sub-section
+    const title = ctx?.sections.find(s => s.level === 1);
     return {
       issueIndex: index,
       type: 'add-section',
-      suggestedText: '## Project Overview\n\n[Project name] is a [type] application built with [tech stack].\n\n**Purpose**: [What the project does]\n**Tech Stack**: [Languages, frameworks, tools]',
+      suggestedText,
       description: 'Add a Project Overview section describing the project and its tech stack.',
+      edit: ctx ? insertBlock(ctx, title ? title.lineEnd + 1 : 1, suggestedText.split('\n')) : undefined,
+      safe: false,
     };
   }
 
@@ -107,10 +221,11 @@ function generateAddSection(issue: IssueInput, index: number): InstructionSugges
     type: 'add-section',
     suggestedText: `## [Section Name]\n\n[Add relevant content here]`,
     description: 'Add the missing section with relevant content.',
+    safe: false,
   };
 }
 
-function generateSpecify(issue: IssueInput, index: number): InstructionSuggestion {
+function generateSpecify(issue: IssueInput, index: number, ctx?: EditContext): InstructionSuggestion {
   const vagueText = issue.relatedLines?.[0] ?? '';
 
   // Map common vague phrases to specific alternatives
@@ -130,25 +245,45 @@ function generateSpecify(issue: IssueInput, index: number): InstructionSuggestio
   };
 
   const normalized = vagueText.toLowerCase().replace(/\.$/, '').trim();
-  const specific = specifics[normalized] ??
+  const known = specifics[normalized];
+  const specific = known ??
     `Replace with specific, actionable instructions. For example: "Use [tool/pattern]. All [artifacts] must [criteria]."`;
 
+  // Only known phrases have a concrete replacement; keep the line's indentation
+  const current = ctx ? lineAt(ctx, issue.location.lineStart) : undefined;
+  const edit = ctx && known && current !== undefined && current.trim() === vagueText
+    ? replaceLines(ctx, issue.location.lineStart, issue.location.lineStart, [`${current.match(/^\s*/)![0]}${known}`])
+    : undefined;
+
   return {
     issueIndex: index,
     type: 'specify',
     originalText: vagueText,
     suggestedText: specific,
     description: 'Replace vague instruction with specific, actionable guidance.',
+    edit,
+    // The replacement is a generic example, not the project's actual rule
+    safe: false,
   };
 }
 
-function generateRemove(issue: IssueInput, index: number): InstructionSuggestion {
+function generateRemove(issue: IssueInput, index: number, ctx?: EditContext): InstructionSuggestion {
+  // Mask the value in place; a line the redaction rules don't recognize is left for the user
+  let edit: TextEdit | undefined;
+  const current = ctx ? lineAt(ctx, issue.location.lineStart) : undefined;
+  if (ctx && current !== undefined) {
+    const { text, findings } = secretRedactor.redact(current, { mask: SECRET_MASK });
+    if (findings.length > 0) edit = replaceLines(ctx, issue.location.lineStart, issue.location.lineStart, [text]);
+  }
+
   return {
     issueIndex: index,
     type: 'remove',
     originalText: issue.relatedLines?.[0],
     suggestedText: 'Move secrets to .env file and use placeholder values in instructions:\n`API_KEY=your-api-key-here`',
     description: 'Remove secret from instruction file and use environment variables instead.',
+    edit,
+    safe: edit !== undefined,
   };
 }
 
@@ -158,6 +293,7 @@ function generateSplit(issue: IssueInput, index: number): InstructionSuggestion
     type: 'split',
     suggestedText: 'Split into separate files using @references:\n\n```\nCLAUDE.md          # Core rules and overview\n@.claude/rules/    # Detailed rules by category\n@.claude/patterns/ # Code patterns and examples\n```\n\nKeep the main file under 200 lines with high-level guidance, and reference detailed rules.',
     description: 'Split excessive file into focused @referenced files to reduce context rot.',
+    safe: false,
   };
 }
 
@@ -167,6 +303,7 @@ function generateSplit(issue: IssueInput, index: number): InstructionSuggestion
 
 export function generateSuggestions(input: SuggestionInput): InstructionSuggestion[] {
   const suggestions: InstructionSuggestion[] = [];
+  const ctx = input.lines ? createEditContext(input.lines, input.sections ?? []) : undefined;
 
   for (let i = 0; i < input.issues.length; i++) {
     const issue = input.issues[i];
@@ -176,19 +313,19 @@ export function generateSuggestions(input: SuggestionInput): InstructionSuggesti
 
     switch (suggestionType) {
       case 'merge':
-        suggestions.push(generateMerge(issue, i));
+        suggestions.push(generateMerge(issue, i, ctx));
         break;
       case 'resolve':
-        suggestions.push(generateResolve(issue, i));
+        suggestions.push(generateResolve(issue, i, ctx));
         break;
       case 'add-section':
-        suggestions.push(generateAddSection(issue, i));
+        suggestions.push(generateAddSection(issue, i, ctx));
         break;
       case 'specify':
-        suggestions.push(generateSpecify(issue, i));
+        suggestions.push(generateSpecify(issue, i, ctx));
         break;
       case 'remove':
-        suggestions.push(generateRemove(issue, i));
+        suggestions.push(generateRemove(issue, i, ctx));
         break;
       case 'split':
         suggestions.push(generateSplit(issue, i));
@@ -0,0 +1,133 @@
+/**
+ * Tests for text-edits.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyTextEdits, renderUnifiedDiff, type TextEdit } from './text-edits.js';
+
+const CONTENT = ['# Title', '', 'one', 'two', 'three', 'four', 'five', ''].join('\n');
+
+function replace(line: number, original: string, replacement: string[]): TextEdit {
+  return { lineStart: line, lineEnd: line, original: [original], replacement };
+}
+
+describe('applyTextEdits', () => {
+  it('applies replacements, deletions and insertions against the original numbering', () => {
+    const result = applyTextEdits(CONTENT, [
+      replace(3, 'one', ['ONE']),
+      replace(5, 'three', []),
+      { lineStart: 7, lineEnd: 6, original: [], replacement: ['four and a half'] },
+    ]);
+
+    expect(result.applied).toEqual([0, 1, 2]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(['# Title', '', 'ONE', 'two', 'four', 'four and a half', 'five', ''].join('\n'));
+  });
+
+  it('appends at lineCount + 1', () => {
+    const result = applyTextEdits('a\nb', [{ lineStart: 3, lineEnd: 2, original: [], replacement: ['c'] }]);
+
+    expect(result.content).toBe('a\nb\nc');
+  });
+
+  it('keeps the first of two overlapping edits', () => {
+    const result = applyTextEdits(CONTENT, [
+      { lineStart: 3, lineEnd: 4, original: ['one', 'two'], replacement: ['one-two'] },
+      replace(4, 'two', ['TWO']),
+      { lineStart: 4, lineEnd: 3, original: [], replacement: ['inside'] },
+    ]);
+
+    expect(result.applied).toEqual([0]);
+    expect(result.conflicts).toEqual([
+      { index: 1, reason: 'overlap', conflictsWith: 0 },
+      { index: 2, reason: 'overlap', conflictsWith: 0 },
+    ]);
+    expect(result.content).toContain('one-two\nthree');
+  });
+
+  it('allows an insertion right before a replaced range', () => {
+    const result = applyTextEdits(CONTENT, [
+      replace(3, 'one', ['ONE']),
+      { lineStart: 3, lineEnd: 2, original: [], replacement: ['zero'] },
+    ]);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toContain('\nzero\nONE\ntwo');
+  });
+
+  it('rejects edits whose original text no longer matches', () => {
+    const result = applyTextEdits(CONTENT, [replace(3, 'uno', ['ONE'])]);
+
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts).toEqual([{ index: 0, reason: 'stale' }]);
+    expect(result.content).toBe(CONTENT);
+  });
+
+  it('rejects ranges outside the file', () => {
+    const result = applyTextEdits('a', [
+      replace(0, 'a', []),
+      { lineStart: 1, lineEnd: 3, original: ['a'], replacement: [] },
+    ]);
+
+    expect(result.conflicts.map(c => c.reason)).toEqual(['out-of-range', 'out-of-range']);
+  });
+});
+
+describe('renderUnifiedDiff', () => {
+  it('renders one hunk with context', () => {
+    expect(renderUnifiedDiff(CONTENT, [replace(5, 'three', ['THREE'])], { path: 'CLAUDE.md', context: 1 })).toBe([
+      '--- a/CLAUDE.md',
+      '+++ b/CLAUDE.md',
+      '@@ -4,3 +4,3 @@',
+      ' two',
+      '-three',
+      '+THREE',
+      ' four',
+      '',
+    ].join('\n'));
+  });
+
+  it('merges nearby edits and offsets later hunks', () => {
+    const content = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const diff = renderUnifiedDiff(content, [
+      { lineStart: 2, lineEnd: 1, original: [], replacement: ['new a', 'new b'] },
+      replace(4, 'line 4', []),
+      replace(15, 'line 15', ['LINE 15']),
+    ], { context: 1 });
+
+    expect(diff.split('\n').filter(l => l.startsWith('@@'))).toEqual([
+      '@@ -1,5 +1,6 @@',
+      '@@ -14,3 +15,3 @@',
+    ]);
+  });
+
+  it('uses the line before an empty range in the header', () => {
+    const diff = renderUnifiedDiff('', [{ lineStart: 1, lineEnd: 1, original: [''], replacement: ['# Title'] }], { context: 0 });
+
+    expect(diff).toContain('@@ -1,1 +1,1 @@\n-\n+# Title');
+    expect(renderUnifiedDiff('a', [{ lineStart: 2, lineEnd: 1, original: [], replacement: ['b'] }], { context: 0 }))
+      .toContain('@@ -1,0 +2,1 @@\n+b');
+  });
+
+  it('never puts a leading slash or drive letter in the header path', () => {
+    const edit = [replace(5, 'three', ['THREE'])];
+    const header = (options: { path: string; root?: string }) =>
+      renderUnifiedDiff(CONTENT, edit, options).split('\n').slice(0, 2);
+
+    expect(header({ path: '/home/dev/app/CLAUDE.md' })).toEqual(['--- a/home/dev/app/CLAUDE.md', '+++ b/home/dev/app/CLAUDE.md']);
+    expect(header({ path: 'C:\\work\\app\\CLAUDE.md' })).toEqual(['--- a/work/app/CLAUDE.md', '+++ b/work/app/CLAUDE.md']);
+  });
+
+  it('shows absolute paths relative to the root', () => {
+    const edit = [replace(5, 'three', ['THREE'])];
+
+    expect(renderUnifiedDiff(CONTENT, edit, { path: '/home/dev/app/docs/CLAUDE.md', root: '/home/dev/app' }))
+      .toMatch(/^--- a\/docs\/CLAUDE\.md\n\+\+\+ b\/docs\/CLAUDE\.md\n/);
+    expect(renderUnifiedDiff(CONTENT, edit, { path: '/etc/CLAUDE.md', root: '/home/dev/app' }))
+      .toMatch(/^--- a\/etc\/CLAUDE\.md\n/);
+  });
+
+  it('returns an empty string without edits', () => {
+    expect(renderUnifiedDiff(CONTENT, [])).toBe('');
+  });
+});
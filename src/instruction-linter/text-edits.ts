@@ -0,0 +1,220 @@
+/**
+ * Text Edits
+ *
+ * Line-range edits carried by InstructionSuggestions:
+ *   applyTextEdits:     batch apply with conflict detection (overlap, stale file)
+ *   renderUnifiedDiff:  unified-diff preview of a set of edits
+ *
+ * Line numbers are 1-based and match `content.split('\n')`, the same
+ * numbering the parser and issue detector use.
+ */
+
+import path from 'node:path';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TextEdit {
+  /** First replaced line; for an insertion, the line the text goes before (lineCount + 1 appends) */
+  lineStart: number;
+  /** Last replaced line (inclusive); lineStart - 1 for a pure insertion */
+  lineEnd: number;
+  /** Lines lineStart..lineEnd as they were analyzed — a mismatch means the file changed */
+  original: string[];
+  /** Lines that take their place (empty deletes the range) */
+  replacement: string[];
+}
+
+export type EditConflictReason = 'overlap' | 'stale' | 'out-of-range';
+
+export interface EditConflict {
+  /** Index into the edits passed in */
+  index: number;
+  reason: EditConflictReason;
+  /** For overlaps, the already accepted edit it collides with */
+  conflictsWith?: number;
+}
+
+export interface EditApplyResult {
+  content: string;
+  /** Indexes of the edits that were applied, in input order */
+  applied: number[];
+  conflicts: EditConflict[];
+}
+
+export interface DiffOptions {
+  /** Shown in the ---/+++ header */
+  path?: string;
+  /** Absolute header paths are shown relative to this directory (e.g. the project root) */
+  root?: string;
+  /** Unchanged lines around each change */
+  context?: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_DIFF_CONTEXT = 3;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isInsertion(edit: TextEdit): boolean {
+  return edit.lineEnd === edit.lineStart - 1;
+}
+
+function rangesOverlap(a: TextEdit, b: TextEdit): boolean {
+  // Two insertions at the same spot have no defined order
+  if (isInsertion(a) && isInsertion(b)) return a.lineStart === b.lineStart;
+  // An insertion only collides with a range it would land inside
+  if (isInsertion(a)) return a.lineStart > b.lineStart && a.lineStart <= b.lineEnd;
+  if (isInsertion(b)) return b.lineStart > a.lineStart && b.lineStart <= a.lineEnd;
+  return Math.max(a.lineStart, b.lineStart) <= Math.min(a.lineEnd, b.lineEnd);
+}
+
+function validate(lines: string[], edit: TextEdit): EditConflictReason | null {
+  if (
+    !Number.isInteger(edit.lineStart) || !Number.isInteger(edit.lineEnd) ||
+    edit.lineStart < 1 || edit.lineStart > lines.length + 1 ||
+    edit.lineEnd < edit.lineStart - 1 || edit.lineEnd > lines.length
+  ) {
+    return 'out-of-range';
+  }
+
+  const current = lines.slice(edit.lineStart - 1, edit.lineEnd);
+  if (current.length !== edit.original.length || current.some((line, i) => line !== edit.original[i])) {
+    return 'stale';
+  }
+  return null;
+}
+
+/** Bottom-up order so earlier splices don't shift later ones; a range goes before an insertion at its start */
+function byPositionDesc(a: TextEdit, b: TextEdit): number {
+  return b.lineStart - a.lineStart || b.lineEnd - a.lineEnd;
+}
+
+// =============================================================================
+// Apply
+// =============================================================================
+
+/**
+ * Apply edits to content. Edits are accepted in input order; one that
+ * overlaps an accepted edit, or whose `original` no longer matches the
+ * content, is reported as a conflict and skipped.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): EditApplyResult {
+  const lines = content.split('\n');
+  const accepted: Array<{ index: number; edit: TextEdit }> = [];
+  const conflicts: EditConflict[] = [];
+
+  edits.forEach((edit, index) => {
+    const invalid = validate(lines, edit);
+    if (invalid) {
+      conflicts.push({ index, reason: invalid });
+      return;
+    }
+    const clash = accepted.find(a => rangesOverlap(a.edit, edit));
+    if (clash) {
+      conflicts.push({ index, reason: 'overlap', conflictsWith: clash.index });
+      return;
+    }
+    accepted.push({ index, edit });
+  });
+
+  const result = [...lines];
+  for (const { edit } of [...accepted].sort((a, b) => byPositionDesc(a.edit, b.edit))) {
+    result.splice(edit.lineStart - 1, edit.lineEnd - edit.lineStart + 1, ...edit.replacement);
+  }
+
+  return {
+    content: result.join('\n'),
+    applied: accepted.map(a => a.index).sort((a, b) => a - b),
+    conflicts,
+  };
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+function hunkRange(start: number, count: number): string {
+  // An empty range points at the line before it
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/** `a/`/`b/` header path: relative to `root` when inside it, never with a leading slash or drive letter */
+function headerPath(filePath: string, root?: string): string {
+  let shown = filePath;
+  if (root && path.isAbsolute(filePath)) {
+    const relative = path.relative(root, filePath);
+    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) shown = relative;
+  }
+  return shown.replace(/\\/g, '/').replace(/^[A-Za-z]:/, '').replace(/^\/+/, '');
+}
+
+/**
+ * Render edits as a unified diff against `content`.
+ * Pass only edits that apply cleanly (e.g. the `applied` set from applyTextEdits).
+ */
+export function renderUnifiedDiff(content: string, edits: TextEdit[], options: DiffOptions = {}): string {
+  if (edits.length === 0) return '';
+
+  const context = options.context ?? DEFAULT_DIFF_CONTEXT;
+  const lines = content.split('\n');
+  // A trailing newline is not a line of its own
+  const lineCount = content.endsWith('\n') ? lines.length - 1 : lines.length;
+  const sorted = [...edits].sort((a, b) => a.lineStart - b.lineStart || a.lineEnd - b.lineEnd);
+
+  // Group edits whose context windows touch
+  const groups: TextEdit[][] = [];
+  let groupEnd = -Infinity;
+  for (const edit of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && edit.lineStart - context <= groupEnd + context + 1) {
+      last.push(edit);
+    } else {
+      groups.push([edit]);
+    }
+    groupEnd = Math.max(groupEnd, edit.lineEnd, edit.lineStart - 1);
+  }
+
+  const header = headerPath(options.path ?? 'file', options.root);
+  const out: string[] = [`--- a/${header}`, `+++ b/${header}`];
+  let delta = 0;
+
+  for (const group of groups) {
+    const oldStart = Math.max(1, group[0].lineStart - context);
+    const lastChanged = Math.max(...group.map(e => Math.max(e.lineEnd, e.lineStart - 1)));
+    const oldEnd = Math.min(lineCount, lastChanged + context);
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let cursor = oldStart;
+    for (const edit of group) {
+      for (; cursor < edit.lineStart; cursor++) {
+        body.push(` ${lines[cursor - 1]}`);
+        oldCount++;
+        newCount++;
+      }
+      for (const line of edit.original) body.push(`-${line}`);
+      for (const line of edit.replacement) body.push(`+${line}`);
+      oldCount += edit.original.length;
+      newCount += edit.replacement.length;
+      cursor = Math.max(cursor, edit.lineEnd + 1);
+    }
+    for (; cursor <= oldEnd; cursor++) {
+      body.push(` ${lines[cursor - 1]}`);
+      oldCount++;
+      newCount++;
+    }
+
+    out.push(`@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(oldStart + delta, newCount)} @@`, ...body);
+    delta += newCount - oldCount;
+  }
+
+  return `${out.join('\n')}\n`;
+}
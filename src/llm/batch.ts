@@ -0,0 +1,150 @@
+/**
+ * LLM 배치 API
+ * 대량 요청을 백엔드 배치 작업으로 제출하고 결과를 나중에 수거 (Anthropic Message Batches)
+ *
+ * 배치는 비동기로 처리되므로 제출 후 배치 id 를 저장해 두면 프로세스를 다시 시작해도 이어서 수거 가능
+ * 요청은 가린 뒤 제출 (결과는 다른 프로세스에서 수거할 수 있어 자리표시자를 복원하지 않음)
+ */
+
+import { redactLLMRequest, withLLMRetry } from './client.js';
+import { fetchLLMApi, anthropicHeaders, anthropicMessageParams, anthropicText } from './providers.js';
+import { LLMError, type LLMCompletionRequest, type LLMConfig, type LLMProviderId } from './types.js';
+
+export interface LLMBatchRequest {
+  /** 요청 식별자 (영문/숫자/-/_ 64자 이내) */
+  customId: string;
+  request: LLMCompletionRequest;
+}
+
+export interface LLMBatchInfo {
+  id: string;
+  /** ended: 모든 요청 처리 완료 (성공/실패 무관) */
+  status: 'in_progress' | 'canceling' | 'ended';
+  counts: { processing: number; succeeded: number; errored: number; canceled: number; expired: number };
+}
+
+export interface LLMBatchResult {
+  customId: string;
+  status: 'succeeded' | 'errored' | 'canceled' | 'expired';
+  text?: string;
+  error?: string;
+}
+
+export interface LLMBatchClient {
+  readonly provider: LLMProviderId;
+  readonly model: string;
+  submit(requests: LLMBatchRequest[]): Promise<LLMBatchInfo>;
+  retrieve(batchId: string): Promise<LLMBatchInfo>;
+  results(batchId: string): Promise<LLMBatchResult[]>;
+}
+
+const BATCH_PROVIDERS: readonly LLMProviderId[] = ['anthropic'];
+
+/**
+ * 배치 API 지원 여부
+ */
+export function supportsLLMBatch(provider: LLMProviderId): boolean {
+  return BATCH_PROVIDERS.includes(provider);
+}
+
+interface AnthropicBatch {
+  id: string;
+  processing_status: LLMBatchInfo['status'];
+  request_counts?: Partial<LLMBatchInfo['counts']>;
+  results_url?: string | null;
+}
+
+interface AnthropicBatchLine {
+  custom_id: string;
+  result: {
+    type: LLMBatchResult['status'];
+    message?: { content?: Array<{ type?: string; text?: string }> };
+    error?: { type?: string; message?: string; error?: { message?: string } };
+  };
+}
+
+function toBatchInfo(batch: AnthropicBatch): LLMBatchInfo {
+  return {
+    id: batch.id,
+    status: batch.processing_status,
+    counts: {
+      processing: batch.request_counts?.processing ?? 0,
+      succeeded: batch.request_counts?.succeeded ?? 0,
+      errored: batch.request_counts?.errored ?? 0,
+      canceled: batch.request_counts?.canceled ?? 0,
+      expired: batch.request_counts?.expired ?? 0,
+    },
+  };
+}
+
+function anthropicBatchClient(config: LLMConfig): LLMBatchClient {
+  const root = `${config.baseUrl}/v1/messages/batches`;
+  const headers = anthropicHeaders(config);
+
+  const getBatch = (batchId: string) =>
+    withLLMRetry(config, async (signal) => {
+      const response = await fetchLLMApi('anthropic', `${root}/${encodeURIComponent(batchId)}`, { method: 'GET', headers }, signal);
+      return (await response.json()) as AnthropicBatch;
+    });
+
+  return {
+    provider: 'anthropic',
+    model: config.model,
+
+    async submit(requests) {
+      const body = {
+        requests: requests.map((r) => ({
+          custom_id: r.customId,
+          params: anthropicMessageParams(redactLLMRequest(r.request), config),
+        })),
+      };
+      // 중복 제출을 막기 위해 제출은 재시도하지 않음
+      return withLLMRetry({ ...config, maxRetries: 0 }, async (signal) => {
+        const response = await fetchLLMApi('anthropic', root, { method: 'POST', headers, body }, signal);
+        return toBatchInfo((await response.json()) as AnthropicBatch);
+      });
+    },
+
+    async retrieve(batchId) {
+      return toBatchInfo(await getBatch(batchId));
+    },
+
+    async results(batchId) {
+      const batch = await getBatch(batchId);
+      if (batch.processing_status !== 'ended') {
+        throw new LLMError(`Batch ${batchId} has not ended (${batch.processing_status})`, 'anthropic');
+      }
+
+      const url = batch.results_url || `${root}/${encodeURIComponent(batchId)}/results`;
+      const body = await withLLMRetry(config, async (signal) => {
+        const response = await fetchLLMApi('anthropic', url, { method: 'GET', headers }, signal);
+        return response.text();
+      });
+
+      return body
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+          const { custom_id, result } = JSON.parse(line) as AnthropicBatchLine;
+          return result.type === 'succeeded'
+            ? { customId: custom_id, status: 'succeeded' as const, text: anthropicText(result.message ?? {}) }
+            : {
+                customId: custom_id,
+                status: result.type,
+                error: result.error?.error?.message ?? result.error?.message ?? result.type,
+              };
+        });
+    },
+  };
+}
+
+/**
+ * 설정으로 배치 클라이언트 생성 (배치 미지원 백엔드는 LLMError)
+ */
+export function createLLMBatchClient(config: LLMConfig): LLMBatchClient {
+  if (config.provider === 'anthropic') return anthropicBatchClient(config);
+  throw new LLMError(
+    `${config.provider} does not support batch jobs (supported: ${BATCH_PROVIDERS.join(', ')})`,
+    config.provider
+  );
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+    getCachedResponse,
+    setCachedResponse,
+    withLLMCache,
+    clearLLMCache,
+    pruneLLMCache,
+    getCacheStats,
+    closeLLMCache,
+    type LLMCacheKey,
+} from './cache.js';
+import { resetLLMConfigCache } from './config.js';
+
+function key(overrides: Partial<LLMCacheKey> = {}): LLMCacheKey {
+    return {
+        task: 'judge',
+        provider: 'anthropic',
+        model: 'claude-3-haiku-20240307',
+        templateVersion: 'v1',
+        input: 'fix the login bug',
+        ...overrides,
+    };
+}
+
+describe('LLM response cache', () => {
+    let dir: string;
+
+    function writeConfig(config: unknown): void {
+        writeFileSync(join(dir, 'llm.json'), JSON.stringify(config));
+        resetLLMConfigCache();
+    }
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'pe-llm-cache-'));
+        vi.stubEnv('PE_LLM_CACHE_PATH', join(dir, 'llm-cache.db'));
+        vi.stubEnv('PE_LLM_CONFIG', join(dir, 'llm.json'));
+        vi.stubEnv('PE_LLM_CACHE', '');
+        resetLLMConfigCache();
+    });
+
+    afterEach(() => {
+        closeLLMCache();
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+        resetLLMConfigCache();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('stores and returns responses across connections', () => {
+        setCachedResponse(key(), { score: 0.8 });
+        closeLLMCache();
+
+        expect(getCachedResponse(key())).toEqual({ score: 0.8 });
+    });
+
+    it('never writes secrets to disk', () => {
+        const secret = 'sk-ant-REDACTED';
+        setCachedResponse(key(), { rationale: `quotes ${secret}` });
+        closeLLMCache();
+
+        expect(readFileSync(join(dir, 'llm-cache.db')).includes(secret)).toBe(false);
+        expect(getCachedResponse<{ rationale: string }>(key())!.rationale).toMatch(/^quotes \[REDACTED_[A-Z_]+_1\]$/);
+    });
+
+    it('keys entries by input, model, provider, task and template version', () => {
+        setCachedResponse(key(), 'cached');
+
+        expect(getCachedResponse(key())).toBe('cached');
+        expect(getCachedResponse(key({ input: 'other prompt' }))).toBeNull();
+        expect(getCachedResponse(key({ model: 'claude-3-5-haiku-latest' }))).toBeNull();
+        expect(getCachedResponse(key({ provider: 'openai-compatible' }))).toBeNull();
+        expect(getCachedResponse(key({ task: 'classify' }))).toBeNull();
+        expect(getCachedResponse(key({ templateVersion: 'v2' }))).toBeNull();
+    });
+
+    it('ignores entries older than the TTL', () => {
+        vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+        setCachedResponse(key(), 'cached');
+
+        vi.setSystemTime(new Date('2026-01-01T02:00:00Z'));
+        expect(getCachedResponse(key(), 3 * 60 * 60 * 1000)).toBe('cached');
+        expect(getCachedResponse(key(), 60 * 60 * 1000)).toBeNull();
+
+        vi.setSystemTime(new Date('2026-01-09T00:00:00Z'));
+        expect(getCachedResponse(key())).toBeNull(); // default 7 days
+    });
+
+    it('counts hits and misses per task', () => {
+        setCachedResponse(key(), 'cached');
+        getCachedResponse(key());
+        getCachedResponse(key());
+        getCachedResponse(key({ input: 'missing' }));
+        getCachedResponse(key({ task: 'classify' }));
+        closeLLMCache();
+
+        const stats = getCacheStats();
+        expect(stats.entries).toBe(1);
+        expect(stats.sizeBytes).toBe(Buffer.byteLength('"cached"'));
+        expect(stats.byTask.judge).toMatchObject({ entries: 1, hits: 2, misses: 1 });
+        expect(stats.byTask.classify).toMatchObject({ entries: 0, hits: 0, misses: 1 });
+        expect(stats.hits).toBe(2);
+        expect(stats.misses).toBe(2);
+        expect(stats.hitRate).toBe(0.5);
+        expect(stats.oldestEntry).not.toBeNull();
+    });
+
+    it('does not create the cache file just to report stats', () => {
+        const stats = getCacheStats();
+
+        expect(stats.entries).toBe(0);
+        expect(existsSync(join(dir, 'llm-cache.db'))).toBe(false);
+    });
+
+    it('computes once and reuses the result with withLLMCache', async () => {
+        const compute = vi.fn().mockResolvedValue({ intent: 'command' });
+
+        expect(await withLLMCache(key(), compute)).toEqual({ value: { intent: 'command' }, cached: false });
+        expect(await withLLMCache(key(), compute)).toEqual({ value: { intent: 'command' }, cached: true });
+        expect(compute).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not store null results', async () => {
+        const compute = vi.fn().mockResolvedValue(null);
+
+        await withLLMCache(key(), compute);
+        await withLLMCache(key(), compute);
+
+        expect(compute).toHaveBeenCalledTimes(2);
+        expect(getCacheStats().entries).toBe(0);
+    });
+
+    it('evicts the least recently used entries over maxEntries', () => {
+        writeConfig({ cache: { maxEntries: 2 } });
+        vi.useFakeTimers({ now: 1_000 });
+
+        setCachedResponse(key({ input: 'a' }), 'a');
+        vi.setSystemTime(2_000);
+        setCachedResponse(key({ input: 'b' }), 'b');
+        vi.setSystemTime(3_000);
+        getCachedResponse(key({ input: 'a' })); // a is now more recent than b
+        vi.setSystemTime(4_000);
+        setCachedResponse(key({ input: 'c' }), 'c');
+
+        expect(getCachedResponse(key({ input: 'a' }))).toBe('a');
+        expect(getCachedResponse(key({ input: 'b' }))).toBeNull();
+        expect(getCachedResponse(key({ input: 'c' }))).toBe('c');
+    });
+
+    it('prunes expired entries', () => {
+        writeConfig({ cache: { ttlMs: 60_000 } });
+        vi.useFakeTimers({ now: 0 });
+        setCachedResponse(key({ input: 'old' }), 'old');
+        vi.setSystemTime(100_000);
+        setCachedResponse(key({ input: 'new' }), 'new');
+
+        expect(pruneLLMCache()).toEqual({ expired: 1, evicted: 0 });
+        expect(getCacheStats().entries).toBe(1);
+    });
+
+    it('clears one task or everything, resetting hit statistics', () => {
+        setCachedResponse(key(), 'judge');
+        setCachedResponse(key({ task: 'classify' }), 'classify');
+        getCachedResponse(key());
+
+        expect(clearLLMCache('judge')).toBe(1);
+        expect(getCacheStats().byTask.judge).toMatchObject({ entries: 0, hits: 0, misses: 0 });
+        expect(getCacheStats().byTask.classify.entries).toBe(1);
+
+        expect(clearLLMCache()).toBe(1);
+        expect(getCacheStats().entries).toBe(0);
+    });
+
+    it('can be disabled with PE_LLM_CACHE=off', async () => {
+        vi.stubEnv('PE_LLM_CACHE', 'off');
+        const compute = vi.fn().mockResolvedValue('fresh');
+
+        await withLLMCache(key(), compute);
+        await withLLMCache(key(), compute);
+
+        expect(compute).toHaveBeenCalledTimes(2);
+        expect(getCacheStats().enabled).toBe(false);
+        expect(existsSync(join(dir, 'llm-cache.db'))).toBe(false);
+    });
+});
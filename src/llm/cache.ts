@@ -0,0 +1,354 @@
+/**
+ * LLM 응답 캐시
+ * CLI 실행 간에 유지되는 SQLite 캐시 (~/.prompt-evolution/llm-cache.db)
+ *
+ * 키: (작업, 프롬프트 해시, 백엔드, 모델, 프롬프트 템플릿 버전)
+ * - 템플릿(시스템 프롬프트)을 바꾸면 해당 모듈의 템플릿 버전을 올려 이전 응답을 무효화
+ * - TTL 이 지난 항목은 조회 시 무시, prune 에서 삭제
+ * - 항목 수 / 용량 한도를 넘으면 가장 오래 사용하지 않은 항목부터 삭제
+ *
+ * 분석 DB(data.db)와 분리해 캐시를 지워도 분석 데이터에는 영향 없음
+ * 저장하는 값의 문자열은 가려서 기록 (비밀값 원문은 디스크에 남기지 않음)
+ */
+
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import { mkdirSync, existsSync } from 'fs';
+import { getRedactor, redactStrings } from '../redaction/index.js';
+import { loadLLMConfigFile } from './config.js';
+import { LLM_TASKS, type LLMProviderId, type LLMTask } from './types.js';
+
+/**
+ * 캐시 키 구성 요소
+ */
+export interface LLMCacheKey {
+  task: LLMTask;
+  provider: LLMProviderId;
+  model: string;
+  /** 프롬프트 템플릿 버전 (템플릿 변경 시 올림) */
+  templateVersion: string;
+  /** 응답을 결정하는 입력 (프롬프트, 컨텍스트 등) */
+  input: string;
+}
+
+export interface LLMCacheSettings {
+  enabled: boolean;
+  path: string;
+  ttlMs: number;
+  maxEntries: number;
+  maxSizeBytes: number;
+}
+
+export interface LLMCacheTaskStats {
+  entries: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+}
+
+export interface LLMCacheStats extends LLMCacheTaskStats {
+  enabled: boolean;
+  path: string;
+  hitRate: number;
+  oldestEntry: number | null;
+  newestEntry: number | null;
+  byTask: Record<LLMTask, LLMCacheTaskStats>;
+}
+
+export interface LLMCachePruneResult {
+  expired: number;
+  evicted: number;
+}
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 10_000;
+const DEFAULT_MAX_SIZE_MB = 50;
+
+// 스키마가 바뀌면 올림 (캐시이므로 이전 테이블은 버림)
+const CACHE_SCHEMA_VERSION = 1;
+
+const CACHE_SCHEMA = `
+CREATE TABLE IF NOT EXISTS llm_cache (
+  task TEXT NOT NULL,
+  prompt_hash TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  template_version TEXT NOT NULL,
+  value TEXT NOT NULL,            -- JSON
+  size_bytes INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,    -- epoch ms
+  last_used_at INTEGER NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (task, prompt_hash, provider, model, template_version)
+);
+CREATE INDEX IF NOT EXISTS idx_llm_cache_last_used ON llm_cache(last_used_at);
+CREATE TABLE IF NOT EXISTS llm_cache_stats (
+  task TEXT PRIMARY KEY,
+  hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0
+);
+`;
+
+/**
+ * 캐시 DB 경로 (PE_LLM_CACHE_PATH 로 변경 가능)
+ */
+export function getLLMCachePath(): string {
+  return process.env.PE_LLM_CACHE_PATH || join(homedir(), '.prompt-evolution', 'llm-cache.db');
+}
+
+/**
+ * 캐시 설정 (llm.json 의 cache 항목, PE_LLM_CACHE=off 로 끄기)
+ */
+export function getLLMCacheSettings(): LLMCacheSettings {
+  const file = loadLLMConfigFile().cache ?? {};
+  const envDisabled = ['0', 'off', 'false'].includes((process.env.PE_LLM_CACHE ?? '').toLowerCase());
+
+  return {
+    enabled: !envDisabled && file.enabled !== false,
+    path: getLLMCachePath(),
+    ttlMs: file.ttlMs ?? DEFAULT_TTL_MS,
+    maxEntries: file.maxEntries ?? DEFAULT_MAX_ENTRIES,
+    maxSizeBytes: Math.round((file.maxSizeMb ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024),
+  };
+}
+
+let cacheDb: { path: string; db: Database.Database } | null = null;
+let openFailedPath: string | null = null;
+
+/**
+ * 캐시 DB 열기 (실패하면 경고 후 캐시 없이 동작)
+ */
+function openCache(settings: LLMCacheSettings): Database.Database | null {
+  if (!settings.enabled) return null;
+  if (cacheDb && cacheDb.path === settings.path) return cacheDb.db;
+  if (openFailedPath === settings.path) return null;
+  closeLLMCache();
+
+  try {
+    const dir = dirname(settings.path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+    const db = new Database(settings.path);
+    db.pragma('journal_mode = WAL');
+    if (db.pragma('user_version', { simple: true }) !== CACHE_SCHEMA_VERSION) {
+      db.exec('DROP TABLE IF EXISTS llm_cache; DROP TABLE IF EXISTS llm_cache_stats;');
+      db.pragma(`user_version = ${CACHE_SCHEMA_VERSION}`);
+    }
+    db.exec(CACHE_SCHEMA);
+
+    cacheDb = { path: settings.path, db };
+    return db;
+  } catch (err) {
+    console.warn(`[LLM] Cache disabled, failed to open ${settings.path}:`, (err as Error).message);
+    openFailedPath = settings.path;
+    return null;
+  }
+}
+
+/**
+ * 캐시 DB 닫기 (테스트, 경로 변경 후)
+ */
+export function closeLLMCache(): void {
+  cacheDb?.db.close();
+  cacheDb = null;
+  openFailedPath = null;
+}
+
+function hashInput(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex');
+}
+
+function keyParams(key: LLMCacheKey): unknown[] {
+  return [key.task, hashInput(key.input), key.provider, key.model, key.templateVersion];
+}
+
+const KEY_WHERE = 'task = ? AND prompt_hash = ? AND provider = ? AND model = ? AND template_version = ?';
+
+function recordLookup(db: Database.Database, task: LLMTask, hit: boolean): void {
+  db.prepare(`
+    INSERT INTO llm_cache_stats (task, hits, misses) VALUES (?, ?, ?)
+    ON CONFLICT(task) DO UPDATE SET hits = hits + excluded.hits, misses = misses + excluded.misses
+  `).run(task, hit ? 1 : 0, hit ? 0 : 1);
+}
+
+/**
+ * 캐시된 응답 조회 (TTL 이 지났으면 null)
+ */
+export function getCachedResponse<T>(key: LLMCacheKey, ttlMs?: number): T | null {
+  const settings = getLLMCacheSettings();
+  const db = openCache(settings);
+  if (!db) return null;
+
+  try {
+    const row = db
+      .prepare(`SELECT value, created_at FROM llm_cache WHERE ${KEY_WHERE}`)
+      .get(...keyParams(key)) as { value: string; created_at: number } | undefined;
+
+    const now = Date.now();
+    const hit = !!row && now - row.created_at <= (ttlMs ?? settings.ttlMs);
+    recordLookup(db, key.task, hit);
+    if (!hit) return null;
+
+    db.prepare(`UPDATE llm_cache SET last_used_at = ?, hits = hits + 1 WHERE ${KEY_WHERE}`).run(now, ...keyParams(key));
+    return JSON.parse(row.value) as T;
+  } catch (err) {
+    console.warn('[LLM] Cache read failed:', (err as Error).message);
+    return null;
+  }
+}
+
+/**
+ * 응답 저장 (문자열은 가려서 저장, 한도를 넘으면 오래 사용하지 않은 항목 삭제)
+ * 복원이 필요한 호출자는 가린 응답을 넘기고 읽은 뒤에 복원
+ */
+export function setCachedResponse<T>(key: LLMCacheKey, value: T): void {
+  const settings = getLLMCacheSettings();
+  const db = openCache(settings);
+  if (!db) return;
+
+  try {
+    const json = JSON.stringify(redactStrings(value, getRedactor()));
+    const now = Date.now();
+    db.prepare(`
+      INSERT OR REPLACE INTO llm_cache
+        (task, prompt_hash, provider, model, template_version, value, size_bytes, created_at, last_used_at, hits)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0)
+    `).run(...keyParams(key), json, Buffer.byteLength(json), now, now);
+
+    evictOverLimit(db, settings);
+  } catch (err) {
+    console.warn('[LLM] Cache write failed:', (err as Error).message);
+  }
+}
+
+/**
+ * 캐시 우선 조회, 없으면 계산 후 저장 (null 결과는 저장하지 않음)
+ */
+export async function withLLMCache<T>(
+  key: LLMCacheKey,
+  compute: () => Promise<T | null>,
+  ttlMs?: number
+): Promise<{ value: T | null; cached: boolean }> {
+  const cached = getCachedResponse<T>(key, ttlMs);
+  if (cached !== null) return { value: cached, cached: true };
+
+  const value = await compute();
+  if (value !== null) setCachedResponse(key, value);
+  return { value, cached: false };
+}
+
+function evictOverLimit(db: Database.Database, settings: LLMCacheSettings): number {
+  const totals = db
+    .prepare('SELECT COUNT(*) as entries, COALESCE(SUM(size_bytes), 0) as size FROM llm_cache')
+    .get() as { entries: number; size: number };
+  if (totals.entries <= settings.maxEntries && totals.size <= settings.maxSizeBytes) return 0;
+
+  const rows = db
+    .prepare('SELECT rowid, size_bytes FROM llm_cache ORDER BY last_used_at ASC')
+    .all() as Array<{ rowid: number; size_bytes: number }>;
+
+  let { entries, size } = totals;
+  const remove = db.prepare('DELETE FROM llm_cache WHERE rowid = ?');
+  let evicted = 0;
+  db.transaction(() => {
+    for (const row of rows) {
+      if (entries <= settings.maxEntries && size <= settings.maxSizeBytes) break;
+      remove.run(row.rowid);
+      entries--;
+      size -= row.size_bytes;
+      evicted++;
+    }
+  })();
+  return evicted;
+}
+
+/**
+ * 만료 항목 삭제 + 한도 초과분 삭제
+ */
+export function pruneLLMCache(now: number = Date.now()): LLMCachePruneResult {
+  const settings = getLLMCacheSettings();
+  const db = openCache(settings);
+  if (!db) return { expired: 0, evicted: 0 };
+
+  const expired = db.prepare('DELETE FROM llm_cache WHERE created_at < ?').run(now - settings.ttlMs).changes;
+  const evicted = evictOverLimit(db, settings);
+  db.exec('VACUUM');
+  return { expired, evicted };
+}
+
+/**
+ * 캐시 비우기 (작업 지정 시 해당 작업만), 적중 통계도 초기화
+ */
+export function clearLLMCache(task?: LLMTask): number {
+  const db = openCache(getLLMCacheSettings());
+  if (!db) return 0;
+
+  if (task) {
+    db.prepare('DELETE FROM llm_cache_stats WHERE task = ?').run(task);
+    return db.prepare('DELETE FROM llm_cache WHERE task = ?').run(task).changes;
+  }
+  db.exec('DELETE FROM llm_cache_stats');
+  return db.prepare('DELETE FROM llm_cache').run().changes;
+}
+
+/**
+ * 캐시 항목 수, 용량, 적중/실패 통계
+ */
+export function getCacheStats(): LLMCacheStats {
+  const settings = getLLMCacheSettings();
+  const empty = (): LLMCacheTaskStats => ({ entries: 0, sizeBytes: 0, hits: 0, misses: 0 });
+  const byTask = Object.fromEntries(LLM_TASKS.map((task) => [task, empty()])) as Record<LLMTask, LLMCacheTaskStats>;
+  const stats: LLMCacheStats = {
+    enabled: settings.enabled,
+    path: settings.path,
+    ...empty(),
+    hitRate: 0,
+    oldestEntry: null,
+    newestEntry: null,
+    byTask,
+  };
+
+  // 캐시를 한 번도 쓰지 않았으면 파일을 만들지 않음
+  if (!settings.enabled || (!cacheDb && !existsSync(settings.path))) return stats;
+  const db = openCache(settings);
+  if (!db) return stats;
+
+  const entryRows = db
+    .prepare(`
+      SELECT task, COUNT(*) as entries, SUM(size_bytes) as size, MIN(created_at) as oldest, MAX(created_at) as newest
+      FROM llm_cache GROUP BY task
+    `)
+    .all() as Array<{ task: string; entries: number; size: number; oldest: number; newest: number }>;
+  const statRows = db.prepare('SELECT task, hits, misses FROM llm_cache_stats').all() as Array<{
+    task: string;
+    hits: number;
+    misses: number;
+  }>;
+
+  for (const row of entryRows) {
+    const task = byTask[row.task as LLMTask];
+    if (!task) continue;
+    task.entries = row.entries;
+    task.sizeBytes = row.size;
+    stats.oldestEntry = stats.oldestEntry === null ? row.oldest : Math.min(stats.oldestEntry, row.oldest);
+    stats.newestEntry = stats.newestEntry === null ? row.newest : Math.max(stats.newestEntry, row.newest);
+  }
+  for (const row of statRows) {
+    const task = byTask[row.task as LLMTask];
+    if (!task) continue;
+    task.hits = row.hits;
+    task.misses = row.misses;
+  }
+
+  for (const task of Object.values(byTask)) {
+    stats.entries += task.entries;
+    stats.sizeBytes += task.sizeBytes;
+    stats.hits += task.hits;
+    stats.misses += task.misses;
+  }
+  const lookups = stats.hits + stats.misses;
+  stats.hitRate = lookups > 0 ? stats.hits / lookups : 0;
+  return stats;
+}
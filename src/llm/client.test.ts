@@ -0,0 +1,193 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createLLMProvider } from './client.js';
+import { LLMError, type LLMConfig } from './types.js';
+
+function config(overrides: Partial<LLMConfig>): LLMConfig {
+    return {
+        provider: 'openai-compatible',
+        model: 'llama3.1',
+        baseUrl: 'http://localhost:11434/v1',
+        timeoutMs: 5_000,
+        maxRetries: 0,
+        ...overrides,
+    };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const chatResponse = (content: string) => jsonResponse({ choices: [{ message: { content } }] });
+
+function lastRequest(fetchMock: ReturnType<typeof vi.fn>): { url: string; init: RequestInit; body: Record<string, unknown> } {
+    const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1] as [string, RequestInit];
+    return { url, init, body: JSON.parse(init.body as string) as Record<string, unknown> };
+}
+
+describe('createLLMProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    describe('request shape', () => {
+        it('calls an OpenAI-compatible server without auth and with the system message first', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(chatResponse('{"ok":true}'));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const result = await createLLMProvider(config({})).complete({
+                system: 'Be brief',
+                messages: [{ role: 'user', content: 'hi' }],
+                json: true,
+            });
+
+            const { url, init, body } = lastRequest(fetchMock);
+            expect(url).toBe('http://localhost:11434/v1/chat/completions');
+            expect(init.headers).not.toHaveProperty('Authorization');
+            expect(body.messages).toEqual([
+                { role: 'system', content: 'Be brief' },
+                { role: 'user', content: 'hi' },
+            ]);
+            expect(body.response_format).toEqual({ type: 'json_object' });
+            expect(result).toEqual({ text: '{"ok":true}', provider: 'openai-compatible', model: 'llama3.1' });
+        });
+
+        it('redacts secrets and PII before sending and restores them in the reply', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(chatResponse('Email [REDACTED_EMAIL_1] with key [REDACTED_API_KEY_1]'));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const result = await createLLMProvider(config({})).complete({
+                system: 'Never leak alice@corp.io',
+                messages: [{ role: 'user', content: 'Use sk-ant-REDACTED to email alice@corp.io' }],
+            });
+
+            const sent = JSON.stringify(lastRequest(fetchMock).body);
+            expect(sent).not.toContain('alice@corp.io');
+            expect(sent).not.toContain('sk-ant-api03');
+            expect(sent).toContain('Use [REDACTED_API_KEY_1] to email [REDACTED_EMAIL_1]');
+            expect(result.text).toBe('Email alice@corp.io with key sk-ant-REDACTED');
+        });
+
+        it('sends a bearer token to OpenAI', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(chatResponse('ok'));
+            vi.stubGlobal('fetch', fetchMock);
+
+            await createLLMProvider(
+                config({ provider: 'openai', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-test' })
+            ).complete({ messages: [{ role: 'user', content: 'hi' }] });
+
+            const { init, body } = lastRequest(fetchMock);
+            expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+            expect(body).not.toHaveProperty('response_format');
+        });
+
+        it('calls the Anthropic Messages API and joins text blocks', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(
+                jsonResponse({ content: [{ type: 'text', text: 'Hello ' }, { type: 'text', text: 'world' }] })
+            );
+            vi.stubGlobal('fetch', fetchMock);
+
+            const result = await createLLMProvider(
+                config({ provider: 'anthropic', model: 'claude-3-haiku-20240307', baseUrl: 'https://api.anthropic.com', apiKey: 'sk-ant' })
+            ).complete({ system: 'sys', messages: [{ role: 'user', content: 'hi' }], maxTokens: 100 });
+
+            const { url, init, body } = lastRequest(fetchMock);
+            expect(url).toBe('https://api.anthropic.com/v1/messages');
+            expect(init.headers).toMatchObject({ 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' });
+            expect(body).toMatchObject({ system: 'sys', max_tokens: 100 });
+            expect(result.text).toBe('Hello world');
+        });
+
+        it('maps roles and system instruction for Gemini', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(
+                jsonResponse({ candidates: [{ content: { parts: [{ text: '{}' }] } }] })
+            );
+            vi.stubGlobal('fetch', fetchMock);
+
+            const result = await createLLMProvider(
+                config({ provider: 'gemini', model: 'gemini-2.0-flash', baseUrl: 'https://example.test/v1beta', apiKey: 'g-key' })
+            ).complete({
+                system: 'sys',
+                messages: [{ role: 'user', content: 'a' }, { role: 'assistant', content: 'b' }],
+                json: true,
+            });
+
+            const { url, init, body } = lastRequest(fetchMock);
+            expect(url).toBe('https://example.test/v1beta/models/gemini-2.0-flash:generateContent');
+            expect(init.headers).toMatchObject({ 'x-goog-api-key': 'g-key' });
+            expect(body.systemInstruction).toEqual({ parts: [{ text: 'sys' }] });
+            expect((body.contents as Array<{ role: string }>).map((c) => c.role)).toEqual(['user', 'model']);
+            expect(body.generationConfig).toMatchObject({ responseMimeType: 'application/json' });
+            expect(result.text).toBe('{}');
+        });
+    });
+
+    describe('retries', () => {
+        it('retries server errors and then succeeds', async () => {
+            vi.useFakeTimers();
+            const fetchMock = vi.fn()
+                .mockResolvedValueOnce(jsonResponse({ error: 'overloaded' }, 529))
+                .mockResolvedValueOnce(new Response('rate limited', { status: 429 }))
+                .mockResolvedValueOnce(chatResponse('done'));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const pending = createLLMProvider(config({ maxRetries: 2 })).complete({
+                messages: [{ role: 'user', content: 'hi' }],
+            });
+            await vi.runAllTimersAsync();
+
+            await expect(pending).resolves.toMatchObject({ text: 'done' });
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+        });
+
+        it('does not retry client errors', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(new Response('bad request', { status: 400 }));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const error = await createLLMProvider(config({ maxRetries: 3 }))
+                .complete({ messages: [{ role: 'user', content: 'hi' }] })
+                .catch((err: unknown) => err);
+
+            expect(error).toBeInstanceOf(LLMError);
+            expect(error).toMatchObject({ status: 400, retryable: false, provider: 'openai-compatible' });
+            expect((error as LLMError).message).toContain('bad request');
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('gives up after maxRetries on connection failures', async () => {
+            vi.useFakeTimers();
+            const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const pending = createLLMProvider(config({ maxRetries: 1 }))
+                .complete({ messages: [{ role: 'user', content: 'hi' }] })
+                .catch((err: unknown) => err);
+            await vi.runAllTimersAsync();
+
+            const error = await pending;
+            expect(error).toMatchObject({ retryable: true });
+            expect((error as LLMError).message).toContain('fetch failed');
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('aborts a request that exceeds the timeout', async () => {
+            vi.useFakeTimers();
+            const fetchMock = vi.fn((_url: string, init: RequestInit) =>
+                new Promise<Response>((_resolve, reject) => {
+                    init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+                })
+            );
+            vi.stubGlobal('fetch', fetchMock);
+
+            const pending = createLLMProvider(config({ timeoutMs: 1_000 }))
+                .complete({ messages: [{ role: 'user', content: 'hi' }] })
+                .catch((err: unknown) => err);
+            await vi.advanceTimersByTimeAsync(1_000);
+
+            const error = await pending;
+            expect(error).toBeInstanceOf(LLMError);
+            expect((error as LLMError).message).toContain('timed out after 1000ms');
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * LLM 클라이언트
+ * 설정된 백엔드로 호출 + 시간 초과 + 재시도 (지수 백오프)
+ * 요청 텍스트는 보내기 전에 가리고 (redaction) 응답의 자리표시자는 원래 값으로 복원
+ */
+
+import { createRedactionVault, getRedactor, type RedactionVault } from '../redaction/index.js';
+import { resolveLLMConfig } from './config.js';
+import { LLM_ADAPTERS } from './providers.js';
+import {
+  LLMError,
+  type LLMCompletionRequest,
+  type LLMConfig,
+  type LLMConfigOverrides,
+  type LLMProvider,
+  type LLMTask,
+} from './types.js';
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 시간 초과 + 재시도 적용해 호출 (배치 API 호출도 공유)
+ */
+export async function withLLMRetry<T>(config: LLMConfig, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+    try {
+      return await call(controller.signal);
+    } catch (err) {
+      const error = controller.signal.aborted
+        ? new LLMError(`${config.provider} request timed out after ${config.timeoutMs}ms`, config.provider, undefined, true)
+        : err instanceof LLMError
+          ? err
+          : new LLMError((err as Error).message, config.provider);
+
+      if (!error.retryable || attempt >= config.maxRetries) throw error;
+      await sleep(Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * 요청의 system / 메시지 텍스트 가리기 (같은 금고로 응답 복원)
+ */
+export function redactLLMRequest(
+  request: LLMCompletionRequest,
+  vault: RedactionVault = createRedactionVault()
+): LLMCompletionRequest {
+  const redactor = getRedactor();
+  if (!redactor.enabled) return request;
+
+  return {
+    ...request,
+    ...(request.system !== undefined && { system: redactor.redact(request.system, { vault }).text }),
+    messages: request.messages.map((message) => ({
+      ...message,
+      content: redactor.redact(message.content, { vault }).text,
+    })),
+  };
+}
+
+/**
+ * 설정으로 백엔드 생성
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const adapter = LLM_ADAPTERS[config.provider];
+
+  return {
+    id: config.provider,
+    model: config.model,
+    complete: async (request) => {
+      const vault = createRedactionVault();
+      const redacted = redactLLMRequest(request, vault);
+      const completion = await withLLMRetry(config, (signal) => adapter(redacted, config, signal));
+      return vault.size > 0 ? { ...completion, text: vault.restore(completion.text) } : completion;
+    },
+  };
+}
+
+/**
+ * 작업에 맞게 설정을 해석해 백엔드 생성
+ */
+export function getLLMProvider(task: LLMTask, overrides?: LLMConfigOverrides): LLMProvider {
+  return createLLMProvider(resolveLLMConfig(task, overrides));
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+    resolveLLMConfig,
+    resetLLMConfigCache,
+    isLLMConfigured,
+    getApiKeyEnvName,
+    LLM_PROVIDER_DEFAULTS,
+} from './config.js';
+
+describe('resolveLLMConfig', () => {
+    let dir: string;
+
+    function writeConfig(config: unknown): void {
+        writeFileSync(join(dir, 'llm.json'), JSON.stringify(config));
+    }
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'pe-llm-'));
+        vi.stubEnv('PE_LLM_CONFIG', join(dir, 'llm.json'));
+        for (const name of [
+            'PE_LLM_PROVIDER', 'PE_LLM_MODEL', 'PE_LLM_BASE_URL', 'PE_LLM_API_KEY',
+            'PE_LLM_TIMEOUT_MS', 'PE_LLM_MAX_RETRIES',
+            'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'GEMINI_API_KEY', 'GOOGLE_API_KEY',
+        ]) {
+            vi.stubEnv(name, '');
+        }
+        resetLLMConfigCache();
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        resetLLMConfigCache();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('uses the per-task default providers without a config file', () => {
+        expect(resolveLLMConfig('improve').provider).toBe('anthropic');
+        expect(resolveLLMConfig('judge').provider).toBe('anthropic');
+
+        const classify = resolveLLMConfig('classify');
+        expect(classify.provider).toBe('openai');
+        expect(classify.model).toBe(LLM_PROVIDER_DEFAULTS.openai.model);
+        expect(classify.baseUrl).toBe('https://api.openai.com/v1');
+        expect(classify.timeoutMs).toBe(30_000);
+        expect(classify.maxRetries).toBe(2);
+    });
+
+    it('reads the API key from the provider environment variable', () => {
+        vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-env');
+        vi.stubEnv('GOOGLE_API_KEY', 'google-key');
+
+        expect(resolveLLMConfig('improve').apiKey).toBe('sk-ant-env');
+        expect(resolveLLMConfig('improve', { provider: 'gemini' }).apiKey).toBe('google-key');
+        expect(resolveLLMConfig('classify').apiKey).toBeUndefined();
+    });
+
+    it('applies file defaults, task overrides, env and caller overrides in order', () => {
+        writeConfig({
+            provider: 'openai-compatible',
+            baseUrl: 'http://localhost:8080/v1/',
+            model: 'qwen2.5',
+            timeoutMs: 60_000,
+            tasks: { judge: { model: 'llama3.1:70b' } },
+        });
+
+        const improve = resolveLLMConfig('improve');
+        expect(improve).toMatchObject({
+            provider: 'openai-compatible',
+            baseUrl: 'http://localhost:8080/v1',
+            model: 'qwen2.5',
+            timeoutMs: 60_000,
+        });
+        expect(resolveLLMConfig('judge').model).toBe('llama3.1:70b');
+
+        vi.stubEnv('PE_LLM_MODEL', 'mistral');
+        vi.stubEnv('PE_LLM_MAX_RETRIES', '0');
+        expect(resolveLLMConfig('judge')).toMatchObject({ model: 'mistral', maxRetries: 0 });
+        expect(resolveLLMConfig('judge', { model: 'phi3' }).model).toBe('phi3');
+    });
+
+    it('drops model, base URL and key from earlier layers when the provider changes', () => {
+        writeConfig({
+            provider: 'openai-compatible',
+            baseUrl: 'http://localhost:8080/v1',
+            model: 'qwen2.5',
+            tasks: { classify: { provider: 'gemini' } },
+        });
+
+        const classify = resolveLLMConfig('classify');
+        expect(classify.provider).toBe('gemini');
+        expect(classify.model).toBe(LLM_PROVIDER_DEFAULTS.gemini.model);
+        expect(classify.baseUrl).toBe(LLM_PROVIDER_DEFAULTS.gemini.baseUrl);
+    });
+
+    it('ignores an invalid config file with a warning', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        writeConfig({ provider: 'bedrock' });
+
+        expect(resolveLLMConfig('improve').provider).toBe('anthropic');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring invalid config'), expect.any(String));
+        warn.mockRestore();
+    });
+
+    it('ignores an unknown PE_LLM_PROVIDER', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.stubEnv('PE_LLM_PROVIDER', 'bedrock');
+
+        expect(resolveLLMConfig('classify').provider).toBe('openai');
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it('treats local OpenAI-compatible servers as configured without a key', () => {
+        expect(isLLMConfigured(resolveLLMConfig('improve'))).toBe(false);
+        expect(isLLMConfigured(resolveLLMConfig('improve', { apiKey: 'sk-ant-x' }))).toBe(true);
+        expect(isLLMConfigured(resolveLLMConfig('improve', { provider: 'openai-compatible' }))).toBe(true);
+    });
+
+    it('names the API key variable for setup hints', () => {
+        expect(getApiKeyEnvName('anthropic')).toBe('ANTHROPIC_API_KEY');
+        expect(getApiKeyEnvName('gemini')).toBe('GEMINI_API_KEY');
+        expect(getApiKeyEnvName('openai-compatible')).toBe('PE_LLM_API_KEY');
+    });
+});
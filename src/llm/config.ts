@@ -0,0 +1,200 @@
+/**
+ * LLM 백엔드 설정
+ *
+ * 우선순위 (뒤가 이김):
+ *   작업별 기본값 → ~/.prompt-evolution/llm.json → llm.json 의 tasks.<작업> → PE_LLM_* 환경변수 → 호출자 지정
+ * 백엔드를 바꾸는 계층이 모델/baseUrl 을 지정하지 않으면 새 백엔드의 기본값 사용
+ * llm.json 의 cache 항목은 응답 캐시 설정 (cache.ts)
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { z } from 'zod';
+import {
+  LLM_PROVIDERS,
+  LLM_TASKS,
+  type LLMConfig,
+  type LLMConfigOverrides,
+  type LLMProviderId,
+  type LLMTask,
+} from './types.js';
+
+/**
+ * 백엔드별 기본 모델 / API 루트
+ */
+export const LLM_PROVIDER_DEFAULTS: Record<LLMProviderId, { model: string; baseUrl: string }> = {
+  anthropic: { model: 'claude-3-haiku-20240307', baseUrl: 'https://api.anthropic.com' },
+  openai: { model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  gemini: { model: 'gemini-2.0-flash', baseUrl: 'https://generativelanguage.googleapis.com/v1beta' },
+  // Ollama 기본 주소, llama.cpp 서버 등은 baseUrl 지정
+  'openai-compatible': { model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+};
+
+/**
+ * 설정이 없을 때 작업별 백엔드 (기존 동작 유지)
+ */
+const TASK_DEFAULT_PROVIDERS: Record<LLMTask, LLMProviderId> = {
+  improve: 'anthropic',
+  judge: 'anthropic',
+  classify: 'openai',
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * 백엔드별 API 키 환경변수
+ */
+const API_KEY_ENV: Record<LLMProviderId, string[]> = {
+  anthropic: ['ANTHROPIC_API_KEY'],
+  openai: ['OPENAI_API_KEY'],
+  gemini: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+  'openai-compatible': [],
+};
+
+const overridesSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS).optional(),
+  model: z.string().min(1).optional(),
+  apiKey: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).max(10).optional(),
+});
+
+const cacheSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  ttlMs: z.number().int().positive().optional(),
+  maxEntries: z.number().int().positive().optional(),
+  maxSizeMb: z.number().positive().optional(),
+});
+
+const configFileSchema = overridesSchema.extend({
+  tasks: z.partialRecord(z.enum(LLM_TASKS), overridesSchema).optional(),
+  cache: cacheSettingsSchema.optional(),
+});
+
+export type LLMConfigFile = z.infer<typeof configFileSchema>;
+
+/**
+ * 설정 파일 경로 (PE_LLM_CONFIG 로 변경 가능)
+ */
+export function getLLMConfigPath(): string {
+  return process.env.PE_LLM_CONFIG || join(homedir(), '.prompt-evolution', 'llm.json');
+}
+
+let configFileCache: { path: string; config: LLMConfigFile } | null = null;
+
+/**
+ * llm.json 읽기 (없거나 잘못되면 빈 설정)
+ */
+export function loadLLMConfigFile(filePath: string = getLLMConfigPath()): LLMConfigFile {
+  if (configFileCache && configFileCache.path === filePath) return configFileCache.config;
+
+  let config: LLMConfigFile = {};
+  if (existsSync(filePath)) {
+    try {
+      const result = configFileSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+      if (result.success) {
+        config = result.data;
+      } else {
+        console.warn(
+          `[LLM] Ignoring invalid config ${filePath}:`,
+          result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+        );
+      }
+    } catch (err) {
+      console.warn(`[LLM] Failed to read config ${filePath}:`, (err as Error).message);
+    }
+  }
+
+  configFileCache = { path: filePath, config };
+  return config;
+}
+
+/**
+ * 설정 파일 캐시 초기화 (테스트, 설정 변경 후)
+ */
+export function resetLLMConfigCache(): void {
+  configFileCache = null;
+}
+
+function parseEnvInteger(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function isProviderId(value: string): value is LLMProviderId {
+  return (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+function envOverrides(): LLMConfigOverrides {
+  const overrides: LLMConfigOverrides = {};
+  const provider = process.env.PE_LLM_PROVIDER;
+  if (provider) {
+    if (isProviderId(provider)) overrides.provider = provider;
+    else console.warn(`[LLM] Unknown PE_LLM_PROVIDER: ${provider} (${LLM_PROVIDERS.join(', ')})`);
+  }
+  if (process.env.PE_LLM_MODEL) overrides.model = process.env.PE_LLM_MODEL;
+  if (process.env.PE_LLM_BASE_URL) overrides.baseUrl = process.env.PE_LLM_BASE_URL;
+  if (process.env.PE_LLM_API_KEY) overrides.apiKey = process.env.PE_LLM_API_KEY;
+  const timeoutMs = parseEnvInteger('PE_LLM_TIMEOUT_MS');
+  if (timeoutMs !== undefined) overrides.timeoutMs = timeoutMs;
+  const maxRetries = parseEnvInteger('PE_LLM_MAX_RETRIES');
+  if (maxRetries !== undefined) overrides.maxRetries = maxRetries;
+  return overrides;
+}
+
+/**
+ * 작업에 사용할 백엔드 설정 해석
+ */
+export function resolveLLMConfig(task: LLMTask, overrides: LLMConfigOverrides = {}): LLMConfig {
+  const file = loadLLMConfigFile();
+  const { tasks, cache: _cache, ...fileDefaults } = file;
+  const layers: LLMConfigOverrides[] = [fileDefaults, tasks?.[task] ?? {}, envOverrides(), overrides];
+
+  const merged: LLMConfigOverrides = { provider: TASK_DEFAULT_PROVIDERS[task] };
+  for (const layer of layers) {
+    const defined = Object.fromEntries(
+      Object.entries(layer).filter(([, value]) => value !== undefined && value !== '')
+    ) as LLMConfigOverrides;
+
+    // 백엔드가 바뀌면 이전 계층의 모델/주소/키는 버림
+    if (defined.provider && defined.provider !== merged.provider) {
+      delete merged.model;
+      delete merged.baseUrl;
+      delete merged.apiKey;
+    }
+    Object.assign(merged, defined);
+  }
+
+  const provider = merged.provider!;
+  const defaults = LLM_PROVIDER_DEFAULTS[provider];
+  const apiKey =
+    merged.apiKey ?? API_KEY_ENV[provider].map((name) => process.env[name]).find(Boolean);
+
+  return {
+    provider,
+    model: merged.model ?? defaults.model,
+    apiKey: apiKey || undefined,
+    baseUrl: (merged.baseUrl ?? defaults.baseUrl).replace(/\/+$/, ''),
+    timeoutMs: merged.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRetries: merged.maxRetries ?? DEFAULT_MAX_RETRIES,
+  };
+}
+
+/**
+ * 호출 가능한 설정인지 (로컬 OpenAI 호환 서버는 키 불필요)
+ */
+export function isLLMConfigured(config: LLMConfig): boolean {
+  return config.provider === 'openai-compatible' || !!config.apiKey;
+}
+
+/**
+ * 설정 안내 문구에 쓸 API 키 환경변수 이름
+ */
+export function getApiKeyEnvName(provider: LLMProviderId): string {
+  return API_KEY_ENV[provider][0] ?? 'PE_LLM_API_KEY';
+}
@@ -0,0 +1,10 @@
+/**
+ * LLM module exports
+ */
+
+export * from './types.js';
+export * from './config.js';
+export * from './client.js';
+export { LLM_ADAPTERS, type LLMAdapter } from './providers.js';
+export * from './cache.js';
+export * from './batch.js';
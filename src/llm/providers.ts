@@ -0,0 +1,171 @@
+/**
+ * LLM 백엔드 어댑터
+ * SDK 없이 HTTP 로 호출 (오프라인/로컬 서버 환경에서도 동일하게 동작)
+ */
+
+import {
+  LLMError,
+  type LLMCompletion,
+  type LLMCompletionRequest,
+  type LLMConfig,
+  type LLMProviderId,
+} from './types.js';
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * 한 번의 HTTP 호출 (재시도/시간 초과는 client.ts 에서 처리)
+ */
+export type LLMAdapter = (
+  request: LLMCompletionRequest,
+  config: LLMConfig,
+  signal: AbortSignal
+) => Promise<LLMCompletion>;
+
+/**
+ * API 호출 (상태 코드 오류를 재시도 가능 여부와 함께 LLMError 로 변환)
+ */
+export async function fetchLLMApi(
+  provider: LLMProviderId,
+  url: string,
+  init: { method: 'GET' | 'POST'; headers: Record<string, string>; body?: unknown },
+  signal: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method,
+      headers: init.body === undefined ? init.headers : { 'Content-Type': 'application/json', ...init.headers },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal,
+    });
+  } catch (err) {
+    if (signal.aborted) throw err;
+    // 연결 거부, DNS 실패 등
+    throw new LLMError(`${provider} request failed: ${(err as Error).message}`, provider, undefined, true);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 500);
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+    throw new LLMError(
+      `${provider} API error: ${response.status}${detail ? ` - ${detail}` : ''}`,
+      provider,
+      response.status,
+      retryable
+    );
+  }
+
+  return response;
+}
+
+async function postJson(
+  provider: LLMProviderId,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal
+): Promise<unknown> {
+  const response = await fetchLLMApi(provider, url, { method: 'POST', headers, body }, signal);
+  return response.json();
+}
+
+/**
+ * Anthropic API 헤더
+ */
+export function anthropicHeaders(config: LLMConfig): Record<string, string> {
+  return { 'x-api-key': config.apiKey ?? '', 'anthropic-version': '2023-06-01' };
+}
+
+const anthropicAdapter: LLMAdapter = async (request, config, signal) => {
+  const data = (await postJson(
+    'anthropic',
+    `${config.baseUrl}/v1/messages`,
+    anthropicHeaders(config),
+    anthropicMessageParams(request, config),
+    signal
+  )) as { content?: Array<{ type?: string; text?: string }> };
+
+  return { text: anthropicText(data), provider: 'anthropic', model: config.model };
+};
+
+/**
+ * Anthropic 메시지 응답의 텍스트 블록 합치기
+ */
+export function anthropicText(message: { content?: Array<{ type?: string; text?: string }> }): string {
+  return (message.content ?? [])
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text ?? '')
+    .join('');
+}
+
+/**
+ * Anthropic 메시지 요청 본문 (단건 호출과 배치가 공유)
+ */
+export function anthropicMessageParams(request: LLMCompletionRequest, config: LLMConfig): Record<string, unknown> {
+  return {
+    model: config.model,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: request.temperature,
+    system: request.system,
+    messages: request.messages,
+  };
+}
+
+/**
+ * OpenAI Chat Completions (OpenAI, Ollama, llama.cpp, vLLM 등)
+ */
+function chatCompletionsAdapter(provider: 'openai' | 'openai-compatible'): LLMAdapter {
+  return async (request, config, signal) => {
+    const messages = request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+
+    const data = (await postJson(
+      provider,
+      `${config.baseUrl}/chat/completions`,
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      {
+        model: config.model,
+        messages,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      },
+      signal
+    )) as { choices?: Array<{ message?: { content?: string | null } }> };
+
+    return { text: data.choices?.[0]?.message?.content ?? '', provider, model: config.model };
+  };
+}
+
+const geminiAdapter: LLMAdapter = async (request, config, signal) => {
+  const data = (await postJson(
+    'gemini',
+    `${config.baseUrl}/models/${encodeURIComponent(config.model)}:generateContent`,
+    { 'x-goog-api-key': config.apiKey ?? '' },
+    {
+      ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+      contents: request.messages.map((m) => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }],
+      })),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        ...(request.json ? { responseMimeType: 'application/json' } : {}),
+      },
+    },
+    signal
+  )) as { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> };
+
+  const text = (data.candidates?.[0]?.content?.parts ?? []).map((p) => p.text ?? '').join('');
+  return { text, provider: 'gemini', model: config.model };
+};
+
+export const LLM_ADAPTERS: Record<LLMProviderId, LLMAdapter> = {
+  anthropic: anthropicAdapter,
+  openai: chatCompletionsAdapter('openai'),
+  gemini: geminiAdapter,
+  'openai-compatible': chatCompletionsAdapter('openai-compatible'),
+};
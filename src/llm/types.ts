@@ -0,0 +1,75 @@
+/**
+ * LLM Provider Types
+ * 분석 모듈(improve, judge, classify)이 공유하는 LLM 백엔드 타입
+ */
+
+export const LLM_PROVIDERS = ['anthropic', 'openai', 'gemini', 'openai-compatible'] as const;
+export type LLMProviderId = typeof LLM_PROVIDERS[number];
+
+/**
+ * LLM 을 사용하는 작업 (작업별로 다른 백엔드/모델 지정 가능)
+ */
+export const LLM_TASKS = ['improve', 'judge', 'classify'] as const;
+export type LLMTask = typeof LLM_TASKS[number];
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** JSON 객체 응답 요청 (지원하는 백엔드만) */
+  json?: boolean;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProviderId;
+  model: string;
+}
+
+/**
+ * 해석된 백엔드 설정
+ */
+export interface LLMConfig {
+  provider: LLMProviderId;
+  model: string;
+  apiKey?: string;
+  /** API 루트 (예: http://localhost:11434/v1) */
+  baseUrl?: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+/**
+ * 설정 파일 / 호출자 덮어쓰기 (모든 필드 선택)
+ */
+export type LLMConfigOverrides = Partial<LLMConfig>;
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * LLM 호출 실패
+ */
+export class LLMError extends Error {
+  provider: LLMProviderId;
+  status?: number;
+  /** 재시도하면 성공할 수 있는 오류 (429, 5xx, 네트워크, 시간 초과) */
+  retryable: boolean;
+
+  constructor(message: string, provider: LLMProviderId, status?: number, retryable = false) {
+    super(message);
+    this.provider = provider;
+    this.status = status;
+    this.retryable = retryable;
+    this.name = 'LLMError';
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Aider 채팅 히스토리 파서
+ * 각 저장소 루트의 .aider.chat.history.md 를 파싱
+ *
+ * 파일 하나에 여러 채팅이 누적되며 "# aider chat started at ..." 헤더로 구분됨:
+ * - "#### " 로 시작하는 줄: 사용자 프롬프트
+ * - "> " 로 시작하는 줄: aider 도구 출력 (토큰, 편집 적용, 커밋 등)
+ * - 그 외: 어시스턴트 응답
+ *
+ * 중앙 저장 위치가 없으므로 PE_AIDER_PROJECTS (경로 구분자로 나열한 저장소 경로) 로 대상 지정
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, resolve, delimiter } from 'path';
+import { createHash } from 'crypto';
+import type { ParsedConversation, ParsedTurn, SessionSource } from '../types/index.js';
+import { encodeProjectPath } from './project-path.js';
+
+export const AIDER_HISTORY_FILE = '.aider.chat.history.md';
+
+const CHAT_HEADER = /^# aider chat started at (\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})/;
+const USER_PREFIX = '#### ';
+const TOKENS_LINE = /^Tokens:\s*([\d.,]+)([km]?) sent.*?([\d.,]+)([km]?) received/i;
+const MODEL_LINE = /^(?:Main model|Model):\s*(\S+)/;
+const COST_LINE = /Cost:\s*\$([\d.]+)\s+message/i;
+
+// aider 출력 → 도구 이름
+const TOOL_LINES: Array<{ pattern: RegExp; tool: string }> = [
+  { pattern: /^Applied edit to /, tool: 'apply_edit' },
+  { pattern: /^Commit [0-9a-f]{7,}/, tool: 'git_commit' },
+  { pattern: /^Running /, tool: 'run_command' },
+  { pattern: /^Added .+ to the chat/, tool: 'add_file' },
+];
+
+export interface AiderChat {
+  /** 세션 키 (채팅 시작 시각 기반, 파일 내에서 유일) */
+  key: string;
+  startedAt: Date;
+  lines: string[];
+}
+
+/**
+ * 히스토리 파일을 채팅 단위로 분리
+ */
+export function splitAiderChats(content: string): AiderChat[] {
+  const chats: AiderChat[] = [];
+  const seenKeys = new Map<string, number>();
+  let current: AiderChat | null = null;
+
+  for (const line of content.split('\n')) {
+    const header = line.match(CHAT_HEADER);
+    if (header) {
+      const baseKey = header[1].replace(/[ :]/g, '-');
+      const seen = seenKeys.get(baseKey) ?? 0;
+      seenKeys.set(baseKey, seen + 1);
+
+      current = {
+        key: seen === 0 ? baseKey : `${baseKey}-${seen + 1}`,
+        startedAt: new Date(header[1].replace(' ', 'T')),
+        lines: [],
+      };
+      chats.push(current);
+      continue;
+    }
+    current?.lines.push(line);
+  }
+
+  return chats;
+}
+
+function parseTokenCount(value: string, unit: string): number {
+  const base = parseFloat(value.replace(/,/g, ''));
+  if (isNaN(base)) return 0;
+  const multiplier = unit.toLowerCase() === 'k' ? 1_000 : unit.toLowerCase() === 'm' ? 1_000_000 : 1;
+  return Math.round(base * multiplier);
+}
+
+/**
+ * 채팅 하나를 구조화된 대화로 변환
+ */
+export function parseAiderChat(
+  chat: AiderChat,
+  conversationId: string,
+  projectName: string,
+  projectPath: string
+): ParsedConversation {
+  const turns: ParsedTurn[] = [];
+  let model = '';
+  let totalInputTokens = 0;
+  let totalOutputTokens = 0;
+
+  let userLines: string[] = [];
+  let assistantLines: string[] = [];
+  let tools: string[] = [];
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+  let costUsd: number | undefined;
+
+  const flushUser = () => {
+    const content = userLines.join('\n').trim();
+    if (content) {
+      turns.push({
+        id: `${conversationId}:${turns.length}`,
+        role: 'user',
+        content,
+        timestamp: chat.startedAt,
+      });
+    }
+    userLines = [];
+  };
+
+  const flushAssistant = () => {
+    const content = assistantLines.join('\n').trim();
+    if (content) {
+      turns.push({
+        id: `${conversationId}:${turns.length}`,
+        role: 'assistant',
+        content,
+        timestamp: chat.startedAt,
+        model: model || undefined,
+        toolsUsed: tools.length > 0 ? tools : undefined,
+        inputTokens,
+        outputTokens,
+        costUsd,
+      });
+    } else if (tools.length > 0) {
+      // 텍스트 없이 도구만 실행된 경우 직전 어시스턴트 턴에 귀속
+      const last = turns[turns.length - 1];
+      if (last?.role === 'assistant') {
+        last.toolsUsed = [...(last.toolsUsed ?? []), ...tools];
+      }
+    }
+    assistantLines = [];
+    tools = [];
+    inputTokens = undefined;
+    outputTokens = undefined;
+    costUsd = undefined;
+  };
+
+  for (const rawLine of chat.lines) {
+    const line = rawLine.replace(/\s+$/, '');
+
+    if (line.startsWith(USER_PREFIX)) {
+      if (assistantLines.length > 0 || tools.length > 0) flushAssistant();
+      userLines.push(line.slice(USER_PREFIX.length));
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      flushUser();
+      const output = line.replace(/^>\s?/, '');
+
+      const modelMatch = output.match(MODEL_LINE);
+      if (modelMatch && !model) model = modelMatch[1];
+
+      const tokenMatch = output.match(TOKENS_LINE);
+      if (tokenMatch) {
+        inputTokens = parseTokenCount(tokenMatch[1], tokenMatch[2]);
+        outputTokens = parseTokenCount(tokenMatch[3], tokenMatch[4]);
+        totalInputTokens += inputTokens;
+        totalOutputTokens += outputTokens;
+      }
+
+      // aider 가 직접 계산한 메시지 비용
+      const costMatch = output.match(COST_LINE);
+      if (costMatch) costUsd = parseFloat(costMatch[1]);
+
+      for (const { pattern, tool } of TOOL_LINES) {
+        if (pattern.test(output)) tools.push(tool);
+      }
+      continue;
+    }
+
+    if (userLines.length > 0) {
+      // 사용자 블록 이후 첫 빈 줄은 구분자
+      if (!line) continue;
+      flushUser();
+    }
+    if (line || assistantLines.length > 0) {
+      assistantLines.push(line);
+    }
+  }
+
+  flushUser();
+  flushAssistant();
+
+  return {
+    id: conversationId,
+    source: 'aider',
+    project: projectName,
+    projectPath,
+    startedAt: chat.startedAt,
+    endedAt: chat.startedAt,
+    model,
+    totalInputTokens,
+    totalOutputTokens,
+    turns,
+    summaries: [],
+  };
+}
+
+/**
+ * 설정된 저장소 목록 (프로젝트 키 → 경로)
+ */
+function getConfiguredProjects(): Map<string, string> {
+  const projects = new Map<string, string>();
+  const configured = process.env.PE_AIDER_PROJECTS;
+  if (!configured) return projects;
+
+  for (const entry of configured.split(delimiter)) {
+    if (!entry.trim()) continue;
+    const projectPath = resolve(entry.trim());
+    projects.set(encodeProjectPath(projectPath), projectPath);
+  }
+  return projects;
+}
+
+function readHistory(projectName: string): { projectPath: string; chats: AiderChat[] } | null {
+  const projectPath = getConfiguredProjects().get(projectName);
+  if (!projectPath) return null;
+
+  try {
+    const content = readFileSync(join(projectPath, AIDER_HISTORY_FILE), 'utf-8');
+    return { projectPath, chats: splitAiderChats(content) };
+  } catch (err) {
+    console.error(`[Aider Parser] Failed to read history for ${projectPath}:`, (err as Error).message);
+    return null;
+  }
+}
+
+/**
+ * 대화 ID (프로젝트 간 충돌 방지를 위해 프로젝트 해시 포함)
+ */
+export function getAiderConversationId(projectName: string, sessionKey: string): string {
+  const projectHash = createHash('sha1').update(projectName).digest('hex').slice(0, 8);
+  return `aider-${projectHash}-${sessionKey}`;
+}
+
+/**
+ * Aider 세션 소스
+ */
+export const aiderSource: SessionSource = {
+  id: 'aider',
+  displayName: 'Aider',
+
+  listProjects(): string[] {
+    return [...getConfiguredProjects()]
+      .filter(([, projectPath]) => existsSync(join(projectPath, AIDER_HISTORY_FILE)))
+      .map(([projectName]) => projectName);
+  },
+
+  listSessions(projectName: string): string[] {
+    return readHistory(projectName)?.chats.map((chat) => chat.key) ?? [];
+  },
+
+  getConversationId: getAiderConversationId,
+
+  // 모든 채팅이 한 파일에 누적되므로 파일이 바뀌면 각 채팅을 다시 파싱해 비교
+  getSessionFilePath(projectName: string): string | null {
+    const projectPath = getConfiguredProjects().get(projectName);
+    return projectPath ? join(projectPath, AIDER_HISTORY_FILE) : null;
+  },
+
+  parseSession(projectName: string, sessionFile: string): ParsedConversation | null {
+    const history = readHistory(projectName);
+    const chat = history?.chats.find((c) => c.key === sessionFile);
+    if (!history || !chat) return null;
+
+    return parseAiderChat(
+      chat,
+      getAiderConversationId(projectName, chat.key),
+      projectName,
+      history.projectPath
+    );
+  },
+};
@@ -4,8 +4,10 @@
  */
 
 import { readdirSync, statSync } from 'fs';
-import { join, resolve } from 'path';
+import { join, resolve, basename } from 'path';
 import { homedir } from 'os';
+import type { SessionSource } from '../types/index.js';
+import { parseSession, parseSessionFrom } from './session-parser.js';
 
 const CLAUDE_PROJECTS_PATH = join(homedir(), '.claude', 'projects');
 
@@ -17,6 +19,13 @@ function validateProjectPath(projectName: string): string {
   return resolved;
 }
 
+/**
+ * Claude Code 프로젝트 루트 (~/.claude/projects)
+ */
+export function getClaudeProjectsPath(): string {
+  return CLAUDE_PROJECTS_PATH;
+}
+
 /**
  * 모든 프로젝트 목록 조회
  */
@@ -46,3 +55,20 @@ export function listSessions(projectName: string): string[] {
     return [];
   }
 }
+
+/**
+ * Claude Code 세션 소스 (~/.claude/projects/<project>/<session>.jsonl)
+ */
+export const claudeCodeSource: SessionSource = {
+  id: 'claude-code',
+  displayName: 'Claude Code',
+  listProjects,
+  listSessions,
+  getConversationId: (_projectName, sessionFile) => basename(sessionFile, '.jsonl'),
+  parseSession,
+  getSessionFilePath(projectName, sessionFile) {
+    const filePath = resolve(validateProjectPath(projectName), sessionFile);
+    return filePath.startsWith(CLAUDE_PROJECTS_PATH) ? filePath : null;
+  },
+  parseSessionFrom,
+};
@@ -0,0 +1,359 @@
+/**
+ * Codex CLI rollout 파서
+ * $CODEX_HOME/sessions/YYYY/MM/DD/rollout-<timestamp>-<uuid>.jsonl 을 파싱
+ *
+ * 두 가지 레코드 형식을 지원:
+ * - 신규: { timestamp, type: 'session_meta' | 'response_item' | 'event_msg' | 'turn_context', payload }
+ * - 구버전: 첫 줄 { id, timestamp, instructions } 이후 response item 이 그대로 나열
+ */
+
+import { readdirSync, readFileSync, statSync, openSync, readSync, closeSync } from 'fs';
+import { join, resolve, relative, basename, sep } from 'path';
+import { homedir } from 'os';
+import type { ParsedConversation, ParsedTurn, SessionSource } from '../types/index.js';
+import { encodeProjectPath, decodeProjectPath } from './project-path.js';
+
+const CODEX_HOME = process.env.CODEX_HOME || join(homedir(), '.codex');
+const CODEX_SESSIONS_PATH = join(CODEX_HOME, 'sessions');
+
+// cwd 를 찾기 위해 읽는 파일 앞부분 크기
+const HEAD_BYTES = 256 * 1024;
+const UNKNOWN_PROJECT = 'codex-unknown';
+
+const UUID_PATTERN = /([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i;
+
+// Codex 가 사용자 메시지로 주입하는 컨텍스트 블록 (실제 프롬프트가 아님)
+const INJECTED_PREFIXES = ['<environment_context>', '<user_instructions>', '# AGENTS.md instructions'];
+
+interface CodexContentItem {
+  type: string;
+  text?: string;
+}
+
+interface CodexItem {
+  type?: string;
+  role?: string;
+  content?: CodexContentItem[];
+  name?: string;
+  summary?: Array<{ type: string; text?: string }>;
+  // session_meta / turn_context
+  id?: string;
+  cwd?: string;
+  model?: string;
+  timestamp?: string;
+  // event_msg
+  info?: {
+    total_token_usage?: {
+      input_tokens?: number;
+      cached_input_tokens?: number;
+      output_tokens?: number;
+    };
+  } | null;
+}
+
+interface CodexRecord extends CodexItem {
+  payload?: CodexItem;
+}
+
+/**
+ * rollout JSONL 문자열을 레코드 배열로 파싱 (깨진 라인은 스킵)
+ */
+function parseRecords(content: string): CodexRecord[] {
+  const records: CodexRecord[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      records.push(JSON.parse(trimmed) as CodexRecord);
+    } catch {
+      // 마지막 라인이 기록 중일 수 있음
+      continue;
+    }
+  }
+  return records;
+}
+
+/**
+ * 레코드에서 작업 디렉토리 추출
+ */
+function extractCwd(records: CodexRecord[]): string | undefined {
+  for (const record of records) {
+    const payload = record.payload;
+    if ((record.type === 'session_meta' || record.type === 'turn_context') && payload?.cwd) {
+      return payload.cwd;
+    }
+    // 구버전: <environment_context> 안의 <cwd>
+    const item = payload ?? record;
+    for (const block of item.content ?? []) {
+      const match = block.text?.match(/<cwd>([^<]+)<\/cwd>/);
+      if (match) return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+function isInjectedContext(text: string): boolean {
+  const trimmed = text.trimStart();
+  return INJECTED_PREFIXES.some((prefix) => trimmed.startsWith(prefix));
+}
+
+function joinText(content: CodexContentItem[] | undefined, types: string[]): string {
+  return (content ?? [])
+    .filter((item) => types.includes(item.type) && item.text)
+    .map((item) => item.text as string)
+    .join('\n');
+}
+
+/**
+ * rollout 파일명에서 세션 UUID 추출
+ */
+export function getCodexConversationId(sessionFile: string): string {
+  const match = sessionFile.match(UUID_PATTERN);
+  return match ? match[1] : basename(sessionFile, '.jsonl');
+}
+
+/**
+ * rollout 내용을 구조화된 대화로 변환
+ */
+export function parseCodexRollout(content: string, conversationId: string): ParsedConversation | null {
+  const records = parseRecords(content);
+  if (records.length === 0) return null;
+
+  const cwd = extractCwd(records);
+  const project = cwd ? encodeProjectPath(cwd) : UNKNOWN_PROJECT;
+
+  const turns: ParsedTurn[] = [];
+  let model = '';
+  let totalInputTokens = 0;
+  let totalOutputTokens = 0;
+  let totalCacheReadTokens = 0;
+  let startTime: Date | null = null;
+  let endTime: Date | null = null;
+  let pendingTools: string[] = [];
+  let pendingThinking: string[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const timestampValue = record.timestamp ?? record.payload?.timestamp;
+    const timestamp = timestampValue ? new Date(timestampValue) : null;
+    if (timestamp && !isNaN(timestamp.getTime())) {
+      if (!startTime || timestamp < startTime) startTime = timestamp;
+      if (!endTime || timestamp > endTime) endTime = timestamp;
+    }
+
+    if (record.type === 'turn_context') {
+      if (record.payload?.model && !model) model = record.payload.model;
+      continue;
+    }
+
+    if (record.type === 'event_msg') {
+      // token_count 는 누적값이므로 마지막 값을 사용 (input_tokens 는 캐시 입력 포함)
+      const usage = record.payload?.type === 'token_count'
+        ? record.payload.info?.total_token_usage
+        : undefined;
+      if (usage) {
+        totalCacheReadTokens = usage.cached_input_tokens || 0;
+        totalInputTokens = Math.max(0, (usage.input_tokens || 0) - totalCacheReadTokens);
+        totalOutputTokens = usage.output_tokens || 0;
+      }
+      continue;
+    }
+
+    if (record.type === 'session_meta') continue;
+
+    // 신규 형식은 payload, 구버전은 레코드 자체가 item
+    const item: CodexItem = record.type === 'response_item' && record.payload ? record.payload : record;
+    const turnId = `${conversationId}:${index}`;
+    const turnTime = timestamp ?? startTime ?? new Date(0);
+
+    switch (item.type) {
+      case 'message': {
+        if (item.role === 'user') {
+          const text = joinText(item.content, ['input_text', 'text']);
+          if (!text || isInjectedContext(text)) continue;
+
+          // 직전 어시스턴트 턴에 아직 붙지 않은 도구 호출 정리
+          const last = turns[turns.length - 1];
+          if (pendingTools.length > 0 && last?.role === 'assistant') {
+            last.toolsUsed = [...(last.toolsUsed ?? []), ...pendingTools];
+          }
+          pendingTools = [];
+          pendingThinking = [];
+
+          turns.push({ id: turnId, role: 'user', content: text, timestamp: turnTime });
+        } else if (item.role === 'assistant') {
+          const text = joinText(item.content, ['output_text', 'text']);
+          if (!text) continue;
+
+          turns.push({
+            id: turnId,
+            role: 'assistant',
+            content: text,
+            timestamp: turnTime,
+            model: model || undefined,
+            thinking: pendingThinking.length > 0 ? pendingThinking.join('\n') : undefined,
+            toolsUsed: pendingTools.length > 0 ? pendingTools : undefined,
+          });
+          pendingTools = [];
+          pendingThinking = [];
+        }
+        continue;
+      }
+      case 'reasoning': {
+        const summary = (item.summary ?? [])
+          .map((s) => s.text)
+          .filter((text): text is string => Boolean(text))
+          .join('\n');
+        if (summary) pendingThinking.push(summary);
+        continue;
+      }
+      case 'function_call':
+      case 'custom_tool_call':
+        if (item.name) pendingTools.push(item.name);
+        continue;
+      case 'local_shell_call':
+        pendingTools.push('shell');
+        continue;
+      default:
+        continue;
+    }
+  }
+
+  const last = turns[turns.length - 1];
+  if (pendingTools.length > 0 && last?.role === 'assistant') {
+    last.toolsUsed = [...(last.toolsUsed ?? []), ...pendingTools];
+  }
+
+  return {
+    id: conversationId,
+    source: 'codex-cli',
+    project,
+    projectPath: cwd ?? decodeProjectPath(project),
+    startedAt: startTime || new Date(),
+    endedAt: endTime || new Date(),
+    model,
+    totalInputTokens,
+    totalOutputTokens,
+    totalCacheReadTokens,
+    turns,
+    summaries: [],
+  };
+}
+
+/**
+ * sessions 디렉토리 아래의 모든 rollout 파일 (sessions 기준 상대 경로)
+ */
+function listRolloutFiles(dir: string = CODEX_SESSIONS_PATH): string[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = join(dir, entry);
+    try {
+      if (statSync(fullPath).isDirectory()) {
+        files.push(...listRolloutFiles(fullPath));
+      } else if (entry.startsWith('rollout-') && entry.endsWith('.jsonl')) {
+        files.push(relative(CODEX_SESSIONS_PATH, fullPath).split(sep).join('/'));
+      }
+    } catch {
+      continue;
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * 파일 앞부분만 읽어 프로젝트 키 결정
+ */
+function readProjectKey(sessionFile: string): string {
+  const filePath = join(CODEX_SESSIONS_PATH, sessionFile);
+  const buffer = Buffer.alloc(HEAD_BYTES);
+  let bytesRead = 0;
+  let fd: number | null = null;
+  try {
+    fd = openSync(filePath, 'r');
+    bytesRead = readSync(fd, buffer, 0, HEAD_BYTES, 0);
+  } catch {
+    return UNKNOWN_PROJECT;
+  } finally {
+    if (fd !== null) closeSync(fd);
+  }
+
+  const cwd = extractCwd(parseRecords(buffer.subarray(0, bytesRead).toString('utf-8')));
+  return cwd ? encodeProjectPath(cwd) : UNKNOWN_PROJECT;
+}
+
+/**
+ * 프로젝트 키 → rollout 파일 목록
+ */
+function buildSessionIndex(): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const file of listRolloutFiles()) {
+    const project = readProjectKey(file);
+    const sessions = index.get(project) ?? [];
+    sessions.push(file);
+    index.set(project, sessions);
+  }
+  return index;
+}
+
+function resolveSessionPath(sessionFile: string): string | null {
+  const filePath = resolve(CODEX_SESSIONS_PATH, sessionFile);
+  if (!filePath.startsWith(CODEX_SESSIONS_PATH + sep)) {
+    console.error(`[Codex Parser] Path traversal detected: ${sessionFile}`);
+    return null;
+  }
+  return filePath;
+}
+
+/**
+ * Codex CLI 세션 소스
+ * 프로젝트 키는 rollout 에 기록된 cwd 를 Claude Code 규칙으로 인코딩한 값
+ */
+export const codexSource: SessionSource = {
+  id: 'codex-cli',
+  displayName: 'Codex CLI',
+
+  listProjects(): string[] {
+    return [...buildSessionIndex().keys()];
+  },
+
+  listSessions(projectName: string): string[] {
+    return buildSessionIndex().get(projectName) ?? [];
+  },
+
+  // 색인은 모든 rollout 앞부분을 읽으므로 실행마다 한 번만 생성
+  snapshot(): SessionSource {
+    const index = buildSessionIndex();
+    return {
+      ...codexSource,
+      listProjects: () => [...index.keys()],
+      listSessions: (projectName: string) => index.get(projectName) ?? [],
+    };
+  },
+
+  getConversationId(_projectName: string, sessionFile: string): string {
+    return getCodexConversationId(sessionFile);
+  },
+
+  getSessionFilePath(_projectName: string, sessionFile: string): string | null {
+    return resolveSessionPath(sessionFile);
+  },
+
+  parseSession(_projectName: string, sessionFile: string): ParsedConversation | null {
+    const filePath = resolveSessionPath(sessionFile);
+    if (!filePath) return null;
+
+    try {
+      const content = readFileSync(filePath, 'utf-8');
+      return parseCodexRollout(content, getCodexConversationId(sessionFile));
+    } catch (err) {
+      console.error(`[Codex Parser] Failed to read file ${filePath}:`, (err as Error).message);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,126 @@
+/**
+ * 대화 트리 재구성
+ * uuid / parentUuid 로 레코드 트리를 만들고 각 레코드의 분기(branch)를 판별
+ *
+ * - 파일상 마지막 비-sidechain 메시지를 최종 리프로 보고, 루트까지의 경로를 main 으로 표시
+ * - main 에 속하지 않는 일반 레코드는 abandoned (되감기/수정으로 버려진 분기)
+ * - isSidechain 레코드는 sidechain (서브 에이전트 스레드)
+ * - compact 경계(parentUuid = null)는 logicalParentUuid 로 이어서 따라감
+ */
+
+import type { BaseRecord, BranchType } from '../types/index.js';
+
+export const MAIN_BRANCH_ID = 'main';
+
+export interface TreeNodeInfo {
+  branchId: string;
+  branchType: BranchType;
+}
+
+export interface ConversationTree {
+  /** uuid → 분기 정보 */
+  nodes: Map<string, TreeNodeInfo>;
+  /** main 경로의 마지막 레코드 */
+  mainLeafId: string | undefined;
+  /** 가장 가까운 조상 중 candidates 에 속한 uuid */
+  findAncestor(uuid: string, candidates: Set<string>): string | undefined;
+  /** 레코드 목록 밖에 있는 가장 가까운 조상 uuid (이어 읽기에서 이전 구간과 연결) */
+  findExternalAncestor(uuid: string): string | undefined;
+}
+
+type TreeRecord = Pick<BaseRecord, 'type' | 'uuid' | 'parentUuid' | 'logicalParentUuid' | 'isSidechain'>;
+
+/**
+ * 레코드 배열로 대화 트리 구성
+ */
+export function buildConversationTree(records: TreeRecord[]): ConversationTree {
+  const parents = new Map<string, string | undefined>();
+  const sidechain = new Set<string>();
+  let mainLeafId: string | undefined;
+
+  for (const record of records) {
+    if (!record.uuid) continue;
+    parents.set(record.uuid, record.parentUuid ?? record.logicalParentUuid ?? undefined);
+    if (record.isSidechain) {
+      sidechain.add(record.uuid);
+    } else if (record.type === 'user' || record.type === 'assistant') {
+      mainLeafId = record.uuid;
+    }
+  }
+
+  // 부모 조회 (파일에 없는 부모는 루트로 취급)
+  const parentOf = (uuid: string): string | undefined => {
+    const parent = parents.get(uuid);
+    return parent && parents.has(parent) ? parent : undefined;
+  };
+
+  // main 경로
+  const mainPath = new Set<string>();
+  for (let cursor = mainLeafId; cursor && !mainPath.has(cursor); cursor = parentOf(cursor)) {
+    mainPath.add(cursor);
+  }
+
+  const nodes = new Map<string, TreeNodeInfo>();
+
+  const resolve = (uuid: string): TreeNodeInfo => {
+    const cached = nodes.get(uuid);
+    if (cached) return cached;
+
+    if (mainPath.has(uuid)) {
+      const info: TreeNodeInfo = { branchId: MAIN_BRANCH_ID, branchType: 'main' };
+      nodes.set(uuid, info);
+      return info;
+    }
+
+    const branchType: BranchType = sidechain.has(uuid) ? 'sidechain' : 'abandoned';
+
+    // 분기 시작점까지 올라감: 부모가 없거나, 부모가 다른 종류의 분기이거나, main 에 닿으면 멈춤
+    const chain: string[] = [];
+    const visited = new Set<string>();
+    let cursor: string | undefined = uuid;
+    let root = uuid;
+    let inherited: TreeNodeInfo | undefined;
+    while (cursor && !visited.has(cursor)) {
+      visited.add(cursor);
+      chain.push(cursor);
+      root = cursor;
+      const parent = parentOf(cursor);
+      if (!parent || mainPath.has(parent) || sidechain.has(parent) !== (branchType === 'sidechain')) break;
+      const known = nodes.get(parent);
+      if (known) {
+        inherited = known;
+        break;
+      }
+      cursor = parent;
+    }
+
+    const info: TreeNodeInfo = inherited ?? { branchId: root, branchType };
+    for (const id of chain) nodes.set(id, info);
+    return info;
+  };
+
+  for (const uuid of parents.keys()) resolve(uuid);
+
+  return {
+    nodes,
+    mainLeafId,
+    findAncestor(uuid: string, candidates: Set<string>): string | undefined {
+      const visited = new Set<string>([uuid]);
+      for (let cursor = parentOf(uuid); cursor && !visited.has(cursor); cursor = parentOf(cursor)) {
+        if (candidates.has(cursor)) return cursor;
+        visited.add(cursor);
+      }
+      return undefined;
+    },
+    findExternalAncestor(uuid: string): string | undefined {
+      const visited = new Set<string>();
+      for (let cursor: string | undefined = uuid; cursor && !visited.has(cursor); ) {
+        visited.add(cursor);
+        const parent = parents.get(cursor);
+        if (!parent || !parents.has(parent)) return parent;
+        cursor = parent;
+      }
+      return undefined;
+    },
+  };
+}
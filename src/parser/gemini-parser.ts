@@ -0,0 +1,289 @@
+/**
+ * Gemini CLI 로그 파서
+ * ~/.gemini/tmp/<projectHash>/ 아래의 로그를 파싱
+ *
+ * - chats/session-*.json: 대화 전체 (user / gemini 메시지, thoughts, tokens, toolCalls)
+ * - logs.json: 사용자 메시지만 기록된 구버전 로그 (chats 에 없는 세션만 사용)
+ */
+
+import { readdirSync, readFileSync, statSync, existsSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import { homedir } from 'os';
+import type { ParsedConversation, ParsedTurn, SessionSource } from '../types/index.js';
+
+const GEMINI_TMP_PATH = process.env.PE_GEMINI_TMP_DIR || join(homedir(), '.gemini', 'tmp');
+
+const CHATS_DIR = 'chats';
+const LOGS_FILE = 'logs.json';
+const LOG_SESSION_PREFIX = `${LOGS_FILE}#`;
+
+type GeminiContent = string | Array<{ text?: string }>;
+
+export interface GeminiChatMessage {
+  id?: string;
+  timestamp?: string;
+  type: 'user' | 'gemini' | 'info' | 'error' | 'warning' | string;
+  content?: GeminiContent;
+  model?: string;
+  thoughts?: Array<{ subject?: string; description?: string }>;
+  tokens?: {
+    input?: number;
+    output?: number;
+    cached?: number;
+    thoughts?: number;
+  };
+  toolCalls?: Array<{ id?: string; name: string }>;
+}
+
+export interface GeminiChatFile {
+  sessionId: string;
+  projectHash?: string;
+  startTime?: string;
+  lastUpdated?: string;
+  messages: GeminiChatMessage[];
+}
+
+export interface GeminiLogEntry {
+  sessionId: string;
+  messageId: number;
+  type: string;
+  message: string;
+  timestamp: string;
+}
+
+function contentToText(content: GeminiContent | undefined): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .map((part) => part.text)
+    .filter((text): text is string => Boolean(text))
+    .join('\n');
+}
+
+/**
+ * chats/session-*.json 을 구조화된 대화로 변환
+ */
+export function parseGeminiChat(chat: GeminiChatFile, projectName: string): ParsedConversation | null {
+  if (!chat.sessionId || !Array.isArray(chat.messages)) return null;
+
+  const turns: ParsedTurn[] = [];
+  let model = '';
+  let totalInputTokens = 0;
+  let totalOutputTokens = 0;
+  let totalCacheReadTokens = 0;
+  let startTime = chat.startTime ? new Date(chat.startTime) : null;
+  let endTime = chat.lastUpdated ? new Date(chat.lastUpdated) : null;
+
+  chat.messages.forEach((message, index) => {
+    const timestamp = message.timestamp ? new Date(message.timestamp) : startTime ?? new Date(0);
+    if (!startTime || timestamp < startTime) startTime = timestamp;
+    if (!endTime || timestamp > endTime) endTime = timestamp;
+
+    const content = contentToText(message.content);
+    const id = message.id ? `${chat.sessionId}:${message.id}` : `${chat.sessionId}:${index}`;
+
+    if (message.type === 'user') {
+      if (!content) return;
+      turns.push({ id, role: 'user', content, timestamp });
+      return;
+    }
+
+    if (message.type !== 'gemini') return;
+
+    if (message.model && !model) model = message.model;
+    // tokens.input (promptTokenCount) 는 캐시된 입력을 포함
+    const cacheReadTokens = message.tokens ? message.tokens.cached || 0 : undefined;
+    const inputTokens = message.tokens
+      ? Math.max(0, (message.tokens.input || 0) - (cacheReadTokens || 0))
+      : undefined;
+    const outputTokens = message.tokens ? (message.tokens.output || 0) + (message.tokens.thoughts || 0) : undefined;
+    totalInputTokens += inputTokens || 0;
+    totalOutputTokens += outputTokens || 0;
+    totalCacheReadTokens += cacheReadTokens || 0;
+
+    const tools = (message.toolCalls ?? []).map((call) => call.name).filter(Boolean);
+    const thinking = (message.thoughts ?? [])
+      .map((t) => [t.subject, t.description].filter(Boolean).join(': '))
+      .filter(Boolean)
+      .join('\n');
+
+    if (!content && tools.length === 0) return;
+
+    turns.push({
+      id,
+      role: 'assistant',
+      content,
+      timestamp,
+      model: message.model,
+      thinking: thinking || undefined,
+      toolsUsed: tools.length > 0 ? tools : undefined,
+      inputTokens,
+      outputTokens,
+      cacheReadTokens,
+    });
+  });
+
+  return {
+    id: chat.sessionId,
+    source: 'gemini-cli',
+    project: projectName,
+    projectPath: chat.projectHash ?? projectName,
+    startedAt: startTime || new Date(),
+    endedAt: endTime || new Date(),
+    model,
+    totalInputTokens,
+    totalOutputTokens,
+    totalCacheReadTokens,
+    turns,
+    summaries: [],
+  };
+}
+
+/**
+ * logs.json 의 한 세션 (사용자 메시지만) 을 구조화된 대화로 변환
+ */
+export function parseGeminiLogSession(
+  entries: GeminiLogEntry[],
+  sessionId: string,
+  projectName: string
+): ParsedConversation | null {
+  const turns: ParsedTurn[] = entries
+    .filter((e) => e.sessionId === sessionId && e.type === 'user' && e.message)
+    .sort((a, b) => a.messageId - b.messageId)
+    .map((e) => ({
+      id: `${sessionId}:${e.messageId}`,
+      role: 'user' as const,
+      content: e.message,
+      timestamp: new Date(e.timestamp),
+    }));
+
+  if (turns.length === 0) return null;
+
+  return {
+    id: sessionId,
+    source: 'gemini-cli',
+    project: projectName,
+    projectPath: projectName,
+    startedAt: turns[0].timestamp,
+    endedAt: turns[turns.length - 1].timestamp,
+    model: '',
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    turns,
+    summaries: [],
+  };
+}
+
+function validateProjectPath(projectName: string): string | null {
+  const resolved = resolve(GEMINI_TMP_PATH, projectName);
+  if (!resolved.startsWith(GEMINI_TMP_PATH + sep)) {
+    console.error(`[Gemini Parser] Path traversal detected: ${projectName}`);
+    return null;
+  }
+  return resolved;
+}
+
+function readJson<T>(filePath: string): T | null {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8')) as T;
+  } catch (err) {
+    console.error(`[Gemini Parser] Failed to read ${filePath}:`, (err as Error).message);
+    return null;
+  }
+}
+
+function listChatFiles(projectPath: string): string[] {
+  try {
+    return readdirSync(join(projectPath, CHATS_DIR))
+      .filter((entry) => entry.startsWith('session-') && entry.endsWith('.json'))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Gemini CLI 세션 소스
+ * 세션 키: "chats/<file>.json" 또는 "logs.json#<sessionId>"
+ */
+export const geminiSource: SessionSource = {
+  id: 'gemini-cli',
+  displayName: 'Gemini CLI',
+
+  listProjects(): string[] {
+    try {
+      return readdirSync(GEMINI_TMP_PATH).filter((entry) => {
+        const fullPath = join(GEMINI_TMP_PATH, entry);
+        return (
+          statSync(fullPath).isDirectory() &&
+          (existsSync(join(fullPath, CHATS_DIR)) || existsSync(join(fullPath, LOGS_FILE)))
+        );
+      });
+    } catch {
+      return [];
+    }
+  },
+
+  listSessions(projectName: string): string[] {
+    const projectPath = validateProjectPath(projectName);
+    if (!projectPath) return [];
+
+    const chatFiles = listChatFiles(projectPath);
+    const chatSessionIds = new Set(
+      chatFiles
+        .map((file) => readJson<GeminiChatFile>(join(projectPath, CHATS_DIR, file))?.sessionId)
+        .filter(Boolean)
+    );
+
+    const logEntries = existsSync(join(projectPath, LOGS_FILE))
+      ? readJson<GeminiLogEntry[]>(join(projectPath, LOGS_FILE)) ?? []
+      : [];
+    const logOnlySessions = [...new Set(logEntries.map((e) => e.sessionId))].filter(
+      (sessionId) => sessionId && !chatSessionIds.has(sessionId)
+    );
+
+    return [
+      ...chatFiles.map((file) => `${CHATS_DIR}/${file}`),
+      ...logOnlySessions.map((sessionId) => `${LOG_SESSION_PREFIX}${sessionId}`),
+    ];
+  },
+
+  getConversationId(projectName: string, sessionFile: string): string {
+    if (sessionFile.startsWith(LOG_SESSION_PREFIX)) {
+      return sessionFile.slice(LOG_SESSION_PREFIX.length);
+    }
+    const projectPath = validateProjectPath(projectName);
+    const chat = projectPath ? readJson<GeminiChatFile>(join(projectPath, sessionFile)) : null;
+    return chat?.sessionId ?? sessionFile;
+  },
+
+  getSessionFilePath(projectName: string, sessionFile: string): string | null {
+    const projectPath = validateProjectPath(projectName);
+    if (!projectPath) return null;
+    if (sessionFile.startsWith(LOG_SESSION_PREFIX)) return join(projectPath, LOGS_FILE);
+
+    const filePath = resolve(projectPath, sessionFile);
+    return filePath.startsWith(join(projectPath, CHATS_DIR) + sep) ? filePath : null;
+  },
+
+  parseSession(projectName: string, sessionFile: string): ParsedConversation | null {
+    const projectPath = validateProjectPath(projectName);
+    if (!projectPath) return null;
+
+    if (sessionFile.startsWith(LOG_SESSION_PREFIX)) {
+      const entries = readJson<GeminiLogEntry[]>(join(projectPath, LOGS_FILE));
+      return entries
+        ? parseGeminiLogSession(entries, sessionFile.slice(LOG_SESSION_PREFIX.length), projectName)
+        : null;
+    }
+
+    const filePath = resolve(projectPath, sessionFile);
+    if (!filePath.startsWith(join(projectPath, CHATS_DIR) + sep)) {
+      console.error(`[Gemini Parser] Path traversal detected: ${sessionFile}`);
+      return null;
+    }
+
+    const chat = readJson<GeminiChatFile>(filePath);
+    return chat ? parseGeminiChat(chat, projectName) : null;
+  },
+};
@@ -1,2 +1,16 @@
-export { listProjects, listSessions } from './claude-code-parser.js';
-export { parseJsonlFile, parseSession } from './session-parser.js';
+export { listProjects, listSessions, claudeCodeSource, getClaudeProjectsPath } from './claude-code-parser.js';
+export { parseJsonlFile, parseSession, parseSessionFrom } from './session-parser.js';
+export { readJsonlFrom, type JsonlEntry, type JsonlReadResult } from './jsonl-reader.js';
+export { codexSource, parseCodexRollout, getCodexConversationId } from './codex-parser.js';
+export { aiderSource, parseAiderChat, splitAiderChats, getAiderConversationId } from './aider-parser.js';
+export { geminiSource, parseGeminiChat, parseGeminiLogSession } from './gemini-parser.js';
+export {
+  registerSessionSource,
+  getSessionSource,
+  getSessionSources,
+  beginSourceScan,
+  isAssistantSource,
+} from './source-registry.js';
+export { encodeProjectPath, decodeProjectPath } from './project-path.js';
+export { buildConversationTree, MAIN_BRANCH_ID, type ConversationTree } from './conversation-tree.js';
+export { redactSecrets, summarizeToolInput, summarizeToolResult, extractToolTarget } from './tool-calls.js';
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import { mkdirSync, writeFileSync, appendFileSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { readJsonlFrom } from './jsonl-reader.js';
+import { parseSessionFrom } from './session-parser.js';
+
+const { home } = vi.hoisted(() => ({
+    home: `${process.env.TMPDIR || '/tmp'}/pe-jsonl-reader-${process.pid}`,
+}));
+
+// CLAUDE_PROJECTS_PATH 를 임시 디렉터리로
+vi.mock('os', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('os')>()),
+    homedir: () => home,
+}));
+
+const PROJECT = '-tmp-demo';
+const projectDir = join(home, '.claude', 'projects', PROJECT);
+const sessionPath = join(projectDir, 'session.jsonl');
+
+function record(obj: Record<string, unknown>): string {
+    return JSON.stringify(obj) + '\n';
+}
+
+beforeEach(() => {
+    mkdirSync(projectDir, { recursive: true });
+});
+
+afterAll(() => {
+    rmSync(home, { recursive: true, force: true });
+});
+
+describe('readJsonlFrom', () => {
+    it('should read complete lines and return the next offset', () => {
+        writeFileSync(sessionPath, record({ n: 1 }) + '\n' + record({ n: 2 }));
+
+        const result = readJsonlFrom<{ n: number }>(sessionPath);
+
+        expect(result.entries.map((e) => e.value.n)).toEqual([1, 2]);
+        expect(result.offset).toBe(statSync(sessionPath).size);
+        expect(result.entries[0].end).toBe(record({ n: 1 }).length);
+    });
+
+    it('should resume from an offset', () => {
+        writeFileSync(sessionPath, record({ n: 1 }) + record({ n: 2 }));
+        const first = readJsonlFrom<{ n: number }>(sessionPath);
+
+        appendFileSync(sessionPath, record({ n: 3 }));
+        const next = readJsonlFrom<{ n: number }>(sessionPath, first.offset);
+
+        expect(next.entries.map((e) => e.value.n)).toEqual([3]);
+    });
+
+    it('should leave a partially written last line for the next read', () => {
+        writeFileSync(sessionPath, record({ n: 1 }) + '{"n":');
+
+        const first = readJsonlFrom<{ n: number }>(sessionPath);
+        expect(first.entries).toHaveLength(1);
+        expect(first.offset).toBe(record({ n: 1 }).length);
+
+        appendFileSync(sessionPath, '2}\n');
+        const next = readJsonlFrom<{ n: number }>(sessionPath, first.offset);
+        expect(next.entries.map((e) => e.value.n)).toEqual([2]);
+    });
+
+    it('should skip malformed lines', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        writeFileSync(sessionPath, record({ n: 1 }) + '{invalid}\n' + record({ n: 2 }));
+
+        const result = readJsonlFrom<{ n: number }>(sessionPath);
+
+        expect(result.entries.map((e) => e.value.n)).toEqual([1, 2]);
+    });
+
+    it('should read lines larger than the read buffer', () => {
+        const text = 'x'.repeat(200 * 1024);
+        writeFileSync(sessionPath, record({ text }) + record({ n: 2 }));
+
+        const result = readJsonlFrom<{ text?: string; n?: number }>(sessionPath);
+
+        expect(result.entries[0].value.text).toHaveLength(text.length);
+        expect(result.entries[1].value.n).toBe(2);
+    });
+});
+
+describe('parseSessionFrom', () => {
+    it('should parse only records added after the offset', () => {
+        writeFileSync(
+            sessionPath,
+            record({ type: 'user', uuid: 'u1', parentUuid: null, timestamp: '2024-01-01T10:00:00Z', message: { content: 'Add a login form' } }) +
+            record({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', timestamp: '2024-01-01T10:00:05Z', message: { id: 'm1', content: [{ type: 'text', text: 'Done' }], usage: { input_tokens: 10, output_tokens: 5 } } })
+        );
+        const first = parseSessionFrom(PROJECT, 'session.jsonl')!;
+        expect(first.conversation.turns).toHaveLength(2);
+
+        appendFileSync(
+            sessionPath,
+            record({ type: 'user', uuid: 'u2', parentUuid: 'a1', timestamp: '2024-01-01T10:01:00Z', message: { content: 'Now add validation' } }) +
+            record({ type: 'assistant', uuid: 'a2', parentUuid: 'u2', timestamp: '2024-01-01T10:01:05Z', message: { id: 'm2', content: [{ type: 'text', text: 'Added' }], usage: { input_tokens: 20, output_tokens: 7 } } })
+        );
+        const next = parseSessionFrom(PROJECT, 'session.jsonl', first.offset, first.cursor)!;
+
+        expect(next.conversation.turns.map((t) => t.id)).toEqual(['u2', 'a2']);
+        // 청크 밖의 부모는 레코드 uuid 그대로
+        expect(next.conversation.turns[0].parentId).toBe('a1');
+        expect(next.conversation.totalInputTokens).toBe(20);
+        expect(next.offset).toBe(statSync(sessionPath).size);
+    });
+
+    it('should count a message split across reads once', () => {
+        const usage = { input_tokens: 10, output_tokens: 5 };
+        writeFileSync(
+            sessionPath,
+            record({ type: 'user', uuid: 'u1', timestamp: '2024-01-01T10:00:00Z', message: { content: 'Run the tests' } }) +
+            record({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', timestamp: '2024-01-01T10:00:01Z', message: { id: 'm1', content: [{ type: 'text', text: 'Running' }], usage } })
+        );
+        const first = parseSessionFrom(PROJECT, 'session.jsonl')!;
+
+        appendFileSync(
+            sessionPath,
+            record({ type: 'assistant', uuid: 'a1b', parentUuid: 'a1', timestamp: '2024-01-01T10:00:01Z', message: { id: 'm1', content: [{ type: 'text', text: 'still running' }], usage } })
+        );
+        const next = parseSessionFrom(PROJECT, 'session.jsonl', first.offset, first.cursor)!;
+
+        expect(first.conversation.totalInputTokens).toBe(10);
+        expect(next.conversation.totalInputTokens).toBe(0);
+    });
+
+    it('should return results for tool calls from an earlier read', () => {
+        writeFileSync(
+            sessionPath,
+            record({ type: 'user', uuid: 'u1', timestamp: '2024-01-01T10:00:00Z', message: { content: 'Run the tests' } }) +
+            record({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', timestamp: '2024-01-01T10:00:01Z', message: { content: [{ type: 'text', text: 'Running' }, { type: 'tool_use', id: 'tu1', name: 'Bash', input: { command: 'npm test' } }] } })
+        );
+        const first = parseSessionFrom(PROJECT, 'session.jsonl')!;
+
+        appendFileSync(
+            sessionPath,
+            record({ type: 'user', uuid: 'r1', parentUuid: 'a1', timestamp: '2024-01-01T10:00:04Z', message: { content: [{ type: 'tool_result', tool_use_id: 'tu1', content: 'Error: 2 failing', is_error: true }] } })
+        );
+        const next = parseSessionFrom(PROJECT, 'session.jsonl', first.offset, first.cursor)!;
+
+        expect(next.conversation.turns).toHaveLength(0);
+        expect(next.toolResults).toEqual([
+            expect.objectContaining({ toolUseId: 'tu1', isError: true, result: 'Error: 2 failing' }),
+        ]);
+    });
+
+    it('should defer trailing tool calls until their turn is written', () => {
+        writeFileSync(
+            sessionPath,
+            record({ type: 'user', uuid: 'u1', timestamp: '2024-01-01T10:00:00Z', message: { content: 'Run the tests' } })
+        );
+        const userOnly = statSync(sessionPath).size;
+        appendFileSync(
+            sessionPath,
+            record({ type: 'assistant', uuid: 't1', parentUuid: 'u1', timestamp: '2024-01-01T10:00:01Z', message: { content: [{ type: 'tool_use', id: 'tu1', name: 'Bash', input: { command: 'npm test' } }] } })
+        );
+
+        const chunk = parseSessionFrom(PROJECT, 'session.jsonl')!;
+
+        expect(chunk.conversation.turns.map((t) => t.id)).toEqual(['u1']);
+        expect(chunk.offset).toBe(userOnly);
+    });
+});
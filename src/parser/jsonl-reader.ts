@@ -0,0 +1,78 @@
+/**
+ * JSONL 이어 읽기
+ * 바이트 오프셋부터 완결된 줄만 청크 단위로 읽어, 실행 중인 세션의 추가분만 처리
+ */
+
+import { openSync, readSync, closeSync } from 'fs';
+
+const CHUNK_SIZE = 64 * 1024;
+const NEWLINE = 0x0a;
+
+export interface JsonlEntry<T> {
+  value: T;
+  /** 이 줄 다음 바이트 오프셋 */
+  end: number;
+}
+
+export interface JsonlReadResult<T> {
+  entries: JsonlEntry<T>[];
+  /** 마지막으로 완결된 줄 다음 오프셋 (쓰는 중인 마지막 줄은 다음에 다시 읽음) */
+  offset: number;
+}
+
+/**
+ * offset 부터 JSONL 레코드 읽기 (파싱 실패한 줄은 건너뜀)
+ */
+export function readJsonlFrom<T>(filePath: string, offset: number = 0): JsonlReadResult<T> {
+  const entries: JsonlEntry<T>[] = [];
+  const buffer = Buffer.alloc(CHUNK_SIZE);
+  let position = offset;
+  let lineStart = offset;
+  let pending: Buffer[] = [];
+
+  const fd = openSync(filePath, 'r');
+  try {
+    for (;;) {
+      const bytesRead = readSync(fd, buffer, 0, CHUNK_SIZE, position);
+      if (bytesRead === 0) break;
+
+      let sliceStart = 0;
+      for (let i = 0; i < bytesRead; i++) {
+        if (buffer[i] !== NEWLINE) continue;
+
+        const line = Buffer.concat([...pending, buffer.subarray(sliceStart, i)]).toString('utf-8').trim();
+        const end = position + i + 1;
+        pending = [];
+        sliceStart = i + 1;
+        lineStart = end;
+
+        if (!line) continue;
+        try {
+          entries.push({ value: JSON.parse(line) as T, end });
+        } catch (err) {
+          console.warn(`[Parser] Skipped malformed JSON at ${filePath}@${end}:`, (err as Error).message);
+        }
+      }
+
+      if (sliceStart < bytesRead) {
+        pending.push(Buffer.from(buffer.subarray(sliceStart, bytesRead)));
+      }
+      position += bytesRead;
+    }
+  } finally {
+    closeSync(fd);
+  }
+
+  // 개행 없이 끝난 마지막 줄은 JSON 으로 완결된 경우에만 포함
+  const tail = Buffer.concat(pending).toString('utf-8').trim();
+  if (tail) {
+    try {
+      entries.push({ value: JSON.parse(tail) as T, end: position });
+      lineStart = position;
+    } catch {
+      // 아직 쓰는 중
+    }
+  }
+
+  return { entries, offset: lineStart };
+}
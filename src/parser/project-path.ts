@@ -0,0 +1,19 @@
+/**
+ * 프로젝트 경로 인코딩
+ * Claude Code 의 ~/.claude/projects/ 디렉토리명 규칙을 모든 소스가 공유
+ * (같은 저장소의 대화가 어시스턴트와 무관하게 같은 project 로 묶이도록)
+ */
+
+/**
+ * 절대 경로 → 프로젝트 키 (/Users/me/app → -Users-me-app)
+ */
+export function encodeProjectPath(path: string): string {
+  return path.replace(/[\\/.:]/g, '-');
+}
+
+/**
+ * 프로젝트 키 → 표시용 경로 (손실 있음: 원래 '-' 도 '/' 로 복원됨)
+ */
+export function decodeProjectPath(encoded: string): string {
+  return encoded.replace(/-/g, '/').replace(/^\//, '');
+}
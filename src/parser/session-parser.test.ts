@@ -5,6 +5,8 @@ import { readFileSync } from 'fs';
 // Mock fs module
 vi.mock('fs', () => ({
     readFileSync: vi.fn(),
+    // No redaction.json: built-in redaction rules
+    existsSync: vi.fn(() => false),
 }));
 
 describe('session-parser', () => {
@@ -163,4 +165,117 @@ describe('session-parser', () => {
             expect(result?.projectPath).toBe('home/user/projects');
         });
     });
+
+    describe('tool calls', () => {
+        const record = (fields: Record<string, unknown>) => JSON.stringify(fields);
+
+        const session = [
+            record({ type: 'user', uuid: 'u1', timestamp: '2024-01-01T10:00:00Z', message: { content: 'Run the tests' } }),
+            record({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', timestamp: '2024-01-01T10:00:01Z', message: { content: [{ type: 'tool_use', id: 'tu1', name: 'Bash', input: { command: 'npm test', description: 'Run tests' } }] } }),
+            record({ type: 'user', uuid: 'r1', parentUuid: 'a1', timestamp: '2024-01-01T10:00:04Z', message: { content: [{ type: 'tool_result', tool_use_id: 'tu1', content: 'Error: 2 failing', is_error: true }] } }),
+            record({ type: 'assistant', uuid: 'a2', parentUuid: 'r1', timestamp: '2024-01-01T10:00:05Z', message: { content: [{ type: 'tool_use', id: 'tu2', name: 'Edit', input: { file_path: '/repo/src/login.ts', old_string: 'a', new_string: 'b' } }] } }),
+            record({ type: 'user', uuid: 'r2', parentUuid: 'a2', timestamp: '2024-01-01T10:00:05.500Z', message: { content: [{ type: 'tool_result', tool_use_id: 'tu2', content: [{ type: 'text', text: 'File updated' }] }] } }),
+            record({ type: 'assistant', uuid: 'a3', parentUuid: 'r2', timestamp: '2024-01-01T10:00:06Z', message: { content: [{ type: 'text', text: 'Fixed the failing tests' }] } }),
+        ].join('\n');
+
+        it('should attach tool calls from tool-only records to the next reply', () => {
+            vi.mocked(readFileSync).mockReturnValue(session);
+
+            const result = parseSession('test-project', 'session-tools.jsonl');
+            const reply = result?.turns.find((t) => t.id === 'a3');
+
+            expect(result?.turns).toHaveLength(2);
+            expect(reply?.toolsUsed).toEqual(['Bash', 'Edit']);
+            expect(reply?.toolCalls?.map((c) => c.target)).toEqual(['npm test', '/repo/src/login.ts']);
+        });
+
+        it('should link tool results with error flags and durations', () => {
+            vi.mocked(readFileSync).mockReturnValue(session);
+
+            const result = parseSession('test-project', 'session-tools.jsonl');
+            const [bash, edit] = result?.turns.find((t) => t.id === 'a3')?.toolCalls ?? [];
+
+            expect(bash).toMatchObject({ id: 'tu1', isError: true, result: 'Error: 2 failing', durationMs: 3000 });
+            expect(edit).toMatchObject({ id: 'tu2', isError: false, result: 'File updated', durationMs: 500 });
+            expect(JSON.parse(edit.input ?? '{}')).toMatchObject({ file_path: '/repo/src/login.ts' });
+        });
+    });
+
+    describe('conversation tree', () => {
+        const record = (fields: Record<string, unknown>) =>
+            JSON.stringify({ timestamp: '2024-01-01T10:00:00Z', ...fields });
+
+        const rewound = [
+            record({ type: 'user', uuid: 'u1', parentUuid: null, message: { content: 'Add a login form' } }),
+            record({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', message: { content: [{ type: 'text', text: 'Done' }] } }),
+            record({ type: 'user', uuid: 'u2', parentUuid: 'a1', message: { content: 'Now add validaton' } }),
+            record({ type: 'assistant', uuid: 'a2', parentUuid: 'u2', message: { content: [{ type: 'text', text: 'Added' }] } }),
+            record({ type: 'user', uuid: 's1', parentUuid: 'a1', isSidechain: true, message: { content: 'Search for form helpers' } }),
+            record({ type: 'user', uuid: 'u3', parentUuid: 'a1', message: { content: 'Now add email validation' } }),
+            record({ type: 'assistant', uuid: 'a3', parentUuid: 'u3', message: { content: [{ type: 'text', text: 'Added email checks' }] } }),
+        ].join('\n');
+
+        it('should mark the path to the last message as main', () => {
+            vi.mocked(readFileSync).mockReturnValue(rewound);
+
+            const result = parseSession('test-project', 'session-tree.jsonl');
+            const byId = new Map(result?.turns.map((t) => [t.id, t]));
+
+            for (const id of ['u1', 'a1', 'u3', 'a3']) {
+                expect(byId.get(id)).toMatchObject({ branchType: 'main', branchId: 'main' });
+            }
+        });
+
+        it('should keep rewound and sidechain turns with their branch', () => {
+            vi.mocked(readFileSync).mockReturnValue(rewound);
+
+            const result = parseSession('test-project', 'session-tree.jsonl');
+            const byId = new Map(result?.turns.map((t) => [t.id, t]));
+
+            expect(result?.turns).toHaveLength(7);
+            expect(byId.get('u2')).toMatchObject({ branchType: 'abandoned', branchId: 'u2', parentId: 'a1' });
+            expect(byId.get('a2')).toMatchObject({ branchType: 'abandoned', branchId: 'u2', parentId: 'u2' });
+            expect(byId.get('s1')).toMatchObject({ branchType: 'sidechain', branchId: 's1' });
+        });
+
+        it('should link turns across records that are not turns', () => {
+            const content = [
+                record({ type: 'user', uuid: 'u1', parentUuid: null, message: { content: 'Run the tests' } }),
+                record({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', message: { content: [{ type: 'text', text: 'Running' }, { type: 'tool_use', name: 'bash' }] } }),
+                record({ type: 'user', uuid: 'r1', parentUuid: 'a1', message: { content: [{ type: 'tool_result', content: 'ok' }] } }),
+                record({ type: 'assistant', uuid: 'a2', parentUuid: 'r1', message: { content: [{ type: 'text', text: 'All green' }] } }),
+            ].join('\n');
+            vi.mocked(readFileSync).mockReturnValue(content);
+
+            const result = parseSession('test-project', 'session-tools.jsonl');
+            const last = result?.turns[result.turns.length - 1];
+
+            expect(last?.id).toBe('a2');
+            expect(last?.parentId).toBe('a1');
+        });
+    });
+
+    describe('token usage', () => {
+        const record = (fields: Record<string, unknown>) =>
+            JSON.stringify({ timestamp: '2024-01-01T10:00:00Z', ...fields });
+        const usage = { input_tokens: 5, output_tokens: 40, cache_creation_input_tokens: 1000, cache_read_input_tokens: 20000 };
+
+        it('should count usage once per message id and track cache tokens', () => {
+            const content = [
+                record({ type: 'user', uuid: 'u1', parentUuid: null, message: { content: 'Refactor the parser' } }),
+                record({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage, content: [{ type: 'thinking', thinking: 'Plan' }] } }),
+                record({ type: 'assistant', uuid: 'a2', parentUuid: 'a1', message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage, content: [{ type: 'text', text: 'Refactored' }] } }),
+            ].join('\n');
+            vi.mocked(readFileSync).mockReturnValue(content);
+
+            const result = parseSession('test-project', 'session-usage.jsonl');
+            const reply = result?.turns.find((t) => t.role === 'assistant');
+
+            expect(result?.totalInputTokens).toBe(5);
+            expect(result?.totalOutputTokens).toBe(40);
+            expect(result?.totalCacheCreationTokens).toBe(1000);
+            expect(result?.totalCacheReadTokens).toBe(20000);
+            expect(reply).toMatchObject({ inputTokens: 5, outputTokens: 40, cacheCreationTokens: 1000, cacheReadTokens: 20000 });
+        });
+    });
 });
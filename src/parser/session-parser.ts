@@ -9,12 +9,20 @@ import type {
   ClaudeCodeRecord,
   ParsedConversation,
   ParsedTurn,
+  ParsedToolCall,
   AssistantContentItem,
   UserRecord,
   UserContent,
-  SummaryRecord
+  SummaryRecord,
+  SessionChunk,
+  SessionCursor,
+  ToolResultUpdate
 } from '../types/index.js';
 import type { AssistantRecord } from '../types/assistant.js';
+import { decodeProjectPath } from './project-path.js';
+import { buildConversationTree, MAIN_BRANCH_ID } from './conversation-tree.js';
+import { summarizeToolInput, extractToolTarget, summarizeToolResult } from './tool-calls.js';
+import { readJsonlFrom, type JsonlReadResult } from './jsonl-reader.js';
 
 const CLAUDE_PROJECTS_PATH = join(homedir(), '.claude', 'projects');
 
@@ -54,26 +62,117 @@ export function parseJsonlFile(filePath: string): ClaudeCodeRecord[] {
  * 세션 파일을 구조화된 대화로 변환
  */
 export function parseSession(projectName: string, sessionFile: string): ParsedConversation | null {
+  const filePath = resolveSessionPath(projectName, sessionFile);
+  if (!filePath) return null;
+  const records = parseJsonlFile(filePath);
+
+  if (records.length === 0) return null;
+
+  return buildConversation(records, projectName, sessionFile).conversation;
+}
+
+/**
+ * 바이트 오프셋부터 추가된 레코드만 파싱 (실행 중인 세션의 이어 읽기)
+ * - 끝부분에 다음 응답 턴으로 넘길 도구 호출/토큰만 남으면 그 레코드들은 다음에 다시 읽음
+ * - 이전 구간에서 저장한 도구 호출의 결과는 toolResults 로 반환
+ */
+export function parseSessionFrom(
+  projectName: string,
+  sessionFile: string,
+  offset: number = 0,
+  cursor: SessionCursor = {}
+): SessionChunk | null {
+  const filePath = resolveSessionPath(projectName, sessionFile);
+  if (!filePath) return null;
+
+  let read: JsonlReadResult<ClaudeCodeRecord>;
+  try {
+    read = readJsonlFrom<ClaudeCodeRecord>(filePath, offset);
+  } catch (err) {
+    console.error(`[Parser] Failed to read file ${filePath}:`, (err as Error).message);
+    return null;
+  }
+
+  return buildConversation(
+    read.entries.map((entry) => entry.value),
+    projectName,
+    sessionFile,
+    { startOffset: offset, endOffset: read.offset, ends: read.entries.map((entry) => entry.end), cursor }
+  );
+}
+
+function resolveSessionPath(projectName: string, sessionFile: string): string | null {
   const filePath = resolve(CLAUDE_PROJECTS_PATH, projectName, sessionFile);
   if (!filePath.startsWith(CLAUDE_PROJECTS_PATH)) {
     console.error(`[Parser] Path traversal detected: ${projectName}/${sessionFile}`);
     return null;
   }
-  const records = parseJsonlFile(filePath);
+  return filePath;
+}
 
-  if (records.length === 0) return null;
+// 이어 읽기 청크 정보 (레코드별 끝 오프셋)
+interface ChunkContext {
+  startOffset: number;
+  endOffset: number;
+  ends: number[];
+  cursor: SessionCursor;
+}
 
+/**
+ * 레코드 배열 → 대화 (chunk 가 있으면 이어 읽기 모드)
+ */
+function buildConversation(
+  records: ClaudeCodeRecord[],
+  projectName: string,
+  sessionFile: string,
+  chunk?: ChunkContext
+): SessionChunk {
   const sessionId = basename(sessionFile, '.jsonl');
+  const tree = buildConversationTree(records);
   const summaries: string[] = [];
   const turns: ParsedTurn[] = [];
+  const toolResults: ToolResultUpdate[] = [];
 
   let model = '';
-  let totalInputTokens = 0;
-  let totalOutputTokens = 0;
+  let totals: TurnUsage = emptyUsage();
   let startTime: Date | null = null;
   let endTime: Date | null = null;
 
-  for (const record of records) {
+  // 텍스트 없는 어시스턴트 레코드의 도구 호출/토큰은 다음 응답 턴에 귀속
+  let pendingCalls: ParsedToolCall[] = [];
+  let pendingUsage: TurnUsage | null = null;
+  const callsById = new Map<string, ParsedToolCall>();
+  // 한 메시지가 여러 레코드(thinking, text, tool_use)로 나뉘어도 usage 는 같은 값이 반복됨
+  const countedMessages = new Set<string>();
+  let lastMessageId = chunk?.cursor.lastMessageId;
+  if (lastMessageId) countedMessages.add(lastMessageId);
+
+  // 이어 읽기: 보류 중인 도구 호출/토큰이 없는 마지막 지점
+  let safe = { index: -1, totals, lastMessageId };
+
+  const flushPending = () => {
+    const last = turns[turns.length - 1];
+    if (last?.role === 'assistant') {
+      if (pendingCalls.length > 0) {
+        last.toolCalls = [...(last.toolCalls ?? []), ...pendingCalls];
+        last.toolsUsed = last.toolCalls.map((call) => call.name);
+      }
+      if (pendingUsage) {
+        Object.assign(last, addUsage(last, pendingUsage));
+      }
+    }
+    pendingCalls = [];
+    pendingUsage = null;
+  };
+
+  records.forEach((record, index) => {
+    processRecord(record);
+    if (pendingCalls.length === 0 && !pendingUsage) {
+      safe = { index, totals, lastMessageId };
+    }
+  });
+
+  function processRecord(record: ClaudeCodeRecord): void {
     // 타임스탬프 추적
     if (record.timestamp) {
       const ts = new Date(record.timestamp);
@@ -84,16 +183,20 @@ export function parseSession(projectName: string, sessionFile: string): ParsedCo
     // Summary 수집
     if (record.type === 'summary') {
       summaries.push((record as SummaryRecord).summary);
-      continue;
+      return;
     }
 
     // User 턴
     if (record.type === 'user') {
       const userRecord = record as UserRecord;
+      const unlinked = linkToolResults(userRecord, callsById);
+      if (chunk) toolResults.push(...unlinked);
       const content = extractUserContent(userRecord.message.content);
 
       // 빈 컨텐츠는 스킵
-      if (!content) continue;
+      if (!content) return;
+
+      flushPending();
 
       turns.push({
         id: userRecord.uuid || '',
@@ -102,7 +205,7 @@ export function parseSession(projectName: string, sessionFile: string): ParsedCo
         timestamp: new Date(userRecord.timestamp || ''),
         parentId: userRecord.parentUuid || undefined,
       });
-      continue;
+      return;
     }
 
     // Assistant 턴
@@ -115,32 +218,80 @@ export function parseSession(projectName: string, sessionFile: string): ParsedCo
         model = assistantRecord.message.model;
       }
 
-      // 토큰 사용량 누적
-      if (assistantRecord.message.usage) {
-        totalInputTokens += assistantRecord.message.usage.input_tokens || 0;
-        totalOutputTokens += assistantRecord.message.usage.output_tokens || 0;
+      // 토큰 사용량 누적 (메시지당 한 번)
+      const usage = assistantRecord.message.usage;
+      const messageId = assistantRecord.message.id;
+      if (usage && !(messageId && countedMessages.has(messageId))) {
+        if (messageId) {
+          countedMessages.add(messageId);
+          lastMessageId = messageId;
+        }
+        const recordUsage: TurnUsage = {
+          inputTokens: usage.input_tokens || 0,
+          outputTokens: usage.output_tokens || 0,
+          cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+          cacheReadTokens: usage.cache_read_input_tokens || 0,
+        };
+        totals = addUsage(totals, recordUsage);
+        pendingUsage = pendingUsage ? addUsage(pendingUsage, recordUsage) : recordUsage;
       }
 
       // 콘텐츠 추출
       const textContent = extractText(content);
       const thinking = extractThinking(content);
-      const toolsUsed = extractTools(content);
+      const toolCalls = extractToolCalls(content, assistantRecord.timestamp);
+      for (const call of toolCalls) {
+        if (call.id) callsById.set(call.id, call);
+      }
 
       // 텍스트 콘텐츠가 있는 경우만 턴으로 추가
-      if (textContent) {
-        turns.push({
-          id: assistantRecord.uuid || '',
-          role: 'assistant',
-          content: textContent,
-          timestamp: new Date(assistantRecord.timestamp || ''),
-          parentId: assistantRecord.parentUuid || undefined,
-          model: assistantRecord.message.model,
-          thinking,
-          toolsUsed: toolsUsed.length > 0 ? toolsUsed : undefined,
-          inputTokens: assistantRecord.message.usage?.input_tokens,
-          outputTokens: assistantRecord.message.usage?.output_tokens,
-        });
+      if (!textContent) {
+        pendingCalls.push(...toolCalls);
+        return;
       }
+
+      const turnCalls = [...pendingCalls, ...toolCalls];
+      const turnUsage: TurnUsage | null = pendingUsage;
+      pendingCalls = [];
+      pendingUsage = null;
+      turns.push({
+        id: assistantRecord.uuid || '',
+        role: 'assistant',
+        content: textContent,
+        timestamp: new Date(assistantRecord.timestamp || ''),
+        parentId: assistantRecord.parentUuid || undefined,
+        model: assistantRecord.message.model,
+        thinking,
+        toolsUsed: turnCalls.length > 0 ? turnCalls.map((call) => call.name) : undefined,
+        toolCalls: turnCalls.length > 0 ? turnCalls : undefined,
+        ...turnUsage,
+      });
+    }
+  }
+
+  // 남은 도구 호출/토큰: 마지막 턴이 응답이면 붙이고,
+  // 이어 읽기에서 붙일 턴이 없으면 보류 구간을 다음 읽기로 미룸
+  let offset = chunk?.endOffset ?? 0;
+  const hasPending = pendingCalls.length > 0 || pendingUsage !== null;
+  if (chunk && hasPending && turns[turns.length - 1]?.role !== 'assistant') {
+    offset = safe.index >= 0 ? chunk.ends[safe.index] : chunk.startOffset;
+    totals = safe.totals;
+    lastMessageId = safe.lastMessageId;
+    pendingCalls = [];
+    pendingUsage = null;
+  }
+  flushPending();
+
+  // 트리 정보 반영: 분기 표시 및 parentId 를 가장 가까운 조상 턴으로 보정
+  // (이어 읽기에서는 이전 구간의 조상 레코드 uuid 를 남겨 두고 임포트 시 연결)
+  const turnIds = new Set(turns.map((t) => t.id).filter(Boolean));
+  for (const turn of turns) {
+    const node = turn.id ? tree.nodes.get(turn.id) : undefined;
+    turn.branchId = node?.branchId ?? MAIN_BRANCH_ID;
+    turn.branchType = node?.branchType ?? 'main';
+    if (turn.id) {
+      turn.parentId = tree.findAncestor(turn.id, turnIds)
+        ?? (chunk && chunk.startOffset > 0 ? tree.findExternalAncestor(turn.id) : undefined);
     }
   }
 
@@ -148,21 +299,49 @@ export function parseSession(projectName: string, sessionFile: string): ParsedCo
   const projectPath = decodeProjectPath(projectName);
 
   return {
-    id: sessionId,
-    project: projectName,
-    projectPath,
-    startedAt: startTime || new Date(),
-    endedAt: endTime || new Date(),
-    model,
-    totalInputTokens,
-    totalOutputTokens,
-    turns,
-    summaries,
+    conversation: {
+      id: sessionId,
+      source: 'claude-code',
+      project: projectName,
+      projectPath,
+      startedAt: startTime || new Date(),
+      endedAt: endTime || new Date(),
+      model,
+      totalInputTokens: totals.inputTokens,
+      totalOutputTokens: totals.outputTokens,
+      totalCacheCreationTokens: totals.cacheCreationTokens,
+      totalCacheReadTokens: totals.cacheReadTokens,
+      turns,
+      summaries,
+    },
+    offset,
+    cursor: { lastMessageId },
+    toolResults,
   };
 }
 
 // 헬퍼 함수들
 
+interface TurnUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+function emptyUsage(): TurnUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+}
+
+function addUsage(a: Partial<TurnUsage>, b: TurnUsage): TurnUsage {
+  return {
+    inputTokens: (a.inputTokens || 0) + b.inputTokens,
+    outputTokens: (a.outputTokens || 0) + b.outputTokens,
+    cacheCreationTokens: (a.cacheCreationTokens || 0) + b.cacheCreationTokens,
+    cacheReadTokens: (a.cacheReadTokens || 0) + b.cacheReadTokens,
+  };
+}
+
 /**
  * User content에서 텍스트 추출
  * - 문자열이면 그대로 반환
@@ -194,14 +373,50 @@ function extractThinking(content: AssistantContentItem[]): string | undefined {
   return thinking?.thinking;
 }
 
-function extractTools(content: AssistantContentItem[]): string[] {
+function extractToolCalls(content: AssistantContentItem[], timestamp: string | undefined): ParsedToolCall[] {
   return content
     .filter((item): item is { type: 'tool_use'; name: string; id: string; input: Record<string, unknown> } =>
       item.type === 'tool_use'
     )
-    .map(item => item.name);
+    .map(item => ({
+      id: item.id,
+      name: item.name,
+      input: summarizeToolInput(item.input),
+      target: extractToolTarget(item.input),
+      timestamp: timestamp ? new Date(timestamp) : undefined,
+    }));
 }
 
-function decodeProjectPath(encoded: string): string {
-  return encoded.replace(/-/g, '/').replace(/^\//, '');
+/**
+ * tool_result 블록을 대응하는 tool_use 호출에 연결 (결과, 오류 여부, 소요 시간)
+ * 호출이 이 레코드 목록에 없으면 (이전 청크에서 저장) 결과만 반환
+ */
+function linkToolResults(record: UserRecord, callsById: Map<string, ParsedToolCall>): ToolResultUpdate[] {
+  const { content } = record.message;
+  if (typeof content === 'string') return [];
+
+  const unlinked: ToolResultUpdate[] = [];
+  for (const block of content) {
+    if (block.type !== 'tool_result') continue;
+    const call = callsById.get(block.tool_use_id);
+    if (!call) {
+      if (block.tool_use_id) {
+        unlinked.push({
+          toolUseId: block.tool_use_id,
+          result: summarizeToolResult(block.content),
+          isError: block.is_error === true,
+          timestamp: record.timestamp ? new Date(record.timestamp) : undefined,
+        });
+      }
+      continue;
+    }
+
+    call.result = summarizeToolResult(block.content);
+    call.isError = block.is_error === true;
+    if (call.timestamp && record.timestamp) {
+      const durationMs = new Date(record.timestamp).getTime() - call.timestamp.getTime();
+      if (durationMs >= 0) call.durationMs = durationMs;
+    }
+  }
+  return unlinked;
 }
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCodexRollout, getCodexConversationId } from './codex-parser.js';
+import { splitAiderChats, parseAiderChat, getAiderConversationId } from './aider-parser.js';
+import { parseGeminiChat, parseGeminiLogSession } from './gemini-parser.js';
+import { getSessionSources, isAssistantSource } from './source-registry.js';
+import { encodeProjectPath } from './project-path.js';
+
+describe('source-registry', () => {
+    it('should register all built-in sources', () => {
+        const ids = getSessionSources().map((s) => s.id);
+        expect(ids).toEqual(['claude-code', 'codex-cli', 'aider', 'gemini-cli']);
+    });
+
+    it('should validate source ids', () => {
+        expect(isAssistantSource('codex-cli')).toBe(true);
+        expect(isAssistantSource('copilot')).toBe(false);
+    });
+});
+
+describe('codex-parser', () => {
+    const rollout = [
+        { timestamp: '2025-06-01T10:00:00Z', type: 'session_meta', payload: { id: 'abc', cwd: '/Users/me/app' } },
+        { timestamp: '2025-06-01T10:00:00Z', type: 'turn_context', payload: { cwd: '/Users/me/app', model: 'gpt-5-codex' } },
+        { timestamp: '2025-06-01T10:00:01Z', type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: '<environment_context>\n<cwd>/Users/me/app</cwd>\n</environment_context>' }] } },
+        { timestamp: '2025-06-01T10:00:02Z', type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Fix the failing login test' }] } },
+        { timestamp: '2025-06-01T10:00:03Z', type: 'response_item', payload: { type: 'reasoning', summary: [{ type: 'summary_text', text: 'Look at the test first' }] } },
+        { timestamp: '2025-06-01T10:00:04Z', type: 'response_item', payload: { type: 'function_call', name: 'shell', arguments: '{}' } },
+        { timestamp: '2025-06-01T10:00:05Z', type: 'response_item', payload: { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Fixed the assertion.' }] } },
+        { timestamp: '2025-06-01T10:00:06Z', type: 'event_msg', payload: { type: 'token_count', info: { total_token_usage: { input_tokens: 100, cached_input_tokens: 50, output_tokens: 30 } } } },
+    ].map((r) => JSON.stringify(r)).join('\n');
+
+    it('should parse a rollout into a conversation keyed by cwd', () => {
+        const result = parseCodexRollout(rollout, 'abc');
+
+        expect(result?.source).toBe('codex-cli');
+        expect(result?.project).toBe(encodeProjectPath('/Users/me/app'));
+        expect(result?.projectPath).toBe('/Users/me/app');
+        expect(result?.model).toBe('gpt-5-codex');
+        expect(result?.totalInputTokens).toBe(50);
+        expect(result?.totalCacheReadTokens).toBe(50);
+        expect(result?.totalOutputTokens).toBe(30);
+    });
+
+    it('should skip injected context and attach reasoning and tools to the reply', () => {
+        const result = parseCodexRollout(rollout, 'abc');
+
+        expect(result?.turns).toHaveLength(2);
+        expect(result?.turns[0]).toMatchObject({ role: 'user', content: 'Fix the failing login test' });
+        expect(result?.turns[1]).toMatchObject({
+            role: 'assistant',
+            content: 'Fixed the assertion.',
+            thinking: 'Look at the test first',
+            toolsUsed: ['shell'],
+        });
+        expect(result?.turns[0].id).toBe('abc:3');
+    });
+
+    it('should parse the legacy item-per-line format', () => {
+        const legacy = [
+            { id: 'old', timestamp: '2025-01-01T09:00:00Z', instructions: '' },
+            { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Explain this regex' }] },
+            { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'It matches digits.' }] },
+        ].map((r) => JSON.stringify(r)).join('\n');
+
+        const result = parseCodexRollout(legacy, 'old');
+        expect(result?.turns.map((t) => t.role)).toEqual(['user', 'assistant']);
+        expect(result?.project).toBe('codex-unknown');
+    });
+
+    it('should extract the session uuid from the rollout file name', () => {
+        expect(
+            getCodexConversationId('2025/06/01/rollout-2025-06-01T10-00-00-0197a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b.jsonl')
+        ).toBe('0197a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b');
+    });
+
+    describe('snapshot', () => {
+        let codexHome: string | null = null;
+
+        afterEach(() => {
+            vi.unstubAllEnvs();
+            vi.resetModules();
+            if (codexHome) rmSync(codexHome, { recursive: true, force: true });
+            codexHome = null;
+        });
+
+        function writeRollout(day: string, uuid: string, cwd: string): void {
+            const dir = join(codexHome!, 'sessions', '2025', '06', day);
+            mkdirSync(dir, { recursive: true });
+            const record = { timestamp: `2025-06-${day}T10:00:00Z`, type: 'turn_context', payload: { cwd } };
+            writeFileSync(join(dir, `rollout-2025-06-${day}T10-00-00-${uuid}.jsonl`), JSON.stringify(record));
+        }
+
+        it('should index rollouts once and reuse the index for every listing', async () => {
+            codexHome = mkdtempSync(join(tmpdir(), 'pe-codex-'));
+            vi.stubEnv('CODEX_HOME', codexHome);
+            writeRollout('01', '0197a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a51', '/Users/me/app');
+            writeRollout('02', '0197a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a52', '/Users/me/api');
+            vi.resetModules();
+            const { codexSource } = await import('./codex-parser.js');
+
+            const scan = codexSource.snapshot!();
+            const app = encodeProjectPath('/Users/me/app');
+            expect(scan.listProjects().sort()).toEqual([encodeProjectPath('/Users/me/api'), app].sort());
+
+            // Files written after the snapshot only show up in the next scan
+            writeRollout('03', '0197a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a53', '/Users/me/app');
+            expect(scan.listSessions(app)).toHaveLength(1);
+            expect(codexSource.snapshot!().listSessions(app)).toHaveLength(2);
+            expect(scan.id).toBe('codex-cli');
+        });
+    });
+});
+
+describe('aider-parser', () => {
+    const history = [
+        '',
+        '# aider chat started at 2025-05-01 10:00:00',
+        '',
+        '> Main model: gpt-4o with diff edit format',
+        '',
+        '#### add a hello function  ',
+        '#### with a docstring  ',
+        '',
+        'Here is the change:',
+        '',
+        'hello.py',
+        '',
+        '> Tokens: 2.3k sent, 150 received. Cost: $0.01 message, $0.01 session.  ',
+        '> Applied edit to hello.py  ',
+        '> Commit abc1234 feat: add hello  ',
+        '',
+        '# aider chat started at 2025-05-02 09:30:00',
+        '',
+        '#### explain main.py  ',
+        '',
+        'It prints hello.',
+    ].join('\n');
+
+    it('should split the history file by chat header', () => {
+        const chats = splitAiderChats(history);
+        expect(chats.map((c) => c.key)).toEqual(['2025-05-01-10-00-00', '2025-05-02-09-30-00']);
+    });
+
+    it('should parse user prompts, replies, tools and token counts', () => {
+        const [chat] = splitAiderChats(history);
+        const result = parseAiderChat(chat, 'aider-x-1', '-repo', '/repo');
+
+        expect(result.source).toBe('aider');
+        expect(result.model).toBe('gpt-4o');
+        expect(result.turns).toHaveLength(2);
+        expect(result.turns[0]).toMatchObject({ role: 'user', content: 'add a hello function\nwith a docstring' });
+        expect(result.turns[1]).toMatchObject({
+            role: 'assistant',
+            toolsUsed: ['apply_edit', 'git_commit'],
+            inputTokens: 2300,
+            outputTokens: 150,
+            costUsd: 0.01,
+        });
+        expect(result.turns[1].content).toContain('Here is the change:');
+        expect(result.totalInputTokens).toBe(2300);
+    });
+
+    it('should build project-scoped conversation ids', () => {
+        expect(getAiderConversationId('-a', '2025-05-01-10-00-00')).not.toBe(
+            getAiderConversationId('-b', '2025-05-01-10-00-00')
+        );
+    });
+});
+
+describe('gemini-parser', () => {
+    it('should parse a chat session file', () => {
+        const result = parseGeminiChat(
+            {
+                sessionId: 'g-1',
+                projectHash: 'hash',
+                startTime: '2025-07-01T08:00:00Z',
+                messages: [
+                    { id: 'm1', type: 'user', content: 'Write a unit test', timestamp: '2025-07-01T08:00:01Z' },
+                    { id: 'm2', type: 'info', content: 'Loaded 3 files', timestamp: '2025-07-01T08:00:02Z' },
+                    {
+                        id: 'm3',
+                        type: 'gemini',
+                        content: 'Added test.ts',
+                        model: 'gemini-2.5-pro',
+                        timestamp: '2025-07-01T08:00:10Z',
+                        thoughts: [{ subject: 'Plan', description: 'Use vitest' }],
+                        tokens: { input: 200, output: 40, cached: 10, thoughts: 5 },
+                        toolCalls: [{ id: 't1', name: 'write_file' }],
+                    },
+                ],
+            },
+            'hash'
+        );
+
+        expect(result?.source).toBe('gemini-cli');
+        expect(result?.model).toBe('gemini-2.5-pro');
+        expect(result?.turns).toHaveLength(2);
+        expect(result?.turns[1]).toMatchObject({
+            id: 'g-1:m3',
+            thinking: 'Plan: Use vitest',
+            toolsUsed: ['write_file'],
+            inputTokens: 190,
+            cacheReadTokens: 10,
+            outputTokens: 45,
+        });
+        expect(result?.endedAt).toEqual(new Date('2025-07-01T08:00:10Z'));
+    });
+
+    it('should build a user-only conversation from logs.json', () => {
+        const result = parseGeminiLogSession(
+            [
+                { sessionId: 's1', messageId: 1, type: 'user', message: 'second', timestamp: '2025-07-01T08:01:00Z' },
+                { sessionId: 's1', messageId: 0, type: 'user', message: 'first', timestamp: '2025-07-01T08:00:00Z' },
+                { sessionId: 's2', messageId: 0, type: 'user', message: 'other', timestamp: '2025-07-01T09:00:00Z' },
+            ],
+            's1',
+            'hash'
+        );
+
+        expect(result?.turns.map((t) => t.content)).toEqual(['first', 'second']);
+        expect(result?.turns[0].id).toBe('s1:0');
+    });
+});
@@ -0,0 +1,54 @@
+/**
+ * 세션 소스 레지스트리
+ * 어시스턴트별 로그 어댑터를 등록하고 조회
+ */
+
+import type { AssistantSource, SessionSource } from '../types/index.js';
+import { ASSISTANT_SOURCES } from '../types/index.js';
+import { claudeCodeSource } from './claude-code-parser.js';
+import { codexSource } from './codex-parser.js';
+import { aiderSource } from './aider-parser.js';
+import { geminiSource } from './gemini-parser.js';
+
+const registry = new Map<AssistantSource, SessionSource>();
+
+/**
+ * 세션 소스 등록 (같은 id 는 교체)
+ */
+export function registerSessionSource(source: SessionSource): void {
+  registry.set(source.id, source);
+}
+
+/**
+ * id 로 세션 소스 조회
+ */
+export function getSessionSource(id: AssistantSource): SessionSource | undefined {
+  return registry.get(id);
+}
+
+/**
+ * 등록된 모든 세션 소스
+ */
+export function getSessionSources(): SessionSource[] {
+  return [...registry.values()];
+}
+
+/**
+ * 스캔 한 번 동안 쓸 소스 (snapshot 을 지원하면 색인을 한 번만 생성)
+ */
+export function beginSourceScan(source: SessionSource): SessionSource {
+  return source.snapshot?.() ?? source;
+}
+
+/**
+ * 문자열이 지원하는 어시스턴트 id 인지 확인
+ */
+export function isAssistantSource(value: string): value is AssistantSource {
+  return (ASSISTANT_SOURCES as readonly string[]).includes(value);
+}
+
+// 기본 소스
+registerSessionSource(claudeCodeSource);
+registerSessionSource(codexSource);
+registerSessionSource(aiderSource);
+registerSessionSource(geminiSource);
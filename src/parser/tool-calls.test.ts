@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+    redactSecrets,
+    summarizeToolInput,
+    summarizeToolResult,
+    extractToolTarget,
+    MAX_TOOL_INPUT_LENGTH,
+} from './tool-calls.js';
+
+describe('tool-calls', () => {
+    describe('redactSecrets', () => {
+        it('should mask well-known token formats', () => {
+            const text = 'curl -H "Authorization: Bearer abcdef123456789" https://api.example.com?key=1 sk-ant-REDACTED';
+            const result = redactSecrets(text);
+
+            expect(result).not.toContain('abcdef123456789');
+            expect(result).not.toContain('sk-ant-REDACTED');
+            expect(result).toContain('Bearer [REDACTED]');
+        });
+
+        it('should mask secret assignments', () => {
+            expect(redactSecrets('export GITHUB_TOKEN=abc123 && npm publish')).toBe(
+                'export GITHUB_TOKEN=[REDACTED] && npm publish'
+            );
+        });
+    });
+
+    describe('summarizeToolInput', () => {
+        it('should redact secret keys and keep the rest', () => {
+            const summary = summarizeToolInput({ command: 'npm test', env: { API_KEY: 'secret-value' } });
+
+            expect(summary).toContain('npm test');
+            expect(summary).not.toContain('secret-value');
+        });
+
+        it('should truncate long inputs', () => {
+            const summary = summarizeToolInput({ content: 'x'.repeat(5000) });
+
+            expect(summary?.length).toBe(MAX_TOOL_INPUT_LENGTH);
+        });
+
+        it('should return undefined for empty input', () => {
+            expect(summarizeToolInput({})).toBeUndefined();
+        });
+    });
+
+    describe('extractToolTarget', () => {
+        it('should prefer file paths over other fields', () => {
+            expect(extractToolTarget({ file_path: '/repo/src/a.ts', old_string: 'a' })).toBe('/repo/src/a.ts');
+            expect(extractToolTarget({ command: 'ls -la', description: 'List files' })).toBe('ls -la');
+        });
+    });
+
+    describe('summarizeToolResult', () => {
+        it('should join text blocks and mark other blocks', () => {
+            expect(
+                summarizeToolResult([
+                    { type: 'text', text: 'line 1' },
+                    { type: 'image' },
+                ])
+            ).toBe('line 1\n[image]');
+        });
+    });
+});
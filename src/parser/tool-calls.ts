@@ -0,0 +1,82 @@
+/**
+ * 도구 호출 입력/결과 정리
+ * DB 에 보관하기 전에 비밀값을 가리고 길이를 제한
+ */
+
+import { getRedactor } from '../redaction/index.js';
+
+export const MAX_TOOL_INPUT_LENGTH = 500;
+export const MAX_TOOL_RESULT_LENGTH = 500;
+export const MAX_TOOL_TARGET_LENGTH = 300;
+
+const REDACTED = '[REDACTED]';
+
+// 값 전체를 가릴 입력 키
+const SECRET_KEY_PATTERN = /(api[_-]?key|token|secret|password|passwd|authorization|credential|private[_-]?key)/i;
+
+// 도구별 주요 대상 필드 (앞쪽이 우선)
+const TARGET_FIELDS = ['file_path', 'notebook_path', 'path', 'command', 'url', 'pattern', 'query', 'description'];
+
+/**
+ * 문자열 안의 비밀값/PII 마스킹 (가리기 규칙은 redaction 모듈과 공유)
+ */
+export function redactSecrets(text: string): string {
+  return getRedactor().redact(text, { mask: REDACTED }).text;
+}
+
+/**
+ * 최대 길이로 자르기
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function redactValue(value: unknown, key?: string): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key)) return REDACTED;
+  if (typeof value === 'string') return redactSecrets(value);
+  if (Array.isArray(value)) return value.map((item) => redactValue(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redactValue(v, k)])
+    );
+  }
+  return value;
+}
+
+/**
+ * tool_use 입력을 저장용 JSON 요약으로 변환
+ */
+export function summarizeToolInput(input: Record<string, unknown> | undefined): string | undefined {
+  if (!input || Object.keys(input).length === 0) return undefined;
+  return truncate(JSON.stringify(redactValue(input)), MAX_TOOL_INPUT_LENGTH);
+}
+
+/**
+ * 도구 호출의 주요 대상 (파일 경로, 명령어 등)
+ */
+export function extractToolTarget(input: Record<string, unknown> | undefined): string | undefined {
+  if (!input) return undefined;
+  for (const field of TARGET_FIELDS) {
+    const value = input[field];
+    if (typeof value === 'string' && value.trim()) {
+      return truncate(redactSecrets(value.trim()), MAX_TOOL_TARGET_LENGTH);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * tool_result 내용을 저장용 요약으로 변환
+ */
+export function summarizeToolResult(
+  content: string | Array<{ type: string; text?: string }> | undefined
+): string | undefined {
+  if (!content) return undefined;
+  const text = typeof content === 'string'
+    ? content
+    : content
+      .map((block) => (block.type === 'text' ? block.text : `[${block.type}]`))
+      .filter(Boolean)
+      .join('\n');
+  return text ? truncate(redactSecrets(text), MAX_TOOL_RESULT_LENGTH) : undefined;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+}));
+
+import { auditStoredText, createRedactor, maskFinding, revealStoredTurn } from './index.js';
+
+const redactor = createRedactor();
+
+describe('auditStoredText', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        runMigrations(db);
+
+        db.prepare("INSERT INTO conversations (id, project) VALUES ('conv-1', 'app')").run();
+        const insertTurn = db.prepare(
+            'INSERT INTO turns (id, conversation_id, role, content, thinking, turn_index) VALUES (?, ?, ?, ?, ?, ?)'
+        );
+        insertTurn.run('t1', 'conv-1', 'user', 'deploy with key sk-ant-REDACTED', null, 0);
+        insertTurn.run('t2', 'conv-1', 'assistant', 'Done.', 'mail ops@corp.io about it', 1);
+        insertTurn.run('t3', 'conv-1', 'user', 'thanks', null, 2);
+        db.prepare("INSERT INTO summaries (conversation_id, summary) VALUES ('conv-1', 'Rotated key for ops@corp.io')").run();
+        db.prepare("INSERT INTO prompt_embeddings (turn_id, model, dimensions, vector) VALUES ('t1', 'm', 1, x'00000000')").run();
+        db.prepare("INSERT INTO prompt_embeddings (turn_id, model, dimensions, vector) VALUES ('t3', 'm', 1, x'00000000')").run();
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('reports findings per column and kind without changing rows', () => {
+        const report = auditStoredText({ redactor });
+
+        expect(report.scannedRows).toBe(5);
+        expect(report.affectedRows).toBe(3);
+        expect(report.findingsByKind).toEqual({ 'api-key': 1, email: 2 });
+        expect(report.columns.find((c) => c.table === 'turns' && c.column === 'thinking')).toMatchObject({
+            scannedRows: 1,
+            affectedRows: 1,
+        });
+        expect(report.samples[0]).toEqual({
+            table: 'turns',
+            column: 'content',
+            ref: 'conv-1',
+            kind: 'api-key',
+            preview: maskFinding('sk-ant-REDACTED'),
+        });
+        expect(report.samples[0].preview).toBe('sk-a…(35)');
+        expect(report.scrubbed).toBe(false);
+        expect(db.prepare("SELECT content FROM turns WHERE id = 't1'").get()).toEqual({
+            content: 'deploy with key sk-ant-REDACTED',
+        });
+    });
+
+    it('scrubs rows, keeps the search index in sync and drops stale embeddings', () => {
+        auditStoredText({ redactor, scrub: true });
+
+        expect(db.prepare("SELECT content FROM turns WHERE id = 't1'").get()).toEqual({
+            content: 'deploy with key [REDACTED_API_KEY_1]',
+        });
+        expect(db.prepare('SELECT summary FROM summaries').get()).toEqual({ summary: 'Rotated key for [REDACTED_EMAIL_1]' });
+        expect(db.prepare("SELECT COUNT(*) as n FROM turns_fts WHERE turns_fts MATCH '\"corp\"'").get()).toEqual({ n: 0 });
+        expect(db.prepare("SELECT COUNT(*) as n FROM summaries_fts WHERE summaries_fts MATCH 'ops'").get()).toEqual({ n: 0 });
+        expect(db.prepare('SELECT turn_id FROM prompt_embeddings').all()).toEqual([{ turn_id: 't3' }]);
+
+        expect(auditStoredText({ redactor }).affectedRows).toBe(0);
+    });
+
+    it('keeps the scrubbed values in the conversation vault', () => {
+        auditStoredText({ redactor, scrub: true });
+
+        expect(db.prepare('SELECT placeholder, value FROM redaction_vault ORDER BY placeholder').all()).toEqual([
+            { placeholder: '[REDACTED_API_KEY_1]', value: 'sk-ant-REDACTED' },
+            { placeholder: '[REDACTED_EMAIL_1]', value: 'ops@corp.io' },
+        ]);
+        expect(db.prepare("SELECT thinking FROM turns WHERE id = 't2'").get()).toEqual({
+            thinking: 'mail [REDACTED_EMAIL_1] about it',
+        });
+        expect(revealStoredTurn('t1')).toMatchObject({
+            content: 'deploy with key sk-ant-REDACTED',
+            restored: 1,
+        });
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * 저장된 데이터 가리기 감사
+ * 가리기 도입 전에 임포트된 대화 등에서 남아 있는 비밀값/PII 를 찾고 (--scrub) 지움
+ * 대화 텍스트의 원래 값은 대화별 금고에 저장 (팀 데이터는 되돌리지 않음)
+ */
+
+import {
+  REDACTABLE_COLUMNS,
+  iterateRedactableText,
+  updateRedactableText,
+} from '../db/index.js';
+import { getRedactor } from './config.js';
+import type { Redactor, RedactionVault } from './redactor.js';
+import { loadConversationVault, saveConversationVault } from './vault-store.js';
+
+export interface RedactionAuditOptions {
+  /** 찾은 값을 자리표시자로 바꿔 저장 */
+  scrub?: boolean;
+  /** 예시 개수 */
+  sampleLimit?: number;
+  redactor?: Redactor;
+}
+
+export interface RedactionAuditColumn {
+  table: string;
+  column: string;
+  scannedRows: number;
+  affectedRows: number;
+  findings: number;
+}
+
+export interface RedactionAuditSample {
+  table: string;
+  column: string;
+  /** 대화 id (팀 데이터는 팀원 이름) */
+  ref: string;
+  kind: string;
+  /** 값 일부만 보여줌 */
+  preview: string;
+}
+
+export interface RedactionAuditReport {
+  scannedRows: number;
+  affectedRows: number;
+  findingsByKind: Record<string, number>;
+  columns: RedactionAuditColumn[];
+  samples: RedactionAuditSample[];
+  scrubbed: boolean;
+}
+
+const DEFAULT_SAMPLE_LIMIT = 10;
+
+/**
+ * 감사 출력용 마스킹 (앞 몇 글자 + 길이)
+ */
+export function maskFinding(value: string): string {
+  const visible = Math.min(4, Math.floor(value.length / 4));
+  return `${value.slice(0, visible)}…(${value.length})`;
+}
+
+/**
+ * 저장된 자유 텍스트 컬럼 전체 감사
+ */
+export function auditStoredText(options: RedactionAuditOptions = {}): RedactionAuditReport {
+  const redactor = options.redactor ?? getRedactor();
+  const sampleLimit = options.sampleLimit ?? DEFAULT_SAMPLE_LIMIT;
+
+  const report: RedactionAuditReport = {
+    scannedRows: 0,
+    affectedRows: 0,
+    findingsByKind: {},
+    columns: [],
+    samples: [],
+    scrubbed: options.scrub === true,
+  };
+
+  // 대화 id → 금고 (scrub 할 때만, 순회가 끝난 뒤 불러옴)
+  const vaults = new Map<string, RedactionVault>();
+  const vaultFor = (ref: string) => {
+    let vault = vaults.get(ref);
+    if (!vault) {
+      vault = loadConversationVault(ref);
+      vaults.set(ref, vault);
+    }
+    return vault;
+  };
+
+  for (const target of REDACTABLE_COLUMNS) {
+    const column: RedactionAuditColumn = { ...target, scannedRows: 0, affectedRows: 0, findings: 0 };
+    const affected: Array<{ key: string | number; ref: string; text: string }> = [];
+
+    for (const row of iterateRedactableText(target)) {
+      column.scannedRows++;
+      const findings = redactor.scan(row.text);
+      if (findings.length === 0) continue;
+
+      column.affectedRows++;
+      column.findings += findings.length;
+      for (const finding of findings) {
+        report.findingsByKind[finding.kind] = (report.findingsByKind[finding.kind] ?? 0) + 1;
+        if (report.samples.length < sampleLimit) {
+          report.samples.push({ ...target, ref: row.ref, kind: finding.kind, preview: maskFinding(finding.value) });
+        }
+      }
+      if (options.scrub) affected.push(row);
+    }
+
+    if (options.scrub) {
+      const conversationText = target.table !== 'team_prompts';
+      const updates = affected.map((row) => ({
+        key: row.key,
+        text: redactor.redact(row.text, conversationText ? { vault: vaultFor(row.ref) } : {}).text,
+      }));
+      updateRedactableText(target, updates);
+    }
+    report.scannedRows += column.scannedRows;
+    report.affectedRows += column.affectedRows;
+    report.columns.push(column);
+  }
+
+  for (const [conversationId, vault] of vaults) saveConversationVault(conversationId, vault);
+
+  return report;
+}
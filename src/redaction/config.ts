@@ -0,0 +1,117 @@
+/**
+ * 가리기 설정
+ * ~/.prompt-evolution/redaction.json (PE_REDACTION_CONFIG 로 변경), PE_REDACTION=off 로 전체 끄기
+ *
+ * {
+ *   "disable": ["ip"],
+ *   "allow": ["team@company.com"],
+ *   "custom": [{ "name": "employee-id", "pattern": "EMP-\\d{6}" }]
+ * }
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { z } from 'zod';
+import {
+  BUILTIN_REDACTION_KINDS,
+  BUILTIN_REDACTION_RULES,
+  createRedactionVault,
+  createRedactor,
+  type RedactionRule,
+  type RedactionVault,
+  type Redactor,
+} from './redactor.js';
+
+const customRuleSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9-]{0,31}$/, 'lowercase letters, digits and -'),
+  pattern: z.string().min(1),
+  flags: z.string().regex(/^[imsu]*$/, 'only i, m, s, u').optional(),
+});
+
+const configFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  disable: z.array(z.enum(BUILTIN_REDACTION_KINDS)).optional(),
+  allow: z.array(z.string().min(1)).optional(),
+  custom: z.array(customRuleSchema).optional(),
+});
+
+export type RedactionConfigFile = z.infer<typeof configFileSchema>;
+
+/**
+ * 설정 파일 경로
+ */
+export function getRedactionConfigPath(): string {
+  return process.env.PE_REDACTION_CONFIG || join(homedir(), '.prompt-evolution', 'redaction.json');
+}
+
+let redactorCache: { path: string; disabled: boolean; redactor: Redactor } | null = null;
+
+/**
+ * redaction.json 읽기 (없거나 잘못되면 빈 설정)
+ */
+export function loadRedactionConfigFile(filePath: string = getRedactionConfigPath()): RedactionConfigFile {
+  if (!existsSync(filePath)) return {};
+
+  try {
+    const result = configFileSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+    if (result.success) return result.data;
+    console.warn(
+      `[Redaction] Ignoring invalid config ${filePath}:`,
+      result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+    );
+  } catch (err) {
+    console.warn(`[Redaction] Failed to read config ${filePath}:`, (err as Error).message);
+  }
+  return {};
+}
+
+/**
+ * 설정으로 규칙 목록 구성 (잘못된 사용자 정규식은 경고 후 제외)
+ */
+export function buildRedactionRules(config: RedactionConfigFile): RedactionRule[] {
+  const disabled = new Set<string>(config.disable ?? []);
+  const rules: RedactionRule[] = BUILTIN_REDACTION_RULES.filter((rule) => !disabled.has(rule.kind));
+
+  for (const custom of config.custom ?? []) {
+    try {
+      rules.push({ kind: custom.name, pattern: new RegExp(custom.pattern, `g${custom.flags ?? ''}`) });
+    } catch (err) {
+      console.warn(`[Redaction] Ignoring custom rule ${custom.name}:`, (err as Error).message);
+    }
+  }
+  return rules;
+}
+
+/**
+ * 설정된 가리개 (설정 파일 경로/PE_REDACTION 이 같으면 캐시)
+ */
+export function getRedactor(): Redactor {
+  const path = getRedactionConfigPath();
+  const disabled = process.env.PE_REDACTION === 'off';
+  if (redactorCache && redactorCache.path === path && redactorCache.disabled === disabled) {
+    return redactorCache.redactor;
+  }
+
+  const config = loadRedactionConfigFile(path);
+  const redactor = createRedactor(buildRedactionRules(config), {
+    enabled: !disabled && config.enabled !== false,
+    allow: config.allow,
+  });
+  redactorCache = { path, disabled, redactor };
+  return redactor;
+}
+
+/**
+ * 설정 캐시 초기화 (테스트, 설정 변경 후)
+ */
+export function resetRedactionConfigCache(): void {
+  redactorCache = null;
+}
+
+/**
+ * 설정된 규칙으로 텍스트 가리기
+ */
+export function redactText(text: string, vault: RedactionVault = createRedactionVault()): string {
+  return getRedactor().redact(text, { vault }).text;
+}
@@ -0,0 +1,8 @@
+/**
+ * Redaction module exports
+ */
+
+export * from './redactor.js';
+export * from './config.js';
+export * from './audit.js';
+export * from './vault-store.js';
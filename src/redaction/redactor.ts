@@ -0,0 +1,229 @@
+/**
+ * PII / 비밀값 가리기
+ * 저장(import), LLM 호출, 리포트 출력 전에 같은 규칙으로 가림
+ *
+ * - 자리표시자: [REDACTED_EMAIL_1] (종류 + 금고 안 순번, 같은 값은 같은 번호)
+ * - 금고(vault)를 공유하면 여러 텍스트에서 번호가 이어지고 restore 로 원래 값 복원
+ *   (LLM 왕복은 메모리 금고, 임포트한 대화는 redaction_vault 에 저장한 대화별 금고)
+ * - mask 를 지정하면 자리표시자 대신 고정 문자열 (도구 호출 요약의 [REDACTED])
+ */
+
+export const BUILTIN_REDACTION_KINDS = [
+  'private-key',
+  'jwt',
+  'api-key',
+  'secret',
+  'email',
+  'ip',
+  'resident-id',
+  'ssn',
+] as const;
+export type BuiltinRedactionKind = typeof BUILTIN_REDACTION_KINDS[number];
+
+export interface RedactionRule {
+  /** 내장 종류 또는 사용자 규칙 이름 (자리표시자 라벨) */
+  kind: string;
+  pattern: RegExp;
+  /** 가리지 않을 일치 (자리표시자 값, 예시 값 등) */
+  ignore?: RegExp;
+}
+
+export interface RedactionFinding {
+  kind: string;
+  value: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  findings: RedactionFinding[];
+}
+
+export interface RedactionVaultEntry {
+  placeholder: string;
+  kind: string;
+  value: string;
+}
+
+export interface RedactionVault {
+  /** 값에 대응하는 자리표시자 (처음 보는 값이면 새 번호) */
+  placeholderFor(kind: string, value: string): string;
+  /** 자리표시자를 원래 값으로 되돌림 (모르는 자리표시자는 그대로) */
+  restore(text: string): string;
+  /** 저장용 대응표 (번호 순) */
+  entries(): RedactionVaultEntry[];
+  readonly size: number;
+}
+
+export interface Redactor {
+  readonly enabled: boolean;
+  readonly rules: readonly RedactionRule[];
+  redact(text: string, options?: { vault?: RedactionVault; mask?: string }): RedactionResult;
+  /** 찾기만 하고 바꾸지 않음 (DB 감사) */
+  scan(text: string): RedactionFinding[];
+}
+
+// 예시/환경변수 참조/짧은 값은 비밀값으로 보지 않음 (max_tokens: 1024, password: it ...)
+const NON_SECRET_VALUE =
+  /^(?:.{1,3}|\d{1,5}|true|false|null|undefined|none|\.{3}|…|<[^>]*>|\$\{?[A-Za-z_][A-Za-z0-9_]*\}?|process\.env\.\w+|your[_-].*|x{3,}|\*{3,}|.*(?:example|placeholder|changeme).*)$/i;
+
+const PLACEHOLDER_TOKEN = /\[REDACTED_([A-Z0-9_]+?)_(\d+)\]/g;
+
+/**
+ * 내장 규칙 (순서대로 적용, 앞 규칙이 가린 부분은 뒤 규칙이 건드리지 않음)
+ * 키 형식은 instruction-linter 의 SECRET_PATTERNS 와 도구 호출 마스킹 규칙을 합친 것
+ */
+export const BUILTIN_REDACTION_RULES: readonly RedactionRule[] = [
+  {
+    kind: 'private-key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g,
+  },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  // Anthropic (sk-ant-...), OpenAI (sk-..., sk-proj-...)
+  { kind: 'api-key', pattern: /\bsk-[A-Za-z0-9_-]{16,}/g },
+  // GitHub, Slack, AWS access key, Google API key, Stripe live key, npm token
+  { kind: 'api-key', pattern: /\bgh[pousr]_[A-Za-z0-9]{20,}/g },
+  { kind: 'api-key', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'api-key', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+  { kind: 'api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { kind: 'api-key', pattern: /\b[rs]k_live_[0-9A-Za-z]{16,}/g },
+  { kind: 'api-key', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { kind: 'secret', pattern: /(?<=\b(?:Bearer|Basic)\s+)[A-Za-z0-9._~+/=-]{8,}/gi },
+  // api_key=..., password: ..., GITHUB_TOKEN=... (키는 남기고 값만)
+  {
+    kind: 'secret',
+    pattern:
+      /(?<=\b[A-Za-z_]*(?:api[_-]?key|apikey|access[_-]?key|secret|token|password|passwd|pwd)[A-Za-z_]*["']?\s*[=:]\s*["']?)[^\s"'&,;)}\]]+/gi,
+    ignore: NON_SECRET_VALUE,
+  },
+  {
+    kind: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+    ignore: /^git@|@(?:example\.(?:com|org|net)|users\.noreply\.github\.com)$/i,
+  },
+  {
+    kind: 'ip',
+    pattern: /\b(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?:\.(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}\b/g,
+    ignore: /^(?:127\.|0\.0\.0\.0$|255\.255\.255\.)/,
+  },
+  // 주민등록번호 (생년월일 + 성별 자리, 하이픈 필수: 13자리 타임스탬프와 구분)
+  { kind: 'resident-id', pattern: /\b\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])-[1-8]\d{6}\b/g },
+  { kind: 'ssn', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+];
+
+/**
+ * 자리표시자 라벨 (api-key → API_KEY)
+ */
+export function redactionLabel(kind: string): string {
+  return kind.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * 자리표시자 금고 생성 (저장된 대응표로 시작하면 번호가 이어짐)
+ */
+export function createRedactionVault(initial: Iterable<RedactionVaultEntry> = []): RedactionVault {
+  const byValue = new Map<string, string>();
+  const byPlaceholder = new Map<string, RedactionVaultEntry>();
+  const counters = new Map<string, number>();
+
+  const add = (entry: RedactionVaultEntry, label: string, index: number) => {
+    byValue.set(`${label}\0${entry.value}`, entry.placeholder);
+    byPlaceholder.set(entry.placeholder, entry);
+    counters.set(label, Math.max(counters.get(label) ?? 0, index));
+  };
+
+  for (const entry of initial) {
+    const match = /^\[REDACTED_([A-Z0-9_]+?)_(\d+)\]$/.exec(entry.placeholder);
+    if (match) add(entry, match[1], Number(match[2]));
+  }
+
+  return {
+    placeholderFor(kind, value) {
+      const label = redactionLabel(kind);
+      const existing = byValue.get(`${label}\0${value}`);
+      if (existing) return existing;
+
+      const next = (counters.get(label) ?? 0) + 1;
+      const placeholder = `[REDACTED_${label}_${next}]`;
+      add({ placeholder, kind, value }, label, next);
+      return placeholder;
+    },
+    restore(text) {
+      return text.replace(PLACEHOLDER_TOKEN, (token) => byPlaceholder.get(token)?.value ?? token);
+    },
+    entries() {
+      return [...byPlaceholder.values()];
+    },
+    get size() {
+      return byPlaceholder.size;
+    },
+  };
+}
+
+export interface RedactorOptions {
+  /** false 면 아무것도 바꾸지 않음 */
+  enabled?: boolean;
+  /** 가리지 않을 값 (팀 공용 주소, 공개 IP 등) */
+  allow?: readonly string[];
+}
+
+/**
+ * 규칙으로 가리개 생성
+ */
+export function createRedactor(
+  rules: readonly RedactionRule[] = BUILTIN_REDACTION_RULES,
+  options: RedactorOptions = {}
+): Redactor {
+  const active = options.enabled === false ? [] : rules;
+  const allow = new Set(options.allow ?? []);
+
+  const apply = (
+    text: string,
+    onMatch: (kind: string, value: string) => string
+  ): string =>
+    active.reduce(
+      (result, rule) =>
+        result.replace(rule.pattern, (value: string) => {
+          if (value.includes('[REDACTED') || allow.has(value) || rule.ignore?.test(value)) return value;
+          return onMatch(rule.kind, value);
+        }),
+      text
+    );
+
+  const redact: Redactor['redact'] = (text, options = {}) => {
+    const findings: RedactionFinding[] = [];
+    if (!text || active.length === 0) return { text, findings };
+
+    const vault = options.mask === undefined ? (options.vault ?? createRedactionVault()) : undefined;
+    const redacted = apply(text, (kind, value) => {
+      findings.push({ kind, value });
+      return vault ? vault.placeholderFor(kind, value) : options.mask!;
+    });
+    return { text: redacted, findings };
+  };
+
+  return {
+    enabled: active.length > 0,
+    rules: active,
+    redact,
+    scan: (text) => redact(text, { mask: '' }).findings,
+  };
+}
+
+/**
+ * 객체 안의 모든 문자열 가리기 (배열/일반 객체만 따라 들어감, Date 등은 그대로)
+ */
+export function redactStrings<T>(value: T, redactor: Redactor, vault: RedactionVault = createRedactionVault()): T {
+  if (!redactor.enabled) return value;
+
+  const walk = (item: unknown): unknown => {
+    if (typeof item === 'string') return redactor.redact(item, { vault }).text;
+    if (Array.isArray(item)) return item.map(walk);
+    if (item && typeof item === 'object') {
+      const proto = Object.getPrototypeOf(item);
+      if (proto !== Object.prototype && proto !== null) return item;
+      return Object.fromEntries(Object.entries(item).map(([key, child]) => [key, walk(child)]));
+    }
+    return item;
+  };
+  return walk(value) as T;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+}));
+
+import { createRedactor, loadConversationVault, saveConversationVault, revealStoredTurn } from './index.js';
+
+const redactor = createRedactor();
+
+function vaultRows(): Array<{ conversation_id: string; placeholder: string; value: string }> {
+    return db
+        .prepare('SELECT conversation_id, placeholder, value FROM redaction_vault ORDER BY conversation_id, placeholder')
+        .all() as Array<{ conversation_id: string; placeholder: string; value: string }>;
+}
+
+describe('conversation redaction vault', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+        db.prepare("INSERT INTO conversations (id, project) VALUES ('conv-1', 'app'), ('conv-2', 'app')").run();
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('keeps placeholder numbers stable across imports of the same conversation', () => {
+        const first = loadConversationVault('conv-1');
+        const text = redactor.redact('mail a@corp.io', { vault: first }).text;
+        saveConversationVault('conv-1', first);
+
+        // Appended chunk: known values keep their number, new ones continue
+        const second = loadConversationVault('conv-1');
+        const appended = redactor.redact('cc b@corp.io and a@corp.io', { vault: second }).text;
+        saveConversationVault('conv-1', second);
+
+        expect(text).toBe('mail [REDACTED_EMAIL_1]');
+        expect(appended).toBe('cc [REDACTED_EMAIL_2] and [REDACTED_EMAIL_1]');
+        expect(vaultRows()).toEqual([
+            { conversation_id: 'conv-1', placeholder: '[REDACTED_EMAIL_1]', value: 'a@corp.io' },
+            { conversation_id: 'conv-1', placeholder: '[REDACTED_EMAIL_2]', value: 'b@corp.io' },
+        ]);
+        expect(loadConversationVault('conv-2').size).toBe(0);
+    });
+
+    it('reveals stored turns with the conversation vault only', () => {
+        const vault = loadConversationVault('conv-1');
+        const content = redactor.redact('deploy with sk-ant-REDACTED', { vault }).text;
+        saveConversationVault('conv-1', vault);
+        const insertTurn = db.prepare(
+            'INSERT INTO turns (id, conversation_id, role, content, thinking, turn_index) VALUES (?, ?, ?, ?, ?, ?)'
+        );
+        insertTurn.run('t1', 'conv-1', 'user', content, null, 0);
+        insertTurn.run('t2', 'conv-2', 'user', content, null, 0);
+
+        expect(revealStoredTurn('t1')).toEqual({
+            turnId: 't1',
+            conversationId: 'conv-1',
+            content: 'deploy with sk-ant-REDACTED',
+            thinking: null,
+            restored: 1,
+        });
+        expect(revealStoredTurn('t2')).toMatchObject({ content, restored: 0 });
+        expect(revealStoredTurn('missing')).toBeNull();
+    });
+
+    it('drops the vault with its conversation', () => {
+        const vault = loadConversationVault('conv-1');
+        redactor.redact('mail a@corp.io', { vault });
+        saveConversationVault('conv-1', vault);
+
+        db.prepare("DELETE FROM conversations WHERE id = 'conv-1'").run();
+
+        expect(vaultRows()).toEqual([]);
+    });
+});
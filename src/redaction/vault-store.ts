@@ -0,0 +1,56 @@
+/**
+ * 대화별 자리표시자 금고 (redaction_vault)
+ * 임포트와 감사 --scrub 이 가린 값을 대화마다 저장해 로컬에서 원래 텍스트로 되돌릴 수 있게 함
+ * (한 대화 안에서는 같은 값이 늘 같은 자리표시자, 이어 읽기와 다시 임포트해도 번호가 유지됨)
+ */
+
+import {
+  getRedactionVaultEntries,
+  saveRedactionVaultEntries,
+  getTurnById,
+} from '../db/index.js';
+import { createRedactionVault, type RedactionVault } from './redactor.js';
+
+export interface RevealedTurn {
+  turnId: string;
+  conversationId: string;
+  content: string | null;
+  thinking: string | null;
+  /** 되돌린 자리표시자 수 */
+  restored: number;
+}
+
+/**
+ * 대화의 저장된 금고 (번호가 저장된 대응표에서 이어짐)
+ */
+export function loadConversationVault(conversationId: string): RedactionVault {
+  return createRedactionVault(getRedactionVaultEntries(conversationId));
+}
+
+/**
+ * 금고의 대응표 저장 (이미 저장된 자리표시자는 그대로)
+ */
+export function saveConversationVault(conversationId: string, vault: RedactionVault): void {
+  saveRedactionVaultEntries(conversationId, vault.entries());
+}
+
+/**
+ * 저장된 턴의 자리표시자를 원래 값으로 되돌림 (턴이 없으면 null)
+ */
+export function revealStoredTurn(turnId: string): RevealedTurn | null {
+  const turn = getTurnById(turnId);
+  if (!turn) return null;
+
+  const vault = loadConversationVault(turn.conversation_id);
+  const restore = (text: string | null) => (text === null ? null : vault.restore(text));
+  const count = (text: string | null) =>
+    (text?.match(/\[REDACTED_[A-Z0-9_]+?_\d+\]/g) ?? []).filter((token) => vault.restore(token) !== token).length;
+
+  return {
+    turnId: turn.id,
+    conversationId: turn.conversation_id,
+    content: restore(turn.content),
+    thinking: restore(turn.thinking),
+    restored: count(turn.content) + count(turn.thinking),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * CSV Report Export
+ * 카테고리별 분석 (또는 기간 비교의 지표 변화) 을 스프레드시트용 CSV (RFC 4180) 로 출력
+ */
+
+import { getCategoryLabel } from '../analysis/classifier.js';
+import type { InsightsReport } from '../analysis/insights.js';
+import type { PeriodComparison } from '../analysis/period-comparison.js';
+
+const CATEGORY_COLUMNS = ['category', 'label', 'count', 'percentage', 'avg_effectiveness', 'trend', 'top_issue'];
+const CHANGE_COLUMNS = [
+  'key',
+  'group',
+  'label',
+  'kind',
+  'previous',
+  'current',
+  'delta',
+  'relative_change',
+  'p_value',
+  'significant',
+  'direction',
+  'assessment',
+  'previous_samples',
+  'current_samples',
+];
+
+/**
+ * Quote a field when it contains a delimiter, quote or line break
+ */
+export function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render the category breakdown as CSV (header row + one row per category)
+ */
+export function renderCategoryCsv(report: InsightsReport): string {
+  const rows = report.categoryBreakdown.map((c) => [
+    c.category,
+    getCategoryLabel(c.category),
+    c.count,
+    Number(c.percentage.toFixed(2)),
+    Number(c.avgEffectiveness.toFixed(4)),
+    c.trend,
+    c.topIssue,
+  ]);
+  return toCsv([CATEGORY_COLUMNS, ...rows]);
+}
+
+/**
+ * Render period-over-period metric changes as CSV (one row per metric)
+ */
+export function renderComparisonCsv(comparison: PeriodComparison): string {
+  const rows = comparison.changes.map((c) => [
+    c.key,
+    c.group,
+    c.label,
+    c.kind,
+    Number(c.previous.toFixed(4)),
+    Number(c.current.toFixed(4)),
+    Number(c.delta.toFixed(4)),
+    c.relativeChange === null ? undefined : Number(c.relativeChange.toFixed(4)),
+    c.pValue === null ? undefined : Number(c.pValue.toFixed(4)),
+    String(c.significant),
+    c.direction,
+    c.assessment,
+    c.samples.previous,
+    c.samples.current,
+  ]);
+  return toCsv([CHANGE_COLUMNS, ...rows]);
+}
+
+function toCsv(rows: Array<Array<string | number | undefined>>): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -7,6 +7,7 @@
  * - 가이드라인 준수도: GOLDEN 점수 시각화, 안티패턴 경고
  * - 자기 개선 피드백: Before/After 예시, 학습 우선순위
  * - 액션 아이템: 주간 목표, 체크리스트
+ * - 기간 비교: 이전 기간 대비 무엇이 바뀌었나 (report --compare)
  */
 
 import { writeFileSync } from 'fs';
@@ -19,20 +20,43 @@ import type {
   GuidelinesSummary,
   GOLDENScore,
   SelfImprovementFeedback,
+  CostlyPrompt,
 } from '../analysis/insights.js';
+import {
+  getHighlightedChanges,
+  formatMetricValue,
+  formatMetricDelta,
+  formatPValue,
+  type PeriodComparison,
+  type MetricChange,
+} from '../analysis/period-comparison.js';
 
 export interface ReportOptions {
   outputPath: string;
   title?: string;
+  comparison?: PeriodComparison;
 }
 
+export const DEFAULT_REPORT_TITLE = 'Prompt Evolution 인사이트 리포트';
+
 /**
  * Generate HTML report from insights data
  */
 export function generateHtmlReport(report: InsightsReport, options: ReportOptions): string {
-  const title = escapeHtml(options.title || 'Prompt Evolution 인사이트 리포트');
+  writeFileSync(options.outputPath, renderHtmlReport(report, options), 'utf-8');
+  return options.outputPath;
+}
 
-  const html = `<!DOCTYPE html>
+/**
+ * Render the report as a self-contained HTML document (inline styles, no external assets)
+ */
+export function renderHtmlReport(
+  report: InsightsReport,
+  options: { title?: string; comparison?: PeriodComparison } = {}
+): string {
+  const title = escapeHtml(options.title || DEFAULT_REPORT_TITLE);
+
+  return `<!DOCTYPE html>
 <html lang="ko">
 <head>
   <meta charset="UTF-8">
@@ -51,9 +75,11 @@ export function generateHtmlReport(report: InsightsReport, options: ReportOption
     </header>
 
     ${generateSummarySection(report)}
+    ${generateComparisonSection(options.comparison)}
     ${generateProblemsSection(report.problems)}
     ${generateImprovementsSection(report.improvements)}
     ${generateStrengthsSection(report.strengths)}
+    ${generateCostliestPromptsSection(report.costliestPrompts)}
     ${generateCategorySection(report.categoryBreakdown)}
     ${generateGuidelinesSection(report.guidelinesSummary)}
     ${generatePromptLibrarySection(report.promptLibrary)}
@@ -66,9 +92,6 @@ export function generateHtmlReport(report: InsightsReport, options: ReportOption
   </div>
 </body>
 </html>`;
-
-  writeFileSync(options.outputPath, html, 'utf-8');
-  return options.outputPath;
 }
 
 function getStyles(): string {
@@ -628,6 +651,34 @@ function getStyles(): string {
       margin-top: 0.25rem;
     }
 
+    .comparison-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.9rem;
+    }
+
+    .comparison-table th,
+    .comparison-table td {
+      padding: 0.5rem 0.75rem;
+      border-bottom: 1px solid rgba(255,255,255,0.08);
+      text-align: right;
+    }
+
+    .comparison-table th:first-child,
+    .comparison-table td:first-child {
+      text-align: left;
+    }
+
+    .comparison-table th {
+      color: #a1a1aa;
+      font-weight: 500;
+    }
+
+    .comparison-table .improved { color: #22c55e; }
+    .comparison-table .regressed { color: #ef4444; }
+    .comparison-table .shifted { color: #60a5fa; }
+    .comparison-table .unchanged { color: #71717a; }
+
     @media (max-width: 640px) {
       .container {
         padding: 1rem;
@@ -667,11 +718,11 @@ function generateSummarySection(report: InsightsReport): string {
           <div class="stat-label">총 프롬프트</div>
         </div>
         <div class="stat-card">
-          <div class="stat-value">${report.summary.overallEffectiveness.toFixed(1)}%</div>
+          <div class="stat-value">${(report.summary.overallEffectiveness * 100).toFixed(1)}%</div>
           <div class="stat-label">평균 효과성</div>
         </div>
         <div class="stat-card">
-          <div class="stat-value">${report.summary.overallQuality.toFixed(1)}%</div>
+          <div class="stat-value">${(report.summary.overallQuality * 100).toFixed(1)}%</div>
           <div class="stat-label">평균 품질</div>
         </div>
       </div>
@@ -679,6 +730,55 @@ function generateSummarySection(report: InsightsReport): string {
   `;
 }
 
+function generateComparisonSection(comparison?: PeriodComparison): string {
+  if (!comparison) return '';
+
+  const { previous, current } = comparison;
+  const rows = getHighlightedChanges(comparison.changes).map((c) => {
+    const verdict = getChangeVerdict(c);
+    return `
+      <tr>
+        <td>${escapeHtml(c.label)}</td>
+        <td>${formatMetricValue(c, c.previous)}</td>
+        <td>${formatMetricValue(c, c.current)}</td>
+        <td class="${verdict.className}">${formatMetricDelta(c)}</td>
+        <td>${escapeHtml(formatPValue(c.pValue))}</td>
+        <td class="${verdict.className}">${verdict.label}</td>
+      </tr>
+    `;
+  }).join('');
+  const untested = comparison.changes.every((c) => c.pValue === null);
+
+  return `
+    <section>
+      <h2>🔄 무엇이 바뀌었나</h2>
+      <p class="item-desc" style="margin-bottom: 1rem;">
+        이전: ${escapeHtml(previous.window.label)} (${previous.report.summary.totalPrompts}개 프롬프트) →
+        현재: ${escapeHtml(current.window.label)} (${current.report.summary.totalPrompts}개 프롬프트)
+      </p>
+      ${untested ? '<p style="color: #a1a1aa; margin-bottom: 1rem;">프롬프트가 적어 유의성 검정을 하지 않았습니다.</p>' : ''}
+      <table class="comparison-table">
+        <thead>
+          <tr><th>지표</th><th>이전</th><th>현재</th><th>변화</th><th>p</th><th>판정</th></tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </section>
+  `;
+}
+
+/**
+ * Verdict label and CSS class of a metric change
+ */
+export function getChangeVerdict(change: MetricChange): { label: string; className: string } {
+  if (change.assessment === 'improved') return { label: '✅ 개선', className: 'improved' };
+  if (change.assessment === 'regressed') return { label: '⚠️ 악화', className: 'regressed' };
+  if (change.significant) return { label: '🔀 변화', className: 'shifted' };
+  return { label: '—', className: 'unchanged' };
+}
+
 function generateProblemsSection(problems: Insight[]): string {
   if (problems.length === 0) return '';
 
@@ -736,6 +836,29 @@ function generateStrengthsSection(strengths: Insight[]): string {
   `;
 }
 
+function generateCostliestPromptsSection(prompts?: CostlyPrompt[]): string {
+  if (!prompts || prompts.length === 0) return '';
+
+  const items = prompts.map(p => `
+    <div class="priority-item">
+      <div>
+        <strong>${escapeHtml(truncate(p.content.replace(/\s+/g, ' ').trim(), 120))}</strong>
+        <div class="item-desc">friction ${p.outcome.frictionScore} · 응답 턴 ${p.outcome.assistantTurns}개 · 도구 오류 ${p.outcome.toolErrors}개 · 파일 ${p.outcome.filesTouched.length}개</div>
+        <div class="recommendation">다음 반응: ${escapeHtml(p.outcome.nextTurnReaction)}${p.outcome.costUsd > 0 ? ` | 비용: $${p.outcome.costUsd.toFixed(4)}` : ''}</div>
+      </div>
+    </div>
+  `).join('');
+
+  return `
+    <section>
+      <h2>💸 하류 비용이 가장 큰 프롬프트</h2>
+      <div class="priority-list">
+        ${items}
+      </div>
+    </section>
+  `;
+}
+
 function generateCategorySection(categories: CategoryInsight[]): string {
   if (categories.length === 0) return '';
 
@@ -1 +1,27 @@
-export { generateHtmlReport, type ReportOptions } from './html-generator.js';
+export {
+  generateHtmlReport,
+  renderHtmlReport,
+  DEFAULT_REPORT_TITLE,
+  type ReportOptions,
+} from './html-generator.js';
+export { renderMarkdownReport } from './markdown-generator.js';
+export {
+  renderJsonReport,
+  toReportJson,
+  getReportJsonSchema,
+  insightsReportJsonSchema,
+  REPORT_JSON_VERSION,
+  REPORT_JSON_SCHEMA_ID,
+  type InsightsReportJson,
+} from './json-export.js';
+export { renderCategoryCsv, renderComparisonCsv, csvField } from './csv-export.js';
+export { renderPdfReport, findHeadlessBrowser, PdfRenderError } from './pdf-generator.js';
+export {
+  renderReport,
+  getReportRenderer,
+  isReportFormat,
+  REPORT_FORMATS,
+  type ReportFormat,
+  type ReportRenderer,
+  type ReportRenderOptions,
+} from './renderers.js';
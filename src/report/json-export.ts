@@ -0,0 +1,305 @@
+/**
+ * JSON Report Export
+ * InsightsReport 의 정식(canonical) JSON 형식과 공개 JSON Schema
+ *
+ * - 날짜는 ISO 8601 문자열, 키 순서는 스키마 순서로 고정, 알 수 없는 필드는 제거
+ * - 스키마 파일: docs/schemas/insights-report.schema.json (`report --schema` 로도 출력)
+ */
+
+import { z } from 'zod';
+import type { InsightsReport } from '../analysis/insights.js';
+import type { PeriodComparison } from '../analysis/period-comparison.js';
+import { TASK_CATEGORIES, PROMPT_INTENTS } from '../shared/constants.js';
+import { PROMPT_REACTIONS } from '../analysis/outcome-attribution.js';
+
+/** 형식이 바뀌면 올림 */
+export const REPORT_JSON_VERSION = 1;
+
+export const REPORT_JSON_SCHEMA_ID =
+  'https://github.com/philokalos/prompt-evolution/blob/main/docs/schemas/insights-report.schema.json';
+
+const isoDate = z.iso.datetime({ offset: true });
+const unit = z.number().min(0).max(1);
+const grade = z.enum(['A', 'B', 'C', 'D', 'F']);
+const taskCategory = z.enum(TASK_CATEGORIES).meta({ id: 'TaskCategory' });
+const goldenDimension = z.enum(['goal', 'output', 'limits', 'data', 'evaluation', 'next']);
+
+const goldenScoreSchema = z.object({
+  goal: z.number(),
+  output: z.number(),
+  limits: z.number(),
+  data: z.number(),
+  evaluation: z.number(),
+  next: z.number(),
+  total: z.number(),
+}).meta({ id: 'GOLDENScore' });
+
+const insightSchema = z.object({
+  id: z.string(),
+  severity: z.enum(['critical', 'warning', 'info', 'success']),
+  category: z.enum(['problem', 'improvement', 'strength']),
+  title: z.string(),
+  description: z.string(),
+  evidence: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  affectedCategory: taskCategory.optional(),
+  goldenDimension: goldenDimension.optional(),
+  metric: z
+    .object({ name: z.string(), value: z.number(), threshold: z.number(), unit: z.string() })
+    .optional(),
+}).meta({ id: 'Insight' });
+
+const categoryInsightSchema = z.object({
+  category: taskCategory,
+  count: z.number().int().min(0),
+  percentage: z.number().min(0).max(100),
+  avgEffectiveness: z.number(),
+  trend: z.enum(['improving', 'declining', 'stable']),
+  topIssue: z.string().optional(),
+});
+
+const recommendationSchema = z.object({
+  priority: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  expectedImpact: z.enum(['high', 'medium', 'low']),
+  effort: z.enum(['easy', 'moderate', 'hard']),
+  relatedInsights: z.array(z.string()),
+});
+
+const libraryEntrySchema = z.object({
+  id: z.string(),
+  pattern: z.string(),
+  category: taskCategory,
+  intent: z.enum(PROMPT_INTENTS),
+  effectiveness: z.number(),
+  frequency: z.number().int().min(0),
+  examples: z.array(
+    z.object({
+      content: z.string(),
+      effectiveness: z.number(),
+      timestamp: isoDate,
+      conversationId: z.string(),
+    })
+  ),
+  keywords: z.array(z.string()),
+  bestPractices: z.array(z.string()),
+  antiPatterns: z.array(z.string()),
+  averageLength: z.number(),
+  successRate: z.number(),
+}).meta({ id: 'PromptLibraryEntry' });
+
+const promptLibrarySchema = z.object({
+  entries: z.array(libraryEntrySchema),
+  totalPrompts: z.number().int().min(0),
+  generatedAt: isoDate,
+  topPatterns: z.array(libraryEntrySchema),
+  byCategory: z.record(z.string(), z.array(libraryEntrySchema)),
+  byIntent: z.record(z.string(), z.array(libraryEntrySchema)),
+});
+
+const guidelinesSummarySchema = z.object({
+  averageScore: z.number(),
+  gradeDistribution: z.object({ A: z.number(), B: z.number(), C: z.number(), D: z.number(), F: z.number() }),
+  weakestGuidelines: z.array(z.object({ name: z.string(), averageScore: z.number() })),
+  strongestGuidelines: z.array(z.object({ name: z.string(), averageScore: z.number() })),
+  commonAntiPatterns: z.array(z.object({ pattern: z.string(), count: z.number().int() })),
+  averageGOLDEN: goldenScoreSchema,
+});
+
+const selfImprovementSchema = z.object({
+  areasForImprovement: z.array(
+    z.object({
+      area: z.string(),
+      currentScore: z.number(),
+      targetScore: z.number(),
+      gap: z.number(),
+      specificAdvice: z.string(),
+      examples: z.array(z.object({ before: z.string(), after: z.string(), explanation: z.string() })),
+      priority: z.enum(['high', 'medium', 'low']),
+      estimatedImpact: z.string(),
+    })
+  ),
+  strengths: z.array(
+    z.object({ area: z.string(), score: z.number(), evidence: z.array(z.string()), tip: z.string() })
+  ),
+  learningPriorities: z.array(
+    z.object({
+      rank: z.number().int(),
+      topic: z.string(),
+      reason: z.string(),
+      resources: z.array(
+        z.object({
+          title: z.string(),
+          url: z.string(),
+          type: z.enum(['article', 'video', 'documentation', 'tutorial']),
+        })
+      ),
+      exercises: z.array(z.string()),
+    })
+  ),
+  rewriteExamples: z.array(
+    z.object({
+      category: taskCategory,
+      before: z.object({ prompt: z.string(), issues: z.array(z.string()), score: z.number() }),
+      after: z.object({ prompt: z.string(), improvements: z.array(z.string()), score: z.number() }),
+      keyChanges: z.array(z.string()),
+    })
+  ),
+  progressTrend: z.array(
+    z.object({
+      date: isoDate,
+      averageScore: z.number(),
+      promptCount: z.number().int(),
+      topCategory: taskCategory,
+    })
+  ),
+  weeklyGoals: z.array(
+    z.object({
+      goal: z.string(),
+      metric: z.string(),
+      currentValue: z.number(),
+      targetValue: z.number(),
+      actionItems: z.array(z.string()),
+      difficulty: z.enum(['easy', 'medium', 'hard']),
+    })
+  ),
+  summary: z.object({
+    overallGrade: grade,
+    mainMessage: z.string(),
+    keyInsights: z.array(z.string()),
+    quickWins: z.array(z.string()),
+    longTermGoals: z.array(z.string()),
+  }),
+});
+
+const costlyPromptSchema = z.object({
+  content: z.string(),
+  conversationId: z.string(),
+  turnId: z.string().optional(),
+  timestamp: isoDate.optional(),
+  outcome: z.object({
+    assistantTurns: z.number().int().min(0),
+    toolCalls: z.number().int().min(0),
+    toolErrors: z.number().int().min(0),
+    filesTouched: z.array(z.string()),
+    nextTurnReaction: z.enum(PROMPT_REACTIONS),
+    durationMs: z.number().nullable(),
+    timeToCompletionMs: z.number().nullable(),
+    outputTokens: z.number().min(0),
+    costUsd: z.number().min(0),
+    frictionScore: z.number().min(0),
+  }),
+});
+
+const summarySchema = z.object({
+  totalConversations: z.number().int().min(0),
+  totalPrompts: z.number().int().min(0),
+  overallEffectiveness: z.number(),
+  overallQuality: unit,
+});
+
+const comparisonWindowSchema = z.object({
+  label: z.string(),
+  start: isoDate,
+  end: isoDate,
+  summary: summarySchema,
+});
+
+const metricChangeSchema = z.object({
+  key: z.string(),
+  group: z.enum(['summary', 'golden', 'antiPattern', 'category']),
+  label: z.string(),
+  kind: z.enum(['mean', 'proportion']),
+  previous: z.number(),
+  current: z.number(),
+  delta: z.number(),
+  relativeChange: z.number().nullable(),
+  pValue: z.number().min(0).max(1).nullable(),
+  significant: z.boolean(),
+  direction: z.enum(['up', 'down', 'flat']),
+  assessment: z.enum(['improved', 'regressed', 'neutral']),
+  samples: z.object({ previous: z.number().int().min(0), current: z.number().int().min(0) }),
+}).meta({ id: 'MetricChange' });
+
+const comparisonSchema = z.object({
+  previous: comparisonWindowSchema,
+  current: comparisonWindowSchema,
+  changes: z.array(metricChangeSchema),
+});
+
+/**
+ * Canonical JSON report (`report --format json`, `GET /api/insights/export?format=json`)
+ */
+export const insightsReportJsonSchema = z
+  .object({
+    $schema: z.literal(REPORT_JSON_SCHEMA_ID),
+    schemaVersion: z.literal(REPORT_JSON_VERSION),
+    title: z.string().optional(),
+    generatedAt: isoDate,
+    period: z.string(),
+    summary: summarySchema,
+    problems: z.array(insightSchema),
+    improvements: z.array(insightSchema),
+    strengths: z.array(insightSchema),
+    categoryBreakdown: z.array(categoryInsightSchema),
+    recommendations: z.array(recommendationSchema),
+    promptLibrary: promptLibrarySchema.optional(),
+    guidelinesSummary: guidelinesSummarySchema.optional(),
+    selfImprovement: selfImprovementSchema.optional(),
+    costliestPrompts: z.array(costlyPromptSchema).optional(),
+    /** Period-over-period changes (`report --compare`) */
+    comparison: comparisonSchema.optional(),
+  })
+  .meta({
+    title: 'Prompt Evolution insights report',
+    description: 'Canonical JSON export of an InsightsReport',
+  });
+
+export type InsightsReportJson = z.infer<typeof insightsReportJsonSchema>;
+
+/**
+ * Published JSON Schema for the canonical JSON report
+ */
+export function getReportJsonSchema(): Record<string, unknown> {
+  const { $schema, ...schema } = z.toJSONSchema(insightsReportJsonSchema, { target: 'draft-2020-12' });
+  return { $schema, $id: REPORT_JSON_SCHEMA_ID, ...schema };
+}
+
+/**
+ * Convert the report to its canonical JSON form (dates as ISO strings, schema key order)
+ * Throws a ZodError when the report doesn't match the published schema
+ */
+export function toReportJson(
+  report: InsightsReport,
+  options: { title?: string; comparison?: PeriodComparison } = {}
+): InsightsReportJson {
+  const { comparison } = options;
+  // Dates → ISO strings, undefined fields dropped
+  const plain = JSON.parse(
+    JSON.stringify({
+      ...report,
+      comparison: comparison && {
+        previous: { ...comparison.previous.window, summary: comparison.previous.report.summary },
+        current: { ...comparison.current.window, summary: comparison.current.report.summary },
+        changes: comparison.changes,
+      },
+    })
+  ) as Record<string, unknown>;
+  return insightsReportJsonSchema.parse({
+    ...plain,
+    $schema: REPORT_JSON_SCHEMA_ID,
+    schemaVersion: REPORT_JSON_VERSION,
+    title: options.title,
+  });
+}
+
+/**
+ * Render the report as canonical JSON text
+ */
+export function renderJsonReport(
+  report: InsightsReport,
+  options: { title?: string; comparison?: PeriodComparison } = {}
+): string {
+  return JSON.stringify(toReportJson(report, options), null, 2) + '\n';
+}
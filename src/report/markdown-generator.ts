@@ -0,0 +1,201 @@
+/**
+ * Markdown Report Generator
+ * 회고/PR 에 붙여넣기 좋은 GitHub 스타일 Markdown 리포트
+ */
+
+import { getCategoryLabel } from '../analysis/classifier.js';
+import type { InsightsReport, Insight } from '../analysis/insights.js';
+import {
+  getHighlightedChanges,
+  formatMetricValue,
+  formatMetricDelta,
+  formatPValue,
+  type PeriodComparison,
+} from '../analysis/period-comparison.js';
+import { DEFAULT_REPORT_TITLE, getChangeVerdict } from './html-generator.js';
+
+const SEVERITY_ICONS: Record<Insight['severity'], string> = {
+  critical: '🔴',
+  warning: '🟡',
+  info: 'ℹ️',
+  success: '🟢',
+};
+
+const IMPACT_LABELS: Record<string, string> = { high: '높음', medium: '중간', low: '낮음' };
+const EFFORT_LABELS: Record<string, string> = { easy: '쉬움', moderate: '보통', hard: '어려움' };
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Escape text for a table cell (pipes, line breaks)
+ */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * One-line excerpt of a prompt for lists and tables
+ */
+function excerpt(text: string, length = 80): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? line.slice(0, length) + '...' : line;
+}
+
+function insightList(heading: string, insights: Insight[]): string[] {
+  if (insights.length === 0) return [];
+
+  const lines = [`## ${heading}`, ''];
+  for (const insight of insights) {
+    lines.push(`### ${SEVERITY_ICONS[insight.severity]} ${insight.title}`, '', insight.description, '');
+    for (const evidence of insight.evidence.slice(0, 3)) {
+      lines.push(`- ${excerpt(evidence)}`);
+    }
+    if (insight.evidence.length > 0) lines.push('');
+    if (insight.recommendations.length > 0) {
+      lines.push(`> 💡 ${insight.recommendations[0]}`, '');
+    }
+  }
+  return lines;
+}
+
+function comparisonSection(comparison?: PeriodComparison): string[] {
+  if (!comparison) return [];
+
+  const { previous, current } = comparison;
+  const lines = [
+    '## 🔄 무엇이 바뀌었나',
+    '',
+    `이전: ${previous.window.label} (${previous.report.summary.totalPrompts}개 프롬프트) → 현재: ${current.window.label} (${current.report.summary.totalPrompts}개 프롬프트)`,
+    '',
+  ];
+  if (comparison.changes.every((c) => c.pValue === null)) {
+    lines.push('> 프롬프트가 적어 유의성 검정을 하지 않았습니다.', '');
+  }
+
+  lines.push('| 지표 | 이전 | 현재 | 변화 | p | 판정 |', '|------|-----:|-----:|-----:|--:|------|');
+  for (const c of getHighlightedChanges(comparison.changes)) {
+    lines.push(
+      `| ${cell(c.label)} | ${formatMetricValue(c, c.previous)} | ${formatMetricValue(c, c.current)} | ${formatMetricDelta(c)} | ${formatPValue(c.pValue)} | ${getChangeVerdict(c).label} |`
+    );
+  }
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Render the report as Markdown
+ */
+export function renderMarkdownReport(
+  report: InsightsReport,
+  options: { title?: string; comparison?: PeriodComparison } = {}
+): string {
+  const { summary } = report;
+  const lines: string[] = [
+    `# 📊 ${options.title || DEFAULT_REPORT_TITLE}`,
+    '',
+    `- 기간: ${report.period === 'all' ? '전체' : report.period}`,
+    `- 생성: ${report.generatedAt.toISOString()}`,
+    '',
+    '## 📈 요약',
+    '',
+    '| 항목 | 값 |',
+    '|------|-----|',
+    `| 총 대화 | ${summary.totalConversations} |`,
+    `| 총 프롬프트 | ${summary.totalPrompts} |`,
+    `| 평균 효과성 | ${pct(summary.overallEffectiveness)} |`,
+    `| 평균 품질 | ${pct(summary.overallQuality)} |`,
+    '',
+  ];
+
+  lines.push(...comparisonSection(options.comparison));
+
+  lines.push(...insightList('🔴 문제점', report.problems));
+  lines.push(...insightList('🟡 개선 기회', report.improvements));
+  lines.push(...insightList('🟢 강점', report.strengths));
+
+  if (report.costliestPrompts && report.costliestPrompts.length > 0) {
+    lines.push(
+      '## 💸 하류 비용이 가장 큰 프롬프트',
+      '',
+      '| 프롬프트 | friction | 응답 턴 | 도구 오류 | 파일 | 다음 반응 | 비용 |',
+      '|----------|---------:|--------:|----------:|-----:|-----------|-----:|'
+    );
+    for (const { content, outcome } of report.costliestPrompts) {
+      lines.push(
+        `| ${cell(excerpt(content, 60))} | ${outcome.frictionScore} | ${outcome.assistantTurns} | ${outcome.toolErrors} | ${outcome.filesTouched.length} | ${outcome.nextTurnReaction} | $${outcome.costUsd.toFixed(4)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  if (report.categoryBreakdown.length > 0) {
+    lines.push(
+      '## 📂 카테고리별 분석',
+      '',
+      '| 카테고리 | 프롬프트 | 비율 | 평균 효과성 | 추세 |',
+      '|----------|---------:|-----:|------------:|------|'
+    );
+    for (const c of report.categoryBreakdown) {
+      lines.push(
+        `| ${getCategoryLabel(c.category)} | ${c.count} | ${c.percentage.toFixed(1)}% | ${pct(c.avgEffectiveness)} | ${c.trend} |`
+      );
+    }
+    lines.push('');
+  }
+
+  const guidelines = report.guidelinesSummary;
+  if (guidelines) {
+    const golden = guidelines.averageGOLDEN;
+    lines.push(
+      '## 📐 GOLDEN 가이드라인',
+      '',
+      `평균 점수: ${pct(guidelines.averageScore)}`,
+      '',
+      '| Goal | Output | Limits | Data | Evaluation | Next |',
+      '|-----:|-------:|-------:|-----:|-----------:|-----:|',
+      `| ${pct(golden.goal)} | ${pct(golden.output)} | ${pct(golden.limits)} | ${pct(golden.data)} | ${pct(golden.evaluation)} | ${pct(golden.next)} |`,
+      ''
+    );
+    if (guidelines.commonAntiPatterns.length > 0) {
+      lines.push(
+        `자주 나온 안티패턴: ${guidelines.commonAntiPatterns
+          .slice(0, 5)
+          .map((a) => `\`${a.pattern}\` (${a.count})`)
+          .join(', ')}`,
+        ''
+      );
+    }
+  }
+
+  const topPatterns = report.promptLibrary?.topPatterns ?? [];
+  if (topPatterns.length > 0) {
+    lines.push('## 📚 효과적인 프롬프트 패턴', '');
+    topPatterns.slice(0, 5).forEach((entry, i) => {
+      lines.push(`${i + 1}. ${excerpt(entry.pattern)} — 효과성 ${pct(entry.effectiveness)}, ${entry.frequency}회`);
+    });
+    lines.push('');
+  }
+
+  const goals = report.selfImprovement?.weeklyGoals ?? [];
+  if (goals.length > 0) {
+    lines.push('## 🎯 주간 목표', '');
+    for (const goal of goals) {
+      lines.push(`- [ ] ${goal.goal} (${goal.metric}: ${goal.currentValue} → ${goal.targetValue})`);
+    }
+    lines.push('');
+  }
+
+  if (report.recommendations.length > 0) {
+    lines.push('## 💡 우선순위 권장사항', '');
+    [...report.recommendations]
+      .sort((a, b) => a.priority - b.priority)
+      .forEach((r, i) => {
+        lines.push(
+          `${i + 1}. **${r.title}** — ${r.description} (예상 효과: ${IMPACT_LABELS[r.expectedImpact] ?? r.expectedImpact}, 난이도: ${EFFORT_LABELS[r.effort] ?? r.effort})`
+        );
+      });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
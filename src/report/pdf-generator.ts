@@ -0,0 +1,111 @@
+/**
+ * PDF Report Generator
+ * HTML 리포트를 설치된 Chrome/Chromium/Edge 헤드리스 모드로 인쇄해 PDF 생성 (추가 의존성 없음)
+ *
+ * 브라우저 경로: PE_CHROME_PATH → 플랫폼별 기본 설치 경로 → PATH 검색
+ */
+
+import { execFile } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { delimiter, join } from 'path';
+import { pathToFileURL } from 'url';
+import type { InsightsReport } from '../analysis/insights.js';
+import type { PeriodComparison } from '../analysis/period-comparison.js';
+import { renderHtmlReport } from './html-generator.js';
+
+/** 브라우저 인쇄 제한 시간 */
+const PDF_TIMEOUT_MS = 60_000;
+
+const PLATFORM_BROWSERS: Partial<Record<NodeJS.Platform, string[]>> = {
+  darwin: [
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+    '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+  ],
+  win32: [
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe',
+  ],
+};
+
+const PATH_BROWSERS = ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser', 'microsoft-edge'];
+
+/**
+ * 헤드리스 브라우저를 찾지 못했거나 인쇄에 실패함
+ */
+export class PdfRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfRenderError';
+  }
+}
+
+/**
+ * Find a Chromium-based browser for headless printing (null if none)
+ */
+export function findHeadlessBrowser(env: NodeJS.ProcessEnv = process.env): string | null {
+  if (env.PE_CHROME_PATH) {
+    return existsSync(env.PE_CHROME_PATH) ? env.PE_CHROME_PATH : null;
+  }
+
+  for (const candidate of PLATFORM_BROWSERS[process.platform] ?? []) {
+    if (existsSync(candidate)) return candidate;
+  }
+
+  for (const dir of (env.PATH ?? '').split(delimiter).filter(Boolean)) {
+    for (const name of PATH_BROWSERS) {
+      const candidate = join(dir, process.platform === 'win32' ? `${name}.exe` : name);
+      if (existsSync(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Render the report as PDF by printing the HTML report in a headless browser
+ */
+export async function renderPdfReport(
+  report: InsightsReport,
+  options: { title?: string; comparison?: PeriodComparison; browserPath?: string } = {}
+): Promise<Buffer> {
+  const browser = options.browserPath ?? findHeadlessBrowser();
+  if (!browser) {
+    throw new PdfRenderError(
+      'PDF 내보내기에는 Chrome, Chromium 또는 Edge 가 필요합니다 (PE_CHROME_PATH 로 경로 지정 가능)'
+    );
+  }
+
+  const dir = mkdtempSync(join(tmpdir(), 'pe-report-'));
+  const htmlPath = join(dir, 'report.html');
+  const pdfPath = join(dir, 'report.pdf');
+
+  try {
+    writeFileSync(htmlPath, renderHtmlReport(report, options), 'utf-8');
+
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        browser,
+        [
+          '--headless',
+          '--disable-gpu',
+          '--no-first-run',
+          '--no-pdf-header-footer',
+          `--user-data-dir=${join(dir, 'profile')}`,
+          `--print-to-pdf=${pdfPath}`,
+          pathToFileURL(htmlPath).href,
+        ],
+        { timeout: PDF_TIMEOUT_MS },
+        (error) => (error ? reject(new PdfRenderError(`PDF 생성 실패: ${error.message}`)) : resolve())
+      );
+    });
+
+    if (!existsSync(pdfPath)) {
+      throw new PdfRenderError('PDF 생성 실패: 브라우저가 파일을 만들지 않았습니다');
+    }
+    return readFileSync(pdfPath);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, chmodSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateInsights, type InsightsReport } from '../analysis/insights.js';
+import { comparePeriods, parseComparisonSpec, type PeriodComparison } from '../analysis/period-comparison.js';
+import {
+    renderReport,
+    renderMarkdownReport,
+    renderCategoryCsv,
+    renderComparisonCsv,
+    toReportJson,
+    getReportJsonSchema,
+    insightsReportJsonSchema,
+    findHeadlessBrowser,
+    renderPdfReport,
+    csvField,
+    PdfRenderError,
+    REPORT_FORMATS,
+    REPORT_JSON_SCHEMA_ID,
+} from './index.js';
+
+const PROMPTS = [
+    'Fix the null check in src/auth/login.ts so tests/auth.test.ts passes. Return only a unified diff.',
+    'Write unit tests for the date parser, covering leap years and invalid input',
+    'Explain how the router | middleware chain works',
+    'make it work',
+];
+
+function sampleReport(): InsightsReport {
+    return generateInsights(
+        PROMPTS.map((content, i) => ({
+            content,
+            conversationId: `conv-${i % 2}`,
+            turnId: `turn-${i}`,
+            timestamp: new Date('2026-03-01T09:00:00Z'),
+            effectiveness: 0.6,
+            outcome: {
+                assistantTurns: 1 + i,
+                toolCalls: i,
+                toolErrors: i === 3 ? 2 : 0,
+                filesTouched: i === 0 ? ['src/auth/login.ts'] : [],
+                nextTurnReaction: i === 3 ? ('retry' as const) : ('positive' as const),
+                durationMs: 1000,
+                timeToCompletionMs: null,
+                outputTokens: 100,
+                costUsd: 0.01,
+                frictionScore: i === 3 ? 12 : i,
+            },
+        }))
+    );
+}
+
+function sampleComparison(): PeriodComparison {
+    const now = new Date('2026-03-15T00:00:00Z');
+    const prompts = PROMPTS.flatMap((content, i) => [
+        { content: 'fix it', conversationId: 'prev', timestamp: new Date(now.getTime() - (8 + i) * 86400000), effectiveness: 0.3 },
+        { content, conversationId: 'curr', timestamp: new Date(now.getTime() - (1 + i) * 86400000), effectiveness: 0.8 },
+    ]);
+    return comparePeriods(prompts, parseComparisonSpec('7d:prev', now)!, { minSamples: 2 });
+}
+
+describe('report renderers', () => {
+    it('renders Markdown with summary, costly prompts and categories', () => {
+        const md = renderMarkdownReport(sampleReport(), { title: 'Weekly retro' });
+
+        expect(md.startsWith('# 📊 Weekly retro')).toBe(true);
+        expect(md).toContain('## 📈 요약');
+        expect(md).toContain('| 총 프롬프트 | 4 |');
+        expect(md).toContain('## 💸 하류 비용이 가장 큰 프롬프트');
+        expect(md).toContain('| make it work | 12 | 4 | 2 | 0 | retry | $0.0100 |');
+        expect(md).toContain('## 📂 카테고리별 분석');
+    });
+
+    it('produces canonical JSON that matches the published schema', () => {
+        const json = toReportJson(sampleReport(), { title: 'Weekly retro' });
+
+        expect(json.$schema).toBe(REPORT_JSON_SCHEMA_ID);
+        expect(json.generatedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+        expect(json.costliestPrompts?.[0].content).toBe('make it work');
+        expect(Object.keys(json).slice(0, 5)).toEqual(['$schema', 'schemaVersion', 'title', 'generatedAt', 'period']);
+        expect(insightsReportJsonSchema.safeParse(json).success).toBe(true);
+
+        const published = JSON.parse(readFileSync(new URL('../../docs/schemas/insights-report.schema.json', import.meta.url), 'utf-8'));
+        expect(published).toEqual(getReportJsonSchema());
+    });
+
+    it('writes the category breakdown as CSV', () => {
+        const report = sampleReport();
+        const csv = renderCategoryCsv(report);
+        const lines = csv.trimEnd().split('\r\n');
+
+        expect(lines[0]).toBe('category,label,count,percentage,avg_effectiveness,trend,top_issue');
+        expect(lines).toHaveLength(report.categoryBreakdown.length + 1);
+        expect(csvField('a "quoted", value')).toBe('"a ""quoted"", value"');
+        expect(csvField(undefined)).toBe('');
+    });
+
+    it('renders the "what changed" section for a period comparison', async () => {
+        const comparison = sampleComparison();
+        const report = comparison.current.report;
+
+        const md = renderMarkdownReport(report, { comparison });
+        expect(md).toContain('## 🔄 무엇이 바뀌었나');
+        expect(md).toContain('이전: 이전 7일 (4개 프롬프트) → 현재: 최근 7일 (4개 프롬프트)');
+        expect(md).toMatch(/\| 효과성 \| 30\.0% \| 80\.0% \| \+50\.0%p \| [<\d.]+ \| ✅ 개선 \|/);
+        expect(renderMarkdownReport(report)).not.toContain('무엇이 바뀌었나');
+
+        const html = await renderReport(report, 'html', { comparison });
+        expect(html.content).toContain('🔄 무엇이 바뀌었나');
+        expect(html.content).toContain('class="comparison-table"');
+
+        const json = toReportJson(report, { comparison });
+        expect(json.comparison?.current.label).toBe('최근 7일');
+        expect(json.comparison?.previous.summary.totalPrompts).toBe(4);
+        expect(json.comparison?.changes.find((c) => c.key === 'effectiveness')?.assessment).toBe('improved');
+        expect(insightsReportJsonSchema.safeParse(json).success).toBe(true);
+
+        const csv = (await renderReport(report, 'csv', { comparison })).content as string;
+        expect(csv).toBe(renderComparisonCsv(comparison));
+        expect(csv.split('\r\n')[0]).toBe(
+            'key,group,label,kind,previous,current,delta,relative_change,p_value,significant,direction,assessment,previous_samples,current_samples'
+        );
+        expect(csv).toContain('effectiveness,summary,효과성,mean,0.3,0.8,0.5,');
+    });
+
+    it('renders every format through the registry', async () => {
+        const report = sampleReport();
+        for (const format of REPORT_FORMATS.filter((f) => f !== 'pdf')) {
+            const rendered = await renderReport(report, format);
+            expect(rendered.extension).toBe(format);
+            expect(typeof rendered.content).toBe('string');
+        }
+        const html = await renderReport(report, 'html');
+        expect(html.content).toContain('<!DOCTYPE html>');
+        expect(html.content).toContain('하류 비용이 가장 큰 프롬프트');
+    });
+
+    it('redacts secrets and PII in prompt examples before rendering', async () => {
+        const report = sampleReport();
+        report.costliestPrompts![0].content = 'make it work, token=abcdef123456 and mail kim@corp.io';
+
+        const rendered = await renderReport(report, 'md');
+
+        expect(rendered.content).not.toContain('kim@corp.io');
+        expect(rendered.content).not.toContain('abcdef123456');
+        expect(rendered.content).toContain('make it work, token=[REDACTED_SECRET_1] and mail [REDACTED_E');
+        // The caller's report is not modified
+        expect(report.costliestPrompts![0].content).toContain('kim@corp.io');
+    });
+
+    describe('pdf', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'pe-pdf-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('finds a browser from PE_CHROME_PATH or PATH', () => {
+            expect(findHeadlessBrowser({ PE_CHROME_PATH: join(dir, 'missing') })).toBeNull();
+
+            const chromium = join(dir, process.platform === 'win32' ? 'chromium.exe' : 'chromium');
+            writeFileSync(chromium, '');
+            expect(findHeadlessBrowser({ PE_CHROME_PATH: chromium })).toBe(chromium);
+            if (process.platform === 'linux') {
+                expect(findHeadlessBrowser({ PATH: dir })).toBe(chromium);
+            }
+        });
+
+        it('fails with PdfRenderError when no browser is available', async () => {
+            await expect(renderPdfReport(sampleReport(), { browserPath: '' })).rejects.toBeInstanceOf(PdfRenderError);
+        });
+
+        it.skipIf(process.platform === 'win32')('prints the HTML report with the browser', async () => {
+            // Stand-in browser: writes a PDF header to the --print-to-pdf path
+            const browser = join(dir, 'fake-chrome');
+            writeFileSync(
+                browser,
+                '#!/bin/sh\nfor arg in "$@"; do case "$arg" in --print-to-pdf=*) printf "%%PDF-1.4" > "${arg#--print-to-pdf=}";; esac; done\n'
+            );
+            chmodSync(browser, 0o755);
+
+            const pdf = await renderPdfReport(sampleReport(), { browserPath: browser });
+            expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+        });
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Report Renderers
+ * InsightsReport → 출력 형식 (html, md, json, pdf, csv) 레지스트리
+ * 렌더링 전에 리포트 안의 프롬프트 예시 등 모든 문자열을 가림 (redaction)
+ */
+
+import type { InsightsReport } from '../analysis/insights.js';
+import type { PeriodComparison } from '../analysis/period-comparison.js';
+import { createRedactionVault, getRedactor, redactStrings } from '../redaction/index.js';
+import { renderHtmlReport } from './html-generator.js';
+import { renderMarkdownReport } from './markdown-generator.js';
+import { renderJsonReport } from './json-export.js';
+import { renderCategoryCsv, renderComparisonCsv } from './csv-export.js';
+import { renderPdfReport } from './pdf-generator.js';
+
+export const REPORT_FORMATS = ['html', 'md', 'json', 'pdf', 'csv'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface ReportRenderOptions {
+  title?: string;
+  /** 기간 비교 결과 ("무엇이 바뀌었나" 섹션, CSV 는 지표 변화 표) */
+  comparison?: PeriodComparison;
+}
+
+export interface ReportRenderer {
+  format: ReportFormat;
+  extension: string;
+  mimeType: string;
+  /** PDF 는 바이너리, 나머지는 텍스트 */
+  render: (report: InsightsReport, options: ReportRenderOptions) => string | Promise<string | Buffer>;
+}
+
+const RENDERERS: Record<ReportFormat, ReportRenderer> = {
+  html: {
+    format: 'html',
+    extension: 'html',
+    mimeType: 'text/html; charset=utf-8',
+    render: renderHtmlReport,
+  },
+  md: {
+    format: 'md',
+    extension: 'md',
+    mimeType: 'text/markdown; charset=utf-8',
+    render: renderMarkdownReport,
+  },
+  json: {
+    format: 'json',
+    extension: 'json',
+    mimeType: 'application/json; charset=utf-8',
+    render: renderJsonReport,
+  },
+  pdf: {
+    format: 'pdf',
+    extension: 'pdf',
+    mimeType: 'application/pdf',
+    render: renderPdfReport,
+  },
+  csv: {
+    format: 'csv',
+    extension: 'csv',
+    mimeType: 'text/csv; charset=utf-8',
+    render: (report, options) =>
+      options.comparison ? renderComparisonCsv(options.comparison) : renderCategoryCsv(report),
+  },
+};
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function getReportRenderer(format: ReportFormat): ReportRenderer {
+  return RENDERERS[format];
+}
+
+/**
+ * Render the report in the given format
+ */
+export async function renderReport(
+  report: InsightsReport,
+  format: ReportFormat,
+  options: ReportRenderOptions = {}
+): Promise<{ content: string | Buffer; extension: string; mimeType: string }> {
+  const renderer = RENDERERS[format];
+  const redactor = getRedactor();
+  const vault = createRedactionVault();
+  const redactedOptions: ReportRenderOptions = {
+    ...options,
+    comparison: options.comparison && redactStrings(options.comparison, redactor, vault),
+  };
+  return {
+    content: await renderer.render(redactStrings(report, redactor, vault), redactedOptions),
+    extension: renderer.extension,
+    mimeType: renderer.mimeType,
+  };
+}
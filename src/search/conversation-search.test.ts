@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+}));
+
+import { searchConversations } from './conversation-search.js';
+import { buildMatchQuery, insertSummaries, rebuildSearchIndex } from '../db/index.js';
+
+function insertConversation(id: string, project: string, startedAt: string): void {
+    db.prepare('INSERT INTO conversations (id, project, started_at) VALUES (?, ?, ?)').run(id, project, startedAt);
+}
+
+function insertTurn(id: string, conversationId: string, role: string, content: string, timestamp: string, index: number): void {
+    db.prepare(
+        'INSERT OR REPLACE INTO turns (id, conversation_id, role, content, timestamp, turn_index) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(id, conversationId, role, content, timestamp, index);
+}
+
+describe('buildMatchQuery', () => {
+    it('should quote words as prefix terms', () => {
+        expect(buildMatchQuery('login bug')).toBe('"login"* "bug"*');
+    });
+
+    it('should keep quoted phrases exact', () => {
+        expect(buildMatchQuery('"schema migration" rollback')).toBe('"schema migration" "rollback"*');
+    });
+
+    it('should neutralize FTS syntax', () => {
+        expect(buildMatchQuery('title:foo OR -bar')).toBe('"title:foo"* "OR"* "-bar"*');
+        expect(buildMatchQuery('  "" ')).toBeNull();
+    });
+});
+
+describe('searchConversations', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+
+        insertConversation('c1', 'api', '2025-01-10T09:00:00Z');
+        insertTurn('t1', 'c1', 'user', 'Fix the login bug in auth.ts', '2025-01-10T09:00:00Z', 0);
+        insertTurn('t2', 'c1', 'assistant', 'The login handler swallowed the error. Fixed.', '2025-01-10T09:01:00Z', 1);
+        insertConversation('c2', 'web', '2025-02-01T09:00:00Z');
+        insertTurn('t3', 'c2', 'user', '로그인 페이지 만들어줘', '2025-02-01T09:00:00Z', 0);
+        insertTurn('t4', 'c2', 'user', 'Explain how the login session cookie works', '2025-02-01T09:05:00Z', 1);
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('should return ranked hits with highlighted snippets', () => {
+        const result = searchConversations({ query: 'login' });
+
+        expect(result.total).toBe(3);
+        expect(result.hits.map((h) => h.turnId).sort()).toEqual(['t1', 't2', 't4']);
+        expect(result.hits[0].snippet).toMatch(/<mark>login<\/mark>/i);
+        expect(result.hits.every((h, i) => i === 0 || result.hits[i - 1].rank <= h.rank)).toBe(true);
+    });
+
+    it('should match Korean words with particles by prefix', () => {
+        const result = searchConversations({ query: '로그인' });
+
+        expect(result.hits).toHaveLength(1);
+        expect(result.hits[0]).toMatchObject({ conversationId: 'c2', turnId: 't3', project: 'web' });
+    });
+
+    it('should filter by role, project and date', () => {
+        expect(searchConversations({ query: 'login', role: 'assistant' }).hits.map((h) => h.turnId)).toEqual(['t2']);
+        expect(searchConversations({ query: 'login', project: 'web' }).hits.map((h) => h.turnId)).toEqual(['t4']);
+        expect(
+            searchConversations({ query: 'login', startDate: new Date('2025-01-31T00:00:00Z') }).hits.map((h) => h.turnId)
+        ).toEqual(['t4']);
+    });
+
+    it('should filter user turns by task category', () => {
+        const result = searchConversations({ query: 'login', category: 'bug-fix' });
+
+        expect(result.hits.map((h) => h.turnId)).toEqual(['t1']);
+        expect(result.hits[0].category).toBe('bug-fix');
+    });
+
+    it('should paginate and count all matches', () => {
+        const result = searchConversations({ query: 'login', limit: 2, offset: 2 });
+
+        expect(result.total).toBe(3);
+        expect(result.hits).toHaveLength(1);
+    });
+
+    it('should search session summaries', () => {
+        insertSummaries('c2', ['Built the login page', 'Built the login page']);
+
+        const result = searchConversations({ query: 'page' });
+
+        expect(result.hits).toHaveLength(1);
+        expect(result.hits[0]).toMatchObject({ kind: 'summary', conversationId: 'c2', turnId: null });
+        expect(searchConversations({ query: 'page', role: 'user' }).total).toBe(0);
+    });
+
+    it('should keep the index in sync with replaced and deleted turns', () => {
+        insertTurn('t1', 'c1', 'user', 'Add a logout button', '2025-01-10T09:00:00Z', 0);
+        expect(searchConversations({ query: 'auth' }).total).toBe(0);
+        expect(searchConversations({ query: 'logout' }).hits.map((h) => h.turnId)).toEqual(['t1']);
+
+        // Replacing a conversation cascades to its turns
+        db.prepare("INSERT OR REPLACE INTO conversations (id, project, started_at) VALUES ('c1', 'api', '2025-01-10T09:00:00Z')").run();
+        expect(searchConversations({ query: 'logout' }).total).toBe(0);
+
+        rebuildSearchIndex();
+        expect(() => db.exec("INSERT INTO turns_fts(turns_fts, rank) VALUES ('integrity-check', 1)")).not.toThrow();
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * 대화 검색
+ * FTS5 인덱스 검색 결과에 작업 카테고리 필터를 더함 (CLI/API 공용)
+ */
+
+import {
+  searchIndex,
+  countSearchHits,
+  type SearchFilter,
+  type SearchHitKind,
+  type SearchHitRow,
+} from '../db/index.js';
+import { classifyPrompt, type TaskCategory } from '../analysis/index.js';
+import type { AssistantSource } from '../types/index.js';
+
+// 카테고리는 저장되지 않아 후보를 분류해 거름 (상위 후보까지만)
+const CATEGORY_CANDIDATE_LIMIT = 1000;
+
+export interface SearchOptions extends SearchFilter {
+  query: string;
+  /** 사용자 턴만 분류해 거름 */
+  category?: TaskCategory;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchHit {
+  kind: SearchHitKind;
+  conversationId: string;
+  turnId: string | null;
+  role: 'user' | 'assistant' | null;
+  project: string;
+  source: AssistantSource;
+  timestamp: string | null;
+  /** 일치 부분이 <mark></mark> 로 감싸진 발췌 */
+  snippet: string;
+  rank: number;
+  category?: TaskCategory;
+}
+
+export interface SearchResult {
+  query: string;
+  total: number;
+  limit: number;
+  offset: number;
+  hits: SearchHit[];
+}
+
+/**
+ * 턴/요약 전문 검색 (관련도 순)
+ */
+export function searchConversations(options: SearchOptions): SearchResult {
+  const { query, category, limit = 20, offset = 0, ...filter } = options;
+
+  if (!category) {
+    const rows = searchIndex(query, filter, { limit, offset });
+    return {
+      query,
+      total: rows.length === 0 && offset === 0 ? 0 : countSearchHits(query, filter),
+      limit,
+      offset,
+      hits: rows.map(toHit),
+    };
+  }
+
+  const candidates = searchIndex(
+    query,
+    { ...filter, role: 'user' },
+    { limit: CATEGORY_CANDIDATE_LIMIT }
+  );
+  const matched = candidates.flatMap((row) => {
+    const taskCategory = classifyPrompt(row.content ?? '').taskCategory;
+    return taskCategory === category ? [{ ...toHit(row), category: taskCategory }] : [];
+  });
+
+  return {
+    query,
+    total: matched.length,
+    limit,
+    offset,
+    hits: matched.slice(offset, offset + limit),
+  };
+}
+
+function toHit(row: SearchHitRow): SearchHit {
+  return {
+    kind: row.kind,
+    conversationId: row.conversation_id,
+    turnId: row.turn_id,
+    role: row.role,
+    project: row.project,
+    source: row.source,
+    timestamp: row.timestamp,
+    snippet: row.snippet,
+    rank: row.rank,
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * Search module exports
+ */
+
+export * from './conversation-search.js';
+export * from './similar-prompts.js';
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+}));
+
+import { findSimilarPrompts, findPromptsSimilarToTurn, ensurePromptEmbeddings } from './similar-prompts.js';
+
+function insertConversation(id: string, project: string, effectiveness?: number): void {
+    db.prepare("INSERT INTO conversations (id, project, started_at) VALUES (?, ?, '2025-01-10T09:00:00Z')").run(id, project);
+    if (effectiveness !== undefined) {
+        db.prepare(
+            "INSERT INTO quality_signals (conversation_id, signal_type, value, metadata) VALUES (?, 'positive_feedback', ?, ?)"
+        ).run(id, effectiveness, JSON.stringify({ type: 'effectiveness_score' }));
+    }
+}
+
+function insertTurn(id: string, conversationId: string, role: string, content: string): void {
+    db.prepare(
+        "INSERT OR REPLACE INTO turns (id, conversation_id, role, content, timestamp) VALUES (?, ?, ?, ?, '2025-01-10T09:00:00Z')"
+    ).run(id, conversationId, role, content);
+}
+
+function storedModels(): string[] {
+    return (db.prepare('SELECT model FROM embedding_models').all() as Array<{ model: string }>).map((r) => r.model);
+}
+
+function embeddingCount(): number {
+    return (db.prepare('SELECT COUNT(*) as count FROM prompt_embeddings').get() as { count: number }).count;
+}
+
+describe('findSimilarPrompts', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+
+        insertConversation('c1', 'api', 0.9);
+        insertConversation('c2', 'web', 0.3);
+        insertTurn('t1', 'c1', 'user', 'fix login bug');
+        insertTurn('t2', 'c1', 'assistant', 'Fixed the login redirect bug.');
+        insertTurn('t3', 'c2', 'user', '로그인 버그 고쳐줘');
+        insertTurn('t4', 'c2', 'user', 'write unit tests for the parser');
+        insertTurn('t5', 'c2', 'user', 'fix login bug');
+        insertTurn('t6', 'c1', 'user', 'login fails because the auth token expired');
+        insertTurn('t7', 'c2', 'user', 'auth redirect loop after login');
+        insertTurn('t8', 'c2', 'user', 'add tests for parser edge cases');
+        insertTurn('t9', 'c2', 'user', '로그인이 안 되는 버그를 수정');
+        insertTurn('t10', 'c2', 'user', 'parser unit tests for empty input');
+        insertTurn('t11', 'c2', 'user', 'write unit tests for the config loader');
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('should rank user prompts by meaning and skip unrelated ones', () => {
+        const result = findSimilarPrompts('auth fails after submit');
+
+        expect(result.model).toMatch(/^tfidf-svd-v1:/);
+        expect(result.prompts.map((p) => p.turnId).sort()).toEqual(['t1', 't6', 't7']);
+    });
+
+    it('should cache embeddings for every candidate', () => {
+        findSimilarPrompts('auth fails after submit');
+        expect(embeddingCount()).toBe(10);
+
+        findSimilarPrompts('login');
+        expect(embeddingCount()).toBe(10);
+    });
+
+    it('should drop embeddings with their turn', () => {
+        findSimilarPrompts('login');
+        insertTurn('t1', 'c1', 'user', 'explain the parser');
+
+        expect(embeddingCount()).toBe(9);
+        expect(findSimilarPrompts('parser').prompts.map((p) => p.turnId)).toContain('t1');
+        expect(embeddingCount()).toBe(10);
+    });
+
+    it('should filter by effectiveness and project', () => {
+        expect(findSimilarPrompts('login bug', { minEffectiveness: 0.5 }).prompts.map((p) => p.turnId).sort()).toEqual([
+            't1',
+            't6',
+        ]);
+
+        const web = findSimilarPrompts('auth problem', { project: 'web' }).prompts;
+        expect(web.map((p) => p.turnId)).toContain('t7');
+        expect(web.every((p) => p.project === 'web')).toBe(true);
+    });
+
+    it('should look up prompts similar to a stored turn', () => {
+        const result = findPromptsSimilarToTurn('t3')!;
+
+        expect(result.query).toBe('로그인 버그 고쳐줘');
+        expect(result.prompts.map((p) => p.turnId)).toEqual(['t9']);
+        expect(findPromptsSimilarToTurn('t2')).toBeNull();
+        expect(findPromptsSimilarToTurn('missing')).toBeNull();
+    });
+
+    it('should store the fitted model and refit when prompts grow', () => {
+        const first = findSimilarPrompts('login').model;
+        expect(storedModels()).toEqual([first]);
+        expect(findSimilarPrompts('auth').model).toBe(first);
+
+        for (let i = 0; i < 5; i++) {
+            insertTurn(`t-new-${i}`, 'c1', 'user', `deploy the api to staging ${i}`);
+        }
+        const refit = findSimilarPrompts('login').model;
+
+        expect(refit).not.toBe(first);
+        expect(storedModels()).toEqual([refit]);
+        expect(db.prepare('SELECT COUNT(*) as count FROM prompt_embeddings WHERE model != ?').get(refit)).toEqual({
+            count: 0,
+        });
+    });
+
+    it('should reuse cached vectors in ensurePromptEmbeddings', () => {
+        const first = ensurePromptEmbeddings([{ turnId: 't1', content: 'fix login bug' }]);
+        const second = ensurePromptEmbeddings([{ turnId: 't1', content: 'ignored when cached' }]);
+
+        expect(second.get('t1')).toEqual(first.get('t1'));
+        expect(embeddingCount()).toBe(1);
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * 유사 프롬프트 검색
+ * 프롬프트 임베딩 최근접 이웃 - "이것과 비슷한데 잘 됐던 프롬프트" (CLI/API 공용)
+ * 임베딩은 처음 필요할 때 계산해 prompt_embeddings 에 저장
+ * 임베딩 모델 (TF-IDF + SVD) 은 사용자의 프롬프트로 학습해 embedding_models 에 저장하고,
+ * 프롬프트가 늘어나면 다시 학습 (이전 모델의 벡터는 버려지고 다시 계산됨)
+ */
+
+import {
+  getPromptCandidates,
+  getPromptEmbeddings,
+  savePromptEmbeddings,
+  decodeEmbedding,
+  getTurnById,
+  countPromptCorpus,
+  getPromptCorpus,
+  getLatestEmbeddingModel,
+  saveEmbeddingModel,
+  type PromptCandidateFilter,
+} from '../db/index.js';
+import {
+  fitTfidfSvd,
+  createTfidfSvdBackend,
+  cosineSimilarity,
+  type EmbeddingBackend,
+} from '../analysis/index.js';
+import type { AssistantSource } from '../types/index.js';
+
+// 이보다 덜 비슷한 프롬프트는 결과에서 제외
+const MIN_SIMILARITY = 0.3;
+
+// 학습 말뭉치 상한 (최신 프롬프트 순)
+const MAX_FIT_PROMPTS = 5000;
+// 학습 이후 프롬프트가 이만큼 늘면 다시 학습
+const REFIT_GROWTH = 1.5;
+
+let cachedBackend: EmbeddingBackend | null = null;
+
+export interface SimilarPromptOptions extends PromptCandidateFilter {
+  /** 결과에서 제외할 턴 (기준 프롬프트 자신) */
+  excludeTurnId?: string;
+  /** 대화 효과성 하한 (analyze 된 대화만 남음) */
+  minEffectiveness?: number;
+  limit?: number;
+  embedder?: EmbeddingBackend;
+}
+
+export interface SimilarPrompt {
+  turnId: string;
+  conversationId: string;
+  project: string;
+  source: AssistantSource;
+  timestamp: string | null;
+  content: string;
+  similarity: number;
+  /** 대화 효과성 (analyze 전이면 null) */
+  effectiveness: number | null;
+}
+
+export interface SimilarPromptResult {
+  query: string;
+  model: string;
+  prompts: SimilarPrompt[];
+}
+
+/**
+ * 저장된 프롬프트로 학습한 임베딩 백엔드
+ * 모델이 없거나 학습 이후 프롬프트가 충분히 늘었으면 다시 학습해 저장
+ */
+export function getPromptEmbedder(): EmbeddingBackend {
+  const corpusSize = countPromptCorpus();
+  const stored = getLatestEmbeddingModel();
+
+  const fittedSize = Math.min(stored?.documentCount ?? 0, MAX_FIT_PROMPTS);
+  if (stored && Math.min(corpusSize, MAX_FIT_PROMPTS) < fittedSize * REFIT_GROWTH) {
+    if (cachedBackend?.model !== stored.model) {
+      cachedBackend = createTfidfSvdBackend(stored);
+    }
+    return cachedBackend;
+  }
+
+  const model = fitTfidfSvd(getPromptCorpus(MAX_FIT_PROMPTS));
+  saveEmbeddingModel(model);
+  cachedBackend = createTfidfSvdBackend(model);
+  return cachedBackend;
+}
+
+/**
+ * 턴 임베딩 조회, 없는 것은 계산 후 저장
+ */
+export function ensurePromptEmbeddings(
+  prompts: Array<{ turnId: string; content: string }>,
+  embedder: EmbeddingBackend = getPromptEmbedder()
+): Map<string, Float32Array> {
+  const embeddings = getPromptEmbeddings(prompts.map((p) => p.turnId), embedder.model);
+
+  const missing = prompts
+    .filter((p) => !embeddings.has(p.turnId))
+    .map((p) => ({ turnId: p.turnId, vector: embedder.embed(p.content) }));
+
+  if (missing.length > 0) {
+    savePromptEmbeddings(embedder.model, missing);
+    for (const { turnId, vector } of missing) embeddings.set(turnId, vector);
+  }
+
+  return embeddings;
+}
+
+/**
+ * 텍스트와 의미가 가까운 저장된 프롬프트 (유사도 순, 같은 내용은 한 번만)
+ */
+export function findSimilarPrompts(text: string, options: SimilarPromptOptions = {}): SimilarPromptResult {
+  const { excludeTurnId, minEffectiveness, limit = 10, embedder = getPromptEmbedder(), ...filter } = options;
+
+  const candidates = getPromptCandidates(embedder.model, filter);
+
+  // 캐시에 없는 임베딩 채우기
+  const missing = candidates
+    .filter((c) => c.vector === null)
+    .map((c) => ({ turnId: c.turn_id, vector: embedder.embed(c.content) }));
+  if (missing.length > 0) {
+    savePromptEmbeddings(embedder.model, missing);
+  }
+  const computed = new Map(missing.map((m) => [m.turnId, m.vector]));
+
+  const query = embedder.embed(text);
+  const normalizedQuery = normalize(text);
+
+  const scored: SimilarPrompt[] = [];
+  for (const candidate of candidates) {
+    if (candidate.turn_id === excludeTurnId) continue;
+    if (minEffectiveness !== undefined && (candidate.effectiveness ?? -1) < minEffectiveness) continue;
+
+    const vector = candidate.vector ? decodeEmbedding(candidate.vector) : computed.get(candidate.turn_id)!;
+    const similarity = cosineSimilarity(query, vector);
+    if (similarity < MIN_SIMILARITY) continue;
+
+    scored.push({
+      turnId: candidate.turn_id,
+      conversationId: candidate.conversation_id,
+      project: candidate.project,
+      source: candidate.source,
+      timestamp: candidate.timestamp,
+      content: candidate.content,
+      similarity,
+      effectiveness: candidate.effectiveness,
+    });
+  }
+
+  // 유사도 동률이면 효과성 높은 쪽
+  scored.sort(
+    (a, b) => b.similarity - a.similarity || (b.effectiveness ?? -1) - (a.effectiveness ?? -1)
+  );
+
+  // 반복된 같은 프롬프트와 질의 자체는 제외
+  const seen = new Set<string>([normalizedQuery]);
+  const prompts: SimilarPrompt[] = [];
+  for (const prompt of scored) {
+    const key = normalize(prompt.content);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    prompts.push(prompt);
+    if (prompts.length >= limit) break;
+  }
+
+  return { query: text, model: embedder.model, prompts };
+}
+
+/**
+ * 저장된 턴과 비슷한 프롬프트 (턴이 없으면 null)
+ */
+export function findPromptsSimilarToTurn(
+  turnId: string,
+  options: Omit<SimilarPromptOptions, 'excludeTurnId'> = {}
+): SimilarPromptResult | null {
+  const turn = getTurnById(turnId);
+  if (!turn || turn.role !== 'user' || !turn.content?.trim()) return null;
+
+  return findSimilarPrompts(turn.content, { ...options, excludeTurnId: turnId });
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -8,6 +8,8 @@ export {
   CONFIDENCE,
   GRADE_THRESHOLDS,
   EFFECTIVENESS_WEIGHTS,
+  TOOL_ERROR_LOOP,
+  PROMPT_OUTCOME_FRICTION,
   QUALITY_WEIGHTS,
   SIGNAL_TYPES,
   type SignalPatternType,
@@ -28,4 +30,8 @@ export {
   STRENGTH_DETECTION,
   SCORER_THRESHOLDS,
   COMPARISON_THRESHOLDS,
+  PERIOD_COMPARISON,
 } from './insights-thresholds.js';
+
+// Model pricing (USD per 1M tokens)
+export { MODEL_PRICING, type ModelPricing } from './model-pricing.js';
@@ -86,3 +86,15 @@ export const COMPARISON_THRESHOLDS = {
   /** Score difference threshold for significant comparison insight */
   SIGNIFICANT_DIFFERENCE: 0.2,
 } as const;
+
+/**
+ * Period-over-period comparison thresholds
+ */
+export const PERIOD_COMPARISON = {
+  /** Benjamini–Hochberg adjusted p-value below which a change is flagged as significant */
+  SIGNIFICANCE_LEVEL: 0.05,
+  /** Minimum prompts in each window before changes are tested */
+  MIN_SAMPLES: 5,
+  /** Smallest metric change reported as a direction (not "flat") */
+  FLAT_DELTA: 0.001,
+} as const;
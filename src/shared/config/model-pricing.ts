@@ -0,0 +1,47 @@
+/**
+ * Model Pricing
+ * USD per 1M tokens, keyed by model id (date suffixes are matched by prefix)
+ *
+ * Override or extend with ~/.prompt-evolution/pricing.json (or PE_PRICING_FILE):
+ *   { "claude-sonnet-4-5": { "input": 3, "output": 15, "cacheWrite": 3.75, "cacheRead": 0.3 } }
+ */
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Cache write (prompt caching creation) */
+  cacheWrite: number;
+  /** Cache read (cached input) */
+  cacheRead: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // Anthropic
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+
+  // OpenAI
+  'gpt-5': { input: 1.25, output: 10, cacheWrite: 1.25, cacheRead: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cacheWrite: 0.25, cacheRead: 0.025 },
+  'gpt-4.1': { input: 2, output: 8, cacheWrite: 2, cacheRead: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheWrite: 0.4, cacheRead: 0.1 },
+  'gpt-4o': { input: 2.5, output: 10, cacheWrite: 2.5, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheWrite: 0.15, cacheRead: 0.075 },
+  'o3': { input: 2, output: 8, cacheWrite: 2, cacheRead: 0.5 },
+  'o3-mini': { input: 1.1, output: 4.4, cacheWrite: 1.1, cacheRead: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cacheWrite: 1.1, cacheRead: 0.275 },
+
+  // Google
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheWrite: 1.25, cacheRead: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheWrite: 0.3, cacheRead: 0.075 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cacheWrite: 0.1, cacheRead: 0.025 },
+};
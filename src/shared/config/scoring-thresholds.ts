@@ -47,6 +47,28 @@ export const EFFECTIVENESS_WEIGHTS = {
   engagement: 0.15,
 } as const;
 
+/**
+ * Tool error loop detection (same tool failing repeatedly)
+ */
+export const TOOL_ERROR_LOOP = {
+  /** Consecutive failures of one tool that count as a loop */
+  MIN_CONSECUTIVE_FAILURES: 3,
+  /** Efficiency score penalty per detected loop */
+  EFFICIENCY_PENALTY: 0.2,
+} as const;
+
+/**
+ * Downstream friction of a prompt (what happened before the next user turn)
+ */
+export const PROMPT_OUTCOME_FRICTION = {
+  /** Per assistant turn beyond the first before the next user turn */
+  EXTRA_ASSISTANT_TURN: 1,
+  /** Per failed tool call */
+  TOOL_ERROR: 2,
+  /** Next user turn is a retry or negative feedback */
+  RETRY_OR_NEGATIVE: 5,
+} as const;
+
 /**
  * Prompt quality score weights
  */
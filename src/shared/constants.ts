@@ -40,6 +40,11 @@ export const PROMPT_INTENTS = [
   'unknown',
 ] as const;
 
+/**
+ * Tools that modify files (target is the edited file path)
+ */
+export const EDIT_TOOL_NAMES = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'apply_edit'] as const;
+
 /**
  * Confidence thresholds for classification
  */
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+    transaction: <T>(fn: () => T): T => db.transaction(fn)(),
+}));
+
+import { analyzeStoredConversation } from './conversation-analyzer.js';
+import { getPromptOutcomes, countPromptOutcomes } from '../db/index.js';
+import { resetPersonalModelCache } from './personal-model-trainer.js';
+
+function insertConversation(id: string, project: string, turns: Array<[string, 'user' | 'assistant', string]>): void {
+    db.prepare('INSERT INTO conversations (id, project, started_at) VALUES (?, ?, ?)').run(id, project, '2026-03-01T09:00:00Z');
+    const insertTurn = db.prepare(
+        'INSERT INTO turns (id, conversation_id, role, content, turn_index, timestamp, output_tokens, cost_usd) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    turns.forEach(([turnId, role, content], i) => {
+        const timestamp = new Date(Date.parse('2026-03-01T09:00:00Z') + i * 60_000).toISOString();
+        insertTurn.run(turnId, id, role, content, i, timestamp, role === 'assistant' ? 100 : null, role === 'assistant' ? 0.01 : null);
+    });
+}
+
+function insertToolCall(turnId: string, toolName: string, target: string | null, isError: boolean): void {
+    db.prepare('INSERT INTO tool_usages (turn_id, tool_name, target, is_error) VALUES (?, ?, ?, ?)').run(
+        turnId,
+        toolName,
+        target,
+        isError ? 1 : 0
+    );
+}
+
+describe('analyzeStoredConversation prompt outcomes', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+        resetPersonalModelCache();
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('stores one outcome per main-path prompt and replaces them on re-analysis', () => {
+        insertConversation('conv-1', 'api', [
+            ['u1', 'user', 'Fix the flaky test in tests/db.test.ts'],
+            ['a1', 'assistant', 'Trying.'],
+            ['a2', 'assistant', 'Patched.'],
+            ['u2', 'user', 'try again, still failing'],
+            ['a3', 'assistant', 'Fixed.'],
+            ['u3', 'user', 'perfect, thank you'],
+        ]);
+        insertToolCall('a1', 'Bash', 'npm test', true);
+        insertToolCall('a2', 'Edit', 'tests/db.test.ts', false);
+        insertConversation('conv-2', 'web', [
+            ['w1', 'user', 'Explain the router setup'],
+            ['w2', 'assistant', 'It mounts each feature router.'],
+        ]);
+
+        analyzeStoredConversation('conv-1');
+        analyzeStoredConversation('conv-2');
+        analyzeStoredConversation('conv-1');
+
+        expect(countPromptOutcomes()).toBe(4);
+
+        const [worst] = getPromptOutcomes({ project: 'api' });
+        expect(worst).toMatchObject({
+            turn_id: 'u1',
+            content: 'Fix the flaky test in tests/db.test.ts',
+            next_turn_id: 'u2',
+            assistant_turns: 2,
+            tool_errors: 1,
+            next_turn_reaction: 'retry',
+            duration_ms: 120_000,
+            output_tokens: 200,
+        });
+        expect(JSON.parse(worst.files_touched)).toEqual(['tests/db.test.ts']);
+
+        expect(getPromptOutcomes({ reaction: 'retry' }).map((o) => o.turn_id)).toEqual(['u1']);
+        expect(getPromptOutcomes({ project: 'web' }, { sort: 'recent' }).map((o) => o.turn_id)).toEqual(['w1']);
+        expect(countPromptOutcomes({ minFriction: 1 })).toBe(1);
+    });
+
+    it('drops outcomes when the conversation is deleted', () => {
+        insertConversation('conv-1', 'api', [
+            ['u1', 'user', 'Add a health endpoint'],
+            ['a1', 'assistant', 'Added.'],
+        ]);
+        analyzeStoredConversation('conv-1');
+        expect(countPromptOutcomes()).toBe(1);
+
+        db.prepare('DELETE FROM conversations WHERE id = ?').run('conv-1');
+        expect(countPromptOutcomes()).toBe(0);
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * 저장된 대화 분석
+ * DB 의 턴/도구 호출로 품질 신호, 효과성 점수, 프롬프트별 결과를 다시 계산해 교체
+ */
+
+import {
+  getConversationById,
+  getTurnsByConversationId,
+  getToolCallsByTurn,
+  deleteSignalsByConversationId,
+  insertQualitySignals,
+  saveEffectivenessScore,
+  replacePromptOutcomes,
+  GOLDEN_SCORE_SIGNAL,
+} from '../db/index.js';
+import {
+  detectConversationSignals,
+  analyzeEffectiveness,
+  attributePromptOutcomes,
+  type TurnForAnalysis,
+  type ConversationSignals,
+} from '../analysis/index.js';
+import { resolveEffectivenessWeights } from './personal-model-trainer.js';
+
+/**
+ * 저장된 턴을 신호 탐지 입력 형식으로 변환 (turn_index 순)
+ */
+export function loadTurnsForAnalysis(conversationId: string): TurnForAnalysis[] {
+  const turnRows = getTurnsByConversationId(conversationId);
+  const toolCalls = getToolCallsByTurn(conversationId);
+  return turnRows.map((t, i) => ({
+    id: t.id,
+    role: t.role,
+    content: t.content || '',
+    turnIndex: i,
+    parentId: t.parent_id || undefined,
+    branchId: t.branch_id || undefined,
+    branchType: t.branch_type,
+    toolCalls: toolCalls.get(t.id),
+    timestamp: t.timestamp ?? undefined,
+    outputTokens: t.output_tokens ?? undefined,
+    costUsd: t.cost_usd ?? undefined,
+  }));
+}
+
+/**
+ * 대화 하나 분석 (턴이 없으면 null)
+ */
+export function analyzeStoredConversation(conversationId: string): ConversationSignals | null {
+  const turns = loadTurnsForAnalysis(conversationId);
+  if (turns.length === 0) return null;
+
+  const signals = detectConversationSignals(conversationId, turns);
+  // 학습된 개인화 모델이 있으면 프로젝트 가중치 사용
+  const effectiveness = analyzeEffectiveness(
+    signals,
+    resolveEffectivenessWeights(getConversationById(conversationId)?.project)
+  );
+
+  // 이전 분석 결과 교체 (LLM 심사 점수는 유지)
+  deleteSignalsByConversationId(conversationId, { exceptTypes: [GOLDEN_SCORE_SIGNAL] });
+
+  const signalsToSave = signals.signals.map((s) => ({
+    signalType: s.type,
+    turnId: s.turnId,
+    value: s.confidence,
+    metadata: { keywords: s.keywords, ...s.metadata },
+  }));
+  if (signalsToSave.length > 0) {
+    insertQualitySignals(conversationId, signalsToSave);
+  }
+
+  saveEffectivenessScore(conversationId, effectiveness.score.overall, {
+    sentiment: effectiveness.score.sentimentScore,
+    completion: effectiveness.score.completionScore,
+    efficiency: effectiveness.score.efficiencyScore,
+    engagement: effectiveness.score.engagementScore,
+  });
+
+  // 프롬프트별 하류 결과 (다음 사용자 턴까지 일어난 일)
+  replacePromptOutcomes(conversationId, attributePromptOutcomes(turns, signals.signals));
+
+  return signals;
+}
@@ -0,0 +1,8 @@
+/**
+ * Sync module exports
+ */
+
+export * from './session-importer.js';
+export * from './conversation-analyzer.js';
+export * from './llm-judging.js';
+export * from './personal-model-trainer.js';
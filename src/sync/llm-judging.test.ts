@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+    transaction: <T>(fn: () => T): T => db.transaction(fn)(),
+}));
+
+import { runBatchJudging, judgeStoredPrompts } from './llm-judging.js';
+import { deleteSignalsByConversationId, GOLDEN_SCORE_SIGNAL } from '../db/index.js';
+import { resetLLMConfigCache, closeLLMCache, getCacheStats } from '../llm/index.js';
+
+const JUDGE_RESPONSE = JSON.stringify({
+    goal: { score: 0.9, reason: 'clear' },
+    output: { score: 0.8, reason: 'format given' },
+    limits: { score: 0.5, reason: '' },
+    data: { score: 0.5, reason: '' },
+    evaluation: { score: 0.2, reason: '' },
+    next: { score: 0.1, reason: '' },
+    overall_reasoning: 'decent',
+});
+
+/**
+ * Minimal Anthropic Message Batches API: batches end after `pollsUntilEnded` status checks,
+ * prompts containing FAIL come back errored
+ */
+interface StubBatch {
+    requests: Array<{ custom_id: string; params: { messages: Array<{ content: string }> } }>;
+    polls: number;
+}
+
+function startStubServer(pollsUntilEnded: number): Promise<{ server: Server; url: string; batches: Map<string, StubBatch> }> {
+    const batches = new Map<string, StubBatch>();
+
+    const server = createServer((req, res) => {
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        const info = (id: string) => {
+            const batch = batches.get(id)!;
+            const ended = batch.polls >= pollsUntilEnded;
+            return {
+                id,
+                processing_status: ended ? 'ended' : 'in_progress',
+                request_counts: { processing: ended ? 0 : batch.requests.length, succeeded: ended ? batch.requests.length : 0 },
+                results_url: ended ? `http://${req.headers.host}/v1/messages/batches/${id}/results` : null,
+            };
+        };
+
+        if (req.headers['x-api-key'] !== 'sk-ant-test') return send(401, { error: 'unauthorized' });
+
+        const match = req.url?.match(/^\/v1\/messages\/batches(?:\/([^/]+))?(\/results)?$/);
+        if (!match) return send(404, { error: 'not found' });
+        const [, id, results] = match;
+
+        if (req.method === 'POST' && !id) {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                const batchId = `msgbatch_${batches.size + 1}`;
+                batches.set(batchId, { requests: JSON.parse(body).requests, polls: 0 });
+                send(200, info(batchId));
+            });
+            return;
+        }
+
+        const batch = id ? batches.get(id) : undefined;
+        if (!batch) return send(404, { error: 'not found' });
+
+        if (results) {
+            res.writeHead(200, { 'Content-Type': 'application/binary' });
+            res.end(
+                batch.requests
+                    .map((r) =>
+                        JSON.stringify(
+                            r.params.messages[0].content.includes('FAIL')
+                                ? { custom_id: r.custom_id, result: { type: 'errored', error: { type: 'error', error: { message: 'overloaded' } } } }
+                                : {
+                                    custom_id: r.custom_id,
+                                    result: { type: 'succeeded', message: { content: [{ type: 'text', text: JUDGE_RESPONSE }] } },
+                                }
+                        )
+                    )
+                    .join('\n')
+            );
+            return;
+        }
+
+        batch.polls++;
+        send(200, info(id));
+    });
+
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({ server, url: `http://127.0.0.1:${port}`, batches });
+        });
+    });
+}
+
+function insertTurn(id: string, conversationId: string, role: string, content: string): void {
+    db.prepare('INSERT OR IGNORE INTO conversations (id, project, started_at) VALUES (?, ?, ?)').run(
+        conversationId,
+        'api',
+        '2025-01-10T09:00:00Z'
+    );
+    db.prepare("INSERT INTO turns (id, conversation_id, role, content, timestamp) VALUES (?, ?, ?, ?, '2025-01-10T09:00:00Z')").run(
+        id,
+        conversationId,
+        role,
+        content
+    );
+}
+
+function goldenSignals(): Array<{ turn_id: string; value: number; metadata: string }> {
+    return db
+        .prepare('SELECT turn_id, value, metadata FROM quality_signals WHERE signal_type = ? ORDER BY turn_id')
+        .all(GOLDEN_SCORE_SIGNAL) as Array<{ turn_id: string; value: number; metadata: string }>;
+}
+
+describe('LLM judging of stored prompts', () => {
+    let stub: Awaited<ReturnType<typeof startStubServer>> | undefined;
+    let dir: string;
+
+    async function useStub(pollsUntilEnded: number): Promise<void> {
+        stub = await startStubServer(pollsUntilEnded);
+        vi.stubEnv('PE_LLM_BASE_URL', stub.url);
+    }
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+
+        dir = mkdtempSync(join(tmpdir(), 'pe-llm-judging-'));
+        vi.stubEnv('PE_LLM_CONFIG', join(dir, 'llm.json'));
+        vi.stubEnv('PE_LLM_CACHE_PATH', join(dir, 'llm-cache.db'));
+        vi.stubEnv('PE_LLM_PROVIDER', '');
+        vi.stubEnv('PE_LLM_MODEL', '');
+        vi.stubEnv('PE_LLM_API_KEY', '');
+        vi.stubEnv('PE_LLM_MAX_RETRIES', '0');
+        vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test');
+        resetLLMConfigCache();
+
+        insertTurn('t1', 'c1', 'user', 'Implement a login form with email validation in React');
+        insertTurn('t2', 'c1', 'assistant', 'Here is the login form implementation you asked for.');
+        insertTurn('t3', 'c1', 'user', 'ok');
+        insertTurn('t4', 'c2', 'user', 'Write unit tests for the session parser module');
+    });
+
+    afterEach(async () => {
+        if (stub) {
+            const { server } = stub;
+            await new Promise((resolve) => server.close(resolve));
+            stub = undefined;
+        }
+        closeLLMCache();
+        vi.unstubAllEnvs();
+        resetLLMConfigCache();
+        db.close();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('submits unjudged user prompts as one batch and merges the results', async () => {
+        await useStub(1);
+
+        const result = await runBatchJudging({ pollIntervalMs: 5 });
+
+        expect(result).toMatchObject({ merged: 2, failed: 0, submittedJobs: 1, openJobs: 0 });
+        const [batch] = [...stub!.batches.values()];
+        expect(batch.requests.map((r) => r.params.messages[0].content)).toEqual([
+            expect.stringContaining('login form'),
+            expect.stringContaining('unit tests'),
+        ]);
+
+        const signals = goldenSignals();
+        expect(signals.map((s) => s.turn_id)).toEqual(['t1', 't4']);
+        const metadata = JSON.parse(signals[0].metadata);
+        expect(metadata).toMatchObject({ provider: 'anthropic', mode: 'batch', llm: { goal: 0.9 } });
+        expect(signals[0].value).toBeCloseTo(metadata.scores.total);
+
+        const job = db.prepare('SELECT status, provider_batch_id FROM llm_batch_jobs').get();
+        expect(job).toEqual({ status: 'completed', provider_batch_id: 'msgbatch_1' });
+        expect(getCacheStats().byTask.judge.entries).toBe(2);
+    });
+
+    it('resumes a submitted job after a restart without resubmitting', async () => {
+        await useStub(2);
+
+        const first = await runBatchJudging({ wait: false });
+        expect(first).toMatchObject({ merged: 0, submittedJobs: 1, openJobs: 1 });
+        expect(goldenSignals()).toHaveLength(0);
+
+        const second = await runBatchJudging({ pollIntervalMs: 5 });
+        expect(second).toMatchObject({ merged: 2, submittedJobs: 0, openJobs: 0 });
+        expect(stub!.batches.size).toBe(1);
+    });
+
+    it('requeues errored items on the next run', async () => {
+        await useStub(1);
+        insertTurn('t5', 'c2', 'user', 'FAIL this prompt in the stub server please');
+
+        const first = await runBatchJudging({ pollIntervalMs: 5 });
+        expect(first).toMatchObject({ merged: 2, failed: 1 });
+        expect(db.prepare("SELECT error FROM llm_batch_items WHERE turn_id = 't5'").get()).toEqual({ error: 'overloaded' });
+
+        const second = await runBatchJudging({ pollIntervalMs: 5 });
+        expect(second).toMatchObject({ merged: 0, failed: 1, submittedJobs: 1 });
+        expect(stub!.batches.get('msgbatch_2')!.requests).toHaveLength(1);
+    });
+
+    it('reuses cached judge responses instead of resubmitting', async () => {
+        await useStub(1);
+        await runBatchJudging({ pollIntervalMs: 5 });
+        db.prepare('DELETE FROM quality_signals').run();
+
+        const result = await runBatchJudging({ pollIntervalMs: 5 });
+
+        expect(result).toMatchObject({ merged: 2, fromCache: 2, submittedJobs: 0 });
+        expect(stub!.batches.size).toBe(1);
+    });
+
+    it('respects the limit', async () => {
+        await useStub(1);
+
+        const result = await runBatchJudging({ pollIntervalMs: 5, limit: 1 });
+
+        expect(result.merged).toBe(1);
+        expect(goldenSignals().map((s) => s.turn_id)).toEqual(['t1']);
+    });
+
+    it('rejects providers without a batch API', async () => {
+        vi.stubEnv('PE_LLM_PROVIDER', 'openai-compatible');
+
+        await expect(runBatchJudging()).rejects.toThrow('does not support batch jobs');
+    });
+
+    it('judges sequentially through the response cache', async () => {
+        const fetchMock = vi.fn().mockImplementation(async () =>
+            new Response(JSON.stringify({ content: [{ type: 'text', text: JUDGE_RESPONSE }] }), { status: 200 })
+        );
+        vi.stubGlobal('fetch', fetchMock);
+
+        try {
+            const result = await judgeStoredPrompts();
+
+            expect(result).toMatchObject({ merged: 2, failed: 0 });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            expect(JSON.parse(goldenSignals()[0].metadata).mode).toBe('sequential');
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+
+    it('keeps GOLDEN scores when a conversation is re-analyzed', async () => {
+        await useStub(1);
+        await runBatchJudging({ pollIntervalMs: 5 });
+
+        deleteSignalsByConversationId('c1', { exceptTypes: [GOLDEN_SCORE_SIGNAL] });
+
+        expect(goldenSignals().map((s) => s.turn_id)).toEqual(['t1', 't4']);
+    });
+});
@@ -0,0 +1,284 @@
+/**
+ * 저장된 프롬프트 LLM 심사
+ * 아직 심사하지 않은 유저 턴을 LLM 으로 GOLDEN 평가하고 규칙 기반 점수와 병합해 quality_signals 에 저장
+ *
+ * - 순차 모드: evaluateWithLLM 을 턴마다 호출 (응답 캐시 사용)
+ * - 배치 모드: 백엔드 배치 작업으로 제출, 작업/항목 상태를 DB 에 저장해 재시작 후에도 이어서 수거
+ */
+
+import crypto from 'crypto';
+import {
+  getUnjudgedPromptTurns,
+  createLLMBatchJob,
+  markLLMBatchJobSubmitted,
+  finishLLMBatchJob,
+  getOpenLLMBatchJobs,
+  getLLMBatchItems,
+  setLLMBatchItemStatus,
+  saveGoldenScore,
+  transaction,
+  type LLMBatchJobRow,
+  type UnjudgedTurnRow,
+} from '../db/index.js';
+import { calculateGOLDENScore } from '../analysis/guidelines-evaluator.js';
+import {
+  evaluateWithLLM,
+  mergeScores,
+  resolveJudgeConfig,
+  buildJudgeRequest,
+  judgeCacheKey,
+  parseEvaluationResponse,
+  JUDGE_TEMPLATE_VERSION,
+  type LLMJudgeConfig,
+  type LLMEvaluationResult,
+} from '../analysis/llm-judge.js';
+import {
+  createLLMBatchClient,
+  supportsLLMBatch,
+  resolveLLMConfig,
+  isLLMConfigured,
+  getApiKeyEnvName,
+  getCachedResponse,
+  setCachedResponse,
+  LLMError,
+  type LLMBatchInfo,
+  type LLMConfig,
+} from '../llm/index.js';
+
+export interface LLMJudgeRunOptions {
+  /** 백엔드/모델/키 지정 (기본: llm.json 의 judge 설정) */
+  judge?: Omit<LLMJudgeConfig, 'enabled'>;
+  /** 이번 실행에서 새로 심사할 최대 턴 수 */
+  limit?: number;
+  /** 이보다 짧은 프롬프트는 건너뜀 (기본 20자) */
+  minLength?: number;
+}
+
+export interface LLMBatchRunOptions extends LLMJudgeRunOptions {
+  /** 모든 작업이 끝날 때까지 대기 (false: 한 번 확인 후 종료, 다음 실행에서 이어서 수거) */
+  wait?: boolean;
+  pollIntervalMs?: number;
+  /** 배치 작업 하나당 최대 요청 수 */
+  maxBatchSize?: number;
+  onProgress?: (event: LLMBatchProgress) => void;
+}
+
+export type LLMBatchProgress =
+  | { type: 'submitted'; jobId: string; providerBatchId: string; items: number }
+  | { type: 'polled'; jobId: string; info: LLMBatchInfo }
+  | { type: 'merged'; jobId: string; merged: number; failed: number }
+  | { type: 'failed'; jobId: string; error: string };
+
+export interface LLMJudgeRunResult {
+  /** 심사 결과를 병합해 저장한 턴 */
+  merged: number;
+  /** 캐시된 응답으로 바로 병합한 턴 (merged 에 포함) */
+  fromCache: number;
+  /** 실패/만료/취소된 턴 (다음 실행에서 다시 대기열에 추가) */
+  failed: number;
+  /** 이번 실행에서 제출한 배치 작업 */
+  submittedJobs: number;
+  /** 아직 결과를 기다리는 배치 작업 */
+  openJobs: number;
+}
+
+const DEFAULT_MIN_LENGTH = 20;
+const DEFAULT_POLL_INTERVAL_MS = 30_000;
+const DEFAULT_MAX_BATCH_SIZE = 10_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 규칙 기반 점수와 병합해 저장
+ */
+function saveJudgedTurn(
+  turn: { turn_id: string; conversation_id: string; content: string },
+  llmResult: LLMEvaluationResult,
+  llmConfig: LLMConfig,
+  mode: 'sequential' | 'batch'
+): void {
+  const ruleBased = calculateGOLDENScore(turn.content);
+  const merged = mergeScores(ruleBased, llmResult.scores);
+
+  saveGoldenScore(turn.conversation_id, turn.turn_id, merged.scores.total, {
+    scores: merged.scores,
+    ruleBased,
+    llm: llmResult.scores,
+    reasoning: llmResult.reasoning,
+    provider: llmConfig.provider,
+    model: llmConfig.model,
+    templateVersion: JUDGE_TEMPLATE_VERSION,
+    mode,
+  });
+}
+
+function assertConfigured(llmConfig: LLMConfig): void {
+  if (!isLLMConfigured(llmConfig)) {
+    throw new LLMError(`${getApiKeyEnvName(llmConfig.provider)} is not set`, llmConfig.provider);
+  }
+}
+
+/**
+ * 순차 심사 (배치 미지원 백엔드, 소량)
+ */
+export async function judgeStoredPrompts(options: LLMJudgeRunOptions = {}): Promise<LLMJudgeRunResult> {
+  const judgeConfig: LLMJudgeConfig = { ...options.judge, enabled: true };
+  const llmConfig = resolveJudgeConfig(judgeConfig);
+  assertConfigured(llmConfig);
+
+  const turns = getUnjudgedPromptTurns({ minLength: options.minLength ?? DEFAULT_MIN_LENGTH, limit: options.limit });
+  const result: LLMJudgeRunResult = { merged: 0, fromCache: 0, failed: 0, submittedJobs: 0, openJobs: 0 };
+
+  for (const turn of turns) {
+    const llmResult = await evaluateWithLLM(turn.content, judgeConfig);
+    if (!llmResult) {
+      result.failed++;
+      continue;
+    }
+    saveJudgedTurn(turn, llmResult, llmConfig, 'sequential');
+    result.merged++;
+    if (llmResult.cached) result.fromCache++;
+  }
+
+  return result;
+}
+
+/**
+ * 작업이 만들어진 백엔드/모델로 설정 (설정이 바뀌어도 기존 작업은 원래 백엔드에서 수거)
+ */
+function jobConfig(job: LLMBatchJobRow, base: LLMConfig): LLMConfig {
+  if (job.provider === base.provider && job.model === base.model) return base;
+  return resolveLLMConfig('judge', { provider: job.provider as LLMConfig['provider'], model: job.model });
+}
+
+async function submitJob(job: LLMBatchJobRow, llmConfig: LLMConfig, options: LLMBatchRunOptions): Promise<boolean> {
+  const items = getLLMBatchItems(job.id);
+  try {
+    const info = await createLLMBatchClient(llmConfig).submit(
+      items.map((item) => ({ customId: item.custom_id, request: buildJudgeRequest(item.content) }))
+    );
+    markLLMBatchJobSubmitted(job.id, info.id);
+    options.onProgress?.({ type: 'submitted', jobId: job.id, providerBatchId: info.id, items: items.length });
+    return true;
+  } catch (err) {
+    const message = (err as Error).message;
+    finishLLMBatchJob(job.id, 'failed', message);
+    options.onProgress?.({ type: 'failed', jobId: job.id, error: message });
+    return false;
+  }
+}
+
+/**
+ * 끝난 작업의 결과를 병합 (성공 응답은 응답 캐시에도 저장)
+ */
+async function collectJob(
+  job: LLMBatchJobRow,
+  llmConfig: LLMConfig,
+  options: LLMBatchRunOptions
+): Promise<{ done: boolean; merged: number; failed: number }> {
+  const client = createLLMBatchClient(llmConfig);
+  const info = await client.retrieve(job.provider_batch_id!);
+  options.onProgress?.({ type: 'polled', jobId: job.id, info });
+  if (info.status !== 'ended') return { done: false, merged: 0, failed: 0 };
+
+  const results = new Map((await client.results(info.id)).map((r) => [r.customId, r]));
+  let merged = 0;
+  let failed = 0;
+
+  transaction(() => {
+    for (const item of getLLMBatchItems(job.id)) {
+      if (item.status !== 'queued') continue;
+
+      const result = results.get(item.custom_id);
+      const parsed = result?.status === 'succeeded' && result.text ? parseEvaluationResponse(result.text) : null;
+      if (parsed) {
+        saveJudgedTurn(item, parsed, llmConfig, 'batch');
+        setCachedResponse(judgeCacheKey(item.content, llmConfig), parsed);
+        setLLMBatchItemStatus(job.id, item.custom_id, 'merged');
+        merged++;
+      } else {
+        const status = result && result.status !== 'succeeded' ? result.status : 'errored';
+        const error = result?.error ?? (result ? 'Unparseable response' : 'Missing from batch results');
+        setLLMBatchItemStatus(job.id, item.custom_id, status, error);
+        failed++;
+      }
+    }
+    finishLLMBatchJob(job.id, 'completed');
+  });
+
+  options.onProgress?.({ type: 'merged', jobId: job.id, merged, failed });
+  return { done: true, merged, failed };
+}
+
+/**
+ * 새 턴을 작업으로 묶어 기록 (캐시에 응답이 있는 턴은 바로 병합)
+ */
+function enqueueTurns(
+  turns: UnjudgedTurnRow[],
+  llmConfig: LLMConfig,
+  maxBatchSize: number,
+  result: LLMJudgeRunResult
+): void {
+  const toSubmit: UnjudgedTurnRow[] = [];
+  for (const turn of turns) {
+    const cached = getCachedResponse<LLMEvaluationResult>(judgeCacheKey(turn.content, llmConfig));
+    if (cached) {
+      saveJudgedTurn(turn, cached, llmConfig, 'batch');
+      result.merged++;
+      result.fromCache++;
+    } else {
+      toSubmit.push(turn);
+    }
+  }
+
+  for (let start = 0; start < toSubmit.length; start += maxBatchSize) {
+    const chunk = toSubmit.slice(start, start + maxBatchSize);
+    createLLMBatchJob(
+      {
+        id: crypto.randomUUID(),
+        task: 'judge',
+        provider: llmConfig.provider,
+        model: llmConfig.model,
+        templateVersion: JUDGE_TEMPLATE_VERSION,
+      },
+      chunk.map((turn, i) => ({
+        customId: `turn-${String(start + i).padStart(6, '0')}`,
+        turnId: turn.turn_id,
+        conversationId: turn.conversation_id,
+      }))
+    );
+  }
+}
+
+/**
+ * 배치 심사: 미제출 작업 제출 → 새 턴 대기열 추가 → 결과 수거 (wait 이면 모두 끝날 때까지 반복)
+ */
+export async function runBatchJudging(options: LLMBatchRunOptions = {}): Promise<LLMJudgeRunResult> {
+  const llmConfig = resolveJudgeConfig({ ...options.judge, enabled: true });
+  if (!supportsLLMBatch(llmConfig.provider)) {
+    throw new LLMError(`${llmConfig.provider} does not support batch jobs`, llmConfig.provider);
+  }
+  assertConfigured(llmConfig);
+
+  const result: LLMJudgeRunResult = { merged: 0, fromCache: 0, failed: 0, submittedJobs: 0, openJobs: 0 };
+
+  const turns = getUnjudgedPromptTurns({ minLength: options.minLength ?? DEFAULT_MIN_LENGTH, limit: options.limit });
+  enqueueTurns(turns, llmConfig, options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE, result);
+
+  // 이전 실행에서 기록만 되고 제출되지 않은 작업 포함
+  for (const job of getOpenLLMBatchJobs('judge').filter((j) => j.status === 'pending')) {
+    if (await submitJob(job, jobConfig(job, llmConfig), options)) result.submittedJobs++;
+  }
+
+  for (;;) {
+    for (const job of getOpenLLMBatchJobs('judge').filter((j) => j.status === 'submitted')) {
+      const collected = await collectJob(job, jobConfig(job, llmConfig), options);
+      result.merged += collected.merged;
+      result.failed += collected.failed;
+    }
+
+    result.openJobs = getOpenLLMBatchJobs('judge').length;
+    if (result.openJobs === 0 || options.wait === false) return result;
+    await sleep(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+  }
+}
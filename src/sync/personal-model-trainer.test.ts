@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+    transaction: <T>(fn: () => T): T => db.transaction(fn)(),
+}));
+
+import {
+    trainPersonalModels,
+    loadPersonalModel,
+    resetPersonalModelCache,
+    resolveEffectivenessWeights,
+    projectModelScope,
+    GLOBAL_MODEL_SCOPE,
+} from './personal-model-trainer.js';
+import { saveEffectivenessScore, getPersonalModelRows } from '../db/index.js';
+import { EFFECTIVENESS_WEIGHTS } from '../analysis/index.js';
+
+const SPECIFIC = 'Fix the null check in src/auth/login.ts so tests/auth.test.ts passes. Return only a unified diff.';
+const VAGUE = 'just make it work somehow please';
+
+/**
+ * One conversation: prompt → assistant → follow-up whose signal labels the prompt
+ */
+function insertConversation(id: string, project: string, prompt: string, followUpSignal: string): void {
+    db.prepare('INSERT INTO conversations (id, project, started_at) VALUES (?, ?, ?)').run(id, project, '2025-01-10T09:00:00Z');
+    const insertTurn = db.prepare('INSERT INTO turns (id, conversation_id, role, content, turn_index) VALUES (?, ?, ?, ?, ?)');
+    insertTurn.run(`${id}-1`, id, 'user', prompt, 0);
+    insertTurn.run(`${id}-2`, id, 'assistant', 'Done.', 1);
+    insertTurn.run(`${id}-3`, id, 'user', followUpSignal === 'retry_attempt' ? 'try again' : 'thanks, works', 2);
+    db.prepare('INSERT INTO quality_signals (conversation_id, signal_type, turn_id, value) VALUES (?, ?, ?, 1)').run(
+        id,
+        followUpSignal,
+        `${id}-3`
+    );
+
+    const success = followUpSignal !== 'retry_attempt';
+    saveEffectivenessScore(id, 0.5, {
+        sentiment: 0.5,
+        completion: success ? 1 : 0.5,
+        efficiency: success ? 0.5 : 0.4,
+        engagement: 0.5,
+    });
+}
+
+function seed(project: string, count: number): void {
+    for (let i = 0; i < count; i++) {
+        const specific = i % 2 === 0;
+        const noisy = i % 10 === 0;
+        const success = specific !== noisy;
+        insertConversation(
+            `${project}-${i}`,
+            project,
+            specific ? `${SPECIFIC} (#${i})` : `${VAGUE} ${i}`,
+            success ? 'positive_feedback' : 'retry_attempt'
+        );
+    }
+}
+
+function storedScores(): Map<string, number> {
+    const rows = db
+        .prepare("SELECT conversation_id, value FROM quality_signals WHERE metadata LIKE '%effectiveness_score%'")
+        .all() as Array<{ conversation_id: string; value: number }>;
+    return new Map(rows.map((r) => [r.conversation_id, r.value]));
+}
+
+describe('personal model training', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+        resetPersonalModelCache();
+    });
+
+    afterEach(() => {
+        resetPersonalModelCache();
+        db.close();
+    });
+
+    it('trains global and per-project models and rescores stored effectiveness', () => {
+        seed('api', 40);
+        seed('web', 8);
+
+        const result = trainPersonalModels({ minSamples: 20 });
+
+        expect(result.models.map((m) => m.scope)).toEqual([GLOBAL_MODEL_SCOPE, projectModelScope('api')]);
+        expect(result.models[0].samples).toBe(48);
+        expect(result.models[0].conversations).toBe(48);
+        expect(getPersonalModelRows().map((r) => r.scope)).toEqual(['global', 'project:api']);
+
+        // Completion tracks the observed outcomes, so it gains weight over the defaults
+        const weights = result.models[0].effectivenessWeights;
+        expect(weights.completion).toBeGreaterThan(EFFECTIVENESS_WEIGHTS.completion);
+
+        expect(result.rescored).toBe(48);
+        expect(storedScores().get('api-2')).not.toBe(0.5);
+    });
+
+    it('falls back from project to global to defaults', () => {
+        expect(loadPersonalModel('api')).toBeNull();
+        expect(resolveEffectivenessWeights('api')).toEqual({ ...EFFECTIVENESS_WEIGHTS });
+
+        seed('api', 40);
+        trainPersonalModels({ minSamples: 20 });
+
+        expect(loadPersonalModel('api')?.scope).toBe('project:api');
+        expect(loadPersonalModel('unknown')?.scope).toBe('global');
+        expect(loadPersonalModel()?.scope).toBe('global');
+        expect(resolveEffectivenessWeights('unknown')).toEqual(loadPersonalModel()!.effectivenessWeights);
+    });
+
+    it('trains only the requested project and skips scopes without enough samples', () => {
+        seed('api', 40);
+        seed('web', 8);
+
+        const result = trainPersonalModels({ project: 'web', minSamples: 20 });
+
+        expect(result.models).toEqual([]);
+        expect(result.skipped).toEqual([{ scope: 'project:web', samples: 8 }]);
+        expect(result.rescored).toBe(0);
+        expect(getPersonalModelRows()).toEqual([]);
+        expect(storedScores().get('web-0')).toBe(0.5);
+    });
+
+    it('ignores prompts whose follow-up gives no outcome signal', () => {
+        seed('api', 30);
+        insertConversation('neutral', 'api', SPECIFIC, 'question');
+
+        const result = trainPersonalModels({ minSamples: 20 });
+        expect(result.models[0].samples).toBe(30);
+    });
+});
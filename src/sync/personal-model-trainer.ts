@@ -0,0 +1,214 @@
+/**
+ * 개인화 효과성 모델 학습/로드
+ * 저장된 대화 이력(프롬프트 + 다음 턴 신호, 효과성 구성 요소)으로 모델을 학습해 personal_models 에 저장
+ *
+ * 범위: 'global' (전체 이력) + 'project:<이름>' (라벨 샘플이 충분한 프로젝트)
+ * 점수 계산 시 프로젝트 모델 → 전역 모델 → 기본 가중치 순으로 사용
+ */
+
+import {
+  getPromptOutcomeRows,
+  getEffectivenessComponentRows,
+  updateEffectivenessScores,
+  savePersonalModel,
+  getPersonalModelRow,
+  type PromptOutcomeRow,
+} from '../db/index.js';
+import {
+  trainPersonalModel,
+  promptOutcomeFromSignals,
+  isCompatiblePersonalModel,
+  PERSONAL_MODEL_MIN_SAMPLES,
+  EFFECTIVENESS_COMPONENTS,
+  type PersonalModel,
+  type PromptOutcomeExample,
+  type EffectivenessExample,
+  type EffectivenessWeights,
+} from '../analysis/index.js';
+import { EFFECTIVENESS_WEIGHTS } from '../shared/config/index.js';
+
+export const GLOBAL_MODEL_SCOPE = 'global';
+
+/**
+ * 프로젝트 모델 범위 이름
+ */
+export function projectModelScope(project: string): string {
+  return `project:${project}`;
+}
+
+export interface PersonalModelTrainOptions {
+  /** 이 프로젝트 모델만 학습 (없으면 전역 + 샘플이 충분한 모든 프로젝트) */
+  project?: string;
+  /** 범위별 최소 라벨 프롬프트 수 */
+  minSamples?: number;
+  /** 이보다 짧은 프롬프트는 제외 (기본 10자) */
+  minLength?: number;
+}
+
+export interface PersonalModelTrainResult {
+  models: PersonalModel[];
+  /** 샘플 부족(또는 결과가 한 쪽뿐)으로 건너뛴 범위 */
+  skipped: Array<{ scope: string; samples: number }>;
+  /** 새 가중치로 다시 계산한 저장된 효과성 점수 */
+  rescored: number;
+}
+
+const DEFAULT_MIN_LENGTH = 10;
+
+interface LabeledPrompt extends PromptOutcomeExample {
+  conversationId: string;
+  project: string;
+}
+
+function labelPrompts(rows: PromptOutcomeRow[]): LabeledPrompt[] {
+  const labeled: LabeledPrompt[] = [];
+  for (const row of rows) {
+    const outcome = promptOutcomeFromSignals(row.next_signals ? row.next_signals.split(',') : []);
+    if (outcome === null) continue;
+    labeled.push({ text: row.content, outcome, conversationId: row.conversation_id, project: row.project });
+  }
+  return labeled;
+}
+
+function parseComponents(metadata: string | null): EffectivenessWeights | null {
+  if (!metadata) return null;
+  try {
+    const components = (JSON.parse(metadata) as { components?: Record<string, unknown> }).components ?? {};
+    const parsed = {} as EffectivenessWeights;
+    for (const key of EFFECTIVENESS_COMPONENTS) {
+      if (typeof components[key] !== 'number') return null;
+      parsed[key] = components[key] as number;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 대화별 효과성 구성 요소 + 그 대화 라벨 프롬프트의 성공률
+ */
+function effectivenessExamples(prompts: LabeledPrompt[], project?: string): EffectivenessExample[] {
+  const outcomes = new Map<string, number[]>();
+  for (const prompt of prompts) {
+    const list = outcomes.get(prompt.conversationId) ?? [];
+    list.push(prompt.outcome);
+    outcomes.set(prompt.conversationId, list);
+  }
+
+  const examples: EffectivenessExample[] = [];
+  for (const row of getEffectivenessComponentRows({ project })) {
+    const list = outcomes.get(row.conversation_id);
+    const components = parseComponents(row.metadata);
+    if (!list || !components) continue;
+    examples.push({ components, successRate: list.reduce((sum, y) => sum + y, 0) / list.length });
+  }
+  return examples;
+}
+
+// ─── 로드 ───────────────────────────────────────────────────────────
+
+const modelCache = new Map<string, PersonalModel | null>();
+
+function loadScope(scope: string): PersonalModel | null {
+  if (modelCache.has(scope)) return modelCache.get(scope)!;
+
+  const row = getPersonalModelRow(scope);
+  let model: PersonalModel | null = null;
+  if (row) {
+    try {
+      const parsed = JSON.parse(row.model) as PersonalModel;
+      model = isCompatiblePersonalModel(parsed) ? parsed : null;
+    } catch {
+      model = null;
+    }
+  }
+  modelCache.set(scope, model);
+  return model;
+}
+
+/**
+ * 프로젝트에 적용할 모델 (프로젝트 모델 → 전역 모델 → null)
+ */
+export function loadPersonalModel(project?: string): PersonalModel | null {
+  return (project ? loadScope(projectModelScope(project)) : null) ?? loadScope(GLOBAL_MODEL_SCOPE);
+}
+
+/**
+ * 프로젝트에 적용할 효과성 가중치
+ */
+export function resolveEffectivenessWeights(project?: string): EffectivenessWeights {
+  return loadPersonalModel(project)?.effectivenessWeights ?? { ...EFFECTIVENESS_WEIGHTS };
+}
+
+/**
+ * 다음 로드 때 DB 에서 다시 읽음 (학습 후)
+ */
+export function resetPersonalModelCache(): void {
+  modelCache.clear();
+}
+
+// ─── 학습 ───────────────────────────────────────────────────────────
+
+/**
+ * 저장된 효과성 점수를 프로젝트별 가중치로 다시 계산 (구성 요소는 그대로)
+ */
+export function rescoreStoredEffectiveness(): number {
+  const updates: Array<{ conversationId: string; score: number }> = [];
+  for (const row of getEffectivenessComponentRows()) {
+    const components = parseComponents(row.metadata);
+    if (!components) continue;
+    const weights = resolveEffectivenessWeights(row.project);
+    const score = EFFECTIVENESS_COMPONENTS.reduce((sum, key) => sum + components[key] * weights[key], 0);
+    if (Math.abs(score - row.value) > 1e-9) updates.push({ conversationId: row.conversation_id, score });
+  }
+  return updates.length > 0 ? updateEffectivenessScores(updates) : 0;
+}
+
+/**
+ * 전역/프로젝트 모델 학습 후 저장하고 저장된 효과성 점수를 갱신
+ */
+export function trainPersonalModels(options: PersonalModelTrainOptions = {}): PersonalModelTrainResult {
+  const minSamples = options.minSamples ?? PERSONAL_MODEL_MIN_SAMPLES;
+  const prompts = labelPrompts(
+    getPromptOutcomeRows({ project: options.project, minLength: options.minLength ?? DEFAULT_MIN_LENGTH })
+  );
+
+  const targets: Array<{ scope: string; project?: string; prompts: LabeledPrompt[] }> = [];
+  if (options.project) {
+    targets.push({ scope: projectModelScope(options.project), project: options.project, prompts });
+  } else {
+    targets.push({ scope: GLOBAL_MODEL_SCOPE, prompts });
+
+    const byProject = new Map<string, LabeledPrompt[]>();
+    for (const prompt of prompts) {
+      const list = byProject.get(prompt.project) ?? [];
+      list.push(prompt);
+      byProject.set(prompt.project, list);
+    }
+    // 샘플이 부족한 프로젝트는 전역 모델을 사용하므로 조용히 건너뜀
+    for (const [project, list] of [...byProject].sort(([a], [b]) => a.localeCompare(b))) {
+      if (list.length >= minSamples) targets.push({ scope: projectModelScope(project), project, prompts: list });
+    }
+  }
+
+  const result: PersonalModelTrainResult = { models: [], skipped: [], rescored: 0 };
+  for (const target of targets) {
+    const model = trainPersonalModel(target.prompts, effectivenessExamples(target.prompts, target.project), {
+      scope: target.scope,
+      minSamples,
+    });
+    if (!model) {
+      result.skipped.push({ scope: target.scope, samples: target.prompts.length });
+      continue;
+    }
+    savePersonalModel(target.scope, model);
+    result.models.push(model);
+  }
+
+  resetPersonalModelCache();
+  if (result.models.length > 0) {
+    result.rescored = rescoreStoredEffectiveness();
+  }
+  return result;
+}
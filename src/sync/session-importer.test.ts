@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import Database from 'better-sqlite3';
+import { appendFileSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+}));
+
+// Session files live under a temporary home (~/.claude/projects is resolved at import time)
+vi.mock('os', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('os')>();
+    const { join } = await import('path');
+    const home = join(actual.tmpdir(), `pe-importer-home-${process.pid}`);
+    return { ...actual, homedir: () => home, default: { ...actual, homedir: () => home } };
+});
+
+import { claudeCodeSource, getClaudeProjectsPath } from '../parser/index.js';
+import { getImportLedgerEntry } from '../db/index.js';
+import { importSession } from './session-importer.js';
+
+const HOME = join(tmpdir(), `pe-importer-home-${process.pid}`);
+const PROJECT = 'app';
+const SESSION = 'session-1.jsonl';
+
+function user(uuid: string, parentUuid: string | null, text: string, minute: number): string {
+    return JSON.stringify({
+        type: 'user',
+        uuid,
+        parentUuid,
+        timestamp: `2024-01-01T10:${String(minute).padStart(2, '0')}:00Z`,
+        message: { role: 'user', content: text },
+    });
+}
+
+function assistant(uuid: string, parentUuid: string, text: string, minute: number): string {
+    return JSON.stringify({
+        type: 'assistant',
+        uuid,
+        parentUuid,
+        timestamp: `2024-01-01T10:${String(minute).padStart(2, '0')}:30Z`,
+        message: {
+            role: 'assistant',
+            model: 'claude-sonnet-4-20250514',
+            content: [{ type: 'text', text }],
+            usage: { input_tokens: 10, output_tokens: 20 },
+        },
+    });
+}
+
+const FIRST_EXCHANGE = [
+    user('u1', null, 'Add a login form', 0),
+    assistant('a1', 'u1', 'Added the login form.', 0),
+];
+
+function sessionPath(): string {
+    return join(getClaudeProjectsPath(), PROJECT, SESSION);
+}
+
+function writeSession(lines: string[]): void {
+    writeFileSync(sessionPath(), lines.map((line) => line + '\n').join(''));
+}
+
+function appendSessionLines(lines: string[]): void {
+    appendFileSync(sessionPath(), lines.map((line) => line + '\n').join(''));
+}
+
+function storedTurns(): Array<{ id: string; branch_type: string; turn_index: number }> {
+    return db
+        .prepare("SELECT id, branch_type, turn_index FROM turns WHERE conversation_id = 'session-1' ORDER BY turn_index")
+        .all() as Array<{ id: string; branch_type: string; turn_index: number }>;
+}
+
+function importFixture() {
+    return importSession(claudeCodeSource, PROJECT, SESSION);
+}
+
+describe('importSession', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+        expect(getClaudeProjectsPath().startsWith(HOME)).toBe(true);
+        mkdirSync(join(getClaudeProjectsPath(), PROJECT), { recursive: true });
+        writeSession(FIRST_EXCHANGE);
+    });
+
+    afterEach(() => {
+        db.close();
+        rmSync(join(getClaudeProjectsPath(), PROJECT), { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+        rmSync(HOME, { recursive: true, force: true });
+    });
+
+    it('imports a new session and records the ledger', () => {
+        const result = importFixture();
+
+        expect(result).toMatchObject({ conversationId: 'session-1', status: 'imported', newTurns: 2 });
+        expect(storedTurns().map((t) => t.id)).toEqual(['u1', 'a1']);
+        expect(getImportLedgerEntry('session-1')).toMatchObject({ filePath: sessionPath(), byteOffset: expect.any(Number) });
+        expect(getImportLedgerEntry('session-1')!.byteOffset).toBeGreaterThan(0);
+    });
+
+    it('skips a file whose size and mtime match the ledger', () => {
+        importFixture();
+
+        const result = importFixture();
+
+        expect(result).toEqual({ conversationId: 'session-1', status: 'unchanged', newTurns: 0, reanalyzed: false });
+        expect(storedTurns()).toHaveLength(2);
+    });
+
+    it('appends only the turns added after the ledger offset', () => {
+        importFixture();
+        const offset = getImportLedgerEntry('session-1')!.byteOffset;
+        appendSessionLines([
+            user('u2', 'a1', 'Now validate the email field', 1),
+            assistant('a2', 'u2', 'Validation added.', 1),
+        ]);
+
+        const result = importFixture();
+
+        expect(result).toMatchObject({ status: 'appended', newTurns: 2 });
+        expect(storedTurns()).toEqual([
+            { id: 'u1', branch_type: 'main', turn_index: 0 },
+            { id: 'a1', branch_type: 'main', turn_index: 1 },
+            { id: 'u2', branch_type: 'main', turn_index: 2 },
+            { id: 'a2', branch_type: 'main', turn_index: 3 },
+        ]);
+        expect(getImportLedgerEntry('session-1')!.byteOffset).toBeGreaterThan(offset);
+    });
+
+    it('replaces the conversation when the file shrank below the ledger offset', () => {
+        writeSession([
+            ...FIRST_EXCHANGE,
+            user('u2', 'a1', 'Now validate the email field', 1),
+            assistant('a2', 'u2', 'Validation added.', 1),
+        ]);
+        importFixture();
+
+        // Rewritten from scratch: shorter than what was read before
+        writeSession([user('r1', null, 'Start over', 2), assistant('r2', 'r1', 'OK.', 2)]);
+        const result = importFixture();
+
+        expect(result).toMatchObject({ status: 'replaced', newTurns: 2 });
+        expect(storedTurns().map((t) => t.id)).toEqual(['r1', 'r2']);
+    });
+
+    it('moves earlier main-path turns to an abandoned branch after a rewind', () => {
+        appendSessionLines([
+            user('u2', 'a1', 'Use a modal instead', 1),
+            assistant('a2', 'u2', 'Switched to a modal.', 1),
+        ]);
+        importFixture();
+
+        // Rewound to a1 and continued on a new parentUuid branch
+        appendSessionLines([
+            user('u3', 'a1', 'Keep the page, add a remember-me box', 2),
+            assistant('a3', 'u3', 'Added the checkbox.', 2),
+        ]);
+        const result = importFixture();
+
+        expect(result).toMatchObject({ status: 'appended', newTurns: 2 });
+        const branches = Object.fromEntries(storedTurns().map((t) => [t.id, t.branch_type]));
+        expect(branches).toEqual({ u1: 'main', a1: 'main', u2: 'abandoned', a2: 'abandoned', u3: 'main', a3: 'main' });
+        const abandoned = db
+            .prepare("SELECT DISTINCT branch_id FROM turns WHERE branch_type = 'abandoned'")
+            .all() as Array<{ branch_id: string }>;
+        expect(abandoned).toEqual([{ branch_id: 'u2' }]);
+    });
+});
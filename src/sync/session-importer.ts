@@ -0,0 +1,284 @@
+/**
+ * 세션 임포트
+ * 임포트 원장(파일 크기/수정 시각/바이트 오프셋)으로 변경을 감지해
+ * 실행 중인 세션은 추가된 레코드만 기존 대화에 이어 붙임
+ * 턴 본문/thinking/요약은 저장 전에 비밀값과 PII 를 가림
+ */
+
+import { statSync } from 'fs';
+import {
+  getDatabase,
+  getConversationById,
+  insertConversation,
+  appendConversation,
+  insertTurns,
+  getTurnsByConversationId,
+  reconcileMainPath,
+  insertToolCalls,
+  insertToolUsages,
+  updateToolCallResults,
+  insertSummaries,
+  hasBeenAnalyzed,
+  getImportLedgerEntry,
+  upsertImportLedgerEntry,
+  type ImportLedgerEntry,
+} from '../db/index.js';
+import { applyConversationCost } from '../analysis/index.js';
+import { getRedactor, loadConversationVault, saveConversationVault, type RedactionVault } from '../redaction/index.js';
+import type {
+  ParsedConversation,
+  ParsedTurn,
+  SessionCursor,
+  SessionSource,
+} from '../types/index.js';
+import { analyzeStoredConversation } from './conversation-analyzer.js';
+
+export type SessionImportStatus =
+  | 'imported' // 새 대화
+  | 'appended' // 추가된 턴만 이어 붙임
+  | 'replaced' // 전체 다시 파싱해 교체
+  | 'unchanged'
+  | 'failed';
+
+export interface SessionImportOptions {
+  /** 원장을 무시하고 전체 다시 임포트 */
+  force?: boolean;
+}
+
+export interface SessionImportResult {
+  conversationId: string;
+  status: SessionImportStatus;
+  /** 새로 저장된 턴 수 */
+  newTurns: number;
+  /** 이미 분석된 대화라 다시 분석했는지 */
+  reanalyzed: boolean;
+}
+
+interface FileState {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * 세션 하나 임포트 (파싱 오류는 호출자에게 던짐)
+ */
+export function importSession(
+  source: SessionSource,
+  projectName: string,
+  sessionFile: string,
+  options: SessionImportOptions = {}
+): SessionImportResult {
+  const conversationId = source.getConversationId(projectName, sessionFile);
+  const existing = getConversationById(conversationId);
+  const file = getFileState(source, projectName, sessionFile);
+
+  if (existing && !options.force) {
+    // 파일 정보를 알 수 없는 소스는 기존처럼 이미 있으면 건너뜀
+    if (!file) return result(conversationId, 'unchanged');
+
+    const ledger = getImportLedgerEntry(conversationId);
+    if (ledger && ledger.fileSize === file.size && ledger.mtimeMs === Math.floor(file.mtimeMs)) {
+      return result(conversationId, 'unchanged');
+    }
+
+    // 같은 파일이 줄지 않고 늘었으면 이어 읽기 (잘렸거나 다시 쓰인 파일은 전체 교체)
+    if (
+      ledger &&
+      source.parseSessionFrom &&
+      ledger.filePath === file.filePath &&
+      file.size >= ledger.byteOffset
+    ) {
+      return appendSession(source, projectName, sessionFile, ledger, file);
+    }
+  }
+
+  const parsed = parseWhole(source, projectName, sessionFile, file);
+  if (!parsed) return result(conversationId, 'failed');
+  const { conversation } = parsed;
+
+  // 원장 도입 전에 임포트됐거나 이어 읽기를 지원하지 않는 소스: 내용이 같으면 원장만 기록
+  if (
+    existing &&
+    !options.force &&
+    existing.turn_count === conversation.turns.length &&
+    existing.ended_at === conversation.endedAt.toISOString()
+  ) {
+    recordLedger(source, conversationId, file, parsed.offset, parsed.cursor);
+    return result(conversationId, 'unchanged');
+  }
+
+  // 교체하면 품질 신호도 함께 삭제되므로 미리 확인
+  const wasAnalyzed = existing ? hasBeenAnalyzed(conversationId) : false;
+
+  const vault = redactConversationText(conversation);
+  applyConversationCost(conversation);
+  getDatabase().transaction(() => {
+    insertConversation(conversation);
+    if (vault) saveConversationVault(conversation.id, vault);
+    insertTurns(conversation.id, conversation.turns);
+    insertTurnToolCalls(conversation.turns);
+    insertSummaries(conversation.id, conversation.summaries);
+    recordLedger(source, conversationId, file, parsed.offset, parsed.cursor);
+  })();
+
+  const reanalyzed = wasAnalyzed && analyzeStoredConversation(conversationId) !== null;
+  return {
+    conversationId,
+    status: existing ? 'replaced' : 'imported',
+    newTurns: conversation.turns.length,
+    reanalyzed,
+  };
+}
+
+/**
+ * 원장 오프셋 이후 추가분을 기존 대화에 이어 붙임
+ */
+function appendSession(
+  source: SessionSource,
+  projectName: string,
+  sessionFile: string,
+  ledger: ImportLedgerEntry,
+  file: FileState
+): SessionImportResult {
+  const chunk = source.parseSessionFrom!(projectName, sessionFile, ledger.byteOffset, ledger.cursor);
+  if (!chunk) return result(ledger.conversationId, 'failed');
+
+  const { conversation } = chunk;
+  const turns = conversation.turns;
+  const changed = turns.length > 0 || chunk.toolResults.length > 0;
+  const vault = redactConversationText(conversation);
+
+  getDatabase().transaction(() => {
+    if (vault) saveConversationVault(conversation.id, vault);
+    insertSummaries(conversation.id, conversation.summaries);
+    if (changed) {
+      const stored = getTurnsByConversationId(conversation.id);
+      linkToStoredTurns(turns, stored);
+
+      applyConversationCost(conversation);
+      insertTurns(conversation.id, turns, stored.length);
+      insertTurnToolCalls(turns);
+      updateToolCallResults(chunk.toolResults);
+      appendConversation(conversation);
+
+      // 되감기 후 이어진 세션이면 이전 임포트의 main 턴이 버려진 분기가 됨
+      const leaf = [...turns].reverse().find((t) => (t.branchType ?? 'main') === 'main');
+      if (leaf) reconcileMainPath(conversation.id, leaf.id);
+    }
+    recordLedger(source, conversation.id, file, chunk.offset, chunk.cursor);
+  })();
+
+  if (!changed) return result(conversation.id, 'unchanged');
+
+  const reanalyzed = hasBeenAnalyzed(conversation.id) && analyzeStoredConversation(conversation.id) !== null;
+  return {
+    conversationId: conversation.id,
+    status: 'appended',
+    newTurns: turns.length,
+    reanalyzed,
+  };
+}
+
+/**
+ * 세션 전체 파싱 (이어 읽기를 지원하면 같은 경로로 파싱해 오프셋/커서도 얻음)
+ */
+function parseWhole(
+  source: SessionSource,
+  projectName: string,
+  sessionFile: string,
+  file: FileState | null
+): { conversation: ParsedConversation; offset: number; cursor?: SessionCursor } | null {
+  if (source.parseSessionFrom) {
+    const chunk = source.parseSessionFrom(projectName, sessionFile, 0);
+    // 읽은 레코드가 없으면 parseSession 과 같이 실패 처리
+    if (!chunk || chunk.offset === 0) return null;
+    return { conversation: chunk.conversation, offset: chunk.offset, cursor: chunk.cursor };
+  }
+
+  const conversation = source.parseSession(projectName, sessionFile);
+  if (!conversation) return null;
+  return { conversation, offset: file?.size ?? 0 };
+}
+
+/**
+ * 저장 전 가리기 (대화의 저장된 금고로 번호를 매겨 이어 읽기와 다시 임포트해도 같은 값은 같은 자리표시자)
+ * 반환한 금고는 대화와 같은 트랜잭션에서 저장 (가리기가 꺼져 있으면 null)
+ */
+function redactConversationText(conversation: ParsedConversation): RedactionVault | null {
+  const redactor = getRedactor();
+  if (!redactor.enabled) return null;
+
+  const vault = loadConversationVault(conversation.id);
+  for (const turn of conversation.turns) {
+    turn.content = redactor.redact(turn.content, { vault }).text;
+    if (turn.thinking) turn.thinking = redactor.redact(turn.thinking, { vault }).text;
+  }
+  conversation.summaries = conversation.summaries.map((summary) => redactor.redact(summary, { vault }).text);
+  return vault;
+}
+
+/**
+ * 청크 밖의 부모가 저장된 턴이 아니면 (턴이 아닌 레코드 등) 마지막 main 턴에 연결
+ */
+function linkToStoredTurns(
+  turns: ParsedTurn[],
+  stored: Array<{ id: string; branch_type: string }>
+): void {
+  const chunkIds = new Set(turns.map((t) => t.id));
+  const storedIds = new Set(stored.map((t) => t.id));
+  const lastMain = [...stored].reverse().find((t) => t.branch_type === 'main');
+
+  for (const turn of turns) {
+    if (!turn.parentId || chunkIds.has(turn.parentId) || storedIds.has(turn.parentId)) continue;
+    turn.parentId = lastMain?.id;
+  }
+}
+
+function insertTurnToolCalls(turns: ParsedTurn[]): void {
+  for (const turn of turns) {
+    if (turn.toolCalls && turn.toolCalls.length > 0) {
+      insertToolCalls(turn.id, turn.toolCalls);
+    } else if (turn.toolsUsed && turn.toolsUsed.length > 0) {
+      insertToolUsages(turn.id, turn.toolsUsed, turn.timestamp);
+    }
+  }
+}
+
+function getFileState(
+  source: SessionSource,
+  projectName: string,
+  sessionFile: string
+): FileState | null {
+  const filePath = source.getSessionFilePath?.(projectName, sessionFile);
+  if (!filePath) return null;
+  try {
+    const stat = statSync(filePath);
+    return { filePath, size: stat.size, mtimeMs: stat.mtimeMs };
+  } catch {
+    return null;
+  }
+}
+
+function recordLedger(
+  source: SessionSource,
+  conversationId: string,
+  file: FileState | null,
+  byteOffset: number,
+  cursor?: SessionCursor
+): void {
+  if (!file) return;
+  upsertImportLedgerEntry({
+    conversationId,
+    source: source.id,
+    filePath: file.filePath,
+    fileSize: file.size,
+    mtimeMs: file.mtimeMs,
+    byteOffset,
+    cursor,
+  });
+}
+
+function result(conversationId: string, status: SessionImportStatus): SessionImportResult {
+  return { conversationId, status, newTurns: 0, reanalyzed: false };
+}
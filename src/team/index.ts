@@ -0,0 +1,7 @@
+/**
+ * Team module exports
+ */
+
+export * from './team-bundle.js';
+export * from './team-dataset.js';
+export * from './team-salt.js';
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runMigrations } from '../db/migrations.js';
+
+let db: Database.Database;
+
+vi.mock('../db/connection.js', () => ({
+    getDatabase: () => db,
+    transaction: <T>(fn: () => T): T => db.transaction(fn)(),
+}));
+
+import {
+    buildTeamBundle,
+    hashIdentifier,
+    teamBundleSchema,
+    exportTeamBundle,
+    importTeamBundle,
+    resolveTeamSalt,
+    TEAM_BUNDLE_FORMAT,
+    type TeamExportConversation,
+    type TeamExportPrompt,
+} from './index.js';
+import { saveEffectivenessScore, getTeamMembers, deleteTeamMember } from '../db/index.js';
+
+const PROMPT = 'Fix the null check in src/auth/login.ts so tests/auth.test.ts passes. Return only a unified diff.';
+
+const CONVERSATIONS: TeamExportConversation[] = [
+    {
+        id: 'conv-1',
+        project: 'secret-payments-service',
+        source: 'claude-code',
+        startedAt: '2026-03-01T09:00:00Z',
+        turnCount: 4,
+        costUsd: 0.12,
+        effectiveness: 0.8,
+        signals: { positive_feedback: 1, command: 2 },
+    },
+];
+
+const PROMPTS: TeamExportPrompt[] = [
+    {
+        conversationId: 'conv-1',
+        content: PROMPT,
+        timestamp: '2026-03-01T09:00:00Z',
+        outcome: { frictionScore: 3, nextTurnReaction: 'retry', toolErrors: 1, costUsd: 0.05 },
+    },
+    { conversationId: 'conv-1', content: 'thanks, works', timestamp: '2026-03-01T09:05:00Z', outcome: null },
+    // Not in an exported conversation
+    { conversationId: 'conv-other', content: 'hello', timestamp: null, outcome: null },
+];
+
+describe('team bundle', () => {
+    it('hashes project names and conversation ids with the team salt', () => {
+        const bundle = buildTeamBundle(CONVERSATIONS, PROMPTS, { member: 'alice', salt: 'team-salt' });
+        const json = JSON.stringify(bundle);
+
+        expect(json).not.toContain('secret-payments-service');
+        expect(json).not.toContain('conv-1');
+        expect(bundle.conversations[0].project).toBe(hashIdentifier('project', 'secret-payments-service', 'team-salt'));
+        expect(bundle.conversations[0].project).not.toBe(hashIdentifier('project', 'secret-payments-service', 'other'));
+        expect(bundle.conversations[0].id).not.toBe(hashIdentifier('project', 'conv-1', 'team-salt'));
+        expect(bundle.salted).toBe(true);
+        expect(bundle.prompts).toHaveLength(2);
+        expect(bundle.prompts[0].conversationId).toBe(bundle.conversations[0].id);
+    });
+
+    it('keeps derived scores and drops prompt text when redacting', () => {
+        const bundle = buildTeamBundle(CONVERSATIONS, PROMPTS, {
+            member: 'alice',
+            salt: 'team-salt',
+            redactPrompts: true,
+            shareDetails: true,
+            now: new Date('2026-03-02T00:00:00Z'),
+        });
+
+        expect(bundle.format).toBe(TEAM_BUNDLE_FORMAT);
+        expect(bundle.member).toEqual({ name: 'alice', shareDetails: true });
+        expect(bundle.redactedPrompts).toBe(true);
+        expect(bundle.range).toEqual({ start: null, end: '2026-03-02T00:00:00.000Z' });
+        expect(bundle.prompts.every((p) => p.content === null)).toBe(true);
+        expect(bundle.prompts[0].length).toBe(PROMPT.length);
+        expect(bundle.prompts[0].golden.total).toBeGreaterThan(bundle.prompts[1].golden.total);
+        expect(bundle.prompts[0].outcome).toEqual({ frictionScore: 3, nextTurnReaction: 'retry', toolErrors: 1, costUsd: 0.05 });
+        expect(teamBundleSchema.safeParse(bundle).success).toBe(true);
+    });
+
+    it('rejects bundles that claim redaction but carry prompt text', () => {
+        const bundle = buildTeamBundle(CONVERSATIONS, PROMPTS, { member: 'alice', salt: 'team-salt' });
+
+        expect(teamBundleSchema.safeParse(bundle).success).toBe(true);
+        expect(teamBundleSchema.safeParse({ ...bundle, redactedPrompts: true }).success).toBe(false);
+        expect(teamBundleSchema.safeParse({ ...bundle, version: 2 }).success).toBe(false);
+        expect(teamBundleSchema.safeParse({ ...bundle, salted: false }).success).toBe(false);
+        expect(() => buildTeamBundle([], [], { member: 'alice smith', salt: 'team-salt' })).toThrow();
+    });
+
+    it('rejects an empty salt', () => {
+        expect(() => buildTeamBundle(CONVERSATIONS, PROMPTS, { member: 'alice', salt: '' })).toThrow(/team salt/);
+        expect(() => buildTeamBundle(CONVERSATIONS, PROMPTS, { member: 'alice', salt: '  ' })).toThrow(/team salt/);
+        expect(() => hashIdentifier('project', 'payments', '')).toThrow(/team salt/);
+    });
+});
+
+describe('team salt', () => {
+    let dir: string;
+    let saltPath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'pe-team-salt-'));
+        saltPath = join(dir, 'nested', 'team-salt');
+        vi.stubEnv('PE_TEAM_SALT', undefined);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('generates and persists a salt on first use', () => {
+        const first = resolveTeamSalt(undefined, saltPath);
+
+        expect(first.origin).toBe('generated');
+        expect(first.salt).toMatch(/^[0-9a-f]{32}$/);
+        expect(readFileSync(saltPath, 'utf-8').trim()).toBe(first.salt);
+        expect(statSync(saltPath).mode & 0o777).toBe(0o600);
+        expect(resolveTeamSalt(undefined, saltPath)).toEqual({ salt: first.salt, origin: 'file', path: saltPath });
+    });
+
+    it('prefers the option, then PE_TEAM_SALT, over the stored salt', () => {
+        vi.stubEnv('PE_TEAM_SALT', 'from-env');
+
+        expect(resolveTeamSalt('from-option', saltPath)).toEqual({ salt: 'from-option', origin: 'option' });
+        expect(resolveTeamSalt(undefined, saltPath)).toEqual({ salt: 'from-env', origin: 'env' });
+    });
+
+    it('rejects empty salts instead of hashing without one', () => {
+        expect(() => resolveTeamSalt('', saltPath)).toThrow(/team salt/);
+
+        vi.stubEnv('PE_TEAM_SALT', '');
+        expect(() => resolveTeamSalt(undefined, saltPath)).toThrow(/team salt/);
+
+        vi.stubEnv('PE_TEAM_SALT', undefined);
+        resolveTeamSalt(undefined, saltPath);
+        writeFileSync(saltPath, '\n');
+        expect(() => resolveTeamSalt(undefined, saltPath)).toThrow(/team salt/);
+    });
+});
+
+describe('team datasets', () => {
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.pragma('foreign_keys = ON');
+        runMigrations(db);
+
+        db.prepare('INSERT INTO conversations (id, project, started_at, total_cost_usd) VALUES (?, ?, ?, ?)').run(
+            'conv-1',
+            'payments',
+            '2026-03-01T09:00:00Z',
+            0.2
+        );
+        const insertTurn = db.prepare(
+            'INSERT INTO turns (id, conversation_id, role, content, turn_index, timestamp) VALUES (?, ?, ?, ?, ?, ?)'
+        );
+        insertTurn.run('t1', 'conv-1', 'user', PROMPT, 0, '2026-03-01T09:00:00Z');
+        insertTurn.run('t2', 'conv-1', 'assistant', 'Done.', 1, '2026-03-01T09:01:00Z');
+        insertTurn.run('t3', 'conv-1', 'user', 'try again', 2, '2026-03-01T09:02:00Z');
+        db.prepare('INSERT INTO quality_signals (conversation_id, signal_type, turn_id, value) VALUES (?, ?, ?, 1)').run(
+            'conv-1',
+            'retry_attempt',
+            't3'
+        );
+        saveEffectivenessScore('conv-1', 0.4, { sentiment: 0.5, completion: 0.5, efficiency: 0.3, engagement: 0.2 });
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('exports stored scores and signal counts from the local database', () => {
+        const bundle = exportTeamBundle({ member: 'alice', salt: 's' });
+
+        expect(bundle.conversations).toHaveLength(1);
+        expect(bundle.conversations[0].effectiveness).toBe(0.4);
+        expect(bundle.conversations[0].costUsd).toBe(0.2);
+        // The stored effectiveness score is not a detected signal
+        expect(bundle.conversations[0].signals).toEqual({ retry_attempt: 1 });
+        expect(bundle.prompts.map((p) => p.content)).toEqual([PROMPT, 'try again']);
+        expect(exportTeamBundle({ member: 'alice', salt: 's', start: new Date('2026-04-01') }).conversations).toHaveLength(0);
+    });
+
+    it('replaces a member dataset on re-import and deletes it on request', () => {
+        const bundle = exportTeamBundle({ member: 'alice', salt: 's', redactPrompts: true });
+
+        expect(importTeamBundle(bundle)).toEqual({ member: 'alice', conversations: 1, prompts: 2 });
+        importTeamBundle({ ...bundle, member: { name: 'alice', shareDetails: true } });
+        importTeamBundle({ ...bundle, member: { name: 'bob', shareDetails: false } });
+
+        const members = getTeamMembers();
+        expect(members.map((m) => [m.name, m.share_details, m.conversations, m.prompts])).toEqual([
+            ['alice', 1, 1, 2],
+            ['bob', 0, 1, 2],
+        ]);
+        expect(db.prepare('SELECT COUNT(*) AS n FROM team_prompts WHERE content IS NOT NULL').get()).toEqual({ n: 0 });
+
+        expect(deleteTeamMember('bob')).toBe(true);
+        expect(deleteTeamMember('bob')).toBe(false);
+        expect(db.prepare('SELECT COUNT(*) AS n FROM team_prompts').get()).toEqual({ n: 2 });
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * Team Bundle
+ * `pe export --team` 로 만드는 익명화 내보내기 번들의 형식과 생성
+ *
+ * - 프로젝트 이름과 대화 ID 는 팀 공용 솔트로 해시 (같은 솔트면 팀원 간 같은 프로젝트가 같은 해시)
+ * - 파일 경로, 도구 입력, 어시스턴트 응답은 담지 않음
+ * - 프롬프트 본문은 --redact-prompts 면 빠지고 분류/GOLDEN/안티패턴 등 파생 지표만 남음
+ * - 담는 본문도 비밀값/PII 를 한 번 더 가림 (가리기 도입 전에 임포트된 대화)
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { classifyPrompt } from '../analysis/classifier.js';
+import { calculatePromptQuality } from '../analysis/scorer.js';
+import { calculateGOLDENScore, detectAntiPatterns } from '../analysis/guidelines-evaluator.js';
+import { PROMPT_REACTIONS } from '../analysis/outcome-attribution.js';
+import { TASK_CATEGORIES, PROMPT_INTENTS } from '../shared/constants.js';
+import { redactText } from '../redaction/index.js';
+import { assertTeamSalt } from './team-salt.js';
+
+export const TEAM_BUNDLE_FORMAT = 'prompt-evolution-team-bundle';
+
+/** 형식이 바뀌면 올림 */
+export const TEAM_BUNDLE_VERSION = 1;
+
+const isoDate = z.iso.datetime({ offset: true });
+const unit = z.number().min(0).max(1);
+const hash = z.string().regex(/^[0-9a-f]{16}$/);
+
+export const teamMemberNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(64)
+  .regex(/^[\p{L}\p{N}._@-]+$/u, 'Only letters, digits, ".", "_", "@" and "-" are allowed');
+
+const teamConversationSchema = z.object({
+  id: hash,
+  project: hash,
+  source: z.string().min(1).max(40),
+  startedAt: isoDate.nullable(),
+  turnCount: z.number().int().min(0),
+  costUsd: z.number().min(0),
+  effectiveness: unit.nullable(),
+  signals: z.record(z.string().max(40), z.number().int().min(0)),
+});
+
+const teamPromptSchema = z.object({
+  conversationId: hash,
+  timestamp: isoDate.nullable(),
+  content: z.string().nullable(),
+  length: z.number().int().min(0),
+  category: z.enum(TASK_CATEGORIES),
+  intent: z.enum(PROMPT_INTENTS),
+  quality: unit,
+  golden: z.object({
+    goal: unit,
+    output: unit,
+    limits: unit,
+    data: unit,
+    evaluation: unit,
+    next: unit,
+    total: unit,
+  }),
+  antiPatterns: z.array(z.string().max(100)),
+  outcome: z
+    .object({
+      frictionScore: z.number().min(0),
+      nextTurnReaction: z.enum(PROMPT_REACTIONS),
+      toolErrors: z.number().int().min(0),
+      costUsd: z.number().min(0),
+    })
+    .nullable(),
+});
+
+export const teamBundleSchema = z
+  .object({
+    format: z.literal(TEAM_BUNDLE_FORMAT),
+    version: z.literal(TEAM_BUNDLE_VERSION),
+    exportedAt: isoDate,
+    member: z.object({
+      name: teamMemberNameSchema,
+      /** 팀 대시보드에서 개인별 상세 보기를 허용 */
+      shareDetails: z.boolean(),
+    }),
+    redactedPrompts: z.boolean(),
+    /** 팀 공용 솔트로 해시했는지 (솔트 값은 담지 않음, 솔트 없는 번들은 받지 않음) */
+    salted: z.literal(true),
+    range: z.object({ start: isoDate.nullable(), end: isoDate }),
+    conversations: z.array(teamConversationSchema),
+    prompts: z.array(teamPromptSchema),
+  })
+  .refine((bundle) => !bundle.redactedPrompts || bundle.prompts.every((p) => p.content === null), {
+    message: 'Redacted bundles must not contain prompt text',
+    path: ['prompts'],
+  });
+
+export type TeamBundle = z.infer<typeof teamBundleSchema>;
+export type TeamBundleConversation = TeamBundle['conversations'][number];
+export type TeamBundlePrompt = TeamBundle['prompts'][number];
+
+/**
+ * 번들에 담을 로컬 대화
+ */
+export interface TeamExportConversation {
+  id: string;
+  project: string;
+  source: string;
+  startedAt: string | null;
+  turnCount: number;
+  costUsd: number;
+  effectiveness: number | null;
+  signals: Record<string, number>;
+}
+
+/**
+ * 번들에 담을 로컬 프롬프트 (outcome 은 analyze 가 귀속한 하류 결과)
+ */
+export interface TeamExportPrompt {
+  conversationId: string;
+  content: string;
+  timestamp: string | null;
+  outcome: {
+    frictionScore: number;
+    nextTurnReaction: string;
+    toolErrors: number;
+    costUsd: number;
+  } | null;
+}
+
+export interface TeamBundleOptions {
+  member: string;
+  shareDetails?: boolean;
+  redactPrompts?: boolean;
+  /** 팀 공용 솔트 (비어 있으면 거부 - resolveTeamSalt) */
+  salt: string;
+  start?: Date;
+  now?: Date;
+}
+
+/**
+ * 식별자 해시 (종류별로 분리해 프로젝트 해시와 대화 해시가 겹치지 않게)
+ */
+export function hashIdentifier(kind: 'project' | 'conversation', value: string, salt: string): string {
+  assertTeamSalt(salt);
+  return createHash('sha256').update(`${salt}\u0000${kind}\u0000${value}`).digest('hex').slice(0, 16);
+}
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function toIso(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function isPromptReaction(value: string): value is typeof PROMPT_REACTIONS[number] {
+  return (PROMPT_REACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * 로컬 대화/프롬프트로 익명화 번들 생성
+ */
+export function buildTeamBundle(
+  conversations: TeamExportConversation[],
+  prompts: TeamExportPrompt[],
+  options: TeamBundleOptions
+): TeamBundle {
+  const { salt, redactPrompts = false, now = new Date() } = options;
+  assertTeamSalt(salt);
+  const conversationHash = (id: string) => hashIdentifier('conversation', id, salt);
+  const exported = new Set(conversations.map((c) => c.id));
+
+  return {
+    format: TEAM_BUNDLE_FORMAT,
+    version: TEAM_BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    member: { name: teamMemberNameSchema.parse(options.member), shareDetails: options.shareDetails ?? false },
+    redactedPrompts: redactPrompts,
+    salted: true,
+    range: { start: options.start?.toISOString() ?? null, end: now.toISOString() },
+    conversations: conversations.map((c) => ({
+      id: conversationHash(c.id),
+      project: hashIdentifier('project', c.project, salt),
+      source: c.source,
+      startedAt: toIso(c.startedAt),
+      turnCount: c.turnCount,
+      costUsd: round(Math.max(0, c.costUsd), 6),
+      effectiveness: c.effectiveness === null ? null : round(Math.min(1, Math.max(0, c.effectiveness))),
+      signals: c.signals,
+    })),
+    prompts: prompts
+      .filter((p) => exported.has(p.conversationId))
+      .map((p) => {
+        const classification = classifyPrompt(p.content);
+        const golden = calculateGOLDENScore(p.content, classification.taskCategory);
+        const outcome = p.outcome;
+        return {
+          conversationId: conversationHash(p.conversationId),
+          timestamp: toIso(p.timestamp),
+          content: redactPrompts ? null : redactText(p.content),
+          length: p.content.length,
+          category: classification.taskCategory,
+          intent: classification.intent,
+          quality: round(calculatePromptQuality(classification, p.content).overall),
+          golden: {
+            goal: round(golden.goal),
+            output: round(golden.output),
+            limits: round(golden.limits),
+            data: round(golden.data),
+            evaluation: round(golden.evaluation),
+            next: round(golden.next),
+            total: round(golden.total),
+          },
+          // 같은 프롬프트에서 한 패턴은 한 번만
+          antiPatterns: [...new Set(detectAntiPatterns(p.content).map((a) => a.pattern))],
+          outcome: outcome
+            ? {
+              frictionScore: round(outcome.frictionScore),
+              nextTurnReaction: isPromptReaction(outcome.nextTurnReaction) ? outcome.nextTurnReaction : 'neutral',
+              toolErrors: outcome.toolErrors,
+              costUsd: round(outcome.costUsd, 6),
+            }
+            : null,
+        };
+      }),
+  };
+}
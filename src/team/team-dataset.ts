@@ -0,0 +1,88 @@
+/**
+ * Team Dataset
+ * 로컬 DB → 팀 번들 내보내기, 팀 번들 → 팀원별 데이터셋 저장
+ */
+
+import {
+  getTeamExportConversations,
+  getTeamExportSignalCounts,
+  getTeamExportPrompts,
+  replaceTeamMemberDataset,
+} from '../db/index.js';
+import { buildTeamBundle, type TeamBundle, type TeamBundleOptions } from './team-bundle.js';
+
+/**
+ * 로컬 DB 의 대화(start 이후 시작)로 팀 번들 생성
+ */
+export function exportTeamBundle(options: TeamBundleOptions): TeamBundle {
+  const signals = getTeamExportSignalCounts(options.start);
+  const conversations = getTeamExportConversations(options.start).map((row) => ({
+    id: row.id,
+    project: row.project,
+    source: row.source,
+    startedAt: row.started_at,
+    turnCount: row.turn_count,
+    costUsd: row.total_cost_usd ?? 0,
+    effectiveness: row.effectiveness,
+    signals: signals.get(row.id) ?? {},
+  }));
+  const prompts = getTeamExportPrompts(options.start).map((row) => ({
+    conversationId: row.conversation_id,
+    content: row.content,
+    timestamp: row.timestamp,
+    outcome: row.friction_score === null
+      ? null
+      : {
+        frictionScore: row.friction_score,
+        nextTurnReaction: row.next_turn_reaction ?? 'neutral',
+        toolErrors: row.tool_errors ?? 0,
+        costUsd: row.cost_usd ?? 0,
+      },
+  }));
+
+  return buildTeamBundle(conversations, prompts, options);
+}
+
+/**
+ * 검증된 팀 번들을 팀원 데이터셋으로 저장 (같은 팀원의 이전 데이터셋은 교체)
+ */
+export function importTeamBundle(bundle: TeamBundle): { member: string; conversations: number; prompts: number } {
+  replaceTeamMemberDataset({
+    name: bundle.member.name,
+    shareDetails: bundle.member.shareDetails,
+    promptsRedacted: bundle.redactedPrompts,
+    bundleVersion: bundle.version,
+    exportedAt: bundle.exportedAt,
+    conversations: bundle.conversations.map((c) => ({
+      id: c.id,
+      projectHash: c.project,
+      source: c.source,
+      startedAt: c.startedAt,
+      turnCount: c.turnCount,
+      costUsd: c.costUsd,
+      effectiveness: c.effectiveness,
+      signals: c.signals,
+    })),
+    prompts: bundle.prompts.map((p) => ({
+      conversationId: p.conversationId,
+      timestamp: p.timestamp,
+      content: bundle.redactedPrompts ? null : p.content,
+      length: p.length,
+      category: p.category,
+      intent: p.intent,
+      quality: p.quality,
+      golden: p.golden,
+      antiPatterns: p.antiPatterns,
+      frictionScore: p.outcome?.frictionScore ?? null,
+      nextTurnReaction: p.outcome?.nextTurnReaction ?? null,
+      toolErrors: p.outcome?.toolErrors ?? null,
+      costUsd: p.outcome?.costUsd ?? null,
+    })),
+  });
+
+  return {
+    member: bundle.member.name,
+    conversations: bundle.conversations.length,
+    prompts: bundle.prompts.length,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Team Salt
+ * 팀 번들 해시에 쓰는 팀 공용 솔트
+ *
+ * --salt / PE_TEAM_SALT 가 없으면 ~/.prompt-evolution/team-salt 를 쓰고,
+ * 그것도 없으면 첫 내보내기 때 무작위 솔트를 만들어 저장 (팀원에게 공유해 같은 값을 사용)
+ */
+
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+export interface ResolvedTeamSalt {
+  salt: string;
+  /** 솔트를 어디서 가져왔는지 */
+  origin: 'option' | 'env' | 'file' | 'generated';
+  /** 저장된 솔트 파일 (file, generated) */
+  path?: string;
+}
+
+/**
+ * 솔트 파일 경로 (PE_TEAM_SALT_FILE 로 변경 가능)
+ */
+export function getTeamSaltPath(): string {
+  return process.env.PE_TEAM_SALT_FILE || join(homedir(), '.prompt-evolution', 'team-salt');
+}
+
+/**
+ * 빈 솔트 거부 (솔트 없는 해시는 흔한 프로젝트 이름을 사전 대입으로 되돌릴 수 있음)
+ */
+export function assertTeamSalt(salt: string | undefined): asserts salt is string {
+  if (!salt?.trim()) {
+    throw new Error('A non-empty team salt is required to hash project names and conversation ids');
+  }
+}
+
+/**
+ * 내보내기에 쓸 팀 솔트 (옵션 → PE_TEAM_SALT → 저장된 솔트 → 새로 만들어 저장)
+ */
+export function resolveTeamSalt(salt?: string, filePath: string = getTeamSaltPath()): ResolvedTeamSalt {
+  if (salt !== undefined) {
+    assertTeamSalt(salt);
+    return { salt, origin: 'option' };
+  }
+
+  const envSalt = process.env.PE_TEAM_SALT;
+  if (envSalt !== undefined) {
+    assertTeamSalt(envSalt);
+    return { salt: envSalt, origin: 'env' };
+  }
+
+  if (existsSync(filePath)) {
+    const stored = readFileSync(filePath, 'utf-8').trim();
+    assertTeamSalt(stored);
+    return { salt: stored, origin: 'file', path: filePath };
+  }
+
+  const generated = randomBytes(16).toString('hex');
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, generated + '\n', { mode: 0o600 });
+  return { salt: generated, origin: 'generated', path: filePath };
+}
@@ -1,6 +1,7 @@
 // Claude Code JSONL 레코드 타입 (계속)
 
 import type { BaseRecord } from './claude-code.js';
+import type { AssistantSource } from './source.js';
 
 // Assistant 응답 콘텐츠 타입
 export type AssistantContentItem = 
@@ -30,30 +31,58 @@ export interface AssistantRecord extends BaseRecord {
 // 파싱된 대화 구조
 export interface ParsedConversation {
   id: string;
+  source: AssistantSource;
   project: string;
   projectPath: string;
   startedAt: Date;
   endedAt: Date;
   model: string;
-  totalInputTokens: number;
+  totalInputTokens: number; // 캐시되지 않은 입력 토큰
   totalOutputTokens: number;
+  totalCacheCreationTokens?: number;
+  totalCacheReadTokens?: number;
+  totalCostUsd?: number;
   turns: ParsedTurn[];
   summaries: string[];
 }
 
+// 대화 트리 상의 턴 위치
+// - main: 최종 리프까지 이어지는 주 경로
+// - abandoned: 되감기/프롬프트 수정으로 버려진 분기
+// - sidechain: 서브 에이전트 스레드
+export type BranchType = 'main' | 'abandoned' | 'sidechain';
+
+// 도구 호출 (입력/결과는 비밀값을 가리고 길이를 제한해 보관)
+export interface ParsedToolCall {
+  id?: string; // tool_use id
+  name: string;
+  input?: string; // 입력 요약 (JSON)
+  target?: string; // 주요 대상 (파일 경로, 명령어, URL 등)
+  result?: string; // tool_result 요약
+  isError?: boolean;
+  durationMs?: number; // tool_use → tool_result 경과 시간
+  timestamp?: Date;
+}
+
 export interface ParsedTurn {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
-  parentId?: string;
+  parentId?: string; // 가장 가까운 조상 턴 (도구 결과 등 턴이 아닌 레코드는 건너뜀)
+  branchId?: string; // 'main' 또는 분기 시작 레코드 uuid
+  branchType?: BranchType;
   
   // AI 응답 전용
   model?: string;
   thinking?: string;
   toolsUsed?: string[];
+  toolCalls?: ParsedToolCall[];
   inputTokens?: number;
   outputTokens?: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+  costUsd?: number; // 어시스턴트가 보고한 비용 또는 가격표로 계산한 비용
 }
 
 export type ClaudeCodeRecord = 
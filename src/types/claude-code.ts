@@ -6,6 +6,10 @@ export interface BaseRecord {
   type: RecordType;
   uuid?: string;
   parentUuid?: string | null;
+  // compact 이후 첫 레코드는 parentUuid 가 null 이고 원래 부모를 여기에 보관
+  logicalParentUuid?: string | null;
+  // 서브 에이전트(Task) 트래픽
+  isSidechain?: boolean;
   timestamp?: string;
   sessionId?: string;
 }
@@ -29,7 +33,12 @@ export interface SystemRecord extends BaseRecord {
 // User message content can be string or array of content blocks
 export type UserContentBlock =
   | { type: 'text'; text: string }
-  | { type: 'tool_result'; tool_use_id: string; content: string };
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content?: string | Array<{ type: string; text?: string }>;
+      is_error?: boolean;
+    };
 
 export type UserContent = string | UserContentBlock[];
 
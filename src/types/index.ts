@@ -1,2 +1,3 @@
 export * from './claude-code.js';
 export * from './assistant.js';
+export * from './source.js';
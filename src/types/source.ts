@@ -0,0 +1,86 @@
+// 세션 소스 (AI 코딩 어시스턴트) 타입
+
+import type { ParsedConversation } from './assistant.js';
+
+// 지원하는 어시스턴트 식별자 (conversations.source 컬럼 값)
+export type AssistantSource = 'claude-code' | 'codex-cli' | 'aider' | 'gemini-cli';
+
+export const ASSISTANT_SOURCES: readonly AssistantSource[] = [
+  'claude-code',
+  'codex-cli',
+  'aider',
+  'gemini-cli',
+] as const;
+
+/**
+ * 어시스턴트별 로그 어댑터
+ * - projectName / sessionFile 은 소스 내부에서만 의미를 갖는 키
+ * - parseSession 결과는 모든 소스가 동일한 ParsedConversation 형태
+ */
+export interface SessionSource {
+  readonly id: AssistantSource;
+  readonly displayName: string;
+
+  /** 프로젝트 키 목록 */
+  listProjects(): string[];
+
+  /** 프로젝트 내 세션 키 목록 */
+  listSessions(projectName: string): string[];
+
+  /** 세션 키 → 대화 ID (파싱 없이 중복 확인용) */
+  getConversationId(projectName: string, sessionFile: string): string;
+
+  /** 세션을 구조화된 대화로 변환 */
+  parseSession(projectName: string, sessionFile: string): ParsedConversation | null;
+
+  /** 세션 키 → 원본 파일 경로 (임포트 원장에서 크기/수정 시각으로 변경 감지) */
+  getSessionFilePath?(projectName: string, sessionFile: string): string | null;
+
+  /**
+   * 바이트 오프셋부터 추가된 레코드만 파싱 (append-only 로그 전용)
+   * 구현하지 않은 소스는 파일이 바뀌면 세션 전체를 다시 임포트
+   */
+  parseSessionFrom?(
+    projectName: string,
+    sessionFile: string,
+    offset: number,
+    cursor?: SessionCursor
+  ): SessionChunk | null;
+
+  /**
+   * 한 번의 스캔(임포트/동기화 실행)에 쓸 스냅샷
+   * 목록을 만들려고 파일을 읽어야 하는 소스만 구현: 색인을 한 번 만들어
+   * listProjects / listSessions 가 실행 내내 재사용
+   */
+  snapshot?(): SessionSource;
+}
+
+/**
+ * 이어 읽기 상태 (임포트 원장에 JSON 으로 보관)
+ */
+export interface SessionCursor {
+  /** 마지막으로 토큰을 집계한 메시지 id (메시지가 청크 경계에 걸쳐도 한 번만 집계) */
+  lastMessageId?: string;
+}
+
+/**
+ * 이전 청크에서 저장한 도구 호출의 결과
+ */
+export interface ToolResultUpdate {
+  toolUseId: string;
+  result?: string;
+  isError: boolean;
+  timestamp?: Date;
+}
+
+/**
+ * 오프셋 이후 추가분 파싱 결과
+ * - conversation: 새 턴과 추가분의 토큰 합계만 포함 (추가된 턴이 없으면 turns 가 빈 배열)
+ * - 새 턴 중 청크 밖의 레코드를 부모로 가진 턴은 parentId 에 그 레코드 uuid 를 담음
+ */
+export interface SessionChunk {
+  conversation: ParsedConversation;
+  offset: number;
+  cursor: SessionCursor;
+  toolResults: ToolResultUpdate[];
+}
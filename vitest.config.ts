@@ -6,6 +6,7 @@ export default defineConfig({
     environment: 'node',
     include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
     exclude: ['**/node_modules/**', '**/dist/**', 'desktop/**', 'web/**'],
+    setupFiles: ['./vitest.setup.ts'],
     passWithNoTests: true,
   },
 });
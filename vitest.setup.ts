@@ -0,0 +1,4 @@
+import { setActiveRulePacks } from './src/analysis/rule-packs.js';
+
+// Scorers only use explicitly activated rule packs; keep tests independent of ~/.prompt-evolution/rules
+setActiveRulePacks([]);
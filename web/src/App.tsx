@@ -9,6 +9,9 @@ const TrendsPage = lazy(() => import('./pages/TrendsPage'));
 const ProjectsPage = lazy(() => import('./pages/ProjectsPage'));
 const LibraryPage = lazy(() => import('./pages/LibraryPage'));
 const GuidebookPage = lazy(() => import('./pages/GuidebookPage'));
+const SearchPage = lazy(() => import('./pages/SearchPage'));
+const ConversationPage = lazy(() => import('./pages/ConversationPage'));
+const TeamPage = lazy(() => import('./pages/TeamPage'));
 
 function LoadingFallback() {
   return (
@@ -29,6 +32,9 @@ function App() {
           <Route path="/projects" element={<ProjectsPage />} />
           <Route path="/library" element={<LibraryPage />} />
           <Route path="/guidebook" element={<GuidebookPage />} />
+          <Route path="/search" element={<SearchPage />} />
+          <Route path="/conversations/:id" element={<ConversationPage />} />
+          <Route path="/team" element={<TeamPage />} />
         </Routes>
       </Suspense>
     </Layout>
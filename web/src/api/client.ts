@@ -20,6 +20,15 @@ async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
 }
 
 // Types
+export type AssistantSource = 'claude-code' | 'codex-cli' | 'aider' | 'gemini-cli';
+
+export const ASSISTANT_SOURCE_LABELS: Record<AssistantSource, string> = {
+  'claude-code': 'Claude Code',
+  'codex-cli': 'Codex CLI',
+  aider: 'Aider',
+  'gemini-cli': 'Gemini CLI',
+};
+
 export interface StatsResponse {
   conversations: number;
   turns: number;
@@ -27,6 +36,7 @@ export interface StatsResponse {
   avgEffectiveness: number;
   avgQuality: number;
   projects: number;
+  sources: Array<{ source: AssistantSource; count: number }>;
   lastSync: string | null;
   lastAnalysis: string | null;
   goldenScores: {
@@ -55,7 +65,7 @@ export interface TrendDataPoint {
 }
 
 export interface TrendsResponse {
-  metric: 'effectiveness' | 'quality' | 'volume';
+  metric: 'effectiveness' | 'quality' | 'volume' | 'cost';
   period: string;
   groupBy: 'day' | 'week' | 'month';
   data: TrendDataPoint[];
@@ -63,16 +73,255 @@ export interface TrendsResponse {
   changePercent: number;
 }
 
+export interface CostTotals {
+  conversations: number;
+  turns: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number;
+  unpriced_turns: number;
+}
+
+export interface CostResponse {
+  period: '7d' | '30d' | '90d' | 'all';
+  groupBy: 'model' | 'project' | 'day';
+  totals: CostTotals;
+  breakdown: Array<CostTotals & { key: string }>;
+}
+
+export interface EffectivenessWeights {
+  sentiment: number;
+  completion: number;
+  efficiency: number;
+  engagement: number;
+}
+
+export interface PersonalModelResponse {
+  personalized: boolean;
+  scope: string | null;
+  trainedAt: string | null;
+  samples: number;
+  successRate: number | null;
+  metrics: { holdoutAccuracy: number | null; baselineAccuracy: number; logLoss: number } | null;
+  effectivenessWeights: EffectivenessWeights;
+  defaultWeights: EffectivenessWeights;
+  importances: Array<{ feature: string; coefficient: number; importance: number }>;
+  models: Array<{ scope: string; samples: number; trainedAt: string }>;
+}
+
+export interface SearchHit {
+  kind: 'turn' | 'summary';
+  conversationId: string;
+  turnId: string | null;
+  role: 'user' | 'assistant' | null;
+  project: string;
+  source: AssistantSource;
+  timestamp: string | null;
+  snippet: string; // matches wrapped in <mark></mark>
+  rank: number;
+  category?: TaskCategory;
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  limit: number;
+  offset: number;
+  hits: SearchHit[];
+}
+
+// Conversation detail (GET /api/conversations/:id)
+export type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export type SignalType =
+  | 'positive_feedback'
+  | 'negative_feedback'
+  | 'retry_attempt'
+  | 'task_completion'
+  | 'question'
+  | 'command'
+  | 'context_providing'
+  | 'prompt_edited'
+  | 'tool_error_loop';
+
+export interface DetectedSignal {
+  type: SignalType;
+  turnId: string;
+  turnIndex: number;
+  keywords: string[];
+  confidence: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface GoldenScore {
+  goal: number;
+  output: number;
+  limits: number;
+  data: number;
+  evaluation: number;
+  next: number;
+  total: number;
+}
+
+export interface PromptAnalysis {
+  intent: string;
+  taskCategory: TaskCategory;
+  categoryConfidence: number;
+  golden: GoldenScore;
+  grade: Grade;
+  antiPatterns: Array<{
+    pattern: string;
+    severity: 'high' | 'medium' | 'low';
+    description: string;
+    fix: string;
+  }>;
+  recommendations: string[];
+  suggestion: {
+    improved: string;
+    keyChanges: string[];
+    improvementPercent: number;
+  } | null;
+}
+
+export interface ConversationTurn {
+  id: string;
+  index: number;
+  role: 'user' | 'assistant';
+  content: string;
+  thinking: string | null;
+  timestamp: string | null;
+  model: string | null;
+  parentId: string | null;
+  branchType: 'main' | 'abandoned' | 'sidechain';
+  inputTokens: number | null;
+  outputTokens: number | null;
+  costUsd: number | null;
+  toolUsages: Array<{
+    name: string;
+    target: string | null;
+    input: unknown;
+    result: string | null;
+    isError: boolean;
+    durationMs: number | null;
+  }>;
+  signals: DetectedSignal[];
+  prompt: PromptAnalysis | null;
+}
+
+export interface ConversationDetailResponse {
+  conversation: {
+    id: string;
+    project: string;
+    projectPath: string | null;
+    source: AssistantSource;
+    model: string | null;
+    startedAt: string | null;
+    endedAt: string | null;
+    turnCount: number;
+    totalInputTokens: number;
+    totalOutputTokens: number;
+    totalCacheCreationTokens: number;
+    totalCacheReadTokens: number;
+    totalCostUsd: number;
+  };
+  summaries: string[];
+  turns: ConversationTurn[];
+  signals: DetectedSignal[];
+  signalSummary: {
+    positiveCount: number;
+    negativeCount: number;
+    retryCount: number;
+    completionCount: number;
+    sentimentScore: number;
+    retryRate: number;
+    hasCompletion: boolean;
+  };
+  branches: {
+    mainTurns: number;
+    abandonedTurns: number;
+    sidechainTurns: number;
+    editedPrompts: number;
+  } | null;
+  effectiveness: {
+    score: {
+      overall: number;
+      sentimentScore: number;
+      completionScore: number;
+      efficiencyScore: number;
+      engagementScore: number;
+    };
+    grade: Grade;
+    gradeDescription: string;
+    insights: string[];
+    recommendations: string[];
+  };
+}
+
+// Prompt library (GET /api/insights → promptLibrary)
+export interface PromptLibraryEntry {
+  id: string;
+  pattern: string;
+  category: TaskCategory;
+  intent: string;
+  effectiveness: number;
+  frequency: number;
+  examples: Array<{
+    content: string;
+    effectiveness: number;
+    timestamp: string;
+    conversationId: string;
+  }>;
+  keywords: string[];
+  bestPractices: string[];
+  antiPatterns: string[];
+  averageLength: number;
+  successRate: number;
+}
+
+export interface PromptLibrary {
+  entries: PromptLibraryEntry[];
+  totalPrompts: number;
+  generatedAt: string;
+  topPatterns: PromptLibraryEntry[];
+}
+
+// Similar prompts (GET /api/library/similar)
+export interface SimilarPrompt {
+  turnId: string;
+  conversationId: string;
+  project: string;
+  source: AssistantSource;
+  timestamp: string | null;
+  content: string;
+  similarity: number;
+  effectiveness: number | null;
+}
+
+export interface SimilarPromptsResponse {
+  query: string;
+  model: string;
+  prompts: SimilarPrompt[];
+}
+
 export interface SyncStatusResponse {
   isRunning: boolean;
   lastSync: string | null;
   lastResult: {
     imported: number;
+    updated: number;
     analyzed: number;
     skipped: number;
     errors: string[];
   } | null;
   nextScheduledSync: string | null;
+  watcher: {
+    isWatching: boolean;
+    path: string;
+    lastImport: string | null;
+    pendingFiles: number;
+  };
   scheduler: {
     isEnabled: boolean;
     schedules: Array<{
@@ -88,13 +337,57 @@ export interface SyncTriggerResponse {
   success: boolean;
   mode: string;
   project: string | null;
+  source: AssistantSource | null;
   imported: number;
+  updated: number;
   analyzed: number;
   skipped: number;
   errors: string[];
   duration: number;
 }
 
+// Live events (GET /api/events, Server-Sent Events)
+export type ServerEventType = 'session-updated' | 'sync-completed';
+
+export const SERVER_EVENT_TYPES: ServerEventType[] = ['session-updated', 'sync-completed'];
+
+export interface SessionUpdatedEvent {
+  type: 'session-updated';
+  conversationId: string;
+  source: AssistantSource;
+  project: string;
+  status: 'imported' | 'appended' | 'replaced';
+  newTurns: number;
+  timestamp: string;
+}
+
+export interface SyncCompletedEvent {
+  type: 'sync-completed';
+  imported: number;
+  updated: number;
+  analyzed: number;
+  timestamp: string;
+}
+
+export type ServerEvent = SessionUpdatedEvent | SyncCompletedEvent;
+
+export function subscribeServerEvents(
+  onEvent: (event: ServerEvent) => void,
+  onStatusChange?: (connected: boolean) => void
+): () => void {
+  const source = new EventSource(`${API_BASE}/events`);
+  const handler = (e: MessageEvent<string>) => onEvent(JSON.parse(e.data) as ServerEvent);
+
+  for (const type of SERVER_EVENT_TYPES) {
+    source.addEventListener(type, handler);
+  }
+  source.onopen = () => onStatusChange?.(true);
+  // EventSource reconnects on its own (server sends retry)
+  source.onerror = () => onStatusChange?.(false);
+
+  return () => source.close();
+}
+
 // Self-Improvement Types
 export type TaskCategory =
   | 'code-generation'
@@ -224,11 +517,95 @@ export interface InsightsResponse {
     impact: string;
     effort: string;
   }>;
-  promptLibrary: unknown;
+  promptLibrary: PromptLibrary | null;
   guidelinesSummary: unknown;
   selfImprovement: SelfImprovementFeedback | null;
 }
 
+// Period-over-period comparison (GET /api/insights/compare)
+export interface ComparisonWindow {
+  label: string;
+  start: string;
+  end: string;
+}
+
+export interface MetricChange {
+  key: string; // effectiveness, golden.goal, antiPattern.<name>, category.<category>
+  group: 'summary' | 'golden' | 'antiPattern' | 'category';
+  label: string;
+  kind: 'mean' | 'proportion';
+  previous: number;
+  current: number;
+  delta: number;
+  relativeChange: number | null;
+  pValue: number | null; // null when a window has too few prompts to test
+  significant: boolean;
+  direction: 'up' | 'down' | 'flat';
+  assessment: 'improved' | 'regressed' | 'neutral';
+  samples: { previous: number; current: number };
+}
+
+export interface InsightsCompareResponse {
+  generatedAt: string;
+  current: { window: ComparisonWindow; report: InsightsResponse };
+  previous: { window: ComparisonWindow; report: InsightsResponse };
+  changes: MetricChange[];
+}
+
+// Team mode (GET /api/team/*): aggregates over imported member bundles
+export interface TeamMember {
+  name: string;
+  shareDetails: boolean; // opted in to per-member drilldowns
+  redactedPrompts: boolean;
+  exportedAt: string;
+  importedAt: string;
+  conversations: number | null; // null unless shareDetails
+  prompts: number | null;
+}
+
+export interface TeamStatsResponse {
+  period: string;
+  member: string | null;
+  members: number;
+  conversations: number;
+  prompts: number;
+  projects: number;
+  redactedPrompts: number;
+  avgEffectiveness: number;
+  avgQuality: number;
+  totalCostUsd: number;
+  lastImport: string | null;
+  goldenScores: StatsResponse['goldenScores'];
+}
+
+export type TeamTrendMetric = 'volume' | 'effectiveness' | 'quality' | 'golden';
+
+export interface TeamTrendsResponse {
+  metric: TeamTrendMetric;
+  period: string;
+  groupBy: 'day' | 'week' | 'month';
+  member: string | null;
+  data: TrendDataPoint[];
+  trend: 'improving' | 'declining' | 'stable';
+  changePercent: number;
+}
+
+export interface TeamInsightsResponse {
+  period: string;
+  member: string | null;
+  prompts: number;
+  categoryBreakdown: Array<{
+    category: string;
+    count: number;
+    percentage: number;
+    avgQuality: number;
+    avgGolden: number;
+  }>;
+  antiPatterns: Array<{ pattern: string; count: number; percentage: number }>;
+  signals: Array<{ type: string; count: number }>;
+  outcomes: { attributed: number; avgFriction: number; retryRate: number };
+}
+
 // API functions
 export async function fetchStats(): Promise<StatsResponse> {
   return fetchJson<StatsResponse>('/stats');
@@ -252,22 +629,160 @@ export async function fetchTrends(params?: {
   return fetchJson<TrendsResponse>(`/trends${query ? `?${query}` : ''}`);
 }
 
+export async function fetchCost(params?: {
+  period?: string;
+  groupBy?: string;
+  project?: string;
+  source?: AssistantSource;
+}): Promise<CostResponse> {
+  const searchParams = new URLSearchParams();
+  if (params?.period) searchParams.set('period', params.period);
+  if (params?.groupBy) searchParams.set('groupBy', params.groupBy);
+  if (params?.project) searchParams.set('project', params.project);
+  if (params?.source) searchParams.set('source', params.source);
+
+  const query = searchParams.toString();
+  return fetchJson<CostResponse>(`/stats/cost${query ? `?${query}` : ''}`);
+}
+
+export async function fetchPersonalModel(params?: { project?: string }): Promise<PersonalModelResponse> {
+  const searchParams = new URLSearchParams();
+  if (params?.project) searchParams.set('project', params.project);
+
+  const query = searchParams.toString();
+  return fetchJson<PersonalModelResponse>(`/stats/model${query ? `?${query}` : ''}`);
+}
+
+export async function fetchSearch(params: {
+  q: string;
+  role?: 'user' | 'assistant';
+  project?: string;
+  category?: TaskCategory;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<SearchResponse> {
+  const searchParams = new URLSearchParams({ q: params.q });
+  if (params.role) searchParams.set('role', params.role);
+  if (params.project) searchParams.set('project', params.project);
+  if (params.category) searchParams.set('category', params.category);
+  if (params.from) searchParams.set('from', params.from);
+  if (params.to) searchParams.set('to', params.to);
+  if (params.limit) searchParams.set('limit', String(params.limit));
+  if (params.offset) searchParams.set('offset', String(params.offset));
+
+  return fetchJson<SearchResponse>(`/search?${searchParams.toString()}`);
+}
+
+export async function fetchConversation(id: string): Promise<ConversationDetailResponse> {
+  return fetchJson<ConversationDetailResponse>(`/conversations/${encodeURIComponent(id)}`);
+}
+
+export async function fetchSimilarPrompts(params: {
+  q?: string;
+  turnId?: string;
+  project?: string;
+  minEffectiveness?: number;
+  limit?: number;
+}): Promise<SimilarPromptsResponse> {
+  const searchParams = new URLSearchParams();
+  if (params.q) searchParams.set('q', params.q);
+  if (params.turnId) searchParams.set('turnId', params.turnId);
+  if (params.project) searchParams.set('project', params.project);
+  if (params.minEffectiveness !== undefined) searchParams.set('minEffectiveness', String(params.minEffectiveness));
+  if (params.limit) searchParams.set('limit', String(params.limit));
+
+  return fetchJson<SimilarPromptsResponse>(`/library/similar?${searchParams.toString()}`);
+}
+
 export async function fetchInsights(params?: {
   period?: string;
   project?: string;
   category?: string;
   focus?: string;
+  source?: AssistantSource;
 }): Promise<InsightsResponse> {
   const searchParams = new URLSearchParams();
   if (params?.period) searchParams.set('period', params.period);
   if (params?.project) searchParams.set('project', params.project);
   if (params?.category) searchParams.set('category', params.category);
   if (params?.focus) searchParams.set('focus', params.focus);
+  if (params?.source) searchParams.set('source', params.source);
 
   const query = searchParams.toString();
   return fetchJson<InsightsResponse>(`/insights${query ? `?${query}` : ''}`);
 }
 
+export async function fetchInsightsCompare(params?: {
+  period?: '7d' | '30d' | '90d';
+  project?: string;
+  category?: string;
+  source?: AssistantSource;
+}): Promise<InsightsCompareResponse> {
+  const searchParams = new URLSearchParams();
+  if (params?.period) searchParams.set('period', params.period);
+  if (params?.project) searchParams.set('project', params.project);
+  if (params?.category) searchParams.set('category', params.category);
+  if (params?.source) searchParams.set('source', params.source);
+
+  const query = searchParams.toString();
+  return fetchJson<InsightsCompareResponse>(`/insights/compare${query ? `?${query}` : ''}`);
+}
+
+export type ReportExportFormat = 'md' | 'json' | 'csv' | 'html' | 'pdf';
+
+// Download URL for GET /api/insights/export (served as an attachment)
+export function insightsExportUrl(
+  format: ReportExportFormat,
+  params?: { period?: string; project?: string; source?: AssistantSource }
+): string {
+  const searchParams = new URLSearchParams({ format });
+  if (params?.period) searchParams.set('period', params.period);
+  if (params?.project) searchParams.set('project', params.project);
+  if (params?.source) searchParams.set('source', params.source);
+
+  return `${API_BASE}/insights/export?${searchParams.toString()}`;
+}
+
+export async function fetchTeamMembers(): Promise<{ members: TeamMember[] }> {
+  return fetchJson<{ members: TeamMember[] }>('/team/members');
+}
+
+function teamQuery(params?: Record<string, string | undefined>): string {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value) searchParams.set(key, value);
+  }
+  const query = searchParams.toString();
+  return query ? `?${query}` : '';
+}
+
+export async function fetchTeamStats(params?: { period?: string; member?: string }): Promise<TeamStatsResponse> {
+  return fetchJson<TeamStatsResponse>(`/team/stats${teamQuery(params)}`);
+}
+
+export async function fetchTeamTrends(params?: {
+  period?: string;
+  metric?: TeamTrendMetric;
+  groupBy?: string;
+  member?: string;
+}): Promise<TeamTrendsResponse> {
+  return fetchJson<TeamTrendsResponse>(`/team/trends${teamQuery(params)}`);
+}
+
+export async function fetchTeamInsights(params?: { period?: string; member?: string }): Promise<TeamInsightsResponse> {
+  return fetchJson<TeamInsightsResponse>(`/team/insights${teamQuery(params)}`);
+}
+
+// Upload a bundle written by `pe export --team`
+export async function importTeamBundle(bundle: unknown): Promise<{ member: string; conversations: number; prompts: number }> {
+  return fetchJson('/team/import', {
+    method: 'POST',
+    body: JSON.stringify(bundle),
+  });
+}
+
 export async function fetchSyncStatus(): Promise<SyncStatusResponse> {
   return fetchJson<SyncStatusResponse>('/sync/status');
 }
@@ -275,6 +790,7 @@ export async function fetchSyncStatus(): Promise<SyncStatusResponse> {
 export async function triggerSync(params?: {
   mode?: 'incremental' | 'analyze' | 'full';
   project?: string;
+  source?: AssistantSource;
   hoursBack?: number;
 }): Promise<SyncTriggerResponse> {
   return fetchJson<SyncTriggerResponse>('/sync', {
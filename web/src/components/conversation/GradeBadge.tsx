@@ -0,0 +1,19 @@
+import type { Grade } from '@/api/client';
+
+interface GradeBadgeProps {
+  grade: Grade;
+  className?: string;
+}
+
+export default function GradeBadge({ grade, className = 'text-lg' }: GradeBadgeProps) {
+  const color =
+    grade === 'A'
+      ? 'text-accent-success'
+      : grade === 'B'
+      ? 'text-blue-400'
+      : grade === 'C'
+      ? 'text-accent-warning'
+      : 'text-accent-primary';
+
+  return <span className={`font-bold ${color} ${className}`}>{grade}</span>;
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  User,
+  Bot,
+  RotateCcw,
+  GitBranch,
+  Wrench,
+  AlertTriangle,
+  Brain,
+  Sparkles,
+  ChevronDown,
+  ChevronUp,
+  Library,
+} from 'lucide-react';
+import type { ConversationTurn, DetectedSignal, PromptAnalysis, SignalType } from '@/api/client';
+import GradeBadge from './GradeBadge';
+
+// Long messages start collapsed
+const COLLAPSED_LENGTH = 1200;
+
+const signalConfig: Record<SignalType, { label: string; className: string }> = {
+  positive_feedback: { label: 'Positive', className: 'bg-green-500/10 text-green-400' },
+  negative_feedback: { label: 'Negative', className: 'bg-red-500/10 text-red-400' },
+  retry_attempt: { label: 'Retry', className: 'bg-orange-500/10 text-orange-400' },
+  task_completion: { label: 'Completed', className: 'bg-green-500/10 text-green-400' },
+  question: { label: 'Question', className: 'bg-blue-500/10 text-blue-400' },
+  command: { label: 'Command', className: 'bg-gray-500/10 text-gray-300' },
+  context_providing: { label: 'Context', className: 'bg-purple-500/10 text-purple-400' },
+  prompt_edited: { label: 'Edited prompt', className: 'bg-yellow-500/10 text-yellow-400' },
+  tool_error_loop: { label: 'Tool error loop', className: 'bg-red-500/10 text-red-400' },
+};
+
+const goldenLabels: Array<{ key: keyof Omit<PromptAnalysis['golden'], 'total'>; label: string }> = [
+  { key: 'goal', label: 'G' },
+  { key: 'output', label: 'O' },
+  { key: 'limits', label: 'L' },
+  { key: 'data', label: 'D' },
+  { key: 'evaluation', label: 'E' },
+  { key: 'next', label: 'N' },
+];
+
+function SignalBadge({ signal }: { signal: DetectedSignal }) {
+  const config = signalConfig[signal.type];
+  const title = signal.keywords.length > 0 ? `Matched: ${signal.keywords.join(', ')}` : undefined;
+  return (
+    <span title={title} className={`px-2 py-0.5 rounded-full text-xs font-medium ${config.className}`}>
+      {config.label}
+    </span>
+  );
+}
+
+function PromptPanel({ prompt, turnId }: { prompt: PromptAnalysis; turnId: string }) {
+  const [showSuggestion, setShowSuggestion] = useState(false);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-dark-border space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <GradeBadge grade={prompt.grade} />
+        <span className="px-2 py-0.5 rounded-full bg-dark-hover text-gray-300">{prompt.taskCategory}</span>
+        <span className="px-2 py-0.5 rounded-full bg-dark-hover text-gray-400">{prompt.intent}</span>
+        <div className="flex items-center gap-2 ml-auto">
+          {goldenLabels.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-1" title={`${key}: ${(prompt.golden[key] * 100).toFixed(0)}%`}>
+              <span className="text-gray-500">{label}</span>
+              <div className="w-8 h-1.5 bg-dark-border rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-accent-secondary"
+                  style={{ width: `${prompt.golden[key] * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+          <span className="text-gray-400">{(prompt.golden.total * 100).toFixed(0)}%</span>
+        </div>
+      </div>
+
+      {prompt.antiPatterns.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {prompt.antiPatterns.map((p) => (
+            <li key={p.pattern} className="flex items-start gap-2 text-gray-400">
+              <AlertTriangle
+                size={14}
+                className={`mt-0.5 shrink-0 ${p.severity === 'high' ? 'text-red-400' : 'text-orange-400'}`}
+              />
+              <span>
+                {p.description} <span className="text-gray-500">— {p.fix}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Link
+        to={`/library?turn=${encodeURIComponent(turnId)}`}
+        className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-gray-200"
+      >
+        <Library size={14} /> Similar prompts
+      </Link>
+
+      {prompt.suggestion && (
+        <div>
+          <button
+            onClick={() => setShowSuggestion(!showSuggestion)}
+            className="flex items-center gap-1 text-sm text-accent-secondary hover:underline"
+          >
+            <Sparkles size={14} />
+            Suggested rewrite
+            {prompt.suggestion.improvementPercent > 0 && ` (+${prompt.suggestion.improvementPercent.toFixed(0)}%)`}
+            {showSuggestion ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+          {showSuggestion && (
+            <div className="mt-2 p-3 rounded-lg bg-dark-hover text-sm">
+              {prompt.suggestion.keyChanges.length > 0 && (
+                <p className="text-xs text-gray-500 mb-2">{prompt.suggestion.keyChanges.join(' · ')}</p>
+              )}
+              <pre className="whitespace-pre-wrap font-sans text-gray-300">{prompt.suggestion.improved}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TurnCardProps {
+  turn: ConversationTurn;
+  highlighted?: boolean;
+}
+
+export default function TurnCard({ turn, highlighted = false }: TurnCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const isUser = turn.role === 'user';
+  const isRetry = turn.signals.some((s) => s.type === 'retry_attempt');
+  const isLong = turn.content.length > COLLAPSED_LENGTH;
+  const content = isLong && !expanded ? `${turn.content.slice(0, COLLAPSED_LENGTH)}…` : turn.content;
+
+  return (
+    <div
+      id={`turn-${turn.id}`}
+      className={`card scroll-mt-24 ${isUser ? '' : 'bg-dark-surface/60'} ${
+        turn.branchType !== 'main' ? 'opacity-60' : ''
+      } ${highlighted ? 'ring-2 ring-accent-primary' : ''} ${isRetry ? 'border-l-4 border-l-orange-400' : ''}`}
+    >
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-gray-500">
+        {isUser ? (
+          <User size={16} className="text-accent-primary" />
+        ) : (
+          <Bot size={16} className="text-accent-success" />
+        )}
+        <span className="font-medium text-gray-300">{isUser ? 'User' : turn.model ?? 'Assistant'}</span>
+        <span>#{turn.index + 1}</span>
+        {turn.timestamp && <span>{new Date(turn.timestamp).toLocaleTimeString()}</span>}
+        {isRetry && (
+          <span className="flex items-center gap-1 text-orange-400">
+            <RotateCcw size={12} /> Retry
+          </span>
+        )}
+        {turn.branchType !== 'main' && (
+          <span className="flex items-center gap-1 text-yellow-400">
+            <GitBranch size={12} /> {turn.branchType === 'abandoned' ? 'Rewound' : 'Sub-agent'}
+          </span>
+        )}
+        <div className="flex flex-wrap gap-1 ml-auto">
+          {turn.signals
+            .filter((s) => s.type !== 'retry_attempt')
+            .map((signal, i) => (
+              <SignalBadge key={`${signal.type}-${i}`} signal={signal} />
+            ))}
+        </div>
+      </div>
+
+      {/* Thinking */}
+      {turn.thinking && (
+        <details className="mb-3 text-sm">
+          <summary className="flex items-center gap-1 cursor-pointer text-gray-500">
+            <Brain size={14} /> Thinking
+          </summary>
+          <pre className="mt-2 whitespace-pre-wrap font-sans text-gray-500">{turn.thinking}</pre>
+        </details>
+      )}
+
+      {/* Content */}
+      {turn.content && (
+        <pre className="whitespace-pre-wrap break-words font-sans text-sm text-gray-200">{content}</pre>
+      )}
+      {isLong && (
+        <button onClick={() => setExpanded(!expanded)} className="mt-2 text-xs text-accent-secondary hover:underline">
+          {expanded ? 'Show less' : 'Show more'}
+        </button>
+      )}
+
+      {/* Tool calls */}
+      {turn.toolUsages.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {turn.toolUsages.map((tool, i) => (
+            <div
+              key={i}
+              className={`flex items-start gap-2 text-xs px-2 py-1 rounded ${
+                tool.isError ? 'bg-red-500/10 text-red-300' : 'bg-dark-hover text-gray-400'
+              }`}
+              title={tool.result ?? undefined}
+            >
+              <Wrench size={12} className="mt-0.5 shrink-0" />
+              <span className="font-medium">{tool.name}</span>
+              {tool.target && <span className="truncate">{tool.target}</span>}
+              {tool.isError && <span className="ml-auto shrink-0">error</span>}
+              {!tool.isError && tool.durationMs !== null && (
+                <span className="ml-auto shrink-0">{(tool.durationMs / 1000).toFixed(1)}s</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {turn.prompt && <PromptPanel prompt={turn.prompt} turnId={turn.id} />}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { DollarSign, AlertTriangle } from 'lucide-react';
+import { useCost } from '@/hooks/useCost';
+
+type GroupBy = 'model' | 'project' | 'day';
+
+function formatUsd(value: number): string {
+  if (value > 0 && value < 0.01) return `$${value.toFixed(4)}`;
+  return `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return value.toLocaleString();
+}
+
+export default function CostPanel() {
+  const [groupBy, setGroupBy] = useState<GroupBy>('model');
+  const { data: cost, isLoading, error } = useCost({ period: '30d', groupBy });
+
+  const totals = cost?.totals;
+  const rows = cost?.breakdown.slice(0, 6) ?? [];
+  const maxCost = Math.max(...rows.map((r) => r.cost_usd), 0);
+
+  return (
+    <div className="card">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <DollarSign className="text-accent-warning" size={18} />
+            <h2 className="text-xl font-semibold text-app-text-primary tracking-tight">Token Cost</h2>
+          </div>
+          <p className="text-sm text-app-text-tertiary">Estimated spend for the last 30 days, cache-aware</p>
+        </div>
+        <div className="flex gap-2">
+          {(['model', 'project', 'day'] as GroupBy[]).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGroupBy(g)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                groupBy === g
+                  ? 'bg-accent-warning text-dark-bg'
+                  : 'bg-dark-surface border border-dark-border text-gray-400 hover:text-gray-100'
+              }`}
+            >
+              By {g.charAt(0).toUpperCase() + g.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 bg-dark-hover rounded-xl animate-pulse"></div>
+      ) : error ? (
+        <p className="text-red-400">Error loading cost: {error.message}</p>
+      ) : totals && totals.turns > 0 ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs text-app-text-tertiary uppercase tracking-wider">Total</p>
+              <p className="text-2xl font-bold tracking-tight text-app-text-primary">{formatUsd(totals.cost_usd)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-app-text-tertiary uppercase tracking-wider">Per Conversation</p>
+              <p className="text-2xl font-bold tracking-tight text-app-text-primary">
+                {formatUsd(totals.conversations > 0 ? totals.cost_usd / totals.conversations : 0)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-app-text-tertiary uppercase tracking-wider">Input / Output</p>
+              <p className="text-lg font-semibold text-app-text-primary">
+                {formatTokens(totals.input_tokens)} / {formatTokens(totals.output_tokens)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-app-text-tertiary uppercase tracking-wider">Cache Write / Read</p>
+              <p className="text-lg font-semibold text-app-text-primary">
+                {formatTokens(totals.cache_creation_tokens)} / {formatTokens(totals.cache_read_tokens)}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {rows.map((row) => (
+              <div key={row.key}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-app-text-secondary truncate">{row.key}</span>
+                  <span className="text-app-text-primary font-medium">{formatUsd(row.cost_usd)}</span>
+                </div>
+                <div className="h-1.5 bg-dark-hover rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-accent-warning rounded-full"
+                    style={{ width: `${maxCost > 0 ? (row.cost_usd / maxCost) * 100 : 0}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {totals.unpriced_turns > 0 && (
+            <p className="flex items-center gap-2 text-xs text-gray-400">
+              <AlertTriangle size={14} className="text-accent-warning" />
+              {totals.unpriced_turns.toLocaleString()} turns use models without pricing and are excluded.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="h-40 flex items-center justify-center">
+          <p className="text-app-text-tertiary">No token usage recorded yet</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { Brain, ArrowUp, ArrowDown } from 'lucide-react';
+import { usePersonalModel } from '@/hooks/usePersonalModel';
+import type { EffectivenessWeights } from '@/api/client';
+
+const COMPONENTS: Array<{ key: keyof EffectivenessWeights; label: string }> = [
+  { key: 'sentiment', label: 'Sentiment' },
+  { key: 'completion', label: 'Completion' },
+  { key: 'efficiency', label: 'Efficiency' },
+  { key: 'engagement', label: 'Engagement' },
+];
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function PersonalModelPanel() {
+  const { data: model, isLoading, error } = usePersonalModel();
+
+  const importances = model?.importances.slice(0, 6) ?? [];
+  const maxImportance = Math.max(...importances.map((i) => i.importance), 0);
+
+  return (
+    <div className="card">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Brain className="text-accent-secondary" size={18} />
+            <h2 className="text-xl font-semibold text-app-text-primary tracking-tight">Personal Model</h2>
+          </div>
+          <p className="text-sm text-app-text-tertiary">
+            {model?.personalized
+              ? `Learned from ${model.samples.toLocaleString()} prompts with observed outcomes`
+              : 'Default weights — run `prompt-evolution train` to learn from your history'}
+          </p>
+        </div>
+        {model?.personalized && model.metrics && (
+          <div className="text-right">
+            <p className="text-xs text-app-text-tertiary uppercase tracking-wider">Holdout Accuracy</p>
+            <p className="text-lg font-semibold text-app-text-primary">
+              {model.metrics.holdoutAccuracy === null ? '—' : formatPercent(model.metrics.holdoutAccuracy)}
+              <span className="text-xs text-app-text-tertiary font-normal ml-2">
+                baseline {formatPercent(model.metrics.baselineAccuracy)}
+              </span>
+            </p>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 bg-dark-hover rounded-xl animate-pulse"></div>
+      ) : error ? (
+        <p className="text-red-400">Error loading model: {error.message}</p>
+      ) : model ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div>
+            <h3 className="text-xs font-bold text-app-text-secondary mb-3 uppercase tracking-widest">
+              Effectiveness Weights
+            </h3>
+            <div className="space-y-3">
+              {COMPONENTS.map(({ key, label }) => (
+                <div key={key}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-app-text-secondary">{label}</span>
+                    <span className="text-app-text-primary font-medium">
+                      {formatPercent(model.effectivenessWeights[key])}
+                      {model.personalized && (
+                        <span className="text-xs text-app-text-tertiary font-normal ml-2">
+                          default {formatPercent(model.defaultWeights[key])}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-dark-hover rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-accent-secondary rounded-full"
+                      style={{ width: `${model.effectivenessWeights[key] * 100}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-app-text-secondary mb-3 uppercase tracking-widest">
+              What Works For You
+            </h3>
+            {importances.length > 0 ? (
+              <div className="space-y-3">
+                {importances.map((item) => (
+                  <div key={item.feature}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="flex items-center gap-1 text-app-text-secondary truncate">
+                        {item.coefficient >= 0 ? (
+                          <ArrowUp size={14} className="text-accent-success" />
+                        ) : (
+                          <ArrowDown size={14} className="text-red-400" />
+                        )}
+                        {item.feature}
+                      </span>
+                      <span className="text-app-text-primary font-medium">{formatPercent(item.importance)}</span>
+                    </div>
+                    <div className="h-1.5 bg-dark-hover rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${item.coefficient >= 0 ? 'bg-accent-success' : 'bg-red-400'}`}
+                        style={{ width: `${maxImportance > 0 ? (item.importance / maxImportance) * 100 : 0}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-app-text-tertiary italic">
+                Feature importances appear after the first training run
+              </p>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
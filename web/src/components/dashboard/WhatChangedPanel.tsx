@@ -0,0 +1,133 @@
+import { GitCompareArrows, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import { useInsightsCompare } from '@/hooks/useInsightsCompare';
+import type { AssistantSource, ComparisonWindow, MetricChange } from '@/api/client';
+
+const METRIC_LABELS: Record<string, string> = {
+  effectiveness: 'Effectiveness',
+  quality: 'Prompt Quality',
+  friction: 'Friction Score',
+  retryRate: 'Retry / Negative Rate',
+  'golden.goal': 'Goal',
+  'golden.output': 'Output',
+  'golden.limits': 'Limits',
+  'golden.data': 'Data',
+  'golden.evaluation': 'Evaluation',
+  'golden.next': 'Next',
+  'golden.total': 'GOLDEN Total',
+};
+
+const ASSESSMENT_STYLES: Record<MetricChange['assessment'], string> = {
+  improved: 'text-accent-success',
+  regressed: 'text-red-400',
+  neutral: 'text-app-text-tertiary',
+};
+
+// Friction is a raw score; everything else is a 0-1 value shown as a percentage
+function formatValue(change: MetricChange, value: number): string {
+  return change.key === 'friction' ? value.toFixed(2) : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(change: MetricChange): string {
+  const sign = change.delta > 0 ? '+' : change.delta < 0 ? '−' : '±';
+  const magnitude = Math.abs(change.delta);
+  return change.key === 'friction' ? `${sign}${magnitude.toFixed(2)}` : `${sign}${(magnitude * 100).toFixed(1)}pp`;
+}
+
+// Windows are [start, end)
+function formatWindow(window: ComparisonWindow): string {
+  const format = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${format(new Date(window.start))} – ${format(new Date(new Date(window.end).getTime() - 1))}`;
+}
+
+function DirectionIcon({ change }: { change: MetricChange }) {
+  const className = change.significant ? ASSESSMENT_STYLES[change.assessment] : 'text-app-text-tertiary';
+  if (change.direction === 'up') return <ArrowUp size={14} className={className} />;
+  if (change.direction === 'down') return <ArrowDown size={14} className={className} />;
+  return <Minus size={14} className="text-app-text-tertiary" />;
+}
+
+function ChangeRow({ change }: { change: MetricChange }) {
+  return (
+    <div className="flex items-center justify-between gap-4 py-2 border-b border-dark-border last:border-b-0">
+      <span className="flex items-center gap-2 text-sm text-app-text-secondary truncate">
+        <DirectionIcon change={change} />
+        {METRIC_LABELS[change.key] ?? change.label}
+      </span>
+      <span className="flex items-center gap-3 text-sm shrink-0">
+        <span className="text-app-text-tertiary">
+          {formatValue(change, change.previous)} → {formatValue(change, change.current)}
+        </span>
+        <span
+          className={`font-semibold w-20 text-right ${change.significant ? ASSESSMENT_STYLES[change.assessment] : 'text-app-text-tertiary'}`}
+          title={change.pValue === null ? 'Not tested (too few prompts)' : `p = ${change.pValue.toFixed(3)}`}
+        >
+          {formatDelta(change)}
+          {change.significant && '*'}
+        </span>
+      </span>
+    </div>
+  );
+}
+
+export default function WhatChangedPanel({
+  period = '7d',
+  source,
+}: {
+  period?: '7d' | '30d' | '90d';
+  source?: AssistantSource;
+}) {
+  const { data, isLoading, error } = useInsightsCompare({ period, source });
+
+  const summary = data?.changes.filter((c) => c.group === 'summary' || c.group === 'golden') ?? [];
+  // Anti-pattern and category-mix shifts are only listed when significant
+  const shifts = data?.changes.filter((c) => (c.group === 'antiPattern' || c.group === 'category') && c.significant) ?? [];
+  const untested = data ? data.changes.every((c) => c.pValue === null) : false;
+
+  return (
+    <div className="card">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <GitCompareArrows className="text-accent-primary" size={18} />
+            <h2 className="text-xl font-semibold text-app-text-primary tracking-tight">What Changed</h2>
+          </div>
+          <p className="text-sm text-app-text-tertiary">
+            {data
+              ? `${formatWindow(data.current.window)} (${data.current.report.summary.totalPrompts} prompts) vs ${formatWindow(data.previous.window)} (${data.previous.report.summary.totalPrompts} prompts)`
+              : 'This period compared with the one before it'}
+          </p>
+        </div>
+        <p className="text-xs text-app-text-tertiary md:text-right">
+          {untested ? 'Too few prompts to test significance' : '* statistically significant (p < 0.05)'}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 bg-dark-hover rounded-xl animate-pulse"></div>
+      ) : error ? (
+        <p className="text-red-400">Error loading comparison: {error.message}</p>
+      ) : data ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div>
+            <h3 className="text-xs font-bold text-app-text-secondary mb-3 uppercase tracking-widest">
+              Metrics
+            </h3>
+            {summary.map((change) => (
+              <ChangeRow key={change.key} change={change} />
+            ))}
+          </div>
+          <div>
+            <h3 className="text-xs font-bold text-app-text-secondary mb-3 uppercase tracking-widest">
+              Anti-patterns &amp; Task Mix
+            </h3>
+            {shifts.length > 0 ? (
+              shifts.map((change) => <ChangeRow key={change.key} change={change} />)
+            ) : (
+              <p className="text-sm text-app-text-tertiary italic">No significant shifts between the periods</p>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
-import { RefreshCw, Clock } from 'lucide-react';
+import { RefreshCw, Clock, Radio } from 'lucide-react';
 import { useSyncStatus, useTriggerSync } from '@/hooks/useSync';
+import { useServerEvents } from '@/hooks/useServerEvents';
 
 export default function Header() {
   const { data: syncStatus, isLoading } = useSyncStatus();
   const { mutate: triggerSync, isPending: isSyncing } = useTriggerSync();
+  const { isConnected } = useServerEvents();
+  const isLive = isConnected && syncStatus?.watcher?.isWatching;
 
   const formatTime = (isoString: string | null) => {
     if (!isoString) return 'Never';
@@ -27,6 +30,17 @@ export default function Header() {
     <header className="bg-app-surface/80 backdrop-blur-xl border-b border-app-border sticky top-0 z-10">
       <div className="px-8 py-4">
         <div className="flex items-center justify-end gap-3">
+          {/* Watch mode indicator */}
+          {isLive && (
+            <div
+              className="flex items-center gap-2 px-3 py-2 rounded-xl bg-app-elevated border border-app-border"
+              title={`Watching ${syncStatus?.watcher.path}`}
+            >
+              <Radio size={14} className="text-accent-primary animate-pulse" />
+              <span className="text-xs font-medium text-app-text-secondary">Live</span>
+            </div>
+          )}
+
           {/* Last sync indicator */}
           <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-app-elevated border border-app-border">
             <Clock size={14} className="text-app-text-tertiary" />
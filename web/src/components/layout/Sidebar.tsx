@@ -6,6 +6,8 @@ import {
   FolderOpen,
   BookOpen,
   GraduationCap,
+  Search,
+  Users,
 } from 'lucide-react';
 
 const navItems = [
@@ -13,8 +15,10 @@ const navItems = [
   { to: '/insights', label: 'Insights', icon: Lightbulb },
   { to: '/trends', label: 'Trends', icon: TrendingUp },
   { to: '/projects', label: 'Projects', icon: FolderOpen },
+  { to: '/search', label: 'Search', icon: Search },
   { to: '/library', label: 'Library', icon: BookOpen },
   { to: '/guidebook', label: 'Guidebook', icon: GraduationCap },
+  { to: '/team', label: 'Team', icon: Users },
 ];
 
 export default function Sidebar() {
@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchConversation, type ConversationDetailResponse } from '@/api/client';
+
+export function useConversation(id: string | undefined) {
+  return useQuery<ConversationDetailResponse>({
+    queryKey: ['conversation', id],
+    queryFn: () => fetchConversation(id!),
+    enabled: Boolean(id),
+  });
+}
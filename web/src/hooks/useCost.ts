@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchCost, type AssistantSource, type CostResponse } from '@/api/client';
+
+interface UseCostParams {
+  period?: '7d' | '30d' | '90d' | 'all';
+  groupBy?: 'model' | 'project' | 'day';
+  project?: string;
+  source?: AssistantSource;
+}
+
+export function useCost(params: UseCostParams = {}) {
+  return useQuery<CostResponse>({
+    queryKey: ['cost', params],
+    queryFn: () => fetchCost(params),
+  });
+}
@@ -1,11 +1,12 @@
 import { useQuery } from '@tanstack/react-query';
-import { fetchInsights, type InsightsResponse } from '@/api/client';
+import { fetchInsights, type InsightsResponse, type AssistantSource } from '@/api/client';
 
 interface UseInsightsParams {
   period?: string;
   project?: string;
   category?: string;
   focus?: 'problems' | 'improvements' | 'strengths';
+  source?: AssistantSource;
 }
 
 export function useInsights(params: UseInsightsParams = {}) {
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchInsightsCompare, type InsightsCompareResponse, type AssistantSource } from '@/api/client';
+
+interface UseInsightsCompareParams {
+  period?: '7d' | '30d' | '90d';
+  project?: string;
+  category?: string;
+  source?: AssistantSource;
+}
+
+export function useInsightsCompare(params: UseInsightsCompareParams = {}) {
+  return useQuery<InsightsCompareResponse>({
+    queryKey: ['insights-compare', params],
+    queryFn: () => fetchInsightsCompare(params),
+  });
+}
@@ -0,0 +1,9 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchPersonalModel, type PersonalModelResponse } from '@/api/client';
+
+export function usePersonalModel(params: { project?: string } = {}) {
+  return useQuery<PersonalModelResponse>({
+    queryKey: ['personal-model', params],
+    queryFn: () => fetchPersonalModel(params),
+  });
+}
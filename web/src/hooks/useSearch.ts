@@ -0,0 +1,22 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { fetchSearch, type SearchResponse, type TaskCategory } from '@/api/client';
+
+interface UseSearchParams {
+  q: string;
+  role?: 'user' | 'assistant';
+  project?: string;
+  category?: TaskCategory;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export function useSearch(params: UseSearchParams) {
+  return useQuery<SearchResponse>({
+    queryKey: ['search', params],
+    queryFn: () => fetchSearch(params),
+    enabled: params.q.trim().length > 0,
+    placeholderData: keepPreviousData,
+  });
+}
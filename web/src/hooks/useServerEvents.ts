@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { subscribeServerEvents } from '@/api/client';
+import { invalidateDashboardQueries } from './useSync';
+
+// Coalesce bursts of session updates into one refetch
+const REFRESH_DELAY_MS = 500;
+
+export function useServerEvents() {
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = subscribeServerEvents(
+      () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => invalidateDashboardQueries(queryClient), REFRESH_DELAY_MS);
+      },
+      setIsConnected
+    );
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [queryClient]);
+
+  return { isConnected };
+}
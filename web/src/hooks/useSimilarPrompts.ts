@@ -0,0 +1,19 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { fetchSimilarPrompts, type SimilarPromptsResponse } from '@/api/client';
+
+interface UseSimilarPromptsParams {
+  q?: string;
+  turnId?: string;
+  project?: string;
+  minEffectiveness?: number;
+  limit?: number;
+}
+
+export function useSimilarPrompts(params: UseSimilarPromptsParams) {
+  return useQuery<SimilarPromptsResponse>({
+    queryKey: ['similar-prompts', params],
+    queryFn: () => fetchSimilarPrompts(params),
+    enabled: Boolean(params.q?.trim() || params.turnId),
+    placeholderData: keepPreviousData,
+  });
+}
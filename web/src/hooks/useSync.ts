@@ -1,6 +1,20 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import { fetchSyncStatus, triggerSync, type SyncStatusResponse, type SyncTriggerResponse } from '@/api/client';
 
+// Refresh everything derived from imported conversations
+export function invalidateDashboardQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['stats'] });
+  queryClient.invalidateQueries({ queryKey: ['projects'] });
+  queryClient.invalidateQueries({ queryKey: ['trends'] });
+  queryClient.invalidateQueries({ queryKey: ['insights'] });
+  queryClient.invalidateQueries({ queryKey: ['insights-compare'] });
+  queryClient.invalidateQueries({ queryKey: ['cost'] });
+  queryClient.invalidateQueries({ queryKey: ['conversation'] });
+  queryClient.invalidateQueries({ queryKey: ['search'] });
+  queryClient.invalidateQueries({ queryKey: ['similar-prompts'] });
+  queryClient.invalidateQueries({ queryKey: ['syncStatus'] });
+}
+
 export function useSyncStatus() {
   return useQuery<SyncStatusResponse>({
     queryKey: ['syncStatus'],
@@ -16,11 +30,7 @@ export function useTriggerSync() {
     mutationFn: triggerSync,
     onSuccess: () => {
       // Invalidate all queries after sync
-      queryClient.invalidateQueries({ queryKey: ['stats'] });
-      queryClient.invalidateQueries({ queryKey: ['projects'] });
-      queryClient.invalidateQueries({ queryKey: ['trends'] });
-      queryClient.invalidateQueries({ queryKey: ['insights'] });
-      queryClient.invalidateQueries({ queryKey: ['syncStatus'] });
+      invalidateDashboardQueries(queryClient);
     },
   });
 }
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchTeamMembers,
+  fetchTeamStats,
+  fetchTeamTrends,
+  fetchTeamInsights,
+  importTeamBundle,
+  type TeamMember,
+  type TeamStatsResponse,
+  type TeamTrendsResponse,
+  type TeamInsightsResponse,
+  type TeamTrendMetric,
+} from '@/api/client';
+
+interface UseTeamParams {
+  period?: string;
+  member?: string; // opted-in member drilldown; undefined = whole team
+}
+
+export function useTeamMembers() {
+  return useQuery<{ members: TeamMember[] }>({
+    queryKey: ['team-members'],
+    queryFn: fetchTeamMembers,
+  });
+}
+
+export function useTeamStats(params: UseTeamParams = {}) {
+  return useQuery<TeamStatsResponse>({
+    queryKey: ['team-stats', params],
+    queryFn: () => fetchTeamStats(params),
+  });
+}
+
+export function useTeamTrends(params: UseTeamParams & { metric?: TeamTrendMetric; groupBy?: 'day' | 'week' | 'month' } = {}) {
+  return useQuery<TeamTrendsResponse>({
+    queryKey: ['team-trends', params],
+    queryFn: () => fetchTeamTrends(params),
+  });
+}
+
+export function useTeamInsights(params: UseTeamParams = {}) {
+  return useQuery<TeamInsightsResponse>({
+    queryKey: ['team-insights', params],
+    queryFn: () => fetchTeamInsights(params),
+  });
+}
+
+export function useImportTeamBundle() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Awaited<ReturnType<typeof importTeamBundle>>, Error, unknown>({
+    mutationFn: importTeamBundle,
+    onSuccess: () => {
+      for (const key of ['team-members', 'team-stats', 'team-trends', 'team-insights']) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+    },
+  });
+}
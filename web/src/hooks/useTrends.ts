@@ -3,7 +3,7 @@ import { fetchTrends, type TrendsResponse } from '@/api/client';
 
 interface UseTrendsParams {
   period?: string;
-  metric?: 'effectiveness' | 'quality' | 'volume';
+  metric?: 'effectiveness' | 'quality' | 'volume' | 'cost';
   groupBy?: 'day' | 'week' | 'month';
 }
 
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { ArrowLeft, MessageSquare, RotateCcw, GitBranch, DollarSign, Lightbulb } from 'lucide-react';
+import { useConversation } from '@/hooks/useConversation';
+import { ASSISTANT_SOURCE_LABELS } from '@/api/client';
+import TurnCard from '@/components/conversation/TurnCard';
+import GradeBadge from '@/components/conversation/GradeBadge';
+
+const scoreLabels = [
+  { key: 'sentimentScore', label: 'Sentiment' },
+  { key: 'completionScore', label: 'Completion' },
+  { key: 'efficiencyScore', label: 'Efficiency' },
+  { key: 'engagementScore', label: 'Engagement' },
+] as const;
+
+export default function ConversationPage() {
+  const { id } = useParams<{ id: string }>();
+  const { hash } = useLocation();
+  const { data, isLoading, error } = useConversation(id);
+  const [mainPathOnly, setMainPathOnly] = useState(false);
+
+  // Deep links (#turn-<id>) from search results
+  const targetTurnId = hash.startsWith('#turn-') ? hash.slice('#turn-'.length) : null;
+  useEffect(() => {
+    if (!data || !targetTurnId) return;
+    document.getElementById(`turn-${targetTurnId}`)?.scrollIntoView({ block: 'center' });
+  }, [data, targetTurnId]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="card animate-pulse">
+            <div className="h-4 w-40 bg-dark-border rounded mb-3"></div>
+            <div className="h-4 w-full bg-dark-border rounded"></div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="card">
+        <p className="text-red-400">Error loading conversation: {error?.message ?? 'Not found'}</p>
+      </div>
+    );
+  }
+
+  const { conversation, effectiveness, signalSummary, branches } = data;
+  const turns = mainPathOnly ? data.turns.filter((t) => t.branchType === 'main') : data.turns;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <Link to="/search" className="flex items-center gap-1 text-sm text-gray-400 hover:text-gray-200 mb-2">
+            <ArrowLeft size={16} /> Back to search
+          </Link>
+          <h2 className="text-2xl font-bold truncate">{data.summaries[0] ?? conversation.project}</h2>
+          <p className="text-gray-400 mt-1 text-sm">
+            {conversation.project} · {ASSISTANT_SOURCE_LABELS[conversation.source]}
+            {conversation.startedAt && ` · ${new Date(conversation.startedAt).toLocaleString()}`}
+            {conversation.model && ` · ${conversation.model}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <GradeBadge grade={effectiveness.grade} className="text-4xl" />
+          <div className="text-sm text-gray-400">
+            <div>Effectiveness</div>
+            <div>{(effectiveness.score.overall * 100).toFixed(0)}%</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Scores */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="card lg:col-span-2">
+          <p className="text-sm text-gray-400 mb-3">{effectiveness.gradeDescription}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {scoreLabels.map(({ key, label }) => (
+              <div key={key}>
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>{label}</span>
+                  <span>{(effectiveness.score[key] * 100).toFixed(0)}%</span>
+                </div>
+                <div className="h-2 bg-dark-border rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-accent-primary"
+                    style={{ width: `${effectiveness.score[key] * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          {(effectiveness.insights.length > 0 || effectiveness.recommendations.length > 0) && (
+            <ul className="mt-4 space-y-1 text-sm text-gray-400">
+              {effectiveness.insights.map((insight) => (
+                <li key={insight}>• {insight}</li>
+              ))}
+              {effectiveness.recommendations.map((rec) => (
+                <li key={rec} className="flex items-start gap-2 text-accent-secondary">
+                  <Lightbulb size={14} className="mt-0.5 shrink-0" /> {rec}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="card space-y-3 text-sm">
+          <div className="flex items-center gap-2 text-gray-400">
+            <MessageSquare size={16} />
+            <span>{conversation.turnCount} turns</span>
+          </div>
+          <div className="flex items-center gap-2 text-gray-400">
+            <RotateCcw size={16} />
+            <span>
+              {signalSummary.retryCount} retries · {signalSummary.positiveCount} positive ·{' '}
+              {signalSummary.negativeCount} negative
+            </span>
+          </div>
+          {branches && (branches.abandonedTurns > 0 || branches.sidechainTurns > 0) && (
+            <div className="flex items-center gap-2 text-gray-400">
+              <GitBranch size={16} />
+              <span>
+                {branches.editedPrompts} edited prompts · {branches.abandonedTurns} rewound ·{' '}
+                {branches.sidechainTurns} sub-agent turns
+              </span>
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-gray-400">
+            <DollarSign size={16} />
+            <span>${conversation.totalCostUsd.toFixed(2)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Transcript */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Transcript</h3>
+        {branches && branches.mainTurns < data.turns.length && (
+          <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={mainPathOnly}
+              onChange={(e) => setMainPathOnly(e.target.checked)}
+            />
+            Main path only
+          </label>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {turns.map((turn) => (
+          <TurnCard key={turn.id} turn={turn} highlighted={turn.id === targetTurnId} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import StatsCard from '@/components/dashboard/StatsCard';
 import VolumeTrendChart from '@/components/charts/VolumeTrendChart';
 import GoldenRadar from '@/components/charts/GoldenRadar';
 import EvolutionCard from '@/components/dashboard/EvolutionCard';
+import CostPanel from '@/components/dashboard/CostPanel';
+import PersonalModelPanel from '@/components/dashboard/PersonalModelPanel';
 
 export default function DashboardPage() {
   const { data: stats, isLoading: statsLoading, error: statsError } = useStats();
@@ -148,6 +150,12 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* Token Cost */}
+      <CostPanel />
+
+      {/* Personal Effectiveness Model */}
+      <PersonalModelPanel />
+
       {/* Bottom: Evolution Timeline */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -1,8 +1,25 @@
-import { AlertTriangle, CheckCircle, Lightbulb } from 'lucide-react';
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, Download, Lightbulb } from 'lucide-react';
 import { useInsights } from '@/hooks/useInsights';
+import WhatChangedPanel from '@/components/dashboard/WhatChangedPanel';
+import {
+  ASSISTANT_SOURCE_LABELS,
+  insightsExportUrl,
+  type AssistantSource,
+  type ReportExportFormat,
+} from '@/api/client';
+
+const EXPORT_FORMATS: Array<{ format: ReportExportFormat; label: string }> = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+];
 
 export default function InsightsPage() {
-  const { data: insights, isLoading, error } = useInsights({ period: '7d' });
+  const [source, setSource] = useState<AssistantSource | undefined>(undefined);
+  const { data: insights, isLoading, error } = useInsights({ period: '7d', source });
 
   if (isLoading) {
     return (
@@ -22,9 +39,43 @@ export default function InsightsPage() {
 
   return (
     <div className="space-y-6 pb-12">
-      <div className="flex items-center gap-3 mb-2">
-        <Lightbulb className="text-accent-primary" size={28} />
-        <h2 className="text-3xl font-bold tracking-tight text-app-text-primary">Intelligence Insights</h2>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+        <div className="flex items-center gap-3">
+          <Lightbulb className="text-accent-primary" size={28} />
+          <h2 className="text-3xl font-bold tracking-tight text-app-text-primary">Intelligence Insights</h2>
+        </div>
+
+        {/* Report export */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Download className="text-gray-500" size={16} />
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={insightsExportUrl(format, { period: '7d', source })}
+              download
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-dark-surface border border-dark-border text-gray-400 hover:text-gray-100 transition-colors"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {/* Assistant filter */}
+      <div className="flex flex-wrap gap-2">
+        {([undefined, ...Object.keys(ASSISTANT_SOURCE_LABELS)] as Array<AssistantSource | undefined>).map((s) => (
+          <button
+            key={s ?? 'all'}
+            onClick={() => setSource(s)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              source === s
+                ? 'bg-accent-primary text-white'
+                : 'bg-dark-surface border border-dark-border text-gray-400 hover:text-gray-100'
+            }`}
+          >
+            {s ? ASSISTANT_SOURCE_LABELS[s] : 'All Assistants'}
+          </button>
+        ))}
       </div>
 
       {/* Summary Stats */}
@@ -54,6 +105,8 @@ export default function InsightsPage() {
         </div>
       </div>
 
+      <WhatChangedPanel period="7d" source={source} />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Problems */}
         <div className="space-y-4">
@@ -1,8 +1,70 @@
-import { BookOpen } from 'lucide-react';
+import { useState, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { BookOpen, Search, Sparkles } from 'lucide-react';
 import { useInsights } from '@/hooks/useInsights';
+import { useSimilarPrompts } from '@/hooks/useSimilarPrompts';
+import type { SimilarPrompt } from '@/api/client';
+
+// "Worked well" = conversation effectiveness at or above this
+const WORKED_WELL_THRESHOLD = 0.7;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+function SimilarPromptRow({ prompt }: { prompt: SimilarPrompt }) {
+  return (
+    <Link
+      to={`/conversations/${encodeURIComponent(prompt.conversationId)}#turn-${prompt.turnId}`}
+      className="block p-3 rounded-lg bg-dark-hover hover:bg-dark-border transition-colors"
+    >
+      <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+        <span className="font-medium text-gray-300">{prompt.project}</span>
+        {prompt.timestamp && <span>· {new Date(prompt.timestamp).toLocaleDateString()}</span>}
+        <span className="ml-auto text-accent-secondary">{(prompt.similarity * 100).toFixed(0)}% similar</span>
+        {prompt.effectiveness !== null && (
+          <span className="text-accent-success">{(prompt.effectiveness * 100).toFixed(0)}% effective</span>
+        )}
+      </div>
+      <p className="text-sm text-gray-300 whitespace-pre-wrap break-words">{truncate(prompt.content, 300)}</p>
+    </Link>
+  );
+}
 
 export default function LibraryPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get('q') ?? undefined;
+  const turnId = q ? undefined : searchParams.get('turn') ?? undefined;
+  const workedWell = searchParams.get('worked') === '1';
+
+  const [input, setInput] = useState(q ?? '');
   const { data: insights, isLoading, error } = useInsights({ period: 'all' });
+  const similar = useSimilarPrompts({
+    q,
+    turnId,
+    minEffectiveness: workedWell ? WORKED_WELL_THRESHOLD : undefined,
+  });
+
+  const findSimilar = (text: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('turn');
+    if (text.trim()) next.set('q', text.trim());
+    else next.delete('q');
+    setInput(text.trim());
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    findSimilar(input);
+  };
+
+  const toggleWorkedWell = (checked: boolean) => {
+    const next = new URLSearchParams(searchParams);
+    if (checked) next.set('worked', '1');
+    else next.delete('worked');
+    setSearchParams(next);
+  };
 
   if (isLoading) {
     return (
@@ -20,47 +82,86 @@ export default function LibraryPage() {
     );
   }
 
-  const library = insights?.promptLibrary as {
-    patterns?: Array<{
-      pattern: string;
-      category: string;
-      effectiveness: number;
-      count: number;
-      keywords: string[];
-    }>;
-  } | null;
+  const entries = insights?.promptLibrary?.entries ?? [];
 
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold">Prompt Library</h2>
       <p className="text-gray-400">
-        Effective prompt patterns extracted from your conversations
+        Effective prompt patterns extracted from your conversations, grouped by meaning
       </p>
 
-      {library?.patterns && library.patterns.length > 0 ? (
+      {/* Similar prompts */}
+      <div className="card space-y-4">
+        <form onSubmit={handleSubmit} className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+          <input
+            type="search"
+            placeholder="Describe a task to find similar prompts you have written"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 bg-dark-surface border border-dark-border rounded-lg
+                       text-gray-100 placeholder-gray-500 focus:outline-none focus:border-accent-primary"
+          />
+        </form>
+        <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={workedWell} onChange={(e) => toggleWorkedWell(e.target.checked)} />
+          Only prompts that worked well ({WORKED_WELL_THRESHOLD * 100}%+ effective)
+        </label>
+
+        {similar.error ? (
+          <p className="text-sm text-red-400">Error finding similar prompts: {similar.error.message}</p>
+        ) : similar.data && (q || turnId) ? (
+          similar.data.prompts.length > 0 ? (
+            <div className="space-y-2">
+              {turnId && (
+                <p className="text-xs text-gray-500">Prompts similar to “{truncate(similar.data.query, 120)}”</p>
+              )}
+              {similar.data.prompts.map((prompt) => (
+                <SimilarPromptRow key={prompt.turnId} prompt={prompt} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No similar prompts found</p>
+          )
+        ) : similar.isFetching ? (
+          <p className="text-sm text-gray-500">Searching…</p>
+        ) : null}
+      </div>
+
+      {/* Patterns */}
+      {entries.length > 0 ? (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          {library.patterns.map((item, i) => (
-            <div key={i} className="card-hover">
+          {entries.map((entry) => (
+            <div key={entry.id} className="card-hover">
               <div className="flex items-start justify-between mb-3">
                 <span className="px-2 py-1 bg-accent-secondary/10 text-accent-secondary text-xs rounded">
-                  {item.category}
+                  {entry.category}
                 </span>
                 <span className="text-accent-success font-medium">
-                  {(item.effectiveness * 100).toFixed(0)}% effective
+                  {(entry.effectiveness * 100).toFixed(0)}% effective
                 </span>
               </div>
-              <p className="font-mono text-sm text-gray-300 mb-3">{item.pattern}</p>
+              <p className="font-mono text-sm text-gray-300 mb-3">{entry.pattern}</p>
               <div className="flex flex-wrap gap-2">
-                {item.keywords.map((keyword, j) => (
-                  <span
-                    key={j}
-                    className="px-2 py-1 bg-dark-border text-gray-400 text-xs rounded"
-                  >
+                {entry.keywords.map((keyword) => (
+                  <span key={keyword} className="px-2 py-1 bg-dark-border text-gray-400 text-xs rounded">
                     {keyword}
                   </span>
                 ))}
               </div>
-              <p className="text-xs text-gray-500 mt-2">Used {item.count} times</p>
+              {entry.examples[0] && (
+                <div className="mt-3 p-2 rounded bg-dark-hover text-xs text-gray-400">
+                  <p className="whitespace-pre-wrap break-words">{truncate(entry.examples[0].content, 200)}</p>
+                  <button
+                    onClick={() => findSimilar(entry.examples[0].content)}
+                    className="mt-2 flex items-center gap-1 text-accent-secondary hover:underline"
+                  >
+                    <Sparkles size={12} /> Find similar
+                  </button>
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-2">Used {entry.frequency} times</p>
             </div>
           ))}
         </div>
@@ -0,0 +1,273 @@
+import { useState, useMemo, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search, MessageSquare, User, Bot, FileText, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useSearch } from '@/hooks/useSearch';
+import { useProjects } from '@/hooks/useProjects';
+import type { SearchHit, TaskCategory } from '@/api/client';
+
+const PAGE_SIZE = 20;
+
+const categoryLabels: Record<TaskCategory, string> = {
+  'code-generation': 'Code Generation',
+  'code-review': 'Code Review',
+  'bug-fix': 'Bug Fix',
+  'refactoring': 'Refactoring',
+  'explanation': 'Explanation',
+  'documentation': 'Documentation',
+  'testing': 'Testing',
+  'architecture': 'Architecture',
+  'deployment': 'Deployment',
+  'data-analysis': 'Data Analysis',
+  'general': 'General',
+  'unknown': 'Unknown',
+};
+
+const roleOptions: Array<{ value: 'user' | 'assistant' | undefined; label: string }> = [
+  { value: undefined, label: 'All' },
+  { value: 'user', label: 'User' },
+  { value: 'assistant', label: 'Assistant' },
+];
+
+/**
+ * Render a snippet with <mark> highlights as text nodes (never as HTML)
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <p className="text-sm text-gray-300 break-words">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-accent-primary/30 text-gray-100 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+function hitLink(hit: SearchHit): string {
+  const base = `/conversations/${encodeURIComponent(hit.conversationId)}`;
+  return hit.turnId ? `${base}#turn-${hit.turnId}` : base;
+}
+
+export default function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get('q') ?? '';
+  const role = (searchParams.get('role') ?? undefined) as 'user' | 'assistant' | undefined;
+  const project = searchParams.get('project') ?? undefined;
+  const category = (searchParams.get('category') ?? undefined) as TaskCategory | undefined;
+  const from = searchParams.get('from') ?? undefined;
+  const to = searchParams.get('to') ?? undefined;
+  const offset = Number(searchParams.get('offset') ?? 0);
+
+  const [input, setInput] = useState(q);
+  const { data: projectsData } = useProjects();
+  const { data, isLoading, isFetching, error } = useSearch({
+    q,
+    role,
+    project,
+    category,
+    // Date inputs are local calendar days; make "to" inclusive
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  const projectNames = useMemo(
+    () => new Map(projectsData?.projects.map((p) => [p.id, p.displayName])),
+    [projectsData]
+  );
+
+  const updateParams = (updates: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    // Any filter change starts from the first page
+    if (!('offset' in updates)) next.delete('offset');
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: input.trim() || undefined });
+  };
+
+  const formatDate = (isoString: string | null) => {
+    if (!isoString) return '';
+    return new Date(isoString).toLocaleString();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Search</h2>
+        {data && q && (
+          <p className="text-gray-400">
+            {data.total.toLocaleString()} results{isFetching && ' · updating…'}
+          </p>
+        )}
+      </div>
+
+      {/* Query */}
+      <form onSubmit={handleSubmit} className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+        <input
+          type="search"
+          placeholder='Search prompts, responses and summaries (use "quotes" for exact phrases)'
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          autoFocus
+          className="w-full pl-10 pr-4 py-3 bg-dark-surface border border-dark-border rounded-lg
+                     text-gray-100 placeholder-gray-500 focus:outline-none focus:border-accent-primary"
+        />
+      </form>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex gap-2">
+          {roleOptions.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => updateParams({ role: option.value })}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                role === option.value
+                  ? 'bg-accent-secondary text-white'
+                  : 'bg-dark-hover text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={project ?? ''}
+          onChange={(e) => updateParams({ project: e.target.value || undefined })}
+          className="px-3 py-1.5 bg-dark-surface border border-dark-border rounded-lg text-sm text-gray-300"
+        >
+          <option value="">All projects</option>
+          {projectsData?.projects.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.displayName}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={category ?? ''}
+          onChange={(e) => updateParams({ category: e.target.value || undefined })}
+          className="px-3 py-1.5 bg-dark-surface border border-dark-border rounded-lg text-sm text-gray-300"
+          title="Category filters apply to user prompts"
+        >
+          <option value="">All categories</option>
+          {(Object.keys(categoryLabels) as TaskCategory[]).map((cat) => (
+            <option key={cat} value={cat}>
+              {categoryLabels[cat]}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <input
+            type="date"
+            value={from ?? ''}
+            onChange={(e) => updateParams({ from: e.target.value || undefined })}
+            className="px-2 py-1 bg-dark-surface border border-dark-border rounded-lg text-gray-300"
+          />
+          <span>–</span>
+          <input
+            type="date"
+            value={to ?? ''}
+            onChange={(e) => updateParams({ to: e.target.value || undefined })}
+            className="px-2 py-1 bg-dark-surface border border-dark-border rounded-lg text-gray-300"
+          />
+        </div>
+      </div>
+
+      {/* Results */}
+      {!q ? (
+        <div className="card text-center py-12">
+          <Search className="mx-auto text-gray-500 mb-4" size={48} />
+          <p className="text-gray-400">Search across every imported conversation</p>
+        </div>
+      ) : isLoading ? (
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="card animate-pulse">
+              <div className="h-4 w-48 bg-dark-border rounded mb-3"></div>
+              <div className="h-4 w-full bg-dark-border rounded"></div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="card">
+          <p className="text-red-400">Error searching: {error.message}</p>
+        </div>
+      ) : data && data.hits.length > 0 ? (
+        <div className="space-y-3">
+          {data.hits.map((hit) => (
+            <Link
+              key={`${hit.kind}-${hit.turnId ?? hit.conversationId}`}
+              to={hitLink(hit)}
+              className="card-hover block"
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+                {hit.kind === 'summary' ? (
+                  <FileText size={14} className="text-accent-secondary" />
+                ) : hit.role === 'user' ? (
+                  <User size={14} className="text-accent-primary" />
+                ) : (
+                  <Bot size={14} className="text-accent-success" />
+                )}
+                <span className="font-medium text-gray-300">
+                  {projectNames.get(hit.project) ?? hit.project}
+                </span>
+                <span>·</span>
+                <span>{hit.kind === 'summary' ? 'Session summary' : formatDate(hit.timestamp)}</span>
+                {hit.category && (
+                  <span className="ml-auto px-2 py-0.5 rounded-full bg-dark-hover text-gray-400">
+                    {categoryLabels[hit.category]}
+                  </span>
+                )}
+              </div>
+              <Snippet text={hit.snippet} />
+            </Link>
+          ))}
+
+          {data.total > PAGE_SIZE && (
+            <div className="flex items-center justify-between pt-2 text-sm text-gray-400">
+              <button
+                disabled={offset === 0}
+                onClick={() => updateParams({ offset: offset > PAGE_SIZE ? String(offset - PAGE_SIZE) : undefined })}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-dark-hover disabled:opacity-40"
+              >
+                <ChevronLeft size={16} /> Previous
+              </button>
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, data.total)} of {data.total.toLocaleString()}
+              </span>
+              <button
+                disabled={offset + PAGE_SIZE >= data.total}
+                onClick={() => updateParams({ offset: String(offset + PAGE_SIZE) })}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-dark-hover disabled:opacity-40"
+              >
+                Next <ChevronRight size={16} />
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="card text-center py-12">
+          <MessageSquare className="mx-auto text-gray-500 mb-4" size={48} />
+          <p className="text-gray-400">No conversations match “{q}”</p>
+        </div>
+      )}
+    </div>
+  );
+}
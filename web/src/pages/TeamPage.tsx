@@ -0,0 +1,240 @@
+import { useState, type ChangeEvent } from 'react';
+import { AlertTriangle, FileText, Lock, MessageSquare, Target, Upload, Users } from 'lucide-react';
+import StatsCard from '@/components/dashboard/StatsCard';
+import GoldenRadar from '@/components/charts/GoldenRadar';
+import VolumeTrendChart from '@/components/charts/VolumeTrendChart';
+import {
+  useTeamMembers,
+  useTeamStats,
+  useTeamTrends,
+  useTeamInsights,
+  useImportTeamBundle,
+} from '@/hooks/useTeam';
+import type { TeamTrendMetric } from '@/api/client';
+
+type Period = '7d' | '30d' | '90d';
+
+const METRIC_LABELS: Record<TeamTrendMetric, string> = {
+  volume: 'Conversations',
+  effectiveness: 'Effectiveness',
+  quality: 'Quality',
+  golden: 'GOLDEN',
+};
+
+export default function TeamPage() {
+  const [period, setPeriod] = useState<Period>('30d');
+  const [metric, setMetric] = useState<TeamTrendMetric>('volume');
+  // undefined = whole team; only opted-in members can be selected
+  const [member, setMember] = useState<string | undefined>(undefined);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const { data: membersData } = useTeamMembers();
+  const { data: stats, isLoading: statsLoading, error } = useTeamStats({ period, member });
+  const { data: trends, isLoading: trendsLoading } = useTeamTrends({ period, metric, member });
+  const { data: insights } = useTeamInsights({ period, member });
+  const importBundle = useImportTeamBundle();
+
+  const members = membersData?.members ?? [];
+  const optedIn = members.filter((m) => m.shareDetails);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const bundle: unknown = JSON.parse(await file.text());
+      setFileError(null);
+      importBundle.mutate(bundle);
+    } catch {
+      importBundle.reset();
+      setFileError(`${file.name} is not a JSON team bundle`);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pb-12">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Users className="text-accent-primary" size={28} />
+          <h2 className="text-3xl font-bold tracking-tight text-app-text-primary">Team</h2>
+        </div>
+
+        <label className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-dark-surface border border-dark-border text-gray-400 hover:text-gray-100 cursor-pointer transition-colors">
+          <Upload size={16} />
+          {importBundle.isPending ? 'Importing…' : 'Import bundle'}
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleUpload} />
+        </label>
+      </div>
+
+      {importBundle.isSuccess && (
+        <p className="text-sm text-accent-success">
+          Imported {importBundle.data.member}: {importBundle.data.conversations} conversations, {importBundle.data.prompts} prompts
+        </p>
+      )}
+      {fileError && <p className="text-sm text-red-400">{fileError}</p>}
+      {importBundle.isError && (
+        <p className="text-sm text-red-400">Import failed: {importBundle.error.message}</p>
+      )}
+
+      {/* Scope and period */}
+      <div className="flex flex-wrap gap-4">
+        <div className="flex flex-wrap gap-2">
+          {[undefined, ...optedIn.map((m) => m.name)].map((name) => (
+            <button
+              key={name ?? 'team'}
+              onClick={() => setMember(name)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                member === name
+                  ? 'bg-accent-primary text-white'
+                  : 'bg-dark-surface border border-dark-border text-gray-400 hover:text-gray-100'
+              }`}
+            >
+              {name ?? 'Whole Team'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          {(['7d', '30d', '90d'] as Period[]).map((p) => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                period === p
+                  ? 'bg-accent-secondary text-dark-bg'
+                  : 'bg-dark-surface border border-dark-border text-gray-400 hover:text-gray-100'
+              }`}
+            >
+              {p === '7d' ? '7 Days' : p === '30d' ? '30 Days' : '90 Days'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {members.length === 0 ? (
+        <div className="card py-12 text-center bg-transparent border-dashed border-dark-border">
+          <p className="text-gray-400 text-sm">No team bundles imported yet.</p>
+          <p className="text-gray-500 text-xs mt-2">
+            Each member runs <code>pe export --team</code> and imports the file here or POSTs it to /api/team/import.
+          </p>
+        </div>
+      ) : error ? (
+        <div className="card">
+          <p className="text-red-400">Error loading team stats: {error.message}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
+            <StatsCard title={member ? 'Conversations' : 'Team Conversations'} value={stats?.conversations ?? 0} icon={MessageSquare} loading={statsLoading} />
+            <StatsCard title="Prompts" value={stats?.prompts ?? 0} icon={FileText} loading={statsLoading} color="secondary" />
+            <StatsCard title="Avg Effectiveness" value={stats?.avgEffectiveness ?? 0} format="percent" icon={Target} loading={statsLoading} color="success" />
+            <StatsCard title="Avg Quality" value={stats?.avgQuality ?? 0} format="percent" icon={Target} loading={statsLoading} color="warning" />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="card">
+              <h3 className="text-lg font-semibold mb-4">GOLDEN Averages</h3>
+              {stats && <GoldenRadar scores={stats.goldenScores} />}
+            </div>
+
+            <div className="card">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold">{METRIC_LABELS[metric]} Trend</h3>
+                <div className="flex gap-1">
+                  {(Object.keys(METRIC_LABELS) as TeamTrendMetric[]).map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => setMetric(m)}
+                      className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                        metric === m ? 'bg-accent-primary text-white' : 'text-gray-400 hover:text-gray-100'
+                      }`}
+                    >
+                      {METRIC_LABELS[m]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {trendsLoading ? (
+                <div className="h-80 flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent-primary"></div>
+                </div>
+              ) : trends && trends.data.length > 0 ? (
+                <VolumeTrendChart data={trends.data} trend={trends.trend} changePercent={trends.changePercent} />
+              ) : (
+                <div className="h-80 flex items-center justify-center text-gray-400">
+                  No data available for the selected period
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="card">
+              <h3 className="text-lg font-semibold mb-4">Task Categories</h3>
+              <div className="space-y-3">
+                {insights?.categoryBreakdown.map((c) => (
+                  <div key={c.category}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-app-text-primary">{c.category}</span>
+                      <span className="text-gray-400">
+                        {c.percentage}% · GOLDEN {(c.avgGolden * 100).toFixed(0)}
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-dark-border rounded-full overflow-hidden">
+                      <div className="h-full bg-accent-secondary" style={{ width: `${c.percentage}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="card">
+              <div className="flex items-center gap-2 mb-4">
+                <AlertTriangle className="text-accent-warning" size={18} />
+                <h3 className="text-lg font-semibold">Common Anti-Patterns</h3>
+              </div>
+              {insights && insights.antiPatterns.length > 0 ? (
+                <ul className="space-y-2">
+                  {insights.antiPatterns.slice(0, 8).map((a) => (
+                    <li key={a.pattern} className="flex justify-between text-sm">
+                      <span className="text-app-text-primary">{a.pattern}</span>
+                      <span className="text-gray-400">{a.percentage}% of prompts</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-500 text-sm">No anti-patterns detected</p>
+              )}
+              {insights && insights.outcomes.attributed > 0 && (
+                <p className="text-xs text-gray-500 mt-4">
+                  Retry rate {(insights.outcomes.retryRate * 100).toFixed(0)}% · avg friction {insights.outcomes.avgFriction.toFixed(2)}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Members: no scores, only who shared what */}
+          <div className="card">
+            <h3 className="text-lg font-semibold mb-4">Members</h3>
+            <ul className="divide-y divide-dark-border">
+              {members.map((m) => (
+                <li key={m.name} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-app-text-primary">{m.name}</span>
+                  <span className="flex items-center gap-3 text-gray-400">
+                    {m.redactedPrompts && <span className="text-xs">prompt text redacted</span>}
+                    {m.shareDetails ? (
+                      <span className="text-xs">{m.prompts} prompts shared</span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-xs"><Lock size={12} /> aggregate only</span>
+                    )}
+                    <span className="text-xs">exported {new Date(m.exportedAt).toLocaleDateString()}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
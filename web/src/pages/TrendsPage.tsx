@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useTrends } from '@/hooks/useTrends';
 import VolumeTrendChart from '@/components/charts/VolumeTrendChart';
 
-type Metric = 'volume' | 'effectiveness' | 'quality';
+type Metric = 'volume' | 'effectiveness' | 'quality' | 'cost';
 type Period = '7d' | '30d' | '90d';
 type GroupBy = 'day' | 'week' | 'month';
 
@@ -21,7 +21,7 @@ export default function TrendsPage() {
       <div className="flex flex-wrap gap-4">
         {/* Metric selector */}
         <div className="flex gap-2">
-          {(['volume', 'effectiveness', 'quality'] as Metric[]).map((m) => (
+          {(['volume', 'effectiveness', 'quality', 'cost'] as Metric[]).map((m) => (
             <button
               key={m}
               onClick={() => setMetric(m)}